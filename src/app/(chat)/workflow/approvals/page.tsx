@@ -0,0 +1,148 @@
+"use client";
+
+import { useState } from "react";
+import { format } from "date-fns";
+import { useTranslations } from "next-intl";
+import Link from "next/link";
+import { toast } from "sonner";
+import { safe } from "ts-safe";
+import { CheckIcon, HandIcon, Loader2, XIcon } from "lucide-react";
+
+import { useWorkflowApprovals } from "@/hooks/queries/use-workflow-approvals";
+import { WorkflowApproval } from "app-types/workflow";
+import { fetcher } from "lib/utils";
+import { Avatar, AvatarFallback, AvatarImage } from "ui/avatar";
+import { Button } from "ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "ui/card";
+import { Skeleton } from "ui/skeleton";
+import { Textarea } from "ui/textarea";
+import { handleErrorWithToast } from "ui/shared-toast";
+
+function ApprovalCard({
+  approval,
+  onDecided,
+}: {
+  approval: WorkflowApproval;
+  onDecided: () => void;
+}) {
+  const t = useTranslations();
+  const [comment, setComment] = useState("");
+  const [deciding, setDeciding] = useState<"approve" | "reject">();
+
+  const decide = (approved: boolean) => {
+    setDeciding(approved ? "approve" : "reject");
+    safe(() =>
+      fetcher(`/api/workflow/approvals/${approval.id}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ approved, comment: comment || undefined }),
+      }),
+    )
+      .ifOk(() => {
+        toast.success(
+          t(
+            approved
+              ? "Workflow.approvalApproved"
+              : "Workflow.approvalRejected",
+          ),
+        );
+        onDecided();
+      })
+      .ifFail((e) => handleErrorWithToast(e))
+      .watch(() => setDeciding(undefined));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Avatar
+            style={approval.workflowIcon?.style}
+            className="size-6 ring-[1px] ring-input rounded-full"
+          >
+            <AvatarImage src={approval.workflowIcon?.value} />
+            <AvatarFallback>
+              {approval.workflowName?.slice(0, 1)}
+            </AvatarFallback>
+          </Avatar>
+          <Link
+            href={`/workflow/${approval.workflowId}`}
+            className="hover:underline truncate"
+          >
+            {approval.workflowName}
+          </Link>
+          <span className="text-muted-foreground font-normal text-sm truncate">
+            {approval.nodeName}
+          </span>
+          <span className="ml-auto text-xs text-muted-foreground font-normal">
+            {format(new Date(approval.createdAt), "MMM d, HH:mm")}
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-3">
+        {approval.message && (
+          <p className="text-sm whitespace-pre-wrap">{approval.message}</p>
+        )}
+        <Textarea
+          value={comment}
+          maxLength={1000}
+          placeholder={t("Workflow.approvalCommentPlaceholder")}
+          className="resize-none"
+          onChange={(e) => setComment(e.target.value)}
+        />
+        <div className="flex justify-end gap-2">
+          <Button
+            variant="outline"
+            disabled={!!deciding}
+            onClick={() => decide(false)}
+          >
+            {deciding == "reject" ? (
+              <Loader2 className="size-4 animate-spin" />
+            ) : (
+              <XIcon className="size-4" />
+            )}
+            {t("Workflow.reject")}
+          </Button>
+          <Button disabled={!!deciding} onClick={() => decide(true)}>
+            {deciding == "approve" ? (
+              <Loader2 className="size-4 animate-spin" />
+            ) : (
+              <CheckIcon className="size-4" />
+            )}
+            {t("Workflow.approve")}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function WorkflowApprovalsPage() {
+  const t = useTranslations();
+  const { data: approvals = [], isLoading, mutate } = useWorkflowApprovals();
+
+  return (
+    <div className="w-full max-w-3xl mx-auto flex flex-col gap-4 p-8">
+      <div className="flex items-center gap-2">
+        <h2 className="text-lg font-semibold">{t("Workflow.approvals")}</h2>
+        <div className="flex-1 h-px bg-border" />
+      </div>
+      {isLoading && !approvals.length ? (
+        <Skeleton className="w-full h-48" />
+      ) : approvals.length ? (
+        approvals.map((approval) => (
+          <ApprovalCard
+            key={approval.id}
+            approval={approval}
+            onDecided={() => mutate()}
+          />
+        ))
+      ) : (
+        <div className="flex flex-col items-center gap-2 py-16 text-sm text-muted-foreground">
+          <HandIcon className="size-6" />
+          {t("Workflow.noApprovals")}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -42,7 +42,6 @@ const createWithExample = async (exampleWorkflow: {
     body: JSON.stringify({
       ...exampleWorkflow.workflow,
       noGenerateInputNode: true,
-      isPublished: true,
     }),
   });
 
@@ -59,6 +58,12 @@ const createWithExample = async (exampleWorkflow: {
     },
   );
   if (!structureResponse.ok) return toast.error("Error creating workflow");
+  const publishResponse = await fetch(`/api/workflow/${workflow.id}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ isPublished: true }),
+  });
+  if (!publishResponse.ok) return toast.error("Error creating workflow");
   return workflow.id as string;
 };
 
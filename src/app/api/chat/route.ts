@@ -12,16 +12,13 @@ import { customModelProvider, isToolCallUnsupportedModel } from "lib/ai/models";
 
 import { mcpClientsManager } from "lib/ai/mcp/mcp-manager";
 
-import {
-  agentRepository,
-  chatRepository,
-  knowledgeBaseRepository,
-} from "lib/db/repository";
+import { agentRepository, chatRepository } from "lib/db/repository";
 import globalLogger from "logger";
 import {
   buildMcpServerCustomizationsSystemPrompt,
   buildUserSystemPrompt,
   buildToolCallUnsupportedModelSystemPrompt,
+  buildKnowledgeBaseSystemPrompt,
 } from "lib/ai/prompts";
 import { chatApiSchemaRequestBodySchema, ChatMetadata } from "app-types/chat";
 
@@ -35,6 +32,7 @@ import {
   extractInProgressToolPart,
   filterMcpServerCustomizations,
   loadMcpTools,
+  loadMcpResourceContext,
   loadWorkFlowTools,
   loadAppDefaultTools,
   convertToSavePart,
@@ -50,9 +48,16 @@ import {
   buildToolUsageLog,
   logEmbeddingUsage,
   logModelUsageFromMetadata,
+  logRerankUsage,
   logToolUsageBatch,
 } from "lib/analytics/usage-logger";
-import { embedQuery } from "lib/rag/embedder";
+import { retrieveKnowledgeBaseChunks } from "lib/rag/retrieval";
+import { formatChunkCitation } from "lib/rag/citation";
+import { AppDefaultToolkit } from "lib/ai/tools";
+import {
+  countKnowledgeBaseCitations,
+  KnowledgeBaseToolContext,
+} from "lib/ai/tools/knowledge-base/search-knowledge-base";
 import { ToolUsageLogInsert } from "app-types/analytics";
 import { VercelAIMcpTool } from "app-types/mcp";
 
@@ -88,9 +93,17 @@ export async function POST(request: Request) {
       toolChoice,
       allowedAppDefaultToolkit,
       allowedMcpServers,
-      mentions = [],
+      mentions: requestMentions = [],
     } = chatApiSchemaRequestBodySchema.parse(json);
 
+    // Attached resources add context and do not narrow the available tools
+    const resourceMentions = requestMentions.filter(
+      (mention) => mention.type == "mcpResource",
+    );
+    const mentions = requestMentions.filter(
+      (mention) => mention.type != "mcpResource",
+    );
+
     const model = customModelProvider.getModel(chatModel);
 
     let thread = await chatRepository.selectThreadDetails(id);
@@ -130,86 +143,140 @@ export async function POST(request: Request) {
     const agent = await rememberAgentAction(agentId, session.user.id);
 
     if (agent?.instructions?.mentions) {
-      mentions.push(...agent.instructions.mentions);
+      for (const mention of agent.instructions.mentions) {
+        if (mention.type == "mcpResource") resourceMentions.push(mention);
+        else mentions.push(mention);
+      }
     }
 
     const knowledgeBaseIds =
       agent?.knowledgeBases?.map((kb) => kb.id).filter(Boolean) ?? [];
 
+    const isToolCallAllowed =
+      supportToolCall && (toolChoice != "none" || mentions.length > 0);
+
+    // Agents with linked knowledge bases search them through the
+    // searchKnowledgeBase tool; context is only injected up front when the
+    // model cannot call tools.
+    const useKnowledgeBaseTool =
+      isToolCallAllowed && knowledgeBaseIds.length > 0;
+
+    const knowledgeBaseToolContext: KnowledgeBaseToolContext = {
+      userId: session.user.id,
+      agentId: agent?.id ?? null,
+      organizationId: agent?.organizationId ?? null,
+      knowledgeBaseIds: knowledgeBaseIds.length ? knowledgeBaseIds : undefined,
+      rerank: agent?.knowledgeBaseRerank,
+      citationOffset: countKnowledgeBaseCitations(messages),
+      citations: [],
+    };
+
     let knowledgeBaseMetadata: ChatMetadata["knowledgeBase"] | undefined;
 
-    if (knowledgeBaseIds.length) {
+    if (knowledgeBaseIds.length && !useKnowledgeBaseTool) {
       const queryText = extractPlainTextFromMessage(message);
       if (queryText) {
-        const { embeddings, tokens } = await embedQuery(queryText);
-        const embeddingVector = embeddings.at(0);
-
-        if (embeddingVector) {
-          const searchResults =
-            await knowledgeBaseRepository.searchKnowledgeBaseChunks({
-              knowledgeBaseIds,
-              embedding: embeddingVector,
-              limit: 6,
-            });
-
-          if (searchResults.length) {
-            knowledgeBaseMetadata = {
-              knowledgeBaseIds,
-              retrievedChunks: searchResults.map((chunk) => ({
-                knowledgeBaseId: chunk.knowledgeBaseId,
-                documentId: chunk.documentId,
-                documentName: chunk.documentName,
-                score: chunk.score,
-              })),
-            };
+        const {
+          chunks: searchResults,
+          usage: embeddingUsage,
+          rerankUsage,
+        } = await retrieveKnowledgeBaseChunks({
+          knowledgeBaseIds,
+          query: queryText,
+          limit: 6,
+          rerank: agent?.knowledgeBaseRerank,
+        });
 
-            const contextText = searchResults
-              .map(
-                (chunk, index) =>
-                  `Source ${index + 1} (Knowledge Base ${chunk.knowledgeBaseId}, Document: ${chunk.documentName}):\n${chunk.content}`,
-              )
-              .join("\n\n---\n\n");
-
-            messages.splice(messages.length - 1, 0, {
-              id: generateUUID(),
-              role: "system",
-              parts: [
-                {
-                  type: "text",
-                  text: `The following context was retrieved from linked knowledge bases. Use it only when relevant and cite the document title when referencing it.\n\n${contextText}`,
-                },
-              ],
-            });
-
-            if (tokens > 0) {
-              await logEmbeddingUsage({
-                userId: session.user.id,
-                agentId: agent?.id ?? null,
-                knowledgeBaseId:
-                  knowledgeBaseIds.length === 1 ? knowledgeBaseIds[0] : null,
-                organizationId: agent?.organizationId ?? null,
-                documentId: null,
-                operation: "query",
-                tokens,
-                model: "text-embedding-3-small",
-                metadata: {
-                  knowledgeBaseIds,
-                  retrievedDocuments: searchResults.map((chunk) => ({
-                    knowledgeBaseId: chunk.knowledgeBaseId,
-                    documentId: chunk.documentId,
-                    documentName: chunk.documentName,
-                    score: chunk.score,
-                  })),
-                },
-              });
-            }
-          }
+        if (searchResults.length) {
+          knowledgeBaseMetadata = {
+            knowledgeBaseIds,
+            retrievedChunks: searchResults.map((chunk) => ({
+              knowledgeBaseId: chunk.knowledgeBaseId,
+              documentId: chunk.documentId,
+              documentName: chunk.documentName,
+              citation: formatChunkCitation(chunk),
+              score: chunk.score,
+            })),
+          };
+
+          const contextText = searchResults
+            .map(
+              (chunk, index) =>
+                `Source ${index + 1} (Knowledge Base ${chunk.knowledgeBaseId}, ${formatChunkCitation(chunk)}):\n${chunk.content}`,
+            )
+            .join("\n\n---\n\n");
+
+          messages.splice(messages.length - 1, 0, {
+            id: generateUUID(),
+            role: "system",
+            parts: [
+              {
+                type: "text",
+                text: `The following context was retrieved from linked knowledge bases. Use it only when relevant and cite the source label (document, page and section) when referencing it.\n\n${contextText}`,
+              },
+            ],
+          });
+        }
+
+        for (const usage of embeddingUsage) {
+          if (usage.tokens <= 0) continue;
+          await logEmbeddingUsage({
+            userId: session.user.id,
+            agentId: agent?.id ?? null,
+            knowledgeBaseId:
+              usage.knowledgeBaseIds.length === 1
+                ? usage.knowledgeBaseIds[0]
+                : null,
+            organizationId: agent?.organizationId ?? null,
+            documentId: null,
+            operation: "query",
+            tokens: usage.tokens,
+            model: usage.model,
+            metadata: {
+              knowledgeBaseIds: usage.knowledgeBaseIds,
+              retrievedDocuments: searchResults
+                .filter((chunk) =>
+                  usage.knowledgeBaseIds.includes(chunk.knowledgeBaseId),
+                )
+                .map((chunk) => ({
+                  knowledgeBaseId: chunk.knowledgeBaseId,
+                  documentId: chunk.documentId,
+                  documentName: chunk.documentName,
+                  score: chunk.score,
+                })),
+            },
+          });
+        }
+
+        if (rerankUsage) {
+          await logRerankUsage({
+            userId: session.user.id,
+            agentId: agent?.id ?? null,
+            organizationId: agent?.organizationId ?? null,
+            knowledgeBaseIds,
+            usage: rerankUsage,
+            returnedChunks: searchResults.length,
+          });
         }
       }
     }
 
-    const isToolCallAllowed =
-      supportToolCall && (toolChoice != "none" || mentions.length > 0);
+    const resourceContext = await loadMcpResourceContext(
+      resourceMentions,
+      session.user.id,
+    );
+    if (resourceContext) {
+      messages.splice(messages.length - 1, 0, {
+        id: generateUUID(),
+        role: "system",
+        parts: [
+          {
+            type: "text",
+            text: `The following MCP resources were attached to the conversation as context. Use them only when relevant.\n\n${resourceContext}`,
+          },
+        ],
+      });
+    }
 
     const metadata: ChatMetadata = {
       agentId: agent?.id,
@@ -237,6 +304,7 @@ export async function POST(request: Request) {
             loadMcpTools({
               mentions,
               allowedMcpServers,
+              userId: session.user.id,
             }),
           )
           .orElse({});
@@ -247,6 +315,8 @@ export async function POST(request: Request) {
             loadWorkFlowTools({
               mentions,
               dataStream,
+              userId: session.user.id,
+              threadId: thread!.id,
             }),
           )
           .orElse({});
@@ -257,6 +327,9 @@ export async function POST(request: Request) {
             loadAppDefaultTools({
               mentions,
               allowedAppDefaultToolkit,
+              requiredAppDefaultToolkit: useKnowledgeBaseTool
+                ? [AppDefaultToolkit.KnowledgeBase]
+                : [],
             }),
           )
           .orElse({});
@@ -324,6 +397,7 @@ export async function POST(request: Request) {
                   ...wrappedDefaultTools,
                 },
                 request.signal,
+                session.user.id,
               );
               part.output = output;
 
@@ -350,6 +424,8 @@ export async function POST(request: Request) {
         const systemPrompt = mergeSystemPrompt(
           buildUserSystemPrompt(session.user, userPreferences, agent),
           buildMcpServerCustomizationsSystemPrompt(mcpServerCustomizations),
+          useKnowledgeBaseTool &&
+            buildKnowledgeBaseSystemPrompt(agent?.knowledgeBases ?? []),
           !supportToolCall && buildToolCallUnsupportedModelSystemPrompt,
         );
 
@@ -397,6 +473,7 @@ export async function POST(request: Request) {
           stopWhen: stepCountIs(10),
           toolChoice: "auto",
           abortSignal: request.signal,
+          experimental_context: knowledgeBaseToolContext,
         });
         result.consumeStream();
         dataStream.merge(
@@ -404,6 +481,21 @@ export async function POST(request: Request) {
             messageMetadata: ({ part }) => {
               if (part.type == "finish") {
                 metadata.usage = part.totalUsage;
+                const { citations } = knowledgeBaseToolContext;
+                if (citations.length) {
+                  metadata.knowledgeBase = {
+                    knowledgeBaseIds: Array.from(
+                      new Set(citations.map((c) => c.knowledgeBaseId)),
+                    ),
+                    retrievedChunks: citations.map((c) => ({
+                      knowledgeBaseId: c.knowledgeBaseId,
+                      documentId: c.documentId,
+                      documentName: c.documentName,
+                      citation: c.citation,
+                      score: c.score,
+                    })),
+                  };
+                }
                 return metadata;
               }
             },
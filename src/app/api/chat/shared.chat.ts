@@ -28,7 +28,11 @@ import { MANUAL_REJECT_RESPONSE_PROMPT } from "lib/ai/prompts";
 
 import { ObjectJsonSchema7 } from "app-types/util";
 import { safe } from "ts-safe";
-import { workflowRepository } from "lib/db/repository";
+import {
+  mcpRepository,
+  workflowRepository,
+  workflowVersionRepository,
+} from "lib/db/repository";
 
 import {
   VercelAIWorkflowTool,
@@ -37,6 +41,8 @@ import {
   VercelAIWorkflowToolTag,
 } from "app-types/workflow";
 import { createWorkflowExecutor } from "lib/ai/workflow/executor/workflow-executor";
+import { WorkflowRuntimeState } from "lib/ai/workflow/executor/graph-store";
+import { recordWorkflowRun } from "lib/ai/workflow/executor/workflow-run-recorder";
 import { NodeKind } from "lib/ai/workflow/workflow.interface";
 import { mcpClientsManager } from "lib/ai/mcp/mcp-manager";
 import { APP_DEFAULT_TOOL_KIT } from "lib/ai/tools/tool-kit";
@@ -116,6 +122,7 @@ export function manualToolExecuteByLastMessage(
   part: ToolUIPart,
   tools: Record<string, VercelAIMcpTool | VercelAIWorkflowTool | Tool>,
   abortSignal?: AbortSignal,
+  userId?: string,
 ) {
   const { input } = part;
 
@@ -141,6 +148,7 @@ export function manualToolExecuteByLastMessage(
           tool._mcpServerId,
           tool._originToolName,
           input,
+          { toolCallId: part.toolCallId, userId },
         );
       }
       return tool.execute!(input, {
@@ -225,12 +233,16 @@ export const workflowToVercelAITool = ({
   schema,
   dataStream,
   name,
+  userId,
+  threadId,
 }: {
   id: string;
   name: string;
   description?: string;
   schema: ObjectJsonSchema7;
   dataStream: UIMessageStreamWriter;
+  userId?: string;
+  threadId?: string;
 }): VercelAIWorkflowTool => {
   const toolName = name
     .replace(/[^a-zA-Z0-9\s]/g, "")
@@ -253,111 +265,145 @@ export const workflowToVercelAITool = ({
         result: undefined,
         status: "running",
       });
-      return safe(id)
-        .map((id) =>
-          workflowRepository.selectStructureById(id, {
-            ignoreNote: true,
-          }),
-        )
-        .map((workflow) => {
-          if (!workflow) throw new Error("Not Found Workflow");
-          const executor = createWorkflowExecutor({
-            nodes: workflow.nodes,
-            edges: workflow.edges,
-          });
-          toolResult.workflowIcon = workflow.icon;
-
-          abortSignal?.addEventListener("abort", () => executor.exit());
-          executor.subscribe((e) => {
-            if (
-              e.eventType == "WORKFLOW_START" ||
-              e.eventType == "WORKFLOW_END"
-            )
-              return;
-            if (e.node.name == "SKIP") return;
-            if (e.eventType == "NODE_START") {
-              const node = workflow.nodes.find(
-                (node) => node.id == e.node.name,
-              )!;
-              if (!node) return;
-              history.push({
-                id: e.nodeExecutionId,
-                name: node.name,
-                status: "running",
-                startedAt: e.startedAt,
-                kind: node.kind as NodeKind,
-              });
-            } else if (e.eventType == "NODE_END") {
-              const result = history.find((r) => r.id == e.nodeExecutionId);
-              if (result) {
-                if (e.isOk) {
-                  result.status = "success";
-                  result.result = {
-                    input: e.node.output.getInput(e.node.name),
-                    output: e.node.output.getOutput({
-                      nodeId: e.node.name,
-                      path: [],
-                    }),
-                  };
-                } else {
-                  result.status = "fail";
-                  result.error = {
-                    name: e.error?.name || "ERROR",
-                    message: errorToString(e.error),
-                  };
+      return (
+        safe(id)
+          // Chat runs the published version while the draft is being edited.
+          .map((id) =>
+            workflowVersionRepository.selectPublishedStructure(id, {
+              ignoreNote: true,
+            }),
+          )
+          .map((workflow) => {
+            if (!workflow) throw new Error("Not Found Workflow");
+            const executor = createWorkflowExecutor({
+              nodes: workflow.nodes,
+              edges: workflow.edges,
+              context: { userId, workflowIds: [workflow.id] },
+            });
+            toolResult.workflowIcon = workflow.icon;
+            // A run suspended for approval updates this tool result when
+            // it resumes
+            const recorder = recordWorkflowRun(executor, {
+              workflowId: workflow.id,
+              nodes: workflow.nodes,
+              userId,
+              trigger: "chat",
+              chat: threadId ? { threadId, toolCallId } : undefined,
+            });
+            toolResult.runId = recorder.runId;
+
+            abortSignal?.addEventListener("abort", () => executor.exit());
+            executor.subscribe((e) => {
+              if (
+                e.eventType == "WORKFLOW_START" ||
+                e.eventType == "WORKFLOW_END"
+              )
+                return;
+              if (e.node.name == "SKIP") return;
+              if (e.eventType == "NODE_START") {
+                const node = workflow.nodes.find(
+                  (node) => node.id == e.node.name,
+                )!;
+                if (!node) return;
+                history.push({
+                  id: e.nodeExecutionId,
+                  name: node.name,
+                  status: "running",
+                  startedAt: e.startedAt,
+                  kind: node.kind as NodeKind,
+                });
+              } else if (e.eventType == "NODE_END") {
+                const result = history.find((r) => r.id == e.nodeExecutionId);
+                if (result) {
+                  if (e.isOk) {
+                    const recoveredError = e.node.output.getError(e.node.name);
+                    result.status = e.node.output.isWaiting(e.node.name)
+                      ? "waiting"
+                      : recoveredError
+                        ? "recovered"
+                        : "success";
+                    result.error = recoveredError && {
+                      name: recoveredError.name,
+                      message: recoveredError.message,
+                    };
+                    result.result = {
+                      input: e.node.output.getInput(e.node.name),
+                      output: e.node.output.getOutput({
+                        nodeId: e.node.name,
+                        path: [],
+                      }),
+                    };
+                  } else {
+                    result.status = "fail";
+                    result.error = {
+                      name: e.error?.name || "ERROR",
+                      message: errorToString(e.error),
+                    };
+                  }
+                  result.endedAt = e.endedAt;
                 }
-                result.endedAt = e.endedAt;
               }
-            }
 
-            dataStream.write({
-              type: "tool-output-available",
-              toolCallId,
-              output: toolResult,
+              dataStream.write({
+                type: "tool-output-available",
+                toolCallId,
+                output: toolResult,
+              });
             });
-          });
-          return executor.run(
-            {
-              query: query ?? ({} as any),
-            },
-            {
-              disableHistory: true,
-            },
-          );
-        })
-        .map((result) => {
-          toolResult.endedAt = Date.now();
-          toolResult.status = result.isOk ? "success" : "fail";
-          toolResult.error = result.error
-            ? {
-                name: result.error.name || "ERROR",
-                message: errorToString(result.error) || "Unknown Error",
-              }
-            : undefined;
-          const outputNodeResults = history
-            .filter((h) => h.kind == NodeKind.Output)
-            .map((v) => v.result?.output)
-            .filter(Boolean);
-          toolResult.history = history.map((h) => ({
-            ...h,
-            result: undefined, // save tokens.
-          }));
-          toolResult.result =
-            outputNodeResults.length == 1
-              ? outputNodeResults[0]
-              : outputNodeResults;
-          return toolResult;
-        })
-        .ifFail((err) => {
-          return {
-            error: {
-              name: err?.name || "ERROR",
-              message: errorToString(err),
-              history,
-            },
-          };
-        })
-        .unwrap();
+            return executor.run(
+              {
+                query: query ?? ({} as any),
+              },
+              {
+                disableHistory: true,
+              },
+            );
+          })
+          .map((result) => {
+            toolResult.endedAt = Date.now();
+            const isWaiting =
+              result.isOk &&
+              !!(result.output as WorkflowRuntimeState).waitingNodeIds.length;
+            toolResult.status = isWaiting
+              ? "waiting"
+              : result.isOk
+                ? "success"
+                : "fail";
+            toolResult.error = result.error
+              ? {
+                  name: result.error.name || "ERROR",
+                  message: errorToString(result.error) || "Unknown Error",
+                }
+              : undefined;
+            const outputNodeResults = history
+              .filter((h) => h.kind == NodeKind.Output)
+              .map((v) => v.result?.output)
+              .filter(Boolean);
+            toolResult.history = history.map((h) => ({
+              ...h,
+              result: undefined, // save tokens.
+            }));
+            toolResult.result = isWaiting
+              ? {
+                  message:
+                    "The workflow is waiting for the user's approval. It continues on its own once they decide.",
+                }
+              : outputNodeResults.length == 1
+                ? outputNodeResults[0]
+                : outputNodeResults;
+            return toolResult;
+          })
+          .ifFail((err) => {
+            return {
+              error: {
+                name: err?.name || "ERROR",
+                message: errorToString(err),
+                history,
+              },
+            };
+          })
+          .unwrap()
+      );
     },
   }) as VercelAIWorkflowTool;
 
@@ -376,12 +422,16 @@ export const workflowToVercelAITools = (
     schema: ObjectJsonSchema7;
   }[],
   dataStream: UIMessageStreamWriter,
+  userId?: string,
+  threadId?: string,
 ) => {
   return workflows
     .map((v) =>
       workflowToVercelAITool({
         ...v,
         dataStream,
+        userId,
+        threadId,
       }),
     )
     .reduce(
@@ -396,8 +446,9 @@ export const workflowToVercelAITools = (
 export const loadMcpTools = (opt?: {
   mentions?: ChatMention[];
   allowedMcpServers?: Record<string, AllowedMCPServer>;
+  userId?: string;
 }) =>
-  safe(() => mcpClientsManager.tools())
+  safe(() => mcpClientsManager.tools({ userId: opt?.userId }))
     .map((tools) => {
       if (opt?.mentions?.length) {
         return filterMCPToolsByMentions(tools, opt.mentions);
@@ -406,9 +457,60 @@ export const loadMcpTools = (opt?: {
     })
     .orElse({} as Record<string, VercelAIMcpTool>);
 
+const MAX_MCP_RESOURCE_TEXT_LENGTH = 20000;
+
+/**
+ * Reads the MCP resources attached to a message and formats them as context.
+ * Resources of servers the user cannot access are skipped.
+ */
+export async function loadMcpResourceContext(
+  mentions: ChatMention[],
+  userId: string,
+): Promise<string | undefined> {
+  const resourceMentions = mentions.filter(
+    (mention) => mention.type == "mcpResource",
+  );
+  if (!resourceMentions.length) return;
+
+  const accessibleServerIds = new Set(
+    (await mcpRepository.selectAccessibleForUser(userId)).map(
+      (server) => server.id,
+    ),
+  );
+  const sections = await Promise.all(
+    resourceMentions
+      .filter((mention) => accessibleServerIds.has(mention.serverId))
+      .map(async (mention) => {
+        const result = await safe(() =>
+          mcpClientsManager.readResource(mention.serverId, mention.uri, userId),
+        )
+          .ifFail((error) => {
+            logger.error(`Failed to read MCP resource ${mention.uri}`, error);
+          })
+          .orElse(undefined);
+        if (!result) return;
+        const content = result.contents
+          .map((item) => {
+            if (typeof item.text == "string") {
+              return item.text.length > MAX_MCP_RESOURCE_TEXT_LENGTH
+                ? `${item.text.slice(0, MAX_MCP_RESOURCE_TEXT_LENGTH)}\n[truncated]`
+                : item.text;
+            }
+            return `[binary content ${item.mimeType ?? "unknown type"} omitted]`;
+          })
+          .join("\n\n");
+        return `Resource "${mention.name}" (${mention.uri}) from ${mention.serverName ?? "MCP server"}:\n${content}`;
+      }),
+  );
+  const context = sections.filter(Boolean).join("\n\n---\n\n");
+  return context || undefined;
+}
+
 export const loadWorkFlowTools = (opt: {
   mentions?: ChatMention[];
   dataStream: UIMessageStreamWriter;
+  userId?: string;
+  threadId?: string;
 }) =>
   safe(() =>
     opt?.mentions?.length
@@ -419,15 +521,22 @@ export const loadWorkFlowTools = (opt: {
         )
       : [],
   )
-    .map((tools) => workflowToVercelAITools(tools, opt.dataStream))
+    .map((tools) =>
+      workflowToVercelAITools(tools, opt.dataStream, opt.userId, opt.threadId),
+    )
     .orElse({} as Record<string, VercelAIWorkflowTool>);
 
 export const loadAppDefaultTools = (opt?: {
   mentions?: ChatMention[];
   allowedAppDefaultToolkit?: string[];
+  requiredAppDefaultToolkit?: AppDefaultToolkit[];
 }) =>
   safe(APP_DEFAULT_TOOL_KIT)
     .map((tools) => {
+      const requiredTools = (opt?.requiredAppDefaultToolkit ?? []).reduce(
+        (acc, key) => ({ ...acc, ...tools[key] }),
+        {} as Record<string, Tool>,
+      );
       if (opt?.mentions?.length) {
         const defaultToolMentions = opt.mentions.filter(
           (m) => m.type == "defaultTool",
@@ -437,18 +546,15 @@ export const loadAppDefaultTools = (opt?: {
             return defaultToolMentions.some((m) => m.name == k);
           });
           return { ...acc, ...allowed };
-        }, {});
+        }, requiredTools);
       }
       const allowedAppDefaultToolkit =
         opt?.allowedAppDefaultToolkit ?? Object.values(AppDefaultToolkit);
 
       return (
-        allowedAppDefaultToolkit.reduce(
-          (acc, key) => {
-            return { ...acc, ...tools[key] };
-          },
-          {} as Record<string, Tool>,
-        ) || {}
+        allowedAppDefaultToolkit.reduce((acc, key) => {
+          return { ...acc, ...tools[key] };
+        }, requiredTools) || {}
       );
     })
     .ifFail((e) => {
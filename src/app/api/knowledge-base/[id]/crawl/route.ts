@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { getSession } from "auth/server";
+import { KnowledgeBaseCrawlCreateSchema } from "app-types/knowledge-base";
+import { knowledgeBaseRepository } from "lib/db/repository";
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const session = await getSession().catch(() => null);
+  if (!session?.user.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const crawls = await knowledgeBaseRepository.listCrawls(id, session.user.id);
+  return NextResponse.json(crawls);
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const session = await getSession().catch(() => null);
+  if (!session?.user.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id: knowledgeBaseId } = await params;
+
+  let payload: z.infer<typeof KnowledgeBaseCrawlCreateSchema>;
+  try {
+    const json = await request.json();
+    payload = KnowledgeBaseCrawlCreateSchema.parse(json);
+  } catch (_error) {
+    return NextResponse.json(
+      { error: "Invalid request body" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const crawl = await knowledgeBaseRepository.createCrawl(
+      session.user.id,
+      knowledgeBaseId,
+      payload,
+    );
+    return NextResponse.json(crawl, { status: 201 });
+  } catch (error) {
+    if (error instanceof Error && /Not authorized/i.test(error.message)) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    console.error("Failed to queue crawl", error);
+    return NextResponse.json(
+      { error: "Failed to queue crawl" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+
+import { getSession } from "auth/server";
+import { knowledgeBaseRepository } from "lib/db/repository";
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string; documentId: string }> },
+) {
+  const session = await getSession().catch(() => null);
+  if (!session?.user.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id: knowledgeBaseId, documentId } = await params;
+  const documents = await knowledgeBaseRepository.listKnowledgeBaseDocuments(
+    knowledgeBaseId,
+    session.user.id,
+  );
+
+  if (!documents.some((doc) => doc.id === documentId)) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const revisions = await knowledgeBaseRepository.listDocumentRevisions(
+    documentId,
+    session.user.id,
+  );
+
+  return NextResponse.json(revisions);
+}
@@ -29,6 +29,12 @@ export async function PATCH(
 
     const raw = await request.json();
     const payload = KnowledgeBaseDocumentUpdateSchema.parse(raw);
+    if (payload.refreshIntervalHours !== undefined && !existing.sourceUrl) {
+      return NextResponse.json(
+        { error: "Only documents imported from a website can be refreshed" },
+        { status: 400 },
+      );
+    }
     const updated = await knowledgeBaseRepository.updateDocument(
       documentId,
       session.user.id,
@@ -77,6 +83,16 @@ export async function DELETE(
     return NextResponse.json({ error: "Not found" }, { status: 404 });
   }
 
+  // Revisions are removed with the document, so collect their objects first.
+  const revisions = await knowledgeBaseRepository.listDocumentRevisions(
+    documentId,
+    session.user.id,
+  );
+  const storageKeys = new Set([
+    existing.storageKey,
+    ...revisions.map((revision) => revision.storageKey),
+  ]);
+
   try {
     await knowledgeBaseRepository.deleteDocument(documentId, session.user.id);
   } catch (error) {
@@ -87,12 +103,14 @@ export async function DELETE(
     );
   }
 
-  await deleteObject(existing.storageKey).catch((error) => {
-    console.warn(
-      `Failed to delete storage object for document ${existing.id}`,
-      error,
-    );
-  });
+  for (const storageKey of storageKeys) {
+    await deleteObject(storageKey).catch((error) => {
+      console.warn(
+        `Failed to delete storage object ${storageKey} for document ${existing.id}`,
+        error,
+      );
+    });
+  }
 
   return NextResponse.json({ success: true });
 }
@@ -7,6 +7,10 @@ import {
   generateDocumentStorageKey,
   uploadObject,
 } from "lib/storage/object-storage";
+import {
+  SUPPORTED_DOCUMENT_EXTENSIONS,
+  isSupportedDocument,
+} from "lib/rag/document-format";
 import { generateUUID } from "lib/utils";
 import { createHash } from "node:crypto";
 
@@ -51,6 +55,18 @@ export async function POST(
   });
 
   const buffer = Buffer.from(await file.arrayBuffer());
+
+  if (
+    !isSupportedDocument({ buffer, mimeType: file.type, fileName: file.name })
+  ) {
+    return NextResponse.json(
+      {
+        error: `Unsupported file type. Supported formats: ${SUPPORTED_DOCUMENT_EXTENSIONS.join(", ")}`,
+      },
+      { status: 415 },
+    );
+  }
+
   const checksum = createHash("sha256").update(buffer).digest("base64");
 
   try {
@@ -100,6 +100,14 @@ export async function DELETE(
     id,
     session.user.id,
   );
+  const storageKeys = new Set(documents.map((document) => document.storageKey));
+  for (const document of documents.filter((doc) => doc.revision > 1)) {
+    const revisions = await knowledgeBaseRepository.listDocumentRevisions(
+      document.id,
+      session.user.id,
+    );
+    revisions.forEach((revision) => storageKeys.add(revision.storageKey));
+  }
 
   try {
     await knowledgeBaseRepository.deleteKnowledgeBase(id, session.user.id);
@@ -115,10 +123,10 @@ export async function DELETE(
   }
 
   await Promise.all(
-    documents.map((document) =>
-      deleteObject(document.storageKey).catch((error) => {
+    Array.from(storageKeys, (storageKey) =>
+      deleteObject(storageKey).catch((error) => {
         console.warn(
-          `Failed to delete object ${document.storageKey} from storage`,
+          `Failed to delete object ${storageKey} from storage`,
           error,
         );
       }),
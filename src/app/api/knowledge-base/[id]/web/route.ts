@@ -2,44 +2,26 @@ import { NextResponse } from "next/server";
 import { z } from "zod";
 
 import { getSession } from "auth/server";
-import { knowledgeBaseRepository } from "lib/db/repository";
 import {
-  deleteObject,
-  generateDocumentStorageKey,
-  uploadObject,
-} from "lib/storage/object-storage";
-import { generateUUID } from "lib/utils";
-import { createHash } from "node:crypto";
+  KnowledgeBaseRefreshIntervalSchema,
+  KnowledgeBaseWebSourceOptionsSchema,
+} from "app-types/knowledge-base";
+import { knowledgeBaseRepository } from "lib/db/repository";
+import { deleteObject } from "lib/storage/object-storage";
+import { ExaRequestError } from "lib/exa/client";
 import {
-  ExaRequestError,
-  extractTextFromExaResult,
-  fetchExaContentsByUrls,
-} from "lib/exa/client";
+  WebSourceRequestError,
+  buildWebSourceFileName,
+  fetchWebSource,
+  uploadWebSourceContent,
+} from "lib/rag/web-source";
 
-const ImportWebsiteSchema = z.object({
+const ImportWebsiteSchema = KnowledgeBaseWebSourceOptionsSchema.extend({
   url: z.string().url(),
-  maxCharacters: z.number().int().min(500).max(12000).optional(),
-  livecrawl: z.enum(["always", "fallback", "preferred"]).optional(),
+  refreshIntervalHours:
+    KnowledgeBaseRefreshIntervalSchema.nullable().optional(),
 });
 
-function buildFileName(title: string | null | undefined, url: string): string {
-  const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-  const urlObj = new URL(url);
-  const fallback = `${urlObj.hostname}${urlObj.pathname}`
-    .replace(/\s+/g, " ")
-    .trim();
-
-  const base = title?.trim() || fallback || "web-page";
-  const slug = base
-    .toLowerCase()
-    .replace(/[^a-z0-9]+/g, "-")
-    .replace(/-+/g, "-")
-    .replace(/^-+|-+$/g, "")
-    .slice(0, 60);
-
-  return `${slug || "web-page"}-${timestamp}.txt`;
-}
-
 export async function POST(
   request: Request,
   { params }: { params: Promise<{ id: string }> },
@@ -63,25 +45,29 @@ export async function POST(
   }
 
   const targetUrl = payload.url;
+  const sourceOptions = {
+    maxCharacters: payload.maxCharacters,
+    livecrawl: payload.livecrawl,
+    fetcher: payload.fetcher,
+  };
 
   let contentText = "";
   let pageTitle: string | null | undefined;
 
   try {
-    const response = await fetchExaContentsByUrls([targetUrl], {
-      maxCharacters: payload.maxCharacters,
-      livecrawl: payload.livecrawl,
-    });
-    const result = response.results?.[0];
-    pageTitle = result?.title;
-    contentText = extractTextFromExaResult(result);
+    const source = await fetchWebSource(targetUrl, sourceOptions);
+    pageTitle = source.title;
+    contentText = source.text;
   } catch (error) {
-    if (error instanceof ExaRequestError) {
+    if (
+      error instanceof ExaRequestError ||
+      error instanceof WebSourceRequestError
+    ) {
       const status = error.status === 401 ? 502 : (error.status ?? 502);
       return NextResponse.json({ error: error.message }, { status });
     }
 
-    console.error("Failed to fetch content from Exa", error);
+    console.error("Failed to fetch website content", error);
     return NextResponse.json(
       { error: "Failed to fetch website content" },
       { status: 502 },
@@ -95,27 +81,16 @@ export async function POST(
     );
   }
 
-  const buffer = Buffer.from(contentText, "utf8");
-  const checksum = createHash("sha256").update(buffer).digest("base64");
-  const fileName = buildFileName(pageTitle, targetUrl);
-
-  const randomKeyId = generateUUID();
-  const storageKey = generateDocumentStorageKey({
-    knowledgeBaseId,
-    documentId: randomKeyId,
-    fileName,
-  });
+  const fileName = buildWebSourceFileName(pageTitle, targetUrl);
 
+  let stored: Awaited<ReturnType<typeof uploadWebSourceContent>>;
   try {
-    await uploadObject({
-      key: storageKey,
-      body: buffer,
-      contentType: "text/plain; charset=utf-8",
-      checksum,
-      metadata: {
-        "original-url": targetUrl,
-        source: "exa",
-      },
+    stored = await uploadWebSourceContent({
+      knowledgeBaseId,
+      fileName,
+      sourceUrl: targetUrl,
+      text: contentText,
+      fetcher: payload.fetcher,
     });
   } catch (error) {
     console.error("Failed to upload crawled content", error);
@@ -124,6 +99,7 @@ export async function POST(
       { status: 500 },
     );
   }
+  const { storageKey } = stored;
 
   try {
     const document = await knowledgeBaseRepository.insertDocumentPlaceholder(
@@ -131,10 +107,13 @@ export async function POST(
       {
         knowledgeBaseId,
         fileName,
-        fileSize: buffer.length,
+        fileSize: stored.fileSize,
         mimeType: "text/plain",
         storageKey,
-        checksum,
+        checksum: stored.checksum,
+        sourceUrl: targetUrl,
+        sourceOptions,
+        refreshIntervalHours: payload.refreshIntervalHours,
       },
     );
 
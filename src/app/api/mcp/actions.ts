@@ -1,6 +1,7 @@
 "use server";
 import { mcpClientsManager } from "lib/ai/mcp/mcp-manager";
 import { z } from "zod";
+import { getSession } from "auth/server";
 
 import { McpServerSchema } from "lib/db/pg/schema.pg";
 import {
@@ -100,12 +101,37 @@ export async function checkTokenMcpClientAction(id: string) {
   return !!session?.tokens;
 }
 
+export async function authorizeMcpUserClientAction(id: string) {
+  const session = await getSession();
+  if (!session?.user.id) throw new Error("Unauthorized");
+  await mcpClientsManager.refreshUserClient(id, session.user.id);
+  const client = await mcpClientsManager.getClientForUser(id, session.user.id);
+  await client.connect().catch(() => null);
+  if (client.status != "authorizing") {
+    throw new Error("Not Authorizing");
+  }
+  return client.getAuthorizationUrl()?.toString();
+}
+
+export async function checkTokenMcpUserClientAction(id: string) {
+  const session = await getSession();
+  if (!session?.user.id) throw new Error("Unauthorized");
+  const authenticated = await mcpOAuthRepository.getAuthenticatedSession(
+    id,
+    session.user.id,
+  );
+  return !!authenticated?.tokens;
+}
+
 export async function callMcpToolAction(
   id: string,
   toolName: string,
   input: unknown,
 ) {
-  return mcpClientsManager.toolCall(id, toolName, input);
+  const session = await getSession();
+  return mcpClientsManager.toolCall(id, toolName, input, {
+    userId: session?.user.id,
+  });
 }
 
 export async function callMcpToolByServerNameAction(
@@ -113,5 +139,8 @@ export async function callMcpToolByServerNameAction(
   toolName: string,
   input: unknown,
 ) {
-  return mcpClientsManager.toolCallByServerName(serverName, toolName, input);
+  const session = await getSession();
+  return mcpClientsManager.toolCallByServerName(serverName, toolName, input, {
+    userId: session?.user.id,
+  });
 }
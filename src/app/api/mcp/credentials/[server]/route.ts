@@ -0,0 +1,114 @@
+import {
+  MCPUserCredentialsUpdateZodSchema,
+  type MCPUserCredentialStatus,
+} from "app-types/mcp";
+import { getSession } from "auth/server";
+import {
+  getCredentialSlots,
+  missingMCPCredentials,
+} from "lib/ai/mcp/mcp-credentials";
+import { mcpClientsManager } from "lib/ai/mcp/mcp-manager";
+import {
+  mcpOAuthRepository,
+  mcpRepository,
+  mcpUserCredentialRepository,
+} from "lib/db/repository";
+
+async function getAccessibleServer(server: string, userId: string) {
+  const accessible = await mcpRepository.selectAccessibleForUser(userId);
+  return accessible.find((item) => item.id == server);
+}
+
+/**
+ * Which of the server's credential slots the user has filled in.
+ * The stored values never leave the server.
+ */
+export async function GET(
+  _: Request,
+  { params }: { params: Promise<{ server: string }> },
+) {
+  const { server } = await params;
+  const session = await getSession();
+  if (!session?.user.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+  const mcpServer = await getAccessibleServer(server, session.user.id);
+  if (!mcpServer) {
+    return new Response("Not Found", { status: 404 });
+  }
+
+  const [values, oauthSession] = await Promise.all([
+    mcpUserCredentialRepository.selectValues(server, session.user.id),
+    mcpOAuthRepository.getAuthenticatedSession(server, session.user.id),
+  ]);
+  const status: MCPUserCredentialStatus = {
+    slots: getCredentialSlots(mcpServer.config),
+    configured: Object.keys(values ?? {}).filter((key) => values?.[key]),
+    authorized: !!oauthSession?.tokens,
+  };
+  return Response.json(status);
+}
+
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ server: string }> },
+) {
+  const { server } = await params;
+  const session = await getSession();
+  if (!session?.user.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+  const mcpServer = await getAccessibleServer(server, session.user.id);
+  if (!mcpServer) {
+    return new Response("Not Found", { status: 404 });
+  }
+
+  const { values } = MCPUserCredentialsUpdateZodSchema.parse(
+    await request.json(),
+  );
+  // Empty inputs keep the stored value, so secrets need not be sent back
+  const slotNames = getCredentialSlots(mcpServer.config).flatMap((slot) =>
+    slot.type == "oauth" ? [] : [slot.name],
+  );
+  const stored =
+    (await mcpUserCredentialRepository.selectValues(server, session.user.id)) ??
+    {};
+  const merged = Object.fromEntries(
+    slotNames
+      .map((name) => [name, values[name] || stored[name]] as const)
+      .filter(([, value]) => value),
+  );
+  const missing = missingMCPCredentials(mcpServer.config, merged);
+  if (missing.length) {
+    return Response.json(
+      { message: `Missing credentials: ${missing.join(", ")}` },
+      { status: 400 },
+    );
+  }
+
+  await mcpUserCredentialRepository.upsertValues(
+    server,
+    session.user.id,
+    merged,
+  );
+  await mcpClientsManager.refreshUserClient(server, session.user.id);
+  return Response.json({ success: true });
+}
+
+export async function DELETE(
+  _: Request,
+  { params }: { params: Promise<{ server: string }> },
+) {
+  const { server } = await params;
+  const session = await getSession();
+  if (!session?.user.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+  if (!(await getAccessibleServer(server, session.user.id))) {
+    return new Response("Not Found", { status: 404 });
+  }
+
+  await mcpUserCredentialRepository.deleteValues(server, session.user.id);
+  await mcpClientsManager.refreshUserClient(server, session.user.id);
+  return Response.json({ success: true });
+}
@@ -0,0 +1,33 @@
+import { MCPElicitationResponseZodSchema } from "app-types/mcp";
+import { getSession } from "auth/server";
+import { respondElicitation } from "lib/ai/mcp/mcp-elicitation";
+import { errorToString } from "lib/utils";
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const session = await getSession();
+  if (!session?.user.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  const parsed = MCPElicitationResponseZodSchema.safeParse(
+    await request.json().catch(() => null),
+  );
+  if (!parsed.success) {
+    return Response.json({ message: "Invalid response" }, { status: 400 });
+  }
+  try {
+    if (!(await respondElicitation(id, session.user.id, parsed.data))) {
+      return Response.json(
+        { message: "The request is no longer waiting for input" },
+        { status: 404 },
+      );
+    }
+  } catch (error) {
+    return Response.json({ message: errorToString(error) }, { status: 400 });
+  }
+  return Response.json({ success: true });
+}
@@ -0,0 +1,14 @@
+import { getSession } from "auth/server";
+import { selectPendingElicitations } from "lib/ai/mcp/mcp-elicitation";
+
+export async function GET(request: Request) {
+  const session = await getSession();
+  if (!session?.user.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+  const toolCallId =
+    new URL(request.url).searchParams.get("toolCallId") ?? undefined;
+  return Response.json(
+    await selectPendingElicitations(session.user.id, toolCallId),
+  );
+}
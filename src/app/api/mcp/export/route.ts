@@ -0,0 +1,62 @@
+import { getSession } from "auth/server";
+import { createMCPConfigBundle } from "lib/ai/mcp/mcp-config-bundle";
+import {
+  mcpMcpToolCustomizationRepository,
+  mcpRepository,
+  mcpServerCustomizationRepository,
+} from "lib/db/repository";
+import { z } from "zod";
+
+/**
+ * Exports the selected servers with the user's customizations as a bundle.
+ * Header and env values are replaced with parameters.
+ */
+export async function POST(request: Request) {
+  const session = await getSession();
+  if (!session?.user.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+  const userId = session.user.id;
+
+  const parsed = z
+    .object({ ids: z.array(z.string()).min(1) })
+    .safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return Response.json({ message: "Invalid export" }, { status: 400 });
+  }
+  const { ids } = parsed.data;
+  const servers = (await mcpRepository.selectAccessibleForUser(userId)).filter(
+    (server) => ids.includes(server.id),
+  );
+
+  const bundle = createMCPConfigBundle(
+    await Promise.all(
+      servers.map(async (server) => {
+        const [serverCustomization, toolCustomizations] = await Promise.all([
+          mcpServerCustomizationRepository.selectByUserIdAndMcpServerId({
+            userId,
+            mcpServerId: server.id,
+          }),
+          mcpMcpToolCustomizationRepository.selectByUserIdAndMcpServerId({
+            userId,
+            mcpServerId: server.id,
+          }),
+        ]);
+        return {
+          name: server.name,
+          config: server.config,
+          customization: {
+            prompt: serverCustomization?.prompt,
+            tools: Object.fromEntries(
+              toolCustomizations
+                .filter((tool) => tool.prompt)
+                .map((tool) => [tool.toolName, tool.prompt!]),
+            ),
+          },
+        };
+      }),
+    ),
+  );
+
+  return Response.json(bundle);
+}
@@ -0,0 +1,49 @@
+import { MCPConfigImportZodSchema } from "app-types/mcp";
+import { getSession } from "auth/server";
+import {
+  parseMCPConfigBundle,
+  previewMCPConfigImport,
+} from "lib/ai/mcp/mcp-config-bundle";
+import { mcpRepository } from "lib/db/repository";
+import { errorToString } from "lib/utils";
+
+/**
+ * Validates a bundle and compares its servers with the existing ones.
+ */
+export async function POST(request: Request) {
+  const session = await getSession();
+  if (!session?.user.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  const parsed = MCPConfigImportZodSchema.safeParse(
+    await request.json().catch(() => null),
+  );
+  if (!parsed.success) {
+    return Response.json({ message: "Invalid import" }, { status: 400 });
+  }
+  let bundle: ReturnType<typeof parseMCPConfigBundle>;
+  try {
+    bundle = parseMCPConfigBundle(parsed.data.bundle);
+  } catch (error) {
+    return Response.json({ message: errorToString(error) }, { status: 400 });
+  }
+
+  const [accessible, allServers] = await Promise.all([
+    mcpRepository.selectAccessibleForUser(session.user.id),
+    mcpRepository.selectAll(),
+  ]);
+  const preview = previewMCPConfigImport(
+    bundle,
+    accessible.map((server) => ({
+      name: server.name,
+      config: server.config,
+      canManage:
+        server.scope === "personal" &&
+        (!server.ownerUserId || server.ownerUserId === session.user.id),
+    })),
+    allServers.map((server) => server.name),
+  );
+
+  return Response.json({ bundle, preview });
+}
@@ -0,0 +1,127 @@
+import {
+  MCPConfigImportZodSchema,
+  type MCPConfigBundleServer,
+  type MCPConfigImportResult,
+  type MCPServerConfig,
+  type McpServerSelect,
+} from "app-types/mcp";
+import { saveMcpClientAction } from "@/app/api/mcp/actions";
+import { getSession } from "auth/server";
+import {
+  parseMCPConfigBundle,
+  resolveMCPConfigParameters,
+} from "lib/ai/mcp/mcp-config-bundle";
+import { serverCache } from "lib/cache";
+import { CacheKeys } from "lib/cache/cache-keys";
+import {
+  mcpMcpToolCustomizationRepository,
+  mcpRepository,
+  mcpServerCustomizationRepository,
+} from "lib/db/repository";
+import { errorToString } from "lib/utils";
+
+/**
+ * Imports the servers of a bundle. Servers whose name is taken are skipped
+ * unless the request renames them or overwrites a server the user manages.
+ */
+export async function POST(request: Request) {
+  const session = await getSession();
+  if (!session?.user.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+  const userId = session.user.id;
+
+  const parsed = MCPConfigImportZodSchema.safeParse(
+    await request.json().catch(() => null),
+  );
+  if (!parsed.success) {
+    return Response.json({ message: "Invalid import" }, { status: 400 });
+  }
+  const { bundle: input, parameters, resolutions } = parsed.data;
+  let bundle: ReturnType<typeof parseMCPConfigBundle>;
+  try {
+    bundle = parseMCPConfigBundle(input);
+  } catch (error) {
+    return Response.json({ message: errorToString(error) }, { status: 400 });
+  }
+  const accessible = await mcpRepository.selectAccessibleForUser(userId);
+
+  const importServer = async (
+    server: MCPConfigBundleServer,
+  ): Promise<MCPConfigImportResult> => {
+    const resolution = resolutions[server.name];
+    const existing = await mcpRepository.selectByServerName(server.name);
+    if (resolution?.action == "skip" || (existing && !resolution)) {
+      return { name: server.name, status: "skipped" };
+    }
+
+    let target: Partial<McpServerSelect> & { name: string };
+    if (existing && resolution?.action == "overwrite") {
+      const access = accessible.find((item) => item.id == existing.id);
+      const canManage =
+        access?.scope === "personal" &&
+        (!access.ownerUserId || access.ownerUserId === userId);
+      if (!canManage) {
+        throw new Error(`You cannot overwrite ${server.name}`);
+      }
+      target = existing;
+    } else {
+      const name =
+        resolution?.action == "rename" ? resolution.name : server.name;
+      if (await mcpRepository.existsByServerName(name)) {
+        throw new Error(`Name already exists: ${name}`);
+      }
+      target = { name };
+    }
+
+    const persisted = await saveMcpClientAction(
+      {
+        id: target.id,
+        name: target.name,
+        config: resolveMCPConfigParameters(
+          server.config as MCPServerConfig,
+          parameters,
+          target.config,
+        ),
+      },
+      target.ownerUserId ?? userId,
+    );
+
+    const { prompt, tools = {} } = server.customization ?? {};
+    if (prompt) {
+      await mcpServerCustomizationRepository.upsertMcpServerCustomization({
+        userId,
+        mcpServerId: persisted.id,
+        prompt,
+      });
+    }
+    for (const [toolName, toolPrompt] of Object.entries(tools)) {
+      await mcpMcpToolCustomizationRepository.upsertToolCustomization({
+        userId,
+        mcpServerId: persisted.id,
+        toolName,
+        prompt: toolPrompt,
+      });
+    }
+    return {
+      name: server.name,
+      status: target.id ? "updated" : "created",
+      id: persisted.id,
+    };
+  };
+
+  // One at a time, every server connects before it is saved
+  const results: MCPConfigImportResult[] = [];
+  for (const server of bundle.servers) {
+    results.push(
+      await importServer(server).catch((error) => ({
+        name: server.name,
+        status: "failed" as const,
+        error: errorToString(error),
+      })),
+    );
+  }
+  void serverCache.delete(CacheKeys.mcpServerCustomizations(userId));
+
+  return Response.json(results);
+}
@@ -1,14 +1,19 @@
 import { MCPServerInfo } from "app-types/mcp";
 import { mcpClientsManager } from "lib/ai/mcp/mcp-manager";
-import { mcpRepository } from "lib/db/repository";
+import { mcpRepository, mcpUserCredentialRepository } from "lib/db/repository";
+import {
+  getCredentialSlots,
+  missingMCPCredentials,
+} from "lib/ai/mcp/mcp-credentials";
 import { getSession } from "auth/server";
 
 export async function GET() {
   const session = await getSession();
 
-  const [servers, memoryClients] = await Promise.all([
+  const [servers, memoryClients, credentialServerIds] = await Promise.all([
     mcpRepository.selectAccessibleForUser(session.user.id),
     mcpClientsManager.getClients(),
+    mcpUserCredentialRepository.selectServerIdsByUserId(session.user.id),
   ]);
 
   const allServers = await mcpRepository.selectAll();
@@ -40,6 +45,9 @@ export async function GET() {
   const result = servers.map((server) => {
     const mem = memoryMap.get(server.id);
     const info = mem?.getInfo();
+    const needsCredentials =
+      getCredentialSlots(server.config).length > 0 &&
+      server.ownerUserId != session.user.id;
     const mcpInfo: MCPServerInfo & {
       id: string;
       scope: "personal" | "organization";
@@ -53,6 +61,15 @@ export async function GET() {
       status: info?.status ?? "loading",
       error: info?.error,
       toolInfo: info?.toolInfo ?? [],
+      resourceInfo: info?.resourceInfo ?? [],
+      promptInfo: info?.promptInfo ?? [],
+      health: mcpClientsManager.getHealth(server.id),
+      credentialStatus: needsCredentials
+        ? missingMCPCredentials(server.config, null).length &&
+          !credentialServerIds.includes(server.id)
+          ? "missing"
+          : "configured"
+        : undefined,
       scope: server.scope,
       organizationId: server.organizationId,
       organizationName: server.organizationName,
@@ -141,11 +141,23 @@ export async function GET(request: NextRequest) {
     });
   }
 
-  const client = await mcpClientsManager.getClient(session.mcpServerId);
-
   try {
-    await client?.client.finishAuth(callbackData.code, callbackData.state);
-    await mcpClientsManager.refreshClient(session.mcpServerId);
+    if (session.userId) {
+      // A member authorized their own client of a shared server
+      const client = await mcpClientsManager.getClientForUser(
+        session.mcpServerId,
+        session.userId,
+      );
+      await client.finishAuth(callbackData.code, callbackData.state);
+      await mcpClientsManager.refreshUserClient(
+        session.mcpServerId,
+        session.userId,
+      );
+    } else {
+      const client = await mcpClientsManager.getClient(session.mcpServerId);
+      await client?.client.finishAuth(callbackData.code, callbackData.state);
+      await mcpClientsManager.refreshClient(session.mcpServerId);
+    }
 
     return createOAuthResponsePage({
       type: "success",
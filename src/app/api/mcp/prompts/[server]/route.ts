@@ -0,0 +1,62 @@
+import { MCPPromptRequestZodSchema } from "app-types/mcp";
+import { getSession } from "auth/server";
+import { mcpClientsManager } from "lib/ai/mcp/mcp-manager";
+import { mcpRepository } from "lib/db/repository";
+import { errorToString } from "lib/utils";
+
+/**
+ * Expands an MCP prompt into the text that is placed in the prompt input.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ server: string }> },
+) {
+  const { server } = await params;
+  const session = await getSession();
+  if (!session?.user.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  const accessible = await mcpRepository.selectAccessibleForUser(
+    session.user.id,
+  );
+  if (!accessible.some((item) => item.id == server)) {
+    return new Response("Not Found", { status: 404 });
+  }
+
+  const parsed = MCPPromptRequestZodSchema.safeParse(
+    await request.json().catch(() => null),
+  );
+  if (!parsed.success) {
+    return Response.json(
+      { message: "Invalid prompt request" },
+      { status: 400 },
+    );
+  }
+  const { name, arguments: args } = parsed.data;
+
+  try {
+    const prompt = await mcpClientsManager.getPrompt(
+      server,
+      name,
+      args,
+      session.user.id,
+    );
+    const text = prompt.messages
+      .map((message) => {
+        if (message.content.type == "text") return message.content.text;
+        if (
+          message.content.type == "resource" &&
+          "text" in message.content.resource
+        ) {
+          return message.content.resource.text;
+        }
+        return "";
+      })
+      .filter(Boolean)
+      .join("\n\n");
+    return Response.json({ text });
+  } catch (error) {
+    return Response.json({ message: errorToString(error) }, { status: 500 });
+  }
+}
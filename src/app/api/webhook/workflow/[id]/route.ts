@@ -0,0 +1,129 @@
+import { after } from "next/server";
+import { z } from "zod";
+import { colorize } from "consola/utils";
+
+import { ObjectJsonSchema7 } from "app-types/util";
+import { createWorkflowExecutor } from "lib/ai/workflow/executor/workflow-executor";
+import { recordWorkflowRun } from "lib/ai/workflow/executor/workflow-run-recorder";
+import { NodeKind } from "lib/ai/workflow/workflow.interface";
+import { serverCache } from "lib/cache";
+import { consumeRateLimit } from "lib/cache/rate-limit";
+import {
+  workflowRunRepository,
+  workflowVersionRepository,
+  workflowWebhookRepository,
+} from "lib/db/repository";
+import { jsonSchemaToZod } from "lib/json-schema-to-zod";
+import { safeJSONParse } from "lib/utils";
+import logger from "logger";
+import {
+  authenticateWebhookRequest,
+  toWebhookRunResult,
+} from "../shared.webhook";
+
+const RATE_LIMIT = Number(process.env.WORKFLOW_WEBHOOK_RATE_LIMIT ?? 60);
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+const RUN_TIMEOUT_MS = 1000 * 60 * 5;
+
+/**
+ * Runs the published version of a workflow from a signed webhook call.
+ * The JSON body becomes the Input node values. By default the response waits
+ * for the run; with `?mode=async` it returns the run ID to poll instead.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const body = await request.text();
+  const auth = await authenticateWebhookRequest(id, request, body);
+  if ("response" in auth) return auth.response;
+
+  const rateLimit = await consumeRateLimit(serverCache, `webhook-${id}`, {
+    limit: RATE_LIMIT,
+    windowMs: RATE_LIMIT_WINDOW_MS,
+  });
+  if (!rateLimit.allowed) {
+    return Response.json(
+      { message: "Too many requests" },
+      {
+        status: 429,
+        headers: {
+          "Retry-After": String(Math.ceil(rateLimit.retryAfterMs / 1000)),
+        },
+      },
+    );
+  }
+
+  const workflow = await workflowVersionRepository.selectPublishedStructure(
+    id,
+    { ignoreNote: true },
+  );
+  const inputNode = workflow?.nodes.find((node) => node.kind == NodeKind.Input);
+  if (!workflow || !inputNode) {
+    return Response.json({ message: "Workflow not found" }, { status: 404 });
+  }
+
+  const json = safeJSONParse<unknown>(body || "{}");
+  if (!json.success) {
+    return Response.json({ message: "Invalid JSON body" }, { status: 400 });
+  }
+  const query = jsonSchemaToZod(
+    inputNode.nodeConfig.outputSchema as ObjectJsonSchema7,
+  ).safeParse(json.value);
+  if (!query.success) {
+    return Response.json(
+      {
+        message: "Body does not match the workflow input schema",
+        issues: z.prettifyError(query.error),
+      },
+      { status: 400 },
+    );
+  }
+
+  const app = createWorkflowExecutor({
+    nodes: workflow.nodes,
+    edges: workflow.edges,
+    logger: logger.withDefaults({
+      message: colorize("cyan", `WORKFLOW '${workflow.name}' `),
+    }),
+    context: { userId: workflow.userId, workflowIds: [workflow.id] },
+  });
+  // Webhook calls have no session; the run acts as the workflow owner.
+  const recorder = recordWorkflowRun(app, {
+    workflowId: workflow.id,
+    nodes: workflow.nodes,
+    userId: workflow.userId,
+    trigger: "webhook",
+  });
+  await workflowWebhookRepository.markCalled(id, new Date());
+
+  const run = async () => {
+    const result = await app.run(
+      { query: query.data },
+      { disableHistory: true, timeout: RUN_TIMEOUT_MS },
+    );
+    if (!result.isOk) {
+      logger.error("Workflow execution error:", result.error);
+    }
+    await recorder.flush();
+  };
+
+  if (new URL(request.url).searchParams.get("mode") == "async") {
+    after(run);
+    return Response.json(
+      { runId: recorder.runId, status: "running" },
+      { status: 202 },
+    );
+  }
+
+  await run();
+  const finished = await workflowRunRepository.selectRunById(recorder.runId);
+  if (!finished) {
+    return Response.json(
+      { message: "Failed to record the workflow run" },
+      { status: 500 },
+    );
+  }
+  return Response.json(toWebhookRunResult(finished));
+}
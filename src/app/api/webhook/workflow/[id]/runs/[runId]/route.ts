@@ -0,0 +1,21 @@
+import { workflowRunRepository } from "lib/db/repository";
+import {
+  authenticateWebhookRequest,
+  toWebhookRunResult,
+} from "../../../shared.webhook";
+
+// Polls a run started with `?mode=async`. Sign an empty body.
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string; runId: string }> },
+) {
+  const { id, runId } = await params;
+  const auth = await authenticateWebhookRequest(id, request, "");
+  if ("response" in auth) return auth.response;
+
+  const run = await workflowRunRepository.selectRunById(runId);
+  if (!run || run.workflowId != id || run.trigger != "webhook") {
+    return Response.json({ message: "Run not found" }, { status: 404 });
+  }
+  return Response.json(toWebhookRunResult(run));
+}
@@ -0,0 +1,83 @@
+import { DBWorkflow, WorkflowRun } from "app-types/workflow";
+import {
+  claimWebhookDelivery,
+  WEBHOOK_ID_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  verifyWebhookSignature,
+} from "lib/ai/workflow/webhook";
+import { serverCache } from "lib/cache";
+import {
+  workflowRepository,
+  workflowWebhookRepository,
+} from "lib/db/repository";
+
+/**
+ * Resolves the published workflow behind a webhook call, checks the request
+ * signature and rejects delivery ids that were already used. Returns an error
+ * response when the call is rejected.
+ */
+export async function authenticateWebhookRequest(
+  workflowId: string,
+  request: Request,
+  body: string,
+): Promise<{ workflow: DBWorkflow } | { response: Response }> {
+  const webhook =
+    await workflowWebhookRepository.selectByWorkflowId(workflowId);
+  const workflow = webhook?.enabled
+    ? await workflowRepository.selectById(workflowId)
+    : undefined;
+  if (!webhook || !workflow) {
+    return {
+      response: Response.json(
+        { message: "Webhook not found" },
+        { status: 404 },
+      ),
+    };
+  }
+
+  const deliveryId = request.headers.get(WEBHOOK_ID_HEADER);
+  const isValid = await verifyWebhookSignature({
+    secret: webhook.secret,
+    deliveryId,
+    timestamp: request.headers.get(WEBHOOK_TIMESTAMP_HEADER),
+    signature: request.headers.get(WEBHOOK_SIGNATURE_HEADER),
+    body,
+  });
+  if (!isValid) {
+    return {
+      response: Response.json(
+        { message: "Invalid webhook signature" },
+        { status: 401 },
+      ),
+    };
+  }
+
+  if (!(await claimWebhookDelivery(serverCache, workflowId, deliveryId!))) {
+    return {
+      response: Response.json(
+        { message: "Webhook delivery was already received" },
+        { status: 409 },
+      ),
+    };
+  }
+
+  if (!workflow.publishedVersion) {
+    return {
+      response: Response.json(
+        { message: "Workflow is not published" },
+        { status: 409 },
+      ),
+    };
+  }
+  return { workflow };
+}
+
+export function toWebhookRunResult(run: WorkflowRun) {
+  return {
+    runId: run.id,
+    status: run.status,
+    output: run.output ?? null,
+    error: run.error ?? null,
+  };
+}
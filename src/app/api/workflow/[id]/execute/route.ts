@@ -1,5 +1,6 @@
 import { getSession } from "auth/server";
 import { createWorkflowExecutor } from "lib/ai/workflow/executor/workflow-executor";
+import { recordWorkflowRun } from "lib/ai/workflow/executor/workflow-run-recorder";
 import { workflowRepository } from "lib/db/repository";
 import { encodeWorkflowEvent } from "lib/ai/workflow/shared.workflow";
 import logger from "logger";
@@ -29,6 +30,13 @@ export async function POST(
     edges: workflow.edges,
     nodes: workflow.nodes,
     logger: wfLogger,
+    context: { userId: session.user.id, workflowIds: [workflow.id] },
+  });
+  recordWorkflowRun(app, {
+    workflowId: workflow.id,
+    nodes: workflow.nodes,
+    userId: session.user.id,
+    trigger: "editor",
   });
 
   const encoder = new TextEncoder();
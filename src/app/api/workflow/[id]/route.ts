@@ -1,5 +1,8 @@
 import { getSession } from "auth/server";
-import { workflowRepository } from "lib/db/repository";
+import {
+  workflowRepository,
+  workflowVersionRepository,
+} from "lib/db/repository";
 
 export async function GET(
   _: Request,
@@ -39,13 +42,22 @@ export async function PUT(
   }
 
   // Update only the specified fields
-  const updatedWorkflow = await workflowRepository.save({
+  let updatedWorkflow = await workflowRepository.save({
     ...existingWorkflow,
     visibility: visibility ?? existingWorkflow.visibility,
-    isPublished: isPublished ?? existingWorkflow.isPublished,
     updatedAt: new Date(),
   });
 
+  // Publishing pins a version snapshot; unpublishing removes the pin.
+  if (isPublished === true) {
+    await workflowVersionRepository.publish(id, session.user.id);
+  } else if (isPublished === false) {
+    await workflowVersionRepository.unpublish(id);
+  }
+  if (typeof isPublished == "boolean") {
+    updatedWorkflow = (await workflowRepository.selectById(id))!;
+  }
+
   return Response.json(updatedWorkflow);
 }
 
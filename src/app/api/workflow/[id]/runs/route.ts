@@ -0,0 +1,24 @@
+import { getSession } from "auth/server";
+import { workflowRepository, workflowRunRepository } from "lib/db/repository";
+
+export async function GET(
+  _: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const session = await getSession();
+  const hasAccess = await workflowRepository.checkAccess(id, session.user.id);
+  if (!hasAccess) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+  const workflow = await workflowRepository.selectById(id);
+  if (!workflow) {
+    return new Response("Workflow not found", { status: 404 });
+  }
+
+  // The owner sees every run; other users only see the runs they triggered.
+  const runs = await workflowRunRepository.selectRunsByWorkflowId(id, {
+    userId: workflow.userId == session.user.id ? undefined : session.user.id,
+  });
+  return Response.json(runs);
+}
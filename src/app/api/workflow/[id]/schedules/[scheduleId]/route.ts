@@ -0,0 +1,62 @@
+import { getSession } from "auth/server";
+import { WorkflowScheduleUpdateSchema } from "app-types/workflow";
+import {
+  getNextScheduleRunAt,
+  validateSchedule,
+} from "lib/ai/workflow/schedule";
+import {
+  workflowRepository,
+  workflowScheduleRepository,
+} from "lib/db/repository";
+
+async function findOwnedSchedule(workflowId: string, scheduleId: string) {
+  const session = await getSession();
+  const workflow = await workflowRepository.selectById(workflowId);
+  if (!workflow || workflow.userId != session.user.id) return null;
+  const schedule =
+    await workflowScheduleRepository.selectScheduleById(scheduleId);
+  return schedule?.workflowId == workflowId ? schedule : null;
+}
+
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string; scheduleId: string }> },
+) {
+  const { id, scheduleId } = await params;
+  const schedule = await findOwnedSchedule(id, scheduleId);
+  if (!schedule) {
+    return new Response("Schedule not found", { status: 404 });
+  }
+
+  const parsed = WorkflowScheduleUpdateSchema.safeParse(await request.json());
+  if (!parsed.success) {
+    return Response.json({ message: "Invalid schedule" }, { status: 400 });
+  }
+  const cron = parsed.data.cron ?? schedule.cron;
+  const timezone = parsed.data.timezone ?? schedule.timezone;
+  const enabled = parsed.data.enabled ?? schedule.enabled;
+  const invalid = validateSchedule(cron, timezone);
+  if (invalid) {
+    return Response.json({ message: invalid }, { status: 400 });
+  }
+
+  // Runs missed while paused are skipped: resuming starts from now.
+  const updated = await workflowScheduleRepository.updateSchedule(scheduleId, {
+    ...parsed.data,
+    nextRunAt: enabled ? getNextScheduleRunAt(cron, timezone) : null,
+  });
+  return Response.json(updated);
+}
+
+export async function DELETE(
+  _: Request,
+  { params }: { params: Promise<{ id: string; scheduleId: string }> },
+) {
+  const { id, scheduleId } = await params;
+  const schedule = await findOwnedSchedule(id, scheduleId);
+  if (!schedule) {
+    return new Response("Schedule not found", { status: 404 });
+  }
+  await workflowScheduleRepository.deleteSchedule(scheduleId);
+  return Response.json({ success: true });
+}
@@ -0,0 +1,61 @@
+import { getSession } from "auth/server";
+import { WorkflowScheduleCreateSchema } from "app-types/workflow";
+import {
+  getNextScheduleRunAt,
+  validateSchedule,
+} from "lib/ai/workflow/schedule";
+import {
+  workflowRepository,
+  workflowScheduleRepository,
+} from "lib/db/repository";
+
+export async function GET(
+  _: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const session = await getSession();
+  const hasAccess = await workflowRepository.checkAccess(id, session.user.id);
+  if (!hasAccess) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+  const schedules =
+    await workflowScheduleRepository.selectSchedulesByWorkflowId(id);
+  return Response.json(schedules);
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const session = await getSession();
+  const workflow = await workflowRepository.selectById(id);
+  if (!workflow) {
+    return new Response("Workflow not found", { status: 404 });
+  }
+  // Scheduled runs act as the owner, so only the owner may schedule them.
+  if (workflow.userId != session.user.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  const parsed = WorkflowScheduleCreateSchema.safeParse(await request.json());
+  if (!parsed.success) {
+    return Response.json({ message: "Invalid schedule" }, { status: 400 });
+  }
+  const { cron, timezone, input, enabled } = parsed.data;
+  const invalid = validateSchedule(cron, timezone);
+  if (invalid) {
+    return Response.json({ message: invalid }, { status: 400 });
+  }
+
+  const schedule = await workflowScheduleRepository.insertSchedule({
+    workflowId: id,
+    cron,
+    timezone,
+    input,
+    enabled,
+    nextRunAt: enabled ? getNextScheduleRunAt(cron, timezone) : null,
+  });
+  return Response.json(schedule, { status: 201 });
+}
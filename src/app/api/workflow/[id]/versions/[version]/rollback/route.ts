@@ -0,0 +1,39 @@
+import { getSession } from "auth/server";
+import { WorkflowVersionParamSchema } from "app-types/workflow";
+import {
+  workflowRepository,
+  workflowVersionRepository,
+} from "lib/db/repository";
+
+/**
+ * Restores a version into the draft and publishes it as the newest version,
+ * so the history keeps every published state.
+ */
+export async function POST(
+  _: Request,
+  { params }: { params: Promise<{ id: string; version: string }> },
+) {
+  const { id, version } = await params;
+  const session = await getSession();
+  const hasAccess = await workflowRepository.checkAccess(
+    id,
+    session.user.id,
+    false,
+  );
+  if (!hasAccess) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+  const parsed = WorkflowVersionParamSchema.safeParse(version);
+  if (!parsed.success) {
+    return Response.json({ message: "Invalid version" }, { status: 400 });
+  }
+  const published = await workflowVersionRepository.rollback(
+    id,
+    parsed.data,
+    session.user.id,
+  );
+  if (!published) {
+    return Response.json({ message: "Version not found" }, { status: 404 });
+  }
+  return Response.json(published);
+}
@@ -0,0 +1,30 @@
+import { getSession } from "auth/server";
+import { WorkflowVersionParamSchema } from "app-types/workflow";
+import {
+  workflowRepository,
+  workflowVersionRepository,
+} from "lib/db/repository";
+
+export async function GET(
+  _: Request,
+  { params }: { params: Promise<{ id: string; version: string }> },
+) {
+  const { id, version } = await params;
+  const session = await getSession();
+  const hasAccess = await workflowRepository.checkAccess(id, session.user.id);
+  if (!hasAccess) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+  const parsed = WorkflowVersionParamSchema.safeParse(version);
+  if (!parsed.success) {
+    return Response.json({ message: "Invalid version" }, { status: 400 });
+  }
+  const snapshot = await workflowVersionRepository.selectVersion(
+    id,
+    parsed.data,
+  );
+  if (!snapshot) {
+    return Response.json({ message: "Version not found" }, { status: 404 });
+  }
+  return Response.json(snapshot);
+}
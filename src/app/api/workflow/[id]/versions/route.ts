@@ -0,0 +1,19 @@
+import { getSession } from "auth/server";
+import {
+  workflowRepository,
+  workflowVersionRepository,
+} from "lib/db/repository";
+
+export async function GET(
+  _: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const session = await getSession();
+  const hasAccess = await workflowRepository.checkAccess(id, session.user.id);
+  if (!hasAccess) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+  const versions = await workflowVersionRepository.selectVersions(id);
+  return Response.json(versions);
+}
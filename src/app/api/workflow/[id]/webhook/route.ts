@@ -0,0 +1,68 @@
+import { getSession } from "auth/server";
+import { generateWebhookSecret } from "lib/ai/workflow/webhook";
+import {
+  workflowRepository,
+  workflowWebhookRepository,
+} from "lib/db/repository";
+
+// Webhook runs act as the owner, so only the owner may manage the webhook.
+async function isOwner(workflowId: string) {
+  const session = await getSession();
+  const workflow = await workflowRepository.selectById(workflowId);
+  return !!workflow && workflow.userId == session.user.id;
+}
+
+export async function GET(
+  _: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  if (!(await isOwner(id))) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+  const webhook = await workflowWebhookRepository.selectByWorkflowId(id);
+  return Response.json(webhook);
+}
+
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  if (!(await isOwner(id))) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+  const { enabled } = await request.json();
+  if (typeof enabled != "boolean") {
+    return Response.json({ message: "Invalid webhook" }, { status: 400 });
+  }
+
+  const webhook =
+    (await workflowWebhookRepository.update(id, { enabled })) ??
+    (await workflowWebhookRepository.insert({
+      workflowId: id,
+      secret: generateWebhookSecret(),
+      enabled,
+    }));
+  return Response.json(webhook);
+}
+
+// Rotates the signing secret; callers using the old one are rejected.
+export async function POST(
+  _: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  if (!(await isOwner(id))) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+  const secret = generateWebhookSecret();
+  const webhook =
+    (await workflowWebhookRepository.update(id, { secret })) ??
+    (await workflowWebhookRepository.insert({
+      workflowId: id,
+      secret,
+      enabled: true,
+    }));
+  return Response.json(webhook);
+}
@@ -0,0 +1,48 @@
+import { after } from "next/server";
+import { getSession } from "auth/server";
+import { WorkflowApprovalDecideSchema } from "app-types/workflow";
+import { resumeWorkflowRun } from "lib/ai/workflow/executor/workflow-approval";
+import { workflowApprovalRepository } from "lib/db/repository";
+import logger from "logger";
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ approvalId: string }> },
+) {
+  const { approvalId } = await params;
+  const session = await getSession();
+  if (!session?.user.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  const approval =
+    await workflowApprovalRepository.selectApprovalById(approvalId);
+  if (!approval || approval.approverUserId != session.user.id) {
+    return new Response("Approval not found", { status: 404 });
+  }
+
+  const parsed = WorkflowApprovalDecideSchema.safeParse(await request.json());
+  if (!parsed.success) {
+    return Response.json({ message: "Invalid decision" }, { status: 400 });
+  }
+
+  const decided = await workflowApprovalRepository.decideApproval(approvalId, {
+    status: parsed.data.approved ? "approved" : "rejected",
+    comment: parsed.data.comment || null,
+    decidedByUserId: session.user.id,
+  });
+  if (!decided) {
+    return Response.json(
+      { message: "Approval is no longer pending" },
+      { status: 409 },
+    );
+  }
+
+  after(() =>
+    resumeWorkflowRun(decided.runId).catch((error) =>
+      logger.error(`Failed to resume workflow run ${decided.runId}`, error),
+    ),
+  );
+
+  return Response.json(decided);
+}
@@ -0,0 +1,14 @@
+import { getSession } from "auth/server";
+import { workflowApprovalRepository } from "lib/db/repository";
+
+export async function GET() {
+  const session = await getSession();
+  if (!session?.user.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+  const approvals =
+    await workflowApprovalRepository.selectPendingApprovalsByUserId(
+      session.user.id,
+    );
+  return Response.json(approvals);
+}
@@ -8,15 +8,8 @@ export async function GET() {
 }
 
 export async function POST(request: Request) {
-  const {
-    name,
-    description,
-    icon,
-    id,
-    isPublished,
-    visibility,
-    noGenerateInputNode,
-  } = await request.json();
+  const { name, description, icon, id, visibility, noGenerateInputNode } =
+    await request.json();
 
   const session = await getSession();
 
@@ -36,7 +29,6 @@ export async function POST(request: Request) {
       name,
       description,
       id,
-      isPublished,
       visibility,
       icon,
       userId: session.user.id,
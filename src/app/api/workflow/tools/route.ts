@@ -1,8 +1,13 @@
 import { getSession } from "auth/server";
+import { getWorkflowAppToolKeys } from "lib/ai/tools/workflow-tool-kit";
 import { workflowRepository } from "lib/db/repository";
 
-export async function GET() {
+export async function GET(request: Request) {
   const session = await getSession();
+  // `?type=app-tool` lists the default tools a Tool node can run.
+  if (new URL(request.url).searchParams.get("type") == "app-tool") {
+    return Response.json(getWorkflowAppToolKeys());
+  }
   const workflows = await workflowRepository.selectExecuteAbility(
     session.user.id,
   );
@@ -0,0 +1,152 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+
+import {
+  DEFAULT_KNOWLEDGE_BASE_RERANK,
+  DEFAULT_KNOWLEDGE_BASE_RERANK_MODELS,
+  KnowledgeBaseRerankConfig,
+  KnowledgeBaseRerankProvider,
+  KnowledgeBaseRerankProviderSchema,
+} from "app-types/knowledge-base";
+import { Input } from "ui/input";
+import { Label } from "ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "ui/select";
+import { Switch } from "ui/switch";
+
+type AgentRerankSettingsProps = {
+  value?: KnowledgeBaseRerankConfig | null;
+  disabled?: boolean;
+  onChange: (value: KnowledgeBaseRerankConfig | null) => void;
+};
+
+export function AgentRerankSettings({
+  value,
+  disabled,
+  onChange,
+}: AgentRerankSettingsProps) {
+  const t = useTranslations("Agent");
+
+  return (
+    <div className="space-y-3 rounded-lg border border-dashed border-border/60 bg-muted/30 p-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <Label htmlFor="agent-rerank" className="text-sm font-medium">
+            {t("rerankLabel")}
+          </Label>
+          <p className="text-xs text-muted-foreground">{t("rerankHelper")}</p>
+        </div>
+        <Switch
+          id="agent-rerank"
+          checked={Boolean(value)}
+          disabled={disabled}
+          onCheckedChange={(checked) =>
+            onChange(checked ? DEFAULT_KNOWLEDGE_BASE_RERANK : null)
+          }
+        />
+      </div>
+      {value && (
+        <div className="grid gap-3 md:grid-cols-4">
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">
+              {t("rerankProvider")}
+            </Label>
+            <Select
+              value={value.provider}
+              disabled={disabled}
+              onValueChange={(provider) =>
+                onChange({
+                  ...value,
+                  provider: provider as KnowledgeBaseRerankProvider,
+                  model:
+                    DEFAULT_KNOWLEDGE_BASE_RERANK_MODELS[
+                      provider as KnowledgeBaseRerankProvider
+                    ],
+                })
+              }
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {KnowledgeBaseRerankProviderSchema.options.map((provider) => (
+                  <SelectItem key={provider} value={provider}>
+                    {t(`rerankProviders.${provider}`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1 md:col-span-3">
+            <Label className="text-xs text-muted-foreground">
+              {t("rerankModel")}
+            </Label>
+            <Input
+              value={value.model}
+              disabled={disabled}
+              placeholder={DEFAULT_KNOWLEDGE_BASE_RERANK_MODELS[value.provider]}
+              onChange={(event) =>
+                onChange({ ...value, model: event.currentTarget.value })
+              }
+            />
+          </div>
+          <div className="space-y-1 md:col-span-2">
+            <Label className="text-xs text-muted-foreground">
+              {t("rerankCandidates")}
+            </Label>
+            <Input
+              type="number"
+              min={1}
+              max={100}
+              value={value.candidates}
+              disabled={disabled}
+              onChange={(event) => {
+                const candidates = Number.parseInt(
+                  event.currentTarget.value,
+                  10,
+                );
+                onChange({
+                  ...value,
+                  candidates: Number.isFinite(candidates)
+                    ? Math.min(100, Math.max(1, candidates))
+                    : DEFAULT_KNOWLEDGE_BASE_RERANK.candidates,
+                });
+              }}
+            />
+          </div>
+          <div className="space-y-1 md:col-span-2">
+            <Label className="text-xs text-muted-foreground">
+              {t("rerankThreshold")}
+            </Label>
+            <Input
+              type="number"
+              min={0}
+              max={1}
+              step={0.05}
+              value={value.threshold}
+              disabled={disabled}
+              onChange={(event) => {
+                const threshold = Number.parseFloat(event.currentTarget.value);
+                onChange({
+                  ...value,
+                  threshold: Number.isFinite(threshold)
+                    ? Math.min(1, Math.max(0, threshold))
+                    : 0,
+                });
+              }}
+            />
+          </div>
+          <p className="text-xs text-muted-foreground md:col-span-4">
+            {t("rerankThresholdHelper")}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -40,6 +40,7 @@ import { ShareableActions, Visibility } from "@/components/shareable-actions";
 import { GenerateAgentDialog } from "./generate-agent-dialog";
 import { AgentIconPicker } from "./agent-icon-picker";
 import { AgentToolSelector } from "./agent-tool-selector";
+import { AgentRerankSettings } from "./agent-rerank-settings";
 import {
   RandomDataGeneratorExample,
   WeatherExample,
@@ -607,6 +608,15 @@ export default function EditAgent({
                 </p>
               )}
             </div>
+            {Boolean(agent.knowledgeBaseIds?.length) && (
+              <AgentRerankSettings
+                value={agent.knowledgeBaseRerank}
+                disabled={isLoading || !hasEditAccess}
+                onChange={(knowledgeBaseRerank) =>
+                  setAgent({ knowledgeBaseRerank })
+                }
+              />
+            )}
           </div>
 
           <div className="flex gap-2 flex-col">
@@ -8,7 +8,7 @@ import React, {
   useEffect,
 } from "react";
 
-import { CheckIcon, HammerIcon, SearchIcon } from "lucide-react";
+import { CheckIcon, FileTextIcon, HammerIcon, SearchIcon } from "lucide-react";
 import { MCPIcon } from "ui/mcp-icon";
 
 import { ChatMention } from "app-types/chat";
@@ -171,13 +171,18 @@ export function ChatMentionInputSuggestion({
   const mcpMentions = useMemo(() => {
     if (disabledType?.includes("mcp")) return [];
     const filtered = mcpList
-      ?.filter((mcp) => mcp.toolInfo?.length)
+      ?.filter((mcp) => mcp.toolInfo?.length || mcp.resourceInfo?.length)
       .filter((mcp) => {
         if (!searchValue) return true;
         const search = searchValue.toLowerCase();
         return (
           mcp.name.toLowerCase().includes(search) ||
-          mcp.toolInfo?.some((tool) => tool.name.toLowerCase().includes(search))
+          mcp.toolInfo?.some((tool) =>
+            tool.name.toLowerCase().includes(search),
+          ) ||
+          mcp.resourceInfo?.some((resource) =>
+            resource.name.toLowerCase().includes(search),
+          )
         );
       });
 
@@ -195,8 +200,9 @@ export function ChatMentionInputSuggestion({
 
         // Add MCP server item
         if (
-          !searchValue ||
-          mcp.name.toLowerCase().includes(searchValue.toLowerCase())
+          mcp.toolInfo?.length &&
+          (!searchValue ||
+            mcp.name.toLowerCase().includes(searchValue.toLowerCase()))
         ) {
           items.push({
             id: `${mcp.id}-mcp`,
@@ -250,7 +256,41 @@ export function ChatMentionInputSuggestion({
               };
             }) || [];
 
-        return [...items, ...toolItems];
+        // Add resource items, attached to the message as context
+        const resourceItems =
+          mcp.resourceInfo
+            ?.filter(
+              (resource) =>
+                !searchValue ||
+                resource.name.toLowerCase().includes(searchValue.toLowerCase()),
+            )
+            .map((resource) => {
+              const resourceId = JSON.stringify({
+                type: "mcpResource",
+                name: resource.name,
+                uri: resource.uri,
+                serverId: mcp.id,
+                description: resource.description || resource.uri,
+                mimeType: resource.mimeType,
+                serverName: mcp.name,
+              });
+              return {
+                id: `${mcp.id}-${resource.uri}`,
+                type: "mcpResource",
+                label: resource.name,
+                onSelect: () =>
+                  onSelectMention({
+                    label: `resource("${resource.name}") `,
+                    id: resourceId,
+                  }),
+                icon: <FileTextIcon className="size-3.5" />,
+                suffix: selectedIds?.includes(resourceId) && (
+                  <CheckIcon className="size-3 ml-auto" />
+                ),
+              };
+            }) || [];
+
+        return [...items, ...toolItems, ...resourceItems];
       }) || []
     );
   }, [mcpList, selectedIds, disabledType, searchValue]);
@@ -386,6 +426,10 @@ export function ChatMentionInputSuggestion({
           label = "python-execution";
           description = "Execute simple python code";
           break;
+        case DefaultToolName.SearchKnowledgeBase:
+          label = "knowledge-base";
+          description = "Search your knowledge bases";
+          break;
       }
       return {
         id: toolName,
@@ -475,7 +519,7 @@ export function ChatMentionInputSuggestion({
     };
 
     allMentions.forEach((mention) => {
-      if (mention.type === "mcpTool") {
+      if (mention.type === "mcpTool" || mention.type === "mcpResource") {
         groups.mcp.items.push(mention);
       } else if (groups[mention.type as keyof typeof groups]) {
         groups[mention.type as keyof typeof groups].items.push(mention);
@@ -541,7 +585,10 @@ export function ChatMentionInputSuggestion({
                   // Calculate column navigation
                   const currentItem = allMentions[selectedIndex];
                   const currentType =
-                    currentItem.type === "mcpTool" ? "mcp" : currentItem.type;
+                    currentItem.type === "mcpTool" ||
+                    currentItem.type === "mcpResource"
+                      ? "mcp"
+                      : currentItem.type;
                   const typeOrder = ["agent", "workflow", "mcp", "defaultTool"];
                   const currentTypeIndex = typeOrder.indexOf(currentType);
 
@@ -550,7 +597,9 @@ export function ChatMentionInputSuggestion({
                     const prevTypeItems = allMentions.filter(
                       (item) =>
                         item.type === prevType ||
-                        (prevType === "mcp" && item.type === "mcpTool"),
+                        (prevType === "mcp" &&
+                          (item.type === "mcpTool" ||
+                            item.type === "mcpResource")),
                     );
                     if (prevTypeItems.length > 0) {
                       setSelectedIndex(allMentions.indexOf(prevTypeItems[0]));
@@ -563,7 +612,9 @@ export function ChatMentionInputSuggestion({
                     const nextTypeItems = allMentions.filter(
                       (item) =>
                         item.type === nextType ||
-                        (nextType === "mcp" && item.type === "mcpTool"),
+                        (nextType === "mcp" &&
+                          (item.type === "mcpTool" ||
+                            item.type === "mcpResource")),
                     );
                     if (nextTypeItems.length > 0) {
                       setSelectedIndex(allMentions.indexOf(nextTypeItems[0]));
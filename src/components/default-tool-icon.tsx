@@ -10,6 +10,7 @@ import {
   CodeIcon,
   HammerIcon,
   TableOfContents,
+  LibraryBigIcon,
 } from "lucide-react";
 import { useMemo } from "react";
 
@@ -57,6 +58,13 @@ export function DefaultToolIcon({
     if (name === DefaultToolName.PythonExecution) {
       return <CodeIcon className={cn("size-3.5 text-blue-400", className)} />;
     }
+    if (name === DefaultToolName.SearchKnowledgeBase) {
+      return (
+        <LibraryBigIcon
+          className={cn("size-3.5 text-emerald-500", className)}
+        />
+      );
+    }
     return <HammerIcon className={cn("size-3.5", className)} />;
   }, [name]);
 }
@@ -0,0 +1,316 @@
+"use client";
+
+import { FormEvent, useCallback, useState } from "react";
+import { toast } from "sonner";
+import { useTranslations } from "next-intl";
+import { Loader2, Network } from "lucide-react";
+
+import {
+  KNOWLEDGE_BASE_CRAWL_MAX_PAGES,
+  KnowledgeBaseCrawl,
+  KnowledgeBaseWebFetcher,
+  KnowledgeBaseWebFetcherSchema,
+} from "app-types/knowledge-base";
+import { useKnowledgeBaseCrawls } from "@/hooks/queries/use-knowledge-bases";
+import { handleErrorWithToast } from "ui/shared-toast";
+import { Badge } from "ui/badge";
+import { Button } from "ui/button";
+import { Input } from "ui/input";
+import { Label } from "ui/label";
+import { Textarea } from "ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "ui/select";
+import { KnowledgeBaseRefreshSelect } from "./knowledge-base-refresh-select";
+
+// Leaves the choice to the server's KB_WEB_FETCHER setting.
+const DEFAULT_FETCHER = "default";
+
+const CRAWL_STATUS_VARIANT: Record<
+  KnowledgeBaseCrawl["status"],
+  "default" | "secondary" | "destructive" | "outline"
+> = {
+  pending: "secondary",
+  running: "outline",
+  completed: "default",
+  failed: "destructive",
+};
+
+function parsePatterns(value: string): string[] {
+  return value
+    .split(/[\n,]/)
+    .map((pattern) => pattern.trim())
+    .filter(Boolean);
+}
+
+function isCrawlActive(crawl: KnowledgeBaseCrawl) {
+  return crawl.status === "pending" || crawl.status === "running";
+}
+
+type KnowledgeBaseCrawlPanelProps = {
+  knowledgeBaseId: string;
+};
+
+export function KnowledgeBaseCrawlPanel({
+  knowledgeBaseId,
+}: KnowledgeBaseCrawlPanelProps) {
+  const t = useTranslations("KnowledgeBase");
+
+  const [url, setUrl] = useState("");
+  const [include, setInclude] = useState("");
+  const [exclude, setExclude] = useState("");
+  const [maxPages, setMaxPages] = useState(50);
+  const [fetcher, setFetcher] = useState<
+    KnowledgeBaseWebFetcher | typeof DEFAULT_FETCHER
+  >(DEFAULT_FETCHER);
+  const [refreshIntervalHours, setRefreshIntervalHours] = useState<
+    number | null
+  >(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { data: crawls = [], mutate } = useKnowledgeBaseCrawls(
+    knowledgeBaseId,
+    {
+      refreshInterval: (latest) => (latest?.some(isCrawlActive) ? 5000 : 0),
+    },
+  );
+
+  const handleSubmit = useCallback(
+    async (event: FormEvent<HTMLFormElement>) => {
+      event.preventDefault();
+      if (!url.trim()) return;
+      try {
+        setIsSubmitting(true);
+        const response = await fetch(
+          `/api/knowledge-base/${knowledgeBaseId}/crawl`,
+          {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify({
+              url: url.trim(),
+              include: parsePatterns(include),
+              exclude: parsePatterns(exclude),
+              maxPages,
+              fetcher: fetcher === DEFAULT_FETCHER ? undefined : fetcher,
+              refreshIntervalHours,
+            }),
+          },
+        );
+
+        if (!response.ok) {
+          const payload = await response.json().catch(() => ({}));
+          throw new Error(payload?.error ?? "Failed to queue crawl");
+        }
+
+        await mutate();
+        toast.success(t("messages.crawlQueued"));
+        setUrl("");
+      } catch (error) {
+        handleErrorWithToast(
+          error instanceof Error ? error : new Error(String(error)),
+        );
+      } finally {
+        setIsSubmitting(false);
+      }
+    },
+    [
+      exclude,
+      fetcher,
+      include,
+      knowledgeBaseId,
+      maxPages,
+      mutate,
+      refreshIntervalHours,
+      t,
+      url,
+    ],
+  );
+
+  return (
+    <div className="space-y-4 rounded-xl border border-border/60 bg-muted/20 p-6">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="flex items-start gap-3">
+          <div className="rounded-full bg-secondary/10 p-2 text-secondary-foreground">
+            <Network className="h-5 w-5" />
+          </div>
+          <div className="space-y-1">
+            <h3 className="text-sm font-semibold">{t("crawl.title")}</h3>
+            <p className="text-xs text-muted-foreground">
+              {t("crawl.description")}
+            </p>
+          </div>
+        </div>
+        <div className="flex flex-col gap-3 sm:flex-row">
+          <Input
+            value={url}
+            onChange={(event) => setUrl(event.currentTarget.value)}
+            placeholder={t("crawl.urlPlaceholder")}
+            type="url"
+            className="flex-1"
+            autoComplete="off"
+          />
+          <Button
+            type="submit"
+            disabled={isSubmitting || !url.trim()}
+            className="gap-2"
+          >
+            {isSubmitting ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Network className="h-4 w-4" />
+            )}
+            {t("crawl.start")}
+          </Button>
+        </div>
+        <div className="grid gap-3 md:grid-cols-2">
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">
+              {t("crawl.include")}
+            </Label>
+            <Textarea
+              value={include}
+              onChange={(event) => setInclude(event.currentTarget.value)}
+              placeholder="/docs/**"
+              rows={2}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">
+              {t("crawl.exclude")}
+            </Label>
+            <Textarea
+              value={exclude}
+              onChange={(event) => setExclude(event.currentTarget.value)}
+              placeholder="/docs/changelog/*"
+              rows={2}
+            />
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {t("crawl.patternsHelper")}
+        </p>
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">
+              {t("crawl.maxPages")}
+            </Label>
+            <Input
+              type="number"
+              min={1}
+              max={KNOWLEDGE_BASE_CRAWL_MAX_PAGES}
+              value={maxPages}
+              className="h-8 w-28"
+              onChange={(event) => {
+                const value = Number.parseInt(event.currentTarget.value, 10);
+                setMaxPages(
+                  Number.isFinite(value)
+                    ? Math.min(
+                        KNOWLEDGE_BASE_CRAWL_MAX_PAGES,
+                        Math.max(1, value),
+                      )
+                    : 1,
+                );
+              }}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">
+              {t("crawl.fetcher")}
+            </Label>
+            <Select
+              value={fetcher}
+              onValueChange={(value) => setFetcher(value as typeof fetcher)}
+            >
+              <SelectTrigger size="sm" className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEFAULT_FETCHER}>
+                  {t("crawl.fetchers.default")}
+                </SelectItem>
+                {KnowledgeBaseWebFetcherSchema.options.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {t(`crawl.fetchers.${option}`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">
+              {t("documents.import.refreshLabel")}
+            </Label>
+            <KnowledgeBaseRefreshSelect
+              value={refreshIntervalHours}
+              onChange={setRefreshIntervalHours}
+            />
+          </div>
+        </div>
+      </form>
+
+      {crawls.length ? (
+        <div className="space-y-2">
+          <h4 className="text-xs font-medium uppercase text-muted-foreground">
+            {t("crawl.history")}
+          </h4>
+          {crawls.map((crawl) => (
+            <CrawlProgress key={crawl.id} crawl={crawl} />
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+function CrawlProgress({ crawl }: { crawl: KnowledgeBaseCrawl }) {
+  const t = useTranslations("KnowledgeBase");
+  const processed =
+    crawl.pagesImported + crawl.pagesSkipped + crawl.pagesFailed;
+  const discovered = crawl.pagesDiscovered;
+
+  return (
+    <div className="space-y-2 rounded-lg border border-border/40 bg-background/60 p-3 text-xs">
+      <div className="flex items-center justify-between gap-3">
+        <span className="truncate font-medium" title={crawl.rootUrl}>
+          {crawl.rootUrl}
+        </span>
+        <Badge variant={CRAWL_STATUS_VARIANT[crawl.status]}>
+          {t(`crawl.status.${crawl.status}`)}
+        </Badge>
+      </div>
+      {discovered == null ? (
+        isCrawlActive(crawl) ? (
+          <p className="text-muted-foreground">{t("crawl.discovering")}</p>
+        ) : null
+      ) : (
+        <>
+          <div className="h-1.5 overflow-hidden rounded-full bg-muted">
+            <div
+              className="h-full rounded-full bg-primary transition-all"
+              style={{
+                width: `${discovered ? Math.min(100, (processed / discovered) * 100) : 100}%`,
+              }}
+            />
+          </div>
+          <p className="text-muted-foreground">
+            {t("crawl.progress", {
+              processed,
+              discovered,
+              imported: crawl.pagesImported,
+              embedded: crawl.pagesEmbedded,
+              skipped: crawl.pagesSkipped,
+              failed: crawl.pagesFailed,
+            })}
+          </p>
+        </>
+      )}
+      {crawl.error ? <p className="text-destructive">{crawl.error}</p> : null}
+    </div>
+  );
+}
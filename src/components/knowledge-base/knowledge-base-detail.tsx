@@ -17,6 +17,8 @@ import { useSWRConfig } from "swr";
 
 import {
   KnowledgeBaseDocumentWithStatus,
+  KnowledgeBaseEmbeddingConfig,
+  KnowledgeBaseSearchMode,
   KnowledgeBaseSummary,
 } from "app-types/knowledge-base";
 import { useKnowledgeBaseDetail } from "@/hooks/queries/use-knowledge-bases";
@@ -35,6 +37,10 @@ import {
 } from "ui/select";
 import { ScrollArea } from "ui/scroll-area";
 import { cn } from "lib/utils";
+import { SUPPORTED_DOCUMENT_EXTENSIONS } from "lib/rag/document-format";
+import { KnowledgeBaseEmbeddingSettings } from "./knowledge-base-embedding-settings";
+import { KnowledgeBaseRefreshSelect } from "./knowledge-base-refresh-select";
+import { KnowledgeBaseCrawlPanel } from "./knowledge-base-crawl-panel";
 import {
   ArrowLeft,
   FileText,
@@ -76,6 +82,8 @@ type KnowledgeBaseFormState = {
   name: string;
   description: string;
   visibility: "private" | "readonly" | "public";
+  searchMode: KnowledgeBaseSearchMode;
+  embedding: KnowledgeBaseEmbeddingConfig;
 };
 
 export default function KnowledgeBaseDetail({
@@ -92,6 +100,7 @@ export default function KnowledgeBaseDetail({
   const [isSaving, setIsSaving] = useState(false);
   const [refreshingDocument, setRefreshingDocument] = useState(false);
   const [importUrl, setImportUrl] = useState("");
+  const [importRefresh, setImportRefresh] = useState<number | null>(null);
   const [isImporting, setIsImporting] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
@@ -261,6 +270,42 @@ export default function KnowledgeBaseDetail({
     [mutateDetail, t],
   );
 
+  const handleUpdateRefreshInterval = useCallback(
+    async (
+      document: KnowledgeBaseDocumentWithStatus,
+      refreshIntervalHours: number | null,
+    ) => {
+      if (refreshIntervalHours === (document.refreshIntervalHours ?? null)) {
+        return;
+      }
+      try {
+        const response = await fetch(
+          `/api/knowledge-base/${document.knowledgeBaseId}/documents/${document.id}`,
+          {
+            method: "PATCH",
+            headers: {
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify({ refreshIntervalHours }),
+          },
+        );
+
+        if (!response.ok) {
+          const payload = await response.json().catch(() => ({}));
+          throw new Error(payload?.error ?? "Failed to update document");
+        }
+
+        await mutateDetail();
+        toast.success(t("messages.refreshUpdated"));
+      } catch (error) {
+        handleErrorWithToast(
+          error instanceof Error ? error : new Error(String(error)),
+        );
+      }
+    },
+    [mutateDetail, t],
+  );
+
   const refreshDocuments = useCallback(async () => {
     try {
       setRefreshingDocument(true);
@@ -316,7 +361,10 @@ export default function KnowledgeBaseDetail({
             headers: {
               "Content-Type": "application/json",
             },
-            body: JSON.stringify({ url: importUrl.trim() }),
+            body: JSON.stringify({
+              url: importUrl.trim(),
+              refreshIntervalHours: importRefresh,
+            }),
           },
         );
 
@@ -328,6 +376,7 @@ export default function KnowledgeBaseDetail({
         await Promise.all([mutateDetail(), mutateCache("/api/knowledge-base")]);
         toast.success(t("messages.importQueued"));
         setImportUrl("");
+        setImportRefresh(null);
       } catch (error) {
         handleErrorWithToast(
           error instanceof Error ? error : new Error(String(error)),
@@ -336,7 +385,7 @@ export default function KnowledgeBaseDetail({
         setIsImporting(false);
       }
     },
-    [importUrl, knowledgeBaseId, mutateCache, mutateDetail, t],
+    [importRefresh, importUrl, knowledgeBaseId, mutateCache, mutateDetail, t],
   );
 
   const documentStatusGroups = useMemo(() => {
@@ -356,6 +405,7 @@ export default function KnowledgeBaseDetail({
   }, [documents]);
 
   const visibility = knowledgeBase?.visibility ?? "private";
+  const searchMode = knowledgeBase?.searchMode ?? "vector";
 
   return (
     <>
@@ -458,6 +508,44 @@ export default function KnowledgeBaseDetail({
                         </SelectContent>
                       </Select>
                     </div>
+                    <div className="space-y-2">
+                      <label
+                        className="text-sm font-medium"
+                        htmlFor="kb-search-mode"
+                      >
+                        {t("form.searchMode")}
+                      </label>
+                      <Select
+                        defaultValue={searchMode}
+                        onValueChange={(value) =>
+                          handleUpdateKnowledgeBase({
+                            searchMode: value as KnowledgeBaseSearchMode,
+                          })
+                        }
+                      >
+                        <SelectTrigger id="kb-search-mode">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="vector">
+                            {t("searchMode.vector")}
+                          </SelectItem>
+                          <SelectItem value="hybrid">
+                            {t("searchMode.hybrid")}
+                          </SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-muted-foreground">
+                        {t(`searchMode.${searchMode}Description`)}
+                      </p>
+                    </div>
+                    <KnowledgeBaseEmbeddingSettings
+                      embedding={knowledgeBase.embedding}
+                      disabled={isSaving}
+                      onSave={(embedding) =>
+                        handleUpdateKnowledgeBase({ embedding })
+                      }
+                    />
                     <div className="space-y-2 md:col-span-2">
                       <label
                         className="text-sm font-medium"
@@ -599,6 +687,9 @@ export default function KnowledgeBaseDetail({
                         ref={fileInputRef}
                         type="file"
                         hidden
+                        accept={SUPPORTED_DOCUMENT_EXTENSIONS.map(
+                          (extension) => `.${extension}`,
+                        ).join(",")}
                         onChange={(event) => {
                           const file = event.currentTarget.files?.[0] ?? null;
                           event.currentTarget.value = "";
@@ -650,11 +741,21 @@ export default function KnowledgeBaseDetail({
                             : t("actions.import")}
                         </Button>
                       </div>
+                      <div className="flex items-center gap-3">
+                        <span className="text-xs text-muted-foreground">
+                          {t("documents.import.refreshLabel")}
+                        </span>
+                        <KnowledgeBaseRefreshSelect
+                          value={importRefresh}
+                          onChange={setImportRefresh}
+                        />
+                      </div>
                       <p className="text-xs text-muted-foreground">
                         {t("documents.import.note")}
                       </p>
                     </form>
                   </div>
+                  <KnowledgeBaseCrawlPanel knowledgeBaseId={knowledgeBaseId} />
                   <div className="overflow-hidden rounded-lg border border-border/60">
                     <table className="min-w-full text-sm">
                       <thead className="bg-muted/60 text-left text-xs uppercase text-muted-foreground">
@@ -680,7 +781,8 @@ export default function KnowledgeBaseDetail({
                         {documents.map((document) => (
                           <tr
                             key={document.id}
-                            className="border-t border-border/40 text-sm"
+                            id={`document-${document.id}`}
+                            className="border-t border-border/40 text-sm scroll-mt-24 target:bg-primary/5"
                           >
                             <td className="px-4 py-3">
                               <div className="flex items-center gap-2">
@@ -696,6 +798,42 @@ export default function KnowledgeBaseDetail({
                                   className="max-w-sm"
                                 />
                               </div>
+                              {document.sourceUrl ? (
+                                <div className="mt-2 flex flex-wrap items-center gap-x-3 gap-y-1 pl-6 text-xs text-muted-foreground">
+                                  <a
+                                    href={document.sourceUrl}
+                                    target="_blank"
+                                    rel="noreferrer"
+                                    className="max-w-xs truncate hover:underline"
+                                  >
+                                    {document.sourceUrl}
+                                  </a>
+                                  <span>
+                                    {t("documents.revision", {
+                                      revision: document.revision,
+                                    })}
+                                  </span>
+                                  {document.lastCheckedAt ? (
+                                    <span>
+                                      {t("documents.lastChecked", {
+                                        date: new Date(
+                                          document.lastCheckedAt,
+                                        ).toLocaleString(),
+                                      })}
+                                    </span>
+                                  ) : null}
+                                  <KnowledgeBaseRefreshSelect
+                                    value={document.refreshIntervalHours}
+                                    className="w-36"
+                                    onChange={(value) =>
+                                      handleUpdateRefreshInterval(
+                                        document,
+                                        value,
+                                      )
+                                    }
+                                  />
+                                </div>
+                              ) : null}
                             </td>
                             <td className="px-4 py-3 text-muted-foreground">
                               {formatBytes(document.fileSize)}
@@ -708,6 +846,29 @@ export default function KnowledgeBaseDetail({
                               >
                                 {t(`status.${document.status}`)}
                               </Badge>
+                              {document.totalChunks > 0 ? (
+                                <div className="mt-2 max-w-40 space-y-1">
+                                  <div className="h-1.5 overflow-hidden rounded-full bg-muted">
+                                    <div
+                                      className="h-full rounded-full bg-primary transition-all"
+                                      style={{
+                                        width: `${Math.min(
+                                          100,
+                                          (document.chunkCount /
+                                            document.totalChunks) *
+                                            100,
+                                        )}%`,
+                                      }}
+                                    />
+                                  </div>
+                                  <p className="text-xs text-muted-foreground">
+                                    {t("documents.progress", {
+                                      embedded: document.chunkCount,
+                                      total: document.totalChunks,
+                                    })}
+                                  </p>
+                                </div>
+                              ) : null}
                             </td>
                             <td className="px-4 py-3 text-muted-foreground">
                               {document.embeddingTokens}
@@ -0,0 +1,165 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useTranslations } from "next-intl";
+
+import {
+  KNOWLEDGE_BASE_EMBEDDING_PRESETS,
+  KNOWLEDGE_BASE_MAX_EMBEDDING_DIMENSION,
+  KnowledgeBaseEmbeddingConfig,
+  KnowledgeBaseEmbeddingProvider,
+  KnowledgeBaseEmbeddingProviderSchema,
+} from "app-types/knowledge-base";
+import { Button } from "ui/button";
+import { Input } from "ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "ui/select";
+
+const CUSTOM_PRESET = "custom";
+
+function toPresetKey(config: KnowledgeBaseEmbeddingConfig): string {
+  return `${config.provider}:${config.model}`;
+}
+
+type KnowledgeBaseEmbeddingSettingsProps = {
+  embedding: KnowledgeBaseEmbeddingConfig;
+  disabled?: boolean;
+  onSave: (embedding: KnowledgeBaseEmbeddingConfig) => void;
+};
+
+export function KnowledgeBaseEmbeddingSettings({
+  embedding,
+  disabled,
+  onSave,
+}: KnowledgeBaseEmbeddingSettingsProps) {
+  const t = useTranslations("KnowledgeBase");
+  const [draft, setDraft] = useState<KnowledgeBaseEmbeddingConfig>(embedding);
+
+  useEffect(() => {
+    setDraft(embedding);
+  }, [embedding.provider, embedding.model, embedding.dimension]);
+
+  const presetKey = useMemo(() => {
+    const preset = KNOWLEDGE_BASE_EMBEDDING_PRESETS.find(
+      (item) =>
+        toPresetKey(item) === toPresetKey(draft) &&
+        item.dimension === draft.dimension,
+    );
+    return preset ? toPresetKey(preset) : CUSTOM_PRESET;
+  }, [draft]);
+
+  const isDirty =
+    draft.provider !== embedding.provider ||
+    draft.model !== embedding.model ||
+    draft.dimension !== embedding.dimension;
+
+  const isValid =
+    !!draft.model.trim() &&
+    Number.isInteger(draft.dimension) &&
+    draft.dimension > 0 &&
+    draft.dimension <= KNOWLEDGE_BASE_MAX_EMBEDDING_DIMENSION;
+
+  const handleSave = () => {
+    if (!window.confirm(t("confirm.changeEmbedding"))) return;
+    onSave({ ...draft, model: draft.model.trim() });
+  };
+
+  return (
+    <div className="space-y-3 md:col-span-2">
+      <div className="space-y-1">
+        <label className="text-sm font-medium" htmlFor="kb-embedding-preset">
+          {t("form.embeddingModel")}
+        </label>
+        <p className="text-xs text-muted-foreground">
+          {t("embedding.description")}
+        </p>
+      </div>
+      <div className="grid gap-3 md:grid-cols-4">
+        <Select
+          value={presetKey}
+          onValueChange={(value) => {
+            const preset = KNOWLEDGE_BASE_EMBEDDING_PRESETS.find(
+              (item) => toPresetKey(item) === value,
+            );
+            if (preset) setDraft(preset);
+          }}
+        >
+          <SelectTrigger id="kb-embedding-preset" className="md:col-span-4">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {KNOWLEDGE_BASE_EMBEDDING_PRESETS.map((preset) => (
+              <SelectItem key={toPresetKey(preset)} value={toPresetKey(preset)}>
+                {t(`embedding.provider.${preset.provider}`)} · {preset.model} (
+                {preset.dimension})
+              </SelectItem>
+            ))}
+            <SelectItem value={CUSTOM_PRESET}>
+              {t("embedding.custom")}
+            </SelectItem>
+          </SelectContent>
+        </Select>
+        <Select
+          value={draft.provider}
+          onValueChange={(value) =>
+            setDraft((prev) => ({
+              ...prev,
+              provider: value as KnowledgeBaseEmbeddingProvider,
+            }))
+          }
+        >
+          <SelectTrigger aria-label={t("embedding.providerLabel")}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {KnowledgeBaseEmbeddingProviderSchema.options.map((provider) => (
+              <SelectItem key={provider} value={provider}>
+                {t(`embedding.provider.${provider}`)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          aria-label={t("embedding.modelLabel")}
+          value={draft.model}
+          placeholder={t("embedding.modelPlaceholder")}
+          onChange={(event) => {
+            const model = event.currentTarget.value;
+            setDraft((prev) => ({ ...prev, model }));
+          }}
+          className="md:col-span-2"
+        />
+        <Input
+          aria-label={t("embedding.dimensionLabel")}
+          type="number"
+          min={1}
+          max={KNOWLEDGE_BASE_MAX_EMBEDDING_DIMENSION}
+          value={Number.isFinite(draft.dimension) ? draft.dimension : ""}
+          onChange={(event) => {
+            const dimension = Number.parseInt(event.currentTarget.value, 10);
+            setDraft((prev) => ({ ...prev, dimension }));
+          }}
+        />
+      </div>
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-xs text-muted-foreground">
+          {t("embedding.reembedNote", {
+            max: KNOWLEDGE_BASE_MAX_EMBEDDING_DIMENSION,
+          })}
+        </p>
+        <Button
+          size="sm"
+          onClick={handleSave}
+          disabled={disabled || !isDirty || !isValid}
+        >
+          {t("actions.saveEmbedding")}
+        </Button>
+      </div>
+    </div>
+  );
+}
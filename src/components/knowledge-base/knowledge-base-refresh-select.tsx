@@ -0,0 +1,61 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+
+import { KNOWLEDGE_BASE_REFRESH_INTERVAL_PRESETS } from "app-types/knowledge-base";
+import { cn } from "lib/utils";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "ui/select";
+
+const NEVER_REFRESH = "never";
+
+type KnowledgeBaseRefreshSelectProps = {
+  value?: number | null;
+  disabled?: boolean;
+  className?: string;
+  onChange: (value: number | null) => void;
+};
+
+export function KnowledgeBaseRefreshSelect({
+  value,
+  disabled,
+  className,
+  onChange,
+}: KnowledgeBaseRefreshSelectProps) {
+  const t = useTranslations("KnowledgeBase");
+
+  const options: number[] = [...KNOWLEDGE_BASE_REFRESH_INTERVAL_PRESETS];
+  if (value && !options.includes(value)) {
+    options.push(value);
+    options.sort((a, b) => a - b);
+  }
+
+  return (
+    <Select
+      value={value ? `${value}` : NEVER_REFRESH}
+      disabled={disabled}
+      onValueChange={(next) =>
+        onChange(next === NEVER_REFRESH ? null : Number(next))
+      }
+    >
+      <SelectTrigger size="sm" className={cn("w-40", className)}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NEVER_REFRESH}>
+          {t("documents.refresh.never")}
+        </SelectItem>
+        {options.map((interval) => (
+          <SelectItem key={interval} value={`${interval}`}>
+            {t("documents.refresh.every", { interval })}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
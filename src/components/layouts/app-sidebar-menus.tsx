@@ -1,6 +1,7 @@
 "use client";
 import {
   SidebarMenuAction,
+  SidebarMenuBadge,
   SidebarMenuButton,
   SidebarMenuSub,
   SidebarMenuSubButton,
@@ -21,6 +22,7 @@ import { WriteIcon } from "ui/write-icon";
 import {
   FolderOpenIcon,
   FolderSearchIcon,
+  HandIcon,
   PlusIcon,
   Waypoints,
   UsersRound,
@@ -29,6 +31,7 @@ import {
 import { useCallback, useState } from "react";
 import { Skeleton } from "ui/skeleton";
 import { useArchives } from "@/hooks/queries/use-archives";
+import { useWorkflowApprovals } from "@/hooks/queries/use-workflow-approvals";
 import { ArchiveDialog } from "../archive-dialog";
 
 export function AppSidebarMenus() {
@@ -39,6 +42,7 @@ export function AppSidebarMenus() {
   const [addArchiveDialogOpen, setAddArchiveDialogOpen] = useState(false);
 
   const { data: archives, isLoading: isLoadingArchives } = useArchives();
+  const { data: approvals = [] } = useWorkflowApprovals();
   const toggleArchive = useCallback(() => {
     setExpandedArchive((prev) => !prev);
   }, []);
@@ -112,6 +116,21 @@ export function AppSidebarMenus() {
             </SidebarMenuItem>
           </Tooltip>
         </SidebarMenu>
+        {approvals.length > 0 && (
+          <SidebarMenu>
+            <Tooltip>
+              <SidebarMenuItem>
+                <Link href="/workflow/approvals">
+                  <SidebarMenuButton className="font-semibold">
+                    <HandIcon className="size-4" />
+                    {t("Workflow.approvals")}
+                  </SidebarMenuButton>
+                </Link>
+                <SidebarMenuBadge>{approvals.length}</SidebarMenuBadge>
+              </SidebarMenuItem>
+            </Tooltip>
+          </SidebarMenu>
+        )}
         <SidebarMenu>
           <Tooltip>
             <SidebarMenuItem>
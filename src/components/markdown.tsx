@@ -118,6 +118,17 @@ const components: Partial<Components> = {
     );
   },
   a: ({ node, children, ...props }) => {
+    // Knowledge base citation markers render inline instead of as a link row.
+    if (props.href?.startsWith("/knowledge-base/")) {
+      return (
+        <a
+          className="text-primary text-xs align-super hover:underline"
+          {...toAny(props)}
+        >
+          {children}
+        </a>
+      );
+    }
     return (
       <a
         className="text-primary hover:underline flex gap-1.5 items-center"
@@ -2,6 +2,7 @@
 import {
   ChevronRight,
   FlaskConical,
+  KeyRoundIcon,
   ShieldAlertIcon,
   Loader,
   Pencil,
@@ -36,6 +37,7 @@ import { appStore } from "@/app/store";
 import { isString } from "lib/utils";
 import { redriectMcpOauth } from "lib/ai/mcp/oauth-redirect";
 import { Badge } from "ui/badge";
+import { MCPCredentialsDialog } from "./mcp-credentials-dialog";
 
 // Main MCPCard component
 export const MCPCard = memo(function MCPCard({
@@ -45,6 +47,7 @@ export const MCPCard = memo(function MCPCard({
   status,
   name,
   toolInfo,
+  credentialStatus,
   scope,
   organizationName,
   canManage = true,
@@ -55,6 +58,7 @@ export const MCPCard = memo(function MCPCard({
   canManage?: boolean;
 }) {
   const [isProcessing, setIsProcessing] = useState(false);
+  const [isCredentialsOpen, setIsCredentialsOpen] = useState(false);
   const t = useTranslations("MCP");
   const appStoreMutate = appStore((state) => state.mutate);
 
@@ -141,6 +145,22 @@ export const MCPCard = memo(function MCPCard({
             </div>
           </>
         )}
+        {credentialStatus && (
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setIsCredentialsOpen(true)}
+              >
+                <KeyRoundIcon className="size-3.5" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>
+              <p>{t("myCredentials")}</p>
+            </TooltipContent>
+          </Tooltip>
+        )}
         <Tooltip>
           <TooltipTrigger asChild>
             <Button
@@ -247,6 +267,37 @@ export const MCPCard = memo(function MCPCard({
 
       {errorMessage && <ErrorAlert error={errorMessage} />}
 
+      {credentialStatus == "missing" && (
+        <div className="px-6 pb-2">
+          <Alert
+            className="cursor-pointer hover:bg-accent/10 transition-colors"
+            onClick={() => setIsCredentialsOpen(true)}
+            role="button"
+            tabIndex={0}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" || e.key === " ") {
+                e.preventDefault();
+                setIsCredentialsOpen(true);
+              }
+            }}
+          >
+            <KeyRoundIcon />
+            <AlertTitle>{t("credentialsRequired")}</AlertTitle>
+            <AlertDescription>
+              {t("credentialsRequiredDescription")}
+            </AlertDescription>
+          </Alert>
+        </div>
+      )}
+      {credentialStatus && (
+        <MCPCredentialsDialog
+          id={id}
+          name={name}
+          open={isCredentialsOpen}
+          onOpenChange={setIsCredentialsOpen}
+        />
+      )}
+
       {needsAuthorization && (
         <div className="px-6 pb-2">
           <Alert
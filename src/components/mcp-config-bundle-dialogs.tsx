@@ -0,0 +1,423 @@
+"use client";
+
+import type {
+  MCPConfigBundle,
+  MCPConfigImportPreviewItem,
+  MCPConfigImportResolution,
+  MCPConfigImportResult,
+  MCPServerInfo,
+} from "app-types/mcp";
+import { format } from "date-fns";
+import { fetcher, generateUniqueKey } from "lib/utils";
+import { Loader } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { useEffect, useMemo, useState } from "react";
+import { toast } from "sonner";
+import { mutate } from "swr";
+import { safe } from "ts-safe";
+import { Badge } from "ui/badge";
+import { Button } from "ui/button";
+import { Checkbox } from "ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "ui/dialog";
+import { Input } from "ui/input";
+import JsonView from "ui/json-view";
+import { Label } from "ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "ui/select";
+import { handleErrorWithToast } from "ui/shared-toast";
+import { Textarea } from "ui/textarea";
+
+type Server = MCPServerInfo & { id: string };
+
+export function MCPExportDialog({
+  servers,
+  open,
+  onOpenChange,
+}: {
+  servers: Server[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const t = useTranslations("MCP");
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    if (open) setSelectedIds(servers.map((server) => server.id));
+  }, [open]);
+
+  const handleExport = () =>
+    safe(() => setIsExporting(true))
+      .map(() =>
+        fetcher("/api/mcp/export", {
+          method: "POST",
+          body: JSON.stringify({ ids: selectedIds }),
+        }),
+      )
+      .ifOk((bundle: MCPConfigBundle) => {
+        const blob = new Blob([JSON.stringify(bundle, null, 2)], {
+          type: "application/json",
+        });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = `mcp-servers-${format(new Date(), "yyyy-MM-dd")}.json`;
+        link.click();
+        URL.revokeObjectURL(url);
+        onOpenChange(false);
+      })
+      .ifFail(handleErrorWithToast)
+      .watch(() => setIsExporting(false));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t("exportServers")}</DialogTitle>
+          <DialogDescription>{t("exportServersDescription")}</DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-col gap-2 max-h-80 overflow-y-auto">
+          {servers.map((server) => (
+            <Label
+              key={server.id}
+              className="flex items-center gap-2 rounded-md border p-3 cursor-pointer"
+            >
+              <Checkbox
+                checked={selectedIds.includes(server.id)}
+                onCheckedChange={(checked) =>
+                  setSelectedIds((prev) =>
+                    checked
+                      ? [...prev, server.id]
+                      : prev.filter((id) => id != server.id),
+                  )
+                }
+              />
+              {server.name}
+            </Label>
+          ))}
+        </div>
+        <DialogFooter>
+          <Button
+            disabled={!selectedIds.length || isExporting}
+            onClick={handleExport}
+          >
+            {isExporting && <Loader className="size-4 animate-spin" />}
+            {t("export")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function defaultResolution(
+  item: MCPConfigImportPreviewItem,
+  takenNames: string[],
+): MCPConfigImportResolution | undefined {
+  if (item.status == "new") return undefined;
+  if (item.canOverwrite) {
+    return item.status == "unchanged"
+      ? { action: "skip" }
+      : { action: "overwrite" };
+  }
+  return { action: "rename", name: generateUniqueKey(item.name, takenNames) };
+}
+
+/**
+ * Imports a bundle in two steps: the uploaded bundle is compared with the
+ * existing servers first, so name conflicts can be resolved per server.
+ */
+export function MCPImportDialog({
+  servers,
+  open,
+  onOpenChange,
+}: {
+  servers: Server[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const t = useTranslations("MCP");
+  const [text, setText] = useState("");
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [preview, setPreview] = useState<{
+    bundle: MCPConfigBundle;
+    preview: MCPConfigImportPreviewItem[];
+  }>();
+  const [resolutions, setResolutions] = useState<
+    Record<string, MCPConfigImportResolution | undefined>
+  >({});
+  const [parameters, setParameters] = useState<Record<string, string>>({});
+  const [results, setResults] = useState<MCPConfigImportResult[]>();
+
+  useEffect(() => {
+    if (open) return;
+    setText("");
+    setPreview(undefined);
+    setResolutions({});
+    setParameters({});
+    setResults(undefined);
+  }, [open]);
+
+  const takenNames = useMemo(
+    () => [
+      ...servers.map((server) => server.name),
+      ...(preview?.preview
+        .filter((item) => item.status != "new")
+        .map((item) => item.name) ?? []),
+    ],
+    [servers, preview],
+  );
+
+  const visibleParameters = useMemo(
+    () =>
+      preview?.bundle.parameters.filter(
+        (parameter) => resolutions[parameter.server]?.action != "skip",
+      ) ?? [],
+    [preview, resolutions],
+  );
+
+  const handlePreview = () =>
+    safe(() => setIsProcessing(true))
+      .map(() => JSON.parse(text))
+      .map((bundle) =>
+        fetcher("/api/mcp/import/preview", {
+          method: "POST",
+          body: JSON.stringify({ bundle }),
+        }),
+      )
+      .ifOk((result: NonNullable<typeof preview>) => {
+        const taken = [
+          ...servers.map((server) => server.name),
+          ...result.preview
+            .filter((item) => item.status != "new")
+            .map((item) => item.name),
+        ];
+        setPreview(result);
+        setResolutions(
+          Object.fromEntries(
+            result.preview.map((item) => [
+              item.name,
+              defaultResolution(item, taken),
+            ]),
+          ),
+        );
+      })
+      .ifFail(handleErrorWithToast)
+      .watch(() => setIsProcessing(false));
+
+  const handleImport = () =>
+    safe(() => setIsProcessing(true))
+      .map(() =>
+        fetcher("/api/mcp/import", {
+          method: "POST",
+          body: JSON.stringify({
+            bundle: preview!.bundle,
+            parameters,
+            resolutions,
+          }),
+        }),
+      )
+      .ifOk((result: MCPConfigImportResult[]) => {
+        setResults(result);
+        // A retry after failures only imports the failed servers again
+        setResolutions((prev) => ({
+          ...prev,
+          ...Object.fromEntries(
+            result
+              .filter((item) => item.status != "failed")
+              .map((item) => [item.name, { action: "skip" as const }]),
+          ),
+        }));
+        mutate("/api/mcp/list");
+        const failed = result.filter((item) => item.status == "failed");
+        if (!failed.length) {
+          toast.success(t("importCompleted"));
+          onOpenChange(false);
+        }
+      })
+      .ifFail(handleErrorWithToast)
+      .watch(() => setIsProcessing(false));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{t("importServers")}</DialogTitle>
+          <DialogDescription>{t("importServersDescription")}</DialogDescription>
+        </DialogHeader>
+        {!preview ? (
+          <div className="flex flex-col gap-2">
+            <Input
+              type="file"
+              accept="application/json,.json"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) file.text().then(setText);
+              }}
+            />
+            <Textarea
+              className="font-mono text-xs h-60 resize-none"
+              placeholder={t("pasteBundle")}
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+            />
+          </div>
+        ) : (
+          <div className="flex flex-col gap-4 max-h-[60vh] overflow-y-auto">
+            {preview.preview.map((item) => {
+              const resolution = resolutions[item.name];
+              const result = results?.find(
+                (result) => result.name == item.name,
+              );
+              const incoming = preview.bundle.servers.find(
+                (server) => server.name == item.name,
+              )?.config as Record<string, unknown>;
+              return (
+                <div
+                  key={item.name}
+                  className="flex flex-col gap-2 rounded-md border p-3 text-sm"
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{item.name}</span>
+                    <Badge variant="outline">
+                      {t(`importStatus.${item.status}`)}
+                    </Badge>
+                    <div className="flex-1" />
+                    {item.status != "new" && (
+                      <Select
+                        value={resolution?.action}
+                        onValueChange={(action) =>
+                          setResolutions((prev) => ({
+                            ...prev,
+                            [item.name]:
+                              action == "rename"
+                                ? {
+                                    action,
+                                    name: generateUniqueKey(
+                                      item.name,
+                                      takenNames,
+                                    ),
+                                  }
+                                : {
+                                    action: action as "skip" | "overwrite",
+                                  },
+                          }))
+                        }
+                      >
+                        <SelectTrigger size="sm">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="skip">{t("skip")}</SelectItem>
+                          {item.canOverwrite && (
+                            <SelectItem value="overwrite">
+                              {t("overwrite")}
+                            </SelectItem>
+                          )}
+                          <SelectItem value="rename">{t("rename")}</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    )}
+                  </div>
+                  {resolution?.action == "rename" && (
+                    <Input
+                      value={resolution.name}
+                      onChange={(e) =>
+                        setResolutions((prev) => ({
+                          ...prev,
+                          [item.name]: {
+                            action: "rename",
+                            name: e.target.value,
+                          },
+                        }))
+                      }
+                    />
+                  )}
+                  {item.status == "changed" &&
+                    item.changedKeys?.map((key) => (
+                      <div key={key} className="grid grid-cols-2 gap-2">
+                        <div className="min-w-0 rounded bg-destructive/10 p-2">
+                          <JsonView
+                            data={{
+                              [key]: (
+                                item.existingConfig as Record<string, unknown>
+                              )?.[key],
+                            }}
+                          />
+                        </div>
+                        <div className="min-w-0 rounded bg-green-500/10 p-2">
+                          <JsonView data={{ [key]: incoming?.[key] }} />
+                        </div>
+                      </div>
+                    ))}
+                  {result?.error && (
+                    <p className="text-xs text-destructive">{result.error}</p>
+                  )}
+                </div>
+              );
+            })}
+            {visibleParameters.length > 0 && (
+              <div className="flex flex-col gap-2">
+                <Label>{t("bundleParameters")}</Label>
+                {visibleParameters.map((parameter) => (
+                  <div
+                    key={parameter.name}
+                    className="flex flex-col gap-1 text-sm"
+                  >
+                    <span className="text-xs text-muted-foreground">
+                      {parameter.server} · {parameter.type} {parameter.key}
+                    </span>
+                    <Input
+                      type="password"
+                      autoComplete="off"
+                      placeholder={
+                        resolutions[parameter.server]?.action == "overwrite"
+                          ? t("keepCurrentValue")
+                          : parameter.name
+                      }
+                      value={parameters[parameter.name] ?? ""}
+                      onChange={(e) =>
+                        setParameters((prev) => ({
+                          ...prev,
+                          [parameter.name]: e.target.value,
+                        }))
+                      }
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+        <DialogFooter>
+          {preview ? (
+            <Button disabled={isProcessing} onClick={handleImport}>
+              {isProcessing && <Loader className="size-4 animate-spin" />}
+              {t("import")}
+            </Button>
+          ) : (
+            <Button
+              disabled={!text.trim() || isProcessing}
+              onClick={handlePreview}
+            >
+              {isProcessing && <Loader className="size-4 animate-spin" />}
+              {t("reviewImport")}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
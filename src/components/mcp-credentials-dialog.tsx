@@ -0,0 +1,185 @@
+"use client";
+
+import type { MCPUserCredentialStatus } from "app-types/mcp";
+import { redriectMcpOauth } from "lib/ai/mcp/oauth-redirect";
+import { fetcher } from "lib/utils";
+import { CheckIcon, Loader, ShieldAlertIcon } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { useEffect, useState } from "react";
+import useSWR, { mutate } from "swr";
+import { safe } from "ts-safe";
+import { Button } from "ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "ui/dialog";
+import { Input } from "ui/input";
+import { Label } from "ui/label";
+import { handleErrorWithToast } from "ui/shared-toast";
+
+/**
+ * Lets a member of a shared server fill in the credentials its owner
+ * declared. Saved values are never shown again, an empty input keeps them.
+ */
+export function MCPCredentialsDialog({
+  id,
+  name,
+  open,
+  onOpenChange,
+}: {
+  id: string;
+  name: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const t = useTranslations("MCP");
+  const key = `/api/mcp/credentials/${id}`;
+  const { data: status, mutate: mutateStatus } =
+    useSWR<MCPUserCredentialStatus>(open ? key : null, fetcher);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  useEffect(() => {
+    if (!open) setValues({});
+  }, [open]);
+
+  const pipeProcessing = (fn: () => Promise<unknown>) =>
+    safe(() => setIsProcessing(true))
+      .ifOk(fn)
+      .ifOk(() => mutateStatus())
+      .ifOk(() => mutate("/api/mcp/list"))
+      .ifFail(handleErrorWithToast)
+      .watch(() => setIsProcessing(false));
+
+  const save = () =>
+    pipeProcessing(async () => {
+      await fetcher(key, {
+        method: "PUT",
+        body: JSON.stringify({ values }),
+      });
+      onOpenChange(false);
+    });
+
+  const remove = () =>
+    pipeProcessing(async () => {
+      await fetcher(key, { method: "DELETE" });
+      setValues({});
+    });
+
+  const authorize = () =>
+    pipeProcessing(() => redriectMcpOauth(id, { perUser: true }));
+
+  const valueSlots =
+    status?.slots.flatMap((slot) => (slot.type == "oauth" ? [] : [slot])) ?? [];
+  const oauthSlot = status?.slots.find((slot) => slot.type == "oauth");
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t("credentialsTitle", { name })}</DialogTitle>
+          <DialogDescription>{t("credentialsDescription")}</DialogDescription>
+        </DialogHeader>
+        {!status ? (
+          <div className="flex justify-center py-6">
+            <Loader className="size-4 animate-spin" />
+          </div>
+        ) : (
+          <form
+            className="flex flex-col gap-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              save();
+            }}
+          >
+            {valueSlots.map((slot) => {
+              const configured = status.configured.includes(slot.name);
+              return (
+                <div key={slot.name} className="flex flex-col gap-2">
+                  <Label htmlFor={`mcp-credential-${slot.name}`}>
+                    {slot.label || slot.name}
+                    {configured && (
+                      <CheckIcon className="size-3.5 text-green-500" />
+                    )}
+                  </Label>
+                  <Input
+                    id={`mcp-credential-${slot.name}`}
+                    type="password"
+                    autoComplete="off"
+                    placeholder={
+                      configured ? t("credentialSaved") : slot.description
+                    }
+                    value={values[slot.name] ?? ""}
+                    onChange={(e) =>
+                      setValues((prev) => ({
+                        ...prev,
+                        [slot.name]: e.target.value,
+                      }))
+                    }
+                  />
+                  {slot.description && configured && (
+                    <p className="text-xs text-muted-foreground">
+                      {slot.description}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+            {oauthSlot && (
+              <div className="flex items-center gap-2 rounded-md border p-3 text-sm">
+                <ShieldAlertIcon className="size-4 shrink-0" />
+                <div className="flex flex-col min-w-0">
+                  <span>{oauthSlot.label || t("credentialOAuth")}</span>
+                  {oauthSlot.description && (
+                    <span className="text-xs text-muted-foreground">
+                      {oauthSlot.description}
+                    </span>
+                  )}
+                </div>
+                <div className="flex-1" />
+                {status.authorized ? (
+                  <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                    <CheckIcon className="size-3.5 text-green-500" />
+                    {t("credentialAuthorized")}
+                  </span>
+                ) : (
+                  <Button
+                    type="button"
+                    variant="secondary"
+                    size="sm"
+                    disabled={isProcessing}
+                    onClick={authorize}
+                  >
+                    {t("authorize")}
+                  </Button>
+                )}
+              </div>
+            )}
+            <DialogFooter>
+              {status.configured.length > 0 && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  disabled={isProcessing}
+                  onClick={remove}
+                >
+                  {t("removeCredentials")}
+                </Button>
+              )}
+              {valueSlots.length > 0 && (
+                <Button type="submit" disabled={isProcessing}>
+                  {isProcessing && <Loader className="size-4 animate-spin" />}
+                  {t("saveCredentials")}
+                </Button>
+              )}
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -11,11 +11,16 @@ import { ScrollArea } from "ui/scroll-area";
 import { useTranslations } from "next-intl";
 import { MCPIcon } from "ui/mcp-icon";
 import { useMcpList } from "@/hooks/queries/use-mcp-list";
+import { MCPHealthPanel } from "@/components/mcp-health-panel";
+import {
+  MCPExportDialog,
+  MCPImportDialog,
+} from "@/components/mcp-config-bundle-dialogs";
 import dynamic from "next/dynamic";
 import { useEffect, useMemo, useState } from "react";
 import { MCPServerInfo } from "app-types/mcp";
 import { toast } from "sonner";
-import { Loader2 } from "lucide-react";
+import { DownloadIcon, Loader2, UploadIcon } from "lucide-react";
 import { cn } from "lib/utils";
 import {
   DropdownMenu,
@@ -56,6 +61,7 @@ export default function MCPDashboard({ message }: { message?: string }) {
 
   // Delay showing validating spinner until validating persists for 500ms
   const [showValidating, setShowValidating] = useState(false);
+  const [bundleDialog, setBundleDialog] = useState<"import" | "export">();
 
   const handleRecommendedSelect = (mcp: (typeof RECOMMENDED_MCPS)[number]) => {
     const params = new URLSearchParams();
@@ -159,6 +165,25 @@ export default function MCPDashboard({ message }: { message?: string }) {
                 </DropdownMenu>
               ) : null}
 
+              {mcpList?.length ? (
+                <Button
+                  variant="ghost"
+                  className="text-muted-foreground"
+                  onClick={() => setBundleDialog("export")}
+                >
+                  <DownloadIcon className="size-3.5" />
+                  {t("export")}
+                </Button>
+              ) : null}
+              <Button
+                variant="ghost"
+                className="text-muted-foreground"
+                onClick={() => setBundleDialog("import")}
+              >
+                <UploadIcon className="size-3.5" />
+                {t("import")}
+              </Button>
+
               <Link href="/mcp/create">
                 <Button className="font-semibold" variant="outline">
                   <MCPIcon className="fill-foreground size-3.5" />
@@ -175,6 +200,7 @@ export default function MCPDashboard({ message }: { message?: string }) {
             </div>
           ) : sortedMcpList?.length ? (
             <div className="flex flex-col gap-6 mb-4 z-20">
+              <MCPHealthPanel servers={sortedMcpList} />
               {sortedMcpList.map((mcp) => (
                 <MCPCard key={mcp.id} {...mcp} />
               ))}
@@ -185,6 +211,16 @@ export default function MCPDashboard({ message }: { message?: string }) {
           )}
         </div>
       </ScrollArea>
+      <MCPExportDialog
+        servers={mcpList ?? []}
+        open={bundleDialog == "export"}
+        onOpenChange={(open) => !open && setBundleDialog(undefined)}
+      />
+      <MCPImportDialog
+        servers={mcpList ?? []}
+        open={bundleDialog == "import"}
+        onOpenChange={(open) => !open && setBundleDialog(undefined)}
+      />
     </>
   );
 }
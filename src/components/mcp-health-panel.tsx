@@ -0,0 +1,105 @@
+"use client";
+
+import type { MCPServerHealth, MCPServerInfo } from "app-types/mcp";
+import { formatDistanceToNow } from "date-fns";
+import { cn } from "lib/utils";
+import { ActivityIcon } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { Card, CardContent, CardHeader } from "ui/card";
+import { Tooltip, TooltipContent, TooltipTrigger } from "ui/tooltip";
+
+const STATE_COLORS: Record<MCPServerHealth["state"], string> = {
+  healthy: "bg-green-500",
+  unhealthy: "bg-destructive",
+  authorizing: "bg-yellow-500",
+  unknown: "bg-muted-foreground",
+};
+
+function timeAgo(date: Date | string) {
+  return formatDistanceToNow(new Date(date), { addSuffix: true });
+}
+
+/**
+ * Uptime, tool call latency and the last failure of each server, as
+ * recorded by the periodic health checks.
+ */
+export function MCPHealthPanel({
+  servers,
+}: {
+  servers: (MCPServerInfo & { id: string })[];
+}) {
+  const t = useTranslations("MCP");
+  const monitored = servers.filter((server) => server.health);
+  if (!monitored.length) return null;
+
+  return (
+    <Card className="bg-secondary/40 gap-2">
+      <CardHeader className="flex items-center gap-2">
+        <ActivityIcon className="size-4 text-muted-foreground" />
+        <h4 className="font-bold text-sm">{t("serverHealth")}</h4>
+      </CardHeader>
+      <CardContent className="flex flex-col divide-y text-sm">
+        {monitored.map(({ id, name, health }) => {
+          const { state, uptime, toolCalls, errors, nextRetryAt } = health!;
+          const lastError = errors[0];
+          return (
+            <div key={id} className="flex flex-col gap-1 py-2">
+              <div className="flex items-center gap-2">
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <span
+                      className={cn(
+                        "size-2 rounded-full shrink-0",
+                        STATE_COLORS[state],
+                      )}
+                    />
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p>{t(`healthState.${state}`)}</p>
+                  </TooltipContent>
+                </Tooltip>
+                <span className="font-medium truncate">{name}</span>
+                <div className="flex-1" />
+                <span className="text-xs text-muted-foreground shrink-0">
+                  {t("uptime", {
+                    value:
+                      uptime === undefined
+                        ? "-"
+                        : `${(uptime * 100).toFixed(1)}%`,
+                  })}
+                </span>
+                <span className="text-xs text-muted-foreground shrink-0">
+                  {toolCalls.count
+                    ? t("toolCallLatency", {
+                        count: toolCalls.count,
+                        average: toolCalls.averageLatencyMs!,
+                        p95: toolCalls.p95LatencyMs!,
+                      })
+                    : t("noToolCalls")}
+                </span>
+              </div>
+              {lastError && (
+                <p
+                  className={cn(
+                    "text-xs break-all",
+                    state == "unhealthy"
+                      ? "text-destructive"
+                      : "text-muted-foreground",
+                  )}
+                >
+                  {t("lastFailure", {
+                    time: timeAgo(lastError.at),
+                    message: lastError.message,
+                  })}
+                  {state == "unhealthy" && nextRetryAt && (
+                    <> · {t("nextRetry", { time: timeAgo(nextRetryAt) })}</>
+                  )}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,135 @@
+"use client";
+
+import { MCPPromptInfo } from "app-types/mcp";
+import { Loader } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { useEffect, useState } from "react";
+import { Button } from "ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "ui/dialog";
+import { Input } from "ui/input";
+import { Label } from "ui/label";
+import { MCPIcon } from "ui/mcp-icon";
+import { cn } from "lib/utils";
+
+export type MCPPromptCommand = MCPPromptInfo & {
+  serverId: string;
+  serverName: string;
+};
+
+export function MCPPromptCommandList({
+  commands,
+  selectedIndex,
+  onSelect,
+}: {
+  commands: MCPPromptCommand[];
+  selectedIndex: number;
+  onSelect: (command: MCPPromptCommand) => void;
+}) {
+  const t = useTranslations("Chat.McpPrompt");
+  return (
+    <div className="absolute bottom-full left-0 mb-2 w-full max-h-64 overflow-y-auto rounded-md border bg-popover p-2 shadow-md z-50">
+      <div className="text-xs font-medium text-muted-foreground px-2 py-1.5">
+        {t("title")}
+      </div>
+      {commands.map((command, index) => (
+        <button
+          key={`${command.serverId}-${command.name}`}
+          className={cn(
+            "flex items-center gap-2 w-full rounded-sm px-2 py-1.5 text-sm text-left hover:bg-accent hover:text-accent-foreground cursor-pointer",
+            index == selectedIndex && "bg-accent text-accent-foreground",
+          )}
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => onSelect(command)}
+        >
+          <MCPIcon className="size-3.5 shrink-0" />
+          <span className="font-semibold shrink-0">/{command.name}</span>
+          <span className="truncate min-w-0 text-xs text-muted-foreground">
+            {command.description}
+          </span>
+          <span className="ml-auto shrink-0 text-xs text-muted-foreground">
+            {command.serverName}
+          </span>
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export function MCPPromptArgumentsDialog({
+  command,
+  isLoading,
+  onSubmit,
+  onClose,
+}: {
+  command?: MCPPromptCommand;
+  isLoading?: boolean;
+  onSubmit: (args: Record<string, string>) => void;
+  onClose: () => void;
+}) {
+  const t = useTranslations("Chat.McpPrompt");
+  const [args, setArgs] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    setArgs({});
+  }, [command]);
+
+  const isValid = (command?.arguments ?? []).every(
+    (argument) => !argument.required || args[argument.name]?.trim(),
+  );
+
+  return (
+    <Dialog open={!!command} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>/{command?.name}</DialogTitle>
+          <DialogDescription>
+            {command?.description || t("argumentsDescription")}
+          </DialogDescription>
+        </DialogHeader>
+        <form
+          className="flex flex-col gap-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (isValid) onSubmit(args);
+          }}
+        >
+          {command?.arguments?.map((argument, index) => (
+            <div key={argument.name} className="flex flex-col gap-2">
+              <Label htmlFor={`mcp-prompt-${argument.name}`}>
+                {argument.name}
+                {argument.required && (
+                  <span className="text-destructive">*</span>
+                )}
+              </Label>
+              <Input
+                id={`mcp-prompt-${argument.name}`}
+                autoFocus={index == 0}
+                value={args[argument.name] ?? ""}
+                placeholder={argument.description}
+                onChange={(e) =>
+                  setArgs((prev) => ({
+                    ...prev,
+                    [argument.name]: e.target.value,
+                  }))
+                }
+              />
+            </div>
+          ))}
+          <DialogFooter>
+            <Button type="submit" disabled={!isValid || isLoading}>
+              {isLoading && <Loader className="size-4 animate-spin" />}
+              {t("insert")}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
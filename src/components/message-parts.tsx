@@ -24,6 +24,8 @@ import { Tooltip, TooltipContent, TooltipTrigger } from "ui/tooltip";
 import { Button } from "ui/button";
 import { Markdown } from "./markdown";
 import { cn, safeJSONParse, truncateString } from "lib/utils";
+import { linkCitationMarkers } from "lib/rag/citation";
+import { KnowledgeBaseSearchToolResult } from "app-types/knowledge-base";
 import JsonView from "ui/json-view";
 import {
   useMemo,
@@ -70,6 +72,7 @@ import {
 } from "lib/keyboard-shortcuts";
 
 import { WorkflowInvocation } from "./tool-invocation/workflow-invocation";
+import { McpElicitationForms } from "./tool-invocation/mcp-elicitation";
 import dynamic from "next/dynamic";
 import { notify } from "lib/notify";
 import { ModelProviderIcon } from "ui/model-provider-icon";
@@ -450,26 +453,27 @@ export const AssistMessagePart = memo(function AssistMessagePart({
     if (!knowledgeBaseChunks.length) {
       return [] as Array<{
         knowledgeBaseId: string;
-        documentName: string;
+        label: string;
         score: number;
       }>;
     }
 
     const deduped = new Map<
       string,
-      { knowledgeBaseId: string; documentName: string; score: number }
+      { knowledgeBaseId: string; label: string; score: number }
     >();
 
     knowledgeBaseChunks.forEach((chunk, index) => {
       const knowledgeBaseId = chunk.knowledgeBaseId ?? "unknown";
       const documentKey = chunk.documentId ?? `${knowledgeBaseId}-${index}`;
-      const key = `${knowledgeBaseId}-${documentKey}`;
       const documentName = chunk.documentName?.trim() || "Untitled document";
+      const label = chunk.citation?.trim() || documentName;
+      const key = `${knowledgeBaseId}-${documentKey}-${label}`;
       const score = typeof chunk.score === "number" ? chunk.score : 0;
 
       const current = deduped.get(key);
       if (!current || score > current.score) {
-        deduped.set(key, { knowledgeBaseId, documentName, score });
+        deduped.set(key, { knowledgeBaseId, label, score });
       }
     });
 
@@ -478,6 +482,21 @@ export const AssistMessagePart = memo(function AssistMessagePart({
 
   const hasKnowledgeSources = knowledgeSources.length > 0;
 
+  const text = useMemo(() => {
+    const citations = message.parts.flatMap((p) => {
+      if (
+        p.type !== `tool-${DefaultToolName.SearchKnowledgeBase}` ||
+        (p as ToolUIPart).state !== "output-available"
+      ) {
+        return [];
+      }
+      const output = (p as ToolUIPart)
+        .output as Partial<KnowledgeBaseSearchToolResult>;
+      return Array.isArray(output?.results) ? output.results : [];
+    });
+    return linkCitationMarkers(part.text, citations);
+  }, [part.text, message.parts]);
+
   const deleteMessage = useCallback(async () => {
     const ok = await notify.confirm({
       title: "Delete Message",
@@ -541,7 +560,7 @@ export const AssistMessagePart = memo(function AssistMessagePart({
           "opacity-50 border border-destructive bg-card rounded-lg": isError,
         })}
       >
-        <Markdown>{part.text}</Markdown>
+        <Markdown>{text}</Markdown>
       </div>
       {showActions && (
         <div className="flex w-full">
@@ -626,7 +645,7 @@ export const AssistMessagePart = memo(function AssistMessagePart({
                         className="rounded-md border border-border/60 bg-muted/40 p-2"
                       >
                         <p className="text-xs font-semibold text-foreground">
-                          {source.documentName}
+                          {source.label}
                         </p>
                         <p className="text-[11px] text-muted-foreground mt-1">
                           {knowledgeBaseLabel}
@@ -916,6 +935,17 @@ const WebSearchToolInvocation = dynamic(
   },
 );
 
+const KnowledgeBaseSearchToolInvocation = dynamic(
+  () =>
+    import("./tool-invocation/knowledge-base-search").then(
+      (mod) => mod.KnowledgeBaseSearchToolInvocation,
+    ),
+  {
+    ssr: false,
+    loading,
+  },
+);
+
 const CodeExecutor = dynamic(
   () =>
     import("./tool-invocation/code-executor").then((mod) => mod.CodeExecutor),
@@ -1076,6 +1106,10 @@ export const ToolMessagePart = memo(
         return <WebSearchToolInvocation part={part} />;
       }
 
+      if (toolName === DefaultToolName.SearchKnowledgeBase) {
+        return <KnowledgeBaseSearchToolInvocation part={part} />;
+      }
+
       if (toolName === DefaultToolName.JavascriptExecution) {
         return (
           <CodeExecutor
@@ -1238,6 +1272,9 @@ export const ToolMessagePart = memo(
                     </div>
                   )}
                 </div>
+                {isExecuting && mcpToolName && (
+                  <McpElicitationForms toolCallId={toolCallId} />
+                )}
                 {!result ? null : isWorkflowTool ? (
                   <WorkflowInvocation
                     result={result as VercelAIWorkflowToolStreamingResult}
@@ -40,7 +40,14 @@ import Image from "next/image";
 import { EMOJI_DATA } from "lib/const";
 import { AgentSummary } from "app-types/agent";
 import { toast } from "sonner";
-import { formatFileSize, generateUUID } from "lib/utils";
+import { fetcher, formatFileSize, generateUUID } from "lib/utils";
+import { safe } from "ts-safe";
+import { handleErrorWithToast } from "ui/shared-toast";
+import {
+  MCPPromptArgumentsDialog,
+  MCPPromptCommand,
+  MCPPromptCommandList,
+} from "./mcp-prompt-command";
 
 interface PromptInputProps {
   placeholder?: string;
@@ -82,10 +89,11 @@ export default function PromptInput({
 }: PromptInputProps) {
   const t = useTranslations("Chat");
 
-  const [globalModel, threadMentions, appStoreMutate] = appStore(
+  const [globalModel, threadMentions, mcpList, appStoreMutate] = appStore(
     useShallow((state) => [
       state.chatModel,
       state.threadMentions,
+      state.mcpList,
       state.mutate,
     ]),
   );
@@ -209,11 +217,66 @@ export default function PromptInput({
     [addMention],
   );
 
+  // Typing "/" lists the prompts of the connected MCP servers
+  const promptCommands = useMemo<MCPPromptCommand[]>(() => {
+    const query = input?.match(/^\/(\S*)$/)?.[1];
+    if (query === undefined || disabledMention) return [];
+    return mcpList
+      .flatMap((mcp) =>
+        (mcp.promptInfo ?? []).map((prompt) => ({
+          ...prompt,
+          serverId: mcp.id,
+          serverName: mcp.name,
+        })),
+      )
+      .filter((command) =>
+        command.name.toLowerCase().includes(query.toLowerCase()),
+      );
+  }, [input, mcpList, disabledMention]);
+
+  const [argumentsCommand, setArgumentsCommand] = useState<MCPPromptCommand>();
+  const [isExpandingPrompt, setIsExpandingPrompt] = useState(false);
+
+  const expandPromptCommand = useCallback(
+    (command: MCPPromptCommand, args?: Record<string, string>) => {
+      safe(() => setIsExpandingPrompt(true))
+        .map(() =>
+          fetcher(`/api/mcp/prompts/${command.serverId}`, {
+            method: "POST",
+            body: JSON.stringify({ name: command.name, arguments: args }),
+          }),
+        )
+        .ifOk(({ text }: { text: string }) => {
+          setInput(text);
+          setArgumentsCommand(undefined);
+          editorRef.current?.commands.focus();
+        })
+        .ifFail(handleErrorWithToast)
+        .watch(() => setIsExpandingPrompt(false));
+    },
+    [setInput],
+  );
+
+  const selectPromptCommand = useCallback(
+    (command: MCPPromptCommand) => {
+      if (command.arguments?.length) {
+        setArgumentsCommand(command);
+      } else {
+        expandPromptCommand(command);
+      }
+    },
+    [expandPromptCommand],
+  );
+
   const hasTypedInput = useMemo(() => input?.trim().length > 0, [input]);
   const isBusy = isLoading || isPreparing;
 
   const submit = async () => {
     if (isBusy) return;
+    if (promptCommands.length > 0) {
+      selectPromptCommand(promptCommands[0]);
+      return;
+    }
     const text = input?.trim() || "";
     if (!text && attachments.length === 0) return;
 
@@ -391,7 +454,8 @@ export default function PromptInput({
                         </Avatar>
                       ) : (
                         <Button className="size-6 flex items-center justify-center ring ring-border rounded-full flex-shrink-0 p-0.5">
-                          {mention.type == "mcpServer" ? (
+                          {mention.type == "mcpServer" ||
+                          mention.type == "mcpResource" ? (
                             <MCPIcon className="size-3.5" />
                           ) : (
                             <DefaultToolIcon
@@ -438,6 +502,13 @@ export default function PromptInput({
                 />
               )}
               <div className="relative min-h-[2rem]">
+                {promptCommands.length > 0 && (
+                  <MCPPromptCommandList
+                    commands={promptCommands}
+                    selectedIndex={0}
+                    onSelect={selectPromptCommand}
+                  />
+                )}
                 <ChatMentionInput
                   input={input}
                   onChange={setInput}
@@ -578,6 +649,14 @@ export default function PromptInput({
           </div>
         </fieldset>
       </div>
+      <MCPPromptArgumentsDialog
+        command={argumentsCommand}
+        isLoading={isExpandingPrompt}
+        onSubmit={(args) =>
+          argumentsCommand && expandPromptCommand(argumentsCommand, args)
+        }
+        onClose={() => setArgumentsCommand(undefined)}
+      />
     </div>
   );
 }
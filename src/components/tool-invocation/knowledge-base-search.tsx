@@ -0,0 +1,154 @@
+"use client";
+
+import { ToolUIPart } from "ai";
+import { KnowledgeBaseSearchToolResult } from "app-types/knowledge-base";
+import equal from "lib/equal";
+import { knowledgeBaseDocumentHref } from "lib/rag/citation";
+import { toAny } from "lib/utils";
+import { AlertTriangleIcon, LibraryBigIcon } from "lucide-react";
+import Link from "next/link";
+import { useTranslations } from "next-intl";
+import { memo, useMemo } from "react";
+import { HoverCard, HoverCardContent, HoverCardTrigger } from "ui/hover-card";
+import JsonView from "ui/json-view";
+import { Separator } from "ui/separator";
+import { TextShimmer } from "ui/text-shimmer";
+
+interface KnowledgeBaseSearchToolInvocationProps {
+  part: ToolUIPart;
+}
+
+function PureKnowledgeBaseSearchToolInvocation({
+  part,
+}: KnowledgeBaseSearchToolInvocationProps) {
+  const t = useTranslations();
+
+  const result = useMemo(() => {
+    if (!part.state.startsWith("output")) return null;
+    return part.output as Partial<KnowledgeBaseSearchToolResult> & {
+      isError?: boolean;
+      error?: string;
+    };
+  }, [part.state]);
+
+  const options = useMemo(() => {
+    return (
+      <HoverCard openDelay={200} closeDelay={0}>
+        <HoverCardTrigger asChild>
+          <span className="hover:text-primary transition-colors text-xs text-muted-foreground truncate max-w-xs">
+            {toAny(part.input)?.query ?? t("Chat.Tool.searchOptions")}
+          </span>
+        </HoverCardTrigger>
+        <HoverCardContent className="max-w-xs md:max-w-md! w-full! overflow-auto flex flex-col">
+          <div className="p-2">
+            <JsonView data={part.input} />
+          </div>
+        </HoverCardContent>
+      </HoverCard>
+    );
+  }, [part.input]);
+
+  if (!part.state.startsWith("output"))
+    return (
+      <div className="flex items-center gap-2 text-sm">
+        <LibraryBigIcon className="size-5 wiggle text-muted-foreground" />
+        <TextShimmer>{t("Chat.Tool.searchingKnowledgeBase")}</TextShimmer>
+      </div>
+    );
+
+  const results = result?.results ?? [];
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center gap-2">
+        <LibraryBigIcon className="size-5 text-muted-foreground" />
+        <span className="text-sm font-semibold">
+          {t("Chat.Tool.searchedKnowledgeBase")}
+        </span>
+        {options}
+      </div>
+      <div className="flex gap-2">
+        <div className="px-2.5">
+          <Separator
+            orientation="vertical"
+            className="bg-gradient-to-b from-border to-transparent from-80%"
+          />
+        </div>
+        <div className="flex flex-col gap-2 pb-2">
+          <div className="flex flex-wrap gap-1">
+            {result?.isError ? (
+              <p className="text-xs text-destructive flex items-center gap-1">
+                <AlertTriangleIcon className="size-3.5" />
+                {result.error || "Error"}
+              </p>
+            ) : (
+              results.map((chunk) => {
+                return (
+                  <HoverCard
+                    key={chunk.citationId}
+                    openDelay={200}
+                    closeDelay={0}
+                  >
+                    <HoverCardTrigger asChild>
+                      <Link
+                        href={knowledgeBaseDocumentHref(chunk)}
+                        className="group rounded-full bg-secondary pl-1.5 pr-2 py-1.5 text-xs flex items-center gap-1 hover:bg-input hover:ring hover:ring-blue-500 transition-all cursor-pointer"
+                      >
+                        <span className="rounded-full bg-input px-1.5 font-mono text-[10px]">
+                          {chunk.citationId}
+                        </span>
+                        <span className="truncate max-w-44">
+                          {chunk.citation}
+                        </span>
+                      </Link>
+                    </HoverCardTrigger>
+                    <HoverCardContent className="flex flex-col gap-1 p-6">
+                      <div className="flex items-center gap-2">
+                        <span className="rounded-full bg-input px-1.5 font-mono text-xs">
+                          {chunk.citationId}
+                        </span>
+                        <span className="font-medium">{chunk.citation}</span>
+                      </div>
+                      <div className="relative mt-4">
+                        <div className="pointer-events-none absolute inset-0 bg-gradient-to-b from-transparent to-card from-80% " />
+                        <p className="text-xs text-muted-foreground max-h-60 overflow-y-auto whitespace-pre-wrap">
+                          {chunk.content}
+                        </p>
+                      </div>
+                    </HoverCardContent>
+                  </HoverCard>
+                );
+              })
+            )}
+          </div>
+          {!result?.isError && (
+            <p className="text-xs text-muted-foreground ml-1 flex items-center gap-1">
+              {t("Common.resultsFound", {
+                count: results.length,
+              })}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function areEqual(
+  { part: prevPart }: KnowledgeBaseSearchToolInvocationProps,
+  { part: nextPart }: KnowledgeBaseSearchToolInvocationProps,
+) {
+  if (prevPart.state != nextPart.state) return false;
+  if (!equal(prevPart.input, nextPart.input)) return false;
+  if (
+    prevPart.state.startsWith("output") &&
+    !equal(prevPart.output, toAny(nextPart).output)
+  )
+    return false;
+  return true;
+}
+
+export const KnowledgeBaseSearchToolInvocation = memo(
+  PureKnowledgeBaseSearchToolInvocation,
+  areEqual,
+);
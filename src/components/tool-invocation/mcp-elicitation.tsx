@@ -0,0 +1,182 @@
+"use client";
+
+import { MCPElicitation, MCPElicitationResponse } from "app-types/mcp";
+import { useMcpElicitations } from "@/hooks/queries/use-mcp-elicitations";
+import { fetcher } from "lib/utils";
+import { Loader, MessageCircleQuestionIcon } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { useState } from "react";
+import { safe } from "ts-safe";
+import { Button } from "ui/button";
+import { Input } from "ui/input";
+import { Label } from "ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "ui/select";
+import { handleErrorWithToast } from "ui/shared-toast";
+import { Switch } from "ui/switch";
+
+type ElicitationValue = string | number | boolean;
+
+/**
+ * Forms for the input an MCP server asks for while the tool call runs.
+ */
+export function McpElicitationForms({ toolCallId }: { toolCallId: string }) {
+  const { data: elicitations, mutate } = useMcpElicitations(toolCallId);
+  if (!elicitations?.length) return null;
+  return (
+    <>
+      {elicitations.map((elicitation) => (
+        <McpElicitationForm
+          key={elicitation.id}
+          elicitation={elicitation}
+          onResponded={() => mutate()}
+        />
+      ))}
+    </>
+  );
+}
+
+function McpElicitationForm({
+  elicitation,
+  onResponded,
+}: {
+  elicitation: MCPElicitation;
+  onResponded: () => void;
+}) {
+  const t = useTranslations("Chat.Tool");
+  const [values, setValues] = useState<Record<string, ElicitationValue>>(() =>
+    Object.fromEntries(
+      Object.entries(elicitation.requestedSchema.properties)
+        .filter(([, field]) => field.default !== undefined)
+        .map(([key, field]) => [key, field.default!]),
+    ),
+  );
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const required = elicitation.requestedSchema.required ?? [];
+  const isValid = required.every(
+    (key) => values[key] !== undefined && values[key] !== "",
+  );
+
+  const respond = (response: MCPElicitationResponse) =>
+    safe(() => setIsSubmitting(true))
+      .map(() =>
+        fetcher(`/api/mcp/elicitations/${elicitation.id}`, {
+          method: "POST",
+          body: JSON.stringify(response),
+        }),
+      )
+      .ifOk(onResponded)
+      .ifFail(handleErrorWithToast)
+      .watch(() => setIsSubmitting(false));
+
+  return (
+    <form
+      className="min-w-0 w-full p-4 rounded-lg bg-card border text-sm flex flex-col gap-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (isValid) respond({ action: "accept", content: values });
+      }}
+    >
+      <div className="flex items-start gap-2">
+        <MessageCircleQuestionIcon className="size-4 mt-0.5 text-primary shrink-0" />
+        <div className="flex flex-col gap-1 min-w-0">
+          <span className="text-xs text-muted-foreground">
+            {t("elicitationFrom", { server: elicitation.serverName })}
+          </span>
+          <p className="whitespace-pre-wrap">{elicitation.message}</p>
+        </div>
+      </div>
+      {Object.entries(elicitation.requestedSchema.properties).map(
+        ([key, field]) => {
+          const id = `${elicitation.id}-${key}`;
+          const label = (
+            <Label htmlFor={id}>
+              {field.title || key}
+              {required.includes(key) && (
+                <span className="text-destructive">*</span>
+              )}
+            </Label>
+          );
+          if (field.type == "boolean") {
+            return (
+              <div key={key} className="flex items-center gap-2">
+                <Switch
+                  id={id}
+                  checked={values[key] === true}
+                  onCheckedChange={(checked) =>
+                    setValues((prev) => ({ ...prev, [key]: checked }))
+                  }
+                />
+                {label}
+              </div>
+            );
+          }
+          return (
+            <div key={key} className="flex flex-col gap-2">
+              {label}
+              {field.enum ? (
+                <Select
+                  value={values[key] as string | undefined}
+                  onValueChange={(value) =>
+                    setValues((prev) => ({ ...prev, [key]: value }))
+                  }
+                >
+                  <SelectTrigger id={id} className="w-full">
+                    <SelectValue placeholder={field.description} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {field.enum.map((option, index) => (
+                      <SelectItem key={option} value={option}>
+                        {field.enumNames?.[index] ?? option}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Input
+                  id={id}
+                  type={
+                    field.type == "number" || field.type == "integer"
+                      ? "number"
+                      : "text"
+                  }
+                  placeholder={field.description}
+                  value={(values[key] as string | number | undefined) ?? ""}
+                  onChange={(e) =>
+                    setValues((prev) => {
+                      const next = { ...prev };
+                      if (e.target.value === "") delete next[key];
+                      else if (field.type == "string")
+                        next[key] = e.target.value;
+                      else next[key] = Number(e.target.value);
+                      return next;
+                    })
+                  }
+                />
+              )}
+            </div>
+          );
+        },
+      )}
+      <div className="flex justify-end gap-2">
+        <Button
+          type="button"
+          variant="ghost"
+          disabled={isSubmitting}
+          onClick={() => respond({ action: "decline" })}
+        >
+          {t("decline")}
+        </Button>
+        <Button type="submit" disabled={!isValid || isSubmitting}>
+          {isSubmitting && <Loader className="size-4 animate-spin" />}
+          {t("submit")}
+        </Button>
+      </div>
+    </form>
+  );
+}
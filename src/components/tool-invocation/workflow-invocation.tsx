@@ -1,7 +1,14 @@
 import { useCopy } from "@/hooks/use-copy";
 import { VercelAIWorkflowToolStreamingResult } from "app-types/workflow";
 import equal from "lib/equal";
-import { AlertTriangleIcon, Check, Copy, Loader2, XIcon } from "lucide-react";
+import {
+  AlertTriangleIcon,
+  Check,
+  Copy,
+  HourglassIcon,
+  Loader2,
+  XIcon,
+} from "lucide-react";
 import { memo, useEffect, useMemo, useRef } from "react";
 import { Alert, AlertDescription, AlertTitle } from "ui/alert";
 import { Button } from "ui/button";
@@ -10,16 +17,28 @@ import { NodeResultPopup } from "../workflow/node-result-popup";
 import { cn } from "lib/utils";
 import { NodeIcon } from "../workflow/node-icon";
 import { TextShimmer } from "ui/text-shimmer";
+import { useTranslations } from "next-intl";
 
 interface WorkflowInvocationProps {
   result: VercelAIWorkflowToolStreamingResult;
 }
 
 function PureWorkflowInvocation({ result }: WorkflowInvocationProps) {
+  const t = useTranslations();
   const { copied, copy } = useCopy();
   const savedResult = useRef<VercelAIWorkflowToolStreamingResult>(result);
   const output = useMemo(() => {
     if (result.status == "running") return null;
+    if (result.status == "waiting")
+      return (
+        <Alert>
+          <HourglassIcon className="size-3" />
+          <AlertTitle>{t("Workflow.waitingForApproval")}</AlertTitle>
+          <AlertDescription>
+            {t("Workflow.waitingForApprovalDescription")}
+          </AlertDescription>
+        </Alert>
+      );
     if (result.status == "fail")
       return (
         <Alert variant={"destructive"} className="border-destructive">
@@ -114,6 +133,10 @@ function PureWorkflowInvocation({ result }: WorkflowInvocationProps) {
                 <Check className="size-3" />
               ) : item.status == "fail" ? (
                 <XIcon className="size-3" />
+              ) : item.status == "recovered" ? (
+                <AlertTriangleIcon className="size-3 text-amber-400" />
+              ) : item.status == "waiting" ? (
+                <HourglassIcon className="size-3 text-blue-500" />
               ) : (
                 <Loader2 className="size-3 animate-spin" />
               )}
@@ -10,6 +10,7 @@ import {
   GlobeIcon,
   HardDriveUploadIcon,
   InfoIcon,
+  LibraryBigIcon,
   Loader,
   MessageCircle,
   MousePointer2,
@@ -860,6 +861,9 @@ function AppDefaultToolKitSelector() {
         case AppDefaultToolkit.Code:
           icon = CodeIcon;
           break;
+        case AppDefaultToolkit.KnowledgeBase:
+          icon = LibraryBigIcon;
+          break;
       }
       return {
         label,
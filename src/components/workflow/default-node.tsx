@@ -3,7 +3,12 @@
 import { Handle, Position, useReactFlow, type NodeProps } from "@xyflow/react";
 import { NodeKind, UINode } from "lib/ai/workflow/workflow.interface";
 import { cn } from "lib/utils";
-import { Loader2Icon, PlusIcon, TriangleAlertIcon } from "lucide-react";
+import {
+  HourglassIcon,
+  Loader2Icon,
+  PlusIcon,
+  TriangleAlertIcon,
+} from "lucide-react";
 
 import { memo, useCallback, useEffect, useState } from "react";
 import { NodeSelect } from "./node-select";
@@ -25,6 +30,10 @@ import { createAppendNode } from "./create-append-node";
 import { ToolNodeStack } from "./node-config/tool-node-config";
 import { Markdown } from "../markdown";
 import { HttpNodeDataStack } from "./node-config/http-node-config";
+import { CodeNodeDataStack } from "./node-config/code-node-config";
+import { LoopNodeDataStack } from "./node-config/loop-node-config";
+import { SubWorkflowNodeDataStack } from "./node-config/sub-workflow-node-config";
+import { ErrorBranchHandle } from "./node-config/error-policy-config";
 
 type Props = NodeProps<UINode>;
 
@@ -103,6 +112,8 @@ export const DefaultNode = memo(function DefaultNode({
             data.runtime?.status === "fail" && "border-destructive",
             ["success", "running"].includes(data.runtime?.status ?? "") &&
               "border-green-400",
+            data.runtime?.status === "recovered" && "border-amber-400",
+            data.runtime?.status === "waiting" && "border-blue-500",
           )}
         >
           <div className="flex items-center gap-2 relative px-4">
@@ -180,10 +191,18 @@ export const DefaultNode = memo(function DefaultNode({
               <div className="ml-auto">
                 <TriangleAlertIcon className="size-3 text-destructive" />
               </div>
+            ) : data.runtime?.status === "recovered" ? (
+              <div className="ml-auto">
+                <TriangleAlertIcon className="size-3 text-amber-400" />
+              </div>
             ) : data.runtime?.status === "running" ? (
               <div className="ml-auto">
                 <Loader2Icon className="size-3 animate-spin" />
               </div>
+            ) : data.runtime?.status === "waiting" ? (
+              <div className="ml-auto">
+                <HourglassIcon className="size-3 text-blue-500" />
+              </div>
             ) : null}
           </div>
           <div>
@@ -197,6 +216,14 @@ export const DefaultNode = memo(function DefaultNode({
             )}
             {data.kind === NodeKind.Tool && <ToolNodeStack data={data} />}
             {data.kind === NodeKind.Http && <HttpNodeDataStack data={data} />}
+            {data.kind === NodeKind.Code && <CodeNodeDataStack data={data} />}
+            {data.kind === NodeKind.Loop && <LoopNodeDataStack data={data} />}
+            {data.kind === NodeKind.SubWorkflow && (
+              <SubWorkflowNodeDataStack data={data} />
+            )}
+            {data.errorPolicy?.onError === "branch" && (
+              <ErrorBranchHandle data={data} />
+            )}
             {data.description && (
               <div className="px-4 mt-2">
                 <div className="text-xs text-muted-foreground">
@@ -0,0 +1,127 @@
+"use client";
+
+import {
+  ApprovalNodeApprover,
+  ApprovalNodeData,
+  UINode,
+} from "lib/ai/workflow/workflow.interface";
+import { useEdges, useNodes, useReactFlow } from "@xyflow/react";
+import { memo } from "react";
+import { Label } from "ui/label";
+import { Input } from "ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "ui/select";
+import { InfoIcon } from "lucide-react";
+import { Tooltip, TooltipContent, TooltipTrigger } from "ui/tooltip";
+import { useTranslations } from "next-intl";
+import { OutputSchemaMentionInput } from "../output-schema-mention-input";
+import { useWorkflowStore } from "@/app/store/workflow.store";
+
+export const ApprovalNodeDataConfig = memo(function ApprovalNodeDataConfig({
+  data,
+}: {
+  data: ApprovalNodeData;
+}) {
+  const t = useTranslations();
+  const { updateNodeData } = useReactFlow<UINode>();
+  const nodes = useNodes() as UINode[];
+  const edges = useEdges();
+  const editable = useWorkflowStore((state) => {
+    return (
+      state.processIds.length === 0 &&
+      state.hasEditAccess &&
+      !state.workflow?.isPublished
+    );
+  });
+
+  const updateApprover = (approver: ApprovalNodeApprover) => {
+    updateNodeData(data.id, { approver });
+  };
+
+  return (
+    <div className="flex flex-col gap-2 text-sm px-4">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm mt-1">{t("Workflow.approver")}</Label>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <div className="p-1 hover:bg-secondary rounded cursor-pointer">
+              <InfoIcon className="size-3" />
+            </div>
+          </TooltipTrigger>
+          <TooltipContent
+            side="left"
+            align="center"
+            className="p-4 whitespace-pre-wrap max-w-64"
+          >
+            {t("Workflow.approverDescription")}
+          </TooltipContent>
+        </Tooltip>
+      </div>
+      <Select
+        value={data.approver?.type}
+        disabled={!editable}
+        onValueChange={(type) =>
+          updateApprover(
+            type == "user" ? { type: "user", email: "" } : { type: "owner" },
+          )
+        }
+      >
+        <SelectTrigger className="w-full">
+          <SelectValue placeholder={t("Workflow.approver")} />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="owner">{t("Workflow.approverOwner")}</SelectItem>
+          <SelectItem value="user">{t("Workflow.approverUser")}</SelectItem>
+        </SelectContent>
+      </Select>
+      {data.approver?.type == "user" && (
+        <Input
+          type="email"
+          value={data.approver.email}
+          disabled={!editable}
+          placeholder={t("Workflow.approverEmail")}
+          onChange={(e) =>
+            updateApprover({ type: "user", email: e.target.value.trim() })
+          }
+        />
+      )}
+      <div className="flex items-center justify-between mt-4">
+        <Label className="text-sm mt-1">{t("Workflow.approvalMessage")}</Label>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <div className="p-1 hover:bg-secondary rounded cursor-pointer">
+              <InfoIcon className="size-3" />
+            </div>
+          </TooltipTrigger>
+          <TooltipContent
+            side="left"
+            align="center"
+            className="p-4 whitespace-pre-wrap max-w-64"
+          >
+            {t("Workflow.approvalMessageDescription")}
+          </TooltipContent>
+        </Tooltip>
+      </div>
+      <div className="w-full bg-secondary rounded-md p-2">
+        <OutputSchemaMentionInput
+          className="min-h-32"
+          currentNodeId={data.id}
+          nodes={nodes}
+          edges={edges}
+          content={data.message}
+          editable={editable}
+          onChange={(content) => {
+            updateNodeData(data.id, {
+              message: content,
+            });
+          }}
+        />
+      </div>
+    </div>
+  );
+});
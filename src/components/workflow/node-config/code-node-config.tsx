@@ -0,0 +1,336 @@
+"use client";
+
+import { CodeNodeData, UINode } from "lib/ai/workflow/workflow.interface";
+import { memo, useCallback, useMemo, useState } from "react";
+import {
+  ChevronDownIcon,
+  InfoIcon,
+  PencilIcon,
+  PlusIcon,
+  TrashIcon,
+  TriangleAlertIcon,
+  VariableIcon,
+} from "lucide-react";
+import { useReactFlow } from "@xyflow/react";
+import { useTranslations } from "next-intl";
+
+import { VariableSelect } from "../variable-select";
+import { OutputSchemaEditor } from "../output-schema-editor";
+import { Input } from "ui/input";
+import { Button } from "ui/button";
+import { Label } from "ui/label";
+import { Textarea } from "ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "ui/select";
+import { Tooltip, TooltipContent, TooltipTrigger } from "ui/tooltip";
+import { cleanVariableName, generateUniqueKey, toAny } from "lib/utils";
+import { findJsonSchemaByPath } from "lib/ai/workflow/shared.workflow";
+import { ObjectJsonSchema7 } from "app-types/util";
+import { useWorkflowStore } from "@/app/store/workflow.store";
+
+const CODE_PLACEHOLDER: Record<CodeNodeData["language"], string> = {
+  javascript: "return { total: items.length };",
+  python: '{"total": len(items)}',
+};
+
+export const CodeNodeDataConfig = memo(function ({
+  data,
+}: {
+  data: CodeNodeData;
+}) {
+  const { getNodes, updateNodeData } = useReactFlow<UINode>();
+  const [schemaEditorOpen, setSchemaEditorOpen] = useState(false);
+  const t = useTranslations();
+  const editable = useWorkflowStore((state) => {
+    return (
+      state.processIds.length === 0 &&
+      state.hasEditAccess &&
+      !state.workflow?.isPublished
+    );
+  });
+
+  const variables = useMemo(() => {
+    const nodes = getNodes() as UINode[];
+    return data.variables.map(({ key, source }) => {
+      const targetNode = nodes.find((node) => node.data.id === source?.nodeId);
+      const schema = targetNode
+        ? findJsonSchemaByPath(targetNode.data.outputSchema, source?.path ?? [])
+        : undefined;
+      return {
+        key,
+        schema,
+        path: source?.path ?? [],
+        nodeName: targetNode?.data.name,
+        isNotFound: (source && !targetNode) || (targetNode && !schema),
+      };
+    });
+  }, [data]);
+
+  const resultSchema = data.outputSchema.properties?.result as
+    | ObjectJsonSchema7
+    | undefined;
+
+  const updateVariable = useCallback(
+    (
+      index: number,
+      item: { key?: string; source?: { nodeId: string; path: string[] } },
+    ) => {
+      updateNodeData(data.id, (node) => {
+        const prev = node.data as CodeNodeData;
+        return {
+          variables: prev.variables.map((v, i) =>
+            i === index ? { ...v, ...item } : v,
+          ),
+        };
+      });
+    },
+    [data.id],
+  );
+
+  const deleteVariable = useCallback(
+    (index: number) => {
+      updateNodeData(data.id, (node) => {
+        const prev = node.data as CodeNodeData;
+        return {
+          variables: prev.variables.filter((_, i) => i !== index),
+        };
+      });
+    },
+    [data.id],
+  );
+
+  const addVariable = useCallback(() => {
+    updateNodeData(data.id, (node) => {
+      const prev = node.data as CodeNodeData;
+      const key = generateUniqueKey(
+        "input",
+        prev.variables.map((v) => v.key),
+      );
+      return {
+        variables: [...prev.variables, { key, source: undefined }],
+      };
+    });
+  }, [data.id]);
+
+  return (
+    <div className="flex flex-col gap-2 text-sm px-4 ">
+      <Label className="text-sm">{t("Workflow.language")}</Label>
+      <Select
+        value={data.language}
+        disabled={!editable}
+        onValueChange={(language) =>
+          updateNodeData(data.id, {
+            language: language as CodeNodeData["language"],
+          })
+        }
+      >
+        <SelectTrigger size="sm">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="javascript">JavaScript</SelectItem>
+          <SelectItem value="python">Python</SelectItem>
+        </SelectContent>
+      </Select>
+
+      <div className="flex items-center justify-between mt-4">
+        <Label className="text-sm">{t("Workflow.inputVariables")}</Label>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <div className="p-1 hover:bg-secondary rounded cursor-pointer">
+              <InfoIcon className="size-3" />
+            </div>
+          </TooltipTrigger>
+          <TooltipContent className="p-4 whitespace-pre-wrap">
+            {t("Workflow.codeVariablesDescription")}
+          </TooltipContent>
+        </Tooltip>
+      </div>
+      <div className="flex flex-col gap-2">
+        {variables.map((item, index) => {
+          return (
+            <div className="flex items-center gap-1" key={index}>
+              <Input
+                value={item.key}
+                disabled={!editable}
+                onChange={(e) => {
+                  updateVariable(index, {
+                    key: cleanVariableName(e.target.value),
+                  });
+                }}
+                className="w-24"
+                placeholder="name"
+              />
+              <VariableSelect
+                currentNodeId={data.id}
+                onChange={(item) => {
+                  updateVariable(index, {
+                    source: {
+                      nodeId: item.nodeId,
+                      path: item.path,
+                    },
+                  });
+                }}
+              >
+                <div className="flex-1 min-w-0 w-full flex text-[10px] items-center gap-1 p-2.5 border border-input bg-background rounded-lg cursor-pointer">
+                  {item.isNotFound ? (
+                    <TriangleAlertIcon className="size-3 text-destructive" />
+                  ) : (
+                    <VariableIcon className="size-3 text-blue-500" />
+                  )}
+
+                  <span>{item.nodeName}/</span>
+                  <span className="truncate min-w-0 text-blue-500 flex-1">
+                    {item.path.join(".")}
+                  </span>
+                  <span className="text-muted-foreground">
+                    {item.schema?.type}
+                  </span>
+
+                  <ChevronDownIcon className="size-3 ml-auto" />
+                </div>
+              </VariableSelect>
+              <Button
+                variant="ghost"
+                size="icon"
+                disabled={!editable}
+                onClick={() => deleteVariable(index)}
+              >
+                <TrashIcon />
+              </Button>
+            </div>
+          );
+        })}
+        <Button
+          variant="ghost"
+          disabled={!editable}
+          onClick={addVariable}
+          className="w-full border-dashed border text-muted-foreground"
+        >
+          <PlusIcon /> {t("Workflow.addInputVariable")}
+        </Button>
+      </div>
+
+      <div className="flex items-center justify-between mt-4">
+        <Label className="text-sm">{t("Workflow.code")}</Label>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <div className="p-1 hover:bg-secondary rounded cursor-pointer">
+              <InfoIcon className="size-3" />
+            </div>
+          </TooltipTrigger>
+          <TooltipContent className="p-4 whitespace-pre-wrap">
+            {t("Workflow.codeDescription")}
+          </TooltipContent>
+        </Tooltip>
+      </div>
+      <Textarea
+        value={data.code}
+        disabled={!editable}
+        spellCheck={false}
+        className="font-mono text-xs min-h-48 max-h-96 resize-y"
+        placeholder={CODE_PLACEHOLDER[data.language]}
+        onChange={(e) => updateNodeData(data.id, { code: e.target.value })}
+      />
+
+      <Label htmlFor="code-timeout" className="text-sm mt-4">
+        Timeout (ms)
+      </Label>
+      <Input
+        id="code-timeout"
+        type="number"
+        disabled={!editable}
+        value={data.timeout || 30000}
+        onChange={(e) =>
+          updateNodeData(data.id, {
+            timeout: parseInt(e.target.value) || 30000,
+          })
+        }
+        min={1000}
+        max={300000}
+        step={1000}
+      />
+
+      <div className="flex items-center justify-between mt-4">
+        <Label className="text-sm">{t("Workflow.outputSchema")}</Label>
+        <OutputSchemaEditor
+          schema={resultSchema}
+          open={schemaEditorOpen}
+          onOpenChange={setSchemaEditorOpen}
+          onChange={(schema) => {
+            updateNodeData(data.id, {
+              outputSchema: {
+                ...data.outputSchema,
+                properties: {
+                  ...data.outputSchema.properties,
+                  result: schema,
+                },
+              },
+            });
+          }}
+        >
+          <Button
+            variant="ghost"
+            size="icon"
+            className="size-7"
+            disabled={!editable}
+          >
+            <PencilIcon className="size-3" />
+          </Button>
+        </OutputSchemaEditor>
+      </div>
+      <div className="flex items-center flex-wrap gap-1">
+        {Object.keys(resultSchema?.properties ?? {}).length ? (
+          Object.keys(resultSchema!.properties!).map((property) => (
+            <div
+              key={property}
+              className="flex items-center text-xs px-1.5 py-0.5 bg-secondary rounded-md"
+            >
+              <VariableIcon className="size-3.5 text-blue-500" />
+              <span className="font-semibold">{`result.${property}`}</span>
+              <span className="text-muted-foreground ml-2">
+                {toAny(resultSchema!.properties![property])?.type}
+              </span>
+            </div>
+          ))
+        ) : (
+          <div className="flex items-center text-xs px-1.5 py-0.5 bg-secondary rounded-md">
+            <VariableIcon className="size-3.5 text-blue-500" />
+            <span className="font-semibold">result</span>
+            <span className="text-muted-foreground ml-2">object</span>
+          </div>
+        )}
+        <div className="flex items-center text-xs px-1.5 py-0.5 bg-secondary rounded-md">
+          <VariableIcon className="size-3.5 text-blue-500" />
+          <span className="font-semibold">logs</span>
+          <span className="text-muted-foreground ml-2">array</span>
+        </div>
+      </div>
+    </div>
+  );
+});
+CodeNodeDataConfig.displayName = "CodeNodeDataConfig";
+
+export const CodeNodeDataStack = memo(function ({
+  data,
+}: { data: CodeNodeData }) {
+  return (
+    <div className="flex flex-col gap-1 px-4 mt-4">
+      <div className="border bg-input text-[10px] rounded px-2 py-1 flex items-center gap-1">
+        <span className="font-semibold">
+          {data.language == "python" ? "Python" : "JavaScript"}
+        </span>
+        <VariableIcon className="size-3.5 text-blue-500 ml-auto" />
+        <span className="text-xs text-muted-foreground ">
+          {data.variables.map((v) => v.key).join(", ") || "-"}
+        </span>
+      </div>
+    </div>
+  );
+});
+CodeNodeDataStack.displayName = "CodeNodeDataStack";
@@ -7,7 +7,7 @@ import {
   OutputSchemaSourceKey,
   UINode,
 } from "lib/ai/workflow/workflow.interface";
-import { PlusIcon, TrashIcon } from "lucide-react";
+import { PlusIcon, TrashIcon, VariableIcon } from "lucide-react";
 import { Button } from "ui/button";
 import { Separator } from "ui/separator";
 import { VariableSelect } from "../variable-select";
@@ -21,10 +21,12 @@ import {
 
 import { VariableMentionItem } from "../variable-mention-item";
 import {
+  ArrayConditionOperator,
   BooleanConditionOperator,
   ConditionBranch,
   ConditionOperator,
   ConditionRule,
+  DateConditionOperator,
   getFirstConditionOperator,
   NumberConditionOperator,
   StringConditionOperator,
@@ -38,6 +40,15 @@ import { useUpdate } from "@/hooks/use-update";
 import { createAppendNode } from "../create-append-node";
 import { useTranslations } from "next-intl";
 import { Input } from "ui/input";
+import { Textarea } from "ui/textarea";
+import { MAX_CONDITION_EXPRESSION_LENGTH } from "lib/ai/workflow/condition-expression";
+
+const NO_VALUE_OPERATORS: ConditionOperator[] = [
+  StringConditionOperator.IsEmpty,
+  StringConditionOperator.IsNotEmpty,
+  BooleanConditionOperator.IsTrue,
+  BooleanConditionOperator.IsFalse,
+];
 
 export function ConditionNodeDataConfig({
   data,
@@ -200,6 +211,7 @@ function ConditionBranchItem({
   const { getNode } = useReactFlow<UINode>();
   const nodes = useNodes() as UINode[];
   const t = useTranslations();
+  const isExpression = branch.mode == "expression";
   const addCondition = useCallback(
     (source: OutputSchemaSourceKey) => {
       const node = getNode(source.nodeId)!;
@@ -215,7 +227,7 @@ function ConditionBranchItem({
           {
             source,
             operator: getFirstConditionOperator(
-              sourceSchema?.type as "string" | "number" | "boolean",
+              sourceSchema?.type as "string" | "number" | "boolean" | "array",
             ),
             value: "",
           },
@@ -249,11 +261,40 @@ function ConditionBranchItem({
 
   return (
     <div className="flex flex-col gap-1 relative">
-      <div className="font-bold text-xs flex mb-2">
+      <div className="font-bold text-xs flex items-center mb-2">
         <p className="w-12 text-blue-500">{type?.toUpperCase()}</p>
         <span className="ml-1 text-muted-foreground">CASE {caseNumber}</span>
+        <button
+          className="ml-auto mr-1 text-muted-foreground font-normal hover:text-foreground hover:bg-secondary rounded-md px-2 py-1"
+          onClick={() =>
+            onChange({
+              ...branch,
+              mode: isExpression ? "rules" : "expression",
+            })
+          }
+        >
+          {isExpression
+            ? t("Workflow.useConditionRules")
+            : t("Workflow.useConditionExpression")}
+        </button>
       </div>
-      {branch.conditions.length > 0 && (
+      {isExpression && (
+        <div className="flex flex-col gap-1 ml-12 mr-1">
+          <Textarea
+            value={branch.expression ?? ""}
+            maxLength={MAX_CONDITION_EXPRESSION_LENGTH}
+            placeholder="Start.age >= 18 and $length(Search.results) > 0"
+            className="resize-none font-mono text-xs min-h-20"
+            onChange={(e) =>
+              onChange({ ...branch, expression: e.target.value })
+            }
+          />
+          <p className="text-xs text-muted-foreground whitespace-pre-wrap">
+            {t("Workflow.conditionExpressionDescription")}
+          </p>
+        </div>
+      )}
+      {!isExpression && branch.conditions.length > 0 && (
         <div className="flex">
           <div className="flex flex-col min-w-12">
             {branch.conditions.length > 1 && (
@@ -309,20 +350,22 @@ function ConditionBranchItem({
       )}
 
       <div className="flex items-center">
-        <VariableSelect
-          currentNodeId={currentNodeId}
-          onChange={(source) => {
-            addCondition(source);
-          }}
-          allowedTypes={["number", "boolean", "string"]}
-        >
-          <Badge
-            variant={"secondary"}
-            className="ml-12 cursor-pointer hover:bg-input py-2 px-4"
+        {!isExpression && (
+          <VariableSelect
+            currentNodeId={currentNodeId}
+            onChange={(source) => {
+              addCondition(source);
+            }}
+            allowedTypes={["number", "boolean", "string", "array"]}
           >
-            <PlusIcon className="size-4" /> {t("Workflow.addCondition")}
-          </Badge>
-        </VariableSelect>
+            <Badge
+              variant={"secondary"}
+              className="ml-12 cursor-pointer hover:bg-input py-2 px-4"
+            >
+              <PlusIcon className="size-4" /> {t("Workflow.addCondition")}
+            </Badge>
+          </VariableSelect>
+        )}
 
         {onDelete && (
           <Button
@@ -339,6 +382,15 @@ function ConditionBranchItem({
   );
 }
 
+const VALUE_PLACEHOLDERS: Record<string, string> = {
+  [StringConditionOperator.Matches]: "^INV-\\d+$",
+  [StringConditionOperator.InList]: "red, green, blue",
+  [StringConditionOperator.NotInList]: "red, green, blue",
+  [DateConditionOperator.Before]: "2025-01-31",
+  [DateConditionOperator.After]: "2025-01-31",
+  [DateConditionOperator.SameDay]: "2025-01-31",
+};
+
 interface ConditionRuleProps {
   currentNodeId: string;
   nodes: UINode[];
@@ -375,10 +427,30 @@ function ConditionRuleItem({
     return findJsonSchemaByPath(node.data.outputSchema, item.source.path)?.type;
   }, [item, nodes]);
 
+  const valueSourceTarget = useMemo(() => {
+    if (!item.valueSource) return;
+    const node = nodes.find(
+      (node) => node.data.id === item.valueSource!.nodeId,
+    );
+    return {
+      nodeName: node?.data.name ?? "Not Found",
+      notFound: !node,
+      path: item.valueSource.path,
+      type: node
+        ? (findJsonSchemaByPath(node.data.outputSchema, item.valueSource.path)
+            ?.type as string)
+        : undefined,
+    };
+  }, [item, nodes]);
+
   const operatorItems = useMemo(() => {
-    let operatorItems: Record<string, string> = StringConditionOperator;
+    let operatorItems: Record<string, string> = {
+      ...StringConditionOperator,
+      ...DateConditionOperator,
+    };
     if (itemType == "number") operatorItems = NumberConditionOperator;
     if (itemType == "boolean") operatorItems = BooleanConditionOperator;
+    if (itemType == "array") operatorItems = ArrayConditionOperator;
     return Object.entries(operatorItems).map(([key, value]) => ({
       label: key,
       value,
@@ -432,16 +504,49 @@ function ConditionRuleItem({
         </Select>
       </div>
 
-      {itemType == "string" || itemType == "number" ? (
+      {itemType != "boolean" && !NO_VALUE_OPERATORS.includes(item.operator) ? (
         <>
           <Separator className="my-1" />
-          <Input
-            value={String(item.value || "")}
-            autoFocus
-            className="text-xs py-1 px-2 focus:outline-none bg-transparent border-none"
-            type="text"
-            onChange={(e) => onChange({ ...item, value: e.target.value })}
-          />
+          <div className="flex items-center">
+            {valueSourceTarget ? (
+              <VariableMentionItem
+                className="py-2 m-1 flex-1 min-w-0"
+                nodeName={valueSourceTarget.nodeName}
+                path={valueSourceTarget.path}
+                type={valueSourceTarget.type}
+                notFound={valueSourceTarget.notFound}
+                onRemove={() => onChange({ ...item, valueSource: undefined })}
+              />
+            ) : (
+              <>
+                <Input
+                  value={String(item.value || "")}
+                  autoFocus
+                  placeholder={VALUE_PLACEHOLDERS[item.operator]}
+                  className="text-xs py-1 px-2 focus:outline-none bg-transparent border-none"
+                  type="text"
+                  onChange={(e) => onChange({ ...item, value: e.target.value })}
+                />
+                <VariableSelect
+                  currentNodeId={currentNodeId}
+                  onChange={(valueSource) =>
+                    onChange({
+                      ...item,
+                      value: undefined,
+                      valueSource: {
+                        nodeId: valueSource.nodeId,
+                        path: valueSource.path,
+                      },
+                    })
+                  }
+                >
+                  <Button variant={"ghost"} size={"icon"} className="size-7">
+                    <VariableIcon className="size-3.5" />
+                  </Button>
+                </VariableSelect>
+              </>
+            )}
+          </div>
         </>
       ) : null}
     </div>
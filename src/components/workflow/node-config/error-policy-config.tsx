@@ -0,0 +1,278 @@
+"use client";
+
+import { Handle, Position, useReactFlow } from "@xyflow/react";
+import {
+  NodeErrorPolicy,
+  NodeKind,
+  UINode,
+  WorkflowNodeData,
+} from "lib/ai/workflow/workflow.interface";
+import { memo, useEffect, useState } from "react";
+import { InfoIcon, PlusIcon } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { toast } from "sonner";
+
+import { NodeSelect } from "../node-select";
+import { createAppendNode } from "../create-append-node";
+import { Input } from "ui/input";
+import { Label } from "ui/label";
+import { Textarea } from "ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "ui/select";
+import { Tooltip, TooltipContent, TooltipTrigger } from "ui/tooltip";
+import {
+  DEFAULT_RETRY_BACKOFF,
+  ERROR_BRANCH_HANDLE,
+  MAX_NODE_RETRIES,
+} from "lib/ai/workflow/error-policy";
+import { useWorkflowStore } from "@/app/store/workflow.store";
+import { useUpdate } from "@/hooks/use-update";
+import { safeJSONParse } from "lib/utils";
+
+export const ErrorPolicyConfig = memo(function ({
+  data,
+}: {
+  data: WorkflowNodeData;
+}) {
+  const t = useTranslations();
+  const { updateNodeData, setEdges } = useReactFlow<UINode>();
+  const editable = useWorkflowStore((state) => {
+    return (
+      state.processIds.length === 0 &&
+      state.hasEditAccess &&
+      !state.workflow?.isPublished
+    );
+  });
+  const policy = data.errorPolicy ?? {};
+  const [fallback, setFallback] = useState(
+    JSON.stringify(policy.fallback ?? {}, null, 2),
+  );
+
+  useEffect(() => {
+    setFallback(JSON.stringify(data.errorPolicy?.fallback ?? {}, null, 2));
+  }, [data.id]);
+
+  const updatePolicy = (next: Partial<NodeErrorPolicy>) => {
+    updateNodeData(data.id, (node) => ({
+      errorPolicy: {
+        ...(node.data as WorkflowNodeData).errorPolicy,
+        ...next,
+      },
+    }));
+  };
+
+  const saveFallback = () => {
+    const parsed = safeJSONParse<Record<string, unknown>>(fallback || "{}");
+    if (
+      !parsed.success ||
+      typeof parsed.value !== "object" ||
+      Array.isArray(parsed.value) ||
+      parsed.value === null
+    ) {
+      toast.error(t("Workflow.fallbackOutputInvalid"));
+      return;
+    }
+    updatePolicy({ fallback: parsed.value });
+  };
+
+  return (
+    <div className="flex flex-col gap-2 text-sm px-4">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm font-semibold">
+          {t("Workflow.errorHandling")}
+        </Label>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <div className="p-1 hover:bg-secondary rounded cursor-pointer">
+              <InfoIcon className="size-3" />
+            </div>
+          </TooltipTrigger>
+          <TooltipContent className="p-4 whitespace-pre-wrap max-w-72">
+            {t("Workflow.errorHandlingDescription")}
+          </TooltipContent>
+        </Tooltip>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="error-policy-retries" className="text-xs">
+            {t("Workflow.retries")}
+          </Label>
+          <Input
+            id="error-policy-retries"
+            type="number"
+            disabled={!editable}
+            value={policy.retries ?? 0}
+            onChange={(e) =>
+              updatePolicy({
+                retries: Math.min(
+                  Math.max(parseInt(e.target.value) || 0, 0),
+                  MAX_NODE_RETRIES,
+                ),
+              })
+            }
+            min={0}
+            max={MAX_NODE_RETRIES}
+            step={1}
+          />
+        </div>
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="error-policy-backoff" className="text-xs">
+            {t("Workflow.retryBackoff")}
+          </Label>
+          <Input
+            id="error-policy-backoff"
+            type="number"
+            disabled={!editable || !policy.retries}
+            value={policy.retryBackoff ?? DEFAULT_RETRY_BACKOFF}
+            onChange={(e) =>
+              updatePolicy({
+                retryBackoff: Math.max(parseInt(e.target.value) || 0, 0),
+              })
+            }
+            min={0}
+            step={500}
+          />
+        </div>
+      </div>
+
+      <Label htmlFor="error-policy-timeout" className="text-xs mt-2">
+        Timeout (ms)
+      </Label>
+      <Input
+        id="error-policy-timeout"
+        type="number"
+        disabled={!editable}
+        placeholder={t("Workflow.noTimeout")}
+        value={policy.timeout ?? ""}
+        onChange={(e) =>
+          updatePolicy({
+            timeout: parseInt(e.target.value) || undefined,
+          })
+        }
+        min={1000}
+        max={300000}
+        step={1000}
+      />
+
+      <Label className="text-xs mt-2">{t("Workflow.onError")}</Label>
+      <Select
+        value={policy.onError ?? "fail"}
+        disabled={!editable}
+        onValueChange={(onError) => {
+          updatePolicy({ onError: onError as NodeErrorPolicy["onError"] });
+          if (onError !== "branch") {
+            setEdges((edges) =>
+              edges.filter(
+                (edge) =>
+                  edge.source !== data.id ||
+                  edge.sourceHandle !== ERROR_BRANCH_HANDLE,
+              ),
+            );
+          }
+        }}
+      >
+        <SelectTrigger size="sm" className="w-full">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="fail">{t("Workflow.onErrorFail")}</SelectItem>
+          <SelectItem value="continue">
+            {t("Workflow.onErrorContinue")}
+          </SelectItem>
+          <SelectItem value="branch">{t("Workflow.onErrorBranch")}</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {policy.onError === "continue" && (
+        <>
+          <Label htmlFor="error-policy-fallback" className="text-xs mt-2">
+            {t("Workflow.fallbackOutput")}
+          </Label>
+          <Textarea
+            id="error-policy-fallback"
+            disabled={!editable}
+            spellCheck={false}
+            className="font-mono text-xs min-h-24 max-h-60 resize-y"
+            value={fallback}
+            onChange={(e) => setFallback(e.target.value)}
+            onBlur={saveFallback}
+          />
+        </>
+      )}
+    </div>
+  );
+});
+ErrorPolicyConfig.displayName = "ErrorPolicyConfig";
+
+export const ErrorBranchHandle = memo(function ({
+  data,
+}: {
+  data: WorkflowNodeData;
+}) {
+  const t = useTranslations();
+  const [openNodeSelect, setOpenNodeSelect] = useState(false);
+  const update = useUpdate();
+  const { addNodes, addEdges, updateNode, getNodes, getEdges } = useReactFlow();
+
+  const appendNode = (kind: NodeKind) => {
+    setOpenNodeSelect(false);
+    const allNodes = getNodes() as UINode[];
+    const { node: newNode, edge: newEdge } = createAppendNode({
+      sourceNode: allNodes.find((node) => node.data.id === data.id)!,
+      kind,
+      allNodes,
+      edge: {
+        sourceHandle: ERROR_BRANCH_HANDLE,
+      },
+      allEdges: getEdges(),
+    });
+
+    addNodes([newNode]);
+    if (newEdge) {
+      addEdges([newEdge]);
+    }
+    update(() => {
+      updateNode(data.id, {
+        selected: false,
+      });
+    });
+  };
+
+  return (
+    <div className="relative mt-2">
+      <Handle
+        type="source"
+        position={Position.Right}
+        className="z-10 border-none! bg-destructive! h-5! w-5! rounded-full! -right-0! flex items-center justify-center"
+        id={ERROR_BRANCH_HANDLE}
+        isConnectable={true}
+        onMouseUp={() => setOpenNodeSelect(true)}
+      >
+        <div className="pointer-events-none">
+          <PlusIcon className="size-4 text-white stroke-4" />
+        </div>
+      </Handle>
+      <NodeSelect
+        onChange={appendNode}
+        open={openNodeSelect}
+        onOpenChange={setOpenNodeSelect}
+      >
+        <PlusIcon className={"sr-only"} />
+      </NodeSelect>
+      <div className="px-4">
+        <div className="px-2 w-full text-xs py-1 font-bold bg-input border rounded-xs flex">
+          <span className="text-destructive">
+            {t("Workflow.onErrorHandle")}
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+});
+ErrorBranchHandle.displayName = "ErrorBranchHandle";
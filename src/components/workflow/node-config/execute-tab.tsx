@@ -6,7 +6,7 @@ import {
 import { useReactFlow } from "@xyflow/react";
 import { useObjectState } from "@/hooks/use-object-state";
 import { UINode } from "lib/ai/workflow/workflow.interface";
-import { cn, createDebounce, errorToString } from "lib/utils";
+import { cn, createDebounce, errorToString, toAny } from "lib/utils";
 import { useCallback, useMemo, useRef, useState } from "react";
 import { GraphEndEvent } from "ts-edge";
 import { allNodeValidate } from "lib/ai/workflow/node-validate";
@@ -22,6 +22,7 @@ import {
   WandSparklesIcon,
   XIcon,
   Maximize2,
+  HourglassIcon,
 } from "lucide-react";
 import JsonView from "ui/json-view";
 import { Button } from "ui/button";
@@ -286,8 +287,19 @@ ${workflow!.description ? `tool-description: ${workflow!.description}` : ""}`,
                   break;
                 }
                 case "NODE_END": {
+                  const source = event.isOk
+                    ? event.node.output
+                    : event.node.input;
+                  const nodeError = source?.errors?.[event.node.name];
+                  const status = !event.isOk
+                    ? "fail"
+                    : source?.waitingNodeIds?.includes(event.node.name)
+                      ? "waiting"
+                      : nodeError
+                        ? "recovered"
+                        : "success";
                   updateNodeData(event.node.name, {
-                    runtime: { status: event.isOk ? "success" : "fail" },
+                    runtime: { status },
                   });
                   setHistories((prev) => {
                     const prevHistory = prev.find(
@@ -296,14 +308,12 @@ ${workflow!.description ? `tool-description: ${workflow!.description}` : ""}`,
                     if (!prevHistory) return prev;
                     return prev.map((n) => {
                       if (n != prevHistory) return n;
-                      const source = event.isOk
-                        ? event.node.output
-                        : event.node.input;
                       return {
                         ...prevHistory,
                         endedAt: Date.now(),
-                        status: event.isOk ? "success" : "fail",
-                        error: event.error,
+                        status,
+                        attempts: nodeError?.attempts,
+                        error: event.error ?? nodeError?.message,
                         result: {
                           output: source?.outputs?.[prevHistory.nodeId],
                           input: source?.inputs?.[prevHistory.nodeId],
@@ -356,6 +366,16 @@ ${workflow!.description ? `tool-description: ${workflow!.description}` : ""}`,
           </AlertDescription>
         </Alert>
       );
+    if (toAny(result)?.output?.waitingNodeIds?.length)
+      return (
+        <Alert>
+          <HourglassIcon />
+          <AlertTitle>{t("Workflow.waitingForApproval")}</AlertTitle>
+          <AlertDescription>
+            {t("Workflow.waitingForApprovalDescription")}
+          </AlertDescription>
+        </Alert>
+      );
     return (
       <div className="p-2">
         <JsonView data={lastOutput} />
@@ -549,6 +569,10 @@ ${workflow!.description ? `tool-description: ${workflow!.description}` : ""}`,
                       <Check className="size-3" />
                     ) : history.status == "fail" ? (
                       <XIcon className="size-3" />
+                    ) : history.status == "recovered" ? (
+                      <AlertTriangleIcon className="size-3 text-amber-400" />
+                    ) : history.status == "waiting" ? (
+                      <HourglassIcon className="size-3 text-blue-500" />
                     ) : (
                       <Loader2 className="size-3 animate-spin" />
                     )}
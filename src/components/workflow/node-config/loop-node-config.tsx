@@ -0,0 +1,230 @@
+"use client";
+
+import { Handle, Position, useReactFlow } from "@xyflow/react";
+import {
+  LoopNodeData,
+  NodeKind,
+  UINode,
+} from "lib/ai/workflow/workflow.interface";
+import { memo, useMemo, useState } from "react";
+import {
+  ChevronDownIcon,
+  InfoIcon,
+  PlusIcon,
+  RepeatIcon,
+  TriangleAlertIcon,
+  VariableIcon,
+} from "lucide-react";
+import { useTranslations } from "next-intl";
+import { JSONSchema7 } from "json-schema";
+
+import { VariableSelect } from "../variable-select";
+import { NodeSelect } from "../node-select";
+import { createAppendNode } from "../create-append-node";
+import { Input } from "ui/input";
+import { Label } from "ui/label";
+import { Tooltip, TooltipContent, TooltipTrigger } from "ui/tooltip";
+import { findJsonSchemaByPath } from "lib/ai/workflow/shared.workflow";
+import {
+  DEFAULT_LOOP_CONCURRENCY,
+  LOOP_BODY_HANDLE,
+  MAX_LOOP_CONCURRENCY,
+} from "lib/ai/workflow/loop";
+import { useWorkflowStore } from "@/app/store/workflow.store";
+import { useUpdate } from "@/hooks/use-update";
+
+export const LoopNodeDataConfig = memo(function ({
+  data,
+}: {
+  data: LoopNodeData;
+}) {
+  const t = useTranslations();
+  const { getNodes, updateNodeData } = useReactFlow<UINode>();
+  const editable = useWorkflowStore((state) => {
+    return (
+      state.processIds.length === 0 &&
+      state.hasEditAccess &&
+      !state.workflow?.isPublished
+    );
+  });
+
+  const source = useMemo(() => {
+    if (!data.source) return;
+    const sourceNode = (getNodes() as UINode[]).find(
+      (node) => node.data.id === data.source?.nodeId,
+    );
+    const schema = sourceNode
+      ? findJsonSchemaByPath(sourceNode.data.outputSchema, data.source.path)
+      : undefined;
+    return {
+      nodeName: sourceNode?.data.name,
+      path: data.source.path,
+      type: schema?.type,
+      isNotFound: !schema,
+    };
+  }, [data.source]);
+
+  return (
+    <div className="flex flex-col gap-2 text-sm px-4 ">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm">{t("Workflow.loopSource")}</Label>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <div className="p-1 hover:bg-secondary rounded cursor-pointer">
+              <InfoIcon className="size-3" />
+            </div>
+          </TooltipTrigger>
+          <TooltipContent className="p-4 whitespace-pre-wrap max-w-72">
+            {t("Workflow.loopDescription")}
+          </TooltipContent>
+        </Tooltip>
+      </div>
+      <VariableSelect
+        currentNodeId={data.id}
+        allowedTypes={["array"]}
+        onChange={(item) => {
+          updateNodeData(data.id, (node) => {
+            const prev = node.data as LoopNodeData;
+            const sourceNode = (getNodes() as UINode[]).find(
+              (n) => n.data.id === item.nodeId,
+            );
+            const arraySchema = sourceNode
+              ? findJsonSchemaByPath(sourceNode.data.outputSchema, item.path)
+              : undefined;
+            const itemSchema = arraySchema?.items as JSONSchema7 | undefined;
+            return {
+              source: { nodeId: item.nodeId, path: item.path },
+              outputSchema: {
+                ...prev.outputSchema,
+                properties: {
+                  ...prev.outputSchema.properties,
+                  item: itemSchema?.type ? itemSchema : { type: "object" },
+                },
+              },
+            };
+          });
+        }}
+      >
+        <div
+          className="w-full flex text-[10px] items-center gap-1 p-2.5 border border-input bg-background rounded-lg cursor-pointer aria-disabled:pointer-events-none"
+          aria-disabled={!editable}
+        >
+          {source?.isNotFound ? (
+            <TriangleAlertIcon className="size-3 text-destructive" />
+          ) : (
+            <VariableIcon className="size-3 text-blue-500" />
+          )}
+          {source ? (
+            <>
+              <span>{source.nodeName}/</span>
+              <span className="truncate min-w-0 text-blue-500 flex-1">
+                {source.path.join(".")}
+              </span>
+              <span className="text-muted-foreground">{source.type}</span>
+            </>
+          ) : (
+            <span className="text-muted-foreground">
+              {t("Workflow.selectVariable")}
+            </span>
+          )}
+          <ChevronDownIcon className="size-3 ml-auto" />
+        </div>
+      </VariableSelect>
+
+      <Label htmlFor="loop-concurrency" className="text-sm mt-4">
+        {t("Workflow.loopConcurrency")}
+      </Label>
+      <Input
+        id="loop-concurrency"
+        type="number"
+        disabled={!editable}
+        value={data.concurrency || DEFAULT_LOOP_CONCURRENCY}
+        onChange={(e) =>
+          updateNodeData(data.id, {
+            concurrency: Math.min(
+              parseInt(e.target.value) || DEFAULT_LOOP_CONCURRENCY,
+              MAX_LOOP_CONCURRENCY,
+            ),
+          })
+        }
+        min={1}
+        max={MAX_LOOP_CONCURRENCY}
+        step={1}
+      />
+    </div>
+  );
+});
+LoopNodeDataConfig.displayName = "LoopNodeDataConfig";
+
+export const LoopNodeDataStack = memo(function ({
+  data,
+}: {
+  data: LoopNodeData;
+}) {
+  const t = useTranslations();
+  const [openNodeSelect, setOpenNodeSelect] = useState(false);
+  const update = useUpdate();
+  const { addNodes, addEdges, updateNode, getNodes, getEdges } = useReactFlow();
+
+  const appendNode = (kind: NodeKind) => {
+    setOpenNodeSelect(false);
+    const allNodes = getNodes() as UINode[];
+    const { node: newNode, edge: newEdge } = createAppendNode({
+      sourceNode: allNodes.find((node) => node.data.id === data.id)!,
+      kind,
+      allNodes,
+      edge: {
+        sourceHandle: LOOP_BODY_HANDLE,
+      },
+      allEdges: getEdges(),
+    });
+
+    addNodes([newNode]);
+    if (newEdge) {
+      addEdges([newEdge]);
+    }
+    update(() => {
+      updateNode(data.id, {
+        selected: false,
+      });
+    });
+  };
+
+  return (
+    <div className="mt-2">
+      <div className="relative">
+        <Handle
+          type="source"
+          position={Position.Right}
+          className="z-10 border-none! bg-blue-500! h-5! w-5! rounded-full! -right-0! flex items-center justify-center"
+          id={LOOP_BODY_HANDLE}
+          isConnectable={true}
+          onMouseUp={() => setOpenNodeSelect(true)}
+        >
+          <div className="pointer-events-none">
+            <PlusIcon className="size-4 text-white stroke-4" />
+          </div>
+        </Handle>
+        <NodeSelect
+          onChange={appendNode}
+          open={openNodeSelect}
+          onOpenChange={setOpenNodeSelect}
+        >
+          <PlusIcon className={"sr-only"} />
+        </NodeSelect>
+        <div className="px-4">
+          <div className="px-2 w-full text-xs py-1 font-bold bg-input border rounded-xs flex items-center gap-1">
+            <RepeatIcon className="size-3 text-blue-500" />
+            <span className="text-blue-500">{t("Workflow.loopEachItem")}</span>
+            {data.source && (
+              <span className="text-muted-foreground ml-auto truncate min-w-0">
+                {data.source.path.join(".")}
+              </span>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+});
+LoopNodeDataStack.displayName = "LoopNodeDataStack";
@@ -0,0 +1,225 @@
+"use client";
+
+import { useState } from "react";
+import { format } from "date-fns";
+import { useTranslations } from "next-intl";
+import {
+  AlertTriangleIcon,
+  ArrowLeft,
+  Check,
+  Loader2,
+  HourglassIcon,
+  Maximize2,
+  XIcon,
+} from "lucide-react";
+
+import { useWorkflowStore } from "@/app/store/workflow.store";
+import {
+  useWorkflowRun,
+  useWorkflowRuns,
+} from "@/hooks/queries/use-workflow-runs";
+import { WorkflowNodeRunStatus, WorkflowRun } from "app-types/workflow";
+import { cn } from "lib/utils";
+import { Alert, AlertDescription, AlertTitle } from "ui/alert";
+import { Badge } from "ui/badge";
+import { Button } from "ui/button";
+import JsonView from "ui/json-view";
+import { Separator } from "ui/separator";
+import { NodeIcon } from "../node-icon";
+import { NodeResultPopup } from "../node-result-popup";
+
+function toTime(date?: Date | string | null) {
+  return date ? new Date(date).getTime() : undefined;
+}
+
+function formatDuration(run: Pick<WorkflowRun, "startedAt" | "endedAt">) {
+  const endedAt = toTime(run.endedAt);
+  if (!endedAt) return null;
+  return `${((endedAt - toTime(run.startedAt)!) / 1000).toFixed(2)}s`;
+}
+
+export function RunStatusIcon({ status }: { status: WorkflowNodeRunStatus }) {
+  if (status == "success") return <Check className="size-3" />;
+  if (status == "fail") return <XIcon className="size-3" />;
+  if (status == "recovered")
+    return <AlertTriangleIcon className="size-3 text-amber-400" />;
+  if (status == "waiting")
+    return <HourglassIcon className="size-3 text-amber-400" />;
+  return <Loader2 className="size-3 animate-spin" />;
+}
+
+export function RunsTab({ close }: { close: () => void }) {
+  const t = useTranslations();
+  const { workflow } = useWorkflowStore();
+  const [selectedRunId, setSelectedRunId] = useState<string>();
+  const { data: runs = [], isLoading } = useWorkflowRuns(workflow?.id, {
+    refreshInterval: (latest) =>
+      latest?.some((run) => run.status == "running") ? 3000 : 0,
+  });
+
+  return (
+    <div className="fade-300 w-sm h-[85vh] bg-card border rounded-lg shadow-lg overflow-y-auto py-4">
+      <div className="flex flex-col px-4">
+        <div className="flex items-center gap-2 w-full h-9">
+          {selectedRunId && (
+            <div
+              className="p-1 rounded hover:bg-secondary cursor-pointer"
+              onClick={() => setSelectedRunId(undefined)}
+            >
+              <ArrowLeft className="size-3.5" />
+            </div>
+          )}
+          <span className="font-semibold">{t("Workflow.runHistory")}</span>
+          <div
+            className="p-1 rounded hover:bg-secondary cursor-pointer ml-auto"
+            onClick={close}
+          >
+            <XIcon className="size-3.5" />
+          </div>
+        </div>
+      </div>
+      <Separator className="my-2" />
+      {selectedRunId ? (
+        <RunDetail workflowId={workflow!.id} runId={selectedRunId} />
+      ) : isLoading ? (
+        <div className="flex items-center justify-center h-40">
+          <Loader2 className="size-4 animate-spin text-muted-foreground" />
+        </div>
+      ) : runs.length == 0 ? (
+        <div className="flex items-center justify-center h-40 text-sm text-muted-foreground">
+          {t("Workflow.noRuns")}
+        </div>
+      ) : (
+        <div className="flex flex-col px-2">
+          {runs.map((run) => (
+            <div
+              key={run.id}
+              onClick={() => setSelectedRunId(run.id)}
+              className={cn(
+                "cursor-pointer hover:bg-secondary flex items-center gap-2 text-sm rounded-sm px-2 py-1.5",
+                run.status == "fail" && "text-destructive",
+              )}
+            >
+              <RunStatusIcon status={run.status} />
+              <div className="flex flex-col min-w-0">
+                <span className="font-semibold">
+                  {format(new Date(run.startedAt), "MMM d, HH:mm:ss")}
+                </span>
+                <span className="text-xs text-muted-foreground truncate">
+                  {run.userName ?? t("Workflow.unknownUser")}
+                </span>
+              </div>
+              <Badge variant="outline" className="ml-auto">
+                {t(`Workflow.runTrigger.${run.trigger}`)}
+              </Badge>
+              <span className="text-xs text-muted-foreground w-12 text-right">
+                {formatDuration(run)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function RunDetail({
+  workflowId,
+  runId,
+}: {
+  workflowId: string;
+  runId: string;
+}) {
+  const t = useTranslations();
+  const { data: run } = useWorkflowRun(workflowId, runId);
+
+  if (!run) {
+    return (
+      <div className="flex items-center justify-center h-40">
+        <Loader2 className="size-4 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex flex-col px-4 h-[30vh] overflow-y-auto">
+        {run.nodeRuns.map((nodeRun, i) => (
+          <NodeResultPopup
+            key={nodeRun.id}
+            history={{
+              name: nodeRun.nodeName,
+              status: nodeRun.status,
+              startedAt: toTime(nodeRun.startedAt)!,
+              endedAt: toTime(nodeRun.endedAt),
+              error: nodeRun.error?.message,
+              result: { input: nodeRun.input, output: nodeRun.output },
+            }}
+          >
+            <div
+              className={cn(
+                "cursor-pointer hover:bg-secondary flex items-center gap-2 text-sm rounded-sm px-2 py-1.5 relative",
+                nodeRun.status == "fail" && "text-destructive",
+              )}
+            >
+              {i != 0 && (
+                <div className="absolute left-4.5 -top-1.5 w-px h-3">
+                  <Separator orientation="vertical" />
+                </div>
+              )}
+              <div className="border rounded overflow-hidden">
+                <NodeIcon
+                  type={nodeRun.kind}
+                  iconClassName="size-3"
+                  className="rounded-none"
+                />
+              </div>
+              <span className="font-semibold">{nodeRun.nodeName}</span>
+              <span
+                className={cn(
+                  "ml-auto text-xs",
+                  nodeRun.status != "fail" && "text-muted-foreground",
+                )}
+              >
+                {formatDuration(nodeRun)}
+              </span>
+              <RunStatusIcon status={nodeRun.status} />
+            </div>
+          </NodeResultPopup>
+        ))}
+      </div>
+      <Separator />
+      <div className="px-4 py-4">
+        <div className="flex items-center mb-4">
+          <p className="font-semibold text-sm">{t("Common.result")}</p>
+          <div className="flex-1" />
+          <NodeResultPopup
+            history={{
+              name: t("Common.result"),
+              status: run.status,
+              startedAt: toTime(run.startedAt)!,
+              endedAt: toTime(run.endedAt),
+              error: run.error?.message,
+              result: { input: run.input, output: run.output },
+            }}
+          >
+            <Button variant={"ghost"} size={"icon"}>
+              <Maximize2 className="size-3" />
+            </Button>
+          </NodeResultPopup>
+        </div>
+        {run.status == "fail" ? (
+          <Alert variant={"destructive"} className="border-destructive">
+            <AlertTriangleIcon />
+            <AlertTitle>{run.error?.name ?? "Error"}</AlertTitle>
+            <AlertDescription>{run.error?.message}</AlertDescription>
+          </Alert>
+        ) : (
+          <div className="p-2">
+            <JsonView data={run.output} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,329 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { format } from "date-fns";
+import { useTranslations } from "next-intl";
+import { useReactFlow } from "@xyflow/react";
+import { toast } from "sonner";
+import { safe } from "ts-safe";
+import {
+  ArrowLeft,
+  InfoIcon,
+  Loader2,
+  PencilIcon,
+  PlusIcon,
+  TrashIcon,
+  XIcon,
+} from "lucide-react";
+
+import { authClient } from "auth/client";
+import { useWorkflowStore } from "@/app/store/workflow.store";
+import { useWorkflowSchedules } from "@/hooks/queries/use-workflow-schedules";
+import { WorkflowSchedule } from "app-types/workflow";
+import { NodeKind, UINode } from "lib/ai/workflow/workflow.interface";
+import { DEFAULT_SCHEDULE_TIMEZONE } from "lib/ai/workflow/schedule";
+import { fetcher, safeJSONParse } from "lib/utils";
+import { Button } from "ui/button";
+import { Input } from "ui/input";
+import { Label } from "ui/label";
+import { Separator } from "ui/separator";
+import { Switch } from "ui/switch";
+import { Textarea } from "ui/textarea";
+import { Tooltip, TooltipContent, TooltipTrigger } from "ui/tooltip";
+import { handleErrorWithToast } from "ui/shared-toast";
+import { RunDetail, RunStatusIcon } from "./runs-tab";
+
+const EMPTY_VALUE_BY_TYPE: Record<string, unknown> = {
+  string: "",
+  number: 0,
+  boolean: false,
+  array: [],
+  object: {},
+};
+
+function formatDate(date?: Date | string | null) {
+  return date ? format(new Date(date), "MMM d, HH:mm") : "-";
+}
+
+export function SchedulesTab({ close }: { close: () => void }) {
+  const t = useTranslations();
+  const { workflow } = useWorkflowStore();
+  const { data: session } = authClient.useSession();
+  const { getNodes } = useReactFlow<UINode>();
+  const {
+    data: schedules = [],
+    isLoading,
+    mutate,
+  } = useWorkflowSchedules(workflow?.id);
+  const [selectedRunId, setSelectedRunId] = useState<string>();
+  const [editing, setEditing] = useState<WorkflowSchedule | "new">();
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isOwner = !!workflow && session?.user.id == workflow.userId;
+
+  // Prefills new schedules with a value for every Input node field.
+  const defaultInput = useMemo(() => {
+    const inputNode = getNodes().find(
+      (node) => node.data.kind == NodeKind.Input,
+    );
+    const properties = inputNode?.data.outputSchema.properties ?? {};
+    return Object.fromEntries(
+      Object.entries(properties).map(([key, schema]) => [
+        key,
+        (schema as any)?.default ??
+          EMPTY_VALUE_BY_TYPE[(schema as any)?.type] ??
+          null,
+      ]),
+    );
+  }, [editing]);
+
+  const request = (url: string, method: string, body?: object) => {
+    setIsSaving(true);
+    return safe(() =>
+      fetcher(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: body ? JSON.stringify(body) : undefined,
+      }),
+    )
+      .ifOk(() => mutate())
+      .ifFail((e) => handleErrorWithToast(e))
+      .watch(() => setIsSaving(false));
+  };
+
+  const save = (values: Partial<WorkflowSchedule>) => {
+    const base = `/api/workflow/${workflow!.id}/schedules`;
+    const url = editing && editing != "new" ? `${base}/${editing.id}` : base;
+    return request(url, editing == "new" ? "POST" : "PUT", values).ifOk(() => {
+      toast.success(t("Workflow.scheduleSaved"));
+      setEditing(undefined);
+    });
+  };
+
+  const toggle = (schedule: WorkflowSchedule, enabled: boolean) =>
+    request(`/api/workflow/${workflow!.id}/schedules/${schedule.id}`, "PUT", {
+      enabled,
+    });
+
+  const remove = (schedule: WorkflowSchedule) =>
+    request(
+      `/api/workflow/${workflow!.id}/schedules/${schedule.id}`,
+      "DELETE",
+    ).ifOk(() => toast.success(t("Workflow.scheduleDeleted")));
+
+  return (
+    <div className="fade-300 w-sm h-[85vh] bg-card border rounded-lg shadow-lg overflow-y-auto py-4">
+      <div className="flex flex-col px-4">
+        <div className="flex items-center gap-2 w-full h-9">
+          {(selectedRunId || editing) && (
+            <div
+              className="p-1 rounded hover:bg-secondary cursor-pointer"
+              onClick={() => {
+                setSelectedRunId(undefined);
+                setEditing(undefined);
+              }}
+            >
+              <ArrowLeft className="size-3.5" />
+            </div>
+          )}
+          <span className="font-semibold">{t("Workflow.schedules")}</span>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <div className="p-1 hover:bg-secondary rounded cursor-pointer">
+                <InfoIcon className="size-3" />
+              </div>
+            </TooltipTrigger>
+            <TooltipContent className="p-4 whitespace-pre-wrap max-w-72">
+              {t("Workflow.scheduleDescription")}
+            </TooltipContent>
+          </Tooltip>
+          <div
+            className="p-1 rounded hover:bg-secondary cursor-pointer ml-auto"
+            onClick={close}
+          >
+            <XIcon className="size-3.5" />
+          </div>
+        </div>
+      </div>
+      <Separator className="my-2" />
+      {selectedRunId ? (
+        <RunDetail workflowId={workflow!.id} runId={selectedRunId} />
+      ) : editing ? (
+        <ScheduleForm
+          key={editing == "new" ? "new" : editing.id}
+          defaultValue={
+            editing == "new"
+              ? {
+                  cron: "0 9 * * *",
+                  timezone:
+                    Intl.DateTimeFormat().resolvedOptions().timeZone ||
+                    DEFAULT_SCHEDULE_TIMEZONE,
+                  input: defaultInput,
+                }
+              : editing
+          }
+          isSaving={isSaving}
+          onSave={save}
+        />
+      ) : isLoading ? (
+        <div className="flex items-center justify-center h-40">
+          <Loader2 className="size-4 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <div className="flex flex-col gap-2 px-4">
+          {!isOwner && (
+            <p className="text-xs text-muted-foreground">
+              {t("Workflow.scheduleOwnerOnly")}
+            </p>
+          )}
+          {schedules.length == 0 && (
+            <div className="flex items-center justify-center h-32 text-sm text-muted-foreground">
+              {t("Workflow.noSchedules")}
+            </div>
+          )}
+          {schedules.map((schedule) => (
+            <div
+              key={schedule.id}
+              className="flex flex-col gap-1 border rounded-lg p-3 text-sm"
+            >
+              <div className="flex items-center gap-2">
+                <span className="font-mono font-semibold">{schedule.cron}</span>
+                <span className="text-xs text-muted-foreground truncate">
+                  {schedule.timezone}
+                </span>
+                <Switch
+                  className="ml-auto"
+                  checked={schedule.enabled}
+                  disabled={!isOwner || isSaving}
+                  onCheckedChange={(enabled) => toggle(schedule, enabled)}
+                />
+              </div>
+              <div className="flex items-center text-xs text-muted-foreground">
+                <span className="w-16">{t("Workflow.nextRun")}</span>
+                <span>
+                  {schedule.enabled
+                    ? formatDate(schedule.nextRunAt)
+                    : t("Workflow.schedulePaused")}
+                </span>
+              </div>
+              <div className="flex items-center text-xs text-muted-foreground">
+                <span className="w-16">{t("Workflow.lastRun")}</span>
+                {schedule.lastRunId ? (
+                  <div
+                    className="flex items-center gap-1 cursor-pointer hover:text-foreground"
+                    onClick={() => setSelectedRunId(schedule.lastRunId!)}
+                  >
+                    <span>{formatDate(schedule.lastRunAt)}</span>
+                    <RunStatusIcon
+                      status={schedule.lastRunStatus ?? "running"}
+                    />
+                  </div>
+                ) : (
+                  <span>-</span>
+                )}
+                {isOwner && (
+                  <div className="flex items-center ml-auto">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="size-7"
+                      disabled={isSaving}
+                      onClick={() => setEditing(schedule)}
+                    >
+                      <PencilIcon className="size-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="size-7"
+                      disabled={isSaving}
+                      onClick={() => remove(schedule)}
+                    >
+                      <TrashIcon className="size-3" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+          {isOwner && (
+            <Button
+              variant="ghost"
+              onClick={() => setEditing("new")}
+              className="w-full border-dashed border text-muted-foreground"
+            >
+              <PlusIcon /> {t("Workflow.addSchedule")}
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ScheduleForm({
+  defaultValue,
+  isSaving,
+  onSave,
+}: {
+  defaultValue: Pick<WorkflowSchedule, "cron" | "timezone" | "input">;
+  isSaving: boolean;
+  onSave: (values: Partial<WorkflowSchedule>) => void;
+}) {
+  const t = useTranslations();
+  const [cron, setCron] = useState(defaultValue.cron);
+  const [timezone, setTimezone] = useState(defaultValue.timezone);
+  const [input, setInput] = useState(
+    JSON.stringify(defaultValue.input ?? {}, null, 2),
+  );
+
+  const submit = () => {
+    const parsed = safeJSONParse<Record<string, unknown>>(input || "{}");
+    if (
+      !parsed.success ||
+      typeof parsed.value !== "object" ||
+      Array.isArray(parsed.value) ||
+      parsed.value === null
+    ) {
+      toast.error(t("Workflow.scheduleInputInvalid"));
+      return;
+    }
+    onSave({ cron, timezone, input: parsed.value });
+  };
+
+  return (
+    <div className="flex flex-col gap-2 px-4 text-sm">
+      <Label htmlFor="schedule-cron">{t("Workflow.scheduleCron")}</Label>
+      <Input
+        id="schedule-cron"
+        className="font-mono"
+        value={cron}
+        placeholder="0 9 * * 1-5"
+        onChange={(e) => setCron(e.target.value)}
+      />
+      <Label htmlFor="schedule-timezone" className="mt-2">
+        {t("Workflow.scheduleTimezone")}
+      </Label>
+      <Input
+        id="schedule-timezone"
+        value={timezone}
+        placeholder={DEFAULT_SCHEDULE_TIMEZONE}
+        onChange={(e) => setTimezone(e.target.value)}
+      />
+      <Label htmlFor="schedule-input" className="mt-2">
+        {t("Workflow.scheduleInput")}
+      </Label>
+      <Textarea
+        id="schedule-input"
+        spellCheck={false}
+        className="font-mono text-xs min-h-40 max-h-80 resize-y"
+        value={input}
+        onChange={(e) => setInput(e.target.value)}
+      />
+      <Button className="mt-2" disabled={isSaving} onClick={submit}>
+        {isSaving && <Loader2 className="size-3.5 animate-spin" />}
+        {t("Common.save")}
+      </Button>
+    </div>
+  );
+}
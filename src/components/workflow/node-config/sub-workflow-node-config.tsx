@@ -0,0 +1,284 @@
+"use client";
+
+import {
+  SubWorkflowNodeData,
+  UINode,
+} from "lib/ai/workflow/workflow.interface";
+import { memo, useMemo, useState } from "react";
+import {
+  ChevronDownIcon,
+  InfoIcon,
+  Loader2,
+  RefreshCwIcon,
+  TriangleAlertIcon,
+  VariableIcon,
+  WorkflowIcon,
+} from "lucide-react";
+import { useReactFlow } from "@xyflow/react";
+import { useTranslations } from "next-intl";
+import { JSONSchema7 } from "json-schema";
+import { safe } from "ts-safe";
+
+import { VariableSelect } from "../variable-select";
+import { Button } from "ui/button";
+import { Label } from "ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "ui/select";
+import { Tooltip, TooltipContent, TooltipTrigger } from "ui/tooltip";
+import { handleErrorWithToast } from "ui/shared-toast";
+import { fetcher } from "lib/utils";
+import { findJsonSchemaByPath } from "lib/ai/workflow/shared.workflow";
+import {
+  extractWorkflowInputSchema,
+  extractWorkflowOutputSchema,
+} from "lib/ai/workflow/sub-workflow";
+import {
+  DBWorkflow,
+  WorkflowSummary,
+  WorkflowVersion,
+} from "app-types/workflow";
+import { useWorkflowStore } from "@/app/store/workflow.store";
+import { useWorkflowToolList } from "@/hooks/queries/use-workflow-tool-list";
+
+async function fetchPublishedInterface(workflowId: string) {
+  const workflow: DBWorkflow = await fetcher(`/api/workflow/${workflowId}`);
+  if (!workflow.publishedVersion) throw new Error("Workflow is not published");
+  const version: WorkflowVersion = await fetcher(
+    `/api/workflow/${workflowId}/versions/${workflow.publishedVersion}`,
+  );
+  return {
+    workflow: { id: workflow.id, name: workflow.name },
+    inputSchema: extractWorkflowInputSchema(version.nodes),
+    outputSchema: extractWorkflowOutputSchema(version.nodes),
+  };
+}
+
+export const SubWorkflowNodeDataConfig = memo(function ({
+  data,
+}: {
+  data: SubWorkflowNodeData;
+}) {
+  const t = useTranslations();
+  const { getNodes, updateNodeData } = useReactFlow<UINode>();
+  const currentWorkflowId = useWorkflowStore((state) => state.workflow?.id);
+  const editable = useWorkflowStore((state) => {
+    return (
+      state.processIds.length === 0 &&
+      state.hasEditAccess &&
+      !state.workflow?.isPublished
+    );
+  });
+  const { data: workflowList } = useWorkflowToolList();
+  const [isLoading, setIsLoading] = useState(false);
+
+  // A workflow calling itself would always be rejected at run time.
+  const workflows = useMemo(
+    () =>
+      ((workflowList ?? []) as WorkflowSummary[]).filter(
+        (workflow) => workflow.id !== currentWorkflowId,
+      ),
+    [workflowList, currentWorkflowId],
+  );
+
+  const inputs = useMemo(() => {
+    const nodes = getNodes() as UINode[];
+    const properties = data.inputSchema?.properties ?? {};
+    return data.inputs.map(({ key, source }) => {
+      const targetNode = nodes.find((node) => node.data.id === source?.nodeId);
+      const schema = targetNode
+        ? findJsonSchemaByPath(targetNode.data.outputSchema, source?.path ?? [])
+        : undefined;
+      return {
+        key,
+        type: (properties[key] as JSONSchema7 | undefined)?.type,
+        required: data.inputSchema?.required?.includes(key),
+        source,
+        nodeName: targetNode?.data.name,
+        isNotFound: (source && !targetNode) || (targetNode && !schema),
+      };
+    });
+  }, [data]);
+
+  const selectWorkflow = (workflowId: string) => {
+    setIsLoading(true);
+    safe(() => fetchPublishedInterface(workflowId))
+      .ifOk(({ workflow, inputSchema, outputSchema }) => {
+        updateNodeData(data.id, (node) => {
+          const prev = node.data as SubWorkflowNodeData;
+          return {
+            workflow,
+            inputSchema,
+            outputSchema,
+            // Keep the mapping of fields that still exist
+            inputs: Object.keys(inputSchema.properties ?? {}).map((key) => ({
+              key,
+              source: prev.inputs.find((input) => input.key === key)?.source,
+            })),
+          };
+        });
+      })
+      .ifFail(handleErrorWithToast)
+      .watch(() => setIsLoading(false));
+  };
+
+  const updateSource = (
+    key: string,
+    source: SubWorkflowNodeData["inputs"][number]["source"],
+  ) => {
+    updateNodeData(data.id, (node) => {
+      const prev = node.data as SubWorkflowNodeData;
+      return {
+        inputs: prev.inputs.map((input) =>
+          input.key === key ? { ...input, source } : input,
+        ),
+      };
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-2 text-sm px-4 ">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm">{t("Workflow.subWorkflow")}</Label>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <div className="p-1 hover:bg-secondary rounded cursor-pointer">
+              <InfoIcon className="size-3" />
+            </div>
+          </TooltipTrigger>
+          <TooltipContent className="p-4 whitespace-pre-wrap max-w-72">
+            {t("Workflow.subWorkflowDescription")}
+          </TooltipContent>
+        </Tooltip>
+      </div>
+      <div className="flex items-center gap-1">
+        <Select
+          value={data.workflow?.id}
+          disabled={!editable || isLoading}
+          onValueChange={selectWorkflow}
+        >
+          <SelectTrigger size="sm" className="flex-1 min-w-0">
+            <SelectValue placeholder={t("Workflow.selectSubWorkflow")}>
+              {data.workflow?.name}
+            </SelectValue>
+          </SelectTrigger>
+          <SelectContent>
+            {workflows.length === 0 ? (
+              <div className="p-2 text-xs text-muted-foreground whitespace-pre-wrap">
+                {t("Workflow.noTools")}
+              </div>
+            ) : (
+              workflows.map((workflow) => (
+                <SelectItem key={workflow.id} value={workflow.id}>
+                  {workflow.icon?.value} {workflow.name}
+                </SelectItem>
+              ))
+            )}
+          </SelectContent>
+        </Select>
+        {data.workflow && (
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                disabled={!editable || isLoading}
+                onClick={() => selectWorkflow(data.workflow!.id)}
+              >
+                {isLoading ? (
+                  <Loader2 className="animate-spin" />
+                ) : (
+                  <RefreshCwIcon />
+                )}
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>{t("Workflow.refreshSubWorkflow")}</TooltipContent>
+          </Tooltip>
+        )}
+      </div>
+
+      {data.workflow && (
+        <>
+          <Label className="text-sm mt-4">
+            {t("Workflow.subWorkflowInputs")}
+          </Label>
+          {inputs.length === 0 && (
+            <p className="text-xs text-muted-foreground">
+              {t("Workflow.subWorkflowNoInputs")}
+            </p>
+          )}
+          {inputs.map((item) => (
+            <div className="flex items-center gap-1" key={item.key}>
+              <div className="w-24 flex items-center gap-0.5 text-xs truncate">
+                <span className="truncate">{item.key}</span>
+                {item.required && <span className="text-destructive">*</span>}
+              </div>
+              <VariableSelect
+                currentNodeId={data.id}
+                onChange={(variable) =>
+                  updateSource(item.key, {
+                    nodeId: variable.nodeId,
+                    path: variable.path,
+                  })
+                }
+              >
+                <div
+                  className="flex-1 min-w-0 w-full flex text-[10px] items-center gap-1 p-2.5 border border-input bg-background rounded-lg cursor-pointer aria-disabled:pointer-events-none"
+                  aria-disabled={!editable}
+                >
+                  {item.isNotFound ? (
+                    <TriangleAlertIcon className="size-3 text-destructive" />
+                  ) : (
+                    <VariableIcon className="size-3 text-blue-500" />
+                  )}
+                  {item.source ? (
+                    <>
+                      <span>{item.nodeName}/</span>
+                      <span className="truncate min-w-0 text-blue-500 flex-1">
+                        {item.source.path.join(".")}
+                      </span>
+                    </>
+                  ) : (
+                    <span className="text-muted-foreground flex-1">
+                      {t("Workflow.selectVariable")}
+                    </span>
+                  )}
+                  <span className="text-muted-foreground">{item.type}</span>
+                  <ChevronDownIcon className="size-3 ml-auto" />
+                </div>
+              </VariableSelect>
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  );
+});
+SubWorkflowNodeDataConfig.displayName = "SubWorkflowNodeDataConfig";
+
+export const SubWorkflowNodeDataStack = memo(function ({
+  data,
+}: {
+  data: SubWorkflowNodeData;
+}) {
+  const t = useTranslations();
+  return (
+    <div className="flex flex-col gap-1 px-4 mt-4">
+      {!data.workflow ? (
+        <div className="text-xs text-muted-foreground text-center py-2 border rounded-md">
+          {t("Workflow.selectSubWorkflow")}
+        </div>
+      ) : (
+        <div className="border bg-input text-[10px] rounded px-2 py-1 flex items-center gap-1">
+          <WorkflowIcon className="size-3" />
+          <span className="font-semibold truncate">{data.workflow.name}</span>
+        </div>
+      )}
+    </div>
+  );
+});
+SubWorkflowNodeDataStack.displayName = "SubWorkflowNodeDataStack";
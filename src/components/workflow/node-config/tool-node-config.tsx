@@ -21,14 +21,7 @@ import { MCPIcon } from "ui/mcp-icon";
 import { useTranslations } from "next-intl";
 import { Tooltip, TooltipContent, TooltipTrigger } from "ui/tooltip";
 import { useMcpList } from "@/hooks/queries/use-mcp-list";
-
-import {
-  exaSearchSchema,
-  exaSearchTool,
-  exaContentsSchema,
-  exaContentsTool,
-} from "lib/ai/tools/web/web-search";
-import { DefaultToolName } from "lib/ai/tools";
+import { useWorkflowAppTools } from "@/hooks/queries/use-workflow-app-tools";
 
 export const ToolNodeDataConfig = memo(function ({
   data,
@@ -48,6 +41,7 @@ export const ToolNodeDataConfig = memo(function ({
   });
 
   const { data: mcpList } = useMcpList();
+  const { data: appTools } = useWorkflowAppTools();
 
   const toolList = useMemo<WorkflowToolKey[]>(() => {
     const mcpTools: WorkflowToolKey[] = mcpList.flatMap((mcp) => {
@@ -62,22 +56,8 @@ export const ToolNodeDataConfig = memo(function ({
         };
       });
     });
-    const defaultTools: WorkflowToolKey[] = [
-      {
-        type: "app-tool",
-        id: DefaultToolName.WebSearch,
-        description: exaSearchTool.description!,
-        parameterSchema: exaSearchSchema,
-      },
-      {
-        type: "app-tool",
-        id: DefaultToolName.WebContent,
-        description: exaContentsTool.description!,
-        parameterSchema: exaContentsSchema,
-      },
-    ];
-    return [...mcpTools, ...defaultTools];
-  }, [mcpList]);
+    return [...mcpTools, ...(appTools ?? [])];
+  }, [mcpList, appTools]);
 
   useEffect(() => {
     if (!data.model) {
@@ -93,7 +73,16 @@ export const ToolNodeDataConfig = memo(function ({
       <WorkflowToolSelect
         tools={toolList}
         onChange={(tool) => {
-          updateNodeData(data.id, { tool });
+          updateNodeData(data.id, {
+            tool,
+            outputSchema: {
+              ...data.outputSchema,
+              properties: {
+                ...data.outputSchema.properties,
+                tool_result: tool.returnSchema ?? { type: "object" },
+              },
+            },
+          });
         }}
         tool={data.tool}
       />
@@ -0,0 +1,290 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { format } from "date-fns";
+import { useTranslations } from "next-intl";
+import { useReactFlow } from "@xyflow/react";
+import { safe } from "ts-safe";
+import {
+  ArrowLeft,
+  InfoIcon,
+  Loader2,
+  MinusIcon,
+  PencilIcon,
+  PlusIcon,
+  RotateCcwIcon,
+  XIcon,
+} from "lucide-react";
+
+import { useWorkflowStore } from "@/app/store/workflow.store";
+import {
+  useWorkflowVersion,
+  useWorkflowVersions,
+} from "@/hooks/queries/use-workflow-versions";
+import { WorkflowVersion } from "app-types/workflow";
+import { summarizeWorkflowDiff } from "lib/ai/workflow/extract-workflow-diff";
+import {
+  convertDBEdgeToUIEdge,
+  convertDBNodeToUINode,
+} from "lib/ai/workflow/shared.workflow";
+import { UINode } from "lib/ai/workflow/workflow.interface";
+import { notify } from "lib/notify";
+import { cn, fetcher } from "lib/utils";
+import { Badge } from "ui/badge";
+import { Button } from "ui/button";
+import { Separator } from "ui/separator";
+import { Tooltip, TooltipContent, TooltipTrigger } from "ui/tooltip";
+import { handleErrorWithToast } from "ui/shared-toast";
+import { NodeIcon } from "../node-icon";
+
+function toUIStructure(version?: Pick<WorkflowVersion, "nodes" | "edges">) {
+  return {
+    nodes: version?.nodes.map(convertDBNodeToUINode) ?? [],
+    edges: version?.edges.map(convertDBEdgeToUIEdge) ?? [],
+  };
+}
+
+export function VersionsTab({ close }: { close: () => void }) {
+  const t = useTranslations();
+  const { workflow } = useWorkflowStore();
+  const {
+    data: versions = [],
+    isLoading,
+    mutate,
+  } = useWorkflowVersions(workflow?.id);
+  const [selectedVersion, setSelectedVersion] = useState<number>();
+
+  useEffect(() => {
+    mutate();
+  }, [workflow?.publishedVersion]);
+
+  return (
+    <div className="fade-300 w-sm h-[85vh] bg-card border rounded-lg shadow-lg overflow-y-auto py-4">
+      <div className="flex flex-col px-4">
+        <div className="flex items-center gap-2 w-full h-9">
+          {selectedVersion && (
+            <div
+              className="p-1 rounded hover:bg-secondary cursor-pointer"
+              onClick={() => setSelectedVersion(undefined)}
+            >
+              <ArrowLeft className="size-3.5" />
+            </div>
+          )}
+          <span className="font-semibold">
+            {selectedVersion ? `v${selectedVersion}` : t("Workflow.versions")}
+          </span>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <div className="p-1 hover:bg-secondary rounded cursor-pointer">
+                <InfoIcon className="size-3" />
+              </div>
+            </TooltipTrigger>
+            <TooltipContent className="p-4 whitespace-pre-wrap max-w-72">
+              {t("Workflow.versionsDescription")}
+            </TooltipContent>
+          </Tooltip>
+          <div
+            className="p-1 rounded hover:bg-secondary cursor-pointer ml-auto"
+            onClick={close}
+          >
+            <XIcon className="size-3.5" />
+          </div>
+        </div>
+      </div>
+      <Separator className="my-2" />
+      {selectedVersion ? (
+        <VersionDetail workflowId={workflow!.id} version={selectedVersion} />
+      ) : isLoading ? (
+        <div className="flex items-center justify-center h-40">
+          <Loader2 className="size-4 animate-spin text-muted-foreground" />
+        </div>
+      ) : versions.length == 0 ? (
+        <div className="flex items-center justify-center h-40 text-sm text-muted-foreground">
+          {t("Workflow.noVersions")}
+        </div>
+      ) : (
+        <div className="flex flex-col gap-1 px-2">
+          {versions.map((version) => (
+            <div
+              key={version.id}
+              className="flex items-center gap-2 p-2 rounded-md hover:bg-secondary cursor-pointer text-sm"
+              onClick={() => setSelectedVersion(version.version)}
+            >
+              <span className="font-mono font-semibold">
+                v{version.version}
+              </span>
+              {version.version == workflow?.publishedVersion && (
+                <Badge variant="outline">{t("Workflow.liveVersion")}</Badge>
+              )}
+              <div className="flex flex-col items-end ml-auto min-w-0">
+                <span className="text-xs truncate">
+                  {version.publishedByUserName ?? "-"}
+                </span>
+                <span className="text-xs text-muted-foreground">
+                  {format(new Date(version.createdAt), "MMM d, HH:mm")}
+                </span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function VersionDetail({
+  workflowId,
+  version,
+}: {
+  workflowId: string;
+  version: number;
+}) {
+  const t = useTranslations();
+  const { hasEditAccess } = useWorkflowStore();
+  const { getNodes, getEdges } = useReactFlow<UINode>();
+  const [compareWith, setCompareWith] = useState<"previous" | "draft">(
+    "previous",
+  );
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const { data: current, isLoading } = useWorkflowVersion(workflowId, version);
+  const { data: previous, isLoading: isPreviousLoading } = useWorkflowVersion(
+    workflowId,
+    compareWith == "previous" && version > 1 ? version - 1 : undefined,
+  );
+
+  // "previous" shows what this version changed, "draft" shows what a
+  // rollback would change in the editor.
+  const diff = useMemo(() => {
+    if (!current) return;
+    const snapshot = toUIStructure(current);
+    if (compareWith == "draft") {
+      return summarizeWorkflowDiff(
+        { nodes: getNodes(), edges: getEdges() },
+        snapshot,
+      );
+    }
+    return summarizeWorkflowDiff(toUIStructure(previous), snapshot);
+  }, [current, previous, compareWith]);
+
+  const rollback = async () => {
+    const ok = await notify.confirm({
+      description: t("Workflow.rollbackConfirm", { version }),
+    });
+    if (!ok) return;
+    setIsRestoring(true);
+    safe(() =>
+      fetcher(`/api/workflow/${workflowId}/versions/${version}/rollback`, {
+        method: "POST",
+      }),
+    )
+      // The editor keeps its own copy of the draft, so reload it from the server.
+      .ifOk(() => window.location.reload())
+      .ifFail((e) => {
+        handleErrorWithToast(e);
+        setIsRestoring(false);
+      });
+  };
+
+  if (isLoading || isPreviousLoading || !diff) {
+    return (
+      <div className="flex items-center justify-center h-40">
+        <Loader2 className="size-4 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const changes = [
+    ...diff.addedNodes.map((node) => ({ node, type: "added" as const })),
+    ...diff.changedNodes.map((node) => ({ node, type: "changed" as const })),
+    ...diff.removedNodes.map((node) => ({ node, type: "removed" as const })),
+  ];
+  const edgeChanges =
+    diff.addedEdges.length +
+    diff.removedEdges.length +
+    diff.changedEdges.length;
+
+  return (
+    <div className="flex flex-col gap-2 px-4 text-sm">
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <span>{current?.publishedByUserName ?? "-"}</span>
+        <span className="ml-auto">
+          {current && format(new Date(current.createdAt), "MMM d, HH:mm:ss")}
+        </span>
+      </div>
+      <div className="flex gap-1">
+        <Button
+          size="sm"
+          variant={compareWith == "previous" ? "secondary" : "ghost"}
+          onClick={() => setCompareWith("previous")}
+        >
+          {t("Workflow.compareWithPrevious")}
+        </Button>
+        <Button
+          size="sm"
+          variant={compareWith == "draft" ? "secondary" : "ghost"}
+          onClick={() => setCompareWith("draft")}
+        >
+          {t("Workflow.compareWithDraft")}
+        </Button>
+      </div>
+
+      {changes.length == 0 && edgeChanges == 0 ? (
+        <div className="flex items-center justify-center h-32 text-sm text-muted-foreground">
+          {t("Workflow.noVersionChanges")}
+        </div>
+      ) : (
+        <div className="flex flex-col gap-1">
+          {changes.map(({ node, type }) => (
+            <div
+              key={`${type}-${node.id}`}
+              className="flex items-center gap-2 p-2 border rounded-md"
+            >
+              <NodeIcon type={node.data.kind} />
+              <span
+                className={cn(
+                  "truncate",
+                  type == "removed" && "line-through text-muted-foreground",
+                )}
+              >
+                {node.data.name}
+              </span>
+              {type == "added" ? (
+                <PlusIcon className="size-3.5 ml-auto text-green-500" />
+              ) : type == "removed" ? (
+                <MinusIcon className="size-3.5 ml-auto text-destructive" />
+              ) : (
+                <PencilIcon className="size-3.5 ml-auto text-yellow-500" />
+              )}
+            </div>
+          ))}
+          {edgeChanges > 0 && (
+            <p className="text-xs text-muted-foreground mt-1">
+              {t("Workflow.connectionChanges", {
+                added: diff.addedEdges.length,
+                removed: diff.removedEdges.length,
+                changed: diff.changedEdges.length,
+              })}
+            </p>
+          )}
+        </div>
+      )}
+
+      {hasEditAccess && (
+        <Button
+          variant="secondary"
+          className="mt-4"
+          disabled={isRestoring}
+          onClick={rollback}
+        >
+          {isRestoring ? (
+            <Loader2 className="size-3 animate-spin" />
+          ) : (
+            <RotateCcwIcon className="size-3" />
+          )}
+          {t("Workflow.rollbackToVersion", { version })}
+        </Button>
+      )}
+    </div>
+  );
+}
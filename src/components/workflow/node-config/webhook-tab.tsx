@@ -0,0 +1,202 @@
+"use client";
+
+import { useState } from "react";
+import { format } from "date-fns";
+import { useTranslations } from "next-intl";
+import { toast } from "sonner";
+import { safe } from "ts-safe";
+import {
+  CheckIcon,
+  CopyIcon,
+  EyeIcon,
+  EyeOffIcon,
+  InfoIcon,
+  Loader2,
+  RefreshCwIcon,
+  XIcon,
+} from "lucide-react";
+
+import { authClient } from "auth/client";
+import { useWorkflowStore } from "@/app/store/workflow.store";
+import { useWorkflowWebhook } from "@/hooks/queries/use-workflow-webhook";
+import { useCopy } from "@/hooks/use-copy";
+import {
+  WEBHOOK_ID_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from "lib/ai/workflow/webhook";
+import { fetcher } from "lib/utils";
+import { Button } from "ui/button";
+import { Input } from "ui/input";
+import { Label } from "ui/label";
+import { Separator } from "ui/separator";
+import { Switch } from "ui/switch";
+import { Tooltip, TooltipContent, TooltipTrigger } from "ui/tooltip";
+import { handleErrorWithToast } from "ui/shared-toast";
+
+function CopyButton({ text }: { text: string }) {
+  const { copied, copy } = useCopy();
+  return (
+    <Button
+      variant="ghost"
+      size="icon"
+      className="size-7"
+      onClick={() => copy(text)}
+    >
+      {copied ? (
+        <CheckIcon className="size-3" />
+      ) : (
+        <CopyIcon className="size-3" />
+      )}
+    </Button>
+  );
+}
+
+export function WebhookTab({ close }: { close: () => void }) {
+  const t = useTranslations();
+  const { workflow } = useWorkflowStore();
+  const { data: session } = authClient.useSession();
+  const isOwner = !!workflow && session?.user.id == workflow.userId;
+  const {
+    data: webhook,
+    isLoading,
+    mutate,
+  } = useWorkflowWebhook(isOwner ? workflow?.id : undefined);
+  const [showSecret, setShowSecret] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const url =
+    workflow && typeof window != "undefined"
+      ? `${window.location.origin}/api/webhook/workflow/${workflow.id}`
+      : "";
+
+  const request = (method: "PUT" | "POST", body?: object) => {
+    setIsSaving(true);
+    return safe(() =>
+      fetcher(`/api/workflow/${workflow!.id}/webhook`, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: body ? JSON.stringify(body) : undefined,
+      }),
+    )
+      .ifOk((updated) => mutate(updated, false))
+      .ifFail((e) => handleErrorWithToast(e))
+      .watch(() => setIsSaving(false));
+  };
+
+  return (
+    <div className="fade-300 w-sm h-[85vh] bg-card border rounded-lg shadow-lg overflow-y-auto py-4">
+      <div className="flex flex-col px-4">
+        <div className="flex items-center gap-2 w-full h-9">
+          <span className="font-semibold">{t("Workflow.webhook")}</span>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <div className="p-1 hover:bg-secondary rounded cursor-pointer">
+                <InfoIcon className="size-3" />
+              </div>
+            </TooltipTrigger>
+            <TooltipContent className="p-4 whitespace-pre-wrap max-w-72">
+              {t("Workflow.webhookDescription")}
+            </TooltipContent>
+          </Tooltip>
+          {isOwner && (
+            <Switch
+              className="ml-auto"
+              checked={!!webhook?.enabled}
+              disabled={isSaving || isLoading}
+              onCheckedChange={(enabled) => request("PUT", { enabled })}
+            />
+          )}
+          <div
+            className="p-1 rounded hover:bg-secondary cursor-pointer ml-2"
+            onClick={close}
+          >
+            <XIcon className="size-3.5" />
+          </div>
+        </div>
+      </div>
+      <Separator className="my-2" />
+      {!isOwner ? (
+        <p className="px-4 text-xs text-muted-foreground">
+          {t("Workflow.webhookOwnerOnly")}
+        </p>
+      ) : isLoading ? (
+        <div className="flex items-center justify-center h-40">
+          <Loader2 className="size-4 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <div className="flex flex-col gap-2 px-4 text-sm">
+          {!workflow?.publishedVersion && (
+            <p className="text-xs text-muted-foreground">
+              {t("Workflow.webhookNotPublished")}
+            </p>
+          )}
+          <Label className="text-xs">{t("Workflow.webhookUrl")}</Label>
+          <div className="flex items-center gap-1">
+            <Input readOnly value={url} className="font-mono text-xs" />
+            <CopyButton text={url} />
+          </div>
+
+          {webhook && (
+            <>
+              <Label className="text-xs mt-2">
+                {t("Workflow.webhookSecret")}
+              </Label>
+              <div className="flex items-center gap-1">
+                <Input
+                  readOnly
+                  type={showSecret ? "text" : "password"}
+                  value={webhook.secret}
+                  className="font-mono text-xs"
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="size-7"
+                  onClick={() => setShowSecret(!showSecret)}
+                >
+                  {showSecret ? (
+                    <EyeOffIcon className="size-3" />
+                  ) : (
+                    <EyeIcon className="size-3" />
+                  )}
+                </Button>
+                <CopyButton text={webhook.secret} />
+              </div>
+              <Button
+                variant="secondary"
+                size="sm"
+                disabled={isSaving}
+                onClick={() =>
+                  request("POST").ifOk(() =>
+                    toast.success(t("Workflow.webhookSecretRegenerated")),
+                  )
+                }
+              >
+                <RefreshCwIcon className="size-3" />
+                {t("Workflow.regenerateSecret")}
+              </Button>
+              <div className="flex items-center text-xs text-muted-foreground mt-2">
+                <span>{t("Workflow.lastCalled")}</span>
+                <span className="ml-auto">
+                  {webhook.lastCalledAt
+                    ? format(new Date(webhook.lastCalledAt), "MMM d, HH:mm:ss")
+                    : "-"}
+                </span>
+              </div>
+            </>
+          )}
+
+          <Label className="text-xs mt-4">{t("Workflow.webhookSigning")}</Label>
+          <p className="text-xs text-muted-foreground whitespace-pre-wrap">
+            {t("Workflow.webhookSigningDescription", {
+              idHeader: WEBHOOK_ID_HEADER,
+              timestampHeader: WEBHOOK_TIMESTAMP_HEADER,
+              signatureHeader: WEBHOOK_SIGNATURE_HEADER,
+            })}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,12 +6,15 @@ import {
   BotIcon,
   BoxIcon,
   HardDriveUpload,
+  HandIcon,
   HouseIcon,
   InfoIcon,
   LandPlotIcon,
+  RepeatIcon,
   SplitIcon,
   TerminalIcon,
   TextIcon,
+  WorkflowIcon,
   WrenchIcon,
 } from "lucide-react";
 import { useMemo } from "react";
@@ -41,6 +44,12 @@ export function NodeIcon({
         return TextIcon;
       case NodeKind.Code:
         return TerminalIcon;
+      case NodeKind.Loop:
+        return RepeatIcon;
+      case NodeKind.SubWorkflow:
+        return WorkflowIcon;
+      case NodeKind.Approval:
+        return HandIcon;
       default:
         return BoxIcon;
     }
@@ -57,13 +66,15 @@ export function NodeIcon({
               ? "text-foreground bg-input"
               : type === NodeKind.LLM
                 ? "bg-indigo-500"
-                : type === NodeKind.Tool
+                : type === NodeKind.Tool || type === NodeKind.SubWorkflow
                   ? "bg-blue-500"
                   : type === NodeKind.Code || type === NodeKind.Http
                     ? "bg-rose-500"
                     : type === NodeKind.Template
                       ? "bg-purple-500"
-                      : type === NodeKind.Condition
+                      : type === NodeKind.Condition ||
+                          type === NodeKind.Loop ||
+                          type === NodeKind.Approval
                         ? "bg-amber-500"
                         : "bg-card",
         "p-1 rounded",
@@ -33,7 +33,13 @@ export function NodeResultPopup({
 }: {
   history: Pick<
     NodeRuntimeHistory,
-    "name" | "status" | "startedAt" | "endedAt" | "error" | "result"
+    | "name"
+    | "status"
+    | "startedAt"
+    | "endedAt"
+    | "error"
+    | "result"
+    | "attempts"
   >;
   children: ReactNode;
   disabled?: boolean;
@@ -71,13 +77,16 @@ export function NodeResultPopup({
                 variant={
                   history.status === "fail"
                     ? "destructive"
-                    : history.status === "running"
+                    : history.status === "running" ||
+                        history.status === "recovered"
                       ? "secondary"
                       : "default"
                 }
               >
                 {history.status === "fail" ? (
                   <TriangleAlertIcon className="size-3" />
+                ) : history.status === "recovered" ? (
+                  <TriangleAlertIcon className="size-3 text-amber-400" />
                 ) : history.status === "running" ? (
                   <Loader2Icon className="size-3 animate-spin" />
                 ) : (
@@ -98,6 +107,14 @@ export function NodeResultPopup({
               </p>
               <p>{history.status === "running" ? "N/A" : duration}</p>
             </div>
+            {(history.attempts ?? 0) > 1 && (
+              <div>
+                <p className="text-muted-foreground mb-2">
+                  {t("Workflow.attempts")}
+                </p>
+                <p>{history.attempts}</p>
+              </div>
+            )}
           </div>
           <div className="w-full h-full flex flex-col gap-2">
             <div className="flex items-center relative">
@@ -158,14 +175,24 @@ export function NodeResultPopup({
                   </AlertDescription>
                 </Alert>
               ) : (
-                <JsonView
-                  initialExpandDepth={4}
-                  data={
-                    tab == "input"
-                      ? history.result?.input
-                      : history.result?.output
-                  }
-                />
+                <>
+                  {tab == "output" && history.status === "recovered" && (
+                    <Alert className="flex flex-col gap-2">
+                      <AlertTitle>Error</AlertTitle>
+                      <AlertDescription>
+                        {errorToString(history.error)}
+                      </AlertDescription>
+                    </Alert>
+                  )}
+                  <JsonView
+                    initialExpandDepth={4}
+                    data={
+                      tab == "input"
+                        ? history.result?.input
+                        : history.result?.output
+                    }
+                  />
+                </>
               )}
             </div>
           </div>
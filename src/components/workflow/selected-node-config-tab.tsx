@@ -21,6 +21,12 @@ import { nextTick } from "lib/utils";
 import { ToolNodeDataConfig } from "./node-config/tool-node-config";
 import { HttpNodeConfig } from "./node-config/http-node-config";
 import { TemplateNodeConfig } from "./node-config/template-node-config";
+import { CodeNodeDataConfig } from "./node-config/code-node-config";
+import { LoopNodeDataConfig } from "./node-config/loop-node-config";
+import { SubWorkflowNodeDataConfig } from "./node-config/sub-workflow-node-config";
+import { ApprovalNodeDataConfig } from "./node-config/approval-node-config";
+import { ErrorPolicyConfig } from "./node-config/error-policy-config";
+import { ERROR_POLICY_NODE_KINDS } from "lib/ai/workflow/error-policy";
 import { useTranslations } from "next-intl";
 
 export function SelectedNodeConfigTab({ node }: { node: UINode }) {
@@ -99,6 +105,14 @@ export function SelectedNodeConfigTab({ node }: { node: UINode }) {
           <HttpNodeConfig node={node} />
         ) : node.data.kind === NodeKind.Template ? (
           <TemplateNodeConfig data={node.data} />
+        ) : node.data.kind === NodeKind.Code ? (
+          <CodeNodeDataConfig data={node.data} />
+        ) : node.data.kind === NodeKind.Loop ? (
+          <LoopNodeDataConfig data={node.data} />
+        ) : node.data.kind === NodeKind.SubWorkflow ? (
+          <SubWorkflowNodeDataConfig data={node.data} />
+        ) : node.data.kind === NodeKind.Approval ? (
+          <ApprovalNodeDataConfig data={node.data} />
         ) : node.data.kind === NodeKind.Note ? (
           <div className="h-full flex flex-col gap-2 px-4">
             <Label
@@ -121,6 +135,13 @@ export function SelectedNodeConfigTab({ node }: { node: UINode }) {
         ) : null}
       </div>
 
+      {ERROR_POLICY_NODE_KINDS.includes(node.data.kind) && (
+        <>
+          <Separator className="my-6" />
+          <ErrorPolicyConfig data={node.data} />
+        </>
+      )}
+
       {![NodeKind.Output, NodeKind.Note].includes(node.data.kind) && (
         <>
           <Separator className="my-6" />
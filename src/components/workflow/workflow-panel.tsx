@@ -6,7 +6,15 @@ import { Separator } from "@/components/ui/separator";
 
 import { UINode } from "lib/ai/workflow/workflow.interface";
 
-import { Loader, PlayIcon, AlignHorizontalSpaceAround } from "lucide-react";
+import {
+  Loader,
+  PlayIcon,
+  AlignHorizontalSpaceAround,
+  HistoryIcon,
+  CalendarClockIcon,
+  WebhookIcon,
+  GitCommitVerticalIcon,
+} from "lucide-react";
 import { Button } from "ui/button";
 
 import equal from "lib/equal";
@@ -19,6 +27,10 @@ import { DBWorkflow } from "app-types/workflow";
 
 import { SelectedNodeConfigTab } from "./selected-node-config-tab";
 import { ExecuteTab } from "./node-config/execute-tab";
+import { RunsTab } from "./node-config/runs-tab";
+import { SchedulesTab } from "./node-config/schedules-tab";
+import { WebhookTab } from "./node-config/webhook-tab";
+import { VersionsTab } from "./node-config/versions-tab";
 import { useReactFlow } from "@xyflow/react";
 import { safe } from "ts-safe";
 import { handleErrorWithToast } from "ui/shared-toast";
@@ -47,6 +59,10 @@ export const WorkflowPanel = memo(
   }) {
     const { setNodes, getNodes, getEdges } = useReactFlow();
     const [showExecutePanel, setShowExecutePanel] = useState(false);
+    const [showRunsPanel, setShowRunsPanel] = useState(false);
+    const [showSchedulesPanel, setShowSchedulesPanel] = useState(false);
+    const [showWebhookPanel, setShowWebhookPanel] = useState(false);
+    const [showVersionsPanel, setShowVersionsPanel] = useState(false);
     const [isEditing, setIsEditing] = useState(false);
     const [isSaving, setIsSaving] = useState(false);
     const t = useTranslations();
@@ -197,6 +213,62 @@ export const WorkflowPanel = memo(
             <PlayIcon />
             {t("Common.run")}
           </Button>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant="secondary"
+                size="icon"
+                onClick={() => setShowRunsPanel(!showRunsPanel)}
+              >
+                <HistoryIcon className="size-4" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent side="bottom">
+              <p>{t("Workflow.runHistory")}</p>
+            </TooltipContent>
+          </Tooltip>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant="secondary"
+                size="icon"
+                onClick={() => setShowSchedulesPanel(!showSchedulesPanel)}
+              >
+                <CalendarClockIcon className="size-4" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent side="bottom">
+              <p>{t("Workflow.schedules")}</p>
+            </TooltipContent>
+          </Tooltip>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant="secondary"
+                size="icon"
+                onClick={() => setShowWebhookPanel(!showWebhookPanel)}
+              >
+                <WebhookIcon className="size-4" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent side="bottom">
+              <p>{t("Workflow.webhook")}</p>
+            </TooltipContent>
+          </Tooltip>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant="secondary"
+                size="icon"
+                onClick={() => setShowVersionsPanel(!showVersionsPanel)}
+              >
+                <GitCommitVerticalIcon className="size-4" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent side="bottom">
+              <p>{t("Workflow.versions")}</p>
+            </TooltipContent>
+          </Tooltip>
 
           {!workflow.isPublished && (
             <Tooltip>
@@ -261,6 +333,16 @@ export const WorkflowPanel = memo(
               onSave={onSave}
             />
           )}
+          {showRunsPanel && <RunsTab close={() => setShowRunsPanel(false)} />}
+          {showSchedulesPanel && (
+            <SchedulesTab close={() => setShowSchedulesPanel(false)} />
+          )}
+          {showWebhookPanel && (
+            <WebhookTab close={() => setShowWebhookPanel(false)} />
+          )}
+          {showVersionsPanel && (
+            <VersionsTab close={() => setShowVersionsPanel(false)} />
+          )}
         </div>
         <EditWorkflowPopup
           open={isEditing}
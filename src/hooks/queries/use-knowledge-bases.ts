@@ -3,6 +3,7 @@
 import useSWR, { SWRConfiguration } from "swr";
 
 import {
+  KnowledgeBaseCrawl,
   KnowledgeBaseDocumentWithStatus,
   KnowledgeBaseSummary,
 } from "app-types/knowledge-base";
@@ -36,3 +37,18 @@ export function useKnowledgeBaseDetail(
     },
   );
 }
+
+export function useKnowledgeBaseCrawls(
+  knowledgeBaseId?: string,
+  options?: SWRConfiguration,
+) {
+  return useSWR<KnowledgeBaseCrawl[]>(
+    knowledgeBaseId ? `/api/knowledge-base/${knowledgeBaseId}/crawl` : null,
+    fetcher,
+    {
+      onError: handleErrorWithToast,
+      revalidateOnFocus: false,
+      ...options,
+    },
+  );
+}
@@ -0,0 +1,19 @@
+"use client";
+import useSWR, { SWRConfiguration } from "swr";
+import { MCPElicitation } from "app-types/mcp";
+import { fetcher } from "lib/utils";
+
+export function useMcpElicitations(
+  toolCallId: string,
+  options?: SWRConfiguration<MCPElicitation[]>,
+) {
+  return useSWR<MCPElicitation[]>(
+    `/api/mcp/elicitations?toolCallId=${encodeURIComponent(toolCallId)}`,
+    fetcher,
+    {
+      fallbackData: [],
+      refreshInterval: 2000,
+      ...options,
+    },
+  );
+}
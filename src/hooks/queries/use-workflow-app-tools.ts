@@ -0,0 +1,17 @@
+"use client";
+import useSWR, { SWRConfiguration } from "swr";
+import { WorkflowToolKey } from "lib/ai/workflow/workflow.interface";
+import { fetcher } from "lib/utils";
+
+export function useWorkflowAppTools(options?: SWRConfiguration) {
+  return useSWR<WorkflowToolKey[]>(
+    "/api/workflow/tools?type=app-tool",
+    fetcher,
+    {
+      errorRetryCount: 0,
+      revalidateOnFocus: false,
+      fallbackData: [],
+      ...options,
+    },
+  );
+}
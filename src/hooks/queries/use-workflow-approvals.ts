@@ -0,0 +1,14 @@
+"use client";
+import useSWR, { SWRConfiguration } from "swr";
+import { WorkflowApproval } from "app-types/workflow";
+import { fetcher } from "lib/utils";
+
+export function useWorkflowApprovals(
+  options?: SWRConfiguration<WorkflowApproval[]>,
+) {
+  return useSWR<WorkflowApproval[]>("/api/workflow/approvals", fetcher, {
+    fallbackData: [],
+    refreshInterval: 30000,
+    ...options,
+  });
+}
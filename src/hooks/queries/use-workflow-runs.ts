@@ -0,0 +1,30 @@
+"use client";
+import useSWR, { SWRConfiguration } from "swr";
+import { WorkflowNodeRun, WorkflowRun } from "app-types/workflow";
+import { fetcher } from "lib/utils";
+import { handleErrorWithToast } from "ui/shared-toast";
+
+export function useWorkflowRuns(
+  workflowId?: string,
+  options?: SWRConfiguration<WorkflowRun[]>,
+) {
+  return useSWR<WorkflowRun[]>(
+    workflowId ? `/api/workflow/${workflowId}/runs` : null,
+    fetcher,
+    {
+      fallbackData: [],
+      onError: handleErrorWithToast,
+      ...options,
+    },
+  );
+}
+
+export function useWorkflowRun(workflowId?: string, runId?: string) {
+  return useSWR<WorkflowRun & { nodeRuns: WorkflowNodeRun[] }>(
+    workflowId && runId ? `/api/workflow/${workflowId}/runs/${runId}` : null,
+    fetcher,
+    {
+      onError: handleErrorWithToast,
+    },
+  );
+}
@@ -0,0 +1,16 @@
+"use client";
+import useSWR from "swr";
+import { WorkflowSchedule } from "app-types/workflow";
+import { fetcher } from "lib/utils";
+import { handleErrorWithToast } from "ui/shared-toast";
+
+export function useWorkflowSchedules(workflowId?: string) {
+  return useSWR<WorkflowSchedule[]>(
+    workflowId ? `/api/workflow/${workflowId}/schedules` : null,
+    fetcher,
+    {
+      fallbackData: [],
+      onError: handleErrorWithToast,
+    },
+  );
+}
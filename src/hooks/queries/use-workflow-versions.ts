@@ -0,0 +1,29 @@
+"use client";
+import useSWR from "swr";
+import { WorkflowVersion, WorkflowVersionSummary } from "app-types/workflow";
+import { fetcher } from "lib/utils";
+import { handleErrorWithToast } from "ui/shared-toast";
+
+export function useWorkflowVersions(workflowId?: string) {
+  return useSWR<WorkflowVersionSummary[]>(
+    workflowId ? `/api/workflow/${workflowId}/versions` : null,
+    fetcher,
+    {
+      fallbackData: [],
+      onError: handleErrorWithToast,
+    },
+  );
+}
+
+export function useWorkflowVersion(workflowId?: string, version?: number) {
+  return useSWR<WorkflowVersion>(
+    workflowId && version
+      ? `/api/workflow/${workflowId}/versions/${version}`
+      : null,
+    fetcher,
+    {
+      revalidateOnFocus: false,
+      onError: handleErrorWithToast,
+    },
+  );
+}
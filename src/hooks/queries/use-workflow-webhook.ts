@@ -0,0 +1,15 @@
+"use client";
+import useSWR from "swr";
+import { WorkflowWebhook } from "app-types/workflow";
+import { fetcher } from "lib/utils";
+import { handleErrorWithToast } from "ui/shared-toast";
+
+export function useWorkflowWebhook(workflowId?: string) {
+  return useSWR<WorkflowWebhook | null>(
+    workflowId ? `/api/workflow/${workflowId}/webhook` : null,
+    fetcher,
+    {
+      onError: handleErrorWithToast,
+    },
+  );
+}
@@ -0,0 +1,98 @@
+import { createServer, Server as HttpServer } from "node:http";
+import { AddressInfo } from "node:net";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+vi.mock("./pg-oauth-provider", () => ({ PgOAuthClientProvider: vi.fn() }));
+vi.mock("./mcp-sampling", () => ({ createSamplingMessage: vi.fn() }));
+vi.mock("./mcp-elicitation", () => ({
+  requestElicitation: vi.fn(async (request: { userId: string }) => ({
+    action: "accept",
+    content: { userId: request.userId },
+  })),
+}));
+
+const { createMCPClient } = await import("./create-mcp-client");
+
+const answerOf = (result: any) => JSON.parse(result.content[0].text);
+
+// A server whose `ask` tool asks for input before it answers; slower calls
+// ask later, so requests of concurrent calls interleave
+function createAskingServer() {
+  const server = new Server(
+    { name: "asking", version: "1.0.0" },
+    { capabilities: { tools: {} } },
+  );
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [{ name: "ask", inputSchema: { type: "object" } }],
+  }));
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    await new Promise((resolve) =>
+      setTimeout(resolve, Number(request.params.arguments?.delay ?? 0)),
+    );
+    const result = await server.elicitInput(
+      { message: "Who?", requestedSchema: { type: "object", properties: {} } },
+      { relatedRequestId: extra.requestId },
+    );
+    return { content: [{ type: "text", text: JSON.stringify(result) }] };
+  });
+  return server;
+}
+
+describe("MCPClient elicitation", () => {
+  let httpServer: HttpServer;
+  let url: string;
+
+  beforeAll(async () => {
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: undefined,
+    });
+    await createAskingServer().connect(transport);
+    httpServer = createServer((req, res) => transport.handleRequest(req, res));
+    await new Promise<void>((resolve) => httpServer.listen(0, resolve));
+    url = `http://localhost:${(httpServer.address() as AddressInfo).port}/`;
+  });
+
+  afterAll(() => {
+    httpServer.close();
+  });
+
+  it("asks the user of the call that triggered the request", async () => {
+    const client = createMCPClient("server", "asking", { url });
+
+    const results = await Promise.all(
+      [
+        { userId: "slow", delay: 60 },
+        { userId: "fast", delay: 0 },
+      ].map(({ userId, delay }) =>
+        client.callTool(
+          "ask",
+          { delay },
+          { userId, toolCallId: `call-${userId}` },
+        ),
+      ),
+    );
+
+    expect(results.map(answerOf)).toEqual([
+      { action: "accept", content: { userId: "slow" } },
+      { action: "accept", content: { userId: "fast" } },
+    ]);
+    await client.disconnect();
+  });
+
+  it("declines requests of calls without a user", async () => {
+    const client = createMCPClient("server", "asking", { url });
+
+    const result = await client.callTool("ask", {});
+
+    expect(answerOf(result)).toEqual({
+      action: "decline",
+    });
+    await client.disconnect();
+  });
+});
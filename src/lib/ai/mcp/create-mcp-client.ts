@@ -1,3 +1,4 @@
+import { AsyncLocalStorage } from "node:async_hooks";
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
 import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
@@ -8,7 +9,17 @@ import {
   MCPStdioConfigZodSchema,
   type MCPServerConfig,
   type MCPToolInfo,
+  type MCPResourceInfo,
+  type MCPPromptInfo,
+  type MCPToolCallContext,
+  type MCPElicitation,
 } from "app-types/mcp";
+import {
+  CreateMessageRequestSchema,
+  ElicitRequestSchema,
+  type ElicitRequest,
+  type ElicitResult,
+} from "@modelcontextprotocol/sdk/types.js";
 
 import { isMaybeRemoteConfig, isMaybeStdioConfig } from "./is-mcp-config";
 import logger from "logger";
@@ -28,12 +39,17 @@ import { BASE_URL, IS_MCP_SERVER_REMOTE_ONLY, IS_VERCEL_ENV } from "lib/const";
 import { UnauthorizedError } from "@modelcontextprotocol/sdk/client/auth.js";
 import { PgOAuthClientProvider } from "./pg-oauth-provider";
 import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { createSamplingMessage } from "./mcp-sampling";
+import { requestElicitation } from "./mcp-elicitation";
 
 type ClientOptions = {
   autoDisconnectSeconds?: number;
+  // Owner of a per-user client, scopes its OAuth session to the user
+  userId?: string;
 };
 
 const CONNET_TIMEOUT = IS_VERCEL_ENV ? 30000 : 120000;
+const PING_TIMEOUT = 10000;
 const MCP_MAX_TOTAL_TIMEOUT = process.env.MCP_MAX_TOTAL_TIMEOUT
   ? parseInt(process.env.MCP_MAX_TOTAL_TIMEOUT, 10)
   : undefined;
@@ -52,9 +68,14 @@ export class MCPClient {
   private oauthProvider?: PgOAuthClientProvider;
   // Information about available tools from the server
   toolInfo: MCPToolInfo[] = [];
+  resourceInfo: MCPResourceInfo[] = [];
+  promptInfo: MCPPromptInfo[] = [];
   private disconnectDebounce = createDebounce();
   private needOauthProvider = false;
   private inProgressToolCallIds: string[] = [];
+  private toolCallContexts = new Map<string, MCPToolCallContext>();
+  // Context of the tool call whose response stream delivers a server request
+  private toolCallScope = new AsyncLocalStorage<MCPToolCallContext>();
   constructor(
     private id: string,
     private name: string,
@@ -116,6 +137,8 @@ export class MCPClient {
       status: this.status,
       error: this.error,
       toolInfo: this.toolInfo,
+      resourceInfo: this.resourceInfo,
+      promptInfo: this.promptInfo,
     };
   }
 
@@ -131,6 +154,7 @@ export class MCPClient {
       this.oauthProvider = new PgOAuthClientProvider({
         name: this.name,
         mcpServerId: this.id,
+        userId: this.options.userId,
         serverUrl: this.serverConfig.url,
         state: oauthState,
         _clientMetadata: {
@@ -189,10 +213,33 @@ export class MCPClient {
       this.isConnected = false;
       this.client = undefined;
 
-      const client = new Client({
-        name: `mind-spark-${this.name}`,
-        version: "1.0.0",
-      });
+      const client = new Client(
+        {
+          name: `mind-spark-${this.name}`,
+          version: "1.0.0",
+        },
+        {
+          capabilities: {
+            // Servers may only ask for sampling when it is enabled for them
+            ...(this.serverConfig.sampling?.enabled && { sampling: {} }),
+            elicitation: {},
+          },
+        },
+      );
+      if (this.serverConfig.sampling?.enabled) {
+        client.setRequestHandler(CreateMessageRequestSchema, (request) => {
+          this.logger.info("sampling request");
+          return createSamplingMessage(
+            this.id,
+            this.serverConfig.sampling,
+            request.params,
+            this.findToolCallContext(),
+          );
+        });
+      }
+      client.setRequestHandler(ElicitRequestSchema, (request, extra) =>
+        this.elicit(request.params, extra.signal),
+      );
 
       // Create appropriate transport based on server config type
       if (isMaybeStdioConfig(this.serverConfig)) {
@@ -345,21 +392,160 @@ export class MCPClient {
             inputSchema: tool.inputSchema,
           }) as MCPToolInfo,
       );
+      // Resources and prompts are optional, a failure keeps the tools usable
+      const capabilities = this.client.getServerCapabilities();
+      if (capabilities?.resources) {
+        this.resourceInfo = await this.client
+          .listResources()
+          .then(({ resources }) =>
+            resources.map((resource) => ({
+              uri: resource.uri,
+              name: resource.name,
+              description: resource.description,
+              mimeType: resource.mimeType,
+            })),
+          )
+          .catch((error) => {
+            this.logger.warn("Failed to list resources", error);
+            return [];
+          });
+      }
+      if (capabilities?.prompts) {
+        this.promptInfo = await this.client
+          .listPrompts()
+          .then(({ prompts }) =>
+            prompts.map((prompt) => ({
+              name: prompt.name,
+              description: prompt.description,
+              arguments: prompt.arguments,
+            })),
+          )
+          .catch((error) => {
+            this.logger.warn("Failed to list prompts", error);
+            return [];
+          });
+      }
+    }
+  }
+
+  private async connectForRequest() {
+    const client = await this.connect();
+    if (this.status === "authorizing") {
+      throw new Error("OAuth authorization required. Try Refresh MCP Client");
+    }
+    if (!client) throw new Error("MCP client is not connected");
+    return client;
+  }
+
+  /**
+   * Runs a request against the server, reconnecting once when the transport
+   * was closed in the meantime.
+   */
+  private async request<T>(execute: (client: Client) => Promise<T>) {
+    this.scheduleAutoDisconnect();
+    try {
+      return await execute(await this.connectForRequest());
+    } catch (err: any) {
+      if (!err?.message?.includes("Transport is closed")) throw err;
+      this.logger.info("Transport is closed, reconnecting...");
+      await this.disconnect();
+      return execute(await this.connectForRequest());
+    } finally {
+      this.scheduleAutoDisconnect();
+    }
+  }
+
+  /**
+   * Checks that a connected server still answers. Unlike other requests it
+   * does not postpone the auto disconnect.
+   */
+  async ping() {
+    if (this.status != "connected" || !this.client) return;
+    await withTimeout(this.client.ping(), PING_TIMEOUT);
+  }
+
+  async readResource(uri: string) {
+    this.logger.info("read resource", uri);
+    return this.request((client) => client.readResource({ uri }));
+  }
+
+  async getPrompt(name: string, args?: Record<string, string>) {
+    this.logger.info("get prompt", name);
+    return this.request((client) =>
+      client.getPrompt({ name, arguments: args }),
+    );
+  }
+
+  /**
+   * The tool call that a request of the server belongs to. Streamable HTTP
+   * servers send the request on the response stream of the call, which runs
+   * in the async context of the call. Other transports share one stream for
+   * every call, so there the call is only known while it is the single one
+   * in progress.
+   */
+  private findToolCallContext(): MCPToolCallContext | undefined {
+    const context = this.toolCallScope.getStore();
+    if (context || this.transport instanceof StreamableHTTPClientTransport) {
+      return context;
+    }
+    if (this.inProgressToolCallIds.length == 1) {
+      return this.toolCallContexts.get(this.inProgressToolCallIds[0]);
+    }
+  }
+
+  /**
+   * Asks the user of the tool call that triggered the request for the input
+   * the server requests. Requests that cannot be tied to a call, and calls
+   * without a user (e.g. from workflows), decline it.
+   */
+  private async elicit(
+    params: ElicitRequest["params"],
+    signal: AbortSignal,
+  ): Promise<ElicitResult> {
+    const context = this.findToolCallContext();
+    if (!context?.userId || !context.toolCallId) {
+      this.logger.warn("Declining elicitation without a user to ask");
+      return { action: "decline" };
     }
+    this.logger.info("elicitation request", context.toolCallId);
+    return requestElicitation(
+      {
+        serverId: this.id,
+        serverName: this.name,
+        userId: context.userId,
+        toolCallId: context.toolCallId,
+        message: params.message,
+        requestedSchema:
+          params.requestedSchema as MCPElicitation["requestedSchema"],
+      },
+      signal,
+    );
   }
 
-  async callTool(toolName: string, input?: unknown) {
+  async callTool(
+    toolName: string,
+    input?: unknown,
+    context?: MCPToolCallContext,
+  ) {
     const id = generateUUID();
     this.inProgressToolCallIds.push(id);
+    if (context) this.toolCallContexts.set(id, context);
     const execute = async () => {
-      const client = await this.connect();
+      // Streams opened while connecting belong to no call
+      const client = await this.toolCallScope.exit(() => this.connect());
       if (this.status === "authorizing") {
         throw new Error("OAuth authorization required. Try Refresh MCP Client");
       }
-      return client?.callTool({
-        name: toolName,
-        arguments: input as Record<string, unknown>,
-      });
+      return this.toolCallScope.run(context ?? {}, () =>
+        client?.callTool(
+          {
+            name: toolName,
+            arguments: input as Record<string, unknown>,
+          },
+          undefined,
+          { signal: context?.signal },
+        ),
+      );
     };
     return safe(() => this.logger.info("tool call", toolName))
       .ifOk(() => this.scheduleAutoDisconnect()) // disconnect if autoDisconnectSeconds is set
@@ -383,6 +569,7 @@ export class MCPClient {
         this.inProgressToolCallIds = this.inProgressToolCallIds.filter(
           (toolId) => toolId !== id,
         );
+        this.toolCallContexts.delete(id);
       })
       .watch((status) => {
         if (!status.isOk) {
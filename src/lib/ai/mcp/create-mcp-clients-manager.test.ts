@@ -23,6 +23,8 @@ vi.mock("lib/utils", () => ({
     isLocked: false,
   })),
   generateUUID: vi.fn(() => "mock-uuid-12345678"),
+  errorToString: vi.fn((error) => error?.message ?? String(error)),
+  toAny: vi.fn((value) => value),
 }));
 
 vi.mock("ts-safe", () => ({
@@ -386,6 +388,217 @@ describe("MCPClientsManager", () => {
       const tools = await manager.tools();
       expect(tools).toEqual({});
     });
+
+    it("should call tools as the user they were loaded for", async () => {
+      mockClient.toolInfo = mockClient.getInfo().toolInfo;
+      await manager.addClient("test-server", "test-server", mockServerConfig);
+      const toolCall = vi
+        .spyOn(manager, "toolCall")
+        .mockResolvedValue({ content: [] });
+
+      const tools = await manager.tools({ userId: "user-1" });
+      await tools["test-server:test-tool"].execute!(
+        { query: "hello" },
+        {
+          toolCallId: "call-1",
+          messages: [],
+          experimental_context: { userId: "someone-else" },
+        },
+      );
+
+      expect(toolCall).toHaveBeenCalledWith(
+        "test-server",
+        "test-tool",
+        { query: "hello" },
+        { toolCallId: "call-1", userId: "user-1", signal: undefined },
+      );
+    });
+  });
+
+  describe("resources and prompts", () => {
+    beforeEach(async () => {
+      manager = new MCPClientsManager(mockStorage);
+      await manager.init();
+    });
+
+    it("should read a resource from the client", async () => {
+      const contents = {
+        contents: [{ uri: "file:///readme.md", text: "# Readme" }],
+      };
+      mockClient.readResource = vi.fn().mockResolvedValue(contents);
+      await manager.addClient("test-server", "test-server", mockServerConfig);
+
+      const result = await manager.readResource(
+        "test-server",
+        "file:///readme.md",
+      );
+
+      expect(mockClient.readResource).toHaveBeenCalledWith("file:///readme.md");
+      expect(result).toEqual(contents);
+    });
+
+    it("should get a prompt with its arguments from the client", async () => {
+      const prompt = {
+        messages: [
+          { role: "user", content: { type: "text", text: "Review main.ts" } },
+        ],
+      };
+      mockClient.getPrompt = vi.fn().mockResolvedValue(prompt);
+      await manager.addClient("test-server", "test-server", mockServerConfig);
+
+      const result = await manager.getPrompt("test-server", "review", {
+        file: "main.ts",
+      });
+
+      expect(mockClient.getPrompt).toHaveBeenCalledWith("review", {
+        file: "main.ts",
+      });
+      expect(result).toEqual(prompt);
+    });
+
+    it("should throw for an unknown client", async () => {
+      await expect(
+        manager.readResource("non-existent", "file:///readme.md"),
+      ).rejects.toThrow("Client non-existent not found");
+    });
+  });
+
+  describe("per-user credentials", () => {
+    const sharedServer = {
+      ...mockServer,
+      ownerUserId: "owner",
+      config: {
+        ...mockServerConfig,
+        credentials: [{ type: "env" as const, name: "API_TOKEN" }],
+      },
+    };
+    let credentialStorage: { get: ReturnType<typeof vi.fn> };
+
+    beforeEach(async () => {
+      credentialStorage = { get: vi.fn().mockResolvedValue(null) };
+      vi.mocked(mockStorage.get).mockResolvedValue(sharedServer);
+      manager = new MCPClientsManager(mockStorage, 60, credentialStorage);
+      await manager.init();
+      await manager.addClient(
+        "test-server",
+        "test-server",
+        sharedServer.config,
+      );
+      vi.mocked(mockCreateMCPClient).mockClear();
+    });
+
+    it("should use the shared client for the owner", async () => {
+      const shared = (await manager.getClient("test-server"))!.client;
+
+      expect(await manager.getClientForUser("test-server", "owner")).toBe(
+        shared,
+      );
+      expect(credentialStorage.get).not.toHaveBeenCalled();
+    });
+
+    it("should reject calls without a user", async () => {
+      await expect(manager.getClientForUser("test-server")).rejects.toThrow(
+        "uses personal credentials",
+      );
+    });
+
+    it("should call tools by server name as the given user", async () => {
+      const toolCall = vi
+        .spyOn(manager, "toolCall")
+        .mockResolvedValue({ content: [] });
+
+      await manager.toolCallByServerName(
+        "test-server",
+        "tool",
+        {},
+        { userId: "member" },
+      );
+
+      expect(toolCall).toHaveBeenCalledWith(
+        "test-server",
+        "tool",
+        {},
+        { userId: "member" },
+      );
+    });
+
+    it("should require members to add their credentials", async () => {
+      await expect(
+        manager.getClientForUser("test-server", "member"),
+      ).rejects.toThrow("Add your credentials for test-server");
+    });
+
+    it("should create one client per member with their credentials", async () => {
+      credentialStorage.get.mockResolvedValue({ API_TOKEN: "member-token" });
+
+      const client = await manager.getClientForUser("test-server", "member");
+      await manager.getClientForUser("test-server", "member");
+
+      expect(credentialStorage.get).toHaveBeenCalledWith(
+        "test-server",
+        "member",
+      );
+      expect(mockCreateMCPClient).toHaveBeenCalledTimes(1);
+      expect(mockCreateMCPClient).toHaveBeenCalledWith(
+        "test-server",
+        "test-server",
+        expect.objectContaining({ env: { API_TOKEN: "member-token" } }),
+        { autoDisconnectSeconds: 60, userId: "member" },
+      );
+
+      await manager.refreshUserClient("test-server", "member");
+      expect(client.disconnect).toHaveBeenCalled();
+    });
+  });
+
+  describe("health checks", () => {
+    beforeEach(async () => {
+      manager = new MCPClientsManager(mockStorage);
+      await manager.init();
+    });
+
+    it("should record connection failures and retry with backoff", async () => {
+      mockClient.connect.mockRejectedValueOnce(new Error("ECONNREFUSED"));
+      await expect(
+        manager.addClient("test-server", "test-server", mockServerConfig),
+      ).rejects.toThrow("ECONNREFUSED");
+      expect(manager.getHealth("test-server")).toMatchObject({
+        state: "unhealthy",
+        consecutiveFailures: 1,
+        errors: [{ message: "ECONNREFUSED" }],
+      });
+
+      mockClient.getInfo.mockReturnValue({
+        status: "disconnected",
+        error: "ECONNREFUSED",
+      });
+      await manager.checkHealth();
+      // still waiting for the backoff delay
+      expect(mockClient.connect).toHaveBeenCalledTimes(1);
+
+      vi.useFakeTimers({ now: Date.now() + 60_000 });
+      try {
+        await manager.checkHealth();
+      } finally {
+        vi.useRealTimers();
+      }
+      expect(mockClient.connect).toHaveBeenCalledTimes(2);
+      expect(manager.getHealth("test-server").state).toBe("healthy");
+    });
+
+    it("should ping connected clients and disconnect unresponsive ones", async () => {
+      mockClient.ping = vi.fn().mockRejectedValue(new Error("Timeout"));
+      await manager.addClient("test-server", "test-server", mockServerConfig);
+
+      await manager.checkHealth();
+
+      expect(mockClient.ping).toHaveBeenCalled();
+      expect(mockClient.disconnect).toHaveBeenCalled();
+      expect(manager.getHealth("test-server")).toMatchObject({
+        state: "unhealthy",
+        errors: [{ message: "Timeout" }],
+      });
+    });
   });
 
   describe("cleanup", () => {
@@ -3,6 +3,7 @@ import {
   type MCPServerConfig,
   type McpServerInsert,
   type McpServerSelect,
+  type MCPToolCallContext,
   type VercelAIMcpTool,
 } from "app-types/mcp";
 import { createMCPClient, type MCPClient } from "./create-mcp-client";
@@ -19,6 +20,12 @@ import { createMCPToolId } from "./mcp-tool-id";
 import globalLogger from "logger";
 import { jsonSchema, ToolCallOptions } from "ai";
 import { createMemoryMCPConfigStorage } from "./memory-mcp-config-storage";
+import {
+  applyMCPCredentials,
+  getCredentialSlots,
+  missingMCPCredentials,
+} from "./mcp-credentials";
+import { MCPHealthStorage, MCPHealthTracker } from "./mcp-health";
 import { colorize } from "consola/utils";
 
 /**
@@ -39,6 +46,13 @@ export interface MCPConfigStorage {
   get(id: string): Promise<McpServerSelect | null>;
 }
 
+/**
+ * Storage of the credentials each user provides for a shared server.
+ */
+export interface MCPCredentialStorage {
+  get(serverId: string, userId: string): Promise<Record<string, string> | null>;
+}
+
 export class MCPClientsManager {
   protected clients = new Map<
     string,
@@ -47,6 +61,11 @@ export class MCPClientsManager {
       name: string;
     }
   >();
+  // Clients of shared servers with credential slots, keyed by `${id}:${userId}`
+  protected userClients = new Map<string, MCPClient>();
+  private health: MCPHealthTracker;
+  private healthCheckInterval?: ReturnType<typeof setInterval>;
+  private isCheckingHealth = false;
   private initializedLock = new Locker();
   private initialized = false;
   private logger = globalLogger.withDefaults({
@@ -57,7 +76,10 @@ export class MCPClientsManager {
   constructor(
     private storage: MCPConfigStorage = createMemoryMCPConfigStorage(),
     private autoDisconnectSeconds: number = 60 * 30, // 30 minutes
+    private credentialStorage?: MCPCredentialStorage,
+    healthStorage?: MCPHealthStorage,
   ) {
+    this.health = new MCPHealthTracker(healthStorage);
     process.on("SIGINT", this.cleanup.bind(this));
     process.on("SIGTERM", this.cleanup.bind(this));
   }
@@ -87,13 +109,17 @@ export class MCPClientsManager {
     }
     return safe(() => this.initializedLock.lock())
       .ifOk(async () => {
+        await this.health.load().catch((error) => {
+          this.logger.error("Failed to load MCP server health", error);
+        });
         if (this.storage) {
           await this.storage.init(this);
           const configs = await this.storage.loadAll();
           await Promise.all(
             configs.map(({ id, name, config }) =>
-              this.addClient(id, name, config).catch(() => {
-                `ignore error`;
+              // A failed server is retried by the health checks
+              this.addClient(id, name, config).catch((error) => {
+                this.logger.error(`Failed to connect client ${name}`, error);
               }),
             ),
           );
@@ -107,9 +133,12 @@ export class MCPClientsManager {
   }
 
   /**
-   * Returns all tools from all clients as a flat object
+   * Returns all tools from all clients as a flat object.
+   * Calls made through them run as `userId`, which picks their credentials.
    */
-  async tools(): Promise<Record<string, VercelAIMcpTool>> {
+  async tools(options?: {
+    userId?: string;
+  }): Promise<Record<string, VercelAIMcpTool>> {
     await this.waitInitialized();
     return Array.from(this.clients.entries()).reduce(
       (acc, [id, client]) => {
@@ -134,9 +163,13 @@ export class MCPClientsManager {
                     _originToolName: tool.name,
                     _mcpServerName: clientName,
                     _mcpServerId: id,
-                    execute: (params, options: ToolCallOptions) => {
-                      options?.abortSignal?.throwIfAborted();
-                      return this.toolCall(id, tool.name, params);
+                    execute: (params, callOptions: ToolCallOptions) => {
+                      callOptions?.abortSignal?.throwIfAborted();
+                      return this.toolCall(id, tool.name, params, {
+                        toolCallId: callOptions?.toolCallId,
+                        userId: options?.userId,
+                        signal: callOptions?.abortSignal,
+                      });
                     },
                   }),
               };
@@ -160,7 +193,21 @@ export class MCPClientsManager {
       autoDisconnectSeconds: this.autoDisconnectSeconds,
     });
     this.clients.set(id, { client, name });
-    return client.connect();
+    return client.connect().then(
+      (result) => {
+        this.recordConnection(id, client);
+        return result;
+      },
+      (error) => {
+        this.health.recordFailure(id, error);
+        throw error;
+      },
+    );
+  }
+
+  private recordConnection(id: string, client: MCPClient) {
+    if (client.status == "authorizing") this.health.recordAuthorizing(id);
+    else this.health.recordHealthy(id);
   }
 
   /**
@@ -193,11 +240,13 @@ export class MCPClientsManager {
       }
     }
     this.disconnectClient(id);
+    this.disconnectUserClients(id);
   }
 
   async disconnectClient(id: string) {
     const client = this.clients.get(id);
     this.clients.delete(id);
+    this.health.remove(id);
     if (client) {
       void client.client.disconnect();
     }
@@ -213,14 +262,144 @@ export class MCPClientsManager {
       throw new Error(`Client ${id} not found`);
     }
     this.logger.info(`Refreshing client ${server.name}`);
+    this.disconnectUserClients(id);
     await this.addClient(id, server.name, server.config);
     return this.clients.get(id)!;
   }
 
   async cleanup() {
-    const clients = Array.from(this.clients.values());
+    this.stopHealthChecks();
+    const clients = [
+      ...Array.from(this.clients.values(), ({ client }) => client),
+      ...this.userClients.values(),
+    ];
     this.clients.clear();
-    await Promise.allSettled(clients.map(({ client }) => client.disconnect()));
+    this.userClients.clear();
+    await Promise.allSettled(clients.map((client) => client.disconnect()));
+  }
+
+  /**
+   * Checks the health of every client periodically, see `checkHealth`
+   */
+  startHealthChecks(intervalSeconds: number) {
+    this.stopHealthChecks();
+    if (intervalSeconds <= 0) return;
+    this.healthCheckInterval = setInterval(
+      () => void this.checkHealth(),
+      intervalSeconds * 1000,
+    );
+    this.healthCheckInterval.unref?.();
+  }
+
+  stopHealthChecks() {
+    clearInterval(this.healthCheckInterval);
+    this.healthCheckInterval = undefined;
+  }
+
+  /**
+   * Pings connected servers and reconnects failed ones, backing off
+   * exponentially while a server keeps failing. Idle clients that were
+   * disconnected automatically count as healthy.
+   */
+  async checkHealth() {
+    if (this.isCheckingHealth) return;
+    this.isCheckingHealth = true;
+    try {
+      await Promise.allSettled(
+        Array.from(this.clients.entries()).map(
+          async ([id, { client, name }]) => {
+            const { status, error } = client.getInfo();
+            if (status == "loading") return;
+            if (status == "authorizing")
+              return this.health.recordAuthorizing(id);
+            if (status == "connected") {
+              try {
+                await client.ping();
+                this.health.recordHealthy(id);
+              } catch (pingError) {
+                this.logger.warn(`Client ${name} does not answer`, pingError);
+                this.health.recordFailure(id, pingError);
+                await client.disconnect();
+              }
+              return;
+            }
+            if (!error && !this.health.isFailing(id)) {
+              return this.health.recordHealthy(id);
+            }
+            if (!this.health.shouldReconnect(id)) return;
+            this.logger.info(`Reconnecting client ${name}`);
+            await client.connect().then(
+              () => this.recordConnection(id, client),
+              (connectError) => this.health.recordFailure(id, connectError),
+            );
+          },
+        ),
+      );
+    } finally {
+      this.isCheckingHealth = false;
+    }
+  }
+
+  getHealth(id: string) {
+    return this.health.get(id);
+  }
+
+  private disconnectUserClients(id: string) {
+    for (const [key, client] of this.userClients) {
+      if (!key.startsWith(`${id}:`)) continue;
+      this.userClients.delete(key);
+      void client.disconnect();
+    }
+  }
+
+  /**
+   * Returns the client the user's tool calls go through. Shared servers with
+   * credential slots get a client per member, connected with the member's
+   * own credentials; the owner and servers without slots use the shared one.
+   * Calls without a user cannot use servers with slots, since the shared
+   * client holds the owner's credentials.
+   */
+  async getClientForUser(id: string, userId?: string): Promise<MCPClient> {
+    const shared = await this.getClient(id);
+    if (!shared) throw new Error(`Client ${id} not found`);
+    const server = await this.storage.get(id);
+    if (!server || !getCredentialSlots(server.config).length) {
+      return shared.client;
+    }
+    if (!userId) {
+      throw new Error(
+        `${server.name} uses personal credentials; sign in to use its tools`,
+      );
+    }
+    if (server.ownerUserId == userId) return shared.client;
+    const key = `${id}:${userId}`;
+    const existing = this.userClients.get(key);
+    if (existing) return existing;
+
+    const values = (await this.credentialStorage?.get(id, userId)) ?? {};
+    if (missingMCPCredentials(server.config, values).length) {
+      throw new Error(
+        `Add your credentials for ${server.name} before using its tools`,
+      );
+    }
+    const client = createMCPClient(
+      id,
+      server.name,
+      applyMCPCredentials(server.config, values),
+      { autoDisconnectSeconds: this.autoDisconnectSeconds, userId },
+    );
+    this.userClients.set(key, client);
+    return client;
+  }
+
+  /**
+   * Drops the user's client so the next call connects with updated credentials
+   */
+  async refreshUserClient(id: string, userId: string) {
+    const key = `${id}:${userId}`;
+    const client = this.userClients.get(key);
+    this.userClients.delete(key);
+    await client?.disconnect();
   }
 
   async getClients() {
@@ -243,6 +422,7 @@ export class MCPClientsManager {
     serverName: string,
     toolName: string,
     input: unknown,
+    context?: MCPToolCallContext,
   ) {
     const clients = await this.getClients();
     const client = clients.find((c) => c.client.getInfo().name === serverName);
@@ -251,20 +431,29 @@ export class MCPClientsManager {
         const servers = await this.storage.loadAll();
         const server = servers.find((s) => s.name === serverName);
         if (server) {
-          return this.toolCall(server.id, toolName, input);
+          return this.toolCall(server.id, toolName, input, context);
         }
       }
       throw new Error(`Client ${serverName} not found`);
     }
-    return this.toolCall(client.id, toolName, input);
+    return this.toolCall(client.id, toolName, input, context);
   }
-  async toolCall(id: string, toolName: string, input: unknown) {
-    return safe(() => this.getClient(id))
-      .map((client) => {
-        if (!client) throw new Error(`Client ${id} not found`);
-        return client.client;
-      })
-      .map((client) => client.callTool(toolName, input))
+  async toolCall(
+    id: string,
+    toolName: string,
+    input: unknown,
+    context?: MCPToolCallContext,
+  ) {
+    const startedAt = Date.now();
+    return safe(() => this.getClientForUser(id, context?.userId))
+      .map((client) => client.callTool(toolName, input, context))
+      .watch((result) =>
+        this.health.recordToolCall(
+          id,
+          Date.now() - startedAt,
+          !result.isOk || !!result.value?.isError,
+        ),
+      )
       .map((res) => {
         if (res?.content && Array.isArray(res.content)) {
           const parsedResult = {
@@ -296,11 +485,31 @@ export class MCPClientsManager {
       })
       .unwrap();
   }
+  async readResource(id: string, uri: string, userId?: string) {
+    const client = await this.getClientForUser(id, userId);
+    return client.readResource(uri);
+  }
+  async getPrompt(
+    id: string,
+    name: string,
+    args?: Record<string, string>,
+    userId?: string,
+  ) {
+    const client = await this.getClientForUser(id, userId);
+    return client.getPrompt(name, args);
+  }
 }
 
 export function createMCPClientsManager(
   storage?: MCPConfigStorage,
   autoDisconnectSeconds: number = 60 * 30, // 30 minutes
+  credentialStorage?: MCPCredentialStorage,
+  healthStorage?: MCPHealthStorage,
 ): MCPClientsManager {
-  return new MCPClientsManager(storage, autoDisconnectSeconds);
+  return new MCPClientsManager(
+    storage,
+    autoDisconnectSeconds,
+    credentialStorage,
+    healthStorage,
+  );
 }
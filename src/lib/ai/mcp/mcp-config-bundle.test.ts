@@ -0,0 +1,228 @@
+import { describe, expect, it } from "vitest";
+import type { MCPServerConfig } from "app-types/mcp";
+import {
+  createMCPConfigBundle,
+  parseMCPConfigBundle,
+  previewMCPConfigImport,
+  resolveMCPConfigParameters,
+} from "./mcp-config-bundle";
+
+const githubConfig: MCPServerConfig = {
+  url: "https://api.github.com/mcp",
+  headers: { Authorization: "Bearer ghp_secret" },
+};
+
+const slackConfig: MCPServerConfig = {
+  command: "npx",
+  args: ["slack-mcp"],
+  env: { SLACK_TOKEN: "xoxb-secret" },
+};
+
+describe("createMCPConfigBundle", () => {
+  it("should replace header and env values with parameters", () => {
+    const bundle = createMCPConfigBundle([
+      {
+        name: "github",
+        config: githubConfig,
+        customization: { prompt: "Prefer draft PRs", tools: {} },
+      },
+      { name: "slack", config: slackConfig },
+    ]);
+
+    expect(JSON.stringify(bundle)).not.toContain("secret");
+    expect(bundle.servers[0].config).toEqual({
+      url: "https://api.github.com/mcp",
+      headers: { Authorization: "${GITHUB_AUTHORIZATION}" },
+    });
+    expect(bundle.servers[1].config).toMatchObject({
+      env: { SLACK_TOKEN: "${SLACK_SLACK_TOKEN}" },
+    });
+    expect(bundle.parameters).toEqual([
+      {
+        name: "GITHUB_AUTHORIZATION",
+        server: "github",
+        type: "header",
+        key: "Authorization",
+      },
+      {
+        name: "SLACK_SLACK_TOKEN",
+        server: "slack",
+        type: "env",
+        key: "SLACK_TOKEN",
+      },
+    ]);
+  });
+  it("should replace URL query values and secret argument values", () => {
+    const bundle = createMCPConfigBundle([
+      {
+        name: "linear",
+        config: { url: "https://mcp.linear.app/?key=lin%2Fsecret" },
+      },
+      {
+        name: "jira",
+        config: {
+          command: "npx",
+          args: [
+            "jira-mcp",
+            "--api-token",
+            "jira-secret",
+            "--password=pw-secret",
+          ],
+        },
+      },
+    ]);
+
+    expect(JSON.stringify(bundle)).not.toContain("secret");
+    expect(bundle.servers[0].config).toEqual({
+      url: "https://mcp.linear.app/?key=${LINEAR_KEY}",
+    });
+    expect(bundle.servers[1].config).toMatchObject({
+      args: [
+        "jira-mcp",
+        "--api-token",
+        "${JIRA_API_TOKEN}",
+        "--password=${JIRA_PASSWORD}",
+      ],
+    });
+    expect(bundle.parameters.map(({ type, key }) => [type, key])).toEqual([
+      ["query", "key"],
+      ["arg", "--api-token"],
+      ["arg", "--password"],
+    ]);
+  });
+
+  it("should give colliding parameters unique names", () => {
+    const bundle = createMCPConfigBundle([
+      { name: "a-b", config: { url: "https://a.dev", headers: { c: "1" } } },
+      { name: "a", config: { url: "https://a.dev", headers: { B_C: "2" } } },
+    ]);
+
+    expect(bundle.parameters.map((parameter) => parameter.name)).toEqual([
+      "A_B_C",
+      "A_B_C_2",
+    ]);
+    expect(
+      bundle.servers.map((server) =>
+        resolveMCPConfigParameters(server.config as MCPServerConfig, {
+          A_B_C: "1",
+          A_B_C_2: "2",
+        }),
+      ),
+    ).toEqual([
+      { url: "https://a.dev", headers: { c: "1" } },
+      { url: "https://a.dev", headers: { B_C: "2" } },
+    ]);
+  });
+});
+
+describe("parseMCPConfigBundle", () => {
+  it("should reject invalid configs and duplicate names", () => {
+    const bundle = createMCPConfigBundle([
+      { name: "github", config: githubConfig },
+    ]);
+
+    expect(() =>
+      parseMCPConfigBundle({
+        ...bundle,
+        servers: [{ name: "broken", config: { foo: "bar" } }],
+      }),
+    ).toThrow("Invalid MCP server configuration: broken");
+    expect(() =>
+      parseMCPConfigBundle({
+        ...bundle,
+        servers: [...bundle.servers, ...bundle.servers],
+      }),
+    ).toThrow("Duplicate server name in bundle: github");
+    expect(parseMCPConfigBundle(JSON.parse(JSON.stringify(bundle)))).toEqual(
+      bundle,
+    );
+  });
+});
+
+describe("resolveMCPConfigParameters", () => {
+  const [{ config }] = createMCPConfigBundle([
+    { name: "github", config: githubConfig },
+  ]).servers;
+
+  it("should fill placeholders with the given values", () => {
+    expect(
+      resolveMCPConfigParameters(config as MCPServerConfig, {
+        GITHUB_AUTHORIZATION: "Bearer ghp_prod",
+      }),
+    ).toEqual({
+      ...githubConfig,
+      headers: { Authorization: "Bearer ghp_prod" },
+    });
+  });
+
+  it("should keep the value of the overwritten server", () => {
+    expect(
+      resolveMCPConfigParameters(config as MCPServerConfig, {}, githubConfig),
+    ).toEqual(githubConfig);
+    const [{ config: stdioConfig }] = createMCPConfigBundle([
+      { name: "jira", config: { command: "npx", args: ["--token", "t-1"] } },
+    ]).servers;
+    expect(
+      resolveMCPConfigParameters(
+        stdioConfig as MCPServerConfig,
+        {},
+        {
+          command: "npx",
+          args: ["--token", "t-2"],
+        },
+      ),
+    ).toEqual({ command: "npx", args: ["--token", "t-2"] });
+    expect(() =>
+      resolveMCPConfigParameters(config as MCPServerConfig, {}),
+    ).toThrow("Missing value for GITHUB_AUTHORIZATION");
+  });
+});
+
+describe("previewMCPConfigImport", () => {
+  it("should compare the bundle with existing servers without their secrets", () => {
+    const bundle = createMCPConfigBundle([
+      { name: "github", config: githubConfig },
+      { name: "slack", config: { ...slackConfig, args: ["slack-mcp@2"] } },
+      { name: "notion", config: { url: "https://notion.so/mcp" } },
+      { name: "linear", config: { url: "https://linear.app/mcp" } },
+    ]);
+
+    const preview = previewMCPConfigImport(
+      bundle,
+      [
+        {
+          name: "github",
+          config: {
+            ...githubConfig,
+            headers: { Authorization: "Bearer other" },
+          },
+          canManage: true,
+        },
+        { name: "slack", config: slackConfig, canManage: false },
+      ],
+      ["github", "slack", "linear"],
+    );
+
+    expect(preview).toEqual([
+      {
+        name: "github",
+        status: "unchanged",
+        existingConfig: bundle.servers[0].config,
+        changedKeys: [],
+        canOverwrite: true,
+      },
+      {
+        name: "slack",
+        status: "changed",
+        existingConfig: {
+          ...slackConfig,
+          env: { SLACK_TOKEN: "${SLACK_SLACK_TOKEN}" },
+        },
+        changedKeys: ["args"],
+        canOverwrite: false,
+      },
+      { name: "notion", status: "new", canOverwrite: false },
+      { name: "linear", status: "conflict", canOverwrite: false },
+    ]);
+  });
+});
@@ -0,0 +1,295 @@
+import {
+  MCPConfigBundleZodSchema,
+  type MCPConfigBundle,
+  type MCPConfigBundleParameter,
+  type MCPConfigBundleServer,
+  type MCPConfigImportPreviewItem,
+  type MCPServerConfig,
+} from "app-types/mcp";
+import equal from "lib/equal";
+import {
+  isMaybeMCPServerConfig,
+  isMaybeRemoteConfig,
+  isMaybeStdioConfig,
+} from "./is-mcp-config";
+import { detectConfigChanges } from "./mcp-config-diff";
+
+const PLACEHOLDER_REGEX = /^\$\{([A-Z0-9_]+)\}$/;
+// Flags of stdio args whose value is likely a secret, e.g. `--api-key`
+const SECRET_FLAG_REGEX = /^--?[\w-]*(token|key|secret|password|auth)/i;
+
+type SecretType = MCPConfigBundleParameter["type"];
+
+export function toParameterName(server: string, key: string) {
+  return `${server}_${key}`
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+// Query values are mapped decoded, and encoded again unless they became a
+// placeholder
+function mapQuery(
+  url: string,
+  map: (key: string, value: string) => string,
+): string {
+  const queryStart = url.indexOf("?");
+  if (queryStart < 0) return url;
+  const hashStart = url.indexOf("#", queryStart);
+  const query = url.slice(
+    queryStart + 1,
+    hashStart < 0 ? undefined : hashStart,
+  );
+  if (!query) return url;
+  const mapped = query.split("&").map((pair) => {
+    const separator = pair.indexOf("=");
+    if (separator < 0) return pair;
+    const key = pair.slice(0, separator);
+    const value = map(
+      decodeURIComponent(key.replace(/\+/g, " ")),
+      decodeURIComponent(pair.slice(separator + 1).replace(/\+/g, " ")),
+    );
+    return `${key}=${PLACEHOLDER_REGEX.test(value) ? value : encodeURIComponent(value)}`;
+  });
+  return (
+    url.slice(0, queryStart + 1) +
+    mapped.join("&") +
+    (hashStart < 0 ? "" : url.slice(hashStart))
+  );
+}
+
+// Args are mapped when they follow a secret flag (`--token value`) or carry
+// its value (`--token=value`); the flag is the key
+function mapArgs(
+  args: string[],
+  map: (key: string, value: string) => string,
+): string[] {
+  return args.map((arg, index) => {
+    const previous = args[index - 1];
+    if (
+      previous !== undefined &&
+      !previous.includes("=") &&
+      SECRET_FLAG_REGEX.test(previous)
+    ) {
+      return map(previous, arg);
+    }
+    const separator = arg.indexOf("=");
+    if (separator > 0 && SECRET_FLAG_REGEX.test(arg.slice(0, separator))) {
+      const flag = arg.slice(0, separator);
+      return `${flag}=${map(flag, arg.slice(separator + 1))}`;
+    }
+    return arg;
+  });
+}
+
+/**
+ * Maps every value of a config that may hold a secret: headers and env
+ * values, URL query values, and stdio args of secret-looking flags.
+ */
+function mapSecrets(
+  config: MCPServerConfig,
+  map: (type: SecretType, key: string, value: string) => string,
+): MCPServerConfig {
+  const mapValues = (type: SecretType, values: Record<string, string>) =>
+    Object.fromEntries(
+      Object.entries(values).map(([key, value]) => [
+        key,
+        map(type, key, value),
+      ]),
+    );
+  if (isMaybeRemoteConfig(config)) {
+    return {
+      ...config,
+      url: mapQuery(config.url, (key, value) => map("query", key, value)),
+      ...(config.headers && {
+        headers: mapValues("header", config.headers),
+      }),
+    };
+  }
+  if (isMaybeStdioConfig(config)) {
+    return {
+      ...config,
+      ...(config.args && {
+        args: mapArgs(config.args, (key, value) => map("arg", key, value)),
+      }),
+      ...(config.env && { env: mapValues("env", config.env) }),
+    };
+  }
+  return config;
+}
+
+function getSecrets(config?: MCPServerConfig): Record<string, string> {
+  const secrets: Record<string, string> = {};
+  if (config) {
+    mapSecrets(config, (type, key, value) => {
+      secrets[`${type}:${key}`] = value;
+      return value;
+    });
+  }
+  return secrets;
+}
+
+/**
+ * Replaces the secret values of a config (see `mapSecrets`) with `${NAME}`
+ * placeholders, so it can leave the instance without its secrets. Names
+ * already in `takenNames` get a numeric suffix, and new names are added to
+ * it, so the parameters of a bundle stay unique.
+ */
+export function parameterizeMCPConfig(
+  server: string,
+  config: MCPServerConfig,
+  takenNames = new Set<string>(),
+): { config: MCPServerConfig; parameters: MCPConfigBundleParameter[] } {
+  const parameters: MCPConfigBundleParameter[] = [];
+  const parameterized = mapSecrets(config, (type, key, value) => {
+    if (PLACEHOLDER_REGEX.test(value)) return value;
+    const base = toParameterName(server, key);
+    let name = base;
+    for (let suffix = 2; takenNames.has(name); suffix++) {
+      name = `${base}_${suffix}`;
+    }
+    takenNames.add(name);
+    parameters.push({ name, server, type, key });
+    return `\${${name}}`;
+  });
+  return { config: parameterized, parameters };
+}
+
+// Placeholder names depend on the other servers of a bundle, so configs are
+// compared without them
+function maskPlaceholders(config: MCPServerConfig): MCPServerConfig {
+  return mapSecrets(config, (_, __, value) =>
+    PLACEHOLDER_REGEX.test(value) ? "${}" : value,
+  );
+}
+
+/**
+ * Fills the placeholders of an imported config with the given values. A
+ * placeholder without a value keeps the value of the server it overwrites.
+ */
+export function resolveMCPConfigParameters(
+  config: MCPServerConfig,
+  values: Record<string, string>,
+  existing?: MCPServerConfig,
+): MCPServerConfig {
+  const existingValues = getSecrets(existing);
+  return mapSecrets(config, (type, key, value) => {
+    const name = value.match(PLACEHOLDER_REGEX)?.[1];
+    if (!name) return value;
+    const resolved = values[name] || existingValues[`${type}:${key}`];
+    if (!resolved) throw new Error(`Missing value for ${name}`);
+    return resolved;
+  });
+}
+
+export function createMCPConfigBundle(
+  servers: (Omit<MCPConfigBundleServer, "config"> & {
+    config: MCPServerConfig;
+  })[],
+): MCPConfigBundle {
+  const parameters: MCPConfigBundleParameter[] = [];
+  const takenNames = new Set<string>();
+  return {
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    servers: servers.map((server) => {
+      const parameterized = parameterizeMCPConfig(
+        server.name,
+        server.config,
+        takenNames,
+      );
+      parameters.push(...parameterized.parameters);
+      return { ...server, config: parameterized.config };
+    }),
+    parameters,
+  };
+}
+
+/**
+ * Validates an uploaded bundle, including every server config in it.
+ */
+export function parseMCPConfigBundle(input: unknown): MCPConfigBundle {
+  const bundle = MCPConfigBundleZodSchema.parse(input);
+  const names = new Set<string>();
+  for (const server of bundle.servers) {
+    if (!isMaybeMCPServerConfig(server.config)) {
+      throw new Error(`Invalid MCP server configuration: ${server.name}`);
+    }
+    if (names.has(server.name)) {
+      throw new Error(`Duplicate server name in bundle: ${server.name}`);
+    }
+    names.add(server.name);
+  }
+  return bundle;
+}
+
+/**
+ * Compares the servers of a bundle with the servers that already exist.
+ * Existing configs are parameterized the same way as the bundle, so only
+ * changes that are not secrets show up.
+ */
+export function previewMCPConfigImport(
+  bundle: MCPConfigBundle,
+  visibleServers: {
+    name: string;
+    config: MCPServerConfig;
+    canManage: boolean;
+  }[],
+  takenNames: string[],
+): MCPConfigImportPreviewItem[] {
+  const bundleNames = bundle.servers.map((server) => server.name);
+  const visible = new Map(
+    visibleServers
+      .filter((server) => bundleNames.includes(server.name))
+      .map((server) => [server.name, server] as const),
+  );
+  const existingConfigs = Object.fromEntries(
+    Array.from(visible.values(), (server) => [
+      server.name,
+      parameterizeMCPConfig(server.name, server.config).config,
+    ]),
+  );
+  const changes = detectConfigChanges(
+    Object.fromEntries(
+      Object.entries(existingConfigs).map(([name, config]) => [
+        name,
+        maskPlaceholders(config),
+      ]),
+    ),
+    Object.fromEntries(
+      bundle.servers.map((server) => [
+        server.name,
+        maskPlaceholders(server.config as MCPServerConfig),
+      ]),
+    ),
+  );
+
+  return bundle.servers.map((server): MCPConfigImportPreviewItem => {
+    const existing = visible.get(server.name);
+    if (!existing) {
+      return {
+        name: server.name,
+        status: takenNames.includes(server.name) ? "conflict" : "new",
+        canOverwrite: false,
+      };
+    }
+    const existingConfig = existingConfigs[server.name];
+    const before = maskPlaceholders(existingConfig) as Record<string, unknown>;
+    const after = maskPlaceholders(server.config as MCPServerConfig) as Record<
+      string,
+      unknown
+    >;
+    const changedKeys = Array.from(
+      new Set([...Object.keys(before), ...Object.keys(after)]),
+    ).filter((key) => !equal(before[key], after[key]));
+    return {
+      name: server.name,
+      status: changes.some((change) => change.key == server.name)
+        ? "changed"
+        : "unchanged",
+      existingConfig,
+      changedKeys,
+      canOverwrite: existing.canManage,
+    };
+  });
+}
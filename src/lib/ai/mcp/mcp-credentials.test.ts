@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import type { MCPServerConfig } from "app-types/mcp";
+import { applyMCPCredentials, missingMCPCredentials } from "./mcp-credentials";
+
+const remoteConfig: MCPServerConfig = {
+  url: "https://example.com/mcp",
+  headers: { "X-Team": "core" },
+  credentials: [{ type: "header", name: "Authorization" }, { type: "oauth" }],
+};
+
+const stdioConfig: MCPServerConfig = {
+  command: "npx",
+  env: { LOG_LEVEL: "info" },
+  credentials: [
+    { type: "env", name: "API_TOKEN" },
+    { type: "env", name: "WORKSPACE" },
+  ],
+};
+
+describe("missingMCPCredentials", () => {
+  it("should list header and env slots without a value", () => {
+    expect(missingMCPCredentials(remoteConfig, null)).toEqual([
+      "Authorization",
+    ]);
+    expect(missingMCPCredentials(stdioConfig, { API_TOKEN: "secret" })).toEqual(
+      ["WORKSPACE"],
+    );
+  });
+
+  it("should treat servers without slots as complete", () => {
+    expect(missingMCPCredentials({ url: "https://example.com" }, null)).toEqual(
+      [],
+    );
+  });
+});
+
+describe("applyMCPCredentials", () => {
+  it("should merge header slots into the request headers", () => {
+    expect(
+      applyMCPCredentials(remoteConfig, { Authorization: "Bearer user" }),
+    ).toMatchObject({
+      headers: { "X-Team": "core", Authorization: "Bearer user" },
+    });
+  });
+
+  it("should merge env slots into the environment and ignore unknown values", () => {
+    expect(
+      applyMCPCredentials(stdioConfig, {
+        API_TOKEN: "secret",
+        WORKSPACE: "acme",
+        PATH: "/tmp",
+      }),
+    ).toMatchObject({
+      env: { LOG_LEVEL: "info", API_TOKEN: "secret", WORKSPACE: "acme" },
+    });
+    expect(
+      applyMCPCredentials(stdioConfig, { PATH: "/tmp" }),
+    ).not.toHaveProperty("env.PATH");
+  });
+});
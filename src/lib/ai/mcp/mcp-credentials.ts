@@ -0,0 +1,47 @@
+import type { MCPCredentialSlot, MCPServerConfig } from "app-types/mcp";
+import { isMaybeRemoteConfig, isMaybeStdioConfig } from "./is-mcp-config";
+
+export function getCredentialSlots(
+  config: MCPServerConfig,
+): MCPCredentialSlot[] {
+  return config.credentials ?? [];
+}
+
+/**
+ * Names of the header and env slots the user has not filled in yet.
+ * OAuth slots are authorized through the OAuth flow instead.
+ */
+export function missingMCPCredentials(
+  config: MCPServerConfig,
+  values: Record<string, string> | null | undefined,
+): string[] {
+  return getCredentialSlots(config).flatMap((slot) =>
+    slot.type != "oauth" && !values?.[slot.name] ? [slot.name] : [],
+  );
+}
+
+/**
+ * Returns the config of the server with the user's credentials applied:
+ * header slots become request headers and env slots environment variables.
+ */
+export function applyMCPCredentials(
+  config: MCPServerConfig,
+  values: Record<string, string>,
+): MCPServerConfig {
+  const slots = getCredentialSlots(config);
+  const pick = (type: "header" | "env") =>
+    Object.fromEntries(
+      slots.flatMap((slot) =>
+        slot.type != "oauth" && slot.type == type && values[slot.name]
+          ? [[slot.name, values[slot.name]]]
+          : [],
+      ),
+    );
+  if (isMaybeRemoteConfig(config)) {
+    return { ...config, headers: { ...config.headers, ...pick("header") } };
+  }
+  if (isMaybeStdioConfig(config)) {
+    return { ...config, env: { ...config.env, ...pick("env") } };
+  }
+  return config;
+}
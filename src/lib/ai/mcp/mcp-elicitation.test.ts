@@ -0,0 +1,129 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("server-only", () => ({}));
+vi.mock("lib/db/pg/db.pg", async () => {
+  const { createTestDb } = await import("lib/db/pg/test-db.pg");
+  return { pgDb: await createTestDb() };
+});
+
+const { pgDb: db } = await import("lib/db/pg/db.pg");
+const { UserSchema } = await import("lib/db/pg/schema.pg");
+const { requestElicitation, respondElicitation, selectPendingElicitations } =
+  await import("./mcp-elicitation");
+
+const [user, otherUser] = await db
+  .insert(UserSchema)
+  .values(
+    ["Ann", "Bob"].map((name) => ({
+      name,
+      email: `${crypto.randomUUID()}@example.com`,
+    })),
+  )
+  .returning();
+
+const request = {
+  serverId: "server-1",
+  serverName: "github",
+  userId: user.id,
+  toolCallId: "call-1",
+  message: "Which repository?",
+  requestedSchema: {
+    type: "object" as const,
+    properties: { repo: { type: "string" as const } },
+    required: ["repo"],
+  },
+};
+
+async function waitForPending(userId = user.id) {
+  let pending: Awaited<ReturnType<typeof selectPendingElicitations>> = [];
+  await vi.waitFor(async () => {
+    pending = await selectPendingElicitations(userId);
+    expect(pending).toHaveLength(1);
+  });
+  return pending[0];
+}
+
+describe("mcp-elicitation", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("resolves with the content the user submitted", async () => {
+    const result = requestElicitation(request);
+    const pending = await waitForPending();
+    expect(pending).toMatchObject({
+      message: "Which repository?",
+      toolCallId: "call-1",
+    });
+    expect(await selectPendingElicitations(user.id, "call-2")).toEqual([]);
+
+    expect(
+      await respondElicitation(pending.id, user.id, {
+        action: "accept",
+        content: { repo: "mind-spark" },
+      }),
+    ).toBe(true);
+    await expect(result).resolves.toEqual({
+      action: "accept",
+      content: { repo: "mind-spark" },
+    });
+    expect(await selectPendingElicitations(user.id)).toEqual([]);
+  });
+
+  it("only lets the asked user respond", async () => {
+    const result = requestElicitation(request);
+    const pending = await waitForPending();
+
+    expect(await selectPendingElicitations(otherUser.id)).toEqual([]);
+    expect(
+      await respondElicitation(pending.id, otherUser.id, { action: "decline" }),
+    ).toBe(false);
+    await respondElicitation(pending.id, user.id, { action: "decline" });
+    await expect(result).resolves.toEqual({ action: "decline" });
+  });
+
+  it("rejects an accepted response that does not match the schema", async () => {
+    const result = requestElicitation({
+      ...request,
+      requestedSchema: {
+        ...request.requestedSchema,
+        properties: {
+          ...request.requestedSchema.properties,
+          visibility: { type: "string", enum: ["public", "private"] },
+          stars: { type: "integer" },
+        },
+      },
+    });
+    const pending = await waitForPending();
+
+    for (const content of [
+      {} as Record<string, string | number>,
+      { repo: 1 },
+      { repo: "mind-spark", visibility: "internal" },
+      { repo: "mind-spark", stars: 1.5 },
+    ]) {
+      await expect(
+        respondElicitation(pending.id, user.id, { action: "accept", content }),
+      ).rejects.toThrow("Invalid response");
+    }
+    await respondElicitation(pending.id, user.id, { action: "cancel" });
+    await expect(result).resolves.toEqual({ action: "cancel" });
+  });
+
+  it("cancels when the server aborts or the request times out", async () => {
+    const controller = new AbortController();
+    const aborted = requestElicitation(request, controller.signal);
+    await waitForPending();
+    controller.abort();
+    await expect(aborted).resolves.toEqual({ action: "cancel" });
+
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const timedOut = requestElicitation(request);
+    const pending = await waitForPending();
+    vi.setSystemTime(Date.now() + 1000 * 60 * 10);
+    await expect(timedOut).resolves.toEqual({ action: "cancel" });
+    expect(
+      await respondElicitation(pending.id, user.id, { action: "decline" }),
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,101 @@
+import type { ElicitResult } from "@modelcontextprotocol/sdk/types.js";
+import { MCPElicitation, MCPElicitationResponse } from "app-types/mcp";
+import { JSONSchema7 } from "json-schema";
+import { mcpElicitationRepository } from "lib/db/repository";
+import { jsonSchemaToZod } from "lib/json-schema-to-zod";
+import { generateUUID } from "lib/utils";
+import logger from "logger";
+import { z } from "zod";
+
+const ELICITATION_TIMEOUT_MS = 1000 * 60 * 10;
+const ELICITATION_POLL_INTERVAL_MS = 1000;
+
+/**
+ * Waits until the user answers an elicitation request of an MCP server.
+ * Cancels the request when it times out or the server aborts it.
+ * The request is stored and polled for its answer, since the answer may
+ * reach any instance while the MCP request waits in this one.
+ */
+export async function requestElicitation(
+  request: Omit<MCPElicitation, "id" | "createdAt"> & { userId: string },
+  signal?: AbortSignal,
+): Promise<ElicitResult> {
+  if (signal?.aborted) return { action: "cancel" };
+  const id = generateUUID();
+  const createdAt = new Date();
+  const expiresAt = new Date(createdAt.getTime() + ELICITATION_TIMEOUT_MS);
+  await mcpElicitationRepository.insert({
+    ...request,
+    id,
+    createdAt,
+    expiresAt,
+  });
+
+  try {
+    while (!signal?.aborted && Date.now() < expiresAt.getTime()) {
+      const response = await mcpElicitationRepository.selectResponse(id);
+      if (response) {
+        return response.action == "accept"
+          ? { action: "accept", content: response.content ?? {} }
+          : { action: response.action };
+      }
+      await new Promise((resolve) =>
+        setTimeout(resolve, ELICITATION_POLL_INTERVAL_MS),
+      );
+    }
+    return { action: "cancel" };
+  } finally {
+    await mcpElicitationRepository
+      .delete(id)
+      .catch((error) =>
+        logger.error("Failed to delete MCP elicitation", error),
+      );
+  }
+}
+
+export function selectPendingElicitations(
+  userId: string,
+  toolCallId?: string,
+): Promise<MCPElicitation[]> {
+  return mcpElicitationRepository.selectPendingByUserId(userId, toolCallId);
+}
+
+/**
+ * Answers a pending elicitation of the user. Returns false when there is no
+ * such elicitation, e.g. because it already timed out.
+ */
+export async function respondElicitation(
+  id: string,
+  userId: string,
+  response: MCPElicitationResponse,
+): Promise<boolean> {
+  const elicitation = await mcpElicitationRepository.selectPendingById(
+    id,
+    userId,
+  );
+  if (!elicitation) return false;
+  if (response.action != "accept") {
+    return mcpElicitationRepository.respond(id, userId, response);
+  }
+  const content = toContentSchema(elicitation.requestedSchema).safeParse(
+    response.content ?? {},
+  );
+  if (!content.success) {
+    throw new Error(`Invalid response: ${z.prettifyError(content.error)}`);
+  }
+  return mcpElicitationRepository.respond(id, userId, {
+    action: "accept",
+    content: content.data,
+  });
+}
+
+// Patterns come from the server, so they are not run here
+function toContentSchema(requestedSchema: MCPElicitation["requestedSchema"]) {
+  const properties = Object.fromEntries(
+    Object.entries(requestedSchema.properties).map(([key, field]) => {
+      const { pattern: _pattern, ...rest } = field as JSONSchema7;
+      return [key, rest];
+    }),
+  );
+  return jsonSchemaToZod({ ...requestedSchema, properties });
+}
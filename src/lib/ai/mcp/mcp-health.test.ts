@@ -0,0 +1,133 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { getRetryDelay, MCPHealthTracker } from "./mcp-health";
+
+describe("getRetryDelay", () => {
+  it("should double the delay with every failure up to 30 minutes", () => {
+    expect(getRetryDelay(1)).toBe(30_000);
+    expect(getRetryDelay(2)).toBe(60_000);
+    expect(getRetryDelay(3)).toBe(120_000);
+    expect(getRetryDelay(20)).toBe(30 * 60_000);
+  });
+});
+
+describe("MCPHealthTracker", () => {
+  it("should report unknown servers without records", () => {
+    const tracker = new MCPHealthTracker();
+    expect(tracker.get("server")).toMatchObject({
+      state: "unknown",
+      consecutiveFailures: 0,
+      errors: [],
+      toolCalls: { count: 0, errorCount: 0 },
+    });
+  });
+
+  it("should record failures and back off reconnects", () => {
+    const tracker = new MCPHealthTracker();
+    tracker.recordFailure("server", new Error("ECONNREFUSED"), 0);
+    tracker.recordFailure("server", new Error("Timeout"), 30_000);
+
+    expect(tracker.isFailing("server")).toBe(true);
+    expect(tracker.shouldReconnect("server", 60_000)).toBe(false);
+    expect(tracker.shouldReconnect("server", 90_000)).toBe(true);
+    expect(tracker.get("server")).toMatchObject({
+      state: "unhealthy",
+      consecutiveFailures: 2,
+      nextRetryAt: new Date(90_000),
+      errors: [
+        { at: new Date(30_000), message: "Timeout" },
+        { at: new Date(0), message: "ECONNREFUSED" },
+      ],
+    });
+
+    tracker.recordHealthy("server", 90_000);
+    expect(tracker.shouldReconnect("server", 90_000)).toBe(true);
+    expect(tracker.get("server")).toMatchObject({
+      state: "healthy",
+      consecutiveFailures: 0,
+      healthySince: new Date(90_000),
+      nextRetryAt: undefined,
+    });
+  });
+
+  it("should compute uptime from the time spent in each state", () => {
+    const tracker = new MCPHealthTracker();
+    tracker.recordHealthy("server", 0);
+    tracker.recordFailure("server", "down", 75_000);
+    tracker.recordHealthy("server", 100_000);
+
+    expect(tracker.get("server").uptime).toBe(0.75);
+  });
+
+  it("should summarize tool call latency", () => {
+    const tracker = new MCPHealthTracker();
+    for (let latency = 10; latency <= 200; latency += 10) {
+      tracker.recordToolCall("server", latency, latency == 200);
+    }
+
+    expect(tracker.get("server").toolCalls).toEqual({
+      count: 20,
+      errorCount: 1,
+      averageLatencyMs: 105,
+      p95LatencyMs: 190,
+    });
+  });
+
+  describe("with a storage", () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    const createStorage = (records = {}) => ({
+      loadAll: vi.fn(async () => records),
+      save: vi.fn(async () => {}),
+    });
+
+    it("should save the changed records once per delay", async () => {
+      vi.useFakeTimers();
+      const storage = createStorage();
+      const tracker = new MCPHealthTracker(storage);
+
+      tracker.recordHealthy("server", 0);
+      tracker.recordToolCall("server", 40, false);
+      expect(storage.save).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(10_000);
+      expect(storage.save).toHaveBeenCalledTimes(1);
+      expect(storage.save).toHaveBeenCalledWith(
+        "server",
+        expect.objectContaining({
+          state: "healthy",
+          toolCalls: [{ latencyMs: 40, isError: false }],
+        }),
+      );
+    });
+
+    it("should keep the loaded history without counting the downtime", async () => {
+      const tracker = new MCPHealthTracker(
+        createStorage({
+          server: {
+            state: "healthy",
+            checkedAt: 0,
+            healthySince: 0,
+            trackedMs: 100_000,
+            healthyMs: 100_000,
+            consecutiveFailures: 0,
+            errors: [{ at: 50_000, message: "Timeout" }],
+            toolCalls: [{ latencyMs: 30, isError: false }],
+          },
+        }),
+      );
+      await tracker.load();
+
+      expect(tracker.get("server")).toMatchObject({
+        state: "unknown",
+        errors: [{ at: new Date(50_000), message: "Timeout" }],
+        toolCalls: { count: 1, averageLatencyMs: 30 },
+      });
+
+      tracker.recordHealthy("server", 900_000);
+      tracker.recordFailure("server", "down", 1_000_000);
+      expect(tracker.get("server").uptime).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,196 @@
+import type { MCPServerHealth, MCPServerHealthRecord } from "app-types/mcp";
+import { errorToString } from "lib/utils";
+import logger from "logger";
+
+const MAX_ERRORS = 20;
+const MAX_TOOL_CALLS = 100;
+const RETRY_BASE_MS = 1000 * 30;
+const RETRY_MAX_MS = 1000 * 60 * 30;
+const SAVE_DELAY_MS = 1000 * 10;
+
+/**
+ * Storage of the health records, so the history of a server outlives the
+ * process.
+ */
+export interface MCPHealthStorage {
+  loadAll(): Promise<Record<string, MCPServerHealthRecord>>;
+  save(id: string, record: MCPServerHealthRecord): Promise<void>;
+}
+
+function createEntry(): MCPServerHealthRecord {
+  return {
+    state: "unknown",
+    trackedMs: 0,
+    healthyMs: 0,
+    consecutiveFailures: 0,
+    errors: [],
+    toolCalls: [],
+  };
+}
+
+/**
+ * Delay before the next reconnect attempt, doubling with every failure in a
+ * row up to 30 minutes.
+ */
+export function getRetryDelay(consecutiveFailures: number) {
+  return Math.min(
+    RETRY_BASE_MS * 2 ** Math.max(consecutiveFailures - 1, 0),
+    RETRY_MAX_MS,
+  );
+}
+
+/**
+ * Record of the connection state, errors and tool call latency of each MCP
+ * server, kept next to the clients in the manager. With a storage, records
+ * are loaded on start and saved shortly after they change.
+ */
+export class MCPHealthTracker {
+  private servers = new Map<string, MCPServerHealthRecord>();
+  private pendingSaves = new Map<string, ReturnType<typeof setTimeout>>();
+
+  constructor(private storage?: MCPHealthStorage) {}
+
+  async load() {
+    if (!this.storage) return;
+    const records = await this.storage.loadAll();
+    for (const [id, record] of Object.entries(records)) {
+      if (this.servers.has(id)) continue;
+      // The time the process was down is not tracked
+      this.servers.set(id, {
+        ...record,
+        state: "unknown",
+        healthySince: undefined,
+      });
+    }
+  }
+
+  private entry(id: string) {
+    let entry = this.servers.get(id);
+    if (!entry) {
+      entry = createEntry();
+      this.servers.set(id, entry);
+    }
+    this.scheduleSave(id);
+    return entry;
+  }
+
+  private scheduleSave(id: string) {
+    const storage = this.storage;
+    if (!storage || this.pendingSaves.has(id)) return;
+    const timer = setTimeout(() => {
+      this.pendingSaves.delete(id);
+      const entry = this.servers.get(id);
+      if (!entry) return;
+      storage
+        .save(id, entry)
+        .catch((error) =>
+          logger.error(`Failed to save the health of MCP server ${id}`, error),
+        );
+    }, SAVE_DELAY_MS);
+    timer.unref?.();
+    this.pendingSaves.set(id, timer);
+  }
+
+  // The time since the last record counts towards the state it recorded
+  private advance(entry: MCPServerHealthRecord, now: number) {
+    if (
+      entry.state != "unknown" &&
+      entry.checkedAt !== undefined &&
+      now > entry.checkedAt
+    ) {
+      const elapsed = now - entry.checkedAt;
+      entry.trackedMs += elapsed;
+      if (entry.state == "healthy") entry.healthyMs += elapsed;
+    }
+    entry.checkedAt = now;
+  }
+
+  recordHealthy(id: string, now = Date.now()) {
+    const entry = this.entry(id);
+    this.advance(entry, now);
+    if (entry.state != "healthy") entry.healthySince = now;
+    entry.state = "healthy";
+    entry.consecutiveFailures = 0;
+    entry.nextRetryAt = undefined;
+  }
+
+  recordAuthorizing(id: string, now = Date.now()) {
+    const entry = this.entry(id);
+    this.advance(entry, now);
+    entry.state = "authorizing";
+    entry.healthySince = undefined;
+  }
+
+  recordFailure(id: string, error: unknown, now = Date.now()) {
+    const entry = this.entry(id);
+    this.advance(entry, now);
+    entry.state = "unhealthy";
+    entry.healthySince = undefined;
+    entry.consecutiveFailures += 1;
+    entry.nextRetryAt = now + getRetryDelay(entry.consecutiveFailures);
+    entry.errors = [
+      { at: now, message: errorToString(error) },
+      ...entry.errors,
+    ].slice(0, MAX_ERRORS);
+  }
+
+  recordToolCall(id: string, latencyMs: number, isError: boolean) {
+    const entry = this.entry(id);
+    entry.toolCalls = [...entry.toolCalls, { latencyMs, isError }].slice(
+      -MAX_TOOL_CALLS,
+    );
+  }
+
+  isFailing(id: string) {
+    return this.servers.get(id)?.state == "unhealthy";
+  }
+
+  shouldReconnect(id: string, now = Date.now()) {
+    const nextRetryAt = this.servers.get(id)?.nextRetryAt;
+    return nextRetryAt === undefined || now >= nextRetryAt;
+  }
+
+  remove(id: string) {
+    clearTimeout(this.pendingSaves.get(id));
+    this.pendingSaves.delete(id);
+    this.servers.delete(id);
+  }
+
+  get(id: string): MCPServerHealth {
+    const entry = this.servers.get(id) ?? createEntry();
+    const latencies = entry.toolCalls
+      .map((call) => call.latencyMs)
+      .sort((a, b) => a - b);
+    const toDate = (time?: number) =>
+      time === undefined ? undefined : new Date(time);
+    return {
+      state: entry.state,
+      checkedAt: toDate(entry.checkedAt),
+      healthySince: toDate(entry.healthySince),
+      uptime: entry.trackedMs
+        ? entry.healthyMs / entry.trackedMs
+        : entry.state == "healthy"
+          ? 1
+          : undefined,
+      consecutiveFailures: entry.consecutiveFailures,
+      nextRetryAt: toDate(entry.nextRetryAt),
+      errors: entry.errors.map((error) => ({
+        at: new Date(error.at),
+        message: error.message,
+      })),
+      toolCalls: {
+        count: entry.toolCalls.length,
+        errorCount: entry.toolCalls.filter((call) => call.isError).length,
+        averageLatencyMs: latencies.length
+          ? Math.round(
+              latencies.reduce((sum, latency) => sum + latency, 0) /
+                latencies.length,
+            )
+          : undefined,
+        p95LatencyMs: latencies.length
+          ? latencies[Math.ceil(latencies.length * 0.95) - 1]
+          : undefined,
+      },
+    };
+  }
+}
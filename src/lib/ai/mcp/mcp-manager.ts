@@ -4,7 +4,14 @@ import {
   createMCPClientsManager,
   type MCPClientsManager,
 } from "./create-mcp-clients-manager";
-import { FILE_BASED_MCP_CONFIG } from "lib/const";
+import {
+  FILE_BASED_MCP_CONFIG,
+  MCP_HEALTH_CHECK_INTERVAL_SECONDS,
+} from "lib/const";
+import {
+  mcpServerHealthRepository,
+  mcpUserCredentialRepository,
+} from "lib/db/repository";
 declare global {
   // eslint-disable-next-line no-var
   var __mcpClientsManager__: MCPClientsManager;
@@ -15,11 +22,30 @@ if (!globalThis.__mcpClientsManager__) {
   const storage = FILE_BASED_MCP_CONFIG
     ? createFileBasedMCPConfigsStorage()
     : createDbBasedMCPConfigsStorage();
-  globalThis.__mcpClientsManager__ = createMCPClientsManager(storage);
+  globalThis.__mcpClientsManager__ = createMCPClientsManager(
+    storage,
+    undefined,
+    FILE_BASED_MCP_CONFIG
+      ? undefined
+      : {
+          get: (serverId, userId) =>
+            mcpUserCredentialRepository.selectValues(serverId, userId),
+        },
+    FILE_BASED_MCP_CONFIG
+      ? undefined
+      : {
+          loadAll: () => mcpServerHealthRepository.selectAll(),
+          save: (serverId, record) =>
+            mcpServerHealthRepository.upsert(serverId, record),
+        },
+  );
 }
 
 export const initMCPManager = async () => {
-  return globalThis.__mcpClientsManager__.init();
+  await globalThis.__mcpClientsManager__.init();
+  globalThis.__mcpClientsManager__.startHealthChecks(
+    MCP_HEALTH_CHECK_INTERVAL_SECONDS,
+  );
 };
 
 export const mcpClientsManager = globalThis.__mcpClientsManager__;
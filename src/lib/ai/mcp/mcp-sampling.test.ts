@@ -0,0 +1,130 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("server-only", () => ({}));
+vi.mock("lib/db/pg/db.pg", async () => {
+  const { createTestDb } = await import("lib/db/pg/test-db.pg");
+  return { pgDb: await createTestDb() };
+});
+
+vi.mock("ai", () => ({
+  generateText: vi.fn(),
+}));
+
+vi.mock("lib/ai/models", () => ({
+  customModelProvider: {
+    getModel: vi.fn(() => ({ provider: "test", modelId: "test-model" })),
+  },
+}));
+
+vi.mock("lib/analytics/usage-logger", () => ({
+  logSamplingUsage: vi.fn(async () => {}),
+}));
+
+const { generateText } = await import("ai");
+const { logSamplingUsage } = await import("lib/analytics/usage-logger");
+const { createSamplingMessage } = await import("./mcp-sampling");
+
+const user = { userId: "user-1" };
+
+const params = {
+  messages: [
+    { role: "user" as const, content: { type: "text" as const, text: "Hi" } },
+  ],
+  maxTokens: 5000,
+};
+
+describe("createSamplingMessage", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(generateText).mockReset();
+    vi.mocked(generateText).mockResolvedValue({
+      text: "Hello",
+      finishReason: "stop",
+      usage: { totalTokens: 600 },
+    } as any);
+  });
+
+  it("generates with the server model and caps the requested tokens", async () => {
+    const result = await createSamplingMessage(
+      "server-cap",
+      { enabled: true, maxTokens: 200 },
+      params,
+      user,
+    );
+
+    expect(generateText).toHaveBeenCalledWith(
+      expect.objectContaining({
+        messages: [{ role: "user", content: "Hi" }],
+        maxOutputTokens: 200,
+      }),
+    );
+    expect(result).toEqual({
+      model: "test-model",
+      role: "assistant",
+      content: { type: "text", text: "Hello" },
+      stopReason: "endTurn",
+    });
+  });
+
+  it("rejects requests unless the server enables sampling", async () => {
+    await expect(
+      createSamplingMessage(
+        "server-disabled",
+        { enabled: false },
+        params,
+        user,
+      ),
+    ).rejects.toThrow("Sampling is disabled");
+    await expect(
+      createSamplingMessage("server-disabled", undefined, params, user),
+    ).rejects.toThrow("Sampling is disabled");
+    expect(generateText).not.toHaveBeenCalled();
+  });
+
+  it("rejects requests that do not come from a tool call of a user", async () => {
+    await expect(
+      createSamplingMessage("server-no-user", { enabled: true }, params, {}),
+    ).rejects.toThrow("tool call of a user");
+    expect(generateText).not.toHaveBeenCalled();
+  });
+
+  it("logs the tokens as model usage of the user", async () => {
+    await createSamplingMessage("server-log", { enabled: true }, params, user);
+
+    expect(logSamplingUsage).toHaveBeenCalledWith({
+      userId: "user-1",
+      requestId: expect.any(String),
+      provider: "test",
+      model: "test-model",
+      usage: { totalTokens: 600 },
+    });
+  });
+
+  it("stops sampling once the hourly budget is spent", async () => {
+    const config = { enabled: true, hourlyTokenBudget: 1000 };
+    await createSamplingMessage("server-budget", config, params, user);
+    await createSamplingMessage("server-budget", config, params, user);
+
+    expect(vi.mocked(generateText).mock.calls[1][0].maxOutputTokens).toBe(400);
+    await expect(
+      createSamplingMessage("server-budget", config, params, user),
+    ).rejects.toThrow("budget");
+  });
+
+  it("reserves the budget before the model answers", async () => {
+    const config = { enabled: true, hourlyTokenBudget: 1500 };
+    vi.mocked(generateText).mockImplementation(
+      () => new Promise(() => {}) as any,
+    );
+
+    void createSamplingMessage("server-reserve", config, params, user);
+    await vi.waitFor(() => expect(generateText).toHaveBeenCalledTimes(1));
+    void createSamplingMessage("server-reserve", config, params, user);
+    await vi.waitFor(() => expect(generateText).toHaveBeenCalledTimes(2));
+
+    expect(vi.mocked(generateText).mock.calls[1][0].maxOutputTokens).toBe(500);
+    await expect(
+      createSamplingMessage("server-reserve", config, params, user),
+    ).rejects.toThrow("budget");
+  });
+});
@@ -0,0 +1,103 @@
+import type {
+  CreateMessageRequest,
+  CreateMessageResult,
+} from "@modelcontextprotocol/sdk/types.js";
+import { generateText, ModelMessage } from "ai";
+import { MCPSamplingConfig } from "app-types/mcp";
+import { customModelProvider } from "lib/ai/models";
+import { logSamplingUsage } from "lib/analytics/usage-logger";
+import { mcpSamplingUsageRepository } from "lib/db/repository";
+import { generateUUID } from "lib/utils";
+import logger from "logger";
+
+const DEFAULT_SAMPLING_MAX_TOKENS = 1000;
+const DEFAULT_SAMPLING_HOURLY_TOKEN_BUDGET = 20000;
+const BUDGET_WINDOW_MS = 1000 * 60 * 60;
+
+function toModelMessage(
+  message: CreateMessageRequest["params"]["messages"][number],
+): ModelMessage {
+  const { role, content } = message;
+  if (content.type == "text") {
+    return { role, content: content.text };
+  }
+  if (role == "user") {
+    return {
+      role,
+      content: [
+        content.type == "image"
+          ? { type: "image", image: content.data, mediaType: content.mimeType }
+          : { type: "file", data: content.data, mediaType: content.mimeType },
+      ],
+    };
+  }
+  return { role, content: `[${content.type} content omitted]` };
+}
+
+/**
+ * Answers a `sampling/createMessage` request of an MCP server with the model
+ * configured for the server. Sampling is off unless the server enables it,
+ * and it only runs for a tool call of a user, within the token limits of the
+ * server; the tokens are logged as the user's model usage.
+ */
+export async function createSamplingMessage(
+  serverId: string,
+  config: MCPSamplingConfig | undefined,
+  params: CreateMessageRequest["params"],
+  context: { userId?: string } | undefined,
+): Promise<CreateMessageResult> {
+  if (!config?.enabled) {
+    throw new Error("Sampling is disabled for this MCP server");
+  }
+  const userId = context?.userId;
+  if (!userId) {
+    throw new Error("Sampling is only available during a tool call of a user");
+  }
+  // Reserve the tokens up front, in the database so that concurrent
+  // requests cannot overspend, whichever instance they reach
+  const reservation = await mcpSamplingUsageRepository.reserve(serverId, {
+    budget: config.hourlyTokenBudget ?? DEFAULT_SAMPLING_HOURLY_TOKEN_BUDGET,
+    maxTokens: Math.min(
+      params.maxTokens,
+      config.maxTokens ?? DEFAULT_SAMPLING_MAX_TOKENS,
+    ),
+    since: new Date(Date.now() - BUDGET_WINDOW_MS),
+  });
+  if (!reservation) {
+    throw new Error("Sampling token budget of this MCP server is exhausted");
+  }
+  const maxOutputTokens = reservation.tokens;
+
+  const model = customModelProvider.getModel(config.model);
+  const modelId = typeof model == "string" ? model : model.modelId;
+  const result = await generateText({
+    model,
+    system: params.systemPrompt,
+    messages: params.messages.map(toModelMessage),
+    maxOutputTokens,
+    temperature: params.temperature,
+    stopSequences: params.stopSequences,
+  }).catch(async (error) => {
+    await mcpSamplingUsageRepository.settle(reservation.id, 0);
+    throw error;
+  });
+  await mcpSamplingUsageRepository.settle(
+    reservation.id,
+    result.usage.totalTokens ?? maxOutputTokens,
+  );
+
+  await logSamplingUsage({
+    userId,
+    requestId: generateUUID(),
+    provider: typeof model == "string" ? undefined : model.provider,
+    model: modelId,
+    usage: result.usage,
+  }).catch((error) => logger.error("Failed to log MCP sampling usage", error));
+
+  return {
+    model: modelId,
+    role: "assistant",
+    content: { type: "text", text: result.text },
+    stopReason: result.finishReason == "length" ? "maxTokens" : "endTurn",
+  };
+}
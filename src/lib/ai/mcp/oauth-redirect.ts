@@ -2,12 +2,21 @@
 
 import {
   authorizeMcpClientAction,
+  authorizeMcpUserClientAction,
   checkTokenMcpClientAction,
+  checkTokenMcpUserClientAction,
 } from "@/app/api/mcp/actions";
 import { wait } from "lib/utils";
 
-export function redriectMcpOauth(id: string) {
-  return authorizeMcpClientAction(id).then((authUrl) => {
+// `perUser` authorizes the user's own client of a shared server
+export function redriectMcpOauth(id: string, options?: { perUser?: boolean }) {
+  const authorize = options?.perUser
+    ? authorizeMcpUserClientAction
+    : authorizeMcpClientAction;
+  const checkToken = options?.perUser
+    ? checkTokenMcpUserClientAction
+    : checkTokenMcpClientAction;
+  return authorize(id).then((authUrl) => {
     if (!authUrl) throw new Error("Not Authorizing");
     return new Promise((resolve, reject) => {
       // Safely append prompt parameter to authUrl
@@ -25,7 +34,7 @@ export function redriectMcpOauth(id: string) {
 
       const check = async () => {
         await wait(1000); // 1 second
-        const isAuthorized = await checkTokenMcpClientAction(id);
+        const isAuthorized = await checkToken(id);
         if (isAuthorized) return resolve(true);
         return reject(new Error("Authentication failed"));
       };
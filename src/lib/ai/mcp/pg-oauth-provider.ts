@@ -32,6 +32,8 @@ export class PgOAuthClientProvider implements OAuthClientProvider {
     private config: {
       name: string;
       mcpServerId: string;
+      // Set when the session belongs to one user of a shared server
+      userId?: string;
       serverUrl: string;
       _clientMetadata: OAuthClientMetadata;
       onRedirectToAuthorization: (authUrl: URL) => Promise<void>;
@@ -53,7 +55,7 @@ export class PgOAuthClientProvider implements OAuthClientProvider {
       const session = await pgMcpOAuthRepository.getSessionByState(
         this.config.state,
       );
-      if (session && session.mcpServerId === this.config.mcpServerId) {
+      if (session && this.isOwnSession(session)) {
         this.currentOAuthState = session.state || "";
         this.cachedAuthData = session;
         this.initialized = true;
@@ -64,6 +66,7 @@ export class PgOAuthClientProvider implements OAuthClientProvider {
     // 1. Check for authenticated session first
     const authenticated = await pgMcpOAuthRepository.getAuthenticatedSession(
       this.config.mcpServerId,
+      this.config.userId,
     );
     if (authenticated) {
       this.currentOAuthState = authenticated.state || "";
@@ -80,12 +83,20 @@ export class PgOAuthClientProvider implements OAuthClientProvider {
       {
         state: this.currentOAuthState,
         serverUrl: this.config.serverUrl,
+        userId: this.config.userId ?? null,
       },
     );
     this.initialized = true;
     this.logger.info("Created new OAuth session");
   }
 
+  private isOwnSession(session: McpOAuthSession) {
+    return (
+      session.mcpServerId === this.config.mcpServerId &&
+      (session.userId ?? undefined) === this.config.userId
+    );
+  }
+
   private async getAuthData() {
     await this.initializeOAuth();
     return this.cachedAuthData;
@@ -162,6 +173,7 @@ export class PgOAuthClientProvider implements OAuthClientProvider {
       this.currentOAuthState,
       this.config.mcpServerId,
       { tokens: accessTokens },
+      this.config.userId,
     );
 
     this.logger.info(`OAuth tokens stored successfully`);
@@ -194,9 +206,9 @@ export class PgOAuthClientProvider implements OAuthClientProvider {
     if (!state) return;
     const session = await pgMcpOAuthRepository.getSessionByState(state);
     if (!session) return;
-    if (session.mcpServerId !== this.config.mcpServerId) {
+    if (!this.isOwnSession(session)) {
       this.logger.warn(
-        `Attempted to adopt state for different server (${session.mcpServerId}), ignoring`,
+        `Attempted to adopt state for different server (${session.mcpServerId}) or user, ignoring`,
       );
       return;
     }
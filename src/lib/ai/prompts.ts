@@ -5,6 +5,7 @@ import { User } from "better-auth";
 import { createMCPToolId } from "./mcp/mcp-tool-id";
 import { format } from "date-fns";
 import { Agent } from "app-types/agent";
+import { DefaultToolName } from "./tools";
 
 export const CREATE_THREAD_TITLE_PROMPT = `
 You are a chat title generation expert.
@@ -289,3 +290,14 @@ export const buildToolCallUnsupportedModelSystemPrompt = `
 - You are using a model that does not support tool calls. 
 - When users request tool usage, simply explain that the current model cannot use tools and that they can switch to a model that supports tool calling to use tools.
 `.trim();
+
+export const buildKnowledgeBaseSystemPrompt = (
+  knowledgeBases: { id: string; name: string }[],
+) =>
+  `
+### Knowledge Bases
+- You have access to these knowledge bases through the \`${DefaultToolName.SearchKnowledgeBase}\` tool:
+${knowledgeBases.map((kb) => `  - ${kb.name} (id: ${kb.id})`).join("\n")}
+- Search them before answering questions they may cover. Reformulate the query and search again if the first results are not relevant.
+- Cite every statement based on a search result with its marker, e.g. [1], placed right after the statement.
+`.trim();
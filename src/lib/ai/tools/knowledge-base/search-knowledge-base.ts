@@ -0,0 +1,185 @@
+import { tool as createTool, isToolUIPart, UIMessage } from "ai";
+import { z } from "zod";
+import { safe } from "ts-safe";
+import {
+  KnowledgeBaseCitation,
+  KnowledgeBaseRerankConfig,
+  KnowledgeBaseSearchToolResult,
+} from "app-types/knowledge-base";
+import { logEmbeddingUsage, logRerankUsage } from "lib/analytics/usage-logger";
+import { knowledgeBaseRepository } from "lib/db/repository";
+import { formatChunkCitation } from "lib/rag/citation";
+import { retrieveKnowledgeBaseChunks } from "lib/rag/retrieval";
+import { DefaultToolName } from "..";
+
+export type KnowledgeBaseToolContext = {
+  userId: string;
+  agentId?: string | null;
+  organizationId?: string | null;
+  // When set, searches are limited to these knowledge bases (an agent's
+  // links); otherwise every knowledge base the user can read is searched.
+  knowledgeBaseIds?: string[];
+  rerank?: KnowledgeBaseRerankConfig | null;
+  // Citation markers are numbered across the conversation, so new results
+  // continue after the ones already shown and are collected here.
+  citationOffset: number;
+  citations: KnowledgeBaseCitation[];
+};
+
+function getToolContext(value: unknown): KnowledgeBaseToolContext | null {
+  const context = value as Partial<KnowledgeBaseToolContext> | undefined;
+  if (!context?.userId || !Array.isArray(context.citations)) return null;
+  return context as KnowledgeBaseToolContext;
+}
+
+export function countKnowledgeBaseCitations(messages: UIMessage[]): number {
+  return messages.reduce((count, message) => {
+    for (const part of message.parts) {
+      if (
+        isToolUIPart(part) &&
+        part.type === `tool-${DefaultToolName.SearchKnowledgeBase}` &&
+        part.state === "output-available"
+      ) {
+        const output = part.output as Partial<KnowledgeBaseSearchToolResult>;
+        count += Array.isArray(output?.results) ? output.results.length : 0;
+      }
+    }
+    return count;
+  }, 0);
+}
+
+export const searchKnowledgeBaseTool = createTool({
+  description:
+    "Search the user's knowledge bases (uploaded documents and imported pages) for passages relevant to a query. Write a focused, self-contained query; call the tool again with a reformulated query if the results are not relevant. Each result has a citationId: cite it inline as [citationId] right after the statement it supports.",
+  inputSchema: z.object({
+    query: z
+      .string()
+      .min(1)
+      .describe(
+        "Standalone search query. Resolve pronouns and include key terms from the conversation.",
+      ),
+    knowledgeBaseIds: z
+      .array(z.string())
+      .optional()
+      .describe("Only search these knowledge bases"),
+    documentIds: z
+      .array(z.string())
+      .optional()
+      .describe(
+        "Only search these documents, e.g. documentIds from earlier results",
+      ),
+    limit: z
+      .number()
+      .int()
+      .min(1)
+      .max(20)
+      .optional()
+      .default(6)
+      .describe("Maximum number of passages to return"),
+  }),
+  execute: async (
+    { query, knowledgeBaseIds, documentIds, limit },
+    { experimental_context },
+  ) => {
+    return safe(async () => {
+      const context = getToolContext(experimental_context);
+      if (!context) {
+        throw new Error("Knowledge base search is not available here");
+      }
+
+      const accessibleIds =
+        context.knowledgeBaseIds ??
+        (
+          await knowledgeBaseRepository.listKnowledgeBasesForUser(
+            context.userId,
+          )
+        ).map((knowledgeBase) => knowledgeBase.id);
+      const searchIds = knowledgeBaseIds?.length
+        ? accessibleIds.filter((id) => knowledgeBaseIds.includes(id))
+        : accessibleIds;
+
+      if (!searchIds.length) {
+        throw new Error("No accessible knowledge bases match the request");
+      }
+
+      const { chunks, usage, rerankUsage } = await retrieveKnowledgeBaseChunks({
+        knowledgeBaseIds: searchIds,
+        documentIds,
+        query,
+        limit: limit ?? 6,
+        rerank: context.rerank,
+      });
+
+      const results = chunks.map((chunk) => {
+        const result: KnowledgeBaseCitation = {
+          citationId: context.citationOffset + context.citations.length + 1,
+          knowledgeBaseId: chunk.knowledgeBaseId,
+          documentId: chunk.documentId,
+          documentName: chunk.documentName,
+          citation: formatChunkCitation(chunk),
+          content: chunk.content,
+          score: chunk.score,
+        };
+        context.citations.push(result);
+        return result;
+      });
+
+      for (const entry of usage) {
+        if (entry.tokens <= 0) continue;
+        await logEmbeddingUsage({
+          userId: context.userId,
+          agentId: context.agentId ?? null,
+          organizationId: context.organizationId ?? null,
+          knowledgeBaseId:
+            entry.knowledgeBaseIds.length === 1
+              ? entry.knowledgeBaseIds[0]
+              : null,
+          documentId: null,
+          operation: "query",
+          tokens: entry.tokens,
+          model: entry.model,
+          metadata: {
+            tool: DefaultToolName.SearchKnowledgeBase,
+            knowledgeBaseIds: entry.knowledgeBaseIds,
+            retrievedDocuments: results
+              .filter((result) =>
+                entry.knowledgeBaseIds.includes(result.knowledgeBaseId),
+              )
+              .map((result) => ({
+                knowledgeBaseId: result.knowledgeBaseId,
+                documentId: result.documentId,
+                documentName: result.documentName,
+                score: result.score,
+              })),
+          },
+        });
+      }
+
+      if (rerankUsage) {
+        await logRerankUsage({
+          userId: context.userId,
+          agentId: context.agentId ?? null,
+          organizationId: context.organizationId ?? null,
+          knowledgeBaseIds: searchIds,
+          usage: rerankUsage,
+          returnedChunks: results.length,
+        });
+      }
+
+      return {
+        query,
+        results,
+        guide: results.length
+          ? "Answer from these passages when they are relevant and cite each supporting passage inline as [citationId]. Do not cite passages you did not use."
+          : "No matching passages were found. Try a reformulated query, or tell the user the knowledge base does not cover this.",
+      } satisfies KnowledgeBaseSearchToolResult;
+    })
+      .ifFail((e) => ({
+        isError: true,
+        error: e.message,
+        solution:
+          "Knowledge base search failed. Tell the user what went wrong and answer from your own knowledge if possible, making clear it is not from their documents.",
+      }))
+      .unwrap();
+  },
+});
@@ -8,6 +8,7 @@ import { Tool } from "ai";
 import { httpFetchTool } from "./http/fetch";
 import { jsExecutionTool } from "./code/js-run-tool";
 import { pythonExecutionTool } from "./code/python-run-tool";
+import { searchKnowledgeBaseTool } from "./knowledge-base/search-knowledge-base";
 
 export const APP_DEFAULT_TOOL_KIT: Record<
   AppDefaultToolkit,
@@ -30,4 +31,7 @@ export const APP_DEFAULT_TOOL_KIT: Record<
     [DefaultToolName.JavascriptExecution]: jsExecutionTool,
     [DefaultToolName.PythonExecution]: pythonExecutionTool,
   },
+  [AppDefaultToolkit.KnowledgeBase]: {
+    [DefaultToolName.SearchKnowledgeBase]: searchKnowledgeBaseTool,
+  },
 };
@@ -0,0 +1,58 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("server-only", () => ({}));
+vi.mock("lib/db/repository", () => ({ knowledgeBaseRepository: {} }));
+vi.mock("lib/analytics/usage-logger", () => ({}));
+vi.mock("lib/rag/retrieval", () => ({}));
+
+const { getWorkflowAppTool, getWorkflowAppToolKeys } = await import(
+  "./workflow-tool-kit"
+);
+const { APP_DEFAULT_TOOL_KIT } = await import("./tool-kit");
+const { DefaultToolName } = await import(".");
+
+describe("workflow-tool-kit", () => {
+  it("lists every default tool as an app-tool", () => {
+    const keys = getWorkflowAppToolKeys();
+    const names = Object.values(APP_DEFAULT_TOOL_KIT).flatMap(Object.keys);
+    expect(keys.map((key) => key.id).sort()).toEqual(names.sort());
+    for (const key of keys) {
+      expect(key.type).toBe("app-tool");
+      expect(key.parameterSchema?.type).toBe("object");
+    }
+  });
+
+  it("describes what each tool returns", () => {
+    const keys = getWorkflowAppToolKeys();
+    const find = (id: string) => keys.find((key) => key.id == id)!;
+
+    expect(find(DefaultToolName.CreateTable).returnSchema).toEqual(
+      find(DefaultToolName.CreateTable).parameterSchema,
+    );
+    expect(find(DefaultToolName.Http).returnSchema?.properties?.status).toEqual(
+      { type: "number" },
+    );
+    expect(
+      find(DefaultToolName.SearchKnowledgeBase).returnSchema?.properties,
+    ).toHaveProperty("results");
+  });
+
+  it("returns the validated input for render tools", async () => {
+    const input = { title: "t", data: [{ label: "a", value: 1 }] };
+    const result = await getWorkflowAppTool(
+      DefaultToolName.CreatePieChart,
+    )?.execute?.(input, { messages: [], toolCallId: "" });
+    expect(result).toEqual(input);
+  });
+
+  it("runs JavaScript on the server", async () => {
+    const result = await getWorkflowAppTool(
+      DefaultToolName.JavascriptExecution,
+    )?.execute?.({ code: "return 1 + 1" }, { messages: [], toolCallId: "" });
+    expect(result).toMatchObject({ result: 2 });
+  });
+
+  it("has no tool for unknown names", () => {
+    expect(getWorkflowAppTool("unknown")).toBeUndefined();
+  });
+});
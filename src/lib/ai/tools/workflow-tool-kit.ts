@@ -0,0 +1,189 @@
+import { asSchema, tool as createTool, Tool } from "ai";
+import { JSONSchema7 } from "json-schema";
+import { WorkflowToolKey } from "lib/ai/workflow/workflow.interface";
+import { runCodeInSandbox, SandboxLanguage } from "lib/code-runner/sandbox-run";
+import { DefaultToolName } from ".";
+import { APP_DEFAULT_TOOL_KIT } from "./tool-kit";
+import {
+  exaContentsToolForWorkflow,
+  exaSearchToolForWorkflow,
+} from "./web/web-search";
+
+const CODE_TOOL_TIMEOUT = 30000;
+
+const anyObjectSchema: JSONSchema7 = { type: "object" };
+
+const codeResultSchema: JSONSchema7 = {
+  type: "object",
+  properties: {
+    result: anyObjectSchema,
+    logs: { type: "array", items: anyObjectSchema },
+  },
+};
+
+const exaResultsSchema: JSONSchema7 = {
+  type: "object",
+  properties: {
+    results: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          title: { type: "string" },
+          url: { type: "string" },
+          publishedDate: { type: "string" },
+          author: { type: "string" },
+          text: { type: "string" },
+        },
+      },
+    },
+  },
+};
+
+/**
+ * Chat renders charts and tables from the tool input, so in a workflow the
+ * validated input itself is the result.
+ */
+function renderToolForWorkflow(chatTool: Tool) {
+  return createTool({
+    description: chatTool.description,
+    inputSchema: chatTool.inputSchema,
+    execute: async (input) => input,
+  });
+}
+
+/**
+ * Chat runs code tools in the browser; workflows run them in the sandbox
+ * process instead, like Code nodes.
+ */
+function codeToolForWorkflow(language: SandboxLanguage, chatTool: Tool) {
+  return createTool({
+    description: `Execute ${language == "python" ? "Python" : "JavaScript"} code in a sandbox and return the value of the code together with its console output.`,
+    inputSchema: chatTool.inputSchema,
+    execute: async ({ code }: { code: string }, { abortSignal }) => {
+      const execution = await runCodeInSandbox(language, {
+        code,
+        timeout: CODE_TOOL_TIMEOUT,
+        signal: abortSignal,
+      });
+      if (!execution.success) {
+        throw new Error(execution.error || "Code execution failed");
+      }
+      return { result: execution.result, logs: execution.logs };
+    },
+  });
+}
+
+const tools = Object.assign(
+  {},
+  ...Object.values(APP_DEFAULT_TOOL_KIT),
+) as Record<string, Tool>;
+
+/**
+ * Default tools as Tool nodes run them, keyed by tool name. Tools without a
+ * workflow variant run as they do in chat.
+ */
+const WORKFLOW_APP_TOOLS: Record<
+  string,
+  { tool: Tool; returnSchema?: JSONSchema7; returnsInput?: boolean }
+> = {
+  [DefaultToolName.CreatePieChart]: {
+    tool: renderToolForWorkflow(tools[DefaultToolName.CreatePieChart]),
+    returnsInput: true,
+  },
+  [DefaultToolName.CreateBarChart]: {
+    tool: renderToolForWorkflow(tools[DefaultToolName.CreateBarChart]),
+    returnsInput: true,
+  },
+  [DefaultToolName.CreateLineChart]: {
+    tool: renderToolForWorkflow(tools[DefaultToolName.CreateLineChart]),
+    returnsInput: true,
+  },
+  [DefaultToolName.CreateTable]: {
+    tool: renderToolForWorkflow(tools[DefaultToolName.CreateTable]),
+    returnsInput: true,
+  },
+  [DefaultToolName.WebSearch]: {
+    tool: exaSearchToolForWorkflow,
+    returnSchema: exaResultsSchema,
+  },
+  [DefaultToolName.WebContent]: {
+    tool: exaContentsToolForWorkflow,
+    returnSchema: exaResultsSchema,
+  },
+  [DefaultToolName.Http]: {
+    tool: tools[DefaultToolName.Http],
+    returnSchema: {
+      type: "object",
+      properties: {
+        status: { type: "number" },
+        statusText: { type: "string" },
+        headers: anyObjectSchema,
+        body: anyObjectSchema,
+        ok: { type: "boolean" },
+        url: { type: "string" },
+      },
+    },
+  },
+  [DefaultToolName.JavascriptExecution]: {
+    tool: codeToolForWorkflow(
+      "javascript",
+      tools[DefaultToolName.JavascriptExecution],
+    ),
+    returnSchema: codeResultSchema,
+  },
+  [DefaultToolName.PythonExecution]: {
+    tool: codeToolForWorkflow("python", tools[DefaultToolName.PythonExecution]),
+    returnSchema: codeResultSchema,
+  },
+  [DefaultToolName.SearchKnowledgeBase]: {
+    tool: tools[DefaultToolName.SearchKnowledgeBase],
+    returnSchema: {
+      type: "object",
+      properties: {
+        query: { type: "string" },
+        results: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              citationId: { type: "number" },
+              knowledgeBaseId: { type: "string" },
+              documentId: { type: "string" },
+              documentName: { type: "string" },
+              citation: { type: "string" },
+              content: { type: "string" },
+              score: { type: "number" },
+            },
+          },
+        },
+        guide: { type: "string" },
+      },
+    },
+  },
+};
+
+export function getWorkflowAppTool(name: string): Tool | undefined {
+  return WORKFLOW_APP_TOOLS[name]?.tool ?? tools[name];
+}
+
+/**
+ * Every default tool as a Tool node option. Tools added to
+ * `APP_DEFAULT_TOOL_KIT` are listed even before they get a workflow entry.
+ */
+export function getWorkflowAppToolKeys(): WorkflowToolKey[] {
+  return Object.keys(tools).map((name) => {
+    const tool = getWorkflowAppTool(name)!;
+    const parameterSchema = asSchema(tool.inputSchema)
+      .jsonSchema as JSONSchema7;
+    return {
+      type: "app-tool",
+      id: name,
+      description: tool.description ?? "",
+      parameterSchema,
+      returnSchema: WORKFLOW_APP_TOOLS[name]?.returnsInput
+        ? parameterSchema
+        : WORKFLOW_APP_TOOLS[name]?.returnSchema,
+    };
+  });
+}
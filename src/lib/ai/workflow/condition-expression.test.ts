@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import {
+  checkConditionExpression,
+  ConditionExpressionError,
+  findExpressionReferences,
+  MAX_REGEXP_INPUT_LENGTH,
+  parseConditionExpression,
+  testUserRegExp,
+} from "./condition-expression";
+
+const outputs: Record<string, unknown> = {
+  Start: { age: 21, name: "Ada", tags: ["admin", "beta"] },
+  "Web Search": { results: [{ title: "a" }, { title: "b" }] },
+};
+const resolve = (name: string) => outputs[name];
+const check = (expression: string) =>
+  checkConditionExpression(expression, resolve);
+
+describe("checkConditionExpression", () => {
+  it("compares node outputs with literals", () => {
+    expect(check("Start.age >= 18")).toBe(true);
+    expect(check("Start.age >= 18 and Start.name = 'Bob'")).toBe(false);
+    expect(check("Start.age < 18 or Start.name != 'Bob'")).toBe(true);
+    expect(check("(Start.age + 1) * 2 = 44")).toBe(true);
+  });
+
+  it("reads quoted names, indexes and lists", () => {
+    expect(check("`Web Search`.results[1].title = 'b'")).toBe(true);
+    expect(check("`Web Search`.results[-1].title = 'b'")).toBe(true);
+    expect(check("Start.name in ['Ada', 'Grace']")).toBe(true);
+    expect(check("Start.missing.deep = null")).toBe(false);
+    expect(check("$exists(Start.missing.deep)")).toBe(false);
+  });
+
+  it("calls functions", () => {
+    expect(check("$length(`Web Search`.results) = 2")).toBe(true);
+    expect(check("$contains(Start.tags, 'beta')")).toBe(true);
+    expect(check("$matches(Start.name, '^a', 'i')")).toBe(true);
+    expect(check("$uppercase(Start.name) & '!' = 'ADA!'")).toBe(true);
+    expect(
+      check("$toMillis('2025-01-01') < $toMillis('2025-06-01T00:00:00Z')"),
+    ).toBe(true);
+    expect(check("$not(Start.tags)")).toBe(false);
+  });
+
+  it("treats empty values as false", () => {
+    expect(check("Start.missing")).toBe(false);
+    expect(check("[]")).toBe(false);
+    expect(check("Start.tags")).toBe(true);
+  });
+
+  it("rejects type errors while evaluating", () => {
+    expect(() => check("Start.name > 3")).toThrow(ConditionExpressionError);
+    expect(() => check("$toMillis('soon') > 0")).toThrow("not a date");
+  });
+
+  it("refuses regular expressions that could backtrack without end", () => {
+    expect(() => check("$matches(Start.name, '(a+)+$')")).toThrow(
+      "cannot repeat a group",
+    );
+    expect(() => check("$matches(Start.name, '((ab)*c)*')")).toThrow(
+      "cannot repeat a group",
+    );
+    expect(() => check(`$matches(Start.name, '${"a".repeat(201)}')`)).toThrow(
+      "limited to 200 characters",
+    );
+    expect(() =>
+      testUserRegExp("a", "a".repeat(MAX_REGEXP_INPUT_LENGTH + 1)),
+    ).toThrow(ConditionExpressionError);
+    expect(check("$matches(Start.name, '^(ad)+a?$', 'i')")).toBe(true);
+    expect(check("$matches(Start.name, '[(a+)]+')")).toBe(true);
+  });
+});
+
+describe("parseConditionExpression", () => {
+  it("reports syntax errors with their position", () => {
+    expect(() => parseConditionExpression("Start.age >=")).toThrow(
+      "Unexpected end of expression at 13",
+    );
+    expect(() => parseConditionExpression("Start.age ? 1")).toThrow(
+      "Unexpected '?' at 11",
+    );
+    expect(() => parseConditionExpression("$eval('1')")).toThrow(
+      "Unknown function $eval",
+    );
+    expect(() => parseConditionExpression("'open")).toThrow(
+      "Unterminated string",
+    );
+  });
+
+  it("lists the node names an expression reads", () => {
+    expect(
+      findExpressionReferences(
+        parseConditionExpression(
+          "$length(`Web Search`.results) > 0 and Start.tags[Index.value]",
+        ),
+      ),
+    ).toEqual(["Web Search", "Start", "Index"]);
+  });
+
+  it("does not treat quoted keywords as literals", () => {
+    expect(
+      findExpressionReferences(parseConditionExpression("`true`.ok")),
+    ).toEqual(["true"]);
+  });
+});
@@ -0,0 +1,537 @@
+/**
+ * A small JSONata-style expression language for Condition nodes.
+ * Expressions never run user code: they are parsed into a tree and
+ * evaluated against node outputs only.
+ *
+ * - Node outputs are referenced by node name, e.g. `Start.age >= 18`.
+ *   Names with spaces or symbols are quoted with backticks: `` `My Node`.id ``.
+ * - Operators: `=` `!=` `<` `<=` `>` `>=` `in` `and` `or` `+` `-` `*` `/` `%`
+ *   and `&` (string concatenation).
+ * - Literals: numbers, 'strings', "strings", true, false, null and [lists].
+ * - Functions: see `EXPRESSION_FUNCTIONS`.
+ */
+
+export const MAX_CONDITION_EXPRESSION_LENGTH = 1000;
+export const MAX_REGEXP_PATTERN_LENGTH = 200;
+export const MAX_REGEXP_INPUT_LENGTH = 10_000;
+
+export class ConditionExpressionError extends Error {
+  constructor(message: string, position?: number) {
+    super(position === undefined ? message : `${message} at ${position + 1}`);
+    this.name = "ConditionExpressionError";
+  }
+}
+
+type Token =
+  | { type: "number"; value: number; position: number }
+  | { type: "string"; value: string; position: number }
+  | { type: "name"; value: string; position: number }
+  | { type: "function"; value: string; position: number }
+  | { type: "symbol"; value: string; position: number };
+
+export type ExpressionNode =
+  | { type: "literal"; value: unknown }
+  | { type: "name"; name: string }
+  | { type: "member"; object: ExpressionNode; property: ExpressionNode }
+  | { type: "array"; items: ExpressionNode[] }
+  | { type: "negate"; operand: ExpressionNode }
+  | {
+      type: "binary";
+      operator: string;
+      left: ExpressionNode;
+      right: ExpressionNode;
+    }
+  | { type: "call"; name: string; args: ExpressionNode[] };
+
+const SYMBOLS = ["!=", "<=", ">=", "=", "<", ">", "+", "-", "*", "/", "%", "&"];
+const PUNCTUATION = "()[],.";
+const KEYWORD_LITERALS: Record<string, unknown> = {
+  true: true,
+  false: false,
+  null: null,
+};
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (/[0-9]/.test(char)) {
+      const match = /^\d+(\.\d+)?([eE][+-]?\d+)?/.exec(source.slice(i))!;
+      tokens.push({ type: "number", value: Number(match[0]), position: i });
+      i += match[0].length;
+    } else if (char == "'" || char == '"') {
+      let value = "";
+      let j = i + 1;
+      while (j < source.length && source[j] != char) {
+        if (source[j] == "\\" && j + 1 < source.length) j++;
+        value += source[j++];
+      }
+      if (j >= source.length) {
+        throw new ConditionExpressionError("Unterminated string", i);
+      }
+      tokens.push({ type: "string", value, position: i });
+      i = j + 1;
+    } else if (char == "`") {
+      const end = source.indexOf("`", i + 1);
+      if (end == -1) {
+        throw new ConditionExpressionError("Unterminated name", i);
+      }
+      tokens.push({
+        type: "name",
+        value: source.slice(i + 1, end),
+        position: i,
+      });
+      i = end + 1;
+    } else if (char == "$") {
+      const match = /^\$[A-Za-z_]\w*/.exec(source.slice(i));
+      if (!match) throw new ConditionExpressionError("Invalid function", i);
+      tokens.push({ type: "function", value: match[0], position: i });
+      i += match[0].length;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_]\w*/.exec(source.slice(i))!;
+      tokens.push({ type: "name", value: match[0], position: i });
+      i += match[0].length;
+    } else if (PUNCTUATION.includes(char)) {
+      tokens.push({ type: "symbol", value: char, position: i });
+      i++;
+    } else {
+      const symbol = SYMBOLS.find((symbol) => source.startsWith(symbol, i));
+      if (!symbol) {
+        throw new ConditionExpressionError(`Unexpected '${char}'`, i);
+      }
+      tokens.push({ type: "symbol", value: symbol, position: i });
+      i += symbol.length;
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Parses an expression into a tree. Throws `ConditionExpressionError` with
+ * the position of the first problem.
+ */
+export function parseConditionExpression(source: string): ExpressionNode {
+  if (source.length > MAX_CONDITION_EXPRESSION_LENGTH) {
+    throw new ConditionExpressionError(
+      `Expression is longer than ${MAX_CONDITION_EXPRESSION_LENGTH} characters`,
+    );
+  }
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const isSymbol = (value: string) =>
+    peek()?.type == "symbol" && peek()!.value == value;
+  const isKeyword = (value: string) =>
+    peek()?.type == "name" &&
+    peek()!.value == value &&
+    source[peek()!.position] != "`";
+  const expect = (value: string) => {
+    if (!isSymbol(value)) {
+      throw new ConditionExpressionError(
+        `Expected '${value}'`,
+        peek()?.position ?? source.length,
+      );
+    }
+    index++;
+  };
+
+  const parseBinary = (
+    operators: string[],
+    next: () => ExpressionNode,
+    keywords = false,
+  ) => {
+    let left = next();
+    while (
+      peek() &&
+      operators.some((operator) =>
+        keywords ? isKeyword(operator) : isSymbol(operator),
+      )
+    ) {
+      const operator = tokens[index++].value as string;
+      left = { type: "binary", operator, left, right: next() };
+    }
+    return left;
+  };
+
+  const parseOr = (): ExpressionNode => parseBinary(["or"], parseAnd, true);
+  const parseAnd = (): ExpressionNode =>
+    parseBinary(["and"], parseComparison, true);
+  const parseComparison = (): ExpressionNode => {
+    const left = parseAdditive();
+    const operator = ["=", "!=", "<", "<=", ">", ">="].find(isSymbol)
+      ? (peek()!.value as string)
+      : isKeyword("in")
+        ? "in"
+        : undefined;
+    if (!operator) return left;
+    index++;
+    return { type: "binary", operator, left, right: parseAdditive() };
+  };
+  const parseAdditive = (): ExpressionNode =>
+    parseBinary(["+", "-", "&"], parseMultiplicative);
+  const parseMultiplicative = (): ExpressionNode =>
+    parseBinary(["*", "/", "%"], parseUnary);
+  const parseUnary = (): ExpressionNode => {
+    if (isSymbol("-")) {
+      index++;
+      return { type: "negate", operand: parseUnary() };
+    }
+    return parsePostfix();
+  };
+  const parsePostfix = (): ExpressionNode => {
+    let node = parsePrimary();
+    while (isSymbol(".") || isSymbol("[")) {
+      if (isSymbol(".")) {
+        index++;
+        const token = peek();
+        if (token?.type != "name") {
+          throw new ConditionExpressionError(
+            "Expected a field name",
+            token?.position ?? source.length,
+          );
+        }
+        index++;
+        node = {
+          type: "member",
+          object: node,
+          property: { type: "literal", value: token.value },
+        };
+      } else {
+        index++;
+        const property = parseOr();
+        expect("]");
+        node = { type: "member", object: node, property };
+      }
+    }
+    return node;
+  };
+  const parseList = (end: string) => {
+    const items: ExpressionNode[] = [];
+    while (!isSymbol(end)) {
+      if (items.length) expect(",");
+      items.push(parseOr());
+    }
+    expect(end);
+    return items;
+  };
+  const parsePrimary = (): ExpressionNode => {
+    const token = peek();
+    if (!token) {
+      throw new ConditionExpressionError(
+        "Unexpected end of expression",
+        source.length,
+      );
+    }
+    index++;
+    switch (token.type) {
+      case "number":
+      case "string":
+        return { type: "literal", value: token.value };
+      case "function":
+        expect("(");
+        if (!(token.value in EXPRESSION_FUNCTIONS)) {
+          throw new ConditionExpressionError(
+            `Unknown function ${token.value}`,
+            token.position,
+          );
+        }
+        return { type: "call", name: token.value, args: parseList(")") };
+      case "name":
+        if (source[token.position] != "`" && token.value in KEYWORD_LITERALS) {
+          return { type: "literal", value: KEYWORD_LITERALS[token.value] };
+        }
+        return { type: "name", name: token.value };
+      case "symbol":
+        if (token.value == "(") {
+          const node = parseOr();
+          expect(")");
+          return node;
+        }
+        if (token.value == "[") {
+          return { type: "array", items: parseList("]") };
+        }
+    }
+    throw new ConditionExpressionError(
+      `Unexpected '${token.value}'`,
+      token.position,
+    );
+  };
+
+  if (!tokens.length) throw new ConditionExpressionError("Empty expression");
+  const tree = parseOr();
+  if (index < tokens.length) {
+    throw new ConditionExpressionError(
+      `Unexpected '${tokens[index].value}'`,
+      tokens[index].position,
+    );
+  }
+  return tree;
+}
+
+/**
+ * Node names an expression reads outputs from.
+ */
+export function findExpressionReferences(node: ExpressionNode): string[] {
+  switch (node.type) {
+    case "name":
+      return [node.name];
+    case "member":
+      return [
+        ...findExpressionReferences(node.object),
+        ...findExpressionReferences(node.property),
+      ];
+    case "array":
+      return node.items.flatMap(findExpressionReferences);
+    case "negate":
+      return findExpressionReferences(node.operand);
+    case "binary":
+      return [
+        ...findExpressionReferences(node.left),
+        ...findExpressionReferences(node.right),
+      ];
+    case "call":
+      return node.args.flatMap(findExpressionReferences);
+  }
+  return [];
+}
+
+/**
+ * Truthiness of expression results: empty strings, lists and objects are
+ * false like missing values.
+ */
+export function toExpressionBoolean(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (value && typeof value == "object") return Object.keys(value).length > 0;
+  return Boolean(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a && b && typeof a == "object" && typeof b == "object") {
+    return JSON.stringify(a) == JSON.stringify(b);
+  }
+  return false;
+}
+
+function toNumber(value: unknown, context: string): number {
+  const number = typeof value == "string" ? Number(value) : value;
+  if (typeof number != "number" || Number.isNaN(number)) {
+    throw new ConditionExpressionError(`${context} expects a number`);
+  }
+  return number;
+}
+
+function toMillis(value: unknown): number {
+  const time =
+    value instanceof Date
+      ? value.getTime()
+      : typeof value == "number"
+        ? value
+        : Date.parse(String(value));
+  if (Number.isNaN(time)) {
+    throw new ConditionExpressionError(`'${value}' is not a date`);
+  }
+  return time;
+}
+
+const QUANTIFIER = /^(?:[*+]|\{\d+,\d*\})/;
+
+// Whether a repeated group contains another repetition, like `(a+)+`, the
+// shape that makes backtracking take exponential time.
+function hasNestedQuantifier(pattern: string): boolean {
+  // For every open group, whether it contains a repetition
+  const groups: boolean[] = [];
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char == "\\") {
+      i++;
+    } else if (char == "[") {
+      for (i++; i < pattern.length && pattern[i] != "]"; i++) {
+        if (pattern[i] == "\\") i++;
+      }
+    } else if (char == "(") {
+      groups.push(false);
+    } else if (char == ")") {
+      const repeats = groups.pop();
+      if (repeats && QUANTIFIER.test(pattern.slice(i + 1))) return true;
+      if (repeats && groups.length) groups[groups.length - 1] = true;
+    } else if (groups.length && QUANTIFIER.test(pattern.slice(i))) {
+      groups[groups.length - 1] = true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Compiles a regular expression written by a user. Patterns run on the
+ * server against node outputs, so they are limited in length and may not
+ * nest repetitions, which keeps backtracking from hanging the process.
+ */
+export function toUserRegExp(pattern: string, flags?: string): RegExp {
+  if (pattern.length > MAX_REGEXP_PATTERN_LENGTH) {
+    throw new ConditionExpressionError(
+      `Regular expressions are limited to ${MAX_REGEXP_PATTERN_LENGTH} characters`,
+    );
+  }
+  if (hasNestedQuantifier(pattern)) {
+    throw new ConditionExpressionError(
+      "Regular expressions cannot repeat a group that contains a repetition, such as (a+)+",
+    );
+  }
+  return new RegExp(pattern, flags);
+}
+
+/**
+ * Tests a user regular expression (see `toUserRegExp`) against text of at
+ * most `MAX_REGEXP_INPUT_LENGTH` characters.
+ */
+export function testUserRegExp(
+  pattern: string,
+  value: string,
+  flags?: string,
+): boolean {
+  if (value.length > MAX_REGEXP_INPUT_LENGTH) {
+    throw new ConditionExpressionError(
+      `Regular expressions match text of up to ${MAX_REGEXP_INPUT_LENGTH} characters`,
+    );
+  }
+  return toUserRegExp(pattern, flags).test(value);
+}
+
+function lengthOf(value: unknown): number {
+  if (typeof value == "string" || Array.isArray(value)) return value.length;
+  if (value === undefined || value === null) return 0;
+  throw new ConditionExpressionError("$length expects a string or a list");
+}
+
+const EXPRESSION_FUNCTIONS: Record<string, (...args: unknown[]) => unknown> = {
+  $length: lengthOf,
+  $contains: (value, search) =>
+    Array.isArray(value)
+      ? value.some((item) => isEqual(item, search))
+      : String(value ?? "").includes(String(search)),
+  $matches: (value, pattern, flags) =>
+    testUserRegExp(
+      String(pattern),
+      String(value ?? ""),
+      flags ? String(flags) : undefined,
+    ),
+  $lowercase: (value) => String(value ?? "").toLowerCase(),
+  $uppercase: (value) => String(value ?? "").toUpperCase(),
+  $trim: (value) => String(value ?? "").trim(),
+  $number: (value) => toNumber(value, "$number"),
+  $string: (value) =>
+    value && typeof value == "object"
+      ? JSON.stringify(value)
+      : String(value ?? ""),
+  $boolean: toExpressionBoolean,
+  $not: (value) => !toExpressionBoolean(value),
+  $exists: (value) => value !== undefined && value !== null,
+  $toMillis: toMillis,
+  $now: () => Date.now(),
+};
+
+function compare(operator: string, left: unknown, right: unknown): boolean {
+  if (operator == "=") return isEqual(left, right);
+  if (operator == "!=") return !isEqual(left, right);
+  const bothStrings = typeof left == "string" && typeof right == "string";
+  const a = bothStrings ? left : toNumber(left, `'${operator}'`);
+  const b = bothStrings ? right : toNumber(right, `'${operator}'`);
+  switch (operator) {
+    case "<":
+      return a < b;
+    case "<=":
+      return a <= b;
+    case ">":
+      return a > b;
+    default:
+      return a >= b;
+  }
+}
+
+function evaluate(
+  node: ExpressionNode,
+  resolve: (name: string) => unknown,
+): unknown {
+  switch (node.type) {
+    case "literal":
+      return node.value;
+    case "name":
+      return resolve(node.name);
+    case "array":
+      return node.items.map((item) => evaluate(item, resolve));
+    case "negate":
+      return -toNumber(evaluate(node.operand, resolve), "'-'");
+    case "member": {
+      const object = evaluate(node.object, resolve) as any;
+      const property = evaluate(node.property, resolve);
+      if (object === undefined || object === null) return undefined;
+      if (Array.isArray(object) && typeof property == "number") {
+        return object.at(property);
+      }
+      return Object.hasOwn(Object(object), String(property))
+        ? object[String(property)]
+        : undefined;
+    }
+    case "call":
+      return EXPRESSION_FUNCTIONS[node.name](
+        ...node.args.map((arg) => evaluate(arg, resolve)),
+      );
+    case "binary": {
+      if (node.operator == "and") {
+        return (
+          toExpressionBoolean(evaluate(node.left, resolve)) &&
+          toExpressionBoolean(evaluate(node.right, resolve))
+        );
+      }
+      if (node.operator == "or") {
+        return (
+          toExpressionBoolean(evaluate(node.left, resolve)) ||
+          toExpressionBoolean(evaluate(node.right, resolve))
+        );
+      }
+      const left = evaluate(node.left, resolve);
+      const right = evaluate(node.right, resolve);
+      switch (node.operator) {
+        case "in":
+          return Array.isArray(right)
+            ? right.some((item) => isEqual(item, left))
+            : isEqual(left, right);
+        case "&":
+          return (
+            (EXPRESSION_FUNCTIONS.$string(left) as string) +
+            (EXPRESSION_FUNCTIONS.$string(right) as string)
+          );
+        case "+":
+          return toNumber(left, "'+'") + toNumber(right, "'+'");
+        case "-":
+          return toNumber(left, "'-'") - toNumber(right, "'-'");
+        case "*":
+          return toNumber(left, "'*'") * toNumber(right, "'*'");
+        case "/":
+          return toNumber(left, "'/'") / toNumber(right, "'/'");
+        case "%":
+          return toNumber(left, "'%'") % toNumber(right, "'%'");
+      }
+      return compare(node.operator, left, right);
+    }
+  }
+}
+
+/**
+ * Evaluates an expression to a branch decision.
+ *
+ * @param resolve - Returns the output of the node with the given name
+ */
+export function checkConditionExpression(
+  expression: string,
+  resolve: (name: string) => unknown,
+): boolean {
+  return toExpressionBoolean(
+    evaluate(parseConditionExpression(expression), resolve),
+  );
+}
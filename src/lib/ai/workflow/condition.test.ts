@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import {
+  ArrayConditionOperator,
+  checkConditionBranch,
+  ConditionOperator,
+  ConditionRule,
+  DateConditionOperator,
+  NumberConditionOperator,
+  StringConditionOperator,
+} from "./condition";
+import { OutputSchemaSourceKey } from "./workflow.interface";
+
+const outputs: Record<string, unknown> = {
+  code: "INV-2041",
+  color: "green",
+  count: 3,
+  createdAt: "2025-03-01T10:00:00Z",
+  deadline: "2025-03-02T00:00:00Z",
+  tags: ["urgent", "billing"],
+  allowed: ["green", "blue"],
+};
+
+const getSourceValue = (source: OutputSchemaSourceKey) =>
+  outputs[source.path[0]];
+
+const check = (
+  key: string,
+  operator: ConditionOperator,
+  value?: string,
+  valueSourceKey?: string,
+) => {
+  const condition: ConditionRule = {
+    source: { nodeId: "n", path: [key] },
+    operator,
+    value,
+    valueSource: valueSourceKey
+      ? { nodeId: "n", path: [valueSourceKey] }
+      : undefined,
+  };
+  return checkConditionBranch(
+    {
+      id: "if",
+      type: "if",
+      conditions: [condition],
+      logicalOperator: "AND",
+    },
+    getSourceValue,
+  );
+};
+
+describe("checkConditionBranch", () => {
+  it("matches regular expressions", () => {
+    expect(check("code", StringConditionOperator.Matches, "^INV-\\d+$")).toBe(
+      true,
+    );
+    expect(check("code", StringConditionOperator.Matches, "^PO-")).toBe(false);
+    // Invalid patterns never match
+    expect(check("code", StringConditionOperator.Matches, "(")).toBe(false);
+  });
+
+  it("checks membership of comma separated lists", () => {
+    expect(
+      check("color", StringConditionOperator.InList, "red, green, blue"),
+    ).toBe(true);
+    expect(check("color", StringConditionOperator.NotInList, "red, blue")).toBe(
+      true,
+    );
+    expect(check("count", NumberConditionOperator.InList, "1,2,3")).toBe(true);
+  });
+
+  it("compares dates", () => {
+    expect(check("createdAt", DateConditionOperator.Before, "2025-03-02")).toBe(
+      true,
+    );
+    expect(check("createdAt", DateConditionOperator.After, "2025-03-02")).toBe(
+      false,
+    );
+    expect(
+      check("createdAt", DateConditionOperator.SameDay, "2025-03-01"),
+    ).toBe(true);
+    expect(check("createdAt", DateConditionOperator.Before, "soon")).toBe(
+      false,
+    );
+  });
+
+  it("checks array contents and length", () => {
+    expect(check("tags", ArrayConditionOperator.Contains, "urgent")).toBe(true);
+    expect(check("tags", ArrayConditionOperator.Contains, "urg")).toBe(false);
+    expect(check("tags", ArrayConditionOperator.IsEmpty)).toBe(false);
+    expect(check("tags", ArrayConditionOperator.LengthEquals, "2")).toBe(true);
+    expect(check("tags", ArrayConditionOperator.LengthGreaterThan, "2")).toBe(
+      false,
+    );
+    expect(check("tags", ArrayConditionOperator.LengthLessThan, "3")).toBe(
+      true,
+    );
+  });
+
+  it("compares with another node output", () => {
+    expect(
+      check("createdAt", DateConditionOperator.Before, undefined, "deadline"),
+    ).toBe(true);
+    expect(
+      check("color", StringConditionOperator.InList, undefined, "allowed"),
+    ).toBe(true);
+    expect(
+      check("count", NumberConditionOperator.GreaterThan, "10", "count"),
+    ).toBe(false);
+  });
+});
@@ -1,5 +1,6 @@
 import { safe } from "ts-safe";
 import { OutputSchemaSourceKey } from "./workflow.interface";
+import { testUserRegExp } from "./condition-expression";
 
 /**
  * Condition operators for string-based comparisons.
@@ -14,6 +15,9 @@ export enum StringConditionOperator {
   EndsWith = "ends_with",
   IsEmpty = "is_empty",
   IsNotEmpty = "is_not_empty",
+  Matches = "matches", // Regular expression
+  InList = "in_list", // Comma separated values, or a list from another output
+  NotInList = "not_in_list",
 }
 
 /**
@@ -27,6 +31,30 @@ export enum NumberConditionOperator {
   LessThan = "less_than",
   GreaterThanOrEqual = "greater_than_or_equal",
   LessThanOrEqual = "less_than_or_equal",
+  InList = StringConditionOperator.InList,
+  NotInList = StringConditionOperator.NotInList,
+}
+
+/**
+ * Condition operators for dates, given as ISO strings or timestamps.
+ */
+export enum DateConditionOperator {
+  Before = "before",
+  After = "after",
+  SameDay = "same_day", // Same calendar day in UTC
+}
+
+/**
+ * Condition operators for arrays: membership and length checks.
+ */
+export enum ArrayConditionOperator {
+  Contains = StringConditionOperator.Contains,
+  NotContains = StringConditionOperator.NotContains,
+  IsEmpty = StringConditionOperator.IsEmpty,
+  IsNotEmpty = StringConditionOperator.IsNotEmpty,
+  LengthEquals = "length_equals",
+  LengthGreaterThan = "length_greater_than",
+  LengthLessThan = "length_less_than",
 }
 
 /**
@@ -42,7 +70,7 @@ export enum BooleanConditionOperator {
  * Used when creating new conditions in the UI.
  */
 export function getFirstConditionOperator(
-  type: "string" | "number" | "boolean",
+  type: "string" | "number" | "boolean" | "array",
 ) {
   switch (type) {
     case "string":
@@ -51,6 +79,8 @@ export function getFirstConditionOperator(
       return NumberConditionOperator.Equals;
     case "boolean":
       return BooleanConditionOperator.IsTrue;
+    case "array":
+      return ArrayConditionOperator.Contains;
     default:
       return StringConditionOperator.Equals;
   }
@@ -62,7 +92,9 @@ export function getFirstConditionOperator(
 export type ConditionOperator =
   | StringConditionOperator
   | NumberConditionOperator
-  | BooleanConditionOperator;
+  | BooleanConditionOperator
+  | DateConditionOperator
+  | ArrayConditionOperator;
 
 /**
  * A single condition rule that compares a value from a node output
@@ -72,6 +104,7 @@ export type ConditionRule = {
   source: OutputSchemaSourceKey; // Reference to another node's output field
   operator: ConditionOperator;
   value?: string | number | boolean; // Comparison value (not needed for is_empty, is_not_empty, is_true, is_false)
+  valueSource?: OutputSchemaSourceKey; // Compare with another node's output instead of `value`
 };
 
 /**
@@ -83,6 +116,8 @@ export type ConditionBranch = {
   type: "if" | "elseIf" | "else";
   conditions: ConditionRule[]; // Not needed for 'else' type
   logicalOperator: "AND" | "OR"; // How to combine multiple conditions, not needed for 'else'
+  mode?: "rules" | "expression"; // Defaults to "rules"
+  expression?: string; // Evaluated instead of `conditions` in expression mode
 };
 
 /**
@@ -104,15 +139,15 @@ export type ConditionBranches = {
  */
 export function checkConditionBranch(
   branch: ConditionBranch,
-  getSourceValue: (
-    source: OutputSchemaSourceKey,
-  ) => string | number | boolean | undefined,
+  getSourceValue: (source: OutputSchemaSourceKey) => unknown,
 ): boolean {
   // Evaluate all conditions in the branch
   const results = branch.conditions?.map((condition) => {
     return checkConditionRule({
       operator: condition.operator,
-      target: String(condition.value || ""),
+      target: condition.valueSource
+        ? getSourceValue(condition.valueSource)
+        : String(condition.value || ""),
       source: getSourceValue(condition.source),
     });
   }) ?? [false];
@@ -124,6 +159,26 @@ export function checkConditionBranch(
   return results.some((result) => result);
 }
 
+/**
+ * Splits a target into list items: lists are used as is, anything else is
+ * read as comma separated values.
+ */
+function toList(target: unknown): unknown[] {
+  if (Array.isArray(target)) return target;
+  return String(target ?? "")
+    .split(",")
+    .map((item) => item.trim());
+}
+
+function toTime(value: unknown): number {
+  if (typeof value == "number") return value;
+  return Date.parse(String(value));
+}
+
+function lengthOf(value: unknown): number {
+  return Array.isArray(value) || typeof value == "string" ? value.length : 0;
+}
+
 /**
  * Evaluates a single condition rule.
  *
@@ -136,10 +191,22 @@ function checkConditionRule({
   source,
 }: {
   operator: ConditionOperator;
-  target: string;
-  source?: string | number | boolean;
+  target: unknown;
+  source?: unknown;
 }): boolean {
   return safe(() => {
+    if (Array.isArray(source)) {
+      switch (operator) {
+        case ArrayConditionOperator.Contains:
+          return source.some((item) => String(item) == String(target));
+        case ArrayConditionOperator.NotContains:
+          return !source.some((item) => String(item) == String(target));
+        case ArrayConditionOperator.IsEmpty:
+          return source.length == 0;
+        case ArrayConditionOperator.IsNotEmpty:
+          return source.length > 0;
+      }
+    }
     switch (operator) {
       case StringConditionOperator.Equals:
         if (source == target) return true;
@@ -183,6 +250,39 @@ function checkConditionRule({
       case BooleanConditionOperator.IsFalse:
         if (!source) return true;
         break;
+      case StringConditionOperator.Matches:
+        if (testUserRegExp(String(target), String(source ?? ""))) return true;
+        break;
+      case StringConditionOperator.InList:
+        if (toList(target).some((item) => String(item) == String(source)))
+          return true;
+        break;
+      case StringConditionOperator.NotInList:
+        if (!toList(target).some((item) => String(item) == String(source)))
+          return true;
+        break;
+      case DateConditionOperator.Before:
+        if (toTime(source) < toTime(target)) return true;
+        break;
+      case DateConditionOperator.After:
+        if (toTime(source) > toTime(target)) return true;
+        break;
+      case DateConditionOperator.SameDay:
+        if (
+          new Date(toTime(source)).toISOString().slice(0, 10) ==
+          new Date(toTime(target)).toISOString().slice(0, 10)
+        )
+          return true;
+        break;
+      case ArrayConditionOperator.LengthEquals:
+        if (lengthOf(source) == Number(target)) return true;
+        break;
+      case ArrayConditionOperator.LengthGreaterThan:
+        if (lengthOf(source) > Number(target)) return true;
+        break;
+      case ArrayConditionOperator.LengthLessThan:
+        if (lengthOf(source) < Number(target)) return true;
+        break;
     }
     return false;
   })
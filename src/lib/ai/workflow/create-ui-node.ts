@@ -2,6 +2,7 @@ import { generateUUID } from "lib/utils";
 import { NodeKind, UINode } from "./workflow.interface";
 import { defaultObjectJsonSchema } from "./shared.workflow";
 import { ObjectJsonSchema7 } from "app-types/util";
+import { DEFAULT_LOOP_CONCURRENCY } from "./loop";
 
 export function createUINode(
   kind: NodeKind,
@@ -103,6 +104,24 @@ export function createUINode(
         content: [],
       },
     };
+  } else if (node.data.kind === NodeKind.Code) {
+    node.data.outputSchema = structuredClone(defaultCodeNodeOutputSchema);
+    node.data.language = "javascript";
+    node.data.code = "return {};";
+    node.data.variables = [];
+    node.data.timeout = 30000;
+  } else if (node.data.kind === NodeKind.Loop) {
+    node.data.outputSchema = structuredClone(defaultLoopNodeOutputSchema);
+    node.data.concurrency = DEFAULT_LOOP_CONCURRENCY;
+  } else if (node.data.kind === NodeKind.SubWorkflow) {
+    node.data.inputs = [];
+  } else if (node.data.kind === NodeKind.Approval) {
+    node.data.outputSchema = structuredClone(defaultApprovalNodeOutputSchema);
+    node.data.message = {
+      type: "doc",
+      content: [],
+    };
+    node.data.approver = { type: "owner" };
   }
 
   return node;
@@ -128,3 +147,51 @@ export const defaultTemplateNodeOutputSchema: ObjectJsonSchema7 = {
     },
   },
 };
+
+export const defaultCodeNodeOutputSchema: ObjectJsonSchema7 = {
+  type: "object",
+  properties: {
+    result: {
+      type: "object",
+    },
+    logs: {
+      type: "array",
+      items: {
+        type: "string",
+      },
+    },
+  },
+};
+
+export const defaultLoopNodeOutputSchema: ObjectJsonSchema7 = {
+  type: "object",
+  properties: {
+    item: {
+      type: "object",
+    },
+    index: {
+      type: "number",
+    },
+    results: {
+      type: "array",
+      items: {
+        type: "object",
+      },
+    },
+  },
+};
+
+export const defaultApprovalNodeOutputSchema: ObjectJsonSchema7 = {
+  type: "object",
+  properties: {
+    approved: {
+      type: "boolean",
+    },
+    decidedBy: {
+      type: "string",
+    },
+    comment: {
+      type: "string",
+    },
+  },
+};
@@ -0,0 +1,95 @@
+import { describe, expect, it, vi } from "vitest";
+import { NodeTimeoutError, runWithErrorPolicy } from "./error-policy";
+
+describe("runWithErrorPolicy", () => {
+  it("retries until the node succeeds", async () => {
+    const execute = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("502"))
+      .mockResolvedValueOnce({ output: { ok: true } });
+
+    const result = await runWithErrorPolicy(
+      { retries: 2, retryBackoff: 0 },
+      execute,
+    );
+
+    expect(result).toEqual({
+      isOk: true,
+      value: { output: { ok: true } },
+      attempts: 2,
+    });
+    expect(execute).toHaveBeenCalledTimes(2);
+  });
+
+  it("returns the last error once attempts run out", async () => {
+    const execute = vi.fn().mockRejectedValue(new Error("rate limited"));
+
+    const result = await runWithErrorPolicy(
+      { retries: 1, retryBackoff: 0 },
+      execute,
+    );
+
+    expect(result.isOk).toBe(false);
+    expect(result.attempts).toBe(2);
+    expect(!result.isOk && result.error).toEqual(new Error("rate limited"));
+  });
+
+  it("fails attempts that exceed the timeout", async () => {
+    const result = await runWithErrorPolicy(
+      { timeout: 10 },
+      () => new Promise((resolve) => setTimeout(resolve, 1000)),
+    );
+
+    expect(!result.isOk && result.error).toBeInstanceOf(NodeTimeoutError);
+  });
+
+  it("aborts an attempt that times out before retrying", async () => {
+    const signals: AbortSignal[] = [];
+    const execute = vi.fn((signal: AbortSignal) => {
+      signals.push(signal);
+      return new Promise((resolve) => setTimeout(resolve, 1000));
+    });
+
+    const result = await runWithErrorPolicy(
+      { retries: 1, retryBackoff: 0, timeout: 10 },
+      execute,
+    );
+
+    expect(result.attempts).toBe(2);
+    expect(signals).toHaveLength(2);
+    expect(signals.every((signal) => signal.aborted)).toBe(true);
+    expect(signals[0].reason).toBeInstanceOf(NodeTimeoutError);
+  });
+
+  it("stops retrying once the caller aborts", async () => {
+    const controller = new AbortController();
+    const execute = vi.fn((signal: AbortSignal) => {
+      controller.abort(new Error("run stopped"));
+      signal.throwIfAborted();
+    });
+
+    const result = await runWithErrorPolicy(
+      { retries: 3, retryBackoff: 0 },
+      execute,
+      controller.signal,
+    );
+
+    expect(result).toEqual({
+      isOk: false,
+      error: new Error("run stopped"),
+      attempts: 1,
+    });
+    expect(execute).toHaveBeenCalledTimes(1);
+  });
+
+  it("runs once without a policy", async () => {
+    const execute = vi.fn().mockImplementation(() => {
+      throw new Error("boom");
+    });
+
+    const result = await runWithErrorPolicy(undefined, execute);
+
+    expect(result.isOk).toBe(false);
+    expect(execute).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,108 @@
+import { errorToString, toAny, wait } from "lib/utils";
+import { NodeErrorPolicy, NodeKind } from "./workflow.interface";
+
+/**
+ * Source handle of the edges taken when a node fails and its policy
+ * routes errors to a dedicated branch.
+ */
+export const ERROR_BRANCH_HANDLE = "error";
+
+export const DEFAULT_RETRY_BACKOFF = 1000;
+export const MAX_NODE_RETRIES = 5;
+
+/**
+ * Node kinds that call out to models, tools or user code and can declare
+ * an error policy.
+ */
+export const ERROR_POLICY_NODE_KINDS: NodeKind[] = [
+  NodeKind.LLM,
+  NodeKind.Tool,
+  NodeKind.Http,
+  NodeKind.Template,
+  NodeKind.Code,
+  NodeKind.Loop,
+  NodeKind.SubWorkflow,
+];
+
+export type NodeExecutionError = {
+  name: string;
+  message: string;
+  attempts: number;
+};
+
+export class NodeTimeoutError extends Error {
+  constructor(timeout: number) {
+    super(`Node timed out after ${timeout}ms`);
+    this.name = "NodeTimeoutError";
+  }
+}
+
+/**
+ * Runs one attempt. Its signal aborts when the attempt times out or `parent`
+ * aborts, so work the attempt started stops before the next one begins.
+ */
+function runAttempt<T>(
+  execute: (signal: AbortSignal) => T | Promise<T>,
+  timeout?: number,
+  parent?: AbortSignal,
+): Promise<T> {
+  const controller = new AbortController();
+  const signal = parent
+    ? AbortSignal.any([controller.signal, parent])
+    : controller.signal;
+  const attempt = Promise.resolve().then(() => execute(signal));
+  if (!timeout) return attempt;
+  let timer: ReturnType<typeof setTimeout>;
+  return Promise.race([
+    attempt,
+    new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const error = new NodeTimeoutError(timeout);
+        controller.abort(error);
+        reject(error);
+      }, timeout);
+    }),
+  ]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Runs `execute` with the retries and timeout of the policy.
+ * Retries wait `retryBackoff` ms, doubling after every attempt.
+ * Every attempt gets its own abort signal, linked to `signal` when given.
+ * Resolves with the last error instead of throwing once attempts run out.
+ */
+export async function runWithErrorPolicy<T>(
+  policy: NodeErrorPolicy | undefined,
+  execute: (signal: AbortSignal) => T | Promise<T>,
+  signal?: AbortSignal,
+): Promise<
+  | { isOk: true; value: T; attempts: number }
+  | { isOk: false; error: unknown; attempts: number }
+> {
+  const retries = Math.min(Math.max(policy?.retries ?? 0, 0), MAX_NODE_RETRIES);
+  const backoff = policy?.retryBackoff ?? DEFAULT_RETRY_BACKOFF;
+  let error: unknown;
+  for (let attempt = 1; attempt <= retries + 1; attempt++) {
+    if (attempt > 1) await wait(backoff * 2 ** (attempt - 2));
+    try {
+      const value = await runAttempt(execute, policy?.timeout, signal);
+      return { isOk: true, value, attempts: attempt };
+    } catch (err) {
+      error = err;
+      // The caller gave up, so there is nobody left to retry for
+      if (signal?.aborted) return { isOk: false, error, attempts: attempt };
+    }
+  }
+  return { isOk: false, error, attempts: retries + 1 };
+}
+
+export function toNodeExecutionError(
+  error: unknown,
+  attempts: number,
+): NodeExecutionError {
+  return {
+    name: toAny(error)?.name || "ERROR",
+    message: errorToString(error),
+    attempts,
+  };
+}
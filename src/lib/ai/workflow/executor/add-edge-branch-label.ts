@@ -1,17 +1,26 @@
 import { DBEdge, DBNode } from "app-types/workflow";
 import { NodeKind } from "../workflow.interface";
+import { ERROR_BRANCH_HANDLE } from "../error-policy";
 
-export function addEdgeBranchLabel(nodes: DBNode[], edges: DBEdge[]) {
+export function addEdgeBranchLabel(
+  nodes: DBNode[],
+  edges: DBEdge[],
+  startNodeId: string = nodes.find((n) => n.kind === NodeKind.Input)!.id,
+) {
   const outs = (id: string) => edges.filter((e) => e.source === id);
-  const start = nodes.find((n) => n.kind === NodeKind.Input)!;
-  const q: { id: string; bid: string }[] = [{ id: start.id, bid: "B0" }];
+  const q: { id: string; bid: string }[] = [{ id: startNodeId, bid: "B0" }];
 
   while (q.length) {
     const { id, bid } = q.shift()!;
     const node = nodes.find((n) => n.id === id)!;
     const nexts = outs(id);
 
-    if (node.kind === NodeKind.Condition) {
+    // Handles of a condition (and a node's error handle) are exclusive paths
+    const isExclusive =
+      node.kind === NodeKind.Condition ||
+      nexts.some((e) => e.uiConfig.sourceHandle === ERROR_BRANCH_HANDLE);
+
+    if (isExclusive) {
       const byHandle = new Map<string, DBEdge[]>();
       nexts.forEach((e) => {
         const h = e.uiConfig.sourceHandle ?? "right";
@@ -1,12 +1,28 @@
 import { objectFlow, toAny } from "lib/utils";
 import { OutputSchemaSourceKey } from "../workflow.interface";
 import { graphStore } from "ts-edge";
-import { DBEdge, DBNode } from "app-types/workflow";
+import {
+  DBEdge,
+  DBNode,
+  WorkflowApprovalDecision,
+  WorkflowRunSnapshot,
+} from "app-types/workflow";
 import { ObjectJsonSchema7 } from "app-types/util";
 import { defaultObjectJsonSchema } from "../shared.workflow";
+import { NodeExecutionError } from "../error-policy";
+
+/**
+ * Who runs the workflow, and the ids of the workflows that led to this run.
+ * Sub-workflow nodes use it for access checks and recursion protection.
+ */
+export type WorkflowExecutionContext = {
+  userId?: string;
+  workflowIds: string[];
+};
 
 export interface WorkflowRuntimeState {
   query: Record<string, unknown>;
+  context: WorkflowExecutionContext;
   inputs: {
     [nodeId: string]: any;
   };
@@ -15,21 +31,44 @@ export interface WorkflowRuntimeState {
   outputs: {
     [nodeId: string]: any;
   };
+  errors: {
+    [nodeId: string]: NodeExecutionError;
+  };
+  // Decisions for Approval nodes, filled in when a suspended run resumes
+  approvals: {
+    [nodeId: string]: WorkflowApprovalDecision;
+  };
+  waitingNodeIds: string[];
+  // Branches each merge node still waits for before it runs
+  branchWaits: {
+    [nodeId: string]: number;
+  };
   setInput(nodeId: string, value: any): void;
   getInput(nodeId: string): any;
   setOutput(key: OutputSchemaSourceKey, value: any): void;
   getOutput<T>(key: OutputSchemaSourceKey): undefined | T;
+  setError(nodeId: string, error: NodeExecutionError): void;
+  getError(nodeId: string): NodeExecutionError | undefined;
+  suspend(nodeId: string): void;
+  isWaiting(nodeId: string): boolean;
 }
 
 export const createGraphStore = (params: {
   nodes: DBNode[];
   edges: DBEdge[];
+  context?: WorkflowExecutionContext;
+  branchWaits?: Record<string, number>;
 }) => {
   return graphStore<WorkflowRuntimeState>((set, get) => {
     return {
       query: {},
+      context: params.context ?? { workflowIds: [] },
       outputs: {},
       inputs: {},
+      errors: {},
+      approvals: {},
+      waitingNodeIds: [],
+      branchWaits: { ...params.branchWaits },
       nodes: params.nodes,
       edges: params.edges,
       setInput(nodeId, value) {
@@ -52,6 +91,23 @@ export const createGraphStore = (params: {
           };
         });
       },
+      setError(nodeId, error) {
+        set((prev) => {
+          return { errors: { ...prev.errors, [nodeId]: error } };
+        });
+      },
+      getError(nodeId) {
+        const { errors } = get();
+        return errors[nodeId];
+      },
+      suspend(nodeId) {
+        set((prev) => {
+          return { waitingNodeIds: [...prev.waitingNodeIds, nodeId] };
+        });
+      },
+      isWaiting(nodeId) {
+        return get().waitingNodeIds.includes(nodeId);
+      },
       getOutput(key) {
         const { outputs, nodes } = get();
         const targetNode = nodes.find((n) => n.id == key.nodeId);
@@ -76,3 +132,25 @@ export const createGraphStore = (params: {
     };
   });
 };
+
+/**
+ * The parts of the runtime state a suspended run needs to resume.
+ */
+export function snapshotRuntimeState(
+  state: WorkflowRuntimeState,
+  chat?: WorkflowRunSnapshot["chat"],
+): WorkflowRunSnapshot {
+  return {
+    nodes: state.nodes,
+    edges: state.edges,
+    context: state.context,
+    query: state.query,
+    inputs: state.inputs,
+    outputs: state.outputs,
+    errors: state.errors,
+    approvals: state.approvals,
+    waitingNodeIds: state.waitingNodeIds,
+    branchWaits: state.branchWaits,
+    chat,
+  };
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it, vi } from "vitest";
+import { CodeNodeData, NodeKind } from "../workflow.interface";
+import { defaultCodeNodeOutputSchema } from "../create-ui-node";
+
+vi.mock("server-only", () => ({}));
+vi.mock("lib/ai/models", () => ({ customModelProvider: {} }));
+vi.mock("lib/ai/mcp/mcp-manager", () => ({ mcpClientsManager: {} }));
+vi.mock("lib/ai/tools/workflow-tool-kit", () => ({}));
+
+const { codeNodeExecutor } = await import("./node-executor");
+
+const codeNode = (data: Partial<CodeNodeData>): CodeNodeData => ({
+  id: "code",
+  name: "CODE",
+  kind: NodeKind.Code,
+  outputSchema: structuredClone(defaultCodeNodeOutputSchema),
+  language: "javascript",
+  code: "return {};",
+  variables: [],
+  ...data,
+});
+
+const createState = (outputs: Record<string, any>) => {
+  const inputs: Record<string, any> = {};
+  return {
+    inputs,
+    setInput: (nodeId: string, value: any) => {
+      inputs[nodeId] = value;
+    },
+    getOutput: ({ nodeId, path }: { nodeId: string; path: string[] }) =>
+      path.reduce((acc, key) => acc?.[key], outputs[nodeId]),
+  } as any;
+};
+
+describe("codeNodeExecutor", () => {
+  it("binds referenced outputs as variables and captures logs", async () => {
+    const state = createState({ input: { items: [2, 3] } });
+    const result = await codeNodeExecutor({
+      node: codeNode({
+        code: 'console.log("sum", items[0] + items[1]); console.warn({ ok: true }); return { sum: items[0] + items[1] };',
+        variables: [
+          { key: "items", source: { nodeId: "input", path: ["items"] } },
+        ],
+      }),
+      state,
+    });
+
+    expect(result.output).toEqual({
+      result: { sum: 5 },
+      logs: ["sum 5", '[warn] {"ok":true}'],
+    });
+    expect(state.inputs.code).toEqual({
+      language: "javascript",
+      variables: { items: [2, 3] },
+    });
+  });
+
+  it("rejects results that do not match the result schema", async () => {
+    const node = codeNode({ code: 'return { sum: "five" };' });
+    node.outputSchema.properties.result = {
+      type: "object",
+      properties: { sum: { type: "number" } },
+      required: ["sum"],
+    };
+
+    await expect(
+      codeNodeExecutor({ node, state: createState({}) }),
+    ).rejects.toThrow("does not match the output schema");
+  });
+
+  it("surfaces runtime errors with the captured logs", async () => {
+    const state = createState({});
+    await expect(
+      codeNodeExecutor({
+        node: codeNode({ code: 'console.log("before"); missing();' }),
+        state,
+      }),
+    ).rejects.toThrow("missing is not defined");
+    expect(state.inputs.code.logs).toContain("before");
+  });
+});
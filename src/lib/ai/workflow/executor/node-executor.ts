@@ -8,6 +8,8 @@ import {
   ToolNodeData,
   HttpNodeData,
   TemplateNodeData,
+  CodeNodeData,
+  ApprovalNodeData,
   OutputSchemaSourceKey,
 } from "../workflow.interface";
 import { WorkflowRuntimeState } from "./graph-store";
@@ -18,30 +20,37 @@ import {
   UIMessage,
 } from "ai";
 import { checkConditionBranch } from "../condition";
+import { checkConditionExpression } from "../condition-expression";
 import {
   convertTiptapJsonToAiMessage,
   convertTiptapJsonToText,
 } from "../shared.workflow";
 import { jsonSchemaToZod } from "lib/json-schema-to-zod";
-import { toAny } from "lib/utils";
+import { errorToString, toAny } from "lib/utils";
 import { AppError } from "lib/errors";
-import { DefaultToolName } from "lib/ai/tools";
-import {
-  exaSearchToolForWorkflow,
-  exaContentsToolForWorkflow,
-} from "lib/ai/tools/web/web-search";
+import { getWorkflowAppTool } from "lib/ai/tools/workflow-tool-kit";
+import { KnowledgeBaseToolContext } from "lib/ai/tools/knowledge-base/search-knowledge-base";
 import { mcpClientsManager } from "lib/ai/mcp/mcp-manager";
+import {
+  mcpRepository,
+  userRepository,
+  workflowRepository,
+} from "lib/db/repository";
+import { runCodeInSandbox } from "lib/code-runner/sandbox-run";
+import { LogEntry } from "lib/code-runner/code-runner.interface";
 
 /**
  * Interface for node executor functions.
  * Each node type implements this interface to define its execution behavior.
  *
- * @param input - Contains the node data and current workflow state
+ * @param input - Contains the node data and current workflow state, plus a
+ *   signal that aborts when the attempt times out or the run is given up
  * @returns Object with optional input and output data to be stored in workflow state
  */
 export type NodeExecutor<T extends WorkflowNodeData = any> = (input: {
   node: T;
   state: WorkflowRuntimeState;
+  signal?: AbortSignal;
 }) =>
   | Promise<{
       input?: any; // Input data used by this node (for debugging/history)
@@ -90,6 +99,7 @@ export const outputNodeExecutor: NodeExecutor<OutputNodeData> = ({
 export const llmNodeExecutor: NodeExecutor<LLMNodeData> = async ({
   node,
   state,
+  signal,
 }) => {
   const model = customModelProvider.getModel(node.model);
 
@@ -115,6 +125,7 @@ export const llmNodeExecutor: NodeExecutor<LLMNodeData> = async ({
     const response = await generateText({
       model,
       messages: convertToModelMessages(messages),
+      abortSignal: signal,
     });
     return {
       output: {
@@ -129,6 +140,7 @@ export const llmNodeExecutor: NodeExecutor<LLMNodeData> = async ({
     messages: convertToModelMessages(messages),
     schema: jsonSchemaToZod(node.outputSchema.properties.answer),
     maxRetries: 3,
+    abortSignal: signal,
   });
 
   return {
@@ -148,9 +160,22 @@ export const conditionNodeExecutor: NodeExecutor<ConditionNodeData> = async ({
   node,
   state,
 }) => {
+  // Expressions reference node outputs by node name
+  const getOutputByName = (name: string) => {
+    const target = state.nodes.find((node) => node.name == name);
+    if (!target) throw new Error(`Unknown node '${name}' in expression`);
+    return state.getOutput({ nodeId: target.id, path: [] });
+  };
+
   // Evaluate conditions in order: if, then elseIf branches, finally else
   const okBranch =
     [node.branches.if, ...(node.branches.elseIf || [])].find((branch) => {
+      if (branch.mode == "expression") {
+        return checkConditionExpression(
+          branch.expression ?? "",
+          getOutputByName,
+        );
+      }
       return checkConditionBranch(branch, state.getOutput);
     }) || node.branches.else;
 
@@ -172,6 +197,31 @@ export const conditionNodeExecutor: NodeExecutor<ConditionNodeData> = async ({
   };
 };
 
+// Tools report handled failures as `{ isError: true, error }` instead of
+// throwing: MCP tools with an `{ message, name }` error, app tools with a
+// string.
+type ToolErrorResult = {
+  isError: true;
+  error?: string | { message?: string; name?: string };
+};
+
+function isToolErrorResult(value: unknown): value is ToolErrorResult {
+  return (
+    typeof value == "object" &&
+    value != null &&
+    (value as { isError?: unknown }).isError === true
+  );
+}
+
+function toolErrorMessage({ error, ...result }: ToolErrorResult): string {
+  if (typeof error == "string" && error) return error;
+  if (typeof error == "object") {
+    const message = error.message || error.name;
+    if (message) return message;
+  }
+  return JSON.stringify({ error, ...result });
+}
+
 /**
  * Tool Node Executor
  * Executes external tools (primarily MCP tools) with optional LLM-generated parameters.
@@ -181,9 +231,25 @@ export const conditionNodeExecutor: NodeExecutor<ConditionNodeData> = async ({
  * 2. Execute the tool with generated or empty parameters
  * 3. Return the tool execution result
  */
+async function assertMcpServerAccess(
+  serverId: string,
+  serverName: string,
+  userId?: string,
+) {
+  const hasAccess =
+    !!userId &&
+    (await mcpRepository.selectAccessibleForUser(userId)).some(
+      (server) => server.id == serverId,
+    );
+  if (!hasAccess) {
+    throw new Error(`No access to MCP server '${serverName}'`);
+  }
+}
+
 export const toolNodeExecutor: NodeExecutor<ToolNodeData> = async ({
   node,
   state,
+  signal,
 }) => {
   const result: {
     input: any;
@@ -195,6 +261,16 @@ export const toolNodeExecutor: NodeExecutor<ToolNodeData> = async ({
 
   if (!node.tool) throw new Error("Tool not found");
 
+  // Checked on every run, including sub-workflows and scheduled runs, since
+  // access may have been revoked after the workflow was saved.
+  if (node.tool.type == "mcp-tool") {
+    await assertMcpServerAccess(
+      node.tool.serverId,
+      node.tool.serverName,
+      state.context.userId,
+    );
+  }
+
   // Handle parameter generation
   if (!node.tool?.parameterSchema) {
     // Tool doesn't need parameters
@@ -217,6 +293,7 @@ export const toolNodeExecutor: NodeExecutor<ToolNodeData> = async ({
       model: customModelProvider.getModel(node.model),
       toolChoice: "required", // Force the model to call the tool
       prompt: prompt || "",
+      abortSignal: signal,
       tools: {
         [node.tool.id]: {
           description: node.tool.description,
@@ -233,33 +310,38 @@ export const toolNodeExecutor: NodeExecutor<ToolNodeData> = async ({
 
   // Execute the tool based on its type
   if (node.tool.type == "mcp-tool") {
-    const toolResult = (await mcpClientsManager.toolCall(
+    const toolResult: unknown = await mcpClientsManager.toolCall(
       node.tool.serverId,
       node.tool.id,
       result.input.parameter,
-    )) as any;
-    if (toolResult.isError) {
-      throw new Error(
-        toolResult.error?.message ||
-          toolResult.error?.name ||
-          JSON.stringify(toolResult),
-      );
+      { userId: state.context.userId, signal },
+    );
+    if (isToolErrorResult(toolResult)) {
+      throw new Error(toolErrorMessage(toolResult));
     }
     result.output = {
       tool_result: toolResult,
     };
   } else if (node.tool.type == "app-tool") {
-    const executor =
-      node.tool.id == DefaultToolName.WebContent
-        ? exaContentsToolForWorkflow.execute
-        : node.tool.id == DefaultToolName.WebSearch
-          ? exaSearchToolForWorkflow.execute
-          : () => "Unknown tool";
-
-    const toolResult = await executor?.(result.input.parameter, {
+    const executor = getWorkflowAppTool(node.tool.id)?.execute;
+    if (!executor) throw new Error(`Unknown tool "${node.tool.id}"`);
+
+    // Tools that act for a user (e.g. knowledge base search) run as the
+    // user who started the workflow.
+    const context: Partial<KnowledgeBaseToolContext> = {
+      userId: state.context.userId,
+      citationOffset: 0,
+      citations: [],
+    };
+    const toolResult: unknown = await executor(result.input.parameter, {
       messages: [],
       toolCallId: "",
+      abortSignal: signal,
+      experimental_context: context,
     });
+    if (isToolErrorResult(toolResult)) {
+      throw new Error(toolErrorMessage(toolResult));
+    }
     result.output = {
       tool_result: toolResult,
     };
@@ -312,6 +394,7 @@ function resolveHttpValue(
 export const httpNodeExecutor: NodeExecutor<HttpNodeData> = async ({
   node,
   state,
+  signal,
 }) => {
   // Default timeout of 30 seconds
   const timeout = node.timeout || 30000;
@@ -378,7 +461,9 @@ export const httpNodeExecutor: NodeExecutor<HttpNodeData> = async ({
       method: node.method,
       headers,
       body,
-      signal: controller.signal,
+      signal: signal
+        ? AbortSignal.any([controller.signal, signal])
+        : controller.signal,
     });
 
     clearTimeout(timeoutId);
@@ -500,3 +585,136 @@ export const templateNodeExecutor: NodeExecutor<TemplateNodeData> = ({
     },
   };
 };
+
+/**
+ * Finds the user who decides an Approval node.
+ */
+async function findApproverUserId(
+  approver: ApprovalNodeData["approver"],
+  context: WorkflowRuntimeState["context"],
+): Promise<string> {
+  if (!approver) throw new Error("Approval node must have an approver");
+  if (approver.type == "user") {
+    const user = await userRepository.findByEmail(approver.email);
+    if (!user) throw new Error(`Approver ${approver.email} not found`);
+    return user.id;
+  }
+  // The workflow this node belongs to, which may be a sub-workflow
+  const workflowId = context.workflowIds.at(-1);
+  const workflow = workflowId
+    ? await workflowRepository.selectById(workflowId)
+    : null;
+  if (!workflow) throw new Error("Approval requires a saved workflow");
+  return workflow.userId;
+}
+
+/**
+ * Approval Node Executor
+ * Suspends the run the first time it executes; the run recorder persists the
+ * state and asks the approver to decide. When the run resumes with a
+ * decision, approving passes it on as the output and rejecting aborts the
+ * run.
+ */
+export const approvalNodeExecutor: NodeExecutor<ApprovalNodeData> = async ({
+  node,
+  state,
+}) => {
+  const message = node.message
+    ? convertTiptapJsonToText({
+        getOutput: state.getOutput,
+        json: node.message,
+      })
+    : "";
+  const decision = state.approvals[node.id];
+  if (!decision) {
+    const approverUserId = await findApproverUserId(
+      node.approver,
+      state.context,
+    );
+    state.suspend(node.id);
+    return {
+      input: { message, approverUserId },
+    };
+  }
+  if (!decision.approved) {
+    throw new Error(
+      `Rejected by ${decision.decidedBy}${decision.comment ? `: ${decision.comment}` : ""}`,
+    );
+  }
+  return {
+    input: { message },
+    output: decision,
+  };
+};
+
+/**
+ * Formats a captured console entry as a single line.
+ * Plain `console.log` output is kept as is, other levels are prefixed.
+ */
+function formatLogEntry(entry: LogEntry): string {
+  const message = entry.args
+    .map((arg) =>
+      arg.type == "image" || typeof arg.value == "string"
+        ? arg.value
+        : arg.value == null
+          ? String(arg.value)
+          : errorToString(arg.value),
+    )
+    .join(" ");
+  return entry.type == "log" ? message : `[${entry.type}] ${message}`;
+}
+
+/**
+ * Code Node Executor
+ * Runs JavaScript or Python in a sandbox process.
+ *
+ * Features:
+ * - Referenced node outputs are exposed to the code as variables
+ * - The returned value is validated against the node's `result` schema
+ * - Console output is captured into `logs`
+ */
+export const codeNodeExecutor: NodeExecutor<CodeNodeData> = async ({
+  node,
+  state,
+  signal,
+}) => {
+  const variables = Object.fromEntries(
+    node.variables.map(({ key, source }) => [
+      key,
+      source ? state.getOutput(source) : undefined,
+    ]),
+  );
+  const input = { language: node.language, variables };
+  state.setInput(node.id, input);
+
+  const execution = await runCodeInSandbox(node.language, {
+    code: node.code,
+    timeout: node.timeout || 30000,
+    variables,
+    signal,
+  });
+  const logs = execution.logs.map(formatLogEntry);
+
+  if (!execution.success) {
+    state.setInput(node.id, { ...input, logs });
+    throw new Error(execution.error || "Code execution failed");
+  }
+
+  const resultSchema = node.outputSchema.properties?.result ?? {
+    type: "object",
+  };
+  const parsed = jsonSchemaToZod(resultSchema).safeParse(execution.result);
+  if (!parsed.success) {
+    state.setInput(node.id, { ...input, logs, result: execution.result });
+    throw new Error(
+      `Code result does not match the output schema: ${parsed.error.message}`,
+    );
+  }
+
+  return {
+    output: {
+      result: parsed.data,
+      logs,
+    },
+  };
+};
@@ -0,0 +1,82 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { WorkflowRunSnapshot } from "app-types/workflow";
+
+vi.mock("server-only", () => ({}));
+
+const runRepository = vi.hoisted(() => ({
+  claimWaitingRun: vi.fn(),
+  suspendRun: vi.fn(async () => {}),
+  finishRun: vi.fn(async () => {}),
+  selectRunById: vi.fn(async () => null),
+}));
+const approvalRepository = vi.hoisted(() => ({
+  selectApprovalsByRunId: vi.fn(),
+}));
+const createWorkflowExecutor = vi.hoisted(() => vi.fn());
+
+vi.mock("lib/db/repository", () => ({
+  workflowRunRepository: runRepository,
+  workflowApprovalRepository: approvalRepository,
+  chatRepository: {},
+}));
+vi.mock("./workflow-executor", () => ({ createWorkflowExecutor }));
+
+const { resumeWorkflowRun } = await import("./workflow-approval");
+
+const snapshot: WorkflowRunSnapshot = {
+  nodes: [],
+  edges: [],
+  context: { workflowIds: ["wf"] },
+  query: {},
+  inputs: {},
+  outputs: {},
+  errors: {},
+  approvals: {},
+  waitingNodeIds: ["approval"],
+  branchWaits: {},
+};
+
+describe("resumeWorkflowRun", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    runRepository.claimWaitingRun
+      .mockResolvedValueOnce({
+        id: "run",
+        workflowId: "wf",
+        userId: "user",
+        trigger: "manual",
+        snapshot,
+      })
+      .mockResolvedValue(null);
+    approvalRepository.selectApprovalsByRunId.mockResolvedValue([
+      { nodeId: "approval", status: "approved", decidedByUserName: "Ann" },
+    ]);
+  });
+
+  it("fails the run when it cannot be resumed", async () => {
+    createWorkflowExecutor.mockImplementation(() => {
+      throw new Error("Unknown node kind");
+    });
+
+    await resumeWorkflowRun("run");
+
+    expect(runRepository.finishRun).toHaveBeenCalledWith("run", {
+      status: "fail",
+      output: null,
+      error: { name: "Error", message: "Unknown node kind" },
+      endedAt: expect.any(Date),
+    });
+  });
+
+  it("puts the run back to waiting when nothing was decided", async () => {
+    approvalRepository.selectApprovalsByRunId.mockResolvedValue([
+      { nodeId: "approval", status: "pending" },
+    ]);
+
+    await resumeWorkflowRun("run");
+
+    expect(runRepository.suspendRun).toHaveBeenCalledWith("run", snapshot);
+    expect(createWorkflowExecutor).not.toHaveBeenCalled();
+    expect(runRepository.finishRun).not.toHaveBeenCalled();
+  });
+});
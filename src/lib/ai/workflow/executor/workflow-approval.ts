@@ -0,0 +1,177 @@
+import { isToolUIPart } from "ai";
+import { colorize } from "consola/utils";
+import {
+  VercelAIWorkflowToolStreaming,
+  VercelAIWorkflowToolStreamingResult,
+  VercelAIWorkflowToolStreamingResultTag,
+  WorkflowApprovalDecision,
+  WorkflowRunSnapshot,
+} from "app-types/workflow";
+import {
+  chatRepository,
+  workflowApprovalRepository,
+  workflowRunRepository,
+} from "lib/db/repository";
+import logger from "logger";
+import { createWorkflowExecutor } from "./workflow-executor";
+import { recordWorkflowRun, toRunError } from "./workflow-run-recorder";
+
+const RUN_TIMEOUT_MS = 1000 * 60 * 5;
+
+/**
+ * Continues a run that waits for approval from every Approval node that has
+ * been decided since it was suspended. Does nothing while another resume of
+ * the same run is in progress; that one picks up the new decisions when it
+ * finishes. Approvals are only requested once their run waits (see
+ * `suspendRun`), so a decided approval always finds its run waiting or
+ * being resumed.
+ */
+export async function resumeWorkflowRun(runId: string): Promise<void> {
+  const run = await workflowRunRepository.claimWaitingRun(runId);
+  if (!run) return;
+  const { snapshot } = run;
+
+  let recorder: ReturnType<typeof recordWorkflowRun> | undefined;
+  try {
+    const approvals =
+      await workflowApprovalRepository.selectApprovalsByRunId(runId);
+    const decided = approvals.filter(
+      (approval) =>
+        approval.status != "pending" &&
+        snapshot.waitingNodeIds.includes(approval.nodeId),
+    );
+    if (!decided.length) {
+      await workflowRunRepository.suspendRun(runId, snapshot);
+      return;
+    }
+
+    const resumeNodeIds = decided.map((approval) => approval.nodeId);
+    const decisions = Object.fromEntries(
+      decided.map((approval): [string, WorkflowApprovalDecision] => [
+        approval.nodeId,
+        {
+          approved: approval.status == "approved",
+          decidedBy: approval.decidedByUserName ?? "",
+          comment: approval.comment ?? undefined,
+        },
+      ]),
+    );
+
+    const executor = createWorkflowExecutor({
+      nodes: snapshot.nodes,
+      edges: snapshot.edges,
+      logger: logger.withDefaults({
+        message: colorize("cyan", `WORKFLOW RUN '${runId}' `),
+      }),
+      context: snapshot.context,
+      resumeNodeIds,
+    });
+    recorder = recordWorkflowRun(executor, {
+      workflowId: run.workflowId,
+      nodes: snapshot.nodes,
+      userId: run.userId,
+      trigger: run.trigger,
+      runId,
+      chat: snapshot.chat,
+    });
+    const result = await executor.run(
+      {
+        query: snapshot.query,
+        inputs: snapshot.inputs,
+        outputs: snapshot.outputs,
+        errors: snapshot.errors,
+        approvals: { ...snapshot.approvals, ...decisions },
+        waitingNodeIds: snapshot.waitingNodeIds.filter(
+          (nodeId) => !resumeNodeIds.includes(nodeId),
+        ),
+        branchWaits: snapshot.branchWaits,
+      },
+      { disableHistory: true, timeout: RUN_TIMEOUT_MS },
+    );
+    if (!result.isOk) {
+      logger.error("Workflow execution error:", result.error);
+    }
+    await recorder.flush();
+  } catch (error) {
+    // The run is claimed as running, so it would never finish otherwise
+    logger.error(`Failed to resume workflow run ${runId}`, error);
+    await recorder?.flush();
+    await workflowRunRepository.finishRun(runId, {
+      status: "fail",
+      output: null,
+      error: toRunError(error),
+      endedAt: new Date(),
+    });
+  }
+
+  if (snapshot.chat) {
+    await updateChatToolResult(runId, snapshot.chat).catch((error) =>
+      logger.error("Failed to update the chat workflow result", error),
+    );
+  }
+
+  // Decisions made while this resume ran could not claim the run
+  await resumeWorkflowRun(runId);
+}
+
+/**
+ * Replaces the result of the chat tool call that started the run with the
+ * current state of the run.
+ */
+async function updateChatToolResult(
+  runId: string,
+  chat: NonNullable<WorkflowRunSnapshot["chat"]>,
+) {
+  const run = await workflowRunRepository.selectRunById(runId);
+  if (!run) return;
+  const messages = await chatRepository.selectMessagesByThreadId(chat.threadId);
+  const message = messages.find((message) =>
+    message.parts.some(
+      (part) => isToolUIPart(part) && part.toolCallId == chat.toolCallId,
+    ),
+  );
+  if (!message) return;
+
+  // A resumed Approval node is recorded again; keep its latest run only
+  const nodeRuns = run.nodeRuns.filter(
+    (nodeRun, index) =>
+      !run.nodeRuns
+        .slice(index + 1)
+        .some((later) => later.nodeId == nodeRun.nodeId),
+  );
+  const history: VercelAIWorkflowToolStreaming[] = nodeRuns.map((nodeRun) => ({
+    id: nodeRun.id,
+    name: nodeRun.nodeName,
+    kind: nodeRun.kind,
+    status: nodeRun.status,
+    startedAt: new Date(nodeRun.startedAt).getTime(),
+    endedAt: nodeRun.endedAt ? new Date(nodeRun.endedAt).getTime() : undefined,
+    error: nodeRun.error ?? undefined,
+  }));
+  const parts = message.parts.map((part) => {
+    if (
+      !isToolUIPart(part) ||
+      part.toolCallId != chat.toolCallId ||
+      !VercelAIWorkflowToolStreamingResultTag.isMaybe(part.output)
+    ) {
+      return part;
+    }
+    const output: VercelAIWorkflowToolStreamingResult = {
+      ...(part.output as VercelAIWorkflowToolStreamingResult),
+      status: run.status == "running" ? "waiting" : run.status,
+      endedAt: run.endedAt ? new Date(run.endedAt).getTime() : Date.now(),
+      history,
+      error: run.error ?? undefined,
+      result: run.status == "success" ? run.output : undefined,
+    };
+    return { ...part, output } as typeof part;
+  });
+
+  await chatRepository.upsertMessage({
+    id: message.id,
+    threadId: message.threadId,
+    role: message.role,
+    parts,
+    metadata: message.metadata,
+  });
+}
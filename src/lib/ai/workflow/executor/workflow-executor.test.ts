@@ -19,7 +19,28 @@ vi.mock("lib/ai/mcp/mcp-manager", () => ({
 // Mock server-only modules
 vi.mock("server-only", () => ({}));
 
+const repository = vi.hoisted(() => ({
+  checkAccess: vi.fn(),
+  selectById: vi.fn(async (id: string) => ({ id, userId: `${id}-owner` })),
+  selectPublishedStructure: vi.fn(),
+  selectAccessibleForUser: vi.fn(),
+}));
+vi.mock("lib/db/repository", () => ({
+  workflowRepository: {
+    checkAccess: repository.checkAccess,
+    selectById: repository.selectById,
+  },
+  userRepository: {},
+  mcpRepository: {
+    selectAccessibleForUser: repository.selectAccessibleForUser,
+  },
+  workflowVersionRepository: {
+    selectPublishedStructure: repository.selectPublishedStructure,
+  },
+}));
+
 import { createWorkflowExecutor } from "./workflow-executor";
+import { mcpClientsManager } from "lib/ai/mcp/mcp-manager";
 
 // Mock node executors with proper implementations
 vi.mock("./node-executor", async (importOriginal) => {
@@ -612,4 +633,342 @@ describe("createWorkflowExecutor", () => {
     // Note: input data in WORKFLOW_START event is a known limitation of the current implementation
     // The important thing is that the workflow executes correctly with the provided input data
   });
+
+  it("7. should run the loop body once per item and collect the results", async () => {
+    const nodes: DBNode[] = [
+      createNode("start", NodeKind.Input, "Start"),
+      createNode("loop", NodeKind.Loop, "Loop", {
+        source: { nodeId: "start", path: ["numbers"] },
+        concurrency: 2,
+      }),
+      createNode("double", NodeKind.Code, "Double", {
+        language: "javascript",
+        code: "return { doubled: item * 2, index };",
+        variables: [
+          { key: "item", source: { nodeId: "loop", path: ["item"] } },
+          { key: "index", source: { nodeId: "loop", path: ["index"] } },
+        ],
+      }),
+      createNode("end", NodeKind.Output, "End", {
+        outputData: [
+          { key: "results", source: { nodeId: "loop", path: ["results"] } },
+        ],
+      }),
+    ];
+
+    const edges: DBEdge[] = [
+      createEdge("e1", "start", "loop"),
+      createEdge("e2", "loop", "double", "loop"),
+      createEdge("e3", "loop", "end", "right"),
+    ];
+
+    const executor = createWorkflowExecutor({ nodes, edges });
+
+    const visitedNodes: string[] = [];
+    executor.subscribe((event: any) => {
+      if (event.eventType === "NODE_START") {
+        visitedNodes.push(event.node.name);
+      }
+    });
+
+    const nodeExecutorModule = await import("./node-executor");
+    if ("__setTestInputData" in nodeExecutorModule) {
+      (nodeExecutorModule as any).__setTestInputData({ numbers: [1, 2, 3] });
+    }
+
+    const result = await executor.run({});
+
+    expect(result.isOk).toBe(true);
+    expect(visitedNodes).toEqual(["start", "loop", "end"]);
+    expect(
+      result.output!.getOutput({ nodeId: "end", path: ["results"] }),
+    ).toEqual([
+      { result: { doubled: 2, index: 0 }, logs: [] },
+      { result: { doubled: 4, index: 1 }, logs: [] },
+      { result: { doubled: 6, index: 2 }, logs: [] },
+    ]);
+  });
+
+  it("8. should follow the error branch or fallback output of a failing node", async () => {
+    const failingNode = (id: string, errorPolicy: Record<string, any>) =>
+      createNode(id, NodeKind.Code, id, {
+        language: "javascript",
+        code: 'throw new Error("boom");',
+        variables: [],
+        errorPolicy,
+      });
+
+    const nodes: DBNode[] = [
+      createNode("start", NodeKind.Input, "Start"),
+      failingNode("branching", { onError: "branch" }),
+      createNode("never", "NOOP", "Never"),
+      createNode("handler", "NOOP", "Handler"),
+      failingNode("continuing", {
+        onError: "continue",
+        fallback: { result: "fallback" },
+      }),
+      createNode("end", NodeKind.Output, "End", {
+        outputData: [
+          { key: "value", source: { nodeId: "continuing", path: ["result"] } },
+        ],
+      }),
+    ];
+
+    const edges: DBEdge[] = [
+      createEdge("e1", "start", "branching"),
+      createEdge("e2", "branching", "never", "right"),
+      createEdge("e3", "branching", "handler", "error"),
+      createEdge("e4", "handler", "continuing"),
+      createEdge("e5", "continuing", "end"),
+    ];
+
+    const executor = createWorkflowExecutor({ nodes, edges });
+
+    const visitedNodes: string[] = [];
+    executor.subscribe((event: any) => {
+      if (event.eventType === "NODE_START") {
+        visitedNodes.push(event.node.name);
+      }
+    });
+
+    const result = await executor.run({});
+
+    expect(result.isOk).toBe(true);
+    expect(visitedNodes).toEqual([
+      "start",
+      "branching",
+      "handler",
+      "continuing",
+      "end",
+    ]);
+    expect(result.output!.getError("branching")).toEqual({
+      name: "Error",
+      message: "boom",
+      attempts: 1,
+    });
+    expect(result.output!.getOutput({ nodeId: "end", path: ["value"] })).toBe(
+      "fallback",
+    );
+  });
+
+  it("9. should run a sub-workflow as the calling user and expose its output", async () => {
+    const childInputSchema = {
+      type: "object",
+      properties: { topic: { type: "string" } },
+      required: ["topic"],
+    };
+    repository.checkAccess.mockResolvedValue(true);
+    repository.selectPublishedStructure.mockResolvedValue({
+      id: "child",
+      name: "Child",
+      nodes: [
+        createNode("child-start", NodeKind.Input, "Start", {
+          outputSchema: childInputSchema,
+        }),
+        createNode("child-end", NodeKind.Output, "End", {
+          outputData: [
+            {
+              key: "echo",
+              source: { nodeId: "child-start", path: ["topic"] },
+            },
+          ],
+        }),
+      ],
+      edges: [createEdge("c1", "child-start", "child-end")],
+    });
+
+    const nodes: DBNode[] = [
+      createNode("start", NodeKind.Input, "Start"),
+      createNode("sub", NodeKind.SubWorkflow, "Sub", {
+        workflow: { id: "child", name: "Child" },
+        inputs: [
+          { key: "topic", source: { nodeId: "start", path: ["topic"] } },
+        ],
+      }),
+      createNode("end", NodeKind.Output, "End", {
+        outputData: [
+          { key: "value", source: { nodeId: "sub", path: ["echo"] } },
+        ],
+      }),
+    ];
+    const edges: DBEdge[] = [
+      createEdge("e1", "start", "sub"),
+      createEdge("e2", "sub", "end"),
+    ];
+
+    const nodeExecutorModule = await import("./node-executor");
+    if ("__setTestInputData" in nodeExecutorModule) {
+      (nodeExecutorModule as any).__setTestInputData({ topic: "workflows" });
+    }
+
+    const result = await createWorkflowExecutor({
+      nodes,
+      edges,
+      context: { userId: "user-1", workflowIds: ["parent"] },
+    }).run({});
+
+    expect(result.isOk).toBe(true);
+    expect(repository.checkAccess).toHaveBeenCalledWith("child", "user-1");
+    expect(result.output!.getOutput({ nodeId: "end", path: ["value"] })).toBe(
+      "workflows",
+    );
+
+    // The node fails once the child is already in the call stack
+    const recursive = await createWorkflowExecutor({
+      nodes: nodes.map((node) =>
+        node.id == "sub"
+          ? {
+              ...node,
+              nodeConfig: {
+                ...node.nodeConfig,
+                errorPolicy: { onError: "continue" },
+              },
+            }
+          : node,
+      ),
+      edges,
+      context: { userId: "user-1", workflowIds: ["child", "parent"] },
+    }).run({});
+
+    expect(recursive.output!.getError("sub")?.message).toContain("running it");
+    expect(repository.selectPublishedStructure).toHaveBeenCalledTimes(1);
+  });
+
+  it("10. should suspend at an Approval node and resume from it once decided", async () => {
+    const nodes: DBNode[] = [
+      createNode("start", NodeKind.Input, "Start"),
+      createNode("approval", NodeKind.Approval, "Approval", {
+        approver: { type: "owner" },
+      }),
+      createNode("side", "NOOP", "Side"),
+      createNode("merge", "NOOP", "Merge"),
+      createNode("end", NodeKind.Output, "End", {
+        outputData: [
+          {
+            key: "approved",
+            source: { nodeId: "approval", path: ["approved"] },
+          },
+        ],
+      }),
+    ];
+    const edges: DBEdge[] = [
+      createEdge("e1", "start", "approval"),
+      createEdge("e2", "start", "side"),
+      createEdge("e3", "approval", "merge"),
+      createEdge("e4", "side", "merge"),
+      createEdge("e5", "merge", "end"),
+    ];
+    const context = { userId: "user-1", workflowIds: ["test-workflow"] };
+
+    const visit = (executor: ReturnType<typeof createWorkflowExecutor>) => {
+      const visited: string[] = [];
+      executor.subscribe((event: any) => {
+        if (event.eventType === "NODE_START") visited.push(event.node.name);
+      });
+      return visited;
+    };
+
+    const first = createWorkflowExecutor({ nodes, edges, context });
+    const firstVisited = visit(first);
+    const suspended = await first.run({});
+
+    expect(suspended.isOk).toBe(true);
+    expect(suspended.output!.waitingNodeIds).toEqual(["approval"]);
+    expect(suspended.output!.getInput("approval")).toMatchObject({
+      approverUserId: "test-workflow-owner",
+    });
+    expect(firstVisited).not.toContain("end");
+    // The side branch already reached the merge node
+    expect(suspended.output!.branchWaits).toEqual({ merge: 1 });
+
+    const resumed = createWorkflowExecutor({
+      nodes,
+      edges,
+      context,
+      resumeNodeIds: ["approval"],
+    });
+    const resumedVisited = visit(resumed);
+    const result = await resumed.run({
+      outputs: suspended.output!.outputs,
+      inputs: suspended.output!.inputs,
+      branchWaits: suspended.output!.branchWaits,
+      approvals: { approval: { approved: true, decidedBy: "Approver" } },
+      waitingNodeIds: [],
+    });
+
+    expect(result.isOk).toBe(true);
+    expect(result.output!.waitingNodeIds).toEqual([]);
+    expect(resumedVisited).toEqual(["RESUME", "approval", "merge", "end"]);
+    expect(
+      result.output!.getOutput({ nodeId: "end", path: ["approved"] }),
+    ).toBe(true);
+  });
+
+  it("11. should check MCP server access for Tool nodes at every depth", async () => {
+    const toolNode = (id: string, serverId: string) =>
+      createNode(id, NodeKind.Tool, `Tool ${serverId}`, {
+        tool: {
+          type: "mcp-tool",
+          id: "search",
+          description: "Search",
+          serverId,
+          serverName: serverId,
+        },
+        model: { provider: "openai", model: "gpt-4" },
+        errorPolicy: { onError: "continue" },
+      });
+    repository.selectAccessibleForUser.mockResolvedValue([{ id: "allowed" }]);
+    repository.checkAccess.mockResolvedValue(true);
+    repository.selectPublishedStructure.mockResolvedValue({
+      id: "child",
+      name: "Child",
+      nodes: [
+        createNode("child-start", NodeKind.Input, "Start"),
+        toolNode("child-tool", "revoked"),
+        createNode("child-end", NodeKind.Output, "End"),
+      ],
+      edges: [
+        createEdge("c1", "child-start", "child-tool"),
+        createEdge("c2", "child-tool", "child-end"),
+      ],
+    });
+
+    const nodes: DBNode[] = [
+      createNode("start", NodeKind.Input, "Start"),
+      toolNode("allowed-tool", "allowed"),
+      toolNode("revoked-tool", "revoked"),
+      createNode("sub", NodeKind.SubWorkflow, "Sub", {
+        workflow: { id: "child", name: "Child" },
+        inputs: [],
+      }),
+      createNode("end", NodeKind.Output, "End"),
+    ];
+    const edges: DBEdge[] = [
+      createEdge("e1", "start", "allowed-tool"),
+      createEdge("e2", "allowed-tool", "revoked-tool"),
+      createEdge("e3", "revoked-tool", "sub"),
+      createEdge("e4", "sub", "end"),
+    ];
+
+    const result = await createWorkflowExecutor({
+      nodes,
+      edges,
+      context: { userId: "user-1", workflowIds: ["parent"] },
+    }).run({});
+
+    expect(result.isOk).toBe(true);
+    expect(result.output!.getError("revoked-tool")?.message).toBe(
+      "No access to MCP server 'revoked'",
+    );
+    // Only the accessible server is called, at the top level or in the child
+    expect(repository.selectAccessibleForUser).toHaveBeenCalledTimes(3);
+    expect(repository.selectAccessibleForUser).toHaveBeenCalledWith("user-1");
+    expect(mcpClientsManager.toolCall).toHaveBeenCalledTimes(1);
+    expect(mcpClientsManager.toolCall).toHaveBeenCalledWith(
+      "allowed",
+      "search",
+      undefined,
+      expect.objectContaining({ userId: "user-1" }),
+    );
+  });
 });
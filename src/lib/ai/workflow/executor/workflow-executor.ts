@@ -1,5 +1,13 @@
-import { NodeKind } from "../workflow.interface";
-import { createGraphStore, WorkflowRuntimeState } from "./graph-store";
+import {
+  LoopNodeData,
+  NodeKind,
+  SubWorkflowNodeData,
+} from "../workflow.interface";
+import {
+  createGraphStore,
+  WorkflowExecutionContext,
+  WorkflowRuntimeState,
+} from "./graph-store";
 import { createStateGraph, graphNode, StateGraphRegistry } from "ts-edge";
 import {
   conditionNodeExecutor,
@@ -10,14 +18,40 @@ import {
   toolNodeExecutor,
   httpNodeExecutor,
   templateNodeExecutor,
+  codeNodeExecutor,
+  approvalNodeExecutor,
 } from "./node-executor";
-import { toAny } from "lib/utils";
+import { errorToString, toAny } from "lib/utils";
 import { addEdgeBranchLabel } from "./add-edge-branch-label";
 import { DBEdge, DBNode } from "app-types/workflow";
 import { convertDBNodeToUINode } from "../shared.workflow";
 import globalLogger from "logger";
 import { ConsolaInstance } from "consola";
 import { colorize } from "consola/utils";
+import {
+  ERROR_BRANCH_HANDLE,
+  runWithErrorPolicy,
+  toNodeExecutionError,
+} from "../error-policy";
+import {
+  DEFAULT_LOOP_CONCURRENCY,
+  findLoopBodyNodeIds,
+  findLoopNodeIds,
+  isLoopBodyEdge,
+  MAX_LOOP_CONCURRENCY,
+} from "../loop";
+import {
+  assertSubWorkflowCall,
+  extractWorkflowInputSchema,
+} from "../sub-workflow";
+import { jsonSchemaToZod } from "lib/json-schema-to-zod";
+import {
+  workflowRepository,
+  workflowVersionRepository,
+} from "lib/db/repository";
+import { z } from "zod";
+
+const RESUME_NODE = "RESUME";
 
 /**
  * Maps node kinds to their corresponding executor functions.
@@ -39,6 +73,14 @@ function getExecutorByKind(kind: NodeKind): NodeExecutor {
       return httpNodeExecutor;
     case NodeKind.Template:
       return templateNodeExecutor;
+    case NodeKind.Code:
+      return codeNodeExecutor;
+    case NodeKind.Loop:
+      return loopNodeExecutor;
+    case NodeKind.SubWorkflow:
+      return subWorkflowNodeExecutor;
+    case NodeKind.Approval:
+      return approvalNodeExecutor;
     case "NOOP" as any:
       return () => {
         return {
@@ -53,6 +95,206 @@ function getExecutorByKind(kind: NodeKind): NodeExecutor {
   };
 }
 
+/**
+ * Runs the body of a loop node once per item of its source array, at most
+ * `concurrency` items at a time. Each item gets its own executor whose state
+ * starts from the current outputs plus `item` and `index` on the loop node.
+ */
+const loopNodeExecutor: NodeExecutor<LoopNodeData> = async ({
+  node,
+  state,
+  signal,
+}) => {
+  const items = node.source ? state.getOutput(node.source) : undefined;
+  if (!Array.isArray(items)) {
+    throw new Error("Loop source must be an array");
+  }
+  const concurrency = Math.min(
+    Math.max(node.concurrency || DEFAULT_LOOP_CONCURRENCY, 1),
+    MAX_LOOP_CONCURRENCY,
+  );
+  const createBodyExecutor = () =>
+    createWorkflowExecutor({
+      nodes: state.nodes,
+      edges: state.edges,
+      loopNodeId: node.id,
+      context: state.context,
+      signal,
+    });
+  const { nodes: bodyNodes, edges: bodyEdges } = selectExecutionScope(
+    state.nodes,
+    state.edges,
+    node.id,
+  );
+  if (!bodyNodes.length) throw new Error("Loop node must have a body");
+  // The last nodes of the body produce the per-item result
+  const exitNodes = bodyNodes.filter(
+    (bodyNode) => !bodyEdges.some((edge) => edge.source == bodyNode.id),
+  );
+
+  const runItem = async (item: unknown, index: number) => {
+    const result = await createBodyExecutor().run(
+      {
+        query: state.query,
+        inputs: {},
+        outputs: { ...state.outputs, [node.id]: { item, index } },
+      },
+      { disableHistory: true },
+    );
+    if (!result.isOk) {
+      throw new Error(
+        `Loop item ${index} failed: ${errorToString(result.error)}`,
+      );
+    }
+    const bodyState = result.output as WorkflowRuntimeState;
+    if (bodyState.waitingNodeIds.length) {
+      throw new Error("Approval nodes cannot run inside a loop");
+    }
+    const outputs = exitNodes.map((exitNode) => [
+      exitNode.name,
+      bodyState.getOutput({ nodeId: exitNode.id, path: [] }),
+    ]);
+    return outputs.length == 1 ? outputs[0][1] : Object.fromEntries(outputs);
+  };
+
+  const results: unknown[] = new Array(items.length);
+  let cursor = 0;
+  const worker = async () => {
+    while (cursor < items.length) {
+      signal?.throwIfAborted();
+      const index = cursor++;
+      results[index] = await runItem(items[index], index);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, items.length) }, worker),
+  );
+
+  return {
+    input: {
+      count: items.length,
+      concurrency,
+    },
+    output: {
+      results,
+    },
+  };
+};
+
+/**
+ * Runs the published version of another workflow with the mapped inputs as
+ * its Input node values, on behalf of the user running this workflow.
+ * The output is whatever the sub-workflow's Output node collected.
+ */
+const subWorkflowNodeExecutor: NodeExecutor<SubWorkflowNodeData> = async ({
+  node,
+  state,
+  signal,
+}) => {
+  if (!node.workflow)
+    throw new Error("Sub-workflow node must select a workflow");
+  const { userId, workflowIds } = state.context;
+  assertSubWorkflowCall(workflowIds, node.workflow.id);
+  const hasAccess =
+    !!userId &&
+    (await workflowRepository.checkAccess(node.workflow.id, userId));
+  if (!hasAccess) {
+    throw new Error(`No access to workflow '${node.workflow.name}'`);
+  }
+  const workflow = await workflowVersionRepository.selectPublishedStructure(
+    node.workflow.id,
+    { ignoreNote: true },
+  );
+  if (!workflow) {
+    throw new Error(`Workflow '${node.workflow.name}' is not published`);
+  }
+
+  const values = Object.fromEntries(
+    node.inputs
+      .filter((input) => input.source)
+      .map((input) => [input.key, state.getOutput(input.source!)]),
+  );
+  const query = jsonSchemaToZod(
+    extractWorkflowInputSchema(workflow.nodes),
+  ).safeParse(values);
+  if (!query.success) {
+    throw new Error(
+      `Invalid inputs for workflow '${workflow.name}': ${z.prettifyError(query.error)}`,
+    );
+  }
+
+  const result = await createWorkflowExecutor({
+    nodes: workflow.nodes,
+    edges: workflow.edges,
+    context: { userId, workflowIds: [...workflowIds, workflow.id] },
+    signal,
+  }).run({ query: query.data }, { disableHistory: true });
+  if (!result.isOk) {
+    throw new Error(
+      `Workflow '${workflow.name}' failed: ${errorToString(result.error)}`,
+    );
+  }
+  const subState = result.output as WorkflowRuntimeState;
+  if (subState.waitingNodeIds.length) {
+    throw new Error(
+      `Workflow '${workflow.name}' waits for approval, which sub-workflows do not support`,
+    );
+  }
+  const outputNode = workflow.nodes.find(
+    (workflowNode) => workflowNode.kind == NodeKind.Output,
+  );
+  return {
+    input: query.data,
+    output: outputNode
+      ? subState.getOutput({
+          nodeId: outputNode.id,
+          path: [],
+        })
+      : {},
+  };
+};
+
+/**
+ * Selects the nodes and edges that run in one graph.
+ * The top level graph starts at the Input node and leaves out every loop
+ * body. A loop body graph starts at its loop node and leaves out the bodies
+ * of loops nested inside it; those run in their own graphs.
+ */
+function selectExecutionScope(
+  nodes: DBNode[],
+  edges: DBEdge[],
+  loopNodeId?: string,
+) {
+  const loopEdges = edges.map((edge) => ({
+    source: edge.source,
+    target: edge.target,
+    sourceHandle: edge.uiConfig.sourceHandle,
+  }));
+  const candidateIds = new Set(
+    loopNodeId
+      ? findLoopBodyNodeIds(loopNodeId, loopEdges)
+      : nodes.map((node) => node.id),
+  );
+  const nestedBodyIds = new Set(
+    findLoopNodeIds(loopEdges)
+      .filter((id) => candidateIds.has(id))
+      .flatMap((id) => findLoopBodyNodeIds(id, loopEdges)),
+  );
+  const scopeNodes = nodes.filter(
+    (node) => candidateIds.has(node.id) && !nestedBodyIds.has(node.id),
+  );
+  const scopeIds = new Set(scopeNodes.map((node) => node.id));
+  const startNodeId =
+    loopNodeId ?? scopeNodes.find((node) => node.kind == NodeKind.Input)!.id;
+  const scopeEdges = edges.filter(
+    (edge) =>
+      (scopeIds.has(edge.source) || edge.source == startNodeId) &&
+      scopeIds.has(edge.target) &&
+      (edge.source == loopNodeId) == isLoopBodyEdge(edge.uiConfig),
+  );
+  return { nodes: scopeNodes, edges: scopeEdges, startNodeId };
+}
+
 /**
  * Creates a workflow executor that can run a complete workflow.
  * The executor manages:
@@ -62,17 +304,49 @@ function getExecutorByKind(kind: NodeKind): NodeExecutor {
  * - Branch synchronization for condition nodes
  *
  * @param workflow - Contains nodes and edges defining the workflow structure
+ * @param workflow.loopNodeId - When set, the executor runs only the body of
+ *   this loop node, starting from the loop node itself
+ * @param workflow.context - The user running the workflow and the chain of
+ *   workflows that called it
+ * @param workflow.resumeNodeIds - When set, the executor continues a
+ *   suspended run from these Approval nodes instead of the Input node; the
+ *   saved state is passed to `run`
+ * @param workflow.signal - Aborts the nodes in progress, e.g. when the node
+ *   that runs this executor as a loop body or sub-workflow times out
  * @returns Compiled workflow executor ready to run
  */
 export const createWorkflowExecutor = (workflow: {
   nodes: DBNode[];
   edges: DBEdge[];
   logger?: ConsolaInstance;
+  loopNodeId?: string;
+  context?: WorkflowExecutionContext;
+  resumeNodeIds?: string[];
+  signal?: AbortSignal;
 }) => {
-  // Create runtime state store for the workflow
+  const scope = selectExecutionScope(
+    workflow.nodes,
+    workflow.edges,
+    workflow.loopNodeId,
+  );
+
+  // Add branch labels for condition node edges
+  const loopNode = workflow.nodes.find(
+    (node) => node.id == workflow.loopNodeId,
+  );
+  addEdgeBranchLabel(
+    loopNode ? [loopNode, ...scope.nodes] : scope.nodes,
+    scope.edges,
+    scope.startNodeId,
+  );
+
+  // Create runtime state store for the workflow. The branches merge nodes
+  // wait for are part of the state so a suspended run can pick them up.
   const store = createGraphStore({
     nodes: workflow.nodes,
     edges: workflow.edges,
+    context: workflow.context,
+    branchWaits: buildNeedTable(scope.edges),
   });
 
   const logger =
@@ -92,9 +366,6 @@ export const createWorkflowExecutor = (workflow: {
     string
   >;
 
-  // Add branch labels for condition node edges
-  addEdgeBranchLabel(workflow.nodes, workflow.edges);
-
   /**
    * Special SKIP node used to handle excess branches from condition nodes.
    * When multiple branches try to execute the same target node,
@@ -113,8 +384,24 @@ export const createWorkflowExecutor = (workflow: {
 
   graph.addNode(skipNode);
 
+  // The loop node has already run when its body starts, so it only routes
+  // execution into the body here.
+  if (loopNode) {
+    graph.addNode({
+      name: loopNode.id,
+      metadata: {
+        kind: loopNode.kind,
+      },
+      execute() {},
+    });
+    const bodyTargets = scope.edges
+      .filter((edge) => edge.source == loopNode.id)
+      .map((edge) => edge.target);
+    if (bodyTargets.length) toAny(graph.edge)(loopNode.id, bodyTargets);
+  }
+
   // Add all workflow nodes to the execution graph
-  workflow.nodes.forEach((node) => {
+  scope.nodes.forEach((node) => {
     graph.addNode({
       name: node.id,
       metadata: {
@@ -123,12 +410,40 @@ export const createWorkflowExecutor = (workflow: {
       async execute(state) {
         // Get the appropriate executor for this node type
         const executor = getExecutorByKind(node.kind as NodeKind);
+        const data = convertDBNodeToUINode(node).data;
+        const policy = data.errorPolicy;
 
-        // Execute the node with current state
-        const result = await executor({
-          node: convertDBNodeToUINode(node).data,
-          state,
-        });
+        // Execute the node with current state, retrying as its policy allows
+        const execution = await runWithErrorPolicy(
+          policy,
+          (signal) =>
+            executor({
+              node: data,
+              state,
+              signal,
+            }),
+          workflow.signal,
+        );
+
+        if (!execution.isOk) {
+          const error = toNodeExecutionError(
+            execution.error,
+            execution.attempts,
+          );
+          if (!policy?.onError || policy.onError == "fail") {
+            if (execution.attempts > 1) state.setError(node.id, error);
+            throw execution.error;
+          }
+          // Recovered: keep going with the fallback output or the error branch
+          state.setError(node.id, error);
+          state.setOutput(
+            { nodeId: node.id, path: [] },
+            policy.onError == "continue" ? (policy.fallback ?? {}) : {},
+          );
+          return;
+        }
+
+        const result = execution.value;
 
         // Store the execution results in the workflow state
         if (result?.output) {
@@ -146,8 +461,20 @@ export const createWorkflowExecutor = (workflow: {
       },
     });
 
+    const outgoingEdges = scope.edges.filter((edge) => edge.source == node.id);
+    const errorTargets = outgoingEdges
+      .filter((edge) => edge.uiConfig.sourceHandle == ERROR_BRANCH_HANDLE)
+      .map((edge) => edge.target);
+
     // Handle edges differently for condition nodes vs regular nodes
-    if (node.kind === NodeKind.Condition) {
+    if (node.kind === NodeKind.Approval) {
+      // A waiting Approval node ends its branch until the run resumes
+      const targets = outgoingEdges.map((edge) => edge.target);
+      graph.dynamicEdge(node.id, (state) => {
+        if (state.isWaiting(node.id) || !targets.length) return;
+        return targets;
+      });
+    } else if (node.kind === NodeKind.Condition) {
       // Condition nodes use dynamic edges based on their evaluation result
       graph.dynamicEdge(node.id, (state) => {
         const next = state.getOutput({
@@ -157,41 +484,63 @@ export const createWorkflowExecutor = (workflow: {
         if (!next?.length) return;
         return next.map((node) => node.id);
       });
+    } else if (errorTargets.length) {
+      // Nodes with an error branch follow it only when they failed
+      const routesErrors =
+        convertDBNodeToUINode(node).data.errorPolicy?.onError == "branch";
+      const targets = outgoingEdges
+        .filter((edge) => edge.uiConfig.sourceHandle != ERROR_BRANCH_HANDLE)
+        .map((edge) => edge.target);
+      graph.dynamicEdge(node.id, (state) => {
+        const failed = routesErrors && state.getError(node.id);
+        const next = failed ? errorTargets : targets;
+        if (!next.length) return;
+        return next;
+      });
     } else {
       // Regular nodes have static edges defined in the workflow
-      const targetEdges = workflow.edges
-        .filter((edge) => edge.source == node.id)
-        .map((v) => v.target);
+      const targetEdges = outgoingEdges.map((v) => v.target);
 
       if (targetEdges.length) toAny(graph.edge)(node.id, targetEdges);
     }
   });
 
-  // Build table to track how many branches need to reach each node
-  // Used to prevent duplicate execution when multiple condition branches
-  // converge on the same target node
-  let needTable: Record<string, number> = buildNeedTable(workflow.edges);
+  // A resumed run enters the graph again at its decided Approval nodes
+  if (workflow.resumeNodeIds?.length) {
+    graph.addNode({
+      name: RESUME_NODE,
+      execute() {},
+    });
+    toAny(graph.edge)(RESUME_NODE, workflow.resumeNodeIds);
+  }
 
-  // Compile the graph starting from the Input node
+  // Compile the graph starting from the Input node (or the loop node)
+  // `branchWaits` tracks how many branches need to reach each node. It
+  // prevents duplicate execution when multiple condition branches converge
+  // on the same target node
   const app = graph
-    .compile(workflow.nodes.find((node) => node.kind == NodeKind.Input)!.id)
+    .compile(workflow.resumeNodeIds?.length ? RESUME_NODE : scope.startNodeId)
     .use(async ({ name: nodeId, input }, next) => {
+      const { branchWaits } = store.get();
       // Check if this node is expecting multiple incoming branches
-      if (!(nodeId in needTable)) return;
+      if (!(nodeId in branchWaits)) return;
 
       // Decrement the counter - only execute when all branches have arrived
-      const left = --needTable[nodeId];
-      if (left > 0) return next({ name: "SKIP", input });
+      const { [nodeId]: waits, ...rest } = branchWaits;
+      const left = waits - 1;
+      if (left > 0) {
+        store.set({ branchWaits: { ...rest, [nodeId]: left } });
+        return next({ name: "SKIP", input });
+      }
 
       // All branches have arrived, clean up and continue execution
-      delete needTable[nodeId];
+      store.set({ branchWaits: rest });
       return next();
     });
 
   // Set up event logging for workflow execution monitoring
   app.subscribe((event) => {
     if (event.eventType == "WORKFLOW_START") {
-      needTable = buildNeedTable(workflow.edges);
       logger.debug(
         `[${event.eventType}] ${workflow.nodes.length} nodes, ${workflow.edges.length} edges`,
       );
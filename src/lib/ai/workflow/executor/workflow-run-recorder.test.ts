@@ -0,0 +1,267 @@
+import { describe, expect, it, vi } from "vitest";
+import { DBNode } from "app-types/workflow";
+import { NodeKind } from "../workflow.interface";
+
+vi.mock("server-only", () => ({}));
+
+const repository = vi.hoisted(() => ({
+  insertRun: vi.fn(async () => {}),
+  insertNodeRun: vi.fn(async () => {}),
+  finishRun: vi.fn(async () => {}),
+  suspendRun: vi.fn(async () => {}),
+}));
+
+vi.mock("lib/db/repository", () => ({
+  workflowRunRepository: repository,
+}));
+
+const { recordWorkflowRun } = await import("./workflow-run-recorder");
+
+const node = (id: string, kind: NodeKind): DBNode => ({
+  id,
+  workflowId: "wf",
+  kind,
+  name: id.toUpperCase(),
+  nodeConfig: {},
+  uiConfig: {},
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+const state = (
+  nodeId: string,
+  input: unknown,
+  output: unknown,
+  error?: { name: string; message: string; attempts: number },
+) => ({
+  getInput: (id: string) => (id == nodeId ? input : undefined),
+  getOutput: ({ nodeId: id }: { nodeId: string }) =>
+    id == nodeId ? output : undefined,
+  getError: (id: string) => (id == nodeId ? error : undefined),
+  isWaiting: () => false,
+});
+
+function createFakeExecutor() {
+  let handler: (event: any) => void = () => {};
+  return {
+    executor: {
+      subscribe: (next: (event: any) => void) => {
+        handler = next;
+      },
+    } as any,
+    emit: (event: any) => handler(event),
+  };
+}
+
+describe("recordWorkflowRun", () => {
+  it("records the run, its node runs and the output node result", async () => {
+    const { executor, emit } = createFakeExecutor();
+    const recorder = recordWorkflowRun(executor, {
+      workflowId: "wf",
+      nodes: [node("input", NodeKind.Input), node("output", NodeKind.Output)],
+      userId: "user",
+      trigger: "editor",
+    });
+
+    emit({ eventType: "WORKFLOW_START", startedAt: 1000, input: { query: 1 } });
+    emit({
+      eventType: "NODE_END",
+      node: { name: "SKIP" },
+      isOk: true,
+      startedAt: 1000,
+      endedAt: 1000,
+    });
+    emit({
+      eventType: "NODE_END",
+      node: { name: "output", output: state("output", { a: 1 }, { b: 2 }) },
+      isOk: true,
+      startedAt: 1100,
+      endedAt: 1200,
+    });
+    emit({
+      eventType: "WORKFLOW_END",
+      isOk: true,
+      startedAt: 1000,
+      endedAt: 1300,
+    });
+    await recorder.flush();
+
+    expect(repository.insertRun).toHaveBeenCalledWith({
+      id: recorder.runId,
+      workflowId: "wf",
+      userId: "user",
+      trigger: "editor",
+      input: 1,
+      startedAt: new Date(1000),
+    });
+    expect(repository.insertNodeRun).toHaveBeenCalledTimes(1);
+    expect(repository.insertNodeRun).toHaveBeenCalledWith(
+      expect.objectContaining({
+        runId: recorder.runId,
+        nodeId: "output",
+        nodeName: "OUTPUT",
+        status: "success",
+        input: { a: 1 },
+        output: { b: 2 },
+      }),
+    );
+    expect(repository.finishRun).toHaveBeenCalledWith(recorder.runId, {
+      status: "success",
+      output: { b: 2 },
+      error: null,
+      endedAt: new Date(1300),
+    });
+  });
+
+  it("keeps recording after a failed write and stores node errors", async () => {
+    repository.insertRun.mockRejectedValueOnce(new Error("db down"));
+    repository.finishRun.mockClear();
+    const { executor, emit } = createFakeExecutor();
+    const recorder = recordWorkflowRun(executor, {
+      workflowId: "wf",
+      nodes: [node("llm", NodeKind.LLM)],
+      trigger: "chat",
+    });
+
+    emit({ eventType: "WORKFLOW_START", startedAt: 0, input: {} });
+    emit({
+      eventType: "NODE_END",
+      node: { name: "llm", input: state("llm", undefined, undefined) },
+      isOk: false,
+      error: new TypeError("boom"),
+      startedAt: 0,
+      endedAt: 10,
+    });
+    emit({
+      eventType: "WORKFLOW_END",
+      isOk: false,
+      error: new TypeError("boom"),
+      startedAt: 0,
+      endedAt: 20,
+    });
+    await recorder.flush();
+
+    expect(repository.insertNodeRun).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        status: "fail",
+        error: { name: "TypeError", message: "boom" },
+      }),
+    );
+    expect(repository.finishRun).toHaveBeenCalledWith(recorder.runId, {
+      status: "fail",
+      output: [],
+      error: { name: "TypeError", message: "boom" },
+      endedAt: new Date(20),
+    });
+  });
+
+  it("records nodes recovered by their error policy", async () => {
+    const { executor, emit } = createFakeExecutor();
+    const recorder = recordWorkflowRun(executor, {
+      workflowId: "wf",
+      nodes: [node("http", NodeKind.Http)],
+      trigger: "editor",
+    });
+
+    emit({
+      eventType: "NODE_END",
+      node: {
+        name: "http",
+        output: state(
+          "http",
+          undefined,
+          { fallback: true },
+          {
+            name: "Error",
+            message: "502",
+            attempts: 3,
+          },
+        ),
+      },
+      isOk: true,
+      startedAt: 0,
+      endedAt: 10,
+    });
+    await recorder.flush();
+
+    expect(repository.insertNodeRun).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        status: "recovered",
+        output: { fallback: true },
+        error: { name: "Error", message: "502" },
+      }),
+    );
+  });
+
+  it("suspends the run and requests approval for waiting nodes", async () => {
+    repository.finishRun.mockClear();
+    const { executor, emit } = createFakeExecutor();
+    const recorder = recordWorkflowRun(executor, {
+      workflowId: "wf",
+      nodes: [node("approval", NodeKind.Approval)],
+      userId: "user",
+      trigger: "chat",
+      chat: { threadId: "thread", toolCallId: "call" },
+    });
+    const waitingState = {
+      ...state(
+        "approval",
+        { message: "Ship it?", approverUserId: "approver" },
+        undefined,
+      ),
+      isWaiting: (id: string) => id == "approval",
+      nodes: [],
+      edges: [],
+      context: { userId: "user", workflowIds: ["wf"] },
+      query: {},
+      inputs: { approval: { message: "Ship it?" } },
+      outputs: {},
+      errors: {},
+      approvals: {},
+      waitingNodeIds: ["approval"],
+      branchWaits: {},
+    };
+
+    emit({
+      eventType: "NODE_END",
+      node: { name: "approval", output: waitingState },
+      isOk: true,
+      startedAt: 0,
+      endedAt: 10,
+    });
+    await recorder.flush();
+
+    // Other branches may still run; nothing can be decided yet
+    expect(repository.insertNodeRun).toHaveBeenLastCalledWith(
+      expect.objectContaining({ nodeId: "approval", status: "waiting" }),
+    );
+    expect(repository.suspendRun).not.toHaveBeenCalled();
+
+    emit({
+      eventType: "WORKFLOW_END",
+      isOk: true,
+      output: waitingState,
+      startedAt: 0,
+      endedAt: 20,
+    });
+    await recorder.flush();
+
+    expect(repository.suspendRun).toHaveBeenCalledWith(
+      recorder.runId,
+      expect.objectContaining({
+        waitingNodeIds: ["approval"],
+        chat: { threadId: "thread", toolCallId: "call" },
+      }),
+      [
+        {
+          workflowId: "wf",
+          nodeId: "approval",
+          nodeName: "APPROVAL",
+          message: "Ship it?",
+          approverUserId: "approver",
+        },
+      ],
+    );
+    expect(repository.finishRun).not.toHaveBeenCalled();
+  });
+});
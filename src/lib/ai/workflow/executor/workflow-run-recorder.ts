@@ -0,0 +1,140 @@
+import {
+  DBNode,
+  WorkflowApprovalRequest,
+  WorkflowRunError,
+  WorkflowRunSnapshot,
+  WorkflowRunTrigger,
+} from "app-types/workflow";
+import { workflowRunRepository } from "lib/db/repository";
+import { errorToString, generateUUID, toAny } from "lib/utils";
+import logger from "logger";
+import { NodeKind } from "../workflow.interface";
+import { snapshotRuntimeState, WorkflowRuntimeState } from "./graph-store";
+import { createWorkflowExecutor } from "./workflow-executor";
+
+type WorkflowExecutor = ReturnType<typeof createWorkflowExecutor>;
+
+export function toRunError(error: unknown): WorkflowRunError {
+  return {
+    name: toAny(error)?.name || "ERROR",
+    message: errorToString(error),
+  };
+}
+
+/**
+ * Persists an execution of the workflow and every node it runs.
+ * Subscribe before any listener that rewrites event errors, and before the
+ * executor starts. Writes run in event order, and a failed write is logged
+ * without interrupting the workflow.
+ * When Approval nodes suspend the run, it is saved as waiting together with
+ * a snapshot to resume from, and an approval is requested for each of them.
+ * Pass `runId` to keep recording a resumed run.
+ */
+export function recordWorkflowRun(
+  executor: WorkflowExecutor,
+  options: {
+    workflowId: string;
+    nodes: DBNode[];
+    userId?: string | null;
+    trigger: WorkflowRunTrigger;
+    runId?: string;
+    chat?: WorkflowRunSnapshot["chat"];
+  },
+) {
+  const runId = options.runId ?? generateUUID();
+  const nodeById = new Map(options.nodes.map((node) => [node.id, node]));
+  const outputs: unknown[] = [];
+  const approvals: WorkflowApprovalRequest[] = [];
+
+  let queue = Promise.resolve();
+  const enqueue = (write: () => Promise<void>) => {
+    queue = queue
+      .then(write)
+      .catch((error) => logger.error("Failed to record workflow run", error));
+  };
+
+  executor.subscribe((event) => {
+    if (event.eventType == "WORKFLOW_START") {
+      if (options.runId) return;
+      enqueue(() =>
+        workflowRunRepository.insertRun({
+          id: runId,
+          workflowId: options.workflowId,
+          userId: options.userId ?? null,
+          trigger: options.trigger,
+          input: toAny(event.input)?.query,
+          startedAt: new Date(event.startedAt),
+        }),
+      );
+    } else if (event.eventType == "NODE_END") {
+      const node = nodeById.get(event.node.name);
+      if (!node) return;
+      const state: WorkflowRuntimeState | undefined =
+        event.node.output ?? event.node.input;
+      const output = event.isOk
+        ? state?.getOutput({ nodeId: node.id, path: [] })
+        : undefined;
+      const recoveredError = event.isOk ? state?.getError(node.id) : undefined;
+      const isWaiting = event.isOk && !!state?.isWaiting(node.id);
+      if (event.isOk && node.kind == NodeKind.Output) outputs.push(output);
+      enqueue(() =>
+        workflowRunRepository.insertNodeRun({
+          runId,
+          nodeId: node.id,
+          nodeName: node.name,
+          kind: node.kind as NodeKind,
+          status: !event.isOk
+            ? "fail"
+            : isWaiting
+              ? "waiting"
+              : recoveredError
+                ? "recovered"
+                : "success",
+          input: state?.getInput(node.id),
+          output,
+          error: event.isOk
+            ? recoveredError
+              ? { name: recoveredError.name, message: recoveredError.message }
+              : null
+            : toRunError(event.error),
+          startedAt: new Date(event.startedAt),
+          endedAt: new Date(event.endedAt),
+        }),
+      );
+      // Requested once the run is suspended, so they cannot be decided while
+      // other branches still run
+      if (isWaiting) {
+        const { message, approverUserId } = state!.getInput(node.id) ?? {};
+        approvals.push({
+          workflowId: options.workflowId,
+          nodeId: node.id,
+          nodeName: node.name,
+          message: message || null,
+          approverUserId,
+        });
+      }
+    } else if (event.eventType == "WORKFLOW_END") {
+      const state = event.output as WorkflowRuntimeState | undefined;
+      if (event.isOk && state?.waitingNodeIds.length) {
+        const snapshot = snapshotRuntimeState(state, options.chat);
+        enqueue(() =>
+          workflowRunRepository.suspendRun(runId, snapshot, approvals),
+        );
+        return;
+      }
+      enqueue(() =>
+        workflowRunRepository.finishRun(runId, {
+          status: event.isOk ? "success" : "fail",
+          output: outputs.length == 1 ? outputs[0] : outputs,
+          error: event.isOk ? null : toRunError(event.error),
+          endedAt: new Date(event.endedAt),
+        }),
+      );
+    }
+  });
+
+  return {
+    runId,
+    flush: () => queue,
+  };
+}
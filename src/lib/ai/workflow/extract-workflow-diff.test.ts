@@ -1,6 +1,9 @@
 import { describe, it, expect } from "vitest";
 import { Edge } from "@xyflow/react";
-import { extractWorkflowDiff } from "./extract-workflow-diff";
+import {
+  extractWorkflowDiff,
+  summarizeWorkflowDiff,
+} from "./extract-workflow-diff";
 import { UINode, NodeKind } from "./workflow.interface";
 
 describe("extractWorkflowDiff", () => {
@@ -91,3 +94,59 @@ describe("extractWorkflowDiff", () => {
     expect(result.updateEdges[0].id).toBe("edge1");
   });
 });
+
+describe("summarizeWorkflowDiff", () => {
+  const node = (
+    id: string,
+    name: string,
+    position = { x: 0, y: 0 },
+  ): UINode => ({
+    id,
+    type: "default",
+    position,
+    data: {
+      id,
+      name,
+      kind: NodeKind.Input,
+      outputSchema: { type: "object", properties: {} },
+      runtime: {},
+    },
+  });
+
+  it("should separate added, removed and changed nodes", () => {
+    const result = summarizeWorkflowDiff(
+      {
+        nodes: [node("a", "A"), node("b", "B"), node("c", "C")],
+        edges: [
+          { id: "e1", source: "a", target: "b" },
+          { id: "e2", source: "b", target: "c" },
+        ],
+      },
+      {
+        nodes: [node("a", "A renamed"), node("c", "C"), node("d", "D")],
+        edges: [
+          { id: "e2", source: "a", target: "c" },
+          { id: "e3", source: "c", target: "d" },
+        ],
+      },
+    );
+
+    expect(result.addedNodes.map((n) => n.id)).toEqual(["d"]);
+    expect(result.removedNodes.map((n) => n.id)).toEqual(["b"]);
+    expect(result.changedNodes.map((n) => n.id)).toEqual(["a"]);
+    expect(result.addedEdges.map((e) => e.id)).toEqual(["e3"]);
+    expect(result.removedEdges.map((e) => e.id)).toEqual(["e1"]);
+    expect(result.changedEdges.map((e) => e.id)).toEqual(["e2"]);
+  });
+
+  it("should ignore nodes that only moved", () => {
+    const result = summarizeWorkflowDiff(
+      { nodes: [node("a", "A")], edges: [] },
+      { nodes: [node("a", "A", { x: 100, y: 40 })], edges: [] },
+    );
+
+    expect(result.changedNodes).toHaveLength(0);
+    expect(result.addedNodes).toHaveLength(0);
+    expect(result.removedNodes).toHaveLength(0);
+  });
+});
@@ -71,3 +71,30 @@ export function extractWorkflowDiff(
     updateEdges,
   };
 }
+
+/**
+ * Groups the changes between two versions of a workflow for review.
+ * Nodes that only moved on the canvas are not reported as changed.
+ */
+export function summarizeWorkflowDiff(
+  oldData: { nodes: UINode[]; edges: Edge[] },
+  newData: { nodes: UINode[]; edges: Edge[] },
+) {
+  const diff = extractWorkflowDiff(oldData, newData);
+  const oldNodes = new Map(oldData.nodes.map((node) => [node.id, node]));
+  const oldEdgeIds = new Set(oldData.edges.map((edge) => edge.id));
+  const withoutPosition = (node: UINode) =>
+    exclude(normalizeNode(node), ["position"]);
+
+  return {
+    addedNodes: diff.updateNodes.filter((node) => !oldNodes.has(node.id)),
+    removedNodes: diff.deleteNodes,
+    changedNodes: diff.updateNodes.filter((node) => {
+      const oldNode = oldNodes.get(node.id);
+      return oldNode && !equal(withoutPosition(oldNode), withoutPosition(node));
+    }),
+    addedEdges: diff.updateEdges.filter((edge) => !oldEdgeIds.has(edge.id)),
+    removedEdges: diff.deleteEdges,
+    changedEdges: diff.updateEdges.filter((edge) => oldEdgeIds.has(edge.id)),
+  };
+}
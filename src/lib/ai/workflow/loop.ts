@@ -0,0 +1,52 @@
+/**
+ * Source handle of a Loop node that leads into its body.
+ * Edges from the regular "right" handle continue once every item is done.
+ */
+export const LOOP_BODY_HANDLE = "loop";
+
+export const DEFAULT_LOOP_CONCURRENCY = 1;
+export const MAX_LOOP_CONCURRENCY = 10;
+
+type LoopEdge = {
+  source: string;
+  target: string;
+  sourceHandle?: string | null;
+};
+
+export function isLoopBodyEdge(edge: Pick<LoopEdge, "sourceHandle">) {
+  return edge.sourceHandle === LOOP_BODY_HANDLE;
+}
+
+/**
+ * Returns the ids of the nodes inside the body of a loop:
+ * every node reachable from the loop's body handle.
+ * Bodies of nested loops are included.
+ */
+export function findLoopBodyNodeIds(
+  loopNodeId: string,
+  edges: LoopEdge[],
+): string[] {
+  const body = new Set<string>();
+  const queue = edges
+    .filter((edge) => edge.source === loopNodeId && isLoopBodyEdge(edge))
+    .map((edge) => edge.target);
+
+  while (queue.length) {
+    const id = queue.shift()!;
+    if (id === loopNodeId || body.has(id)) continue;
+    body.add(id);
+    edges
+      .filter((edge) => edge.source === id)
+      .forEach((edge) => queue.push(edge.target));
+  }
+  return Array.from(body);
+}
+
+/**
+ * Ids of the loop nodes in `edges`, i.e. the sources of body edges.
+ */
+export function findLoopNodeIds(edges: LoopEdge[]): string[] {
+  return Array.from(
+    new Set(edges.filter(isLoopBodyEdge).map((edge) => edge.source)),
+  );
+}
@@ -6,7 +6,10 @@ import {
   inputNodeValidate,
   outputNodeValidate,
   llmNodeValidate,
+  conditionNodeValidate,
+  approvalNodeValidate,
 } from "./node-validate";
+import { ConditionBranch, StringConditionOperator } from "./condition";
 import { UINode, NodeKind } from "./workflow.interface";
 
 describe("node-validate", () => {
@@ -170,6 +173,118 @@ describe("node-validate", () => {
     });
   });
 
+  describe("approvalNodeValidate", () => {
+    const validate = (approver?: any) => () =>
+      approvalNodeValidate({
+        node: {
+          id: "approval",
+          name: "Approval",
+          kind: NodeKind.Approval,
+          outputSchema: { type: "object", properties: {} },
+          approver,
+        },
+        nodes: [],
+        edges: [],
+      });
+
+    it("should require an approver", () => {
+      expect(validate()).toThrow("Approval node must have an approver");
+      expect(validate({ type: "owner" })).not.toThrow();
+    });
+
+    it("should require a valid approver email", () => {
+      expect(validate({ type: "user", email: "" })).toThrow(
+        "Approver must be a valid email",
+      );
+      expect(
+        validate({ type: "user", email: "ann@example.com" }),
+      ).not.toThrow();
+    });
+  });
+
+  describe("conditionNodeValidate", () => {
+    const createConditionNodeData = (
+      branch: Partial<ConditionBranch>,
+    ): UINode<NodeKind.Condition> => ({
+      id: "condition",
+      type: "default",
+      position: { x: 0, y: 0 },
+      data: {
+        id: "condition",
+        name: "Check",
+        kind: NodeKind.Condition,
+        outputSchema: { type: "object", properties: {} },
+        branches: {
+          if: {
+            id: "if",
+            type: "if",
+            conditions: [],
+            logicalOperator: "AND",
+            ...branch,
+          },
+          else: {
+            id: "else",
+            type: "else",
+            conditions: [],
+            logicalOperator: "AND",
+          },
+        },
+      },
+    });
+    const validate = (branch: Partial<ConditionBranch>) => {
+      const condition = createConditionNodeData(branch);
+      const nodes = [createInputNodeData("start", "Start"), condition];
+      return () =>
+        conditionNodeValidate({ node: condition.data, nodes, edges: [] });
+    };
+
+    it("should validate expressions that reference existing nodes", () => {
+      expect(
+        validate({ mode: "expression", expression: "Start.input = 'a'" }),
+      ).not.toThrow();
+    });
+
+    it("should throw error for invalid expressions", () => {
+      expect(validate({ mode: "expression", expression: " " })).toThrow(
+        "must have an expression",
+      );
+      expect(
+        validate({ mode: "expression", expression: "Start.input =" }),
+      ).toThrow("Unexpected end of expression");
+      expect(
+        validate({ mode: "expression", expression: "Other.input = 1" }),
+      ).toThrow("Unknown node 'Other'");
+    });
+
+    it("should throw error for invalid regular expressions", () => {
+      expect(
+        validate({
+          conditions: [
+            {
+              source: { nodeId: "start", path: ["input"] },
+              operator: StringConditionOperator.Matches,
+              value: "[",
+            },
+          ],
+        }),
+      ).toThrow("invalid regular expression");
+    });
+
+    it("should throw error for regular expressions that nest repetitions", () => {
+      expect(
+        validate({
+          conditions: [
+            {
+              source: { nodeId: "start", path: ["input"] },
+              operator: StringConditionOperator.Matches,
+              value: "(a*)*b",
+            },
+          ],
+        }),
+      ).toThrow("cannot repeat a group");
+    });
+  });
+
   describe("allNodeValidate", () => {
     it("should validate workflow with start and end nodes", () => {
       const startNode = createInputNodeData("start", "Start Node");
@@ -11,11 +11,28 @@ import {
   ToolNodeData,
   HttpNodeData,
   TemplateNodeData,
+  CodeNodeData,
+  LoopNodeData,
+  SubWorkflowNodeData,
+  ApprovalNodeData,
 } from "lib/ai/workflow/workflow.interface";
 import { cleanVariableName } from "lib/utils";
 import { safe } from "ts-safe";
+import { z } from "zod";
 import { findJsonSchemaByPath } from "./shared.workflow";
-import { ConditionBranch } from "./condition";
+import { ConditionBranch, StringConditionOperator } from "./condition";
+import {
+  ConditionExpressionError,
+  findExpressionReferences,
+  parseConditionExpression,
+  toUserRegExp,
+} from "./condition-expression";
+import { ERROR_BRANCH_HANDLE, MAX_NODE_RETRIES } from "./error-policy";
+import {
+  findLoopBodyNodeIds,
+  isLoopBodyEdge,
+  MAX_LOOP_CONCURRENCY,
+} from "./loop";
 
 export function validateSchema(key: string, schema: JSONSchema7) {
   const variableName = cleanVariableName(key);
@@ -94,6 +111,7 @@ export const nodeValidate: NodeValidate<WorkflowNodeData> = ({
   ) {
     throw new Error("Node name must be unique");
   }
+  errorPolicyValidate({ node, nodes, edges });
   switch (node.kind) {
     case NodeKind.Input:
       return inputNodeValidate({ node, nodes, edges });
@@ -109,6 +127,14 @@ export const nodeValidate: NodeValidate<WorkflowNodeData> = ({
       return httpNodeValidate({ node, nodes, edges });
     case NodeKind.Template:
       return templateNodeValidate({ node, nodes, edges });
+    case NodeKind.Code:
+      return codeNodeValidate({ node, nodes, edges });
+    case NodeKind.Loop:
+      return loopNodeValidate({ node, nodes, edges });
+    case NodeKind.SubWorkflow:
+      return subWorkflowNodeValidate({ node, nodes, edges });
+    case NodeKind.Approval:
+      return approvalNodeValidate({ node, nodes, edges });
   }
 };
 
@@ -183,12 +209,38 @@ export const llmNodeValidate: NodeValidate<LLMNodeData> = ({ node }) => {
 
 export const conditionNodeValidate: NodeValidate<ConditionNodeData> = ({
   node,
+  nodes,
 }) => {
   const branchValidate = (branch: ConditionBranch) => {
+    if (branch.mode == "expression") {
+      if (!branch.expression?.trim())
+        throw new Error("Condition must have an expression");
+      const tree = parseConditionExpression(branch.expression);
+      const unknownName = findExpressionReferences(tree).find(
+        (name) => name == node.name || !nodes.some((n) => n.data.name === name),
+      );
+      if (unknownName !== undefined)
+        throw new Error(`Unknown node '${unknownName}' in expression`);
+      return;
+    }
     branch.conditions.forEach((condition) => {
       if (!condition.operator)
         throw new Error("Condition must have a operator");
       if (!condition.source) throw new Error("Condition must have a value");
+      if (
+        condition.operator == StringConditionOperator.Matches &&
+        !condition.valueSource
+      ) {
+        try {
+          toUserRegExp(String(condition.value ?? ""));
+        } catch (error) {
+          throw new Error(
+            error instanceof ConditionExpressionError
+              ? error.message
+              : "Condition has an invalid regular expression",
+          );
+        }
+      }
     });
   };
   [node.branches.if, ...(node.branches.elseIf ?? [])].forEach(branchValidate);
@@ -270,3 +322,158 @@ export const templateNodeValidate: NodeValidate<TemplateNodeData> = ({
   // Template content can be undefined/empty - that's valid
   // The actual content validation is handled by the TipTap editor
 };
+
+export const codeNodeValidate: NodeValidate<CodeNodeData> = ({
+  node,
+  nodes,
+}) => {
+  if (!["javascript", "python"].includes(node.language)) {
+    throw new Error("Code language must be javascript or python");
+  }
+  if (!node.code?.trim()) throw new Error("Code node must have code");
+
+  const keys = node.variables.map((variable) => variable.key);
+  if (keys.length !== new Set(keys).size) {
+    throw new Error("Code variables must have unique names");
+  }
+  node.variables.forEach((variable) => {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(variable.key)) {
+      throw new Error(`Invalid variable name: ${variable.key}`);
+    }
+    if (!variable.source) throw new Error("Code variable must have a source");
+    if (!nodes.some((n) => n.data.id === variable.source?.nodeId)) {
+      throw new Error("Source node not found");
+    }
+  });
+
+  if (node.timeout !== undefined) {
+    if (typeof node.timeout !== "number" || node.timeout <= 0) {
+      throw new Error("Code timeout must be a positive number");
+    }
+    if (node.timeout > 300000) {
+      throw new Error("Code timeout cannot exceed 300000ms (5 minutes)");
+    }
+  }
+};
+
+export const loopNodeValidate: NodeValidate<LoopNodeData> = ({
+  node,
+  nodes,
+  edges,
+}) => {
+  if (!node.source) throw new Error("Loop node must have a source array");
+  const sourceNode = nodes.find((n) => n.data.id === node.source?.nodeId);
+  if (!sourceNode) throw new Error("Source node not found");
+  const sourceSchema = findJsonSchemaByPath(
+    sourceNode.data.outputSchema,
+    node.source.path,
+  );
+  if (sourceSchema && sourceSchema.type !== "array") {
+    throw new Error("Loop source must be an array");
+  }
+
+  if (node.concurrency !== undefined) {
+    if (!Number.isInteger(node.concurrency) || node.concurrency < 1) {
+      throw new Error("Loop concurrency must be a positive integer");
+    }
+    if (node.concurrency > MAX_LOOP_CONCURRENCY) {
+      throw new Error(`Loop concurrency cannot exceed ${MAX_LOOP_CONCURRENCY}`);
+    }
+  }
+
+  const bodyIds = findLoopBodyNodeIds(node.id, edges);
+  if (!bodyIds.length) throw new Error("Loop node must have a body");
+  if (
+    nodes.some((n) => bodyIds.includes(n.id) && n.data.kind === NodeKind.Output)
+  ) {
+    throw new Error("Output node cannot be inside a loop body");
+  }
+  // A suspended run resumes from the top level graph only
+  if (
+    nodes.some(
+      (n) => bodyIds.includes(n.id) && n.data.kind === NodeKind.Approval,
+    )
+  ) {
+    throw new Error("Approval node cannot be inside a loop body");
+  }
+  // Body nodes run once per item, so they can only be reached from the loop
+  const entersFromOutside = edges.some(
+    (edge) =>
+      bodyIds.includes(edge.target) &&
+      !bodyIds.includes(edge.source) &&
+      !(edge.source === node.id && isLoopBodyEdge(edge)),
+  );
+  if (entersFromOutside) {
+    throw new Error("Loop body can only be connected from its loop node");
+  }
+};
+
+export const errorPolicyValidate: NodeValidate<WorkflowNodeData> = ({
+  node,
+  edges,
+}) => {
+  const policy = node.errorPolicy;
+  const hasErrorBranch = edges.some(
+    (e) => e.source === node.id && e.sourceHandle === ERROR_BRANCH_HANDLE,
+  );
+  if (policy?.onError === "branch" && !hasErrorBranch) {
+    throw new Error("Error branch must be connected to a node");
+  }
+  if (policy?.onError !== "branch" && hasErrorBranch) {
+    throw new Error("Error branch is connected but errors are not routed");
+  }
+  if (!policy) return;
+
+  if (policy.retries !== undefined) {
+    if (!Number.isInteger(policy.retries) || policy.retries < 0) {
+      throw new Error("Retries must be a non-negative integer");
+    }
+    if (policy.retries > MAX_NODE_RETRIES) {
+      throw new Error(`Retries cannot exceed ${MAX_NODE_RETRIES}`);
+    }
+  }
+  if (policy.retryBackoff !== undefined && policy.retryBackoff < 0) {
+    throw new Error("Retry backoff cannot be negative");
+  }
+  if (policy.timeout !== undefined) {
+    if (typeof policy.timeout !== "number" || policy.timeout <= 0) {
+      throw new Error("Node timeout must be a positive number");
+    }
+    if (policy.timeout > 300000) {
+      throw new Error("Node timeout cannot exceed 300000ms (5 minutes)");
+    }
+  }
+};
+
+export const subWorkflowNodeValidate: NodeValidate<SubWorkflowNodeData> = ({
+  node,
+  nodes,
+}) => {
+  if (!node.workflow)
+    throw new Error("Sub-workflow node must select a workflow");
+  node.inputSchema?.required?.forEach((key) => {
+    if (!node.inputs.some((input) => input.key === key && input.source)) {
+      throw new Error(`Sub-workflow input '${key}' is required`);
+    }
+  });
+  node.inputs.forEach((input) => {
+    if (
+      input.source &&
+      !nodes.some((n) => n.data.id === input.source?.nodeId)
+    ) {
+      throw new Error("Source node not found");
+    }
+  });
+};
+
+export const approvalNodeValidate: NodeValidate<ApprovalNodeData> = ({
+  node,
+}) => {
+  if (!node.approver) throw new Error("Approval node must have an approver");
+  if (
+    node.approver.type == "user" &&
+    !z.string().email().safeParse(node.approver.email).success
+  ) {
+    throw new Error("Approver must be a valid email");
+  }
+};
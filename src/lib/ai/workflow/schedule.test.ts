@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { getNextScheduleRunAt, validateSchedule } from "./schedule";
+
+describe("validateSchedule", () => {
+  it("accepts 5-field cron expressions in a known timezone", () => {
+    expect(validateSchedule("0 9 * * 1-5", "Europe/Berlin")).toBeUndefined();
+    expect(validateSchedule("*/15 * * * *", "UTC")).toBeUndefined();
+  });
+
+  it("rejects invalid expressions and timezones", () => {
+    expect(validateSchedule("* * * * * *", "UTC")).toContain("5 fields");
+    expect(validateSchedule("61 * * * *", "UTC")).toContain(
+      "Invalid cron expression",
+    );
+    expect(validateSchedule("0 9 * * *", "Mars/Olympus")).toContain(
+      "Unknown timezone",
+    );
+  });
+});
+
+describe("getNextScheduleRunAt", () => {
+  it("resolves the next run in the schedule's timezone", () => {
+    const from = new Date("2026-10-17T10:00:00Z"); // Saturday
+
+    expect(
+      getNextScheduleRunAt("0 9 * * 1-5", "Europe/Berlin", from).toISOString(),
+    ).toBe("2026-10-19T07:00:00.000Z");
+    expect(getNextScheduleRunAt("0 9 * * *", "UTC", from).toISOString()).toBe(
+      "2026-10-18T09:00:00.000Z",
+    );
+  });
+});
@@ -0,0 +1,44 @@
+import { CronExpressionParser } from "cron-parser";
+
+export const DEFAULT_SCHEDULE_TIMEZONE = "UTC";
+
+export function isValidTimezone(timezone: string) {
+  try {
+    new Intl.DateTimeFormat(undefined, { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns an error message for an invalid schedule, or undefined.
+ * Only standard 5-field cron expressions (minute precision) are accepted.
+ */
+export function validateSchedule(cron: string, timezone: string) {
+  if (!isValidTimezone(timezone)) return `Unknown timezone "${timezone}"`;
+  if (cron.trim().split(/\s+/).length != 5) {
+    return "Cron expression must have 5 fields: minute hour day month weekday";
+  }
+  try {
+    CronExpressionParser.parse(cron, { tz: timezone });
+  } catch (error) {
+    return `Invalid cron expression: ${(error as Error).message}`;
+  }
+}
+
+/**
+ * Next time after `from` that matches the cron expression in the timezone.
+ */
+export function getNextScheduleRunAt(
+  cron: string,
+  timezone: string,
+  from: Date = new Date(),
+): Date {
+  return CronExpressionParser.parse(cron, {
+    currentDate: from,
+    tz: timezone,
+  })
+    .next()
+    .toDate();
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import {
+  assertSubWorkflowCall,
+  extractWorkflowInputSchema,
+  extractWorkflowOutputSchema,
+  MAX_SUB_WORKFLOW_DEPTH,
+} from "./sub-workflow";
+import { NodeKind } from "./workflow.interface";
+
+describe("assertSubWorkflowCall", () => {
+  it("allows calling a workflow outside the call stack", () => {
+    expect(() => assertSubWorkflowCall(["a", "b"], "c")).not.toThrow();
+  });
+
+  it("rejects recursive calls", () => {
+    expect(() => assertSubWorkflowCall(["a", "b"], "a")).toThrow("running it");
+  });
+
+  it("rejects calls past the maximum depth", () => {
+    const stack = Array.from(
+      { length: MAX_SUB_WORKFLOW_DEPTH },
+      (_, i) => `w${i}`,
+    );
+    expect(() => assertSubWorkflowCall(stack, "next")).toThrow("nested");
+  });
+});
+
+describe("extractWorkflowInputSchema", () => {
+  it("returns the Input node schema", () => {
+    const schema = {
+      type: "object",
+      properties: { topic: { type: "string" } },
+      required: ["topic"],
+    };
+    expect(
+      extractWorkflowInputSchema([
+        { kind: NodeKind.Input, nodeConfig: { outputSchema: schema } },
+      ]),
+    ).toEqual(schema);
+  });
+
+  it("falls back to an empty object schema", () => {
+    expect(extractWorkflowInputSchema([])).toEqual({
+      type: "object",
+      properties: {},
+    });
+  });
+});
+
+describe("extractWorkflowOutputSchema", () => {
+  it("types every Output field after the node output it references", () => {
+    const schema = extractWorkflowOutputSchema([
+      {
+        id: "llm",
+        kind: NodeKind.LLM,
+        nodeConfig: {
+          outputSchema: {
+            type: "object",
+            properties: {
+              answer: { type: "string" },
+              totalTokens: { type: "number" },
+            },
+          },
+        },
+      },
+      {
+        id: "out",
+        kind: NodeKind.Output,
+        nodeConfig: {
+          outputData: [
+            { key: "summary", source: { nodeId: "llm", path: ["answer"] } },
+            { key: "raw", source: { nodeId: "llm", path: [] } },
+            { key: "missing" },
+          ],
+        },
+      },
+    ]);
+
+    expect(schema.properties).toEqual({
+      summary: { type: "string" },
+      raw: {
+        type: "object",
+        properties: {
+          answer: { type: "string" },
+          totalTokens: { type: "number" },
+        },
+      },
+      missing: {},
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { ObjectJsonSchema7 } from "app-types/util";
+import { DBNode } from "app-types/workflow";
+import { JSONSchema7 } from "json-schema";
+import {
+  defaultObjectJsonSchema,
+  findJsonSchemaByPath,
+} from "./shared.workflow";
+import { NodeKind, OutputNodeData } from "./workflow.interface";
+
+/**
+ * How many workflows deep sub-workflow nodes may nest, counting the
+ * workflow that started the run.
+ */
+export const MAX_SUB_WORKFLOW_DEPTH = 5;
+
+/**
+ * Throws when calling `workflowId` from the given chain of running workflows
+ * would recurse or nest deeper than {@link MAX_SUB_WORKFLOW_DEPTH}.
+ */
+export function assertSubWorkflowCall(callStack: string[], workflowId: string) {
+  if (callStack.includes(workflowId)) {
+    throw new Error("Sub-workflow cannot call a workflow that is running it");
+  }
+  if (callStack.length >= MAX_SUB_WORKFLOW_DEPTH) {
+    throw new Error(
+      `Sub-workflows cannot be nested more than ${MAX_SUB_WORKFLOW_DEPTH} levels deep`,
+    );
+  }
+}
+
+export function extractWorkflowInputSchema(
+  nodes: Pick<DBNode, "kind" | "nodeConfig">[],
+): ObjectJsonSchema7 {
+  const inputNode = nodes.find((node) => node.kind == NodeKind.Input);
+  return (
+    (inputNode?.nodeConfig.outputSchema as ObjectJsonSchema7 | undefined) ??
+    structuredClone(defaultObjectJsonSchema)
+  );
+}
+
+/**
+ * Builds the schema of what a workflow returns: one property per field of
+ * its Output node, typed after the node output that field references.
+ */
+export function extractWorkflowOutputSchema(
+  nodes: Pick<DBNode, "id" | "kind" | "nodeConfig">[],
+): ObjectJsonSchema7 {
+  const outputNode = nodes.find((node) => node.kind == NodeKind.Output);
+  const outputData =
+    (outputNode?.nodeConfig as OutputNodeData | undefined)?.outputData ?? [];
+  return {
+    type: "object",
+    properties: Object.fromEntries(
+      outputData.map(({ key, source }) => {
+        const sourceSchema = nodes.find((node) => node.id == source?.nodeId)
+          ?.nodeConfig.outputSchema as ObjectJsonSchema7 | undefined;
+        const schema =
+          sourceSchema && source?.path.length
+            ? findJsonSchemaByPath(sourceSchema, source.path)
+            : sourceSchema;
+        return [key, schema ?? ({} as JSONSchema7)];
+      }),
+    ),
+  };
+}
@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import { MemoryCache } from "lib/cache/memory-cache";
+import {
+  claimWebhookDelivery,
+  generateWebhookSecret,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from "./webhook";
+
+describe("webhook signatures", () => {
+  const secret = generateWebhookSecret();
+  const body = JSON.stringify({ topic: "daily digest" });
+  const now = 1_760_000_000_000;
+  const timestamp = String(now / 1000);
+  const deliveryId = "delivery-1";
+
+  it("verifies payloads signed with the same secret", async () => {
+    const signature = await signWebhookPayload(
+      secret,
+      deliveryId,
+      timestamp,
+      body,
+    );
+
+    expect(signature).toMatch(/^sha256=[0-9a-f]{64}$/);
+    expect(
+      await verifyWebhookSignature({
+        secret,
+        deliveryId,
+        timestamp,
+        signature,
+        body,
+        now,
+      }),
+    ).toBe(true);
+  });
+
+  it("rejects tampered bodies, other secrets and stale timestamps", async () => {
+    const signature = await signWebhookPayload(
+      secret,
+      deliveryId,
+      timestamp,
+      body,
+    );
+
+    expect(
+      await verifyWebhookSignature({
+        secret,
+        deliveryId,
+        timestamp,
+        signature,
+        body: body.replace("daily", "weekly"),
+        now,
+      }),
+    ).toBe(false);
+    expect(
+      await verifyWebhookSignature({
+        secret: generateWebhookSecret(),
+        deliveryId,
+        timestamp,
+        signature,
+        body,
+        now,
+      }),
+    ).toBe(false);
+    expect(
+      await verifyWebhookSignature({
+        secret,
+        deliveryId,
+        timestamp,
+        signature,
+        body,
+        now: now + 10 * 60 * 1000,
+      }),
+    ).toBe(false);
+    expect(
+      await verifyWebhookSignature({
+        secret,
+        deliveryId,
+        timestamp,
+        signature: "sha256=not-hex",
+        body,
+        now,
+      }),
+    ).toBe(false);
+  });
+
+  it("rejects a missing or swapped delivery id", async () => {
+    const signature = await signWebhookPayload(
+      secret,
+      deliveryId,
+      timestamp,
+      body,
+    );
+
+    for (const id of [undefined, "delivery-2", "bad id"]) {
+      expect(
+        await verifyWebhookSignature({
+          secret,
+          deliveryId: id,
+          timestamp,
+          signature,
+          body,
+          now,
+        }),
+      ).toBe(false);
+    }
+  });
+});
+
+describe("claimWebhookDelivery", () => {
+  it("accepts each delivery id once per workflow", async () => {
+    const cache = new MemoryCache({ cleanupIntervalMs: 0 });
+
+    expect(await claimWebhookDelivery(cache, "wf-1", "delivery-1")).toBe(true);
+    expect(await claimWebhookDelivery(cache, "wf-1", "delivery-1")).toBe(false);
+    expect(await claimWebhookDelivery(cache, "wf-2", "delivery-1")).toBe(true);
+  });
+
+  it("accepts only one of two concurrent copies", async () => {
+    const cache = new MemoryCache({ cleanupIntervalMs: 0 });
+
+    const claims = await Promise.all([
+      claimWebhookDelivery(cache, "wf-1", "delivery-1"),
+      claimWebhookDelivery(cache, "wf-1", "delivery-1"),
+    ]);
+
+    expect(claims.sort()).toEqual([false, true]);
+  });
+});
@@ -0,0 +1,119 @@
+import type { Cache } from "lib/cache/cache.interface";
+
+export const WEBHOOK_ID_HEADER = "x-webhook-id";
+export const WEBHOOK_SIGNATURE_HEADER = "x-webhook-signature";
+export const WEBHOOK_TIMESTAMP_HEADER = "x-webhook-timestamp";
+
+// Signed requests older or newer than this are rejected as replays.
+export const WEBHOOK_TIMESTAMP_TOLERANCE_MS = 5 * 60 * 1000;
+
+const DELIVERY_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+const SIGNATURE_PREFIX = "sha256=";
+
+const encoder = new TextEncoder();
+
+function toHex(bytes: ArrayBuffer | Uint8Array) {
+  return Array.from(new Uint8Array(bytes))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+function fromHex(hex: string) {
+  if (!/^([0-9a-f]{2})+$/i.test(hex)) return;
+  return new Uint8Array(
+    hex.match(/.{2}/g)!.map((byte) => Number.parseInt(byte, 16)),
+  );
+}
+
+function importKey(secret: string) {
+  return crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"],
+  );
+}
+
+export function generateWebhookSecret() {
+  return `whsec_${toHex(crypto.getRandomValues(new Uint8Array(24)))}`;
+}
+
+/**
+ * HMAC-SHA256 of `<delivery id>.<timestamp>.<body>`, formatted as
+ * `sha256=<hex>`.
+ */
+export async function signWebhookPayload(
+  secret: string,
+  deliveryId: string,
+  timestamp: string,
+  body: string,
+) {
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    await importKey(secret),
+    encoder.encode(`${deliveryId}.${timestamp}.${body}`),
+  );
+  return `${SIGNATURE_PREFIX}${toHex(signature)}`;
+}
+
+export async function verifyWebhookSignature({
+  secret,
+  deliveryId,
+  timestamp,
+  signature,
+  body,
+  now = Date.now(),
+}: {
+  secret: string;
+  deliveryId?: string | null;
+  timestamp?: string | null;
+  signature?: string | null;
+  body: string;
+  now?: number;
+}): Promise<boolean> {
+  if (
+    !deliveryId ||
+    !DELIVERY_ID_PATTERN.test(deliveryId) ||
+    !timestamp ||
+    !signature?.startsWith(SIGNATURE_PREFIX)
+  ) {
+    return false;
+  }
+  // Timestamps are unix seconds.
+  const sentAt = Number(timestamp) * 1000;
+  if (
+    !Number.isFinite(sentAt) ||
+    Math.abs(now - sentAt) > WEBHOOK_TIMESTAMP_TOLERANCE_MS
+  ) {
+    return false;
+  }
+  const expected = fromHex(signature.slice(SIGNATURE_PREFIX.length));
+  if (!expected) return false;
+  // subtle.verify compares in constant time.
+  return crypto.subtle.verify(
+    "HMAC",
+    await importKey(secret),
+    expected,
+    encoder.encode(`${deliveryId}.${timestamp}.${body}`),
+  );
+}
+
+/**
+ * Records a verified delivery and returns false when its id was already seen.
+ * Ids are kept for twice the timestamp tolerance, which covers every request
+ * whose timestamp is still accepted. The id is claimed atomically, so of two
+ * copies arriving at the same moment only one passes.
+ */
+export async function claimWebhookDelivery(
+  cache: Cache,
+  workflowId: string,
+  deliveryId: string,
+): Promise<boolean> {
+  return cache.setIfAbsent(
+    `webhook-delivery-${workflowId}-${deliveryId}`,
+    true,
+    WEBHOOK_TIMESTAMP_TOLERANCE_MS * 2,
+  );
+}
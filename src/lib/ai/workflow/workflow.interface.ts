@@ -21,7 +21,10 @@ export enum NodeKind {
   Tool = "tool", // MCP tool execution node
   Http = "http", // HTTP request node
   Template = "template", // Template processing node
-  Code = "code", // Code execution node (future implementation)
+  Code = "code", // JavaScript / Python code execution node
+  Loop = "loop", // Runs its body once per item of an array
+  SubWorkflow = "sub-workflow", // Runs another workflow as a single step
+  Approval = "approval", // Pauses the run until a person approves it
   Output = "output", // Exit point of workflow - produces final result
 }
 
@@ -43,8 +46,23 @@ export type BaseWorkflowNodeDataData<
    * This enables data flow between connected nodes.
    */
   outputSchema: ObjectJsonSchema7;
+  errorPolicy?: NodeErrorPolicy; // What to do when the node throws
 } & T;
 
+/**
+ * Error handling of a node.
+ * Retries and timeout apply to every attempt; once attempts run out the
+ * node fails the workflow, continues with `fallback` as its output, or
+ * routes execution to the edges of its error handle.
+ */
+export type NodeErrorPolicy = {
+  retries?: number; // Extra attempts after the first failure (default: 0)
+  retryBackoff?: number; // Delay before the first retry in ms, doubled per retry (default: 1000)
+  timeout?: number; // Hard limit per attempt in milliseconds
+  onError?: "fail" | "continue" | "branch"; // default: "fail"
+  fallback?: Record<string, unknown>; // Output used when onError is "continue"
+};
+
 /**
  * Reference to a field from another node's output.
  * Used to create data dependencies between nodes.
@@ -188,6 +206,75 @@ export type TemplateNodeData = BaseWorkflowNodeDataData<{
   };
 };
 
+/**
+ * Code node: Runs JavaScript or Python through the sandboxed code runner
+ * Referenced node outputs are exposed to the code as variables, and the
+ * returned value is validated against the `result` output schema
+ */
+export type CodeNodeData = BaseWorkflowNodeDataData<{
+  kind: NodeKind.Code;
+}> & {
+  language: "javascript" | "python";
+  code: string;
+  variables: {
+    key: string; // Variable name available in the code
+    source?: OutputSchemaSourceKey; // Reference to source node's output
+  }[];
+  timeout?: number; // Execution timeout in milliseconds (default: 30000)
+};
+
+/**
+ * Loop node: Iterates over an array from another node's output
+ * Nodes connected to the loop handle form the body, which runs once per
+ * item with `item` and `index` available as this node's outputs. The output
+ * of the body's last node for every item is collected into `results`
+ */
+export type LoopNodeData = BaseWorkflowNodeDataData<{
+  kind: NodeKind.Loop;
+}> & {
+  source?: OutputSchemaSourceKey; // Reference to the array to iterate over
+  concurrency?: number; // Items processed in parallel (default: 1)
+};
+
+/**
+ * Sub-workflow node: Runs the published version of another workflow
+ * `inputs` fill the fields of its Input node, and the data collected by its
+ * Output node becomes this node's output
+ */
+export type SubWorkflowNodeData = BaseWorkflowNodeDataData<{
+  kind: NodeKind.SubWorkflow;
+}> & {
+  workflow?: {
+    id: string;
+    name: string;
+  };
+  inputSchema?: ObjectJsonSchema7; // Input node schema of the selected workflow
+  inputs: {
+    key: string; // Field of the selected workflow's Input node
+    source?: OutputSchemaSourceKey; // Reference to source node's output
+  }[];
+};
+
+/**
+ * Approval node: Suspends the run until the approver approves or rejects it
+ * from their in-app approvals. Approving continues the run with the decision
+ * as this node's output; rejecting aborts it
+ */
+export type ApprovalNodeData = BaseWorkflowNodeDataData<{
+  kind: NodeKind.Approval;
+}> & {
+  message?: TipTapMentionJsonContent; // Shown to the approver (can reference other node outputs)
+  approver?: ApprovalNodeApprover;
+};
+
+/**
+ * Who decides an Approval node: the owner of the workflow, or the user with
+ * the given email, looked up when the run reaches the node
+ */
+export type ApprovalNodeApprover =
+  | { type: "owner" }
+  | { type: "user"; email: string };
+
 /**
  * Union type of all possible node data types.
  * When adding a new node type, include it in this union.
@@ -200,16 +287,32 @@ export type WorkflowNodeData =
   | ToolNodeData
   | ConditionNodeData
   | HttpNodeData
-  | TemplateNodeData;
+  | TemplateNodeData
+  | CodeNodeData
+  | LoopNodeData
+  | SubWorkflowNodeData
+  | ApprovalNodeData;
 
 /**
  * Runtime fields added during workflow execution
  */
 export type NodeRuntimeField = {
   isNew?: boolean; // Flag for newly created nodes
-  status?: "fail" | "running" | "success"; // Execution status
+  status?: NodeRuntimeStatus; // Execution status
 };
 
+/**
+ * "recovered" means the node failed but its error policy let the workflow
+ * go on, with a fallback output or through its error branch; "waiting" means
+ * an Approval node suspended the run
+ */
+export type NodeRuntimeStatus =
+  | "fail"
+  | "running"
+  | "success"
+  | "recovered"
+  | "waiting";
+
 /**
  * UI representation of a workflow node with runtime information
  */
@@ -229,7 +332,8 @@ export type NodeRuntimeHistory = {
   endedAt?: number;
   kind: NodeKind;
   error?: string;
-  status: "fail" | "running" | "success";
+  status: NodeRuntimeStatus;
+  attempts?: number; // Attempts made before the node failed or recovered
   result?: {
     input?: any; // Input data passed to the node
     output?: any; // Output data produced by the node
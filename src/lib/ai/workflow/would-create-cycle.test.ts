@@ -215,4 +215,43 @@ describe("wouldCreateCycle", () => {
 
     expect(result).toBe(true);
   });
+
+  it("should return true when a loop body connects to nodes outside of it", () => {
+    const existingEdges: Edge[] = [
+      createEdge("1", "input", "loop"),
+      { ...createEdge("2", "loop", "body"), sourceHandle: "loop" },
+      createEdge("3", "loop", "after"),
+    ];
+
+    expect(
+      wouldCreateCycle(createConnection("body", "after"), existingEdges),
+    ).toBe(true);
+    expect(
+      wouldCreateCycle(createConnection("input", "body"), existingEdges),
+    ).toBe(true);
+    expect(
+      wouldCreateCycle(
+        { ...createConnection("loop", "after"), sourceHandle: "loop" },
+        existingEdges,
+      ),
+    ).toBe(true);
+  });
+
+  it("should return false when a loop body grows inside itself", () => {
+    const existingEdges: Edge[] = [
+      createEdge("1", "input", "loop"),
+      { ...createEdge("2", "loop", "body"), sourceHandle: "loop" },
+      createEdge("3", "loop", "after"),
+    ];
+
+    expect(
+      wouldCreateCycle(createConnection("body", "next"), existingEdges),
+    ).toBe(false);
+    expect(
+      wouldCreateCycle(
+        { ...createConnection("loop", "other"), sourceHandle: "loop" },
+        existingEdges,
+      ),
+    ).toBe(false);
+  });
 });
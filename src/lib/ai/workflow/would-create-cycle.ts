@@ -1,8 +1,12 @@
 import { Connection, Edge } from "@xyflow/react";
+import { findLoopBodyNodeIds, findLoopNodeIds, isLoopBodyEdge } from "./loop";
 
 /**
  * Check if adding a new connection would create a cycle in the graph
  * Uses DFS to detect cycles
+ *
+ * A loop body returns to its loop node after every item, so a connection
+ * that links a loop body with nodes outside of it is treated as a cycle too.
  */
 export function wouldCreateCycle(
   connection: Connection | Edge,
@@ -72,5 +76,27 @@ export function wouldCreateCycle(
     }
   }
 
-  return false;
+  // Only edges that start crossing because of this connection count, so an
+  // already inconsistent graph can still be edited
+  const crossingBefore = findLoopBoundaryCrossings(existingEdges);
+  return findLoopBoundaryCrossings([...existingEdges, connection]).some(
+    (edge) => !crossingBefore.includes(edge),
+  );
+}
+
+/**
+ * Returns the edges that enter or leave a loop body anywhere other than
+ * through the loop node's body handle.
+ */
+function findLoopBoundaryCrossings(
+  edges: (Connection | Edge)[],
+): (Connection | Edge)[] {
+  return findLoopNodeIds(edges).flatMap((loopNodeId) => {
+    const body = new Set(findLoopBodyNodeIds(loopNodeId, edges));
+    return edges.filter(
+      (edge) =>
+        body.has(edge.source) !== body.has(edge.target) &&
+        !(edge.source === loopNodeId && isLoopBodyEdge(edge)),
+    );
+  });
 }
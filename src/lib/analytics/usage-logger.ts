@@ -1,3 +1,4 @@
+import { LanguageModelUsage } from "ai";
 import { ChatMetadata } from "app-types/chat";
 import {
   EmbeddingUsageLogInsert,
@@ -5,6 +6,7 @@ import {
   ToolUsageLogInsert,
 } from "app-types/analytics";
 import { usageLogRepository } from "lib/db/repository";
+import type { RerankUsage } from "lib/rag/reranker";
 
 export async function logModelUsageFromMetadata(options: {
   userId: string;
@@ -31,6 +33,30 @@ export async function logModelUsageFromMetadata(options: {
   await usageLogRepository.upsertModelUsage(payload);
 }
 
+/**
+ * Records the tokens a model spent answering a sampling request of an MCP
+ * server, for the user whose tool call made the request.
+ */
+export async function logSamplingUsage(options: {
+  userId: string;
+  requestId: string;
+  provider?: string;
+  model?: string;
+  usage: LanguageModelUsage;
+}): Promise<void> {
+  const { usage } = options;
+  await usageLogRepository.upsertModelUsage({
+    userId: options.userId,
+    messageId: options.requestId,
+    provider: options.provider,
+    model: options.model,
+    inputTokens: usage.inputTokens ?? 0,
+    outputTokens: usage.outputTokens ?? 0,
+    totalTokens:
+      usage.totalTokens ?? (usage.inputTokens ?? 0) + (usage.outputTokens ?? 0),
+  });
+}
+
 export async function logToolUsageBatch(
   logs: ToolUsageLogInsert[],
 ): Promise<void> {
@@ -44,6 +70,36 @@ export async function logEmbeddingUsage(
   await usageLogRepository.logEmbeddingUsage(log);
 }
 
+export async function logRerankUsage(options: {
+  userId: string;
+  agentId?: string | null;
+  organizationId?: string | null;
+  knowledgeBaseIds: string[];
+  usage: RerankUsage;
+  returnedChunks: number;
+}): Promise<void> {
+  const { usage, knowledgeBaseIds } = options;
+  if (!usage.candidates) return;
+
+  await usageLogRepository.logEmbeddingUsage({
+    userId: options.userId,
+    agentId: options.agentId ?? null,
+    organizationId: options.organizationId ?? null,
+    knowledgeBaseId: knowledgeBaseIds.length === 1 ? knowledgeBaseIds[0] : null,
+    documentId: null,
+    operation: "rerank",
+    tokens: usage.tokens,
+    model: usage.model,
+    metadata: {
+      provider: usage.provider,
+      searchUnits: usage.searchUnits,
+      candidates: usage.candidates,
+      returnedChunks: options.returnedChunks,
+      knowledgeBaseIds,
+    },
+  });
+}
+
 export function buildToolUsageLog(options: {
   userId: string;
   threadId?: string;
@@ -2,6 +2,13 @@ export interface Cache {
   get<T>(key: string): Promise<T | undefined>;
   set(key: string, value: unknown, ttlMs?: number): Promise<void>;
   has(key: string): Promise<boolean>;
+  /** Sets the value only when the key is absent; returns whether it did. */
+  setIfAbsent(key: string, value: unknown, ttlMs?: number): Promise<boolean>;
+  /**
+   * Adds one to the number at the key and returns the new count. A new key
+   * starts at 1 and expires after `ttlMs`; later increments keep its expiry.
+   */
+  increment(key: string, ttlMs: number): Promise<number>;
   delete(key: string): Promise<void>;
   clear(): Promise<void>;
   getAll(): Promise<Map<string, unknown>>;
@@ -168,4 +168,36 @@ describe("MemoryCache", () => {
       vi.useRealTimers();
     }
   });
+
+  test("setIfAbsent should only set missing or expired keys", async () => {
+    vi.useFakeTimers();
+    try {
+      expect(await cache.setIfAbsent("key", "first", 100)).toBe(true);
+      expect(await cache.setIfAbsent("key", "second", 100)).toBe(false);
+      expect(await cache.get("key")).toBe("first");
+
+      vi.advanceTimersByTime(101);
+
+      expect(await cache.setIfAbsent("key", "third", 100)).toBe(true);
+      expect(await cache.get("key")).toBe("third");
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  test("increment should count until the first expiry", async () => {
+    vi.useFakeTimers();
+    try {
+      expect(await cache.increment("count", 100)).toBe(1);
+      vi.advanceTimersByTime(60);
+      expect(await cache.increment("count", 100)).toBe(2);
+
+      // Increments keep the expiry of the first one
+      vi.advanceTimersByTime(41);
+
+      expect(await cache.increment("count", 100)).toBe(1);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
 });
@@ -36,6 +36,22 @@ export class MemoryCache implements Cache {
   async has(key: string) {
     return (await this.get(key)) !== undefined;
   }
+  // Both check and write without awaiting in between, so they are atomic
+  async setIfAbsent(key: string, value: any, ttlMs = this.defaultTtlMs) {
+    const e = this.store.get(key);
+    if (e && Date.now() <= e.expiresAt) return false;
+    this.set(key, value, ttlMs);
+    return true;
+  }
+  async increment(key: string, ttlMs: number) {
+    const e = this.store.get(key);
+    if (!e || Date.now() > e.expiresAt) {
+      this.set(key, 1, ttlMs);
+      return 1;
+    }
+    e.value = Number(e.value) + 1;
+    return e.value;
+  }
   async delete(key: string) {
     this.store.delete(key);
   }
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { MemoryCache } from "./memory-cache";
+import { consumeRateLimit } from "./rate-limit";
+
+describe("consumeRateLimit", () => {
+  const options = { limit: 2, windowMs: 60_000 };
+
+  it("allows up to the limit within a window", async () => {
+    const cache = new MemoryCache({ cleanupIntervalMs: 0 });
+    const now = 120_000;
+
+    expect(await consumeRateLimit(cache, "a", options, now)).toEqual({
+      allowed: true,
+      remaining: 1,
+      retryAfterMs: 60_000,
+    });
+    await consumeRateLimit(cache, "a", options, now + 1_000);
+    expect(await consumeRateLimit(cache, "a", options, now + 2_000)).toEqual({
+      allowed: false,
+      remaining: 0,
+      retryAfterMs: 58_000,
+    });
+    // Keys are limited independently.
+    expect((await consumeRateLimit(cache, "b", options, now)).allowed).toBe(
+      true,
+    );
+  });
+
+  it("starts a new count in the next window", async () => {
+    const cache = new MemoryCache({ cleanupIntervalMs: 0 });
+    await consumeRateLimit(cache, "a", options, 0);
+    await consumeRateLimit(cache, "a", options, 1);
+
+    expect((await consumeRateLimit(cache, "a", options, 60_000)).allowed).toBe(
+      true,
+    );
+  });
+
+  it("does not overshoot the limit with concurrent hits", async () => {
+    const cache = new MemoryCache({ cleanupIntervalMs: 0 });
+
+    const results = await Promise.all(
+      Array.from({ length: 5 }, () => consumeRateLimit(cache, "a", options, 0)),
+    );
+
+    expect(results.filter((result) => result.allowed)).toHaveLength(2);
+  });
+});
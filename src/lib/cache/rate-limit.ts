@@ -0,0 +1,33 @@
+import { Cache } from "./cache.interface";
+
+export type RateLimitResult = {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number;
+};
+
+/**
+ * Fixed-window counter: at most `limit` hits per key in each window.
+ * Every hit increments the count atomically, so concurrent hits cannot
+ * overshoot the limit.
+ */
+export async function consumeRateLimit(
+  cache: Cache,
+  key: string,
+  options: { limit: number; windowMs: number },
+  now: number = Date.now(),
+): Promise<RateLimitResult> {
+  const window = Math.floor(now / options.windowMs);
+  const windowKey = `rate-limit-${key}-${window}`;
+  const retryAfterMs = (window + 1) * options.windowMs - now;
+
+  const count = await cache.increment(windowKey, retryAfterMs);
+  if (count > options.limit) {
+    return { allowed: false, remaining: 0, retryAfterMs };
+  }
+  return {
+    allowed: true,
+    remaining: options.limit - count,
+    retryAfterMs,
+  };
+}
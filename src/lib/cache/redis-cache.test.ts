@@ -0,0 +1,48 @@
+import { describe, expect, it, vi } from "vitest";
+import type Redis from "ioredis";
+import { RedisCache } from "./redis-cache";
+
+vi.mock("logger", () => ({ default: { info: vi.fn() } }));
+
+describe("RedisCache", () => {
+  const createCache = () => {
+    const redis = {
+      set: vi.fn(async () => "OK" as string | null),
+      eval: vi.fn(async () => 2),
+    };
+    const cache = new RedisCache({
+      redis: redis as unknown as Redis,
+      keyPrefix: "app:",
+    });
+    return { cache, redis };
+  };
+
+  it("sets values only when absent with SET NX", async () => {
+    const { cache, redis } = createCache();
+
+    expect(await cache.setIfAbsent("key", { a: 1 }, 100)).toBe(true);
+    expect(redis.set).toHaveBeenCalledWith(
+      "app:key",
+      '{"a":1}',
+      "PX",
+      100,
+      "NX",
+    );
+
+    redis.set.mockResolvedValueOnce(null);
+    expect(await cache.setIfAbsent("key", { a: 2 })).toBe(false);
+    expect(redis.set).toHaveBeenLastCalledWith("app:key", '{"a":2}', "NX");
+  });
+
+  it("increments and sets the expiry in one script", async () => {
+    const { cache, redis } = createCache();
+
+    expect(await cache.increment("count", 100)).toBe(2);
+    expect(redis.eval).toHaveBeenCalledWith(
+      expect.stringContaining('redis.call("INCR", KEYS[1])'),
+      1,
+      "app:count",
+      100,
+    );
+  });
+});
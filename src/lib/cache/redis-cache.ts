@@ -2,6 +2,12 @@ import Redis, { type RedisOptions } from "ioredis";
 import { Cache } from "./cache.interface";
 import logger from "logger";
 
+const INCREMENT_SCRIPT = `
+local count = redis.call("INCR", KEYS[1])
+if count == 1 then redis.call("PEXPIRE", KEYS[1], ARGV[1]) end
+return count
+`;
+
 export interface RedisCacheOptions {
   redis?: Redis;
   redisUrl?: string;
@@ -60,6 +66,30 @@ export class RedisCache implements Cache {
     return exists === 1;
   }
 
+  async setIfAbsent(
+    key: string,
+    value: unknown,
+    ttlMs?: number,
+  ): Promise<boolean> {
+    const ttl = ttlMs ?? this.defaultTtlMs;
+    const serialized = JSON.stringify(value);
+    const result = isFinite(ttl)
+      ? await this.redis.set(this.getKey(key), serialized, "PX", ttl, "NX")
+      : await this.redis.set(this.getKey(key), serialized, "NX");
+    return result === "OK";
+  }
+
+  async increment(key: string, ttlMs: number): Promise<number> {
+    // One script, so a new key never exists without its expiry
+    const count = await this.redis.eval(
+      INCREMENT_SCRIPT,
+      1,
+      this.getKey(key),
+      ttlMs,
+    );
+    return Number(count);
+  }
+
   async delete(key: string): Promise<void> {
     await this.redis.del(this.getKey(key));
   }
@@ -23,6 +23,8 @@ describe("SafeRedisCache", () => {
       get: vi.fn(),
       set: vi.fn(),
       has: vi.fn(),
+      setIfAbsent: vi.fn(),
+      increment: vi.fn(),
       delete: vi.fn(),
       clear: vi.fn(),
       getAll: vi.fn(),
@@ -64,6 +66,22 @@ describe("SafeRedisCache", () => {
     expect(result).toBe("value");
   });
 
+  it("should claim keys and count in Redis, falling back to memory", async () => {
+    vi.mocked(RedisCache).mockImplementation(() => mockRedisCache);
+    cache = new SafeRedisCache({ serverCache: mockMemoryCache });
+
+    mockRedisCache.setIfAbsent.mockResolvedValue(false);
+    mockRedisCache.increment.mockResolvedValue(3);
+    expect(await cache.setIfAbsent("key", true, 100)).toBe(false);
+    expect(await cache.increment("count", 100)).toBe(3);
+    expect(mockRedisCache.setIfAbsent).toHaveBeenCalledWith("key", true, 100);
+    expect(mockRedisCache.increment).toHaveBeenCalledWith("count", 100);
+
+    mockRedisCache.increment.mockRejectedValue(new Error("Connection lost"));
+    expect(await cache.increment("count", 100)).toBe(1);
+    expect(await mockMemoryCache.get("count")).toBe(1);
+  });
+
   it("should retry Redis connection after failure", async () => {
     vi.mocked(RedisCache).mockImplementation(() => mockRedisCache);
     cache = new SafeRedisCache({
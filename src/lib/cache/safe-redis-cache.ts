@@ -141,6 +141,31 @@ export class SafeRedisCache implements Cache {
     );
   }
 
+  async setIfAbsent(
+    key: string,
+    value: unknown,
+    ttlMs?: number,
+  ): Promise<boolean> {
+    return this.executeWithFallback(
+      async () => {
+        const isSet = await this.redisCache!.setIfAbsent(key, value, ttlMs);
+        // Also set in memory cache as backup
+        if (isSet) await this.serverCache.set(key, value, ttlMs);
+        return isSet;
+      },
+      () => this.serverCache.setIfAbsent(key, value, ttlMs),
+      `setIfAbsent(${key})`,
+    );
+  }
+
+  async increment(key: string, ttlMs: number): Promise<number> {
+    return this.executeWithFallback(
+      () => this.redisCache!.increment(key, ttlMs),
+      () => this.serverCache.increment(key, ttlMs),
+      `increment(${key})`,
+    );
+  }
+
   async delete(key: string): Promise<void> {
     return this.executeWithFallback(
       async () => {
@@ -14,7 +14,9 @@ export type CodeRunnerResult = {
 export type CodeRunnerOptions = {
   code: string;
   timeout?: number;
+  variables?: Record<string, unknown>; // exposed to the code as top-level names
   onLog?: (entry: LogEntry) => void;
+  signal?: AbortSignal; // stops the run when aborted
 };
 
 export type CodeWorkerRequest = {
@@ -0,0 +1,39 @@
+// Output handlers from reference
+export const OUTPUT_HANDLERS = {
+  matplotlib: `
+    import io
+    import base64
+    from matplotlib import pyplot as plt
+
+    plt.clf()
+    plt.close('all')
+    plt.switch_backend('agg')
+
+    def setup_matplotlib_output():
+        def custom_show():
+            if plt.gcf().get_size_inches().prod() * plt.gcf().dpi ** 2 > 25_000_000:
+                print("Warning: Plot size too large, reducing quality")
+                plt.gcf().set_dpi(100)
+
+            png_buf = io.BytesIO()
+            plt.savefig(png_buf, format='png')
+            png_buf.seek(0)
+            png_base64 = base64.b64encode(png_buf.read()).decode('utf-8')
+            print(f'data:image/png;base64,{png_base64}')
+            png_buf.close()
+
+            plt.clf()
+            plt.close('all')
+
+        plt.show = custom_show
+  `,
+  basic: ``,
+};
+
+export function detectRequiredHandlers(code: string): string[] {
+  const handlers: string[] = ["basic"];
+  if (code.includes("matplotlib") || code.includes("plt.")) {
+    handlers.push("matplotlib");
+  }
+  return handlers;
+}
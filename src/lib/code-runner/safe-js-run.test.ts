@@ -302,4 +302,13 @@ describe("safe-js-run", () => {
     expect(result.success).toBe(true);
     expect(result.result).toBe(123);
   });
+
+  it("should expose variables without overriding safe globals", async () => {
+    const result = await safeJsRun({
+      code: "return { total: items.length + offset, max: Math.max(...items) };",
+      variables: { items: [1, 5, 3], offset: 10, Math: null },
+    });
+    expect(result.success).toBe(true);
+    expect(result.result).toEqual({ total: 13, max: 5 });
+  });
 });
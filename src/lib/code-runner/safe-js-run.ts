@@ -173,6 +173,7 @@ async function execute({
   code,
   timeout = 5000,
   onLog,
+  variables,
 }: CodeRunnerOptions): Promise<CodeRunnerResult> {
   const startTime = Date.now();
   const logs: LogEntry[] = [];
@@ -205,6 +206,8 @@ async function execute({
 
   // Create safe execution environment
   const { safeGlobals } = createSafeEnvironment(logCapture);
+  // Safe globals take precedence so variables cannot replace them
+  const scope = { ...variables, ...safeGlobals };
   const wrappedCode = wrapCode(code);
 
   // Execute with timeout protection
@@ -213,8 +216,8 @@ async function execute({
       // Code execution
       new Promise(async (resolve, reject) => {
         try {
-          const func = new Function(...Object.keys(safeGlobals), wrappedCode);
-          const result = func(...Object.values(safeGlobals));
+          const func = new Function(...Object.keys(scope), wrappedCode);
+          const result = func(...Object.values(scope));
 
           if (result && typeof result.then === "function") {
             returnValue = await result;
@@ -260,13 +263,17 @@ export async function safeJsRun({
   code,
   timeout = 5000,
   onLog,
+  variables,
 }: CodeRunnerOptions): Promise<CodeRunnerResult> {
+  let logs: LogEntry[] = [];
   return safe(async () => {
     const result = await execute({
       code,
       timeout,
       onLog,
+      variables,
     });
+    logs = result.logs;
 
     if (!result.success) {
       throw new Error(result.error || "Code execution failed");
@@ -283,7 +290,7 @@ export async function safeJsRun({
       return {
         success: false,
         error: err.message,
-        logs: [],
+        logs,
         solution: `JavaScript execution failed. Common issues:
     • Syntax errors: Check for missing semicolons, brackets, or quotes
     • Forbidden operations: Avoid DOM access, eval(), or global object manipulation  
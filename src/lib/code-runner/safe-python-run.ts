@@ -6,6 +6,10 @@ import {
   CodeRunnerResult,
   LogEntry,
 } from "./code-runner.interface";
+import {
+  detectRequiredHandlers,
+  OUTPUT_HANDLERS,
+} from "./python-output-handlers";
 
 // Add security validations similar to JS
 
@@ -14,38 +18,6 @@ function validateCodeSafety(code: string): string | null {
   return null;
 }
 
-// Output handlers from reference
-export const OUTPUT_HANDLERS = {
-  matplotlib: `
-    import io
-    import base64
-    from matplotlib import pyplot as plt
-
-    plt.clf()
-    plt.close('all')
-    plt.switch_backend('agg')
-
-    def setup_matplotlib_output():
-        def custom_show():
-            if plt.gcf().get_size_inches().prod() * plt.gcf().dpi ** 2 > 25_000_000:
-                print("Warning: Plot size too large, reducing quality")
-                plt.gcf().set_dpi(100)
-
-            png_buf = io.BytesIO()
-            plt.savefig(png_buf, format='png')
-            png_buf.seek(0)
-            png_base64 = base64.b64encode(png_buf.read()).decode('utf-8')
-            print(f'data:image/png;base64,{png_base64}')
-            png_buf.close()
-
-            plt.clf()
-            plt.close('all')
-
-        plt.show = custom_show
-  `,
-  basic: ``,
-};
-
 async function ensurePyodideLoaded(): Promise<any> {
   if ((globalThis as any).loadPyodide) {
     return (globalThis as any).loadPyodide;
@@ -97,18 +69,11 @@ async function ensurePyodideLoaded(): Promise<any> {
   return (globalThis as any).loadPyodide;
 }
 
-function detectRequiredHandlers(code: string): string[] {
-  const handlers: string[] = ["basic"];
-  if (code.includes("matplotlib") || code.includes("plt.")) {
-    handlers.push("matplotlib");
-  }
-  return handlers;
-}
-
 export async function safePythonRun({
   code,
   timeout = 30000,
   onLog,
+  variables,
 }: CodeRunnerOptions): Promise<CodeRunnerResult> {
   return safe(async () => {
     const startTime = Date.now();
@@ -154,18 +119,28 @@ export async function safePythonRun({
       }
     }
 
+    for (const [name, value] of Object.entries(variables ?? {})) {
+      pyodide.globals.set(name, pyodide.toPy(value));
+    }
+
     // Execute code with timeout
     const execution = pyodide.runPythonAsync(code);
     const timer = new Promise((_, reject) =>
       setTimeout(() => reject(new Error("Timeout")), timeout),
     );
-    const returnValue = await Promise.race([execution, timer]);
+    const returnValue: any = await Promise.race([execution, timer]);
+
+    // Python dicts and lists come back as proxies; convert them to plain data
+    const result = returnValue?.toJs
+      ? returnValue.toJs({ dict_converter: Object.fromEntries })
+      : returnValue;
+    returnValue?.destroy?.();
 
     return {
       success: true,
       logs,
       executionTimeMs: Date.now() - startTime,
-      result: returnValue,
+      result,
     } as CodeRunnerResult;
   })
     .ifFail((err) => ({
@@ -0,0 +1,88 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("server-only", () => ({}));
+
+const { runCodeInSandbox } = await import("./sandbox-run");
+
+describe("runCodeInSandbox", () => {
+  it("should run JavaScript with variables and capture logs", async () => {
+    const result = await runCodeInSandbox("javascript", {
+      code: 'console.log("total", items.length); return { max: Math.max(...items) };',
+      variables: { items: [1, 5, 3], Math: null },
+    });
+
+    expect(result).toMatchObject({
+      success: true,
+      result: { max: 5 },
+      logs: [
+        {
+          type: "log",
+          args: [
+            { type: "data", value: "total" },
+            { type: "data", value: 3 },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("should not expose the server process", async () => {
+    vi.stubEnv("SANDBOX_TEST_SECRET", "secret");
+    const result = await runCodeInSandbox("javascript", {
+      code: "const p = process; return p.env;",
+    });
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("process is not defined");
+
+    const escaped = await runCodeInSandbox("javascript", {
+      code: 'const host = console.log.constructor("return process")(); return host.env;',
+    });
+    expect(escaped.success).toBe(true);
+    expect(escaped.result).not.toHaveProperty("SANDBOX_TEST_SECRET");
+  });
+
+  it("should stop code that never finishes", async () => {
+    const result = await runCodeInSandbox("javascript", {
+      code: "for (;;) {}",
+      timeout: 500,
+    });
+    expect(result).toMatchObject({
+      success: false,
+      error: "Execution timeout: 500ms limit exceeded",
+    });
+  });
+
+  it("should stop when the signal aborts", async () => {
+    const controller = new AbortController();
+    const execution = runCodeInSandbox("javascript", {
+      code: "await new Promise(() => {});",
+      signal: controller.signal,
+    });
+    controller.abort(new Error("Node timed out after 10ms"));
+
+    await expect(execution).resolves.toMatchObject({
+      success: false,
+      error: "Node timed out after 10ms",
+    });
+  });
+
+  it("should keep Python away from the JavaScript globals", async () => {
+    const result = await runCodeInSandbox("python", {
+      code: "from js import process",
+      timeout: 60000,
+    });
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("cannot import name 'process'");
+
+    const values = await runCodeInSandbox("python", {
+      code: "print('sum', sum(items))\n{'count': len(items)}",
+      variables: { items: [1, 2, 3] },
+      timeout: 60000,
+    });
+    expect(values).toMatchObject({
+      success: true,
+      result: { count: 3 },
+      logs: [{ type: "log", args: [{ type: "data", value: "sum 6" }] }],
+    });
+  }, 120000);
+});
@@ -0,0 +1,268 @@
+import "server-only";
+
+import { ChildProcess, spawn } from "node:child_process";
+import { mkdirSync, realpathSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  CodeRunnerOptions,
+  CodeRunnerResult,
+  LogEntry,
+} from "./code-runner.interface";
+import { errorToString } from "lib/utils";
+import {
+  detectRequiredHandlers,
+  OUTPUT_HANDLERS,
+} from "./python-output-handlers";
+
+export type SandboxLanguage = "javascript" | "python";
+
+type SandboxRequest = {
+  code: string;
+  variables: Record<string, unknown>;
+  setup: string[];
+};
+
+type SandboxMessage =
+  | { type: "log"; entry: LogEntry }
+  | { type: "result"; result?: unknown }
+  | { type: "error"; error: string };
+
+const SANDBOX_MAX_HEAP_MB = 256;
+
+// Runs inside the sandbox process. Node's permission model denies it child
+// processes, workers, addons and any file outside the Pyodide runtime and
+// package cache, and it starts without the server's environment variables, so code that
+// escapes the vm context or reaches JavaScript from Python finds nothing to
+// use. It serves a single request and exits.
+const SANDBOX_SOURCE = String.raw`
+const vm = require("node:vm");
+const [language, pyodideDir, packageCacheDir] = process.argv.slice(1);
+
+const toData = (value) => {
+  if (typeof value === "string" || value === undefined) return value;
+  if (Object.prototype.toString.call(value) === "[object Error]") {
+    return String(value);
+  }
+  try {
+    return JSON.parse(JSON.stringify(value));
+  } catch {
+    return String(value);
+  }
+};
+
+const send = (message) =>
+  new Promise((resolve) => process.send(message, resolve));
+
+function loadPython() {
+  // Emscripten reads the fs flags through process.binding, which the
+  // permission model denies.
+  process.binding = (name) => {
+    if (name === "constants") return { fs: require("node:fs").constants };
+    throw new Error("process.binding is not available");
+  };
+  const { loadPyodide } = require(pyodideDir + "/pyodide.js");
+  return loadPyodide({ jsglobals: Object.create(null), packageCacheDir });
+}
+
+async function runJavaScript({ code, variables }) {
+  const log = (type) => (...args) =>
+    send({ type: "log", entry: { type, args: args.map((value) => ({ type: "data", value: toData(value) })) } });
+  const context = vm.createContext(
+    {
+      console: Object.fromEntries(
+        ["log", "info", "warn", "error", "debug", "trace"].map((type) => [type, log(type)]),
+      ),
+      setTimeout,
+      clearTimeout,
+      setInterval,
+      clearInterval,
+    },
+    { codeGeneration: { strings: false, wasm: false } },
+  );
+  // Variables cannot shadow the globals above or the JavaScript builtins
+  const reserved = new Set(vm.runInContext("Object.getOwnPropertyNames(globalThis)", context));
+  const names = Object.keys(variables).filter((name) => !reserved.has(name));
+  const parse = vm.runInContext("JSON.parse", context);
+  const run = vm.runInContext(
+    "(async function (" + names.join(", ") + ") {\n\"use strict\";\n" + code + "\n})",
+    context,
+    { filename: "code.js" },
+  );
+  return run(...names.map((name) => parse(JSON.stringify(variables[name]) ?? "null")));
+}
+
+async function runPython({ code, variables, setup }) {
+  const pyodide = await python;
+  pyodide.setStdout({
+    batched: (output) =>
+      send({ type: "log", entry: { type: "log", args: [{ type: output.startsWith("data:image/png;base64") ? "image" : "data", value: output }] } }),
+  });
+  pyodide.setStderr({
+    batched: (output) =>
+      send({ type: "log", entry: { type: "error", args: [{ type: "data", value: output }] } }),
+  });
+  await pyodide.loadPackagesFromImports([...setup, code].join("\n"), { messageCallback: () => {} });
+  for (const snippet of setup) await pyodide.runPythonAsync(snippet);
+  for (const [name, value] of Object.entries(variables)) {
+    pyodide.globals.set(name, pyodide.toPy(value));
+  }
+  const value = await pyodide.runPythonAsync(code);
+  // Python dicts and lists come back as proxies; convert them to plain data
+  const result = value?.toJs ? value.toJs({ dict_converter: Object.fromEntries }) : value;
+  value?.destroy?.();
+  return result;
+}
+
+// Pyodide takes seconds to start, so it loads while the process waits for
+// its request.
+const python = language === "python" ? loadPython() : null;
+python?.catch(() => {});
+
+process.once("message", async (request) => {
+  try {
+    const result = await (language === "python" ? runPython(request) : runJavaScript(request));
+    await send({ type: "result", result: toData(result) });
+  } catch (error) {
+    await send({ type: "error", error: error?.message ?? String(error) });
+  }
+  process.exit(0);
+});
+process.on("disconnect", () => process.exit(0));
+`;
+
+const PERMISSION_FLAG = process.allowedNodeEnvironmentFlags.has("--permission")
+  ? "--permission"
+  : "--experimental-permission";
+
+function sandboxArgs(language: SandboxLanguage): string[] {
+  const args = [
+    PERMISSION_FLAG,
+    "--no-warnings",
+    `--max-old-space-size=${SANDBOX_MAX_HEAP_MB}`,
+  ];
+  if (language != "python") return [...args, "-e", SANDBOX_SOURCE, language];
+
+  const pyodideDir = realpathSync(
+    path.join(process.cwd(), "node_modules", "pyodide"),
+  );
+  const packageCacheDir = path.join(tmpdir(), "pyodide-packages");
+  mkdirSync(packageCacheDir, { recursive: true });
+  return [
+    ...args,
+    `--allow-fs-read=${pyodideDir}${path.sep}`,
+    `--allow-fs-read=${packageCacheDir}${path.sep}`,
+    `--allow-fs-write=${packageCacheDir}${path.sep}`,
+    "-e",
+    SANDBOX_SOURCE,
+    language,
+    pyodideDir,
+    packageCacheDir,
+  ];
+}
+
+function spawnSandbox(language: SandboxLanguage): ChildProcess {
+  const child = spawn(process.execPath, sandboxArgs(language), {
+    env: { NODE_ENV: process.env.NODE_ENV },
+    stdio: ["ignore", "ignore", "ignore", "ipc"],
+  });
+  // Failures surface through the exit of a sandbox that is in use
+  child.on("error", () => {});
+  return child;
+}
+
+// One started process per language is kept ready, so a run does not wait for
+// the runtime to load. Spares do not keep the server process alive.
+const spares = new Map<SandboxLanguage, ChildProcess>();
+
+function takeSandbox(language: SandboxLanguage): ChildProcess {
+  const spare = spares.get(language);
+  const child =
+    spare && spare.connected && spare.exitCode == null
+      ? spare
+      : spawnSandbox(language);
+
+  const next = spawnSandbox(language);
+  next.unref();
+  next.channel?.unref();
+  spares.set(language, next);
+
+  child.ref();
+  child.channel?.ref();
+  return child;
+}
+
+/**
+ * Runs JavaScript or Python on the server in a separate, locked down Node
+ * process. The process has no access to the server's environment, files or
+ * globals, and it is killed once the timeout passes or `signal` aborts, so
+ * neither escapes nor endless loops reach the server.
+ */
+export function runCodeInSandbox(
+  language: SandboxLanguage,
+  { code, timeout = 30000, variables, onLog, signal }: CodeRunnerOptions,
+): Promise<CodeRunnerResult> {
+  const startTime = Date.now();
+  const logs: LogEntry[] = [];
+  const child = takeSandbox(language);
+
+  return new Promise((resolve) => {
+    let settled = false;
+    const finish = (
+      result: Omit<CodeRunnerResult, "logs" | "executionTimeMs">,
+    ) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", abort);
+      child.kill("SIGKILL");
+      resolve({ ...result, logs, executionTimeMs: Date.now() - startTime });
+    };
+
+    const timer = setTimeout(
+      () =>
+        finish({
+          success: false,
+          error: `Execution timeout: ${timeout}ms limit exceeded`,
+        }),
+      timeout,
+    );
+    const abort = () =>
+      finish({ success: false, error: errorToString(signal?.reason) });
+    if (signal?.aborted) return abort();
+    signal?.addEventListener("abort", abort, { once: true });
+
+    child.on("message", (message: SandboxMessage) => {
+      if (message.type == "log") {
+        logs.push(message.entry);
+        onLog?.(message.entry);
+      } else if (message.type == "result") {
+        finish({ success: true, result: message.result });
+      } else {
+        finish({ success: false, error: message.error });
+      }
+    });
+    child.on("exit", (exitCode, killSignal) =>
+      finish({
+        success: false,
+        error: `Code execution stopped unexpectedly (${killSignal ?? `exit code ${exitCode}`})`,
+      }),
+    );
+
+    const request: SandboxRequest = {
+      code,
+      variables: variables ?? {},
+      setup:
+        language == "python"
+          ? detectRequiredHandlers(code).flatMap((handler) =>
+              handler == "matplotlib"
+                ? [OUTPUT_HANDLERS.matplotlib, "setup_matplotlib_output()"]
+                : [],
+            )
+          : [],
+    };
+    child.send(request, (error) => {
+      if (error) finish({ success: false, error: error.message });
+    });
+  });
+}
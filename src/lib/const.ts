@@ -12,6 +12,10 @@ export const IS_DOCKER_ENV = process.env.DOCKER_BUILD === "1";
 export const IS_MCP_SERVER_REMOTE_ONLY = IS_VERCEL_ENV;
 export const FILE_BASED_MCP_CONFIG =
   process.env.FILE_BASED_MCP_CONFIG === "true";
+export const MCP_HEALTH_CHECK_INTERVAL_SECONDS = process.env
+  .MCP_HEALTH_CHECK_INTERVAL
+  ? parseInt(process.env.MCP_HEALTH_CHECK_INTERVAL, 10)
+  : 60;
 
 export const COOKIE_KEY_SIDEBAR_STATE = "sidebar:state";
 export const COOKIE_KEY_LOCALE = "i18n:locale";
@@ -0,0 +1,4 @@
+DROP INDEX "knowledge_base_chunk_embedding_idx";--> statement-breakpoint
+ALTER TABLE "knowledge_base" ADD COLUMN "search_mode" varchar DEFAULT 'vector' NOT NULL;--> statement-breakpoint
+CREATE INDEX "knowledge_base_chunk_content_search_idx" ON "knowledge_base_document_chunk" USING gin (to_tsvector('simple', "content"));--> statement-breakpoint
+CREATE INDEX "knowledge_base_chunk_embedding_idx" ON "knowledge_base_document_chunk" USING hnsw ("embedding" vector_l2_ops) WITH (m=16,ef_construction=64);
\ No newline at end of file
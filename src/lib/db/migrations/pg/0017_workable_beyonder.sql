@@ -0,0 +1,3 @@
+ALTER TABLE "knowledge_base" ADD COLUMN "embedding_provider" varchar DEFAULT 'openai' NOT NULL;--> statement-breakpoint
+ALTER TABLE "knowledge_base" ADD COLUMN "embedding_model" text DEFAULT 'text-embedding-3-small' NOT NULL;--> statement-breakpoint
+ALTER TABLE "knowledge_base" ADD COLUMN "embedding_dimension" integer DEFAULT 1536 NOT NULL;
\ No newline at end of file
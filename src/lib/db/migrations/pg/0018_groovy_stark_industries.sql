@@ -0,0 +1 @@
+ALTER TABLE "knowledge_base_document_chunk" ADD COLUMN "metadata" json;
\ No newline at end of file
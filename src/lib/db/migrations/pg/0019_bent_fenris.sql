@@ -0,0 +1,3 @@
+ALTER TABLE "knowledge_base_document" ADD COLUMN "total_chunks" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "knowledge_base_document_chunk" ADD CONSTRAINT "knowledge_base_chunk_document_index_unique" UNIQUE("document_id","chunk_index");--> statement-breakpoint
+UPDATE "knowledge_base_document" SET "total_chunks" = "chunk_count";
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TYPE "public"."embedding_usage_operation" ADD VALUE 'rerank';--> statement-breakpoint
+ALTER TABLE "agent" ADD COLUMN "knowledge_base_rerank" json;
\ No newline at end of file
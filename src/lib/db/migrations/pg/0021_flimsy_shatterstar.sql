@@ -0,0 +1,20 @@
+CREATE TABLE "knowledge_base_document_revision" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"document_id" uuid NOT NULL,
+	"revision" integer NOT NULL,
+	"checksum" text,
+	"storage_key" text NOT NULL,
+	"file_size" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	CONSTRAINT "knowledge_base_document_revision_unique" UNIQUE("document_id","revision")
+);
+--> statement-breakpoint
+ALTER TABLE "knowledge_base_document" ADD COLUMN "revision" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "knowledge_base_document" ADD COLUMN "source_url" text;--> statement-breakpoint
+ALTER TABLE "knowledge_base_document" ADD COLUMN "source_options" json;--> statement-breakpoint
+ALTER TABLE "knowledge_base_document" ADD COLUMN "refresh_interval_hours" integer;--> statement-breakpoint
+ALTER TABLE "knowledge_base_document" ADD COLUMN "last_checked_at" timestamp;--> statement-breakpoint
+ALTER TABLE "knowledge_base_document" ADD COLUMN "next_refresh_at" timestamp;--> statement-breakpoint
+ALTER TABLE "knowledge_base_document_revision" ADD CONSTRAINT "knowledge_base_document_revision_document_id_knowledge_base_document_id_fk" FOREIGN KEY ("document_id") REFERENCES "public"."knowledge_base_document"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "knowledge_base_document_next_refresh_idx" ON "knowledge_base_document" USING btree ("next_refresh_at");--> statement-breakpoint
+INSERT INTO "knowledge_base_document_revision" ("document_id", "revision", "checksum", "storage_key", "file_size", "created_at") SELECT "id", 1, "checksum", "storage_key", "file_size", "created_at" FROM "knowledge_base_document";
\ No newline at end of file
@@ -0,0 +1,29 @@
+CREATE TABLE "knowledge_base_crawl" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"knowledge_base_id" uuid NOT NULL,
+	"created_by_user_id" uuid,
+	"root_url" text NOT NULL,
+	"include_patterns" json DEFAULT '[]'::json NOT NULL,
+	"exclude_patterns" json DEFAULT '[]'::json NOT NULL,
+	"max_pages" integer NOT NULL,
+	"source_options" json,
+	"refresh_interval_hours" integer,
+	"status" varchar DEFAULT 'pending' NOT NULL,
+	"error" text,
+	"page_urls" json,
+	"next_page_index" integer DEFAULT 0 NOT NULL,
+	"pages_imported" integer DEFAULT 0 NOT NULL,
+	"pages_skipped" integer DEFAULT 0 NOT NULL,
+	"pages_failed" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	"updated_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "knowledge_base_document" ADD COLUMN "crawl_id" uuid;--> statement-breakpoint
+ALTER TABLE "knowledge_base_crawl" ADD CONSTRAINT "knowledge_base_crawl_knowledge_base_id_knowledge_base_id_fk" FOREIGN KEY ("knowledge_base_id") REFERENCES "public"."knowledge_base"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "knowledge_base_crawl" ADD CONSTRAINT "knowledge_base_crawl_created_by_user_id_user_id_fk" FOREIGN KEY ("created_by_user_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "knowledge_base_crawl_kb_idx" ON "knowledge_base_crawl" USING btree ("knowledge_base_id");--> statement-breakpoint
+CREATE INDEX "knowledge_base_crawl_status_idx" ON "knowledge_base_crawl" USING btree ("status");--> statement-breakpoint
+ALTER TABLE "knowledge_base_document" ADD CONSTRAINT "knowledge_base_document_crawl_id_knowledge_base_crawl_id_fk" FOREIGN KEY ("crawl_id") REFERENCES "public"."knowledge_base_crawl"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "knowledge_base_document_crawl_idx" ON "knowledge_base_document" USING btree ("crawl_id");
\ No newline at end of file
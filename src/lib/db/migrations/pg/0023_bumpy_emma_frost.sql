@@ -0,0 +1,33 @@
+CREATE TABLE "workflow_node_run" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"run_id" uuid NOT NULL,
+	"node_id" uuid NOT NULL,
+	"node_name" text NOT NULL,
+	"kind" text NOT NULL,
+	"status" varchar NOT NULL,
+	"input" json,
+	"output" json,
+	"error" json,
+	"started_at" timestamp NOT NULL,
+	"ended_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "workflow_run" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"workflow_id" uuid NOT NULL,
+	"user_id" uuid,
+	"trigger" varchar NOT NULL,
+	"status" varchar DEFAULT 'running' NOT NULL,
+	"input" json,
+	"output" json,
+	"error" json,
+	"started_at" timestamp NOT NULL,
+	"ended_at" timestamp,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "workflow_node_run" ADD CONSTRAINT "workflow_node_run_run_id_workflow_run_id_fk" FOREIGN KEY ("run_id") REFERENCES "public"."workflow_run"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "workflow_run" ADD CONSTRAINT "workflow_run_workflow_id_workflow_id_fk" FOREIGN KEY ("workflow_id") REFERENCES "public"."workflow"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "workflow_run" ADD CONSTRAINT "workflow_run_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "workflow_node_run_run_idx" ON "workflow_node_run" USING btree ("run_id");--> statement-breakpoint
+CREATE INDEX "workflow_run_workflow_started_idx" ON "workflow_run" USING btree ("workflow_id","started_at");
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE "workflow_schedule" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"workflow_id" uuid NOT NULL,
+	"cron" text NOT NULL,
+	"timezone" text DEFAULT 'UTC' NOT NULL,
+	"input" json DEFAULT '{}'::json NOT NULL,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"next_run_at" timestamp,
+	"last_run_at" timestamp,
+	"last_run_id" uuid,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	"updated_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "workflow_schedule" ADD CONSTRAINT "workflow_schedule_workflow_id_workflow_id_fk" FOREIGN KEY ("workflow_id") REFERENCES "public"."workflow"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "workflow_schedule_workflow_idx" ON "workflow_schedule" USING btree ("workflow_id");--> statement-breakpoint
+CREATE INDEX "workflow_schedule_due_idx" ON "workflow_schedule" USING btree ("enabled","next_run_at");
\ No newline at end of file
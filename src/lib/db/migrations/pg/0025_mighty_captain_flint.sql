@@ -0,0 +1,12 @@
+CREATE TABLE "workflow_webhook" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"workflow_id" uuid NOT NULL,
+	"secret" text NOT NULL,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"last_called_at" timestamp,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	"updated_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	CONSTRAINT "workflow_webhook_workflow_id_unique" UNIQUE("workflow_id")
+);
+--> statement-breakpoint
+ALTER TABLE "workflow_webhook" ADD CONSTRAINT "workflow_webhook_workflow_id_workflow_id_fk" FOREIGN KEY ("workflow_id") REFERENCES "public"."workflow"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TABLE "workflow_version" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"workflow_id" uuid NOT NULL,
+	"version" integer NOT NULL,
+	"nodes" json NOT NULL,
+	"edges" json NOT NULL,
+	"published_by_user_id" uuid,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	CONSTRAINT "workflow_version_workflow_id_version_unique" UNIQUE("workflow_id","version")
+);
+--> statement-breakpoint
+ALTER TABLE "workflow" ADD COLUMN "published_version" integer;--> statement-breakpoint
+ALTER TABLE "workflow_version" ADD CONSTRAINT "workflow_version_workflow_id_workflow_id_fk" FOREIGN KEY ("workflow_id") REFERENCES "public"."workflow"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "workflow_version" ADD CONSTRAINT "workflow_version_published_by_user_id_user_id_fk" FOREIGN KEY ("published_by_user_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+INSERT INTO "workflow_version" ("workflow_id", "version", "nodes", "edges", "published_by_user_id")
+SELECT "w"."id", 1,
+  COALESCE((SELECT json_agg(json_build_object('id', "n"."id", 'workflowId', "n"."workflow_id", 'kind', "n"."kind", 'name', "n"."name", 'description', "n"."description", 'nodeConfig', "n"."node_config", 'uiConfig', "n"."ui_config", 'createdAt', "n"."created_at", 'updatedAt', "n"."updated_at")) FROM "workflow_node" "n" WHERE "n"."workflow_id" = "w"."id"), '[]'::json),
+  COALESCE((SELECT json_agg(json_build_object('id', "e"."id", 'workflowId', "e"."workflow_id", 'source', "e"."source", 'target', "e"."target", 'uiConfig', "e"."ui_config", 'createdAt', "e"."created_at")) FROM "workflow_edge" "e" WHERE "e"."workflow_id" = "w"."id"), '[]'::json),
+  "w"."user_id"
+FROM "workflow" "w" WHERE "w"."is_published" = true;--> statement-breakpoint
+UPDATE "workflow" SET "published_version" = 1 WHERE "is_published" = true;
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TABLE "workflow_approval" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"run_id" uuid NOT NULL,
+	"workflow_id" uuid NOT NULL,
+	"node_id" uuid NOT NULL,
+	"node_name" text NOT NULL,
+	"message" text,
+	"approver_user_id" uuid NOT NULL,
+	"status" varchar DEFAULT 'pending' NOT NULL,
+	"comment" text,
+	"decided_by_user_id" uuid,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	"decided_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "workflow_run" ADD COLUMN "snapshot" json;--> statement-breakpoint
+ALTER TABLE "workflow_approval" ADD CONSTRAINT "workflow_approval_run_id_workflow_run_id_fk" FOREIGN KEY ("run_id") REFERENCES "public"."workflow_run"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "workflow_approval" ADD CONSTRAINT "workflow_approval_workflow_id_workflow_id_fk" FOREIGN KEY ("workflow_id") REFERENCES "public"."workflow"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "workflow_approval" ADD CONSTRAINT "workflow_approval_approver_user_id_user_id_fk" FOREIGN KEY ("approver_user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "workflow_approval" ADD CONSTRAINT "workflow_approval_decided_by_user_id_user_id_fk" FOREIGN KEY ("decided_by_user_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "workflow_approval_approver_status_idx" ON "workflow_approval" USING btree ("approver_user_id","status");--> statement-breakpoint
+CREATE INDEX "workflow_approval_run_idx" ON "workflow_approval" USING btree ("run_id");
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE "mcp_server_user_credential" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"mcp_server_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"values" text NOT NULL,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	"updated_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	CONSTRAINT "mcp_server_user_credential_unique" UNIQUE("mcp_server_id","user_id")
+);
+--> statement-breakpoint
+ALTER TABLE "mcp_oauth_session" ADD COLUMN "user_id" uuid;--> statement-breakpoint
+ALTER TABLE "mcp_server_user_credential" ADD CONSTRAINT "mcp_server_user_credential_mcp_server_id_mcp_server_id_fk" FOREIGN KEY ("mcp_server_id") REFERENCES "public"."mcp_server"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "mcp_server_user_credential" ADD CONSTRAINT "mcp_server_user_credential_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "mcp_server_user_credential_user_idx" ON "mcp_server_user_credential" USING btree ("user_id");--> statement-breakpoint
+ALTER TABLE "mcp_oauth_session" ADD CONSTRAINT "mcp_oauth_session_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
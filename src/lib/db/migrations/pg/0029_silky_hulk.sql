@@ -0,0 +1,2 @@
+DROP INDEX "knowledge_base_chunk_embedding_idx";--> statement-breakpoint
+CREATE INDEX "knowledge_base_chunk_embedding_idx" ON "knowledge_base_document_chunk" USING hnsw ("embedding" vector_cosine_ops) WITH (m=16,ef_construction=64);
\ No newline at end of file
@@ -0,0 +1,6 @@
+ALTER TABLE "knowledge_base_document_chunk" DROP CONSTRAINT "knowledge_base_chunk_document_index_unique";--> statement-breakpoint
+ALTER TABLE "knowledge_base_document_chunk" ADD COLUMN "revision" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "knowledge_base_document" ADD COLUMN "indexed_revision" integer;--> statement-breakpoint
+ALTER TABLE "knowledge_base_document_chunk" ADD CONSTRAINT "knowledge_base_chunk_document_index_unique" UNIQUE("document_id","revision","chunk_index");--> statement-breakpoint
+UPDATE "knowledge_base_document_chunk" SET "revision" = "knowledge_base_document"."revision" FROM "knowledge_base_document" WHERE "knowledge_base_document"."id" = "knowledge_base_document_chunk"."document_id";--> statement-breakpoint
+UPDATE "knowledge_base_document" SET "indexed_revision" = "revision" WHERE "status" = 'completed';
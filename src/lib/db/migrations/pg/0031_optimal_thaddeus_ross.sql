@@ -0,0 +1,7 @@
+CREATE TABLE "mcp_server_health" (
+	"mcp_server_id" uuid PRIMARY KEY NOT NULL,
+	"record" json NOT NULL,
+	"updated_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "mcp_server_health" ADD CONSTRAINT "mcp_server_health_mcp_server_id_mcp_server_id_fk" FOREIGN KEY ("mcp_server_id") REFERENCES "public"."mcp_server"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TABLE "mcp_elicitation" (
+	"id" uuid PRIMARY KEY NOT NULL,
+	"user_id" uuid NOT NULL,
+	"tool_call_id" text,
+	"elicitation" json NOT NULL,
+	"response" json,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	"expires_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "mcp_sampling_usage" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"server_id" text NOT NULL,
+	"tokens" integer NOT NULL,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "mcp_elicitation" ADD CONSTRAINT "mcp_elicitation_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "mcp_elicitation_user_id_idx" ON "mcp_elicitation" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "mcp_sampling_usage_server_idx" ON "mcp_sampling_usage" USING btree ("server_id","created_at");
\ No newline at end of file
@@ -154,6 +154,7 @@ export const pgAgentRepository: AgentRepository = {
           icon: agent.icon,
           userId: agent.userId,
           instructions: agent.instructions,
+          knowledgeBaseRerank: agent.knowledgeBaseRerank,
           visibility: agent.visibility || "private",
           createdAt: now,
           updatedAt: now,
@@ -188,6 +189,7 @@ export const pgAgentRepository: AgentRepository = {
         icon: AgentSchema.icon,
         userId: AgentSchema.userId,
         instructions: AgentSchema.instructions,
+        knowledgeBaseRerank: AgentSchema.knowledgeBaseRerank,
         visibility: AgentSchema.visibility,
         createdAt: AgentSchema.createdAt,
         updatedAt: AgentSchema.updatedAt,
@@ -282,6 +284,7 @@ export const pgAgentRepository: AgentRepository = {
         icon: AgentSchema.icon,
         userId: AgentSchema.userId,
         instructions: AgentSchema.instructions,
+        knowledgeBaseRerank: AgentSchema.knowledgeBaseRerank,
         visibility: AgentSchema.visibility,
         createdAt: AgentSchema.createdAt,
         updatedAt: AgentSchema.updatedAt,
@@ -0,0 +1,298 @@
+import { eq } from "drizzle-orm";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../db.pg", async () => {
+  const { createTestDb } = await import("../test-db.pg");
+  return { pgDb: await createTestDb() };
+});
+
+const { pgDb: db } = await import("../db.pg");
+const {
+  KnowledgeBaseDocumentChunkSchema,
+  KnowledgeBaseDocumentSchema,
+  KnowledgeBaseSchema,
+  UserSchema,
+} = await import("../schema.pg");
+const { pgKnowledgeBaseRepository: repository } = await import(
+  "./knowledge-base-repository.pg"
+);
+
+const embedding = Array.from({ length: 1536 }, () => 0.1);
+
+function chunk(chunkIndex: number) {
+  return { chunkIndex, content: `chunk ${chunkIndex}`, embedding };
+}
+
+async function createDocument() {
+  const [user] = await db
+    .insert(UserSchema)
+    .values({ name: "Owner", email: `${crypto.randomUUID()}@example.com` })
+    .returning();
+  const [knowledgeBase] = await db
+    .insert(KnowledgeBaseSchema)
+    .values({ name: "Docs", ownerUserId: user.id })
+    .returning();
+  const [document] = await db
+    .insert(KnowledgeBaseDocumentSchema)
+    .values({
+      knowledgeBaseId: knowledgeBase.id,
+      uploadedByUserId: user.id,
+      fileName: "guide.txt",
+      mimeType: "text/plain",
+      storageKey: crypto.randomUUID(),
+    })
+    .returning();
+  return document;
+}
+
+async function selectChunkIndexes(documentId: string) {
+  const rows = await db
+    .select({ chunkIndex: KnowledgeBaseDocumentChunkSchema.chunkIndex })
+    .from(KnowledgeBaseDocumentChunkSchema)
+    .where(eq(KnowledgeBaseDocumentChunkSchema.documentId, documentId));
+  return rows.map((row) => row.chunkIndex).sort((a, b) => a - b);
+}
+
+describe("pgKnowledgeBaseRepository ingestion progress", () => {
+  let document: Awaited<ReturnType<typeof createDocument>>;
+
+  beforeEach(async () => {
+    document = await createDocument();
+  });
+
+  it("should checkpoint every appended batch", async () => {
+    await repository.markDocumentProcessing(document.id);
+    await repository.resetDocumentProgress(document.id, 4);
+
+    expect(
+      await repository.appendDocumentChunks(
+        document.id,
+        document.knowledgeBaseId,
+        [chunk(0), chunk(1)],
+        20,
+      ),
+    ).toBe(true);
+
+    const claimed = await repository.markDocumentProcessing(document.id, {
+      staleBefore: new Date(Date.now() + 1000),
+    });
+    expect(claimed).toMatchObject({
+      chunkCount: 2,
+      totalChunks: 4,
+      embeddingTokens: 20,
+    });
+    expect(await selectChunkIndexes(document.id)).toEqual([0, 1]);
+  });
+
+  it("should ignore a batch that was already stored", async () => {
+    await repository.markDocumentProcessing(document.id);
+    await repository.resetDocumentProgress(document.id, 4);
+    const batch = [chunk(0), chunk(1)];
+    await repository.appendDocumentChunks(
+      document.id,
+      document.knowledgeBaseId,
+      batch,
+      20,
+    );
+    await repository.appendDocumentChunks(
+      document.id,
+      document.knowledgeBaseId,
+      [chunk(2)],
+      10,
+    );
+
+    await repository.appendDocumentChunks(
+      document.id,
+      document.knowledgeBaseId,
+      batch,
+      0,
+    );
+
+    const [row] = await db
+      .select()
+      .from(KnowledgeBaseDocumentSchema)
+      .where(eq(KnowledgeBaseDocumentSchema.id, document.id));
+    expect(row.chunkCount).toBe(3);
+    expect(await selectChunkIndexes(document.id)).toEqual([0, 1, 2]);
+  });
+
+  it("should not append to a document that is no longer processing", async () => {
+    await repository.markDocumentProcessing(document.id);
+    await repository.markDocumentFailed(document.id, "stopped");
+
+    expect(
+      await repository.appendDocumentChunks(
+        document.id,
+        document.knowledgeBaseId,
+        [chunk(0)],
+        10,
+      ),
+    ).toBe(false);
+    expect(await selectChunkIndexes(document.id)).toEqual([]);
+  });
+
+  it("should reclaim a processing document only once it is stale", async () => {
+    await repository.markDocumentProcessing(document.id);
+
+    expect(
+      await repository.markDocumentProcessing(document.id, {
+        staleBefore: new Date(Date.now() - 60_000),
+      }),
+    ).toBeNull();
+    expect(
+      await repository.markDocumentProcessing(document.id, {
+        staleBefore: new Date(Date.now() + 1000),
+      }),
+    ).toMatchObject({ id: document.id, status: "processing" });
+  });
+
+  it("should drop stored chunks when progress is reset", async () => {
+    await repository.markDocumentProcessing(document.id);
+    await repository.appendDocumentChunks(
+      document.id,
+      document.knowledgeBaseId,
+      [chunk(0), chunk(1)],
+      20,
+    );
+
+    await repository.resetDocumentProgress(document.id, 3);
+
+    const claimed = await repository.markDocumentProcessing(document.id, {
+      staleBefore: new Date(Date.now() + 1000),
+    });
+    expect(claimed).toMatchObject({
+      chunkCount: 0,
+      totalChunks: 3,
+      embeddingTokens: 0,
+    });
+    expect(await selectChunkIndexes(document.id)).toEqual([]);
+  });
+});
+
+describe("pgKnowledgeBaseRepository document refresh", () => {
+  const refresh = () => ({
+    checkedAt: new Date(),
+    content: {
+      storageKey: crypto.randomUUID(),
+      checksum: "checksum-2",
+      fileSize: 10,
+    },
+  });
+
+  async function indexDocument(chunks: ReturnType<typeof chunk>[]) {
+    const document = await createDocument();
+    await repository.markDocumentProcessing(document.id);
+    await repository.resetDocumentProgress(document.id, chunks.length);
+    await repository.appendDocumentChunks(
+      document.id,
+      document.knowledgeBaseId,
+      chunks,
+      10,
+    );
+    await repository.markDocumentCompleted(document.id, {
+      chunkCount: chunks.length,
+      embeddingTokens: 10,
+    });
+    return document;
+  }
+
+  async function searchContents(document: { knowledgeBaseId: string }) {
+    const results = await repository.searchKnowledgeBaseChunks({
+      knowledgeBaseIds: [document.knowledgeBaseId],
+      embedding,
+      limit: 10,
+    });
+    return results.map((result) => result.content).sort();
+  }
+
+  it("should keep the indexed revision searchable while the new one is embedded", async () => {
+    const document = await indexDocument([chunk(0), chunk(1)]);
+
+    await repository.recordDocumentRefresh(document.id, refresh());
+    expect(await searchContents(document)).toEqual(["chunk 0", "chunk 1"]);
+
+    await repository.markDocumentProcessing(document.id);
+    await repository.resetDocumentProgress(document.id, 3);
+    await repository.appendDocumentChunks(
+      document.id,
+      document.knowledgeBaseId,
+      [{ ...chunk(0), content: "updated 0" }],
+      10,
+    );
+    expect(await searchContents(document)).toEqual(["chunk 0", "chunk 1"]);
+
+    // A failed re-embed leaves the indexed revision in place
+    await repository.markDocumentFailed(document.id, "Rate limited");
+    expect(await searchContents(document)).toEqual(["chunk 0", "chunk 1"]);
+  });
+
+  it("should swap in the new revision once it is complete", async () => {
+    const document = await indexDocument([chunk(0), chunk(1)]);
+    await repository.recordDocumentRefresh(document.id, refresh());
+    await repository.markDocumentProcessing(document.id);
+    await repository.resetDocumentProgress(document.id, 1);
+    await repository.appendDocumentChunks(
+      document.id,
+      document.knowledgeBaseId,
+      [{ ...chunk(0), content: "updated 0" }],
+      10,
+    );
+
+    await repository.markDocumentCompleted(document.id, {
+      chunkCount: 1,
+      embeddingTokens: 10,
+    });
+
+    expect(await searchContents(document)).toEqual(["updated 0"]);
+    expect(await selectChunkIndexes(document.id)).toEqual([0]);
+  });
+
+  it("should not search a document before its first revision is complete", async () => {
+    const document = await createDocument();
+    await repository.markDocumentProcessing(document.id);
+    await repository.appendDocumentChunks(
+      document.id,
+      document.knowledgeBaseId,
+      [chunk(0)],
+      10,
+    );
+
+    expect(await searchContents(document)).toEqual([]);
+  });
+});
+
+describe("pgKnowledgeBaseRepository crawl lease", () => {
+  async function claimCrawl() {
+    const document = await createDocument();
+    await repository.createCrawl(
+      document.uploadedByUserId!,
+      document.knowledgeBaseId,
+      { url: "https://a.dev/docs/", include: [], exclude: [], maxPages: 10 },
+    );
+    return (await repository.claimNextCrawl())!;
+  }
+
+  it("should renew the lease only for the worker that holds it", async () => {
+    const crawl = await claimCrawl();
+    // Leases are compared by timestamp, so let the clock move on
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    const renewed = await repository.renewCrawlLease(crawl.id, crawl.updatedAt);
+    expect(renewed).toBeInstanceOf(Date);
+    expect(
+      await repository.renewCrawlLease(crawl.id, crawl.updatedAt),
+    ).toBeNull();
+    expect(await repository.renewCrawlLease(crawl.id, renewed!)).not.toBeNull();
+  });
+
+  it("should keep the pages stored by the first discovery", async () => {
+    const crawl = await claimCrawl();
+
+    expect(await repository.setCrawlPages(crawl.id, ["https://a.dev/a"])).toBe(
+      true,
+    );
+    expect(await repository.setCrawlPages(crawl.id, ["https://a.dev/b"])).toBe(
+      false,
+    );
+  });
+});
@@ -1,22 +1,46 @@
 import {
+  DEFAULT_KNOWLEDGE_BASE_EMBEDDING,
+  KnowledgeBaseChunkMetadata,
+  KnowledgeBaseCrawl,
+  KnowledgeBaseCrawlJob,
   KnowledgeBaseDocument,
+  KnowledgeBaseDocumentRevision,
   KnowledgeBaseDocumentWithStatus,
+  KnowledgeBaseEmbeddingConfig,
+  KnowledgeBaseEmbeddingProvider,
   KnowledgeBaseRepository,
+  KnowledgeBaseSearchChunk,
+  KnowledgeBaseSearchMode,
   KnowledgeBaseSummary,
 } from "app-types/knowledge-base";
 import { pgDb as db } from "../db.pg";
 import {
+  KnowledgeBaseCrawlSchema,
   KnowledgeBaseDocumentChunkSchema,
+  KnowledgeBaseDocumentRevisionSchema,
   KnowledgeBaseDocumentSchema,
   KnowledgeBaseSchema,
   OrganizationMemberSchema,
   OrganizationSchema,
   UserSchema,
 } from "../schema.pg";
-import { and, asc, desc, eq, inArray, or, sql } from "drizzle-orm";
+import {
+  SQL,
+  and,
+  asc,
+  desc,
+  eq,
+  inArray,
+  lt,
+  lte,
+  ne,
+  or,
+  sql,
+} from "drizzle-orm";
 import { KnowledgeBase } from "app-types/knowledge-base";
 import { generateUUID } from "lib/utils";
-import { isNotNull } from "drizzle-orm";
+import { isNotNull, isNull } from "drizzle-orm";
+import { buildKeywordQuery, reciprocalRankFusion } from "lib/rag/hybrid-search";
 
 const DOCUMENT_STATUS_PENDING = "pending" as const;
 const DOCUMENT_STATUS_PROCESSING = "processing" as const;
@@ -36,6 +60,10 @@ type KnowledgeBaseRow = {
   visibility: "public" | "private" | "readonly";
   ownerUserId: string;
   organizationId: string | null;
+  searchMode: KnowledgeBaseSearchMode;
+  embeddingProvider: KnowledgeBaseEmbeddingProvider;
+  embeddingModel: string;
+  embeddingDimension: number;
   createdAt: Date;
   updatedAt: Date;
   organizationName: string | null;
@@ -81,6 +109,18 @@ async function mapDocumentCounts(
   return map;
 }
 
+function toEmbeddingConfig(row: {
+  embeddingProvider: KnowledgeBaseEmbeddingProvider;
+  embeddingModel: string;
+  embeddingDimension: number;
+}): KnowledgeBaseEmbeddingConfig {
+  return {
+    provider: row.embeddingProvider,
+    model: row.embeddingModel,
+    dimension: row.embeddingDimension,
+  };
+}
+
 function toKnowledgeBase(
   row: KnowledgeBaseRow,
   counts?: DocumentCountRow,
@@ -92,6 +132,8 @@ function toKnowledgeBase(
     visibility: row.visibility,
     ownerUserId: row.ownerUserId,
     organizationId: row.organizationId ?? undefined,
+    searchMode: row.searchMode,
+    embedding: toEmbeddingConfig(row),
     createdAt: row.createdAt,
     updatedAt: row.updatedAt,
     documentCount: counts?.total ?? 0,
@@ -100,6 +142,86 @@ function toKnowledgeBase(
   };
 }
 
+type DocumentRow = typeof KnowledgeBaseDocumentSchema.$inferSelect;
+
+function toDocument(doc: DocumentRow): KnowledgeBaseDocument {
+  return {
+    id: doc.id,
+    knowledgeBaseId: doc.knowledgeBaseId,
+    uploadedByUserId: doc.uploadedByUserId ?? undefined,
+    organizationId: doc.organizationId ?? undefined,
+    fileName: doc.fileName,
+    fileSize: doc.fileSize,
+    mimeType: doc.mimeType,
+    storageKey: doc.storageKey,
+    status: doc.status,
+    error: doc.error ?? undefined,
+    chunkCount: doc.chunkCount,
+    totalChunks: doc.totalChunks,
+    embeddingTokens: doc.embeddingTokens,
+    processedAt: doc.processedAt ?? undefined,
+    checksum: doc.checksum,
+    revision: doc.revision,
+    sourceUrl: doc.sourceUrl,
+    sourceOptions: doc.sourceOptions,
+    refreshIntervalHours: doc.refreshIntervalHours,
+    lastCheckedAt: doc.lastCheckedAt,
+    nextRefreshAt: doc.nextRefreshAt,
+    crawlId: doc.crawlId,
+    createdAt: doc.createdAt,
+    updatedAt: doc.updatedAt,
+  };
+}
+
+function toRevision(
+  row: typeof KnowledgeBaseDocumentRevisionSchema.$inferSelect,
+): KnowledgeBaseDocumentRevision {
+  return {
+    id: row.id,
+    documentId: row.documentId,
+    revision: row.revision,
+    checksum: row.checksum,
+    storageKey: row.storageKey,
+    fileSize: row.fileSize,
+    createdAt: row.createdAt,
+  };
+}
+
+type CrawlRow = typeof KnowledgeBaseCrawlSchema.$inferSelect;
+
+function toCrawlJob(row: CrawlRow): KnowledgeBaseCrawlJob {
+  return {
+    id: row.id,
+    knowledgeBaseId: row.knowledgeBaseId,
+    createdByUserId: row.createdByUserId,
+    rootUrl: row.rootUrl,
+    include: row.includePatterns,
+    exclude: row.excludePatterns,
+    maxPages: row.maxPages,
+    sourceOptions: row.sourceOptions,
+    refreshIntervalHours: row.refreshIntervalHours,
+    status: row.status,
+    error: row.error,
+    pagesDiscovered: row.pageUrls?.length ?? null,
+    pagesImported: row.pagesImported,
+    pagesSkipped: row.pagesSkipped,
+    pagesFailed: row.pagesFailed,
+    pageUrls: row.pageUrls,
+    nextPageIndex: row.nextPageIndex,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+    completedAt: row.completedAt,
+  };
+}
+
+const CRAWL_STATUS_PENDING = "pending" as const;
+const CRAWL_STATUS_RUNNING = "running" as const;
+const CRAWL_HISTORY_LIMIT = 10;
+
+function addHours(date: Date, hours: number): Date {
+  return new Date(date.getTime() + hours * 60 * 60 * 1000);
+}
+
 async function loadKnowledgeBaseRow(
   knowledgeBaseId: string,
   userId: string,
@@ -112,6 +234,10 @@ async function loadKnowledgeBaseRow(
       visibility: KnowledgeBaseSchema.visibility,
       ownerUserId: KnowledgeBaseSchema.ownerUserId,
       organizationId: KnowledgeBaseSchema.organizationId,
+      searchMode: KnowledgeBaseSchema.searchMode,
+      embeddingProvider: KnowledgeBaseSchema.embeddingProvider,
+      embeddingModel: KnowledgeBaseSchema.embeddingModel,
+      embeddingDimension: KnowledgeBaseSchema.embeddingDimension,
       createdAt: KnowledgeBaseSchema.createdAt,
       updatedAt: KnowledgeBaseSchema.updatedAt,
       organizationName: OrganizationSchema.name,
@@ -145,6 +271,10 @@ async function loadKnowledgeBaseRow(
     visibility: row.visibility,
     ownerUserId: row.ownerUserId,
     organizationId: row.organizationId ?? null,
+    searchMode: row.searchMode,
+    embeddingProvider: row.embeddingProvider,
+    embeddingModel: row.embeddingModel,
+    embeddingDimension: row.embeddingDimension,
     createdAt: row.createdAt,
     updatedAt: row.updatedAt,
     organizationName: row.organizationName ?? null,
@@ -207,6 +337,10 @@ async function listAccessibleKnowledgeBases(
       visibility: KnowledgeBaseSchema.visibility,
       ownerUserId: KnowledgeBaseSchema.ownerUserId,
       organizationId: KnowledgeBaseSchema.organizationId,
+      searchMode: KnowledgeBaseSchema.searchMode,
+      embeddingProvider: KnowledgeBaseSchema.embeddingProvider,
+      embeddingModel: KnowledgeBaseSchema.embeddingModel,
+      embeddingDimension: KnowledgeBaseSchema.embeddingDimension,
       createdAt: KnowledgeBaseSchema.createdAt,
       updatedAt: KnowledgeBaseSchema.updatedAt,
       organizationName: OrganizationSchema.name,
@@ -249,12 +383,126 @@ async function listAccessibleKnowledgeBases(
   });
 }
 
+const HYBRID_CANDIDATE_MULTIPLIER = 4;
+
+function vectorDistance(embedding: number[]) {
+  const vectorLiteral = sql.raw(
+    `'[${embedding.map((value) => Number(value).toString()).join(",")}]'`,
+  );
+  return sql<number>`(${KnowledgeBaseDocumentChunkSchema.embedding} <=> ${vectorLiteral}::vector)`;
+}
+
+function selectSearchChunks(embedding: number[]) {
+  const scoreExpr = sql<number>`GREATEST(0, 1 - ${vectorDistance(embedding)})`;
+
+  return db
+    .select({
+      chunkId: KnowledgeBaseDocumentChunkSchema.id,
+      knowledgeBaseId: KnowledgeBaseDocumentChunkSchema.knowledgeBaseId,
+      documentId: KnowledgeBaseDocumentChunkSchema.documentId,
+      documentName: KnowledgeBaseDocumentSchema.fileName,
+      content: KnowledgeBaseDocumentChunkSchema.content,
+      metadata: KnowledgeBaseDocumentChunkSchema.metadata,
+      score: scoreExpr,
+    })
+    .from(KnowledgeBaseDocumentChunkSchema)
+    .innerJoin(
+      KnowledgeBaseDocumentSchema,
+      eq(
+        KnowledgeBaseDocumentSchema.id,
+        KnowledgeBaseDocumentChunkSchema.documentId,
+      ),
+    );
+}
+
+function toSearchChunk(row: {
+  chunkId: string;
+  knowledgeBaseId: string;
+  documentId: string;
+  documentName: string;
+  content: string;
+  metadata: KnowledgeBaseChunkMetadata | null;
+  score: number | null;
+}): KnowledgeBaseSearchChunk {
+  return {
+    chunkId: row.chunkId,
+    knowledgeBaseId: row.knowledgeBaseId,
+    documentId: row.documentId,
+    documentName: row.documentName,
+    content: row.content,
+    metadata: row.metadata,
+    score: Number(row.score ?? 0),
+  };
+}
+
+function searchScope(knowledgeBaseIds: string[], documentIds?: string[]) {
+  return and(
+    inArray(KnowledgeBaseDocumentChunkSchema.knowledgeBaseId, knowledgeBaseIds),
+    documentIds?.length
+      ? inArray(KnowledgeBaseDocumentChunkSchema.documentId, documentIds)
+      : undefined,
+    eq(
+      KnowledgeBaseDocumentChunkSchema.revision,
+      KnowledgeBaseDocumentSchema.indexedRevision,
+    ),
+  );
+}
+
+async function searchChunksByVector(
+  scope: SQL | undefined,
+  embedding: number[],
+  limit: number,
+): Promise<KnowledgeBaseSearchChunk[]> {
+  const rows = await selectSearchChunks(embedding)
+    .where(scope)
+    .orderBy(vectorDistance(embedding))
+    .limit(limit);
+
+  return rows.map(toSearchChunk);
+}
+
+async function searchChunksByKeyword(
+  scope: SQL | undefined,
+  keywordQuery: string,
+  embedding: number[],
+  limit: number,
+): Promise<KnowledgeBaseSearchChunk[]> {
+  const documentVector = sql`to_tsvector('simple', ${KnowledgeBaseDocumentChunkSchema.content})`;
+  const tsQuery = sql`to_tsquery('simple', ${keywordQuery})`;
+
+  const rows = await selectSearchChunks(embedding)
+    .where(and(scope, sql`${documentVector} @@ ${tsQuery}`))
+    .orderBy(desc(sql`ts_rank_cd(${documentVector}, ${tsQuery})`))
+    .limit(limit);
+
+  return rows.map(toSearchChunk);
+}
+
+// Pending documents are claimable, and so are documents whose worker stopped
+// checkpointing before staleBefore (e.g. it crashed mid-ingestion).
+function claimableDocumentCondition(staleBefore?: Date) {
+  const pending = eq(
+    KnowledgeBaseDocumentSchema.status,
+    DOCUMENT_STATUS_PENDING,
+  );
+  if (!staleBefore) return pending;
+  return or(
+    pending,
+    and(
+      eq(KnowledgeBaseDocumentSchema.status, DOCUMENT_STATUS_PROCESSING),
+      lt(KnowledgeBaseDocumentSchema.updatedAt, staleBefore),
+    ),
+  );
+}
+
 export const pgKnowledgeBaseRepository: KnowledgeBaseRepository = {
   async createKnowledgeBase(userId, payload) {
     if (payload.organizationId) {
       await assertOrganizationMembership(payload.organizationId, userId);
     }
 
+    const embedding = payload.embedding ?? DEFAULT_KNOWLEDGE_BASE_EMBEDDING;
+
     const [row] = await db
       .insert(KnowledgeBaseSchema)
       .values({
@@ -264,6 +512,10 @@ export const pgKnowledgeBaseRepository: KnowledgeBaseRepository = {
         visibility: payload.visibility ?? "private",
         ownerUserId: userId,
         organizationId: payload.organizationId ?? null,
+        searchMode: payload.searchMode ?? "vector",
+        embeddingProvider: embedding.provider,
+        embeddingModel: embedding.model,
+        embeddingDimension: embedding.dimension,
         createdAt: new Date(),
         updatedAt: new Date(),
       })
@@ -276,6 +528,8 @@ export const pgKnowledgeBaseRepository: KnowledgeBaseRepository = {
       visibility: row.visibility,
       ownerUserId: row.ownerUserId,
       organizationId: row.organizationId ?? undefined,
+      searchMode: row.searchMode,
+      embedding: toEmbeddingConfig(row),
       createdAt: row.createdAt,
       updatedAt: row.updatedAt,
       documentCount: 0,
@@ -300,20 +554,62 @@ export const pgKnowledgeBaseRepository: KnowledgeBaseRepository = {
       await assertOrganizationMembership(payload.organizationId, userId);
     }
 
-    const [updated] = await db
-      .update(KnowledgeBaseSchema)
-      .set({
-        name: payload.name ?? knowledgeBase.name,
-        description: payload.description ?? knowledgeBase.description,
-        visibility: payload.visibility ?? knowledgeBase.visibility,
-        organizationId:
-          payload.organizationId !== undefined
-            ? payload.organizationId
-            : (knowledgeBase.organizationId ?? null),
-        updatedAt: new Date(),
-      })
-      .where(eq(KnowledgeBaseSchema.id, knowledgeBaseId))
-      .returning();
+    const embedding = payload.embedding ?? knowledgeBase.embedding;
+    const embeddingChanged =
+      embedding.provider !== knowledgeBase.embedding.provider ||
+      embedding.model !== knowledgeBase.embedding.model ||
+      embedding.dimension !== knowledgeBase.embedding.dimension;
+
+    const updated = await db.transaction(async (tx) => {
+      const [row] = await tx
+        .update(KnowledgeBaseSchema)
+        .set({
+          name: payload.name ?? knowledgeBase.name,
+          description: payload.description ?? knowledgeBase.description,
+          visibility: payload.visibility ?? knowledgeBase.visibility,
+          organizationId:
+            payload.organizationId !== undefined
+              ? payload.organizationId
+              : (knowledgeBase.organizationId ?? null),
+          searchMode: payload.searchMode ?? knowledgeBase.searchMode,
+          embeddingProvider: embedding.provider,
+          embeddingModel: embedding.model,
+          embeddingDimension: embedding.dimension,
+          updatedAt: new Date(),
+        })
+        .where(eq(KnowledgeBaseSchema.id, knowledgeBaseId))
+        .returning();
+
+      // Vectors from different models are not comparable, so the whole
+      // corpus is queued for re-embedding with the new model.
+      if (row && embeddingChanged) {
+        await tx
+          .delete(KnowledgeBaseDocumentChunkSchema)
+          .where(
+            eq(
+              KnowledgeBaseDocumentChunkSchema.knowledgeBaseId,
+              knowledgeBaseId,
+            ),
+          );
+        await tx
+          .update(KnowledgeBaseDocumentSchema)
+          .set({
+            status: DOCUMENT_STATUS_PENDING,
+            error: null,
+            chunkCount: 0,
+            totalChunks: 0,
+            embeddingTokens: 0,
+            indexedRevision: null,
+            processedAt: null,
+            updatedAt: new Date(),
+          })
+          .where(
+            eq(KnowledgeBaseDocumentSchema.knowledgeBaseId, knowledgeBaseId),
+          );
+      }
+
+      return row;
+    });
 
     if (!updated) return null;
 
@@ -326,6 +622,8 @@ export const pgKnowledgeBaseRepository: KnowledgeBaseRepository = {
       visibility: updated.visibility,
       ownerUserId: updated.ownerUserId,
       organizationId: updated.organizationId ?? undefined,
+      searchMode: updated.searchMode,
+      embedding: toEmbeddingConfig(updated),
       createdAt: updated.createdAt,
       updatedAt: updated.updatedAt,
       documentCount:
@@ -375,8 +673,15 @@ export const pgKnowledgeBaseRepository: KnowledgeBaseRepository = {
         status: KnowledgeBaseDocumentSchema.status,
         error: KnowledgeBaseDocumentSchema.error,
         chunkCount: KnowledgeBaseDocumentSchema.chunkCount,
+        totalChunks: KnowledgeBaseDocumentSchema.totalChunks,
         embeddingTokens: KnowledgeBaseDocumentSchema.embeddingTokens,
         processedAt: KnowledgeBaseDocumentSchema.processedAt,
+        revision: KnowledgeBaseDocumentSchema.revision,
+        sourceUrl: KnowledgeBaseDocumentSchema.sourceUrl,
+        refreshIntervalHours: KnowledgeBaseDocumentSchema.refreshIntervalHours,
+        lastCheckedAt: KnowledgeBaseDocumentSchema.lastCheckedAt,
+        nextRefreshAt: KnowledgeBaseDocumentSchema.nextRefreshAt,
+        crawlId: KnowledgeBaseDocumentSchema.crawlId,
         createdAt: KnowledgeBaseDocumentSchema.createdAt,
         updatedAt: KnowledgeBaseDocumentSchema.updatedAt,
         uploadedByName: UserSchema.name,
@@ -401,8 +706,15 @@ export const pgKnowledgeBaseRepository: KnowledgeBaseRepository = {
       status: doc.status,
       error: doc.error ?? undefined,
       chunkCount: doc.chunkCount,
+      totalChunks: doc.totalChunks,
       embeddingTokens: doc.embeddingTokens,
       processedAt: doc.processedAt ?? undefined,
+      revision: doc.revision,
+      sourceUrl: doc.sourceUrl,
+      refreshIntervalHours: doc.refreshIntervalHours,
+      lastCheckedAt: doc.lastCheckedAt,
+      nextRefreshAt: doc.nextRefreshAt,
+      crawlId: doc.crawlId,
       createdAt: doc.createdAt,
       updatedAt: doc.updatedAt,
       uploadedByName: doc.uploadedByName ?? undefined,
@@ -415,39 +727,52 @@ export const pgKnowledgeBaseRepository: KnowledgeBaseRepository = {
       throw new Error("Not authorized to add documents");
     }
 
-    const [doc] = await db
-      .insert(KnowledgeBaseDocumentSchema)
-      .values({
+    const now = new Date();
+    const refreshIntervalHours = payload.sourceUrl
+      ? (payload.refreshIntervalHours ?? null)
+      : null;
+
+    const doc = await db.transaction(async (tx) => {
+      const [doc] = await tx
+        .insert(KnowledgeBaseDocumentSchema)
+        .values({
+          id: generateUUID(),
+          knowledgeBaseId: payload.knowledgeBaseId,
+          uploadedByUserId: userId,
+          organizationId: access.knowledgeBase.organizationId ?? null,
+          fileName: payload.fileName,
+          fileSize: payload.fileSize,
+          mimeType: payload.mimeType,
+          storageKey: payload.storageKey,
+          checksum: payload.checksum,
+          status: DOCUMENT_STATUS_PENDING,
+          sourceUrl: payload.sourceUrl ?? null,
+          sourceOptions: payload.sourceOptions ?? null,
+          refreshIntervalHours,
+          lastCheckedAt: payload.sourceUrl ? now : null,
+          nextRefreshAt: refreshIntervalHours
+            ? addHours(now, refreshIntervalHours)
+            : null,
+          crawlId: payload.crawlId ?? null,
+          createdAt: now,
+          updatedAt: now,
+        })
+        .returning();
+
+      await tx.insert(KnowledgeBaseDocumentRevisionSchema).values({
         id: generateUUID(),
-        knowledgeBaseId: payload.knowledgeBaseId,
-        uploadedByUserId: userId,
-        organizationId: access.knowledgeBase.organizationId ?? null,
-        fileName: payload.fileName,
-        fileSize: payload.fileSize,
-        mimeType: payload.mimeType,
-        storageKey: payload.storageKey,
-        checksum: payload.checksum,
-        status: DOCUMENT_STATUS_PENDING,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      })
-      .returning();
+        documentId: doc.id,
+        revision: doc.revision,
+        checksum: doc.checksum,
+        storageKey: doc.storageKey,
+        fileSize: doc.fileSize,
+        createdAt: now,
+      });
+
+      return doc;
+    });
 
-    return {
-      id: doc.id,
-      knowledgeBaseId: doc.knowledgeBaseId,
-      uploadedByUserId: doc.uploadedByUserId ?? undefined,
-      organizationId: doc.organizationId ?? undefined,
-      fileName: doc.fileName,
-      fileSize: doc.fileSize,
-      mimeType: doc.mimeType,
-      storageKey: doc.storageKey,
-      status: doc.status,
-      chunkCount: doc.chunkCount,
-      embeddingTokens: doc.embeddingTokens,
-      createdAt: doc.createdAt,
-      updatedAt: doc.updatedAt,
-    } satisfies KnowledgeBaseDocument;
+    return toDocument(doc);
   },
 
   async updateDocument(documentId, userId, payload) {
@@ -455,6 +780,8 @@ export const pgKnowledgeBaseRepository: KnowledgeBaseRepository = {
       .select({
         id: KnowledgeBaseDocumentSchema.id,
         knowledgeBaseId: KnowledgeBaseDocumentSchema.knowledgeBaseId,
+        sourceUrl: KnowledgeBaseDocumentSchema.sourceUrl,
+        lastCheckedAt: KnowledgeBaseDocumentSchema.lastCheckedAt,
       })
       .from(KnowledgeBaseDocumentSchema)
       .where(eq(KnowledgeBaseDocumentSchema.id, documentId))
@@ -471,6 +798,17 @@ export const pgKnowledgeBaseRepository: KnowledgeBaseRepository = {
       .update(KnowledgeBaseDocumentSchema)
       .set({
         fileName: payload.fileName,
+        ...(payload.refreshIntervalHours !== undefined && docRow.sourceUrl
+          ? {
+              refreshIntervalHours: payload.refreshIntervalHours,
+              nextRefreshAt: payload.refreshIntervalHours
+                ? addHours(
+                    docRow.lastCheckedAt ?? new Date(),
+                    payload.refreshIntervalHours,
+                  )
+                : null,
+            }
+          : {}),
         updatedAt: new Date(),
       })
       .where(eq(KnowledgeBaseDocumentSchema.id, documentId))
@@ -478,23 +816,7 @@ export const pgKnowledgeBaseRepository: KnowledgeBaseRepository = {
 
     if (!updated) return null;
 
-    return {
-      id: updated.id,
-      knowledgeBaseId: updated.knowledgeBaseId,
-      uploadedByUserId: updated.uploadedByUserId ?? undefined,
-      organizationId: updated.organizationId ?? undefined,
-      fileName: updated.fileName,
-      fileSize: updated.fileSize,
-      mimeType: updated.mimeType,
-      storageKey: updated.storageKey,
-      status: updated.status,
-      error: updated.error ?? undefined,
-      chunkCount: updated.chunkCount,
-      embeddingTokens: updated.embeddingTokens,
-      processedAt: updated.processedAt ?? undefined,
-      createdAt: updated.createdAt,
-      updatedAt: updated.updatedAt,
-    } satisfies KnowledgeBaseDocument;
+    return toDocument(updated);
   },
 
   async deleteDocument(documentId, userId) {
@@ -519,7 +841,7 @@ export const pgKnowledgeBaseRepository: KnowledgeBaseRepository = {
       .where(eq(KnowledgeBaseDocumentSchema.id, documentId));
   },
 
-  async markDocumentProcessing(documentId) {
+  async markDocumentProcessing(documentId, options) {
     const [doc] = await db
       .update(KnowledgeBaseDocumentSchema)
       .set({
@@ -529,43 +851,47 @@ export const pgKnowledgeBaseRepository: KnowledgeBaseRepository = {
       .where(
         and(
           eq(KnowledgeBaseDocumentSchema.id, documentId),
-          eq(KnowledgeBaseDocumentSchema.status, DOCUMENT_STATUS_PENDING),
+          claimableDocumentCondition(options?.staleBefore),
         ),
       )
       .returning();
 
-    if (!doc) return null;
-
-    return {
-      id: doc.id,
-      knowledgeBaseId: doc.knowledgeBaseId,
-      uploadedByUserId: doc.uploadedByUserId ?? undefined,
-      organizationId: doc.organizationId ?? undefined,
-      fileName: doc.fileName,
-      fileSize: doc.fileSize,
-      mimeType: doc.mimeType,
-      storageKey: doc.storageKey,
-      status: doc.status,
-      error: doc.error ?? undefined,
-      chunkCount: doc.chunkCount,
-      embeddingTokens: doc.embeddingTokens,
-      processedAt: doc.processedAt ?? undefined,
-      createdAt: doc.createdAt,
-      updatedAt: doc.updatedAt,
-    } satisfies KnowledgeBaseDocument;
+    return doc ? toDocument(doc) : null;
   },
 
   async markDocumentCompleted(documentId, data) {
-    await db
-      .update(KnowledgeBaseDocumentSchema)
-      .set({
-        status: DOCUMENT_STATUS_COMPLETED,
-        chunkCount: data.chunkCount,
-        embeddingTokens: data.embeddingTokens,
-        processedAt: data.processedAt ?? new Date(),
-        updatedAt: new Date(),
-      })
-      .where(eq(KnowledgeBaseDocumentSchema.id, documentId));
+    // The new revision becomes searchable and the chunks of the previous one
+    // are dropped in the same transaction, so searches never see a gap.
+    await db.transaction(async (tx) => {
+      const [doc] = await tx
+        .update(KnowledgeBaseDocumentSchema)
+        .set({
+          status: DOCUMENT_STATUS_COMPLETED,
+          chunkCount: data.chunkCount,
+          embeddingTokens: data.embeddingTokens,
+          indexedRevision: KnowledgeBaseDocumentSchema.revision,
+          processedAt: data.processedAt ?? new Date(),
+          updatedAt: new Date(),
+        })
+        .where(
+          and(
+            eq(KnowledgeBaseDocumentSchema.id, documentId),
+            eq(KnowledgeBaseDocumentSchema.status, DOCUMENT_STATUS_PROCESSING),
+          ),
+        )
+        .returning({ revision: KnowledgeBaseDocumentSchema.revision });
+
+      if (!doc) return;
+
+      await tx
+        .delete(KnowledgeBaseDocumentChunkSchema)
+        .where(
+          and(
+            eq(KnowledgeBaseDocumentChunkSchema.documentId, documentId),
+            ne(KnowledgeBaseDocumentChunkSchema.revision, doc.revision),
+          ),
+        );
+    });
   },
 
   async markDocumentFailed(documentId, error) {
@@ -579,20 +905,97 @@ export const pgKnowledgeBaseRepository: KnowledgeBaseRepository = {
       .where(eq(KnowledgeBaseDocumentSchema.id, documentId));
   },
 
-  async upsertDocumentChunks(documentId, knowledgeBaseId, chunks) {
-    if (!chunks.length) return;
+  async resetDocumentProgress(documentId, totalChunks) {
+    await db.transaction(async (tx) => {
+      const [doc] = await tx
+        .update(KnowledgeBaseDocumentSchema)
+        .set({
+          chunkCount: 0,
+          totalChunks,
+          embeddingTokens: 0,
+          updatedAt: new Date(),
+        })
+        .where(eq(KnowledgeBaseDocumentSchema.id, documentId))
+        .returning({
+          indexedRevision: KnowledgeBaseDocumentSchema.indexedRevision,
+        });
+
+      if (!doc) return;
+
+      // Only unfinished revisions are dropped; the indexed one stays
+      // searchable until its replacement is complete.
+      await tx
+        .delete(KnowledgeBaseDocumentChunkSchema)
+        .where(
+          and(
+            eq(KnowledgeBaseDocumentChunkSchema.documentId, documentId),
+            doc.indexedRevision === null
+              ? undefined
+              : ne(
+                  KnowledgeBaseDocumentChunkSchema.revision,
+                  doc.indexedRevision,
+                ),
+          ),
+        );
+    });
+  },
 
-    await db.insert(KnowledgeBaseDocumentChunkSchema).values(
-      chunks.map((chunk) => ({
-        id: generateUUID(),
-        documentId,
-        knowledgeBaseId,
-        chunkIndex: chunk.chunkIndex,
-        content: chunk.content,
-        embedding: chunk.embedding,
-        createdAt: new Date(),
-      })),
-    );
+  async appendDocumentChunks(
+    documentId,
+    knowledgeBaseId,
+    chunks,
+    embeddingTokens,
+  ) {
+    if (!chunks.length) return true;
+
+    const nextChunkCount =
+      Math.max(...chunks.map((chunk) => chunk.chunkIndex)) + 1;
+
+    // The batch and the progress checkpoint are written together so a
+    // restarted worker resumes exactly after the last stored chunk.
+    return db.transaction(async (tx) => {
+      const [doc] = await tx
+        .update(KnowledgeBaseDocumentSchema)
+        .set({
+          chunkCount: sql`GREATEST(${KnowledgeBaseDocumentSchema.chunkCount}, ${nextChunkCount})`,
+          embeddingTokens: sql`${KnowledgeBaseDocumentSchema.embeddingTokens} + ${embeddingTokens}`,
+          updatedAt: new Date(),
+        })
+        .where(
+          and(
+            eq(KnowledgeBaseDocumentSchema.id, documentId),
+            eq(KnowledgeBaseDocumentSchema.status, DOCUMENT_STATUS_PROCESSING),
+          ),
+        )
+        .returning({ revision: KnowledgeBaseDocumentSchema.revision });
+
+      if (!doc) return false;
+
+      await tx
+        .insert(KnowledgeBaseDocumentChunkSchema)
+        .values(
+          chunks.map((chunk) => ({
+            id: generateUUID(),
+            documentId,
+            knowledgeBaseId,
+            revision: doc.revision,
+            chunkIndex: chunk.chunkIndex,
+            content: chunk.content,
+            metadata: chunk.metadata ?? null,
+            embedding: chunk.embedding,
+            createdAt: new Date(),
+          })),
+        )
+        .onConflictDoNothing({
+          target: [
+            KnowledgeBaseDocumentChunkSchema.documentId,
+            KnowledgeBaseDocumentChunkSchema.revision,
+            KnowledgeBaseDocumentChunkSchema.chunkIndex,
+          ],
+        });
+
+      return true;
+    });
   },
 
   async removeDocumentChunks(documentId) {
@@ -601,7 +1004,26 @@ export const pgKnowledgeBaseRepository: KnowledgeBaseRepository = {
       .where(eq(KnowledgeBaseDocumentChunkSchema.documentId, documentId));
   },
 
-  async findNextPendingDocument() {
+  async listEmbeddingConfigs(knowledgeBaseIds) {
+    if (!knowledgeBaseIds.length) return [];
+
+    const rows = await db
+      .select({
+        knowledgeBaseId: KnowledgeBaseSchema.id,
+        embeddingProvider: KnowledgeBaseSchema.embeddingProvider,
+        embeddingModel: KnowledgeBaseSchema.embeddingModel,
+        embeddingDimension: KnowledgeBaseSchema.embeddingDimension,
+      })
+      .from(KnowledgeBaseSchema)
+      .where(inArray(KnowledgeBaseSchema.id, knowledgeBaseIds));
+
+    return rows.map((row) => ({
+      knowledgeBaseId: row.knowledgeBaseId,
+      ...toEmbeddingConfig(row),
+    }));
+  },
+
+  async findNextPendingDocument(options) {
     const [doc] = await db
       .select({
         id: KnowledgeBaseDocumentSchema.id,
@@ -614,12 +1036,14 @@ export const pgKnowledgeBaseRepository: KnowledgeBaseRepository = {
         storageKey: KnowledgeBaseDocumentSchema.storageKey,
         status: KnowledgeBaseDocumentSchema.status,
         chunkCount: KnowledgeBaseDocumentSchema.chunkCount,
+        totalChunks: KnowledgeBaseDocumentSchema.totalChunks,
         embeddingTokens: KnowledgeBaseDocumentSchema.embeddingTokens,
+        revision: KnowledgeBaseDocumentSchema.revision,
         createdAt: KnowledgeBaseDocumentSchema.createdAt,
         updatedAt: KnowledgeBaseDocumentSchema.updatedAt,
       })
       .from(KnowledgeBaseDocumentSchema)
-      .where(eq(KnowledgeBaseDocumentSchema.status, DOCUMENT_STATUS_PENDING))
+      .where(claimableDocumentCondition(options?.staleBefore))
       .orderBy(asc(KnowledgeBaseDocumentSchema.createdAt))
       .limit(1);
 
@@ -636,57 +1060,395 @@ export const pgKnowledgeBaseRepository: KnowledgeBaseRepository = {
       storageKey: doc.storageKey,
       status: doc.status,
       chunkCount: doc.chunkCount,
+      totalChunks: doc.totalChunks,
       embeddingTokens: doc.embeddingTokens,
+      revision: doc.revision,
       createdAt: doc.createdAt,
       updatedAt: doc.updatedAt,
     } satisfies KnowledgeBaseDocument;
   },
 
-  async searchKnowledgeBaseChunks({ knowledgeBaseIds, embedding, limit = 5 }) {
-    if (!knowledgeBaseIds.length || !embedding.length) {
-      return [];
-    }
+  async listDocumentRevisions(documentId, userId) {
+    const [docRow] = await db
+      .select({ knowledgeBaseId: KnowledgeBaseDocumentSchema.knowledgeBaseId })
+      .from(KnowledgeBaseDocumentSchema)
+      .where(eq(KnowledgeBaseDocumentSchema.id, documentId))
+      .limit(1);
 
-    const vectorLiteral = sql.raw(
-      `'[${embedding.map((value) => Number(value).toString()).join(",")}]'`,
-    );
-    const distanceExpr = sql<number>`(${KnowledgeBaseDocumentChunkSchema.embedding} <=> ${vectorLiteral}::vector)`;
-    const scoreExpr = sql<number>`GREATEST(0, 1 - ${distanceExpr})`;
+    if (!docRow) return [];
+
+    const access = await loadKnowledgeBaseRow(docRow.knowledgeBaseId, userId);
+    if (!access) return [];
 
     const rows = await db
+      .select()
+      .from(KnowledgeBaseDocumentRevisionSchema)
+      .where(eq(KnowledgeBaseDocumentRevisionSchema.documentId, documentId))
+      .orderBy(desc(KnowledgeBaseDocumentRevisionSchema.revision));
+
+    return rows.map(toRevision);
+  },
+
+  async claimDueDocumentRefresh(now) {
+    const [due] = await db
       .select({
-        knowledgeBaseId: KnowledgeBaseDocumentChunkSchema.knowledgeBaseId,
-        documentId: KnowledgeBaseDocumentChunkSchema.documentId,
-        documentName: KnowledgeBaseDocumentSchema.fileName,
-        content: KnowledgeBaseDocumentChunkSchema.content,
-        score: scoreExpr,
+        id: KnowledgeBaseDocumentSchema.id,
+        nextRefreshAt: KnowledgeBaseDocumentSchema.nextRefreshAt,
       })
-      .from(KnowledgeBaseDocumentChunkSchema)
-      .innerJoin(
-        KnowledgeBaseDocumentSchema,
-        eq(
-          KnowledgeBaseDocumentSchema.id,
-          KnowledgeBaseDocumentChunkSchema.documentId,
+      .from(KnowledgeBaseDocumentSchema)
+      .where(
+        and(
+          isNotNull(KnowledgeBaseDocumentSchema.sourceUrl),
+          isNotNull(KnowledgeBaseDocumentSchema.refreshIntervalHours),
+          lte(KnowledgeBaseDocumentSchema.nextRefreshAt, now),
+          ne(KnowledgeBaseDocumentSchema.status, DOCUMENT_STATUS_PROCESSING),
         ),
       )
+      .orderBy(asc(KnowledgeBaseDocumentSchema.nextRefreshAt))
+      .limit(1);
+
+    if (!due?.nextRefreshAt) return null;
+
+    // Pushing the next refresh forward claims the document; a concurrent
+    // worker that read the same row no longer matches the old timestamp.
+    const [doc] = await db
+      .update(KnowledgeBaseDocumentSchema)
+      .set({
+        nextRefreshAt: sql`${now.toISOString()}::timestamp + make_interval(hours => ${KnowledgeBaseDocumentSchema.refreshIntervalHours})`,
+      })
+      .where(
+        and(
+          eq(KnowledgeBaseDocumentSchema.id, due.id),
+          eq(KnowledgeBaseDocumentSchema.nextRefreshAt, due.nextRefreshAt),
+        ),
+      )
+      .returning();
+
+    return doc ? toDocument(doc) : null;
+  },
+
+  async recordDocumentRefresh(documentId, data) {
+    const { checkedAt, content } = data;
+
+    if (!content) {
+      await db
+        .update(KnowledgeBaseDocumentSchema)
+        .set({ lastCheckedAt: checkedAt })
+        .where(eq(KnowledgeBaseDocumentSchema.id, documentId));
+      return null;
+    }
+
+    return db.transaction(async (tx) => {
+      const [doc] = await tx
+        .update(KnowledgeBaseDocumentSchema)
+        .set({
+          storageKey: content.storageKey,
+          checksum: content.checksum,
+          fileSize: content.fileSize,
+          revision: sql`${KnowledgeBaseDocumentSchema.revision} + 1`,
+          lastCheckedAt: checkedAt,
+          status: DOCUMENT_STATUS_PENDING,
+          error: null,
+          chunkCount: 0,
+          totalChunks: 0,
+          embeddingTokens: 0,
+          updatedAt: new Date(),
+        })
+        .where(eq(KnowledgeBaseDocumentSchema.id, documentId))
+        .returning();
+
+      if (!doc) return null;
+
+      // The chunks of the indexed revision stay searchable while the worker
+      // embeds the new revision next to them.
+      const [revision] = await tx
+        .insert(KnowledgeBaseDocumentRevisionSchema)
+        .values({
+          id: generateUUID(),
+          documentId,
+          revision: doc.revision,
+          checksum: content.checksum,
+          storageKey: content.storageKey,
+          fileSize: content.fileSize,
+          createdAt: checkedAt,
+        })
+        .returning();
+
+      return toRevision(revision);
+    });
+  },
+
+  async createCrawl(userId, knowledgeBaseId, payload) {
+    const access = await loadKnowledgeBaseRow(knowledgeBaseId, userId);
+    if (!access || !access.canWrite) {
+      throw new Error("Not authorized to add documents");
+    }
+
+    const now = new Date();
+    const [row] = await db
+      .insert(KnowledgeBaseCrawlSchema)
+      .values({
+        id: generateUUID(),
+        knowledgeBaseId,
+        createdByUserId: userId,
+        rootUrl: payload.url,
+        includePatterns: payload.include,
+        excludePatterns: payload.exclude,
+        maxPages: payload.maxPages,
+        sourceOptions: {
+          maxCharacters: payload.maxCharacters,
+          livecrawl: payload.livecrawl,
+          fetcher: payload.fetcher,
+        },
+        refreshIntervalHours: payload.refreshIntervalHours ?? null,
+        status: CRAWL_STATUS_PENDING,
+        createdAt: now,
+        updatedAt: now,
+      })
+      .returning();
+
+    const {
+      pageUrls: _pageUrls,
+      nextPageIndex: _nextPageIndex,
+      ...crawl
+    } = toCrawlJob(row);
+    return { ...crawl, pagesEmbedded: 0 };
+  },
+
+  async listCrawls(knowledgeBaseId, userId) {
+    const access = await loadKnowledgeBaseRow(knowledgeBaseId, userId);
+    if (!access) return [];
+
+    const rows = await db
+      .select()
+      .from(KnowledgeBaseCrawlSchema)
+      .where(eq(KnowledgeBaseCrawlSchema.knowledgeBaseId, knowledgeBaseId))
+      .orderBy(desc(KnowledgeBaseCrawlSchema.createdAt))
+      .limit(CRAWL_HISTORY_LIMIT);
+    if (!rows.length) return [];
+
+    const embeddedRows = await db
+      .select({
+        crawlId: KnowledgeBaseDocumentSchema.crawlId,
+        embedded: sql<number>`COUNT(*)`,
+      })
+      .from(KnowledgeBaseDocumentSchema)
       .where(
         and(
           inArray(
-            KnowledgeBaseDocumentChunkSchema.knowledgeBaseId,
-            knowledgeBaseIds,
+            KnowledgeBaseDocumentSchema.crawlId,
+            rows.map((row) => row.id),
           ),
           eq(KnowledgeBaseDocumentSchema.status, DOCUMENT_STATUS_COMPLETED),
         ),
       )
-      .orderBy(distanceExpr)
-      .limit(limit);
+      .groupBy(KnowledgeBaseDocumentSchema.crawlId);
+    const embeddedByCrawl = new Map(
+      embeddedRows.map((row) => [row.crawlId, Number(row.embedded ?? 0)]),
+    );
 
-    return rows.map((row) => ({
-      knowledgeBaseId: row.knowledgeBaseId,
-      documentId: row.documentId,
-      documentName: row.documentName,
-      content: row.content,
-      score: Number(row.score ?? 0),
-    }));
+    return rows.map((row) => {
+      const {
+        pageUrls: _pageUrls,
+        nextPageIndex: _nextPageIndex,
+        ...crawl
+      } = toCrawlJob(row);
+      return {
+        ...crawl,
+        pagesEmbedded: embeddedByCrawl.get(row.id) ?? 0,
+      } satisfies KnowledgeBaseCrawl;
+    });
+  },
+
+  async claimNextCrawl(options) {
+    const claimable = eq(KnowledgeBaseCrawlSchema.status, CRAWL_STATUS_PENDING);
+    const condition = options?.staleBefore
+      ? or(
+          claimable,
+          and(
+            eq(KnowledgeBaseCrawlSchema.status, CRAWL_STATUS_RUNNING),
+            lt(KnowledgeBaseCrawlSchema.updatedAt, options.staleBefore),
+          ),
+        )
+      : claimable;
+
+    const [candidate] = await db
+      .select({
+        id: KnowledgeBaseCrawlSchema.id,
+        updatedAt: KnowledgeBaseCrawlSchema.updatedAt,
+      })
+      .from(KnowledgeBaseCrawlSchema)
+      .where(condition)
+      .orderBy(asc(KnowledgeBaseCrawlSchema.updatedAt))
+      .limit(1);
+    if (!candidate) return null;
+
+    const [row] = await db
+      .update(KnowledgeBaseCrawlSchema)
+      .set({ status: CRAWL_STATUS_RUNNING, updatedAt: new Date() })
+      .where(
+        and(
+          eq(KnowledgeBaseCrawlSchema.id, candidate.id),
+          eq(KnowledgeBaseCrawlSchema.updatedAt, candidate.updatedAt),
+        ),
+      )
+      .returning();
+
+    return row ? toCrawlJob(row) : null;
+  },
+
+  async renewCrawlLease(crawlId, leasedAt) {
+    const [row] = await db
+      .update(KnowledgeBaseCrawlSchema)
+      .set({ updatedAt: new Date() })
+      .where(
+        and(
+          eq(KnowledgeBaseCrawlSchema.id, crawlId),
+          eq(KnowledgeBaseCrawlSchema.status, CRAWL_STATUS_RUNNING),
+          eq(KnowledgeBaseCrawlSchema.updatedAt, leasedAt),
+        ),
+      )
+      .returning({ updatedAt: KnowledgeBaseCrawlSchema.updatedAt });
+
+    return row?.updatedAt ?? null;
+  },
+
+  async setCrawlPages(crawlId, pageUrls) {
+    const updated = await db
+      .update(KnowledgeBaseCrawlSchema)
+      .set({ pageUrls, nextPageIndex: 0, updatedAt: new Date() })
+      .where(
+        and(
+          eq(KnowledgeBaseCrawlSchema.id, crawlId),
+          eq(KnowledgeBaseCrawlSchema.status, CRAWL_STATUS_RUNNING),
+          isNull(KnowledgeBaseCrawlSchema.pageUrls),
+        ),
+      )
+      .returning({ id: KnowledgeBaseCrawlSchema.id });
+
+    return updated.length > 0;
+  },
+
+  async recordCrawlPage(crawlId, pageIndex, result) {
+    const counter = (
+      {
+        imported: "pagesImported",
+        skipped: "pagesSkipped",
+        failed: "pagesFailed",
+      } as const
+    )[result];
+
+    const updated = await db
+      .update(KnowledgeBaseCrawlSchema)
+      .set({
+        nextPageIndex: pageIndex + 1,
+        [counter]: sql`${KnowledgeBaseCrawlSchema[counter]} + 1`,
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(KnowledgeBaseCrawlSchema.id, crawlId),
+          eq(KnowledgeBaseCrawlSchema.nextPageIndex, pageIndex),
+          eq(KnowledgeBaseCrawlSchema.status, CRAWL_STATUS_RUNNING),
+        ),
+      )
+      .returning({ id: KnowledgeBaseCrawlSchema.id });
+
+    return updated.length > 0;
+  },
+
+  async releaseCrawl(crawlId) {
+    await db
+      .update(KnowledgeBaseCrawlSchema)
+      .set({ status: CRAWL_STATUS_PENDING, updatedAt: new Date() })
+      .where(
+        and(
+          eq(KnowledgeBaseCrawlSchema.id, crawlId),
+          eq(KnowledgeBaseCrawlSchema.status, CRAWL_STATUS_RUNNING),
+        ),
+      );
+  },
+
+  async finishCrawl(crawlId, error) {
+    const now = new Date();
+    await db
+      .update(KnowledgeBaseCrawlSchema)
+      .set({
+        status: error ? "failed" : "completed",
+        error: error ?? null,
+        completedAt: now,
+        updatedAt: now,
+      })
+      .where(eq(KnowledgeBaseCrawlSchema.id, crawlId));
+  },
+
+  async listDocumentSourceUrls(knowledgeBaseId) {
+    const rows = await db
+      .select({ sourceUrl: KnowledgeBaseDocumentSchema.sourceUrl })
+      .from(KnowledgeBaseDocumentSchema)
+      .where(
+        and(
+          eq(KnowledgeBaseDocumentSchema.knowledgeBaseId, knowledgeBaseId),
+          isNotNull(KnowledgeBaseDocumentSchema.sourceUrl),
+        ),
+      );
+    return new Set(
+      rows.flatMap((row) => (row.sourceUrl ? [row.sourceUrl] : [])),
+    );
+  },
+
+  async searchKnowledgeBaseChunks({
+    knowledgeBaseIds,
+    documentIds,
+    embedding,
+    query,
+    limit = 5,
+  }) {
+    if (!knowledgeBaseIds.length || !embedding.length) {
+      return [];
+    }
+
+    const keywordQuery = query ? buildKeywordQuery(query) : null;
+    const hybridKnowledgeBaseIds = keywordQuery
+      ? await db
+          .select({ id: KnowledgeBaseSchema.id })
+          .from(KnowledgeBaseSchema)
+          .where(
+            and(
+              inArray(KnowledgeBaseSchema.id, knowledgeBaseIds),
+              eq(KnowledgeBaseSchema.searchMode, "hybrid"),
+            ),
+          )
+          .then((rows) => rows.map((row) => row.id))
+      : [];
+
+    if (!keywordQuery || !hybridKnowledgeBaseIds.length) {
+      return searchChunksByVector(
+        searchScope(knowledgeBaseIds, documentIds),
+        embedding,
+        limit,
+      );
+    }
+
+    const candidateLimit = limit * HYBRID_CANDIDATE_MULTIPLIER;
+    const [vectorResults, keywordResults] = await Promise.all([
+      searchChunksByVector(
+        searchScope(knowledgeBaseIds, documentIds),
+        embedding,
+        candidateLimit,
+      ),
+      searchChunksByKeyword(
+        searchScope(hybridKnowledgeBaseIds, documentIds),
+        keywordQuery,
+        embedding,
+        candidateLimit,
+      ),
+    ]);
+
+    return reciprocalRankFusion(
+      [vectorResults, keywordResults],
+      (chunk) => chunk.chunkId,
+      { limit },
+    ).map(({ item }) => item);
   },
 };
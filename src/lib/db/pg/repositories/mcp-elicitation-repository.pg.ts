@@ -0,0 +1,96 @@
+import { and, eq, gt, isNull, lt } from "drizzle-orm";
+import { MCPElicitation, MCPElicitationRepository } from "app-types/mcp";
+import { pgDb as db } from "../db.pg";
+import { McpElicitationSchema } from "../schema.pg";
+
+type McpElicitationEntity = typeof McpElicitationSchema.$inferSelect;
+
+const toElicitation = (row: McpElicitationEntity): MCPElicitation => ({
+  ...row.elicitation,
+  id: row.id,
+  toolCallId: row.toolCallId ?? undefined,
+  createdAt: row.createdAt,
+});
+
+const isPending = () =>
+  and(
+    isNull(McpElicitationSchema.response),
+    gt(McpElicitationSchema.expiresAt, new Date()),
+  );
+
+export const pgMcpElicitationRepository: MCPElicitationRepository = {
+  async insert({ id, userId, toolCallId, createdAt, expiresAt, ...rest }) {
+    // Rows of instances that stopped while waiting are dropped here
+    await db
+      .delete(McpElicitationSchema)
+      .where(lt(McpElicitationSchema.expiresAt, new Date()));
+    await db.insert(McpElicitationSchema).values({
+      id,
+      userId,
+      toolCallId,
+      elicitation: rest,
+      createdAt,
+      expiresAt,
+    });
+  },
+
+  async selectPendingByUserId(userId, toolCallId) {
+    const rows = await db
+      .select()
+      .from(McpElicitationSchema)
+      .where(
+        and(
+          eq(McpElicitationSchema.userId, userId),
+          toolCallId
+            ? eq(McpElicitationSchema.toolCallId, toolCallId)
+            : undefined,
+          isPending(),
+        ),
+      )
+      .orderBy(McpElicitationSchema.createdAt);
+    return rows.map(toElicitation);
+  },
+
+  async selectPendingById(id, userId) {
+    const [row] = await db
+      .select()
+      .from(McpElicitationSchema)
+      .where(
+        and(
+          eq(McpElicitationSchema.id, id),
+          eq(McpElicitationSchema.userId, userId),
+          isPending(),
+        ),
+      );
+    return row ? toElicitation(row) : null;
+  },
+
+  async respond(id, userId, response) {
+    const rows = await db
+      .update(McpElicitationSchema)
+      .set({ response })
+      .where(
+        and(
+          eq(McpElicitationSchema.id, id),
+          eq(McpElicitationSchema.userId, userId),
+          isPending(),
+        ),
+      )
+      .returning({ id: McpElicitationSchema.id });
+    return rows.length > 0;
+  },
+
+  async selectResponse(id) {
+    const [row] = await db
+      .select({ response: McpElicitationSchema.response })
+      .from(McpElicitationSchema)
+      .where(eq(McpElicitationSchema.id, id));
+    return row?.response ?? null;
+  },
+
+  async delete(id) {
+    await db
+      .delete(McpElicitationSchema)
+      .where(eq(McpElicitationSchema.id, id));
+  },
+};
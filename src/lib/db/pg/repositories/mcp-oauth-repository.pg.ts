@@ -3,12 +3,19 @@ import { pgDb as db } from "../db.pg";
 import { McpOAuthSessionSchema } from "../schema.pg";
 import { eq, and, isNotNull, desc, isNull, ne } from "drizzle-orm";
 
+// Sessions of the shared client have no user; users of servers with
+// credential slots authorize their own sessions
+const sessionOwner = (userId?: string) =>
+  userId
+    ? eq(McpOAuthSessionSchema.userId, userId)
+    : isNull(McpOAuthSessionSchema.userId);
+
 // OAuth repository implementation for multi-instance support
 export const pgMcpOAuthRepository: McpOAuthRepository = {
   // 1. Query methods
 
   // Get session with valid tokens (authenticated)
-  getAuthenticatedSession: async (mcpServerId) => {
+  getAuthenticatedSession: async (mcpServerId, userId) => {
     const [session] = await db
       .select()
       .from(McpOAuthSessionSchema)
@@ -16,6 +23,7 @@ export const pgMcpOAuthRepository: McpOAuthRepository = {
         and(
           eq(McpOAuthSessionSchema.mcpServerId, mcpServerId),
           isNotNull(McpOAuthSessionSchema.tokens),
+          sessionOwner(userId),
         ),
       )
       .orderBy(desc(McpOAuthSessionSchema.updatedAt))
@@ -75,7 +83,7 @@ export const pgMcpOAuthRepository: McpOAuthRepository = {
     return session as McpOAuthSession;
   },
 
-  saveTokensAndCleanup: async (state, mcpServerId, data) => {
+  saveTokensAndCleanup: async (state, mcpServerId, data, userId) => {
     const [session] = await db
       .update(McpOAuthSessionSchema)
       .set({
@@ -92,6 +100,7 @@ export const pgMcpOAuthRepository: McpOAuthRepository = {
           eq(McpOAuthSessionSchema.mcpServerId, mcpServerId),
           isNull(McpOAuthSessionSchema.tokens),
           ne(McpOAuthSessionSchema.state, state),
+          sessionOwner(userId),
         ),
       );
 
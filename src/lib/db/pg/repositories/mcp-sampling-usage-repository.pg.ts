@@ -0,0 +1,47 @@
+import { and, eq, gte, lt, sql, sum } from "drizzle-orm";
+import { MCPSamplingUsageRepository } from "app-types/mcp";
+import { pgDb as db } from "../db.pg";
+import { McpSamplingUsageSchema } from "../schema.pg";
+
+export const pgMcpSamplingUsageRepository: MCPSamplingUsageRepository = {
+  async reserve(serverId, { budget, maxTokens, since }) {
+    return db.transaction(async (tx) => {
+      // Reservations of a server wait for each other, so they cannot
+      // overspend between reading the total and inserting
+      await tx.execute(
+        sql`select pg_advisory_xact_lock(hashtext(${`mcp-sampling-${serverId}`}))`,
+      );
+      await tx
+        .delete(McpSamplingUsageSchema)
+        .where(
+          and(
+            eq(McpSamplingUsageSchema.serverId, serverId),
+            lt(McpSamplingUsageSchema.createdAt, since),
+          ),
+        );
+      const [{ spent }] = await tx
+        .select({ spent: sum(McpSamplingUsageSchema.tokens) })
+        .from(McpSamplingUsageSchema)
+        .where(
+          and(
+            eq(McpSamplingUsageSchema.serverId, serverId),
+            gte(McpSamplingUsageSchema.createdAt, since),
+          ),
+        );
+      const tokens = Math.min(maxTokens, budget - Number(spent ?? 0));
+      if (tokens <= 0) return null;
+      const [row] = await tx
+        .insert(McpSamplingUsageSchema)
+        .values({ serverId, tokens })
+        .returning({ id: McpSamplingUsageSchema.id });
+      return { id: row.id, tokens };
+    });
+  },
+
+  async settle(id, tokens) {
+    await db
+      .update(McpSamplingUsageSchema)
+      .set({ tokens })
+      .where(eq(McpSamplingUsageSchema.id, id));
+  },
+};
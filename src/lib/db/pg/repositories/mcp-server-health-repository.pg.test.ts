@@ -0,0 +1,51 @@
+import { eq } from "drizzle-orm";
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("../db.pg", async () => {
+  const { createTestDb } = await import("../test-db.pg");
+  return { pgDb: await createTestDb() };
+});
+
+const { pgDb: db } = await import("../db.pg");
+const { McpServerSchema } = await import("../schema.pg");
+const { pgMcpServerHealthRepository: repository } = await import(
+  "./mcp-server-health-repository.pg"
+);
+
+const record = (consecutiveFailures: number) => ({
+  state: "unhealthy" as const,
+  checkedAt: 1000,
+  trackedMs: 1000,
+  healthyMs: 0,
+  consecutiveFailures,
+  errors: [{ at: 1000, message: "ECONNREFUSED" }],
+  toolCalls: [],
+});
+
+async function createServer() {
+  const [server] = await db
+    .insert(McpServerSchema)
+    .values({ name: "github", config: { url: "https://a.dev/mcp" } })
+    .returning();
+  return server;
+}
+
+describe("pgMcpServerHealthRepository", () => {
+  it("should keep the latest record of every server", async () => {
+    const server = await createServer();
+
+    await repository.upsert(server.id, record(1));
+    await repository.upsert(server.id, record(2));
+
+    expect((await repository.selectAll())[server.id]).toEqual(record(2));
+  });
+
+  it("should drop the record with its server", async () => {
+    const server = await createServer();
+    await repository.upsert(server.id, record(1));
+
+    await db.delete(McpServerSchema).where(eq(McpServerSchema.id, server.id));
+
+    expect(await repository.selectAll()).not.toHaveProperty(server.id);
+  });
+});
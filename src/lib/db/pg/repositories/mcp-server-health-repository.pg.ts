@@ -0,0 +1,20 @@
+import { MCPServerHealthRepository } from "app-types/mcp";
+import { pgDb as db } from "../db.pg";
+import { McpServerHealthSchema } from "../schema.pg";
+
+export const pgMcpServerHealthRepository: MCPServerHealthRepository = {
+  async selectAll() {
+    const rows = await db.select().from(McpServerHealthSchema);
+    return Object.fromEntries(rows.map((row) => [row.mcpServerId, row.record]));
+  },
+
+  async upsert(mcpServerId, record) {
+    await db
+      .insert(McpServerHealthSchema)
+      .values({ mcpServerId, record })
+      .onConflictDoUpdate({
+        target: McpServerHealthSchema.mcpServerId,
+        set: { record, updatedAt: new Date() },
+      });
+  },
+};
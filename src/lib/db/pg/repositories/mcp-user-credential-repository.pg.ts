@@ -0,0 +1,54 @@
+import { and, eq } from "drizzle-orm";
+import { MCPUserCredentialRepository } from "app-types/mcp";
+import { decryptSecret, encryptSecret } from "lib/secret-encryption";
+import { pgDb as db } from "../db.pg";
+import { McpServerUserCredentialSchema } from "../schema.pg";
+
+export const pgMcpUserCredentialRepository: MCPUserCredentialRepository = {
+  async selectValues(mcpServerId, userId) {
+    const [row] = await db
+      .select({ values: McpServerUserCredentialSchema.values })
+      .from(McpServerUserCredentialSchema)
+      .where(
+        and(
+          eq(McpServerUserCredentialSchema.mcpServerId, mcpServerId),
+          eq(McpServerUserCredentialSchema.userId, userId),
+        ),
+      );
+    if (!row) return null;
+    return JSON.parse(decryptSecret(row.values)) as Record<string, string>;
+  },
+
+  async selectServerIdsByUserId(userId) {
+    const rows = await db
+      .select({ mcpServerId: McpServerUserCredentialSchema.mcpServerId })
+      .from(McpServerUserCredentialSchema)
+      .where(eq(McpServerUserCredentialSchema.userId, userId));
+    return rows.map((row) => row.mcpServerId);
+  },
+
+  async upsertValues(mcpServerId, userId, values) {
+    const encrypted = encryptSecret(JSON.stringify(values));
+    await db
+      .insert(McpServerUserCredentialSchema)
+      .values({ mcpServerId, userId, values: encrypted })
+      .onConflictDoUpdate({
+        target: [
+          McpServerUserCredentialSchema.mcpServerId,
+          McpServerUserCredentialSchema.userId,
+        ],
+        set: { values: encrypted, updatedAt: new Date() },
+      });
+  },
+
+  async deleteValues(mcpServerId, userId) {
+    await db
+      .delete(McpServerUserCredentialSchema)
+      .where(
+        and(
+          eq(McpServerUserCredentialSchema.mcpServerId, mcpServerId),
+          eq(McpServerUserCredentialSchema.userId, userId),
+        ),
+      );
+  },
+};
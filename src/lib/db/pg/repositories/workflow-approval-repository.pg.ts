@@ -0,0 +1,95 @@
+import { and, asc, desc, eq, getTableColumns, inArray } from "drizzle-orm";
+import { pgDb } from "../db.pg";
+import {
+  UserSchema,
+  WorkflowApprovalSchema,
+  WorkflowRunSchema,
+  WorkflowSchema,
+} from "../schema.pg";
+import {
+  WorkflowApproval,
+  WorkflowApprovalRepository,
+} from "app-types/workflow";
+
+export const pgWorkflowApprovalRepository: WorkflowApprovalRepository = {
+  async selectApprovalById(id) {
+    const [row] = await pgDb
+      .select({
+        ...getTableColumns(WorkflowApprovalSchema),
+        workflowName: WorkflowSchema.name,
+        workflowIcon: WorkflowSchema.icon,
+      })
+      .from(WorkflowApprovalSchema)
+      .innerJoin(
+        WorkflowSchema,
+        eq(WorkflowApprovalSchema.workflowId, WorkflowSchema.id),
+      )
+      .where(eq(WorkflowApprovalSchema.id, id));
+    return (row as WorkflowApproval) ?? null;
+  },
+
+  async selectPendingApprovalsByUserId(userId) {
+    const rows = await pgDb
+      .select({
+        ...getTableColumns(WorkflowApprovalSchema),
+        workflowName: WorkflowSchema.name,
+        workflowIcon: WorkflowSchema.icon,
+      })
+      .from(WorkflowApprovalSchema)
+      .innerJoin(
+        WorkflowSchema,
+        eq(WorkflowApprovalSchema.workflowId, WorkflowSchema.id),
+      )
+      // Approvals of runs that already ended have nothing left to decide
+      .innerJoin(
+        WorkflowRunSchema,
+        eq(WorkflowApprovalSchema.runId, WorkflowRunSchema.id),
+      )
+      .where(
+        and(
+          eq(WorkflowApprovalSchema.approverUserId, userId),
+          eq(WorkflowApprovalSchema.status, "pending"),
+          inArray(WorkflowRunSchema.status, ["waiting", "running"]),
+        ),
+      )
+      .orderBy(desc(WorkflowApprovalSchema.createdAt));
+    return rows as WorkflowApproval[];
+  },
+
+  async selectApprovalsByRunId(runId) {
+    const rows = await pgDb
+      .select({
+        ...getTableColumns(WorkflowApprovalSchema),
+        decidedByUserName: UserSchema.name,
+      })
+      .from(WorkflowApprovalSchema)
+      .leftJoin(
+        UserSchema,
+        eq(WorkflowApprovalSchema.decidedByUserId, UserSchema.id),
+      )
+      .where(eq(WorkflowApprovalSchema.runId, runId))
+      .orderBy(asc(WorkflowApprovalSchema.createdAt));
+    return rows as WorkflowApproval[];
+  },
+
+  async decideApproval(id, decision) {
+    const [row] = await pgDb
+      .update(WorkflowApprovalSchema)
+      .set({ ...decision, decidedAt: new Date() })
+      .where(
+        and(
+          eq(WorkflowApprovalSchema.id, id),
+          eq(WorkflowApprovalSchema.status, "pending"),
+          inArray(
+            WorkflowApprovalSchema.runId,
+            pgDb
+              .select({ id: WorkflowRunSchema.id })
+              .from(WorkflowRunSchema)
+              .where(inArray(WorkflowRunSchema.status, ["waiting", "running"])),
+          ),
+        ),
+      )
+      .returning();
+    return (row as WorkflowApproval) ?? null;
+  },
+};
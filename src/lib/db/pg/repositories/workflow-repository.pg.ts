@@ -1,10 +1,11 @@
-import { and, desc, eq, inArray, not, or, sql } from "drizzle-orm";
+import { and, desc, eq, inArray, isNotNull, not, or, sql } from "drizzle-orm";
 import { pgDb } from "../db.pg";
 import {
   UserSchema,
   WorkflowEdgeSchema,
   WorkflowNodeDataSchema,
   WorkflowSchema,
+  WorkflowVersionSchema,
 } from "../schema.pg";
 import {
   DBWorkflow,
@@ -24,41 +25,31 @@ import { ObjectJsonSchema7 } from "app-types/util";
 export const pgWorkflowRepository: WorkflowRepository = {
   async selectToolByIds(ids) {
     if (!ids.length) return [];
+    // Tools expose the Input node of the published version, not the draft.
     const rows = await pgDb
       .select({
         id: WorkflowSchema.id,
         name: WorkflowSchema.name,
         description: WorkflowSchema.description,
-        schema: WorkflowNodeDataSchema.nodeConfig,
+        nodes: WorkflowVersionSchema.nodes,
       })
       .from(WorkflowSchema)
       .innerJoin(
-        WorkflowNodeDataSchema,
+        WorkflowVersionSchema,
         and(
-          eq(WorkflowNodeDataSchema.workflowId, WorkflowSchema.id),
-          eq(WorkflowNodeDataSchema.kind, NodeKind.Input),
+          eq(WorkflowVersionSchema.workflowId, WorkflowSchema.id),
+          eq(WorkflowVersionSchema.version, WorkflowSchema.publishedVersion),
         ),
       )
-      .where(
-        and(
-          inArray(WorkflowSchema.id, ids),
-          eq(WorkflowSchema.isPublished, true),
-        ),
-      );
-    return rows.map(
-      (data) =>
-        ({
-          ...data,
-          schema:
-            data.schema?.outputSchema ||
-            structuredClone(defaultObjectJsonSchema),
-        }) as {
-          id: string;
-          name: string;
-          description?: string;
-          schema: ObjectJsonSchema7;
-        },
-    );
+      .where(inArray(WorkflowSchema.id, ids));
+    return rows.map(({ nodes, ...data }) => ({
+      ...data,
+      description: data.description ?? undefined,
+      schema:
+        (nodes.find((node) => node.kind == NodeKind.Input)?.nodeConfig
+          .outputSchema as ObjectJsonSchema7 | undefined) ||
+        structuredClone(defaultObjectJsonSchema),
+    }));
   },
 
   async selectExecuteAbility(userId) {
@@ -79,7 +70,7 @@ export const pgWorkflowRepository: WorkflowRepository = {
       .innerJoin(UserSchema, eq(WorkflowSchema.userId, UserSchema.id))
       .where(
         and(
-          eq(WorkflowSchema.isPublished, true),
+          isNotNull(WorkflowSchema.publishedVersion),
           or(
             eq(WorkflowSchema.userId, userId),
             not(eq(WorkflowSchema.visibility, "private")),
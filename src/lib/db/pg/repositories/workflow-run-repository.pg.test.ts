@@ -0,0 +1,98 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("../db.pg", async () => {
+  const { createTestDb } = await import("../test-db.pg");
+  return { pgDb: await createTestDb() };
+});
+
+const { pgDb: db } = await import("../db.pg");
+const { UserSchema } = await import("../schema.pg");
+const { pgWorkflowRepository } = await import("./workflow-repository.pg");
+const { pgWorkflowApprovalRepository: approvalRepository } = await import(
+  "./workflow-approval-repository.pg"
+);
+const { pgWorkflowRunRepository: repository } = await import(
+  "./workflow-run-repository.pg"
+);
+
+const nodeId = crypto.randomUUID();
+const snapshot = {
+  nodes: [],
+  edges: [],
+  context: { workflowIds: [] },
+  query: {},
+  inputs: {},
+  outputs: {},
+  errors: {},
+  approvals: {},
+  waitingNodeIds: [nodeId],
+  branchWaits: {},
+};
+
+async function startRun() {
+  const [user] = await db
+    .insert(UserSchema)
+    .values({ name: "Owner", email: `${crypto.randomUUID()}@example.com` })
+    .returning();
+  const workflow = await pgWorkflowRepository.save({
+    name: "Digest",
+    userId: user.id,
+  });
+  const runId = crypto.randomUUID();
+  await repository.insertRun({
+    id: runId,
+    workflowId: workflow.id,
+    userId: user.id,
+    trigger: "editor",
+    input: {},
+    startedAt: new Date(),
+  });
+  const request = {
+    workflowId: workflow.id,
+    nodeId,
+    nodeName: "Approval",
+    message: null,
+    approverUserId: user.id,
+  };
+  return { runId, user, request };
+}
+
+describe("pgWorkflowRunRepository suspendRun", () => {
+  it("should request the approvals together with the waiting run", async () => {
+    const { runId, user, request } = await startRun();
+    expect(await approvalRepository.selectApprovalsByRunId(runId)).toEqual([]);
+
+    await repository.suspendRun(runId, snapshot, [request]);
+
+    const [approval] = await approvalRepository.selectApprovalsByRunId(runId);
+    expect(approval).toMatchObject({ ...request, status: "pending" });
+    expect(await repository.selectRunById(runId)).toMatchObject({
+      status: "waiting",
+    });
+    expect(
+      await approvalRepository.decideApproval(approval.id, {
+        status: "approved",
+        decidedByUserId: user.id,
+      }),
+    ).toMatchObject({ status: "approved" });
+  });
+
+  it("should not decide approvals of a run that ended", async () => {
+    const { runId, user, request } = await startRun();
+    await repository.suspendRun(runId, snapshot, [request]);
+    await repository.finishRun(runId, {
+      status: "fail",
+      output: null,
+      error: null,
+      endedAt: new Date(),
+    });
+
+    const [approval] = await approvalRepository.selectApprovalsByRunId(runId);
+    expect(
+      await approvalRepository.decideApproval(approval.id, {
+        status: "approved",
+        decidedByUserId: user.id,
+      }),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,114 @@
+import { and, asc, desc, eq, getTableColumns } from "drizzle-orm";
+import { pgDb } from "../db.pg";
+import {
+  UserSchema,
+  WorkflowApprovalSchema,
+  WorkflowNodeRunSchema,
+  WorkflowRunSchema,
+} from "../schema.pg";
+import {
+  WorkflowNodeRun,
+  WorkflowRun,
+  WorkflowRunRepository,
+  WorkflowRunSnapshot,
+} from "app-types/workflow";
+
+const DEFAULT_RUN_LIMIT = 50;
+
+// The snapshot is only read back to resume a run
+const { snapshot: _snapshot, ...runColumns } =
+  getTableColumns(WorkflowRunSchema);
+
+export const pgWorkflowRunRepository: WorkflowRunRepository = {
+  async insertRun(run) {
+    await pgDb.insert(WorkflowRunSchema).values({
+      ...run,
+      status: "running",
+    });
+  },
+
+  async insertNodeRun(nodeRun) {
+    await pgDb.insert(WorkflowNodeRunSchema).values(nodeRun);
+  },
+
+  async finishRun(id, result) {
+    await pgDb
+      .update(WorkflowRunSchema)
+      .set({ ...result, snapshot: null })
+      .where(eq(WorkflowRunSchema.id, id));
+  },
+
+  async suspendRun(id, snapshot, approvals = []) {
+    await pgDb.transaction(async (tx) => {
+      if (approvals.length) {
+        await tx
+          .insert(WorkflowApprovalSchema)
+          .values(approvals.map((approval) => ({ ...approval, runId: id })));
+      }
+      await tx
+        .update(WorkflowRunSchema)
+        .set({ status: "waiting", snapshot })
+        .where(eq(WorkflowRunSchema.id, id));
+    });
+  },
+
+  async claimWaitingRun(id) {
+    // The status check makes the claim atomic between concurrent resumes
+    const [run] = await pgDb
+      .update(WorkflowRunSchema)
+      .set({ status: "running" })
+      .where(
+        and(
+          eq(WorkflowRunSchema.id, id),
+          eq(WorkflowRunSchema.status, "waiting"),
+        ),
+      )
+      .returning();
+    if (!run?.snapshot) return null;
+    return run as WorkflowRun & { snapshot: WorkflowRunSnapshot };
+  },
+
+  async selectRunsByWorkflowId(workflowId, option) {
+    const rows = await pgDb
+      .select({
+        ...runColumns,
+        userName: UserSchema.name,
+      })
+      .from(WorkflowRunSchema)
+      .leftJoin(UserSchema, eq(WorkflowRunSchema.userId, UserSchema.id))
+      .where(
+        and(
+          eq(WorkflowRunSchema.workflowId, workflowId),
+          option?.userId
+            ? eq(WorkflowRunSchema.userId, option.userId)
+            : undefined,
+        ),
+      )
+      .orderBy(desc(WorkflowRunSchema.startedAt))
+      .limit(option?.limit ?? DEFAULT_RUN_LIMIT);
+    return rows as WorkflowRun[];
+  },
+
+  async selectRunById(id) {
+    const [run] = await pgDb
+      .select({
+        ...runColumns,
+        userName: UserSchema.name,
+      })
+      .from(WorkflowRunSchema)
+      .leftJoin(UserSchema, eq(WorkflowRunSchema.userId, UserSchema.id))
+      .where(eq(WorkflowRunSchema.id, id));
+    if (!run) return null;
+
+    const nodeRuns = await pgDb
+      .select()
+      .from(WorkflowNodeRunSchema)
+      .where(eq(WorkflowNodeRunSchema.runId, id))
+      .orderBy(asc(WorkflowNodeRunSchema.startedAt));
+
+    return {
+      ...(run as WorkflowRun),
+      nodeRuns: nodeRuns as WorkflowNodeRun[],
+    };
+  },
+};
@@ -0,0 +1,95 @@
+import { and, asc, eq, getTableColumns, lte } from "drizzle-orm";
+import { pgDb } from "../db.pg";
+import { WorkflowRunSchema, WorkflowScheduleSchema } from "../schema.pg";
+import {
+  WorkflowSchedule,
+  WorkflowScheduleRepository,
+} from "app-types/workflow";
+
+const selectSchedules = () =>
+  pgDb
+    .select({
+      ...getTableColumns(WorkflowScheduleSchema),
+      lastRunStatus: WorkflowRunSchema.status,
+    })
+    .from(WorkflowScheduleSchema)
+    .leftJoin(
+      WorkflowRunSchema,
+      eq(WorkflowScheduleSchema.lastRunId, WorkflowRunSchema.id),
+    );
+
+export const pgWorkflowScheduleRepository: WorkflowScheduleRepository = {
+  async selectSchedulesByWorkflowId(workflowId) {
+    const rows = await selectSchedules()
+      .where(eq(WorkflowScheduleSchema.workflowId, workflowId))
+      .orderBy(asc(WorkflowScheduleSchema.createdAt));
+    return rows as WorkflowSchedule[];
+  },
+
+  async selectScheduleById(id) {
+    const [row] = await selectSchedules().where(
+      eq(WorkflowScheduleSchema.id, id),
+    );
+    return (row as WorkflowSchedule) ?? null;
+  },
+
+  async insertSchedule(schedule) {
+    const [row] = await pgDb
+      .insert(WorkflowScheduleSchema)
+      .values(schedule)
+      .returning();
+    return row as WorkflowSchedule;
+  },
+
+  async updateSchedule(id, schedule) {
+    await pgDb
+      .update(WorkflowScheduleSchema)
+      .set({ ...schedule, updatedAt: new Date() })
+      .where(eq(WorkflowScheduleSchema.id, id));
+    return this.selectScheduleById(id);
+  },
+
+  async deleteSchedule(id) {
+    await pgDb
+      .delete(WorkflowScheduleSchema)
+      .where(eq(WorkflowScheduleSchema.id, id));
+  },
+
+  async claimDueSchedule(now, getNextRunAt) {
+    const [due] = await pgDb
+      .select()
+      .from(WorkflowScheduleSchema)
+      .where(
+        and(
+          eq(WorkflowScheduleSchema.enabled, true),
+          lte(WorkflowScheduleSchema.nextRunAt, now),
+        ),
+      )
+      .orderBy(asc(WorkflowScheduleSchema.nextRunAt))
+      .limit(1);
+
+    if (!due?.nextRunAt) return null;
+
+    // Moving the next run forward claims the schedule; a concurrent worker
+    // that read the same row no longer matches the old timestamp.
+    const [claimed] = await pgDb
+      .update(WorkflowScheduleSchema)
+      .set({ nextRunAt: getNextRunAt(due as WorkflowSchedule) })
+      .where(
+        and(
+          eq(WorkflowScheduleSchema.id, due.id),
+          eq(WorkflowScheduleSchema.nextRunAt, due.nextRunAt),
+        ),
+      )
+      .returning();
+
+    return (claimed as WorkflowSchedule) ?? null;
+  },
+
+  async recordScheduleRun(id, run) {
+    await pgDb
+      .update(WorkflowScheduleSchema)
+      .set({ lastRunId: run.runId, lastRunAt: run.startedAt })
+      .where(eq(WorkflowScheduleSchema.id, id));
+  },
+};
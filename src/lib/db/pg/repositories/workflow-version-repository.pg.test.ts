@@ -0,0 +1,66 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("../db.pg", async () => {
+  const { createTestDb } = await import("../test-db.pg");
+  return { pgDb: await createTestDb() };
+});
+
+const { pgDb: db } = await import("../db.pg");
+const { UserSchema } = await import("../schema.pg");
+const { pgWorkflowRepository } = await import("./workflow-repository.pg");
+const { pgWorkflowVersionRepository: repository } = await import(
+  "./workflow-version-repository.pg"
+);
+
+async function createPublishedWorkflow() {
+  const [user] = await db
+    .insert(UserSchema)
+    .values({ name: "Owner", email: `${crypto.randomUUID()}@example.com` })
+    .returning();
+  const workflow = await pgWorkflowRepository.save({
+    name: "Digest",
+    userId: user.id,
+    visibility: "public",
+  });
+  await repository.publish(workflow.id, user.id);
+  return { workflow, user };
+}
+
+describe("pgWorkflowVersionRepository unpublish", () => {
+  it("should stop every caller from running the unpublished workflow", async () => {
+    const { workflow, user } = await createPublishedWorkflow();
+    expect(
+      await repository.selectPublishedStructure(workflow.id),
+    ).not.toBeNull();
+
+    await repository.unpublish(workflow.id);
+
+    expect(await pgWorkflowRepository.selectById(workflow.id)).toMatchObject({
+      isPublished: false,
+      publishedVersion: null,
+    });
+    expect(await repository.selectPublishedStructure(workflow.id)).toBeNull();
+    expect(await pgWorkflowRepository.selectToolByIds([workflow.id])).toEqual(
+      [],
+    );
+    expect(
+      (await pgWorkflowRepository.selectExecuteAbility(user.id)).map(
+        (summary) => summary.id,
+      ),
+    ).not.toContain(workflow.id);
+    // Versions stay available to publish again or roll back to
+    expect(await repository.selectVersions(workflow.id)).toHaveLength(1);
+  });
+
+  it("should pin a new version when published again", async () => {
+    const { workflow, user } = await createPublishedWorkflow();
+    await repository.unpublish(workflow.id);
+
+    await repository.publish(workflow.id, user.id);
+
+    expect(await pgWorkflowRepository.selectById(workflow.id)).toMatchObject({
+      isPublished: true,
+      publishedVersion: 2,
+    });
+  });
+});
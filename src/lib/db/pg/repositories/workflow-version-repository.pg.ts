@@ -0,0 +1,182 @@
+import { and, desc, eq, getTableColumns, max } from "drizzle-orm";
+import { pgDb } from "../db.pg";
+import {
+  UserSchema,
+  WorkflowEdgeSchema,
+  WorkflowNodeDataSchema,
+  WorkflowSchema,
+  WorkflowVersionSchema,
+} from "../schema.pg";
+import {
+  DBWorkflow,
+  WorkflowVersion,
+  WorkflowVersionRepository,
+  WorkflowVersionSummary,
+} from "app-types/workflow";
+import { NodeKind } from "lib/ai/workflow/workflow.interface";
+
+type PgTransactionClient = Parameters<
+  Parameters<typeof pgDb.transaction>[0]
+>[0];
+
+async function insertNextVersion(
+  tx: PgTransactionClient,
+  workflowId: string,
+  userId: string,
+): Promise<WorkflowVersion> {
+  const [nodes, edges, [latest]] = await Promise.all([
+    tx
+      .select()
+      .from(WorkflowNodeDataSchema)
+      .where(eq(WorkflowNodeDataSchema.workflowId, workflowId)),
+    tx
+      .select()
+      .from(WorkflowEdgeSchema)
+      .where(eq(WorkflowEdgeSchema.workflowId, workflowId)),
+    tx
+      .select({ version: max(WorkflowVersionSchema.version) })
+      .from(WorkflowVersionSchema)
+      .where(eq(WorkflowVersionSchema.workflowId, workflowId)),
+  ]);
+
+  const [row] = await tx
+    .insert(WorkflowVersionSchema)
+    .values({
+      workflowId,
+      version: (latest?.version ?? 0) + 1,
+      nodes: nodes as WorkflowVersion["nodes"],
+      edges: edges as WorkflowVersion["edges"],
+      publishedByUserId: userId,
+    })
+    .returning();
+
+  await tx
+    .update(WorkflowSchema)
+    .set({
+      isPublished: true,
+      publishedVersion: row.version,
+      updatedAt: new Date(),
+    })
+    .where(eq(WorkflowSchema.id, workflowId));
+
+  return row as WorkflowVersion;
+}
+
+export const pgWorkflowVersionRepository: WorkflowVersionRepository = {
+  async publish(workflowId, userId) {
+    return pgDb.transaction((tx) => insertNextVersion(tx, workflowId, userId));
+  },
+
+  async unpublish(workflowId) {
+    await pgDb
+      .update(WorkflowSchema)
+      .set({
+        isPublished: false,
+        publishedVersion: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(WorkflowSchema.id, workflowId));
+  },
+
+  async rollback(workflowId, version, userId) {
+    const target = await this.selectVersion(workflowId, version);
+    if (!target) return null;
+
+    return pgDb.transaction(async (tx) => {
+      // Edges reference nodes, so they go first and come back last.
+      await tx
+        .delete(WorkflowEdgeSchema)
+        .where(eq(WorkflowEdgeSchema.workflowId, workflowId));
+      await tx
+        .delete(WorkflowNodeDataSchema)
+        .where(eq(WorkflowNodeDataSchema.workflowId, workflowId));
+
+      const now = new Date();
+      if (target.nodes.length) {
+        await tx.insert(WorkflowNodeDataSchema).values(
+          target.nodes.map((node) => ({
+            ...node,
+            createdAt: new Date(node.createdAt),
+            updatedAt: now,
+          })),
+        );
+      }
+      if (target.edges.length) {
+        await tx.insert(WorkflowEdgeSchema).values(
+          target.edges.map((edge) => ({
+            ...edge,
+            createdAt: new Date(edge.createdAt),
+          })),
+        );
+      }
+      return insertNextVersion(tx, workflowId, userId);
+    });
+  },
+
+  async selectVersions(workflowId) {
+    const {
+      nodes: _nodes,
+      edges: _edges,
+      ...columns
+    } = getTableColumns(WorkflowVersionSchema);
+    const rows = await pgDb
+      .select({
+        ...columns,
+        publishedByUserName: UserSchema.name,
+      })
+      .from(WorkflowVersionSchema)
+      .leftJoin(
+        UserSchema,
+        eq(WorkflowVersionSchema.publishedByUserId, UserSchema.id),
+      )
+      .where(eq(WorkflowVersionSchema.workflowId, workflowId))
+      .orderBy(desc(WorkflowVersionSchema.version));
+    return rows as WorkflowVersionSummary[];
+  },
+
+  async selectVersion(workflowId, version) {
+    const [row] = await pgDb
+      .select({
+        ...getTableColumns(WorkflowVersionSchema),
+        publishedByUserName: UserSchema.name,
+      })
+      .from(WorkflowVersionSchema)
+      .leftJoin(
+        UserSchema,
+        eq(WorkflowVersionSchema.publishedByUserId, UserSchema.id),
+      )
+      .where(
+        and(
+          eq(WorkflowVersionSchema.workflowId, workflowId),
+          eq(WorkflowVersionSchema.version, version),
+        ),
+      );
+    return (row as WorkflowVersion) ?? null;
+  },
+
+  async selectPublishedStructure(workflowId, opt) {
+    const [row] = await pgDb
+      .select({
+        workflow: WorkflowSchema,
+        nodes: WorkflowVersionSchema.nodes,
+        edges: WorkflowVersionSchema.edges,
+      })
+      .from(WorkflowSchema)
+      .innerJoin(
+        WorkflowVersionSchema,
+        and(
+          eq(WorkflowVersionSchema.workflowId, WorkflowSchema.id),
+          eq(WorkflowVersionSchema.version, WorkflowSchema.publishedVersion),
+        ),
+      )
+      .where(eq(WorkflowSchema.id, workflowId));
+    if (!row) return null;
+    return {
+      ...(row.workflow as DBWorkflow),
+      nodes: opt?.ignoreNote
+        ? row.nodes.filter((node) => node.kind != NodeKind.Note)
+        : row.nodes,
+      edges: row.edges,
+    };
+  },
+};
@@ -0,0 +1,38 @@
+import { eq } from "drizzle-orm";
+import { pgDb } from "../db.pg";
+import { WorkflowWebhookSchema } from "../schema.pg";
+import { WorkflowWebhook, WorkflowWebhookRepository } from "app-types/workflow";
+
+export const pgWorkflowWebhookRepository: WorkflowWebhookRepository = {
+  async selectByWorkflowId(workflowId) {
+    const [row] = await pgDb
+      .select()
+      .from(WorkflowWebhookSchema)
+      .where(eq(WorkflowWebhookSchema.workflowId, workflowId));
+    return (row as WorkflowWebhook) ?? null;
+  },
+
+  async insert(webhook) {
+    const [row] = await pgDb
+      .insert(WorkflowWebhookSchema)
+      .values(webhook)
+      .returning();
+    return row as WorkflowWebhook;
+  },
+
+  async update(workflowId, webhook) {
+    const [row] = await pgDb
+      .update(WorkflowWebhookSchema)
+      .set({ ...webhook, updatedAt: new Date() })
+      .where(eq(WorkflowWebhookSchema.workflowId, workflowId))
+      .returning();
+    return (row as WorkflowWebhook) ?? null;
+  },
+
+  async markCalled(workflowId, calledAt) {
+    await pgDb
+      .update(WorkflowWebhookSchema)
+      .set({ lastCalledAt: calledAt })
+      .where(eq(WorkflowWebhookSchema.workflowId, workflowId));
+  },
+};
@@ -1,6 +1,11 @@
 import { Agent } from "app-types/agent";
 import { UserPreferences } from "app-types/user";
-import { MCPServerConfig } from "app-types/mcp";
+import {
+  MCPElicitation,
+  MCPElicitationResponse,
+  MCPServerConfig,
+  MCPServerHealthRecord,
+} from "app-types/mcp";
 import { sql } from "drizzle-orm";
 import {
   pgTable,
@@ -17,9 +22,19 @@ import {
 } from "drizzle-orm/pg-core";
 import { vector } from "drizzle-orm/pg-core/columns/vector_extension/vector";
 import { isNotNull } from "drizzle-orm";
-import { DBWorkflow, DBEdge, DBNode } from "app-types/workflow";
+import {
+  DBWorkflow,
+  DBEdge,
+  DBNode,
+  WorkflowRunError,
+  WorkflowRunSnapshot,
+} from "app-types/workflow";
 import { UIMessage } from "ai";
 import { ChatMetadata } from "app-types/chat";
+import {
+  KnowledgeBaseChunkMetadata,
+  KnowledgeBaseWebSourceOptions,
+} from "app-types/knowledge-base";
 
 export const knowledgeBaseDocumentStatusEnum = pgEnum(
   "knowledge_base_document_status",
@@ -30,6 +45,7 @@ export const embeddingOperationEnum = pgEnum("embedding_usage_operation", [
   "ingest",
   "query",
   "delete",
+  "rerank",
 ]);
 
 export const ChatThreadSchema = pgTable("chat_thread", {
@@ -61,6 +77,9 @@ export const AgentSchema = pgTable("agent", {
     .notNull()
     .references(() => UserSchema.id),
   instructions: json("instructions").$type<Agent["instructions"]>(),
+  knowledgeBaseRerank: json("knowledge_base_rerank").$type<
+    Agent["knowledgeBaseRerank"]
+  >(),
   visibility: varchar("visibility", {
     enum: ["public", "private", "readonly"],
   })
@@ -234,6 +253,20 @@ export const KnowledgeBaseSchema = pgTable(
         onDelete: "set null",
       },
     ),
+    searchMode: varchar("search_mode", {
+      enum: ["vector", "hybrid"],
+    })
+      .notNull()
+      .default("vector"),
+    embeddingProvider: varchar("embedding_provider", {
+      enum: ["openai", "google", "ollama", "openai-compatible"],
+    })
+      .notNull()
+      .default("openai"),
+    embeddingModel: text("embedding_model")
+      .notNull()
+      .default("text-embedding-3-small"),
+    embeddingDimension: integer("embedding_dimension").notNull().default(1536),
     createdAt: timestamp("created_at")
       .notNull()
       .default(sql`CURRENT_TIMESTAMP`),
@@ -280,8 +313,22 @@ export const KnowledgeBaseDocumentSchema = pgTable(
       .default("pending"),
     error: text("error"),
     chunkCount: integer("chunk_count").notNull().default(0),
+    totalChunks: integer("total_chunks").notNull().default(0),
     embeddingTokens: integer("embedding_tokens").notNull().default(0),
     processedAt: timestamp("processed_at"),
+    revision: integer("revision").notNull().default(1),
+    // Revision whose chunks are searchable; a newer revision is embedded
+    // alongside it and swapped in once complete.
+    indexedRevision: integer("indexed_revision"),
+    sourceUrl: text("source_url"),
+    sourceOptions:
+      json("source_options").$type<KnowledgeBaseWebSourceOptions>(),
+    refreshIntervalHours: integer("refresh_interval_hours"),
+    lastCheckedAt: timestamp("last_checked_at"),
+    nextRefreshAt: timestamp("next_refresh_at"),
+    crawlId: uuid("crawl_id").references(() => KnowledgeBaseCrawlSchema.id, {
+      onDelete: "set null",
+    }),
     createdAt: timestamp("created_at")
       .notNull()
       .default(sql`CURRENT_TIMESTAMP`),
@@ -293,6 +340,84 @@ export const KnowledgeBaseDocumentSchema = pgTable(
     unique("knowledge_base_document_storage_key_unique").on(table.storageKey),
     index("knowledge_base_document_kb_idx").on(table.knowledgeBaseId),
     index("knowledge_base_document_status_idx").on(table.status),
+    index("knowledge_base_document_next_refresh_idx").on(table.nextRefreshAt),
+    index("knowledge_base_document_crawl_idx").on(table.crawlId),
+  ],
+);
+
+export const KnowledgeBaseCrawlSchema = pgTable(
+  "knowledge_base_crawl",
+  {
+    id: uuid("id").primaryKey().notNull().defaultRandom(),
+    knowledgeBaseId: uuid("knowledge_base_id")
+      .notNull()
+      .references(() => KnowledgeBaseSchema.id, { onDelete: "cascade" }),
+    createdByUserId: uuid("created_by_user_id").references(
+      () => UserSchema.id,
+      {
+        onDelete: "set null",
+      },
+    ),
+    rootUrl: text("root_url").notNull(),
+    includePatterns: json("include_patterns")
+      .notNull()
+      .$type<string[]>()
+      .default([]),
+    excludePatterns: json("exclude_patterns")
+      .notNull()
+      .$type<string[]>()
+      .default([]),
+    maxPages: integer("max_pages").notNull(),
+    sourceOptions:
+      json("source_options").$type<KnowledgeBaseWebSourceOptions>(),
+    refreshIntervalHours: integer("refresh_interval_hours"),
+    status: varchar("status", {
+      enum: ["pending", "running", "completed", "failed"],
+    })
+      .notNull()
+      .default("pending"),
+    error: text("error"),
+    pageUrls: json("page_urls").$type<string[]>(),
+    nextPageIndex: integer("next_page_index").notNull().default(0),
+    pagesImported: integer("pages_imported").notNull().default(0),
+    pagesSkipped: integer("pages_skipped").notNull().default(0),
+    pagesFailed: integer("pages_failed").notNull().default(0),
+    createdAt: timestamp("created_at")
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+    updatedAt: timestamp("updated_at")
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+    completedAt: timestamp("completed_at"),
+  },
+  (table) => [
+    index("knowledge_base_crawl_kb_idx").on(table.knowledgeBaseId),
+    index("knowledge_base_crawl_status_idx").on(table.status),
+  ],
+);
+
+export const KnowledgeBaseDocumentRevisionSchema = pgTable(
+  "knowledge_base_document_revision",
+  {
+    id: uuid("id").primaryKey().notNull().defaultRandom(),
+    documentId: uuid("document_id")
+      .notNull()
+      .references(() => KnowledgeBaseDocumentSchema.id, {
+        onDelete: "cascade",
+      }),
+    revision: integer("revision").notNull(),
+    checksum: text("checksum"),
+    storageKey: text("storage_key").notNull(),
+    fileSize: integer("file_size").notNull().default(0),
+    createdAt: timestamp("created_at")
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => [
+    unique("knowledge_base_document_revision_unique").on(
+      table.documentId,
+      table.revision,
+    ),
   ],
 );
 
@@ -308,8 +433,10 @@ export const KnowledgeBaseDocumentChunkSchema = pgTable(
     knowledgeBaseId: uuid("knowledge_base_id")
       .notNull()
       .references(() => KnowledgeBaseSchema.id, { onDelete: "cascade" }),
+    revision: integer("revision").notNull().default(1),
     chunkIndex: integer("chunk_index").notNull(),
     content: text("content").notNull(),
+    metadata: json("metadata").$type<KnowledgeBaseChunkMetadata>(),
     embedding: vector("embedding", { dimensions: 1536 }).notNull(),
     createdAt: timestamp("created_at")
       .notNull()
@@ -317,7 +444,19 @@ export const KnowledgeBaseDocumentChunkSchema = pgTable(
   },
   (table) => [
     index("knowledge_base_chunk_document_idx").on(table.documentId),
+    unique("knowledge_base_chunk_document_index_unique").on(
+      table.documentId,
+      table.revision,
+      table.chunkIndex,
+    ),
     index("knowledge_base_chunk_kb_idx").on(table.knowledgeBaseId),
+    index("knowledge_base_chunk_embedding_idx")
+      .using("hnsw", table.embedding.op("vector_cosine_ops"))
+      .with({ m: 16, ef_construction: 64 }),
+    index("knowledge_base_chunk_content_search_idx").using(
+      "gin",
+      sql`to_tsvector('simple', ${table.content})`,
+    ),
   ],
 );
 
@@ -539,6 +678,8 @@ export const WorkflowSchema = pgTable("workflow", {
   icon: json("icon").$type<DBWorkflow["icon"]>(),
   description: text("description"),
   isPublished: boolean("is_published").notNull().default(false),
+  // Version in workflow_version that chat, agents and webhooks run.
+  publishedVersion: integer("published_version"),
   visibility: varchar("visibility", {
     enum: ["public", "private", "readonly"],
   })
@@ -592,6 +733,167 @@ export const WorkflowEdgeSchema = pgTable("workflow_edge", {
   createdAt: timestamp("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
 });
 
+export const WorkflowVersionSchema = pgTable(
+  "workflow_version",
+  {
+    id: uuid("id").primaryKey().notNull().defaultRandom(),
+    workflowId: uuid("workflow_id")
+      .notNull()
+      .references(() => WorkflowSchema.id, { onDelete: "cascade" }),
+    version: integer("version").notNull(),
+    // Immutable snapshot of the structure at publish time
+    nodes: json("nodes").$type<DBNode[]>().notNull(),
+    edges: json("edges").$type<DBEdge[]>().notNull(),
+    publishedByUserId: uuid("published_by_user_id").references(
+      () => UserSchema.id,
+      { onDelete: "set null" },
+    ),
+    createdAt: timestamp("created_at")
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+  },
+  (t) => [unique().on(t.workflowId, t.version)],
+);
+
+export const WorkflowRunSchema = pgTable(
+  "workflow_run",
+  {
+    id: uuid("id").primaryKey().notNull().defaultRandom(),
+    workflowId: uuid("workflow_id")
+      .notNull()
+      .references(() => WorkflowSchema.id, { onDelete: "cascade" }),
+    userId: uuid("user_id").references(() => UserSchema.id, {
+      onDelete: "set null",
+    }),
+    trigger: varchar("trigger", {
+      enum: ["editor", "chat", "schedule", "webhook"],
+    }).notNull(),
+    status: varchar("status", {
+      enum: ["running", "success", "fail", "waiting"],
+    })
+      .notNull()
+      .default("running"),
+    input: json("input"),
+    output: json("output"),
+    error: json("error").$type<WorkflowRunError>(),
+    // Saved while the run waits for approval, to resume it from
+    snapshot: json("snapshot").$type<WorkflowRunSnapshot>(),
+    startedAt: timestamp("started_at").notNull(),
+    endedAt: timestamp("ended_at"),
+    createdAt: timestamp("created_at")
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+  },
+  (t) => [
+    index("workflow_run_workflow_started_idx").on(t.workflowId, t.startedAt),
+  ],
+);
+
+export const WorkflowNodeRunSchema = pgTable(
+  "workflow_node_run",
+  {
+    id: uuid("id").primaryKey().notNull().defaultRandom(),
+    runId: uuid("run_id")
+      .notNull()
+      .references(() => WorkflowRunSchema.id, { onDelete: "cascade" }),
+    // Not a foreign key: the node may be deleted while its runs are kept.
+    nodeId: uuid("node_id").notNull(),
+    nodeName: text("node_name").notNull(),
+    kind: text("kind").notNull(),
+    status: varchar("status", {
+      enum: ["running", "success", "fail", "recovered", "waiting"],
+    }).notNull(),
+    input: json("input"),
+    output: json("output"),
+    error: json("error").$type<WorkflowRunError>(),
+    startedAt: timestamp("started_at").notNull(),
+    endedAt: timestamp("ended_at"),
+  },
+  (t) => [index("workflow_node_run_run_idx").on(t.runId)],
+);
+
+export const WorkflowApprovalSchema = pgTable(
+  "workflow_approval",
+  {
+    id: uuid("id").primaryKey().notNull().defaultRandom(),
+    runId: uuid("run_id")
+      .notNull()
+      .references(() => WorkflowRunSchema.id, { onDelete: "cascade" }),
+    workflowId: uuid("workflow_id")
+      .notNull()
+      .references(() => WorkflowSchema.id, { onDelete: "cascade" }),
+    nodeId: uuid("node_id").notNull(),
+    nodeName: text("node_name").notNull(),
+    message: text("message"),
+    approverUserId: uuid("approver_user_id")
+      .notNull()
+      .references(() => UserSchema.id, { onDelete: "cascade" }),
+    status: varchar("status", {
+      enum: ["pending", "approved", "rejected"],
+    })
+      .notNull()
+      .default("pending"),
+    comment: text("comment"),
+    decidedByUserId: uuid("decided_by_user_id").references(
+      () => UserSchema.id,
+      { onDelete: "set null" },
+    ),
+    createdAt: timestamp("created_at")
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+    decidedAt: timestamp("decided_at"),
+  },
+  (t) => [
+    index("workflow_approval_approver_status_idx").on(
+      t.approverUserId,
+      t.status,
+    ),
+    index("workflow_approval_run_idx").on(t.runId),
+  ],
+);
+
+export const WorkflowScheduleSchema = pgTable(
+  "workflow_schedule",
+  {
+    id: uuid("id").primaryKey().notNull().defaultRandom(),
+    workflowId: uuid("workflow_id")
+      .notNull()
+      .references(() => WorkflowSchema.id, { onDelete: "cascade" }),
+    cron: text("cron").notNull(),
+    timezone: text("timezone").notNull().default("UTC"),
+    input: json("input").$type<Record<string, unknown>>().notNull().default({}),
+    enabled: boolean("enabled").notNull().default(true),
+    nextRunAt: timestamp("next_run_at"),
+    lastRunAt: timestamp("last_run_at"),
+    // Not a foreign key: run history may be pruned independently.
+    lastRunId: uuid("last_run_id"),
+    createdAt: timestamp("created_at")
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+    updatedAt: timestamp("updated_at")
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+  },
+  (t) => [
+    index("workflow_schedule_workflow_idx").on(t.workflowId),
+    index("workflow_schedule_due_idx").on(t.enabled, t.nextRunAt),
+  ],
+);
+
+export const WorkflowWebhookSchema = pgTable("workflow_webhook", {
+  id: uuid("id").primaryKey().notNull().defaultRandom(),
+  workflowId: uuid("workflow_id")
+    .notNull()
+    .unique()
+    .references(() => WorkflowSchema.id, { onDelete: "cascade" }),
+  // Kept in plain text: it is the HMAC key for verifying signatures.
+  secret: text("secret").notNull(),
+  enabled: boolean("enabled").notNull().default(true),
+  lastCalledAt: timestamp("last_called_at"),
+  createdAt: timestamp("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+});
+
 export const ArchiveSchema = pgTable("archive", {
   id: uuid("id").primaryKey().notNull().defaultRandom(),
   name: text("name").notNull(),
@@ -626,6 +928,9 @@ export const McpOAuthSessionSchema = pgTable(
     mcpServerId: uuid("mcp_server_id")
       .notNull()
       .references(() => McpServerSchema.id, { onDelete: "cascade" }),
+    userId: uuid("user_id").references(() => UserSchema.id, {
+      onDelete: "cascade",
+    }),
     serverUrl: text("server_url").notNull(),
     clientInfo: json("client_info"),
     tokens: json("tokens"),
@@ -648,6 +953,75 @@ export const McpOAuthSessionSchema = pgTable(
   ],
 );
 
+// Credentials a user provides for a server that declares credential slots,
+// stored as an encrypted JSON object keyed by header or env name
+export const McpServerUserCredentialSchema = pgTable(
+  "mcp_server_user_credential",
+  {
+    id: uuid("id").primaryKey().notNull().defaultRandom(),
+    mcpServerId: uuid("mcp_server_id")
+      .notNull()
+      .references(() => McpServerSchema.id, { onDelete: "cascade" }),
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => UserSchema.id, { onDelete: "cascade" }),
+    values: text("values").notNull(),
+    createdAt: timestamp("created_at")
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+    updatedAt: timestamp("updated_at")
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+  },
+  (t) => [
+    unique("mcp_server_user_credential_unique").on(t.mcpServerId, t.userId),
+    index("mcp_server_user_credential_user_idx").on(t.userId),
+  ],
+);
+
+export const McpServerHealthSchema = pgTable("mcp_server_health", {
+  mcpServerId: uuid("mcp_server_id")
+    .primaryKey()
+    .notNull()
+    .references(() => McpServerSchema.id, { onDelete: "cascade" }),
+  record: json("record").notNull().$type<MCPServerHealthRecord>(),
+  updatedAt: timestamp("updated_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+});
+
+export const McpElicitationSchema = pgTable(
+  "mcp_elicitation",
+  {
+    id: uuid("id").primaryKey().notNull(),
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => UserSchema.id, { onDelete: "cascade" }),
+    toolCallId: text("tool_call_id"),
+    elicitation: json("elicitation")
+      .notNull()
+      .$type<Omit<MCPElicitation, "id" | "toolCallId" | "createdAt">>(),
+    response: json("response").$type<MCPElicitationResponse>(),
+    createdAt: timestamp("created_at")
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+    expiresAt: timestamp("expires_at").notNull(),
+  },
+  (t) => [index("mcp_elicitation_user_id_idx").on(t.userId)],
+);
+
+export const McpSamplingUsageSchema = pgTable(
+  "mcp_sampling_usage",
+  {
+    id: uuid("id").primaryKey().notNull().defaultRandom(),
+    // Not a reference, servers of a file based config are not stored
+    serverId: text("server_id").notNull(),
+    tokens: integer("tokens").notNull(),
+    createdAt: timestamp("created_at")
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+  },
+  (t) => [index("mcp_sampling_usage_server_idx").on(t.serverId, t.createdAt)],
+);
+
 export type McpServerEntity = typeof McpServerSchema.$inferSelect;
 export type ChatThreadEntity = typeof ChatThreadSchema.$inferSelect;
 export type ChatMessageEntity = typeof ChatMessageSchema.$inferSelect;
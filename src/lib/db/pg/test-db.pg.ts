@@ -0,0 +1,23 @@
+import { PGlite } from "@electric-sql/pglite";
+import { vector } from "@electric-sql/pglite/vector";
+import { drizzle } from "drizzle-orm/pglite";
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import journal from "../migrations/pg/meta/_journal.json";
+
+const migrationsFolder = join(process.cwd(), "src/lib/db/migrations/pg");
+
+/**
+ * In-memory Postgres with every migration applied, for repository tests.
+ * Each migration file is executed as a whole because PGlite does not run
+ * several statements as one prepared statement.
+ */
+export async function createTestDb() {
+  const client = new PGlite({ extensions: { vector } });
+  for (const { tag } of journal.entries) {
+    await client.exec(
+      await readFile(join(migrationsFolder, `${tag}.sql`), "utf8"),
+    );
+  }
+  return drizzle(client);
+}
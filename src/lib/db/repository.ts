@@ -4,9 +4,18 @@ import { pgMcpRepository } from "./pg/repositories/mcp-repository.pg";
 import { pgMcpMcpToolCustomizationRepository } from "./pg/repositories/mcp-tool-customization-repository.pg";
 import { pgMcpServerCustomizationRepository } from "./pg/repositories/mcp-server-customization-repository.pg";
 import { pgWorkflowRepository } from "./pg/repositories/workflow-repository.pg";
+import { pgWorkflowRunRepository } from "./pg/repositories/workflow-run-repository.pg";
+import { pgWorkflowScheduleRepository } from "./pg/repositories/workflow-schedule-repository.pg";
+import { pgWorkflowWebhookRepository } from "./pg/repositories/workflow-webhook-repository.pg";
+import { pgWorkflowVersionRepository } from "./pg/repositories/workflow-version-repository.pg";
+import { pgWorkflowApprovalRepository } from "./pg/repositories/workflow-approval-repository.pg";
 import { pgAgentRepository } from "./pg/repositories/agent-repository.pg";
 import { pgArchiveRepository } from "./pg/repositories/archive-repository.pg";
 import { pgMcpOAuthRepository } from "./pg/repositories/mcp-oauth-repository.pg";
+import { pgMcpUserCredentialRepository } from "./pg/repositories/mcp-user-credential-repository.pg";
+import { pgMcpServerHealthRepository } from "./pg/repositories/mcp-server-health-repository.pg";
+import { pgMcpElicitationRepository } from "./pg/repositories/mcp-elicitation-repository.pg";
+import { pgMcpSamplingUsageRepository } from "./pg/repositories/mcp-sampling-usage-repository.pg";
 import { pgBookmarkRepository } from "./pg/repositories/bookmark-repository.pg";
 import { pgOrganizationRepository } from "./pg/repositories/organization-repository.pg";
 import { pgUsageLogRepository } from "./pg/repositories/usage-repository.pg";
@@ -20,8 +29,17 @@ export const mcpMcpToolCustomizationRepository =
 export const mcpServerCustomizationRepository =
   pgMcpServerCustomizationRepository;
 export const mcpOAuthRepository = pgMcpOAuthRepository;
+export const mcpUserCredentialRepository = pgMcpUserCredentialRepository;
+export const mcpServerHealthRepository = pgMcpServerHealthRepository;
+export const mcpElicitationRepository = pgMcpElicitationRepository;
+export const mcpSamplingUsageRepository = pgMcpSamplingUsageRepository;
 
 export const workflowRepository = pgWorkflowRepository;
+export const workflowRunRepository = pgWorkflowRunRepository;
+export const workflowScheduleRepository = pgWorkflowScheduleRepository;
+export const workflowWebhookRepository = pgWorkflowWebhookRepository;
+export const workflowVersionRepository = pgWorkflowVersionRepository;
+export const workflowApprovalRepository = pgWorkflowApprovalRepository;
 export const agentRepository = pgAgentRepository;
 export const archiveRepository = pgArchiveRepository;
 export const bookmarkRepository = pgBookmarkRepository;
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+
+import { formatChunkCitation, linkCitationMarkers } from "./citation";
+
+describe("formatChunkCitation", () => {
+  it("includes page and innermost section", () => {
+    expect(
+      formatChunkCitation({
+        documentName: "Handbook.pdf",
+        metadata: {
+          headings: ["Benefits", "Leave policy"],
+          pageStart: 14,
+          pageEnd: 14,
+          startOffset: 0,
+          endOffset: 10,
+        },
+      }),
+    ).toBe("Handbook.pdf, p. 14, §Leave policy");
+  });
+
+  it("formats page ranges", () => {
+    expect(
+      formatChunkCitation({
+        documentName: "Handbook.pdf",
+        metadata: { pageStart: 14, pageEnd: 15, startOffset: 0, endOffset: 10 },
+      }),
+    ).toBe("Handbook.pdf, pp. 14–15");
+  });
+
+  it("falls back to the document name", () => {
+    expect(formatChunkCitation({ documentName: "notes.txt" })).toBe(
+      "notes.txt",
+    );
+  });
+});
+
+describe("linkCitationMarkers", () => {
+  const citations = [
+    {
+      citationId: 2,
+      knowledgeBaseId: "kb-1",
+      documentId: "doc-1",
+      citation: 'Guide "v2".pdf, p. 3',
+    },
+  ];
+
+  it("links known markers to the cited document", () => {
+    expect(linkCitationMarkers("Leave is 20 days [2].", citations)).toBe(
+      'Leave is 20 days [\\[2\\]](/knowledge-base/kb-1#document-doc-1 "Guide \\"v2\\".pdf, p. 3").',
+    );
+  });
+
+  it("leaves unknown markers and existing links alone", () => {
+    const text = "See [3] and [2](https://example.com).";
+    expect(linkCitationMarkers(text, citations)).toBe(text);
+  });
+});
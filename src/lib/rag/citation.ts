@@ -0,0 +1,60 @@
+import {
+  KnowledgeBaseChunkMetadata,
+  KnowledgeBaseCitation,
+} from "app-types/knowledge-base";
+
+/**
+ * Builds a human readable source label for a retrieved chunk, e.g.
+ * "Handbook.pdf, p. 14, §Leave policy".
+ */
+export function formatChunkCitation(chunk: {
+  documentName: string;
+  metadata?: KnowledgeBaseChunkMetadata | null;
+}): string {
+  const parts = [chunk.documentName];
+  const metadata = chunk.metadata;
+
+  if (metadata?.pageStart) {
+    const pageEnd = metadata.pageEnd ?? metadata.pageStart;
+    parts.push(
+      pageEnd > metadata.pageStart
+        ? `pp. ${metadata.pageStart}–${pageEnd}`
+        : `p. ${metadata.pageStart}`,
+    );
+  }
+
+  const section = metadata?.headings?.at(-1);
+  if (section) {
+    parts.push(`§${section}`);
+  }
+
+  return parts.join(", ");
+}
+
+export function knowledgeBaseDocumentHref(citation: {
+  knowledgeBaseId: string;
+  documentId: string;
+}): string {
+  return `/knowledge-base/${citation.knowledgeBaseId}#document-${citation.documentId}`;
+}
+
+/**
+ * Turns inline citation markers such as "[2]" into Markdown links to the
+ * cited document. Markers without a matching citation are left untouched.
+ */
+export function linkCitationMarkers(
+  text: string,
+  citations: Pick<
+    KnowledgeBaseCitation,
+    "citationId" | "knowledgeBaseId" | "documentId" | "citation"
+  >[],
+): string {
+  if (!citations.length) return text;
+  const byId = new Map(citations.map((c) => [c.citationId, c]));
+  return text.replace(/\[(\d+)\](?![(\[])/g, (marker, id: string) => {
+    const citation = byId.get(Number(id));
+    if (!citation) return marker;
+    const title = citation.citation.replace(/["\\]/g, "\\$&");
+    return `[\\[${id}\\]](${knowledgeBaseDocumentHref(citation)} "${title}")`;
+  });
+}
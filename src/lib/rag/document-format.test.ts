@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  detectDocumentFormat,
+  isLikelyText,
+  isSupportedDocument,
+} from "./document-format";
+
+describe("document format", () => {
+  it("prefers the mime type and falls back to the extension", () => {
+    expect(
+      detectDocumentFormat({
+        mimeType: "text/html; charset=utf-8",
+        fileName: "page.txt",
+      }),
+    ).toBe("html");
+    expect(detectDocumentFormat({ mimeType: "", fileName: "Deck.PPTX" })).toBe(
+      "pptx",
+    );
+    expect(
+      detectDocumentFormat({
+        mimeType: "application/vnd.ms-excel",
+        fileName: "export.csv",
+      }),
+    ).toBe("csv");
+    expect(
+      detectDocumentFormat({ mimeType: "text/x-log", fileName: "server" }),
+    ).toBe("text");
+    expect(
+      detectDocumentFormat({
+        mimeType: "application/octet-stream",
+        fileName: "archive.zip",
+      }),
+    ).toBeNull();
+  });
+
+  it("sniffs text content", () => {
+    expect(isLikelyText(Buffer.from("plain text\nwith lines"))).toBe(true);
+    expect(isLikelyText(Buffer.from([0x50, 0x4b, 0x03, 0x04, 0x00]))).toBe(
+      false,
+    );
+    expect(isLikelyText(Buffer.from([0xff, 0xfe, 0x41]))).toBe(false);
+  });
+
+  it("rejects unknown binaries at upload", () => {
+    expect(
+      isSupportedDocument({
+        buffer: Buffer.from([0x7f, 0x45, 0x4c, 0x46, 0x02, 0x01]),
+        mimeType: "application/octet-stream",
+        fileName: "tool",
+      }),
+    ).toBe(false);
+    expect(
+      isSupportedDocument({
+        buffer: Buffer.from("key: value"),
+        mimeType: "",
+        fileName: "config.yaml",
+      }),
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,95 @@
+export type DocumentFormat =
+  | "pdf"
+  | "docx"
+  | "pptx"
+  | "xlsx"
+  | "odt"
+  | "epub"
+  | "rtf"
+  | "html"
+  | "csv"
+  | "json"
+  | "text";
+
+const MIME_FORMATS: Record<string, DocumentFormat> = {
+  "application/pdf": "pdf",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document":
+    "docx",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation":
+    "pptx",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": "xlsx",
+  "application/vnd.oasis.opendocument.text": "odt",
+  "application/epub+zip": "epub",
+  "application/rtf": "rtf",
+  "text/rtf": "rtf",
+  "text/html": "html",
+  "application/xhtml+xml": "html",
+  "text/csv": "csv",
+  "application/json": "json",
+};
+
+const EXTENSION_FORMATS: Record<string, DocumentFormat> = {
+  pdf: "pdf",
+  docx: "docx",
+  pptx: "pptx",
+  xlsx: "xlsx",
+  odt: "odt",
+  epub: "epub",
+  rtf: "rtf",
+  html: "html",
+  htm: "html",
+  xhtml: "html",
+  csv: "csv",
+  json: "json",
+  txt: "text",
+  md: "text",
+  markdown: "text",
+};
+
+export const SUPPORTED_DOCUMENT_EXTENSIONS = Object.keys(EXTENSION_FORMATS);
+
+const TEXT_SNIFF_BYTES = 8192;
+// Tab, line feed, form feed and carriage return.
+const ALLOWED_CONTROL_BYTES = new Set([0x09, 0x0a, 0x0c, 0x0d]);
+
+export function detectDocumentFormat(options: {
+  mimeType?: string | null;
+  fileName?: string;
+}): DocumentFormat | null {
+  const mimeType = (options.mimeType ?? "").split(";")[0].trim().toLowerCase();
+  const extension = options.fileName?.includes(".")
+    ? options.fileName.split(".").pop()?.toLowerCase()
+    : undefined;
+
+  return (
+    MIME_FORMATS[mimeType] ??
+    (extension ? EXTENSION_FORMATS[extension] : undefined) ??
+    (mimeType.startsWith("text/") ? "text" : null)
+  );
+}
+
+/**
+ * Sniffs the start of a buffer for valid UTF-8 without NUL or other binary
+ * control characters.
+ */
+export function isLikelyText(buffer: Buffer): boolean {
+  const sample = buffer.subarray(0, TEXT_SNIFF_BYTES);
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(sample, {
+      stream: true,
+    });
+  } catch (_error) {
+    return false;
+  }
+  return !sample.some(
+    (byte) => byte < 0x20 && !ALLOWED_CONTROL_BYTES.has(byte),
+  );
+}
+
+export function isSupportedDocument(options: {
+  buffer: Buffer;
+  mimeType?: string | null;
+  fileName?: string;
+}): boolean {
+  return detectDocumentFormat(options) !== null || isLikelyText(options.buffer);
+}
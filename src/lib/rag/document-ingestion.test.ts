@@ -0,0 +1,171 @@
+import { eq } from "drizzle-orm";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("server-only", () => ({}));
+
+vi.mock("lib/db/pg/db.pg", async () => {
+  const { createTestDb } = await import("lib/db/pg/test-db.pg");
+  return { pgDb: await createTestDb() };
+});
+
+vi.mock("lib/storage/object-storage", () => ({
+  getObjectBuffer: vi.fn(async () => Buffer.from("document")),
+}));
+
+vi.mock("lib/analytics/usage-logger", () => ({
+  logEmbeddingUsage: vi.fn(),
+}));
+
+vi.mock("./document-parser", () => ({
+  extractDocument: vi.fn(async () => ({ text: "document" })),
+}));
+
+vi.mock("./text-chunker", () => ({
+  chunkDocument: vi.fn(() =>
+    Array.from({ length: 5 }, (_, index) => ({ content: `chunk ${index}` })),
+  ),
+}));
+
+vi.mock("./embedder", () => ({
+  embedTextChunks: vi.fn(),
+}));
+
+const { pgDb: db } = await import("lib/db/pg/db.pg");
+const {
+  KnowledgeBaseDocumentChunkSchema,
+  KnowledgeBaseDocumentSchema,
+  KnowledgeBaseSchema,
+  UserSchema,
+} = await import("lib/db/pg/schema.pg");
+const { embedTextChunks } = await import("./embedder");
+const { ingestDocument } = await import("./document-ingestion");
+
+const embedding = Array.from({ length: 1536 }, () => 0.1);
+const options = { staleBefore: new Date(0), batchSize: 2 };
+
+async function createDocument() {
+  const [user] = await db
+    .insert(UserSchema)
+    .values({ name: "Owner", email: `${crypto.randomUUID()}@example.com` })
+    .returning();
+  const [knowledgeBase] = await db
+    .insert(KnowledgeBaseSchema)
+    .values({ name: "Docs", ownerUserId: user.id })
+    .returning();
+  const [document] = await db
+    .insert(KnowledgeBaseDocumentSchema)
+    .values({
+      knowledgeBaseId: knowledgeBase.id,
+      uploadedByUserId: user.id,
+      fileName: "guide.txt",
+      mimeType: "text/plain",
+      storageKey: crypto.randomUUID(),
+    })
+    .returning();
+  return document;
+}
+
+async function selectDocument(documentId: string) {
+  const [row] = await db
+    .select()
+    .from(KnowledgeBaseDocumentSchema)
+    .where(eq(KnowledgeBaseDocumentSchema.id, documentId));
+  return row;
+}
+
+async function countChunks(documentId: string) {
+  const rows = await db
+    .select({ id: KnowledgeBaseDocumentChunkSchema.id })
+    .from(KnowledgeBaseDocumentChunkSchema)
+    .where(eq(KnowledgeBaseDocumentChunkSchema.documentId, documentId));
+  return rows.length;
+}
+
+describe("ingestDocument", () => {
+  beforeEach(() => {
+    vi.mocked(embedTextChunks).mockReset();
+    vi.mocked(embedTextChunks).mockImplementation(async (texts) => ({
+      embeddings: texts.map(() => embedding),
+      tokens: texts.length * 10,
+    }));
+  });
+
+  it("should embed every chunk in batches", async () => {
+    const document = await createDocument();
+
+    await ingestDocument(document.id, options);
+
+    expect(embedTextChunks).toHaveBeenCalledTimes(3);
+    expect(await selectDocument(document.id)).toMatchObject({
+      status: "completed",
+      chunkCount: 5,
+      totalChunks: 5,
+      embeddingTokens: 50,
+    });
+    expect(await countChunks(document.id)).toBe(5);
+  });
+
+  it("should resume after the last checkpointed batch", async () => {
+    const document = await createDocument();
+    vi.mocked(embedTextChunks)
+      .mockImplementationOnce(async (texts) => ({
+        embeddings: texts.map(() => embedding),
+        tokens: texts.length * 10,
+      }))
+      .mockRejectedValueOnce(new Error("Rate limited"));
+
+    await ingestDocument(document.id, options);
+
+    expect(await selectDocument(document.id)).toMatchObject({
+      status: "failed",
+      chunkCount: 2,
+      embeddingTokens: 20,
+    });
+
+    // Queue the failed document again
+    await db
+      .update(KnowledgeBaseDocumentSchema)
+      .set({ status: "pending" })
+      .where(eq(KnowledgeBaseDocumentSchema.id, document.id));
+    vi.mocked(embedTextChunks).mockClear();
+
+    await ingestDocument(document.id, options);
+
+    expect(
+      vi.mocked(embedTextChunks).mock.calls.map(([texts]) => texts),
+    ).toEqual([["chunk 2", "chunk 3"], ["chunk 4"]]);
+    expect(await selectDocument(document.id)).toMatchObject({
+      status: "completed",
+      chunkCount: 5,
+      embeddingTokens: 50,
+    });
+    expect(await countChunks(document.id)).toBe(5);
+  });
+
+  it("should resume a document whose worker stopped checkpointing", async () => {
+    const document = await createDocument();
+    vi.mocked(embedTextChunks)
+      .mockImplementationOnce(async (texts) => ({
+        embeddings: texts.map(() => embedding),
+        tokens: texts.length * 10,
+      }))
+      .mockImplementationOnce(() => new Promise(() => {}));
+
+    void ingestDocument(document.id, options);
+    await vi.waitFor(async () =>
+      expect((await selectDocument(document.id)).chunkCount).toBe(2),
+    );
+    vi.mocked(embedTextChunks).mockClear();
+
+    await ingestDocument(document.id, {
+      ...options,
+      staleBefore: new Date(Date.now() + 1000),
+    });
+
+    expect(embedTextChunks).toHaveBeenCalledTimes(2);
+    expect(await selectDocument(document.id)).toMatchObject({
+      status: "completed",
+      chunkCount: 5,
+    });
+  });
+});
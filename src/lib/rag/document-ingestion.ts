@@ -0,0 +1,167 @@
+import { eq } from "drizzle-orm";
+
+import { KnowledgeBaseDocument } from "app-types/knowledge-base";
+import { logEmbeddingUsage } from "lib/analytics/usage-logger";
+import { pgDb as db } from "lib/db/pg/db.pg";
+import { KnowledgeBaseSchema } from "lib/db/pg/schema.pg";
+import { knowledgeBaseRepository } from "lib/db/repository";
+import { getObjectBuffer } from "lib/storage/object-storage";
+import { extractDocument } from "./document-parser";
+import { embedTextChunks } from "./embedder";
+import { chunkDocument } from "./text-chunker";
+
+async function resolveUsageOwner(document: KnowledgeBaseDocument) {
+  const ownerInfo = await db
+    .select({
+      ownerUserId: KnowledgeBaseSchema.ownerUserId,
+      organizationId: KnowledgeBaseSchema.organizationId,
+    })
+    .from(KnowledgeBaseSchema)
+    .where(eq(KnowledgeBaseSchema.id, document.knowledgeBaseId))
+    .limit(1);
+
+  const primaryOwner = ownerInfo.at(0);
+  return {
+    userId: document.uploadedByUserId ?? primaryOwner?.ownerUserId ?? null,
+    organizationId:
+      document.organizationId ?? primaryOwner?.organizationId ?? null,
+  };
+}
+
+/**
+ * Claims a document, then chunks and embeds it in batches. Every batch is
+ * checkpointed with its chunks, so a run that stops part way resumes after
+ * the last stored batch.
+ */
+export async function ingestDocument(
+  documentId: string,
+  options: { staleBefore: Date; batchSize: number },
+): Promise<void> {
+  const claimed = await knowledgeBaseRepository.markDocumentProcessing(
+    documentId,
+    { staleBefore: options.staleBefore },
+  );
+  if (!claimed) {
+    return;
+  }
+
+  console.info(`[RAG] Processing document ${claimed.id}`);
+
+  try {
+    const fileBuffer = await getObjectBuffer(claimed.storageKey);
+    if (!fileBuffer.length) {
+      throw new Error("Document is empty");
+    }
+
+    const document = await extractDocument({
+      buffer: fileBuffer,
+      mimeType: claimed.mimeType,
+      fileName: claimed.fileName,
+    });
+
+    if (!document.text) {
+      throw new Error("Unable to extract text from document");
+    }
+
+    const chunks = chunkDocument(document);
+
+    const [embeddingConfig] =
+      await knowledgeBaseRepository.listEmbeddingConfigs([
+        claimed.knowledgeBaseId,
+      ]);
+    if (!embeddingConfig) {
+      throw new Error("Knowledge base not found");
+    }
+
+    // Chunking is deterministic, so a matching chunk total means the stored
+    // chunks belong to this run and embedding can continue where it stopped.
+    let startIndex = 0;
+    let totalEmbeddingTokens = 0;
+    if (
+      claimed.totalChunks === chunks.length &&
+      claimed.chunkCount > 0 &&
+      claimed.chunkCount <= chunks.length
+    ) {
+      startIndex = claimed.chunkCount;
+      totalEmbeddingTokens = claimed.embeddingTokens;
+      console.info(
+        `[RAG] Resuming document ${claimed.id} at chunk ${startIndex}/${chunks.length}`,
+      );
+    } else {
+      await knowledgeBaseRepository.resetDocumentProgress(
+        claimed.id,
+        chunks.length,
+      );
+    }
+
+    const usageOwner = await resolveUsageOwner(claimed);
+
+    for (
+      let batchStart = startIndex;
+      batchStart < chunks.length;
+      batchStart += options.batchSize
+    ) {
+      const batch = chunks.slice(batchStart, batchStart + options.batchSize);
+      const { embeddings, tokens } = await embedTextChunks(
+        batch.map((chunk) => chunk.content),
+        embeddingConfig,
+      );
+      const payload = embeddings.map((embedding, index) => ({
+        chunkIndex: batchStart + index,
+        content: batch[index].content,
+        metadata: batch[index].metadata,
+        embedding,
+      }));
+
+      const checkpointed = await knowledgeBaseRepository.appendDocumentChunks(
+        claimed.id,
+        claimed.knowledgeBaseId,
+        payload,
+        tokens,
+      );
+      if (!checkpointed) {
+        console.info(
+          `[RAG] Document ${claimed.id} was reset or removed while processing; stopping`,
+        );
+        return;
+      }
+      totalEmbeddingTokens += tokens;
+
+      if (usageOwner.userId && tokens > 0) {
+        await logEmbeddingUsage({
+          userId: usageOwner.userId,
+          organizationId: usageOwner.organizationId ?? undefined,
+          agentId: null,
+          knowledgeBaseId: claimed.knowledgeBaseId,
+          documentId: claimed.id,
+          operation: "ingest",
+          tokens,
+          model: embeddingConfig.model,
+          metadata: {
+            fileName: claimed.fileName,
+            chunkCount: batch.length,
+            chunkOffset: batchStart,
+            totalChunks: chunks.length,
+            embeddingProvider: embeddingConfig.provider,
+          },
+        });
+      }
+    }
+
+    await knowledgeBaseRepository.markDocumentCompleted(claimed.id, {
+      chunkCount: chunks.length,
+      embeddingTokens: totalEmbeddingTokens,
+      processedAt: new Date(),
+    });
+
+    console.info(
+      `[RAG] Completed document ${claimed.id} with ${chunks.length} chunks (tokens=${totalEmbeddingTokens})`,
+    );
+  } catch (error) {
+    console.error(`[RAG] Failed to process document ${documentId}`, error);
+    await knowledgeBaseRepository.markDocumentFailed(
+      documentId,
+      error instanceof Error ? error.message : "Unknown error",
+    );
+  }
+}
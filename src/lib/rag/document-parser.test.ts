@@ -12,4 +12,26 @@ describe("document parser", () => {
     });
     expect(text).toContain("Hello Knowledge Base");
   });
+
+  it("keeps paragraph breaks when normalizing whitespace", async () => {
+    const buffer = Buffer.from(
+      "# Title  \r\n\r\nFirst\t paragraph\n\n\n\nSecond",
+    );
+    const text = await extractTextFromDocument({
+      buffer,
+      mimeType: "text/markdown",
+      fileName: "notes.md",
+    });
+    expect(text).toBe("# Title\n\nFirst  paragraph\n\nSecond");
+  });
+
+  it("rejects binary files it cannot parse", async () => {
+    await expect(
+      extractTextFromDocument({
+        buffer: Buffer.from([0x00, 0x01, 0x02, 0xff]),
+        mimeType: "application/octet-stream",
+        fileName: "blob.bin",
+      }),
+    ).rejects.toThrow("Unsupported document format");
+  });
 });
@@ -1,4 +1,18 @@
 import { createRequire } from "module";
+import {
+  DocumentFormat,
+  detectDocumentFormat,
+  isLikelyText,
+} from "./document-format";
+import { htmlToText, stripHtmlBoilerplate } from "./html-to-text";
+import {
+  extractEpubText,
+  extractOdtText,
+  extractPptxText,
+  extractXlsxText,
+} from "./office-parser";
+import { rtfToText } from "./rtf-to-text";
+import { formatTableRecords, parseCsv } from "./table-records";
 
 const localRequire = createRequire(import.meta.url);
 
@@ -12,12 +26,24 @@ async function loadMammoth() {
   return mod.default ?? mod;
 }
 
+export type DocumentPage = {
+  pageNumber: number;
+  start: number;
+  end: number;
+};
+
+export type ExtractedDocument = {
+  text: string;
+  pages?: DocumentPage[];
+};
+
 function normalizeText(text: string): string {
   return text
     .replace(/\r/g, "")
     .replace(/\u0000/g, "")
     .replace(/[\t\f\v]+/g, " ")
-    .replace(/\s+\n/g, "\n")
+    .replace(/[ ]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
     .trim();
 }
 
@@ -25,52 +51,120 @@ function bufferToUtf8(buffer: Buffer): string {
   return buffer.toString("utf8");
 }
 
-export async function extractTextFromDocument(options: {
-  buffer: Buffer;
-  mimeType?: string | null;
-  fileName?: string;
-}): Promise<string> {
-  const { buffer, mimeType, fileName } = options;
-  const lowerMime = (mimeType ?? "").toLowerCase();
-  const extension = fileName?.split(".").pop()?.toLowerCase();
+function joinPages(pageTexts: string[]): ExtractedDocument {
+  const pages: DocumentPage[] = [];
+  let text = "";
 
-  try {
-    if (lowerMime === "application/pdf" || extension === "pdf") {
-      const pdfParse = await loadPdfParse();
-      const result = await pdfParse(buffer);
-      return normalizeText(result.text || "");
+  pageTexts.forEach((pageText, index) => {
+    const normalized = normalizeText(pageText);
+    if (!normalized) return;
+    if (text) text += "\n\n";
+    pages.push({
+      pageNumber: index + 1,
+      start: text.length,
+      end: text.length + normalized.length,
+    });
+    text += normalized;
+  });
+
+  return { text, pages };
+}
+
+// Mirrors pdf-parse's default page renderer, but keeps each page separate so
+// chunk offsets can be mapped back to page numbers.
+function renderPdfPage(pageTexts: string[]) {
+  return async (pageData: any): Promise<string> => {
+    const textContent = await pageData.getTextContent({
+      normalizeWhitespace: false,
+      disableCombineTextItems: false,
+    });
+    let lastY: number | undefined;
+    let text = "";
+    for (const item of textContent.items) {
+      if (lastY === item.transform[5] || !lastY) {
+        text += item.str;
+      } else {
+        text += `\n${item.str}`;
+      }
+      lastY = item.transform[5];
     }
+    pageTexts[pageData.pageIndex ?? pageTexts.length] = text;
+    return text;
+  };
+}
 
-    if (
-      lowerMime ===
-        "application/vnd.openxmlformats-officedocument.wordprocessingml.document" ||
-      extension === "docx"
-    ) {
+async function extractByFormat(
+  format: DocumentFormat,
+  buffer: Buffer,
+  fileName?: string,
+): Promise<ExtractedDocument> {
+  switch (format) {
+    case "pdf": {
+      const pdfParse = await loadPdfParse();
+      const pageTexts: string[] = [];
+      await pdfParse(buffer, { pagerender: renderPdfPage(pageTexts) });
+      return joinPages(Array.from(pageTexts, (page) => page ?? ""));
+    }
+    case "docx": {
       const mammoth = await loadMammoth();
-      const result = await mammoth.extractRawText({ buffer });
-      return normalizeText(result.value || "");
+      const result = await mammoth.convertToHtml({ buffer });
+      return { text: normalizeText(htmlToText(result.value || "")) };
     }
-
-    if (
-      lowerMime.startsWith("text/") ||
-      ["txt", "md", "markdown", "csv", "json"].includes(extension ?? "")
-    ) {
-      const raw = bufferToUtf8(buffer);
-      return normalizeText(raw);
+    case "pptx":
+      return { text: normalizeText(await extractPptxText(buffer)) };
+    case "xlsx":
+      return { text: normalizeText(await extractXlsxText(buffer)) };
+    case "odt":
+      return { text: normalizeText(await extractOdtText(buffer)) };
+    case "epub":
+      return { text: normalizeText(await extractEpubText(buffer)) };
+    case "rtf":
+      return { text: normalizeText(rtfToText(bufferToUtf8(buffer))) };
+    case "html":
+      return {
+        text: normalizeText(
+          htmlToText(stripHtmlBoilerplate(bufferToUtf8(buffer))),
+        ),
+      };
+    case "csv": {
+      const title = fileName?.replace(/\.[^.]+$/, "") || "Table";
+      return {
+        text: normalizeText(
+          formatTableRecords(title, parseCsv(bufferToUtf8(buffer))),
+        ),
+      };
     }
-
-    if (lowerMime === "application/json") {
+    case "json": {
       const jsonText = bufferToUtf8(buffer);
       try {
         const parsed = JSON.parse(jsonText);
-        return normalizeText(JSON.stringify(parsed, null, 2));
+        return { text: normalizeText(JSON.stringify(parsed, null, 2)) };
       } catch (_error) {
-        return normalizeText(jsonText);
+        return { text: normalizeText(jsonText) };
       }
     }
+    case "text":
+      return { text: normalizeText(bufferToUtf8(buffer)) };
+  }
+}
+
+export async function extractDocument(options: {
+  buffer: Buffer;
+  mimeType?: string | null;
+  fileName?: string;
+}): Promise<ExtractedDocument> {
+  const { buffer, mimeType, fileName } = options;
 
-    const fallback = bufferToUtf8(buffer);
-    return normalizeText(fallback);
+  try {
+    const format =
+      detectDocumentFormat({ mimeType, fileName }) ??
+      (isLikelyText(buffer) ? "text" : null);
+    if (!format) {
+      throw new Error(
+        `Unsupported document format: ${mimeType || fileName || "unknown"}`,
+      );
+    }
+    return await extractByFormat(format, buffer, fileName);
   } catch (error) {
     console.error("Failed to extract text from document", {
       mimeType,
@@ -80,3 +174,12 @@ export async function extractTextFromDocument(options: {
     throw error;
   }
 }
+
+export async function extractTextFromDocument(options: {
+  buffer: Buffer;
+  mimeType?: string | null;
+  fileName?: string;
+}): Promise<string> {
+  const { text } = await extractDocument(options);
+  return text;
+}
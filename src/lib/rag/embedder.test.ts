@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+
+import { KNOWLEDGE_BASE_MAX_EMBEDDING_DIMENSION } from "app-types/knowledge-base";
+import { padEmbedding } from "./embedder";
+
+describe("embedder", () => {
+  it("zero-pads smaller embeddings to the shared vector size", () => {
+    const padded = padEmbedding([0.5, -0.25, 1]);
+    expect(padded).toHaveLength(KNOWLEDGE_BASE_MAX_EMBEDDING_DIMENSION);
+    expect(padded.slice(0, 3)).toEqual([0.5, -0.25, 1]);
+    expect(padded.slice(3).every((value) => value === 0)).toBe(true);
+  });
+
+  it("returns full-size embeddings unchanged", () => {
+    const embedding = new Array(KNOWLEDGE_BASE_MAX_EMBEDDING_DIMENSION).fill(1);
+    expect(padEmbedding(embedding)).toBe(embedding);
+  });
+
+  it("rejects embeddings larger than the vector column", () => {
+    const embedding = new Array(
+      KNOWLEDGE_BASE_MAX_EMBEDDING_DIMENSION + 1,
+    ).fill(0);
+    expect(() => padEmbedding(embedding)).toThrow(/exceeds/);
+  });
+});
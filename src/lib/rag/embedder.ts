@@ -1,7 +1,79 @@
-import { embedMany } from "ai";
+import { EmbeddingModel, embedMany } from "ai";
 import { openai } from "@ai-sdk/openai";
+import { google } from "@ai-sdk/google";
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
+import { createOllama } from "ollama-ai-provider-v2";
+import {
+  KNOWLEDGE_BASE_MAX_EMBEDDING_DIMENSION,
+  KnowledgeBaseEmbeddingConfig,
+  KnowledgeBaseEmbeddingProvider,
+} from "app-types/knowledge-base";
 
-const embeddingModel = openai.textEmbeddingModel("text-embedding-3-small");
+const ollama = createOllama({
+  baseURL: process.env.OLLAMA_BASE_URL || "http://localhost:11434/api",
+});
+
+const openaiCompatible = createOpenAICompatible({
+  name: "embedding",
+  baseURL: process.env.EMBEDDING_OPENAI_COMPATIBLE_BASE_URL || "",
+  apiKey: process.env.EMBEDDING_OPENAI_COMPATIBLE_API_KEY,
+});
+
+function getEmbeddingModel(
+  config: KnowledgeBaseEmbeddingConfig,
+): EmbeddingModel<string> {
+  const provider: KnowledgeBaseEmbeddingProvider = config.provider;
+  switch (provider) {
+    case "openai":
+      return openai.textEmbeddingModel(config.model);
+    case "google":
+      return google.textEmbeddingModel(config.model);
+    case "ollama":
+      return ollama.textEmbeddingModel(config.model);
+    case "openai-compatible":
+      if (!process.env.EMBEDDING_OPENAI_COMPATIBLE_BASE_URL) {
+        throw new Error(
+          "EMBEDDING_OPENAI_COMPATIBLE_BASE_URL is required for openai-compatible embedding models",
+        );
+      }
+      return openaiCompatible.textEmbeddingModel(config.model);
+    default:
+      throw new Error(`Unsupported embedding provider: ${provider}`);
+  }
+}
+
+function getProviderOptions(
+  config: KnowledgeBaseEmbeddingConfig,
+): Parameters<typeof embedMany>[0]["providerOptions"] {
+  if (
+    config.provider === "openai" &&
+    config.model.startsWith("text-embedding-3")
+  ) {
+    return { openai: { dimensions: config.dimension } };
+  }
+  if (config.provider === "google") {
+    return { google: { outputDimensionality: config.dimension } };
+  }
+  return undefined;
+}
+
+// Every knowledge base shares one vector column, so smaller embeddings are
+// zero-padded to its size. Padding leaves cosine distance unchanged.
+export function padEmbedding(embedding: number[]): number[] {
+  if (embedding.length > KNOWLEDGE_BASE_MAX_EMBEDDING_DIMENSION) {
+    throw new Error(
+      `Embedding dimension ${embedding.length} exceeds the supported maximum of ${KNOWLEDGE_BASE_MAX_EMBEDDING_DIMENSION}`,
+    );
+  }
+  if (embedding.length === KNOWLEDGE_BASE_MAX_EMBEDDING_DIMENSION) {
+    return embedding;
+  }
+  return embedding.concat(
+    new Array(KNOWLEDGE_BASE_MAX_EMBEDDING_DIMENSION - embedding.length).fill(
+      0,
+    ),
+  );
+}
 
 export type EmbedChunksResult = {
   embeddings: number[][];
@@ -10,22 +82,36 @@ export type EmbedChunksResult = {
 
 export async function embedTextChunks(
   chunks: string[],
+  config: KnowledgeBaseEmbeddingConfig,
 ): Promise<EmbedChunksResult> {
   if (!chunks.length) {
     return { embeddings: [], tokens: 0 };
   }
 
   const result = await embedMany({
-    model: embeddingModel,
+    model: getEmbeddingModel(config),
     values: chunks,
+    providerOptions: getProviderOptions(config),
+  });
+
+  const embeddings = result.embeddings.map((embedding) => {
+    if (embedding.length !== config.dimension) {
+      throw new Error(
+        `Embedding model ${config.model} returned ${embedding.length} dimensions, expected ${config.dimension}`,
+      );
+    }
+    return padEmbedding(Array.from(embedding));
   });
 
   return {
-    embeddings: result.embeddings.map((embedding) => Array.from(embedding)),
-    tokens: result.usage.tokens,
+    embeddings,
+    tokens: result.usage?.tokens ?? 0,
   };
 }
 
-export async function embedQuery(text: string): Promise<EmbedChunksResult> {
-  return embedTextChunks([text]);
+export async function embedQuery(
+  text: string,
+  config: KnowledgeBaseEmbeddingConfig,
+): Promise<EmbedChunksResult> {
+  return embedTextChunks([text], config);
 }
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  decodeHtmlEntities,
+  htmlToText,
+  stripHtmlBoilerplate,
+} from "./html-to-text";
+
+describe("html to text", () => {
+  it("turns headings into markdown and blocks into paragraphs", () => {
+    const html =
+      "<h1>Handbook</h1><p>Welcome <strong>aboard</strong>.</p><h2>Leave policy</h2><p>Line one<br/>Line two</p>";
+    expect(htmlToText(html)).toBe(
+      "# Handbook\n\nWelcome aboard.\n\n## Leave policy\n\nLine one\nLine two",
+    );
+  });
+
+  it("drops scripts and renders lists and tables", () => {
+    const html =
+      "<script>alert(1)</script><ul><li>One</li><li>Two</li></ul><table><tr><td>A</td><td>B</td></tr></table>";
+    expect(htmlToText(html)).toBe("- One\n- Two\n\nA | B");
+  });
+
+  it("decodes named and numeric entities", () => {
+    expect(decodeHtmlEntities("Tom &amp; Jerry &#8212; &#x41;&unknown;")).toBe(
+      "Tom & Jerry — A&unknown;",
+    );
+  });
+
+  it("strips page boilerplate and keeps the title", () => {
+    const html = [
+      "<html><head><title>Leave Policy</title></head><body>",
+      "<header><nav><a href='/'>Home</a></nav></header>",
+      "<main><p>Employees get 20 days.</p><form><button>Subscribe</button></form></main>",
+      "<footer>© 2024</footer></body></html>",
+    ].join("");
+    expect(htmlToText(stripHtmlBoilerplate(html))).toBe(
+      "# Leave Policy\n\nEmployees get 20 days.",
+    );
+  });
+});
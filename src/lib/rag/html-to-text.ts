@@ -0,0 +1,104 @@
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+};
+
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity.startsWith("#")) {
+      const code =
+        entity[1] === "x" || entity[1] === "X"
+          ? Number.parseInt(entity.slice(2), 16)
+          : Number.parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code > 0
+        ? String.fromCodePoint(code)
+        : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function stripTags(html: string): string {
+  return html.replace(/<[^>]+>/g, "");
+}
+
+const BOILERPLATE_PATTERN =
+  /<(nav|header|footer|aside|form|button|iframe|select|dialog)\b[\s\S]*?<\/\1>/gi;
+
+/**
+ * Reduces a full web page to its readable content: navigation, headers,
+ * footers and forms are dropped and the main/article element is preferred.
+ * The page title is kept as a top-level heading when the body has none.
+ */
+export function stripHtmlBoilerplate(html: string): string {
+  const title = /<title\b[^>]*>([\s\S]*?)<\/title>/i.exec(html)?.[1];
+  let content = html
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(
+      /<(script|style|noscript|template|svg|head)\b[\s\S]*?<\/\1>/gi,
+      "",
+    );
+
+  const main =
+    /<main\b[^>]*>([\s\S]*?)<\/main>/i.exec(content)?.[1] ??
+    /<article\b[^>]*>([\s\S]*?)<\/article>/i.exec(content)?.[1] ??
+    /<body\b[^>]*>([\s\S]*?)<\/body>/i.exec(content)?.[1];
+  content = (main ?? content).replace(BOILERPLATE_PATTERN, "");
+
+  const cleanTitle = title ? stripTags(title).replace(/\s+/g, " ").trim() : "";
+  if (cleanTitle && !/<h1\b/i.test(content)) {
+    content = `<h1>${cleanTitle}</h1>${content}`;
+  }
+  return content;
+}
+
+/**
+ * Converts HTML into plain text while keeping the structure the chunker needs:
+ * headings become Markdown `#` lines and block elements become paragraphs.
+ */
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<(script|style|noscript|template|svg|head)\b[\s\S]*?<\/\1>/gi, "")
+    .replace(
+      /<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi,
+      (_match, level: string, inner: string) => {
+        const title = stripTags(inner).replace(/\s+/g, " ").trim();
+        return title ? `\n\n${"#".repeat(Number(level))} ${title}\n\n` : "";
+      },
+    )
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(/<\/t[dh]>/gi, " | ")
+    .replace(/<\/tr>/gi, "\n")
+    .replace(
+      /<\/?(p|div|section|article|main|ul|ol|table|thead|tbody|blockquote|pre|figure|dl|dt|dd|hr)\b[^>]*>/gi,
+      "\n\n",
+    );
+
+  return decodeHtmlEntities(stripTags(text))
+    .split("\n")
+    .map((line) =>
+      line
+        .replace(/[ \t\u00a0]+/g, " ")
+        .replace(/(\s*\|\s*)+$/, "")
+        .trim(),
+    )
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+
+import { buildKeywordQuery, reciprocalRankFusion } from "./hybrid-search";
+
+describe("hybrid search", () => {
+  describe("buildKeywordQuery", () => {
+    it("ors every distinct term of the query", () => {
+      expect(buildKeywordQuery("Why does ERR-4012 happen? err-4012")).toBe(
+        "'why' | 'does' | 'err-4012' | 'happen'",
+      );
+    });
+
+    it("keeps dotted identifiers and strips trailing punctuation", () => {
+      expect(buildKeywordQuery("Upgrade to v2.10.3.")).toBe(
+        "'upgrade' | 'to' | 'v2.10.3'",
+      );
+    });
+
+    it("drops characters that are meaningful to tsquery", () => {
+      expect(buildKeywordQuery("a & (b | !c) 'd':*")).toBe(
+        "'a' | 'b' | 'c' | 'd'",
+      );
+    });
+
+    it("returns null when no searchable terms remain", () => {
+      expect(buildKeywordQuery("  ?! --  ")).toBeNull();
+    });
+  });
+
+  describe("reciprocalRankFusion", () => {
+    it("favours items ranked by more than one list", () => {
+      const vector = ["a", "b", "c"];
+      const keyword = ["c", "d"];
+      const fused = reciprocalRankFusion([vector, keyword], (item) => item);
+
+      expect(fused.map((entry) => entry.item)).toEqual(["c", "a", "b", "d"]);
+      expect(fused[0].score).toBeCloseTo(1 / 63 + 1 / 61);
+    });
+
+    it("applies the limit after fusing", () => {
+      const fused = reciprocalRankFusion(
+        [
+          ["a", "b"],
+          ["b", "c"],
+        ],
+        (item) => item,
+        {
+          limit: 1,
+        },
+      );
+      expect(fused).toEqual([{ item: "b", score: 1 / 62 + 1 / 61 }]);
+    });
+  });
+});
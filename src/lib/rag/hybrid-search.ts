@@ -0,0 +1,56 @@
+export const RRF_K = 60;
+
+const MAX_KEYWORD_TERMS = 32;
+
+/**
+ * Builds a `to_tsquery('simple', ...)` expression that matches any term of the
+ * user query. Terms are OR-ed so that a pasted identifier (ticket ID, SKU,
+ * error code) is enough to produce a hit inside a longer question.
+ */
+export function buildKeywordQuery(text: string): string | null {
+  const terms = new Set<string>();
+
+  for (const match of text
+    .toLowerCase()
+    .matchAll(/[\p{L}\p{N}_][\p{L}\p{N}_.\-]*/gu)) {
+    const term = match[0].replace(/[.\-]+$/, "");
+    if (!term) continue;
+    terms.add(term);
+    if (terms.size >= MAX_KEYWORD_TERMS) break;
+  }
+
+  if (!terms.size) return null;
+
+  return Array.from(terms)
+    .map((term) => `'${term}'`)
+    .join(" | ");
+}
+
+/**
+ * Reciprocal-rank fusion: every list contributes `1 / (k + rank)` for each of
+ * its items, so items ranked well by several retrievers float to the top.
+ */
+export function reciprocalRankFusion<T>(
+  rankings: T[][],
+  getKey: (item: T) => string,
+  options: { k?: number; limit?: number } = {},
+): Array<{ item: T; score: number }> {
+  const { k = RRF_K, limit } = options;
+  const fused = new Map<string, { item: T; score: number }>();
+
+  for (const ranking of rankings) {
+    ranking.forEach((item, index) => {
+      const key = getKey(item);
+      const contribution = 1 / (k + index + 1);
+      const current = fused.get(key);
+      if (current) {
+        current.score += contribution;
+      } else {
+        fused.set(key, { item, score: contribution });
+      }
+    });
+  }
+
+  const sorted = Array.from(fused.values()).sort((a, b) => b.score - a.score);
+  return limit === undefined ? sorted : sorted.slice(0, limit);
+}
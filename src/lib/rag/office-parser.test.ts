@@ -0,0 +1,104 @@
+import JSZip from "jszip";
+import { describe, expect, it } from "vitest";
+
+import {
+  extractEpubText,
+  extractOdtText,
+  extractPptxText,
+  extractXlsxText,
+} from "./office-parser";
+
+async function buildZip(files: Record<string, string>): Promise<Buffer> {
+  const zip = new JSZip();
+  for (const [name, content] of Object.entries(files)) {
+    zip.file(name, content);
+  }
+  return zip.generateAsync({ type: "nodebuffer" });
+}
+
+describe("office parser", () => {
+  it("extracts slides in order with speaker notes", async () => {
+    const slide = (title: string, body: string) =>
+      `<p:sld><a:p><a:r><a:t>${title}</a:t></a:r></a:p><a:p><a:r><a:t>${body}</a:t></a:r></a:p></p:sld>`;
+    const buffer = await buildZip({
+      "ppt/slides/slide2.xml": slide("Roadmap", "Ship v2"),
+      "ppt/slides/slide10.xml": slide("Thanks", "Questions?"),
+      "ppt/slides/slide1.xml": slide("Welcome", "Agenda &amp; goals"),
+      "ppt/slides/_rels/slide1.xml.rels":
+        '<Relationships><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/notesSlide" Target="../notesSlides/notesSlide1.xml"/></Relationships>',
+      "ppt/notesSlides/notesSlide1.xml":
+        "<p:notes><a:p><a:r><a:t>Say hello</a:t></a:r></a:p><a:p><a:r><a:t>1</a:t></a:r></a:p></p:notes>",
+    });
+
+    expect(await extractPptxText(buffer)).toBe(
+      [
+        "## Slide 1: Welcome",
+        "Agenda & goals",
+        "Notes: Say hello",
+        "## Slide 2: Roadmap",
+        "Ship v2",
+        "## Slide 3: Thanks",
+        "Questions?",
+      ].join("\n\n"),
+    );
+  });
+
+  it("renders spreadsheet rows as records", async () => {
+    const buffer = await buildZip({
+      "xl/workbook.xml":
+        '<workbook><sheets><sheet name="Staff" sheetId="1" r:id="rId1"/></sheets></workbook>',
+      "xl/_rels/workbook.xml.rels":
+        '<Relationships><Relationship Id="rId1" Type="worksheet" Target="worksheets/sheet1.xml"/></Relationships>',
+      "xl/sharedStrings.xml":
+        "<sst><si><t>Name</t></si><si><t>Days</t></si><si><r><t>Ada</t></r><r><t> Lovelace</t></r></si></sst>",
+      "xl/worksheets/sheet1.xml": [
+        "<worksheet><sheetData>",
+        '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="inlineStr"><is><t>Active</t></is></c></row>',
+        '<row r="2"><c r="A2" t="s"><v>2</v></c><c r="B2"><v>20</v></c><c r="C2" t="b"><v>1</v></c></row>',
+        '<row r="3"><c r="B3"><v>5</v></c></row>',
+        "</sheetData></worksheet>",
+      ].join(""),
+    });
+
+    expect(await extractXlsxText(buffer)).toBe(
+      [
+        "## Sheet: Staff",
+        "Name: Ada Lovelace; Days: 20; Active: TRUE",
+        "Days: 5",
+      ].join("\n\n"),
+    );
+  });
+
+  it("keeps ODT headings and paragraphs", async () => {
+    const buffer = await buildZip({
+      "content.xml":
+        '<office:document-content><office:body><office:text><text:h text:outline-level="2">Leave policy</text:h><text:p>Twenty<text:s/>days per year.</text:p></office:text></office:body></office:document-content>',
+    });
+
+    expect(await extractOdtText(buffer)).toBe(
+      "## Leave policy\n\nTwenty days per year.",
+    );
+  });
+
+  it("reads EPUB chapters in spine order", async () => {
+    const buffer = await buildZip({
+      "META-INF/container.xml":
+        '<container><rootfiles><rootfile full-path="OEBPS/content.opf"/></rootfiles></container>',
+      "OEBPS/content.opf": [
+        "<package><manifest>",
+        '<item id="c1" href="text/one.xhtml" media-type="application/xhtml+xml"/>',
+        '<item id="c2" href="text/two.xhtml" media-type="application/xhtml+xml"/>',
+        '<item id="css" href="style.css" media-type="text/css"/>',
+        '</manifest><spine><itemref idref="c2"/><itemref idref="c1"/></spine></package>',
+      ].join(""),
+      "OEBPS/text/one.xhtml":
+        "<html><head><title>One</title></head><body><h1>Chapter One</h1><p>Begin.</p></body></html>",
+      "OEBPS/text/two.xhtml":
+        "<html><body><h1>Preface</h1><p>Hello.</p></body></html>",
+    });
+
+    expect(await extractEpubText(buffer)).toBe(
+      "# Preface\n\nHello.\n\n# Chapter One\n\nBegin.",
+    );
+  });
+});
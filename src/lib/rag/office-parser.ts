@@ -0,0 +1,230 @@
+import JSZip from "jszip";
+import { posix as path } from "node:path";
+import { decodeHtmlEntities, htmlToText } from "./html-to-text";
+import { MAX_TABLE_COLUMNS, formatTableRecords } from "./table-records";
+
+async function readZipText(zip: JSZip, filePath: string) {
+  const file = zip.file(filePath);
+  return file ? file.async("string") : null;
+}
+
+function xmlText(xml: string): string {
+  return decodeHtmlEntities(xml.replace(/<[^>]+>/g, ""));
+}
+
+function getAttribute(tag: string, name: string): string | undefined {
+  const match = new RegExp(`\\s${name}="([^"]*)"`).exec(tag);
+  return match ? decodeHtmlEntities(match[1]) : undefined;
+}
+
+function numberedEntries(zip: JSZip, pattern: RegExp): string[] {
+  return Object.keys(zip.files)
+    .flatMap((name) => {
+      const match = pattern.exec(name);
+      return match ? [{ name, order: Number(match[1]) }] : [];
+    })
+    .sort((a, b) => a.order - b.order)
+    .map((entry) => entry.name);
+}
+
+// Relationship files map rIds to targets relative to the owning part.
+async function readRelationships(zip: JSZip, partPath: string) {
+  const relsPath = path.join(
+    path.dirname(partPath),
+    "_rels",
+    `${path.basename(partPath)}.rels`,
+  );
+  const xml = await readZipText(zip, relsPath);
+  const relationships = new Map<string, { type: string; target: string }>();
+  for (const tag of xml?.match(/<Relationship\b[^>]*>/g) ?? []) {
+    const id = getAttribute(tag, "Id");
+    const target = getAttribute(tag, "Target");
+    if (!id || !target) continue;
+    relationships.set(id, {
+      type: getAttribute(tag, "Type") ?? "",
+      target: target.startsWith("/")
+        ? target.slice(1)
+        : path.join(path.dirname(partPath), target),
+    });
+  }
+  return relationships;
+}
+
+function drawingMlParagraphs(xml: string): string[] {
+  return (xml.match(/<a:p\b[\s\S]*?<\/a:p>/g) ?? [])
+    .map((paragraph) =>
+      (paragraph.match(/<a:t\b[^>]*>[\s\S]*?<\/a:t>|<a:br\b[^>]*\/>/g) ?? [])
+        .map((run) => (run.startsWith("<a:br") ? "\n" : xmlText(run)))
+        .join("")
+        .trim(),
+    )
+    .filter(Boolean);
+}
+
+export async function extractPptxText(buffer: Buffer): Promise<string> {
+  const zip = await JSZip.loadAsync(buffer);
+  const slides = numberedEntries(zip, /^ppt\/slides\/slide(\d+)\.xml$/);
+  const sections: string[] = [];
+
+  for (const [index, slidePath] of slides.entries()) {
+    const xml = (await readZipText(zip, slidePath)) ?? "";
+    const paragraphs = drawingMlParagraphs(xml);
+
+    const relationships = await readRelationships(zip, slidePath);
+    const notesPath = Array.from(relationships.values()).find((rel) =>
+      rel.type.endsWith("/notesSlide"),
+    )?.target;
+    const notesXml = notesPath ? await readZipText(zip, notesPath) : null;
+    // Notes slides repeat the slide number placeholder; keep real sentences.
+    const notes = notesXml
+      ? drawingMlParagraphs(notesXml).filter((line) => !/^\d+$/.test(line))
+      : [];
+
+    if (!paragraphs.length && !notes.length) continue;
+
+    const [title, ...body] = paragraphs;
+    const lines = [`## Slide ${index + 1}${title ? `: ${title}` : ""}`];
+    if (body.length) lines.push(body.join("\n"));
+    if (notes.length) lines.push(`Notes: ${notes.join("\n")}`);
+    sections.push(lines.join("\n\n"));
+  }
+
+  return sections.join("\n\n");
+}
+
+function columnIndex(cellRef: string): number {
+  const letters = /^[A-Z]+/i.exec(cellRef)?.[0].toUpperCase() ?? "";
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+export async function extractXlsxText(buffer: Buffer): Promise<string> {
+  const zip = await JSZip.loadAsync(buffer);
+
+  const sharedStringsXml = await readZipText(zip, "xl/sharedStrings.xml");
+  const sharedStrings = (
+    sharedStringsXml?.match(/<si\b[\s\S]*?<\/si>/g) ?? []
+  ).map((item) =>
+    (item.match(/<t\b[^>]*>[\s\S]*?<\/t>/g) ?? []).map(xmlText).join(""),
+  );
+
+  const workbookPath = "xl/workbook.xml";
+  const workbookXml = (await readZipText(zip, workbookPath)) ?? "";
+  const relationships = await readRelationships(zip, workbookPath);
+  const sheets = (workbookXml.match(/<sheet\b[^>]*>/g) ?? []).map((tag) => ({
+    name: getAttribute(tag, "name") ?? "Sheet",
+    target: relationships.get(getAttribute(tag, "r:id") ?? "")?.target,
+  }));
+
+  const sections: string[] = [];
+
+  for (const sheet of sheets) {
+    if (!sheet.target) continue;
+    const xml = await readZipText(zip, sheet.target);
+    if (!xml) continue;
+
+    const rows = (xml.match(/<row\b[\s\S]*?<\/row>/g) ?? []).map((rowXml) => {
+      const row: string[] = [];
+      const cells = rowXml.match(/<c\b[^>]*\/>|<c\b[^>]*>[\s\S]*?<\/c>/g) ?? [];
+      for (const cellXml of cells) {
+        const openTag = /<c\b[^>]*>/.exec(cellXml)?.[0] ?? "";
+        const ref = getAttribute(openTag, "r");
+        const index = ref ? columnIndex(ref) : row.length;
+        if (index < 0 || index >= MAX_TABLE_COLUMNS) continue;
+
+        const type = getAttribute(openTag, "t");
+        const raw = /<v\b[^>]*>([\s\S]*?)<\/v>/.exec(cellXml)?.[1];
+        let value = "";
+        if (type === "s") {
+          value = sharedStrings[Number(raw)] ?? "";
+        } else if (type === "inlineStr") {
+          value = (cellXml.match(/<t\b[^>]*>[\s\S]*?<\/t>/g) ?? [])
+            .map(xmlText)
+            .join("");
+        } else if (type === "b") {
+          value = raw === "1" ? "TRUE" : "FALSE";
+        } else if (raw !== undefined) {
+          value = decodeHtmlEntities(raw);
+        }
+        row[index] = value;
+      }
+      return Array.from(row, (cell) => cell ?? "");
+    });
+
+    const section = formatTableRecords(`Sheet: ${sheet.name}`, rows);
+    if (section) sections.push(section);
+  }
+
+  return sections.join("\n\n");
+}
+
+// ODF markup is mapped onto the equivalent HTML so htmlToText can render it.
+function odfToHtml(xml: string): string {
+  const body = /<office:body\b[^>]*>([\s\S]*?)<\/office:body>/.exec(xml)?.[1];
+  return (body ?? xml)
+    .replace(
+      /<text:h\b([^>]*)>([\s\S]*?)<\/text:h>/g,
+      (_match, attributes: string, inner: string) => {
+        const outlineLevel =
+          Number(getAttribute(attributes, "text:outline-level")) || 1;
+        const level = Math.min(6, Math.max(1, outlineLevel));
+        return `<h${level}>${inner}</h${level}>`;
+      },
+    )
+    .replace(/<text:p\b[^>]*\/>/g, "")
+    .replace(/<text:p\b[^>]*>/g, "<p>")
+    .replace(/<\/text:p>/g, "</p>")
+    .replace(/<text:list-item\b[^>]*>/g, "<li>")
+    .replace(/<table:table-row\b[^>]*>/g, "<tr>")
+    .replace(/<\/table:table-row>/g, "</tr>")
+    .replace(/<\/table:table-cell>/g, "</td>")
+    .replace(/<\/table:table>/g, "</table>")
+    .replace(/<text:line-break\b[^>]*\/>/g, "<br/>")
+    .replace(/<text:(tab|s)\b[^>]*\/>/g, " ")
+    .replace(/<text:(note|tracked-changes)\b[\s\S]*?<\/text:\1>/g, "");
+}
+
+export async function extractOdtText(buffer: Buffer): Promise<string> {
+  const zip = await JSZip.loadAsync(buffer);
+  const xml = await readZipText(zip, "content.xml");
+  if (!xml) {
+    throw new Error("ODT document is missing content.xml");
+  }
+  return htmlToText(odfToHtml(xml));
+}
+
+export async function extractEpubText(buffer: Buffer): Promise<string> {
+  const zip = await JSZip.loadAsync(buffer);
+  const container = await readZipText(zip, "META-INF/container.xml");
+  const rootTag = container?.match(/<rootfile\b[^>]*>/)?.[0];
+  const packagePath = rootTag ? getAttribute(rootTag, "full-path") : undefined;
+  if (!packagePath) {
+    throw new Error("EPUB document is missing its package file");
+  }
+
+  const packageXml = (await readZipText(zip, packagePath)) ?? "";
+  const packageDir = path.dirname(packagePath);
+  const manifest = new Map<string, string>();
+  for (const tag of packageXml.match(/<item\b[^>]*>/g) ?? []) {
+    const id = getAttribute(tag, "id");
+    const href = getAttribute(tag, "href");
+    const mediaType = getAttribute(tag, "media-type") ?? "";
+    if (id && href && /html/.test(mediaType)) {
+      manifest.set(id, path.join(packageDir, decodeURIComponent(href)));
+    }
+  }
+
+  const sections: string[] = [];
+  for (const tag of packageXml.match(/<itemref\b[^>]*>/g) ?? []) {
+    const href = manifest.get(getAttribute(tag, "idref") ?? "");
+    if (!href) continue;
+    const html = await readZipText(zip, href);
+    const text = html ? htmlToText(html) : "";
+    if (text) sections.push(text);
+  }
+
+  return sections.join("\n\n");
+}
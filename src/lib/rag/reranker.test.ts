@@ -0,0 +1,134 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { KnowledgeBaseSearchChunk } from "app-types/knowledge-base";
+
+vi.mock("server-only", () => ({}));
+vi.mock("lib/ai/models", () => ({
+  customModelProvider: { getModel: vi.fn() },
+}));
+
+const { applyRerankScores, parseRerankChatModel, rerankChunks } = await import(
+  "./reranker"
+);
+
+const chunk = (id: string, score = 0.5): KnowledgeBaseSearchChunk => ({
+  chunkId: id,
+  knowledgeBaseId: "kb-1",
+  documentId: `doc-${id}`,
+  documentName: `${id}.md`,
+  content: `content ${id}`,
+  score,
+});
+
+describe("reranker", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  describe("applyRerankScores", () => {
+    it("orders by rerank score and drops results below the threshold", () => {
+      const result = applyRerankScores(
+        [chunk("a"), chunk("b"), chunk("c")],
+        [
+          { index: 0, score: 0.1 },
+          { index: 1, score: 0.9 },
+          { index: 2, score: 0.4 },
+        ],
+        { threshold: 0.3, limit: 5 },
+      );
+      expect(result.map((c) => [c.chunkId, c.score])).toEqual([
+        ["b", 0.9],
+        ["c", 0.4],
+      ]);
+    });
+
+    it("ignores unknown indexes and applies the limit", () => {
+      const result = applyRerankScores(
+        [chunk("a"), chunk("b")],
+        [
+          { index: 5, score: 1 },
+          { index: 0, score: 0.7 },
+          { index: 1, score: 0.8 },
+        ],
+        { threshold: 0, limit: 1 },
+      );
+      expect(result.map((c) => c.chunkId)).toEqual(["b"]);
+    });
+  });
+
+  describe("parseRerankChatModel", () => {
+    it("splits on the first slash", () => {
+      expect(parseRerankChatModel("openRouter/qwen/qwen3-8b")).toEqual({
+        provider: "openRouter",
+        model: "qwen/qwen3-8b",
+      });
+    });
+
+    it("rejects models without a provider", () => {
+      expect(() => parseRerankChatModel("gpt-4.1-mini")).toThrow();
+    });
+  });
+
+  describe("rerankChunks", () => {
+    it("calls the cohere rerank API and reports billed search units", async () => {
+      vi.stubEnv("COHERE_API_KEY", "test-key");
+      const fetchMock = vi.fn().mockResolvedValue(
+        new Response(
+          JSON.stringify({
+            results: [
+              { index: 1, relevance_score: 0.8 },
+              { index: 0, relevance_score: 0.05 },
+            ],
+            meta: { billed_units: { search_units: 1 } },
+          }),
+        ),
+      );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const result = await rerankChunks({
+        query: "leave policy",
+        chunks: [chunk("a"), chunk("b")],
+        config: {
+          provider: "cohere",
+          model: "rerank-v3.5",
+          candidates: 20,
+          threshold: 0.2,
+        },
+        limit: 6,
+      });
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe("https://api.cohere.com/v2/rerank");
+      expect(JSON.parse(init.body)).toMatchObject({
+        model: "rerank-v3.5",
+        query: "leave policy",
+        documents: ["content a", "content b"],
+      });
+      expect(init.signal).toBeInstanceOf(AbortSignal);
+      expect(result.chunks.map((c) => c.chunkId)).toEqual(["b"]);
+      expect(result.usage).toMatchObject({
+        provider: "cohere",
+        searchUnits: 1,
+        candidates: 2,
+      });
+    });
+
+    it("fails when the provider key is missing", async () => {
+      vi.stubEnv("JINA_API_KEY", "");
+      await expect(
+        rerankChunks({
+          query: "q",
+          chunks: [chunk("a")],
+          config: {
+            provider: "jina",
+            model: "jina-reranker-v2-base-multilingual",
+            candidates: 10,
+            threshold: 0,
+          },
+          limit: 6,
+        }),
+      ).rejects.toThrow("JINA_API_KEY");
+    });
+  });
+});
@@ -0,0 +1,210 @@
+import "server-only";
+
+import { generateObject } from "ai";
+import { z } from "zod";
+import {
+  KnowledgeBaseRerankConfig,
+  KnowledgeBaseSearchChunk,
+} from "app-types/knowledge-base";
+import { customModelProvider } from "lib/ai/models";
+
+export type RerankUsage = {
+  provider: KnowledgeBaseRerankConfig["provider"];
+  model: string;
+  tokens: number;
+  searchUnits?: number;
+  candidates: number;
+};
+
+export type RerankResult = {
+  chunks: KnowledgeBaseSearchChunk[];
+  usage: RerankUsage;
+};
+
+type RerankScore = { index: number; score: number };
+
+type RerankResponse = {
+  scores: RerankScore[];
+  tokens: number;
+  searchUnits?: number;
+};
+
+// A stalled reranker fails the rerank step, so search falls back to the
+// unranked results instead of hanging.
+const RERANK_TIMEOUT_MS = 10_000;
+
+const RERANK_ENDPOINTS = {
+  cohere: {
+    url: "https://api.cohere.com/v2/rerank",
+    apiKey: () => process.env.COHERE_API_KEY,
+    apiKeyName: "COHERE_API_KEY",
+  },
+  jina: {
+    url: "https://api.jina.ai/v1/rerank",
+    apiKey: () => process.env.JINA_API_KEY,
+    apiKeyName: "JINA_API_KEY",
+  },
+} as const;
+
+// Cohere and Jina share the same request and response shape.
+async function rerankWithCrossEncoder(
+  provider: keyof typeof RERANK_ENDPOINTS,
+  model: string,
+  query: string,
+  documents: string[],
+): Promise<RerankResponse> {
+  const endpoint = RERANK_ENDPOINTS[provider];
+  const apiKey = endpoint.apiKey();
+  if (!apiKey) {
+    throw new Error(
+      `${endpoint.apiKeyName} is required for ${provider} rerank`,
+    );
+  }
+
+  const response = await fetch(endpoint.url, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      model,
+      query,
+      documents,
+      top_n: documents.length,
+    }),
+    signal: AbortSignal.timeout(RERANK_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      `${provider} rerank failed with ${response.status}: ${await response.text()}`,
+    );
+  }
+
+  const body = (await response.json()) as {
+    results?: Array<{ index: number; relevance_score: number }>;
+    usage?: { total_tokens?: number };
+    meta?: { billed_units?: { search_units?: number } };
+  };
+
+  return {
+    scores: (body.results ?? []).map((result) => ({
+      index: result.index,
+      score: result.relevance_score,
+    })),
+    tokens: body.usage?.total_tokens ?? 0,
+    searchUnits: body.meta?.billed_units?.search_units,
+  };
+}
+
+export function parseRerankChatModel(model: string) {
+  const separator = model.indexOf("/");
+  if (separator <= 0 || separator === model.length - 1) {
+    throw new Error(
+      `LLM rerank model must be "<provider>/<model>", received "${model}"`,
+    );
+  }
+  return {
+    provider: model.slice(0, separator),
+    model: model.slice(separator + 1),
+  };
+}
+
+async function rerankWithLlm(
+  model: string,
+  query: string,
+  documents: string[],
+): Promise<RerankResponse> {
+  const { object, usage } = await generateObject({
+    model: customModelProvider.getModel(parseRerankChatModel(model)),
+    schema: z.object({
+      scores: z.array(
+        z.object({
+          index: z.number().int(),
+          score: z.number().min(0).max(10),
+        }),
+      ),
+    }),
+    system:
+      "You rate how relevant search passages are to a query. Score every passage from 0 (unrelated) to 10 (directly answers the query). Judge only the passage content.",
+    prompt: [
+      `Query: ${query}`,
+      ...documents.map((document, index) => `[${index}]\n${document}`),
+    ].join("\n\n"),
+    abortSignal: AbortSignal.timeout(RERANK_TIMEOUT_MS),
+  });
+
+  return {
+    scores: object.scores.map((item) => ({
+      index: item.index,
+      score: item.score / 10,
+    })),
+    tokens: usage.totalTokens ?? 0,
+  };
+}
+
+/**
+ * Orders chunks by reranker score, dropping those below the threshold.
+ * Chunks the reranker did not score are treated as irrelevant.
+ */
+export function applyRerankScores(
+  chunks: KnowledgeBaseSearchChunk[],
+  scores: RerankScore[],
+  options: { threshold: number; limit: number },
+): KnowledgeBaseSearchChunk[] {
+  const scoreByIndex = new Map<number, number>();
+  for (const { index, score } of scores) {
+    if (index < 0 || index >= chunks.length) continue;
+    scoreByIndex.set(index, Math.max(score, scoreByIndex.get(index) ?? 0));
+  }
+
+  return Array.from(scoreByIndex, ([index, score]) => ({
+    ...chunks[index],
+    score,
+  }))
+    .filter((chunk) => chunk.score >= options.threshold)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.limit);
+}
+
+export async function rerankChunks(options: {
+  query: string;
+  chunks: KnowledgeBaseSearchChunk[];
+  config: KnowledgeBaseRerankConfig;
+  limit: number;
+}): Promise<RerankResult> {
+  const { query, chunks, config, limit } = options;
+  const usage: RerankUsage = {
+    provider: config.provider,
+    model: config.model,
+    tokens: 0,
+    candidates: chunks.length,
+  };
+  if (!chunks.length) {
+    return { chunks: [], usage };
+  }
+
+  const documents = chunks.map((chunk) => chunk.content);
+  const result: RerankResponse =
+    config.provider === "llm"
+      ? await rerankWithLlm(config.model, query, documents)
+      : await rerankWithCrossEncoder(
+          config.provider,
+          config.model,
+          query,
+          documents,
+        );
+
+  return {
+    chunks: applyRerankScores(chunks, result.scores, {
+      threshold: config.threshold,
+      limit,
+    }),
+    usage: {
+      ...usage,
+      tokens: result.tokens,
+      searchUnits: result.searchUnits,
+    },
+  };
+}
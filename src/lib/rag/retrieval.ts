@@ -0,0 +1,112 @@
+import {
+  KnowledgeBaseEmbeddingConfig,
+  KnowledgeBaseRerankConfig,
+  KnowledgeBaseSearchChunk,
+} from "app-types/knowledge-base";
+import { knowledgeBaseRepository } from "lib/db/repository";
+import { embedQuery } from "./embedder";
+import { reciprocalRankFusion } from "./hybrid-search";
+import { RerankUsage, rerankChunks } from "./reranker";
+
+export type KnowledgeBaseRetrievalUsage = {
+  model: string;
+  tokens: number;
+  knowledgeBaseIds: string[];
+};
+
+export type KnowledgeBaseRetrievalResult = {
+  chunks: KnowledgeBaseSearchChunk[];
+  usage: KnowledgeBaseRetrievalUsage[];
+  rerankUsage?: RerankUsage;
+};
+
+function groupByEmbeddingConfig(
+  configs: Array<{ knowledgeBaseId: string } & KnowledgeBaseEmbeddingConfig>,
+) {
+  const groups = new Map<
+    string,
+    { config: KnowledgeBaseEmbeddingConfig; knowledgeBaseIds: string[] }
+  >();
+
+  for (const { knowledgeBaseId, ...config } of configs) {
+    const key = `${config.provider}:${config.model}:${config.dimension}`;
+    const group = groups.get(key);
+    if (group) {
+      group.knowledgeBaseIds.push(knowledgeBaseId);
+    } else {
+      groups.set(key, { config, knowledgeBaseIds: [knowledgeBaseId] });
+    }
+  }
+
+  return Array.from(groups.values());
+}
+
+export async function retrieveKnowledgeBaseChunks(options: {
+  knowledgeBaseIds: string[];
+  documentIds?: string[];
+  query: string;
+  limit: number;
+  rerank?: KnowledgeBaseRerankConfig | null;
+}): Promise<KnowledgeBaseRetrievalResult> {
+  const { knowledgeBaseIds, documentIds, query, limit, rerank } = options;
+  if (!knowledgeBaseIds.length || !query.trim()) {
+    return { chunks: [], usage: [] };
+  }
+
+  const configs =
+    await knowledgeBaseRepository.listEmbeddingConfigs(knowledgeBaseIds);
+
+  // With a reranker, more candidates are fetched than will be returned.
+  const candidateLimit = rerank ? Math.max(rerank.candidates, limit) : limit;
+
+  // Each corpus is searched with the model it was ingested with.
+  const results = await Promise.all(
+    groupByEmbeddingConfig(configs).map(
+      async ({ config, knowledgeBaseIds }) => {
+        const { embeddings, tokens } = await embedQuery(query, config);
+        const embedding = embeddings.at(0);
+        const chunks = embedding
+          ? await knowledgeBaseRepository.searchKnowledgeBaseChunks({
+              knowledgeBaseIds,
+              documentIds,
+              embedding,
+              query,
+              limit: candidateLimit,
+            })
+          : [];
+        return {
+          chunks,
+          usage: { model: config.model, tokens, knowledgeBaseIds },
+        };
+      },
+    ),
+  );
+
+  const chunks =
+    results.length === 1
+      ? results[0].chunks
+      : reciprocalRankFusion(
+          results.map((result) => result.chunks),
+          (chunk) => chunk.chunkId,
+          { limit: candidateLimit },
+        ).map(({ item }) => item);
+  const usage = results.map((result) => result.usage);
+
+  if (!rerank) {
+    return { chunks, usage };
+  }
+
+  try {
+    const reranked = await rerankChunks({
+      query,
+      chunks,
+      config: rerank,
+      limit,
+    });
+    return { chunks: reranked.chunks, usage, rerankUsage: reranked.usage };
+  } catch (error) {
+    // A failing reranker should not take knowledge base answers down with it.
+    console.error("Knowledge base rerank failed", error);
+    return { chunks: chunks.slice(0, limit), usage };
+  }
+}
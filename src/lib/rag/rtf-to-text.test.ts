@@ -0,0 +1,16 @@
+import { describe, expect, it } from "vitest";
+
+import { rtfToText } from "./rtf-to-text";
+
+describe("rtfToText", () => {
+  it("drops control groups and keeps paragraphs", () => {
+    const rtf =
+      "{\\rtf1\\ansi{\\fonttbl{\\f0 Arial;}}{\\colortbl;\\red0\\green0\\blue0;}{\\*\\generator Writer;}\\f0\\fs24 Hello {\\b bold} world.\\par Second\\tab line\\line wrapped.\\par}";
+    expect(rtfToText(rtf)).toBe("Hello bold world.\n\nSecond line\nwrapped.");
+  });
+
+  it("decodes hex and unicode escapes", () => {
+    const rtf = "{\\rtf1 Caf\\'e9 \\u8212? dash \\{braces\\}}";
+    expect(rtfToText(rtf)).toBe("Café — dash {braces}");
+  });
+});
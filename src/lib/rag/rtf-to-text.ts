@@ -0,0 +1,166 @@
+// Destinations that hold metadata or binary payloads rather than body text.
+const SKIPPED_DESTINATIONS = new Set([
+  "fonttbl",
+  "colortbl",
+  "stylesheet",
+  "listtable",
+  "listoverridetable",
+  "revtbl",
+  "rsidtbl",
+  "info",
+  "pict",
+  "object",
+  "header",
+  "headerl",
+  "headerr",
+  "headerf",
+  "footer",
+  "footerl",
+  "footerr",
+  "footerf",
+  "generator",
+  "xmlnstbl",
+  "themedata",
+  "colorschememapping",
+  "datastore",
+  "latentstyles",
+]);
+
+type GroupState = {
+  skip: boolean;
+  unicodeSkip: number;
+};
+
+/**
+ * Extracts plain text from an RTF document. Formatting is dropped; paragraph
+ * and line breaks, tabs, hex escapes and Unicode escapes are preserved.
+ */
+export function rtfToText(rtf: string): string {
+  const stack: GroupState[] = [];
+  let state: GroupState = { skip: false, unicodeSkip: 1 };
+  let output = "";
+  let pendingSkip = 0;
+  let index = 0;
+
+  const emit = (text: string) => {
+    if (pendingSkip > 0) {
+      pendingSkip -= 1;
+      return;
+    }
+    if (!state.skip) output += text;
+  };
+
+  while (index < rtf.length) {
+    const char = rtf[index];
+
+    if (char === "{") {
+      stack.push(state);
+      state = { ...state };
+      index += 1;
+      continue;
+    }
+
+    if (char === "}") {
+      state = stack.pop() ?? state;
+      index += 1;
+      continue;
+    }
+
+    if (char === "\r" || char === "\n") {
+      index += 1;
+      continue;
+    }
+
+    if (char !== "\\") {
+      emit(char);
+      index += 1;
+      continue;
+    }
+
+    const next = rtf[index + 1];
+
+    if (next === "\\" || next === "{" || next === "}") {
+      emit(next);
+      index += 2;
+      continue;
+    }
+
+    if (next === "*") {
+      state.skip = true;
+      index += 2;
+      continue;
+    }
+
+    if (next === "'") {
+      const code = Number.parseInt(rtf.slice(index + 2, index + 4), 16);
+      if (Number.isFinite(code)) emit(String.fromCharCode(code));
+      index += 4;
+      continue;
+    }
+
+    if (next === "~") {
+      emit(" ");
+      index += 2;
+      continue;
+    }
+
+    if (next === "\r" || next === "\n") {
+      emit("\n");
+      index += 2;
+      continue;
+    }
+
+    const match = /^([a-z]+)(-?\d+)? ?/i.exec(rtf.slice(index + 1, index + 40));
+    if (!match) {
+      index += 2;
+      continue;
+    }
+
+    const [token, word, param] = match;
+    index += 1 + token.length;
+
+    if (SKIPPED_DESTINATIONS.has(word)) {
+      state.skip = true;
+      continue;
+    }
+
+    switch (word) {
+      case "par":
+        emit("\n\n");
+        break;
+      case "line":
+      case "row":
+        emit("\n");
+        break;
+      case "tab":
+        emit("\t");
+        break;
+      case "cell":
+        emit(" | ");
+        break;
+      case "uc":
+        state.unicodeSkip = Number(param ?? 1);
+        break;
+      case "u": {
+        const code = Number(param ?? 0);
+        emit(String.fromCharCode(code < 0 ? code + 65536 : code));
+        pendingSkip = state.unicodeSkip;
+        break;
+      }
+      default:
+        break;
+    }
+  }
+
+  return output
+    .split("\n")
+    .map((line) =>
+      line
+        .replace(/[ \t]+/g, " ")
+        .replace(/(\s*\|\s*)+$/, "")
+        .trim(),
+    )
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
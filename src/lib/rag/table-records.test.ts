@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+
+import { formatTableRecords, parseCsv } from "./table-records";
+
+describe("table records", () => {
+  it("parses quoted CSV fields", () => {
+    expect(parseCsv('name,note\r\n"Doe, Jane","said ""hi"""\n')).toEqual([
+      ["name", "note"],
+      ["Doe, Jane", 'said "hi"'],
+    ]);
+  });
+
+  it("detects semicolon delimiters", () => {
+    expect(parseCsv("a;b\n1;2")).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+  });
+
+  it("labels rows with their headers and names blank columns", () => {
+    expect(
+      formatTableRecords("Prices", [
+        ["Item", "", "Price"],
+        ["Tea", "green", "3"],
+        ["", "", ""],
+      ]),
+    ).toBe("## Prices\n\nItem: Tea; Column B: green; Price: 3");
+  });
+});
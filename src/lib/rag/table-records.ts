@@ -0,0 +1,97 @@
+export const MAX_TABLE_COLUMNS = 200;
+
+function columnName(index: number): string {
+  let name = "";
+  let value = index + 1;
+  while (value > 0) {
+    const remainder = (value - 1) % 26;
+    name = String.fromCharCode(65 + remainder) + name;
+    value = Math.floor((value - 1) / 26);
+  }
+  return name;
+}
+
+/**
+ * Renders a table as one "Header: value; Header: value" record per row, using
+ * the first non-empty row as the header.
+ */
+export function formatTableRecords(title: string, rows: string[][]): string {
+  const nonEmpty = rows.filter((row) => row.some((cell) => cell.trim()));
+  if (!nonEmpty.length) return "";
+
+  const [header, ...records] = nonEmpty;
+  const columns = Math.min(
+    MAX_TABLE_COLUMNS,
+    Math.max(...nonEmpty.map((row) => row.length)),
+  );
+  const labels = Array.from(
+    { length: columns },
+    (_, index) => header[index]?.trim() || `Column ${columnName(index)}`,
+  );
+
+  const lines = records.map((row) =>
+    labels
+      .map((label, index) => {
+        const value = row[index]?.trim();
+        return value ? `${label}: ${value}` : null;
+      })
+      .filter(Boolean)
+      .join("; "),
+  );
+
+  if (!lines.length) {
+    lines.push(labels.join("; "));
+  }
+
+  return [`## ${title}`, ...lines].join("\n\n");
+}
+
+export function parseCsv(text: string): string[][] {
+  const [firstLine = ""] = text.split("\n", 1);
+  const delimiter =
+    (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0)
+      ? ";"
+      : ",";
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && !field) {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n") {
+      row.push(field.replace(/\r$/, ""));
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length) {
+    row.push(field.replace(/\r$/, ""));
+    rows.push(row);
+  }
+
+  return rows;
+}
@@ -1,6 +1,6 @@
 import { describe, expect, it } from "vitest";
 
-import { chunkText, estimateTokenCount } from "./text-chunker";
+import { chunkDocument, chunkText, estimateTokenCount } from "./text-chunker";
 
 describe("text chunker", () => {
   it("returns entire text when under token limit", () => {
@@ -25,4 +25,56 @@ describe("text chunker", () => {
       estimateTokenCount(firstChunk),
     );
   });
+
+  it("records heading hierarchy and offsets for each chunk", () => {
+    const text = [
+      "# Handbook",
+      "Intro text.",
+      "## Leave policy",
+      "Employees get 20 days.",
+      "## Expenses",
+      "Submit receipts monthly.",
+    ].join("\n\n");
+    const chunks = chunkDocument({ text }, { maxTokens: 12 });
+
+    expect(chunks.map((chunk) => chunk.metadata.headings)).toEqual([
+      ["Handbook"],
+      ["Handbook", "Leave policy"],
+      ["Handbook", "Expenses"],
+    ]);
+    for (const chunk of chunks) {
+      const { startOffset, endOffset } = chunk.metadata;
+      expect(text.slice(startOffset, endOffset)).toBe(chunk.content);
+    }
+  });
+
+  it("maps chunks to page numbers", () => {
+    const pageOne = "First page text.";
+    const pageTwo = "Second page text.";
+    const text = `${pageOne}\n\n${pageTwo}`;
+    const chunks = chunkDocument(
+      {
+        text,
+        pages: [
+          { pageNumber: 1, start: 0, end: pageOne.length },
+          { pageNumber: 2, start: pageOne.length + 2, end: text.length },
+        ],
+      },
+      { maxTokens: 6 },
+    );
+
+    expect(chunks.map((chunk) => chunk.metadata)).toMatchObject([
+      { pageStart: 1, pageEnd: 1 },
+      { pageStart: 2, pageEnd: 2 },
+    ]);
+
+    const [combined] = chunkDocument({
+      text,
+      pages: [
+        { pageNumber: 1, start: 0, end: pageOne.length },
+        { pageNumber: 2, start: pageOne.length + 2, end: text.length },
+      ],
+    });
+    expect(combined.metadata).toMatchObject({ pageStart: 1, pageEnd: 2 });
+  });
 });
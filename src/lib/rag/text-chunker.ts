@@ -1,4 +1,6 @@
 import { encoding_for_model, Tiktoken } from "@dqbd/tiktoken";
+import { KnowledgeBaseChunkMetadata } from "app-types/knowledge-base";
+import { DocumentPage, ExtractedDocument } from "./document-parser";
 
 let embeddingEncoding: Tiktoken | null = null;
 const decoder =
@@ -26,9 +28,88 @@ const DEFAULT_OPTIONS: Required<ChunkOptions> = {
   overlapTokens: 100,
 };
 
-export function chunkText(text: string, options: ChunkOptions = {}): string[] {
+type TextBlock = {
+  text: string;
+  start: number;
+  end: number;
+  heading?: { level: number; title: string };
+};
+
+export type DocumentChunk = {
+  content: string;
+  metadata: KnowledgeBaseChunkMetadata;
+};
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*$/;
+const FENCE_PATTERN = /^(```|~~~)/;
+
+// Splits text into paragraphs and Markdown headings, keeping character offsets
+// into the original text.
+function splitBlocks(text: string): TextBlock[] {
+  const blocks: TextBlock[] = [];
+  let paragraph: { start: number; end: number } | null = null;
+  let inFence = false;
+  let offset = 0;
+
+  const closeParagraph = () => {
+    if (!paragraph) return;
+    const content = text.slice(paragraph.start, paragraph.end).trim();
+    if (content) {
+      blocks.push({ text: content, ...paragraph });
+    }
+    paragraph = null;
+  };
+
+  for (const line of text.split("\n")) {
+    const lineStart = offset;
+    const lineEnd = offset + line.length;
+    offset = lineEnd + 1;
+    const trimmed = line.trim();
+
+    if (FENCE_PATTERN.test(trimmed)) {
+      inFence = !inFence;
+    }
+
+    const heading = inFence ? null : HEADING_PATTERN.exec(trimmed);
+    if (heading) {
+      closeParagraph();
+      blocks.push({
+        text: trimmed,
+        start: lineStart,
+        end: lineEnd,
+        heading: { level: heading[1].length, title: heading[2] },
+      });
+      continue;
+    }
+
+    if (!trimmed && !inFence) {
+      closeParagraph();
+      continue;
+    }
+
+    if (paragraph) {
+      paragraph.end = lineEnd;
+    } else {
+      paragraph = { start: lineStart, end: lineEnd };
+    }
+  }
+
+  closeParagraph();
+  return blocks;
+}
+
+function findPage(pages: DocumentPage[], offset: number): number | undefined {
+  return pages.find((page) => offset < page.end)?.pageNumber;
+}
+
+export function chunkDocument(
+  document: ExtractedDocument,
+  options: ChunkOptions = {},
+): DocumentChunk[] {
   const { maxTokens, overlapTokens } = { ...DEFAULT_OPTIONS, ...options };
+  const { text, pages } = document;
   const encoding = getEncoding();
+  const separatorTokens = encoding.encode("\n\n").length;
 
   const decodeTokens = (tokens: Uint32Array | number[]): string => {
     const array =
@@ -43,59 +124,109 @@ export function chunkText(text: string, options: ChunkOptions = {}): string[] {
     return Buffer.from(decoded).toString("utf8");
   };
 
-  const paragraphs = text
-    .split(/\n{2,}/)
-    .map((paragraph) => paragraph.trim())
-    .filter(Boolean);
-
-  const chunks: string[] = [];
-  let currentTokens: number[] = [];
+  const chunks: DocumentChunk[] = [];
+  const headingStack: Array<{ level: number; title: string }> = [];
+  let current: TextBlock[] = [];
+  let currentTokens = 0;
+  let currentHeadings: string[] = [];
+
+  const pushChunk = (content: string, start: number, end: number) => {
+    if (!content) return;
+    const metadata: KnowledgeBaseChunkMetadata = {
+      startOffset: start,
+      endOffset: end,
+    };
+    if (currentHeadings.length) {
+      metadata.headings = currentHeadings;
+    }
+    if (pages?.length) {
+      metadata.pageStart = findPage(pages, start);
+      metadata.pageEnd = findPage(pages, Math.max(start, end - 1));
+    }
+    chunks.push({ content, metadata });
+  };
 
   const flushChunk = () => {
-    if (!currentTokens.length) return;
-    const chunkText = decodeTokens(currentTokens).trim();
-    if (chunkText) {
-      chunks.push(chunkText);
+    // A run of headings without body text is not worth a chunk; their titles
+    // are carried in the metadata of the chunks that follow.
+    if (current.some((block) => !block.heading)) {
+      pushChunk(
+        current.map((block) => block.text).join("\n\n"),
+        current[0].start,
+        current[current.length - 1].end,
+      );
     }
+    current = [];
+    currentTokens = 0;
   };
 
-  for (const paragraph of paragraphs) {
-    const paragraphTokens = encoding.encode(paragraph);
+  const appendBlock = (block: TextBlock, tokenCount: number) => {
+    if (!current.length) {
+      currentHeadings = headingStack.map((heading) => heading.title);
+    }
+    current.push(block);
+    currentTokens += tokenCount + separatorTokens;
+  };
 
-    if (paragraphTokens.length > maxTokens) {
-      if (currentTokens.length) {
-        flushChunk();
-        currentTokens = [];
+  for (const block of splitBlocks(text)) {
+    if (block.heading) {
+      flushChunk();
+      while (
+        headingStack.length &&
+        headingStack[headingStack.length - 1].level >= block.heading.level
+      ) {
+        headingStack.pop();
       }
+      headingStack.push(block.heading);
+      appendBlock(block, encoding.encode(block.text).length);
+      continue;
+    }
+
+    const blockTokens = encoding.encode(block.text);
+
+    if (blockTokens.length > maxTokens) {
+      flushChunk();
+      currentHeadings = headingStack.map((heading) => heading.title);
 
       let start = 0;
-      while (start < paragraphTokens.length) {
-        const slice = paragraphTokens.slice(start, start + maxTokens);
-        const chunkText = decodeTokens(slice).trim();
-        if (chunkText) {
-          chunks.push(chunkText);
-        }
+      let charOffset = block.start;
+      while (start < blockTokens.length) {
+        const slice = blockTokens.slice(start, start + maxTokens);
+        const decoded = decodeTokens(slice);
+        pushChunk(
+          decoded.trim(),
+          charOffset,
+          Math.min(block.end, charOffset + decoded.length),
+        );
         if (slice.length < maxTokens) {
           break;
         }
-        start += Math.max(1, maxTokens - overlapTokens);
+        const step = Math.max(1, maxTokens - overlapTokens);
+        charOffset += decodeTokens(
+          blockTokens.slice(start, start + step),
+        ).length;
+        start += step;
       }
       continue;
     }
 
-    if (currentTokens.length + paragraphTokens.length > maxTokens) {
+    if (currentTokens + blockTokens.length > maxTokens) {
       flushChunk();
-      currentTokens = [];
     }
 
-    currentTokens.push(...paragraphTokens, ...encoding.encode("\n\n"));
+    appendBlock(block, blockTokens.length);
   }
 
   flushChunk();
 
   if (!chunks.length && text.trim()) {
-    chunks.push(text.trim());
+    const start = text.length - text.trimStart().length;
+    pushChunk(text.trim(), start, text.trimEnd().length);
   }
 
   return chunks;
 }
+
+export function chunkText(text: string, options: ChunkOptions = {}): string[] {
+  return chunkDocument({ text }, options).map((chunk) => chunk.content);
+}
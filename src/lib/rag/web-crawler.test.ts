@@ -0,0 +1,168 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("lib/storage/object-storage", () => ({
+  generateDocumentStorageKey: vi.fn(),
+  uploadObject: vi.fn(),
+}));
+
+vi.mock("node:dns/promises", () => ({
+  lookup: vi.fn(async () => [{ address: "93.184.216.34", family: 4 }]),
+}));
+
+const {
+  createUrlFilter,
+  discoverCrawlPages,
+  extractPageLinks,
+  parseSitemap,
+  pathPatternToRegExp,
+} = await import("./web-crawler");
+
+function stubPages(pages: Record<string, { body: string; type: string }>) {
+  const fetchMock = vi.fn(async (url: string) => {
+    const page = pages[url];
+    return page
+      ? new Response(page.body, { headers: { "content-type": page.type } })
+      : new Response("missing", { status: 404 });
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+const html = (links: string[]) => ({
+  type: "text/html; charset=utf-8",
+  body: `<html><body>${links.map((href) => `<a href="${href}">link</a>`).join("")}</body></html>`,
+});
+
+describe("web crawler", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("matches single and multi segment wildcards", () => {
+    const pattern = pathPatternToRegExp("/docs/*");
+    expect(pattern.test("/docs/intro")).toBe(true);
+    expect(pattern.test("/docs/guides/setup")).toBe(false);
+    expect(pathPatternToRegExp("docs/**").test("/docs/guides/setup")).toBe(
+      true,
+    );
+    expect(pathPatternToRegExp("/v1.0/*").test("/v1x0/a")).toBe(false);
+  });
+
+  it("applies exclude patterns before include patterns", () => {
+    const accept = createUrlFilter({
+      include: ["/docs/**"],
+      exclude: ["/docs/changelog/**"],
+    });
+    expect(accept(new URL("https://a.dev/docs/intro"))).toBe(true);
+    expect(accept(new URL("https://a.dev/docs/changelog/v2"))).toBe(false);
+    expect(accept(new URL("https://a.dev/blog/post"))).toBe(false);
+  });
+
+  it("parses sitemaps and sitemap indexes", () => {
+    expect(
+      parseSitemap(
+        "<urlset><url><loc>https://a.dev/a?x=1&amp;y=2</loc></url><url><loc><![CDATA[https://a.dev/b]]></loc></url></urlset>",
+      ),
+    ).toEqual({
+      pages: ["https://a.dev/a?x=1&y=2", "https://a.dev/b"],
+      sitemaps: [],
+    });
+    expect(
+      parseSitemap(
+        "<sitemapindex><sitemap><loc>https://a.dev/docs.xml</loc></sitemap></sitemapindex>",
+      ),
+    ).toEqual({ pages: [], sitemaps: ["https://a.dev/docs.xml"] });
+  });
+
+  it("resolves links and drops fragments and non-http schemes", () => {
+    expect(
+      extractPageLinks(
+        `<a href="/docs/b#part">B</a><a class="x" href='c'>C</a><a href="mailto:x@a.dev">M</a>`,
+        "https://a.dev/docs/a",
+      ),
+    ).toEqual(["https://a.dev/docs/b", "https://a.dev/docs/c"]);
+  });
+
+  it("collects filtered pages from nested sitemaps up to the page limit", async () => {
+    stubPages({
+      "https://a.dev/sitemap.xml": {
+        type: "application/xml",
+        body: "<sitemapindex><sitemap><loc>https://a.dev/docs.xml</loc></sitemap></sitemapindex>",
+      },
+      "https://a.dev/docs.xml": {
+        type: "application/xml",
+        body: [
+          "<urlset>",
+          "<url><loc>https://a.dev/docs/a</loc></url>",
+          "<url><loc>https://a.dev/blog/x</loc></url>",
+          "<url><loc>https://other.dev/docs/b</loc></url>",
+          "<url><loc>https://a.dev/docs/c</loc></url>",
+          "<url><loc>https://a.dev/docs/d</loc></url>",
+          "</urlset>",
+        ].join(""),
+      },
+    });
+
+    await expect(
+      discoverCrawlPages({
+        url: "https://a.dev/sitemap.xml",
+        include: ["/docs/**"],
+        exclude: [],
+        maxPages: 2,
+      }),
+    ).resolves.toEqual(["https://a.dev/docs/a", "https://a.dev/docs/c"]);
+  });
+
+  it("follows same-site links below the starting path", async () => {
+    stubPages({
+      "https://a.dev/docs/": html(["/docs/a", "/blog/x", "https://b.dev/docs"]),
+      "https://a.dev/docs/a": html(["/docs/b", "/docs/logo.png", "/docs/"]),
+      "https://a.dev/docs/b": html([]),
+    });
+
+    await expect(
+      discoverCrawlPages({
+        url: "https://a.dev/docs/",
+        include: [],
+        exclude: ["/docs/b"],
+        maxPages: 10,
+      }),
+    ).resolves.toEqual(["https://a.dev/docs/", "https://a.dev/docs/a"]);
+  });
+
+  it("reports every visit and stops when the callback throws", async () => {
+    stubPages({
+      "https://a.dev/docs/": html(["/docs/a", "/docs/b"]),
+      "https://a.dev/docs/a": html([]),
+      "https://a.dev/docs/b": html([]),
+    });
+    const onVisit = vi
+      .fn()
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error("lease lost"));
+
+    await expect(
+      discoverCrawlPages({
+        url: "https://a.dev/docs/",
+        include: [],
+        exclude: [],
+        maxPages: 10,
+        onVisit,
+      }),
+    ).rejects.toThrow("lease lost");
+    expect(onVisit).toHaveBeenCalledTimes(2);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("fails when the starting page cannot be fetched", async () => {
+    stubPages({});
+    await expect(
+      discoverCrawlPages({
+        url: "https://a.dev/docs/",
+        include: [],
+        exclude: [],
+        maxPages: 10,
+      }),
+    ).rejects.toThrow("404");
+  });
+});
@@ -0,0 +1,227 @@
+import { decodeHtmlEntities } from "./html-to-text";
+import { readWebResourceText, requestWebResource } from "./web-source";
+
+const MAX_SITEMAP_FILES = 25;
+// Link discovery may visit more pages than it keeps, since pages outside the
+// include patterns are still followed to reach the ones inside them.
+const LINK_CRAWL_VISIT_FACTOR = 4;
+const MAX_LINK_CRAWL_VISITS = 2000;
+
+const NON_PAGE_EXTENSION =
+  /\.(png|jpe?g|gif|svg|webp|ico|css|js|mjs|json|xml|pdf|zip|gz|tar|mp[34]|mov|webm|woff2?|ttf|eot)$/i;
+
+export type CrawlOptions = {
+  url: string;
+  include: string[];
+  exclude: string[];
+  maxPages: number;
+  // Called after every fetched page or sitemap; throwing stops discovery.
+  onVisit?: () => Promise<void>;
+};
+
+/**
+ * Converts a path pattern into a regular expression: `*` matches within one
+ * path segment and `**` across segments, so `/docs/**` matches every page
+ * below /docs.
+ */
+export function pathPatternToRegExp(pattern: string): RegExp {
+  const normalized = pattern.startsWith("/") ? pattern : `/${pattern}`;
+  const source = normalized
+    .split("**")
+    .map((part) =>
+      part
+        .split("*")
+        .map((literal) => literal.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+        .join("[^/]*"),
+    )
+    .join(".*");
+  return new RegExp(`^${source}$`);
+}
+
+export function createUrlFilter(options: {
+  include: string[];
+  exclude: string[];
+}): (url: URL) => boolean {
+  const include = options.include.map(pathPatternToRegExp);
+  const exclude = options.exclude.map(pathPatternToRegExp);
+  return (url) => {
+    if (exclude.some((pattern) => pattern.test(url.pathname))) return false;
+    return !include.length || include.some((p) => p.test(url.pathname));
+  };
+}
+
+export function isSitemapUrl(url: URL): boolean {
+  return /\.xml$/i.test(url.pathname);
+}
+
+export function parseSitemap(xml: string): {
+  pages: string[];
+  sitemaps: string[];
+} {
+  const locations = Array.from(
+    xml.matchAll(/<loc>\s*([\s\S]*?)\s*<\/loc>/gi),
+    (match) =>
+      decodeHtmlEntities(
+        match[1].replace(/^<!\[CDATA\[([\s\S]*)\]\]>$/, "$1").trim(),
+      ),
+  ).filter(Boolean);
+
+  return /<sitemapindex\b/i.test(xml)
+    ? { pages: [], sitemaps: locations }
+    : { pages: locations, sitemaps: [] };
+}
+
+export function extractPageLinks(html: string, baseUrl: string): string[] {
+  const links = new Set<string>();
+  for (const match of html.matchAll(
+    /<a\b[^>]*?\bhref\s*=\s*(["'])([\s\S]*?)\1/gi,
+  )) {
+    try {
+      const url = new URL(decodeHtmlEntities(match[2].trim()), baseUrl);
+      if (url.protocol !== "http:" && url.protocol !== "https:") continue;
+      url.hash = "";
+      links.add(url.toString());
+    } catch {
+      // Ignore malformed hrefs.
+    }
+  }
+  return Array.from(links);
+}
+
+// Without include patterns, link discovery stays below the starting path.
+function isInStartingScope(root: URL, url: URL): boolean {
+  const scope = root.pathname
+    .replace(/\/[^/]*\.[^/]*$/, "/")
+    .replace(/\/+$/, "");
+  return (
+    !scope || url.pathname === scope || url.pathname.startsWith(`${scope}/`)
+  );
+}
+
+async function discoverFromSitemap(
+  root: URL,
+  options: CrawlOptions,
+): Promise<string[]> {
+  const accept = createUrlFilter(options);
+  const pages = new Set<string>();
+  const queue = [root.toString()];
+  const seen = new Set(queue);
+
+  for (
+    let fetched = 0;
+    queue.length &&
+    fetched < MAX_SITEMAP_FILES &&
+    pages.size < options.maxPages;
+    fetched++
+  ) {
+    const sitemapUrl = queue.shift()!;
+    let xml: string;
+    try {
+      xml = await readWebResourceText(
+        await requestWebResource(sitemapUrl, "application/xml,text/xml"),
+      );
+    } catch (error) {
+      if (sitemapUrl === root.toString()) throw error;
+      console.warn(`[RAG] Skipping unreadable sitemap ${sitemapUrl}`, error);
+      continue;
+    } finally {
+      await options.onVisit?.();
+    }
+
+    const { pages: pageUrls, sitemaps } = parseSitemap(xml);
+    for (const nested of sitemaps) {
+      if (!seen.has(nested)) {
+        seen.add(nested);
+        queue.push(nested);
+      }
+    }
+    for (const pageUrl of pageUrls) {
+      if (pages.size >= options.maxPages) break;
+      try {
+        const url = new URL(pageUrl);
+        url.hash = "";
+        if (url.hostname === root.hostname && accept(url)) {
+          pages.add(url.toString());
+        }
+      } catch {
+        // Ignore malformed sitemap entries.
+      }
+    }
+  }
+
+  return Array.from(pages);
+}
+
+async function discoverByLinks(
+  root: URL,
+  options: CrawlOptions,
+): Promise<string[]> {
+  const accept = createUrlFilter(options);
+  const exclude = createUrlFilter({ include: [], exclude: options.exclude });
+  const maxVisits = Math.min(
+    options.maxPages * LINK_CRAWL_VISIT_FACTOR,
+    MAX_LINK_CRAWL_VISITS,
+  );
+
+  const start = new URL(root);
+  start.hash = "";
+  const pages: string[] = [];
+  const queue = [start.toString()];
+  const seen = new Set(queue);
+
+  for (
+    let visits = 0;
+    queue.length && visits < maxVisits && pages.length < options.maxPages;
+    visits++
+  ) {
+    const pageUrl = queue.shift()!;
+    let html: string;
+    try {
+      const response = await requestWebResource(
+        pageUrl,
+        "text/html,application/xhtml+xml",
+      );
+      if (!/html/i.test(response.headers.get("content-type") ?? "")) continue;
+      html = await readWebResourceText(response);
+    } catch (error) {
+      if (pageUrl === start.toString()) throw error;
+      continue;
+    } finally {
+      await options.onVisit?.();
+    }
+
+    if (accept(new URL(pageUrl))) {
+      pages.push(pageUrl);
+    }
+
+    for (const link of extractPageLinks(html, pageUrl)) {
+      if (seen.has(link)) continue;
+      const url = new URL(link);
+      if (
+        url.origin !== root.origin ||
+        NON_PAGE_EXTENSION.test(url.pathname) ||
+        !exclude(url) ||
+        (!options.include.length && !isInStartingScope(root, url))
+      ) {
+        continue;
+      }
+      seen.add(link);
+      queue.push(link);
+    }
+  }
+
+  return pages;
+}
+
+/**
+ * Lists the pages a crawl import should fetch: the entries of a sitemap, or
+ * the same-site pages reachable by links from a starting page.
+ */
+export async function discoverCrawlPages(
+  options: CrawlOptions,
+): Promise<string[]> {
+  const root = new URL(options.url);
+  return isSitemapUrl(root)
+    ? discoverFromSitemap(root, options)
+    : discoverByLinks(root, options);
+}
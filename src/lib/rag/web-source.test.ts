@@ -0,0 +1,146 @@
+import { createServer } from "node:http";
+import { AddressInfo } from "node:net";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("lib/storage/object-storage", () => ({
+  generateDocumentStorageKey: vi.fn(),
+  uploadObject: vi.fn(),
+}));
+
+vi.mock("node:dns/promises", () => ({
+  lookup: vi.fn(async (hostname: string) => [
+    {
+      address: hostname.startsWith("internal.")
+        ? "169.254.169.254"
+        : "93.184.216.34",
+      family: 4,
+    },
+  ]),
+}));
+
+const { isPrivateAddress, readWebResourceText, requestWebResource } =
+  await import("./web-source");
+
+describe("isPrivateAddress", () => {
+  it("flags loopback, private, link-local and mapped addresses", () => {
+    for (const address of [
+      "127.0.0.1",
+      "10.1.2.3",
+      "172.20.0.1",
+      "192.168.1.1",
+      "169.254.169.254",
+      "100.64.0.1",
+      "0.0.0.0",
+      "::1",
+      "fd00::1",
+      "fe80::1",
+      "::ffff:127.0.0.1",
+    ]) {
+      expect(isPrivateAddress(address), address).toBe(true);
+    }
+  });
+
+  it("accepts public addresses", () => {
+    expect(isPrivateAddress("93.184.216.34")).toBe(false);
+    expect(isPrivateAddress("2606:2800:220:1:248:1893:25c8:1946")).toBe(false);
+  });
+});
+
+describe("requestWebResource", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function stubResponses(responses: Record<string, Response>) {
+    const fetchMock = vi.fn(
+      async (url: string) =>
+        responses[url] ?? new Response("missing", { status: 404 }),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    return fetchMock;
+  }
+
+  it("refuses hosts that resolve to private addresses", async () => {
+    const fetchMock = stubResponses({});
+
+    await expect(
+      requestWebResource("http://internal.example.com/", "text/html"),
+    ).rejects.toThrow("private network address");
+    await expect(
+      requestWebResource("http://127.0.0.1:3000/", "text/html"),
+    ).rejects.toThrow("private network address");
+    await expect(
+      requestWebResource("http://[::1]/", "text/html"),
+    ).rejects.toThrow("private network address");
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("checks every redirect before following it", async () => {
+    const fetchMock = stubResponses({
+      "https://example.com/start": new Response(null, {
+        status: 302,
+        headers: { location: "/next" },
+      }),
+      "https://example.com/next": new Response(null, {
+        status: 301,
+        headers: { location: "http://internal.example.com/latest/meta-data" },
+      }),
+    });
+
+    await expect(
+      requestWebResource("https://example.com/start", "text/html"),
+    ).rejects.toThrow("private network address");
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      "https://example.com/start",
+      "https://example.com/next",
+    ]);
+  });
+
+  it("follows redirects between public hosts", async () => {
+    stubResponses({
+      "https://example.com/old": new Response(null, {
+        status: 308,
+        headers: { location: "https://docs.example.org/new" },
+      }),
+      "https://docs.example.org/new": new Response("moved"),
+    });
+
+    const response = await requestWebResource(
+      "https://example.com/old",
+      "text/html",
+    );
+    expect(await response.text()).toBe("moved");
+  });
+
+  it("checks the address it connects to, not only the one it checked", async () => {
+    // The checked lookup above says public, the connection resolves localhost
+    const server = createServer((_, res) => res.end("internal"));
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve),
+    );
+    const { port } = server.address() as AddressInfo;
+    const requested = vi.fn();
+    server.on("request", requested);
+
+    await expect(
+      requestWebResource(`http://localhost:${port}/`, "text/html"),
+    ).rejects.toThrow("private network address");
+    expect(requested).not.toHaveBeenCalled();
+    server.close();
+  });
+});
+
+describe("readWebResourceText", () => {
+  it("refuses bodies larger than the limit", async () => {
+    await expect(
+      readWebResourceText(new Response("a".repeat(20)), 10),
+    ).rejects.toThrow("larger than 10 bytes");
+    await expect(
+      readWebResourceText(
+        new Response("small", { headers: { "content-length": "20" } }),
+        10,
+      ),
+    ).rejects.toThrow("larger than 10 bytes");
+    expect(await readWebResourceText(new Response("héllo"), 10)).toBe("héllo");
+  });
+});
@@ -0,0 +1,349 @@
+import { createHash } from "node:crypto";
+import { lookup as lookupCallback, LookupAddress } from "node:dns";
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP, LookupFunction } from "node:net";
+import { Agent } from "undici";
+
+import {
+  KnowledgeBaseWebFetcher,
+  KnowledgeBaseWebFetcherSchema,
+  KnowledgeBaseWebSourceOptions,
+} from "app-types/knowledge-base";
+import {
+  extractTextFromExaResult,
+  fetchExaContentsByUrls,
+} from "lib/exa/client";
+import {
+  generateDocumentStorageKey,
+  uploadObject,
+} from "lib/storage/object-storage";
+import { generateUUID } from "lib/utils";
+import { htmlToText, stripHtmlBoilerplate } from "./html-to-text";
+
+export const WEB_SOURCE_USER_AGENT =
+  "Mozilla/5.0 (compatible; MindSparkKnowledgeBase/1.0)";
+
+const HTTP_FETCH_TIMEOUT_MS = 20_000;
+const MAX_REDIRECTS = 5;
+// Pages and sitemaps are read into memory, so larger bodies are refused
+export const MAX_WEB_RESOURCE_BYTES = 10 * 1024 * 1024;
+
+// Loopback, private, link-local (cloud metadata), shared, reserved and
+// multicast ranges. IPv4-mapped IPv6 addresses match the IPv4 ranges, and
+// NAT64 and 6to4 addresses are blocked whole since they embed one.
+const PRIVATE_NETWORKS = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["2002::", 16],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, "ipv6");
+}
+
+export type WebSourceContent = {
+  title?: string | null;
+  text: string;
+};
+
+export type WebSourceFetcher = {
+  fetchPage: (
+    url: string,
+    options?: KnowledgeBaseWebSourceOptions | null,
+  ) => Promise<WebSourceContent>;
+};
+
+export class WebSourceRequestError extends Error {
+  constructor(
+    message: string,
+    public status?: number,
+  ) {
+    super(message);
+    this.name = "WebSourceRequestError";
+  }
+}
+
+export function contentChecksum(buffer: Buffer): string {
+  return createHash("sha256").update(buffer).digest("base64");
+}
+
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (!family) return true;
+  return PRIVATE_NETWORKS.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Rejects URLs that are not http(s) or whose host resolves to an address
+ * outside the public internet, so user supplied URLs cannot reach the
+ * server's own network.
+ */
+export async function assertPublicUrl(url: URL): Promise<void> {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new WebSourceRequestError(`Unsupported protocol in ${url}`, 400);
+  }
+  const hostname = url.hostname.replace(/^\[|\]$/g, "");
+  const addresses = isIP(hostname)
+    ? [hostname]
+    : await lookup(hostname, { all: true, verbatim: true }).then(
+        (results) => results.map((result) => result.address),
+        () => {
+          throw new WebSourceRequestError(`Unable to resolve ${hostname}`);
+        },
+      );
+  if (!addresses.length || addresses.some(isPrivateAddress)) {
+    throw new WebSourceRequestError(
+      `${hostname} resolves to a private network address`,
+      403,
+    );
+  }
+}
+
+// Connections resolve the host again, so the addresses they connect to are
+// checked as well; otherwise a host could resolve to a public address for
+// `assertPublicUrl` and to a private one for the request (DNS rebinding)
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookupCallback(
+    hostname,
+    { ...options, all: true, verbatim: true },
+    (error, addresses: LookupAddress[]) => {
+      if (error) return callback(error, "", 0);
+      if (
+        !addresses.length ||
+        addresses.some((address) => isPrivateAddress(address.address))
+      ) {
+        return callback(
+          new WebSourceRequestError(
+            `${hostname} resolves to a private network address`,
+            403,
+          ),
+          "",
+          0,
+        );
+      }
+      if (options.all) return callback(null, addresses);
+      callback(null, addresses[0].address, addresses[0].family);
+    },
+  );
+};
+
+const publicDispatcher = new Agent({ connect: { lookup: publicLookup } });
+
+export async function requestWebResource(
+  url: string,
+  accept: string,
+): Promise<Response> {
+  const signal = AbortSignal.timeout(HTTP_FETCH_TIMEOUT_MS);
+  let current = new URL(url);
+  let response: Response;
+  // Redirects are followed by hand so every hop is checked before it is
+  // requested.
+  for (let redirects = 0; ; redirects++) {
+    await assertPublicUrl(current);
+    response = await fetch(current.toString(), {
+      headers: { "User-Agent": WEB_SOURCE_USER_AGENT, Accept: accept },
+      redirect: "manual",
+      signal,
+      // Not part of the DOM typings; Node's fetch runs on undici
+      dispatcher: publicDispatcher,
+    } as RequestInit).catch((error) => {
+      throw error?.cause instanceof WebSourceRequestError ? error.cause : error;
+    });
+    const location = response.headers.get("location");
+    if (response.status < 300 || response.status >= 400 || !location) break;
+    if (redirects >= MAX_REDIRECTS) {
+      throw new WebSourceRequestError(`Too many redirects from ${url}`);
+    }
+    await response.body?.cancel();
+    current = new URL(location, current);
+  }
+  if (!response.ok) {
+    throw new WebSourceRequestError(
+      `Fetching ${url} failed with ${response.status}`,
+      response.status,
+    );
+  }
+  return response;
+}
+
+/**
+ * Reads the body of a web resource as text, failing once it grows past
+ * `maxBytes` instead of holding an unbounded body in memory.
+ */
+export async function readWebResourceText(
+  response: Response,
+  maxBytes = MAX_WEB_RESOURCE_BYTES,
+): Promise<string> {
+  const tooLarge = () =>
+    new WebSourceRequestError(
+      `${response.url || "Response"} is larger than ${maxBytes} bytes`,
+      413,
+    );
+  if (Number(response.headers.get("content-length")) > maxBytes) {
+    await response.body?.cancel();
+    throw tooLarge();
+  }
+  if (!response.body) return "";
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let text = "";
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+  return text + decoder.decode();
+}
+
+const exaFetcher: WebSourceFetcher = {
+  async fetchPage(url, options) {
+    const response = await fetchExaContentsByUrls([url], {
+      maxCharacters: options?.maxCharacters,
+      livecrawl: options?.livecrawl,
+    });
+    const result = response.results?.[0];
+    return {
+      title: result?.title,
+      text: extractTextFromExaResult(result),
+    };
+  },
+};
+
+const httpFetcher: WebSourceFetcher = {
+  async fetchPage(url, options) {
+    const response = await requestWebResource(
+      url,
+      "text/html,application/xhtml+xml,text/plain;q=0.9,text/markdown;q=0.9",
+    );
+    const contentType = response.headers.get("content-type") ?? "";
+    const body = await readWebResourceText(response);
+
+    let title: string | null = null;
+    let text: string;
+    if (/html/i.test(contentType) || /^\s*<(!doctype|html)/i.test(body)) {
+      title =
+        /<title\b[^>]*>([\s\S]*?)<\/title>/i
+          .exec(body)?.[1]
+          ?.replace(/\s+/g, " ")
+          .trim() || null;
+      text = htmlToText(stripHtmlBoilerplate(body));
+    } else if (/^text\/(plain|markdown)/i.test(contentType)) {
+      text = body.trim();
+    } else {
+      throw new WebSourceRequestError(
+        `Unsupported content type "${contentType}" at ${url}`,
+        415,
+      );
+    }
+
+    return {
+      title,
+      text: options?.maxCharacters
+        ? text.slice(0, options.maxCharacters)
+        : text,
+    };
+  },
+};
+
+const WEB_SOURCE_FETCHERS: Record<KnowledgeBaseWebFetcher, WebSourceFetcher> = {
+  exa: exaFetcher,
+  http: httpFetcher,
+};
+
+export function resolveWebFetcher(
+  name?: KnowledgeBaseWebFetcher | null,
+): KnowledgeBaseWebFetcher {
+  if (name) return name;
+  const configured = KnowledgeBaseWebFetcherSchema.safeParse(
+    process.env.KB_WEB_FETCHER,
+  );
+  return configured.success ? configured.data : "exa";
+}
+
+export async function fetchWebSource(
+  url: string,
+  options?: KnowledgeBaseWebSourceOptions | null,
+): Promise<WebSourceContent> {
+  return WEB_SOURCE_FETCHERS[resolveWebFetcher(options?.fetcher)].fetchPage(
+    url,
+    options,
+  );
+}
+
+export function buildWebSourceFileName(
+  title: string | null | undefined,
+  url: string,
+): string {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const urlObj = new URL(url);
+  const fallback = `${urlObj.hostname}${urlObj.pathname}`
+    .replace(/\s+/g, " ")
+    .trim();
+
+  const base = title?.trim() || fallback || "web-page";
+  const slug = base
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/-+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+
+  return `${slug || "web-page"}-${timestamp}.txt`;
+}
+
+/**
+ * Stores crawled text under a fresh storage key, so earlier revisions of the
+ * same document stay readable.
+ */
+export async function uploadWebSourceContent(options: {
+  knowledgeBaseId: string;
+  fileName: string;
+  sourceUrl: string;
+  text: string;
+  fetcher?: KnowledgeBaseWebFetcher;
+}) {
+  const buffer = Buffer.from(options.text, "utf8");
+  const checksum = contentChecksum(buffer);
+  const storageKey = generateDocumentStorageKey({
+    knowledgeBaseId: options.knowledgeBaseId,
+    documentId: generateUUID(),
+    fileName: options.fileName,
+  });
+
+  await uploadObject({
+    key: storageKey,
+    body: buffer,
+    contentType: "text/plain; charset=utf-8",
+    checksum,
+    metadata: {
+      "original-url": options.sourceUrl,
+      source: resolveWebFetcher(options.fetcher),
+    },
+  });
+
+  return { storageKey, checksum, fileSize: buffer.length };
+}
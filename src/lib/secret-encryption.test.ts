@@ -0,0 +1,34 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("server-only", () => ({}));
+
+const { decryptSecret, encryptSecret } = await import("./secret-encryption");
+
+describe("secret-encryption", () => {
+  beforeEach(() => {
+    vi.unstubAllEnvs();
+    vi.stubEnv("SECRET_ENCRYPTION_KEY", "test-secret");
+  });
+
+  it("round-trips a secret without storing it in plain text", () => {
+    const encrypted = encryptSecret("ghp_token");
+    expect(encrypted).not.toContain("ghp_token");
+    expect(encrypted).not.toBe(encryptSecret("ghp_token"));
+    expect(decryptSecret(encrypted)).toBe("ghp_token");
+  });
+
+  it("fails to decrypt with another key or tampered data", () => {
+    const encrypted = encryptSecret("ghp_token");
+    const [version, iv, tag, data] = encrypted.split(":");
+    const tampered = [
+      version,
+      iv,
+      tag,
+      Buffer.from("x" + data).toString("base64"),
+    ];
+    expect(() => decryptSecret(tampered.join(":"))).toThrow();
+
+    vi.stubEnv("SECRET_ENCRYPTION_KEY", "other-secret");
+    expect(() => decryptSecret(encrypted)).toThrow();
+  });
+});
@@ -0,0 +1,57 @@
+import "server-only";
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from "node:crypto";
+
+const ALGORITHM = "aes-256-gcm";
+const VERSION = "v1";
+
+function getKey() {
+  const secret =
+    process.env.SECRET_ENCRYPTION_KEY || process.env.BETTER_AUTH_SECRET;
+  if (!secret) {
+    throw new Error(
+      "SECRET_ENCRYPTION_KEY or BETTER_AUTH_SECRET must be set to store secrets",
+    );
+  }
+  return createHash("sha256").update(secret).digest();
+}
+
+/**
+ * Encrypts a secret for storage with AES-256-GCM. The result holds the
+ * version, IV and auth tag next to the ciphertext.
+ */
+export function encryptSecret(plainText: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, getKey(), iv);
+  const encrypted = Buffer.concat([
+    cipher.update(plainText, "utf8"),
+    cipher.final(),
+  ]);
+  return [
+    VERSION,
+    iv.toString("base64"),
+    cipher.getAuthTag().toString("base64"),
+    encrypted.toString("base64"),
+  ].join(":");
+}
+
+export function decryptSecret(encryptedText: string): string {
+  const [version, iv, tag, encrypted] = encryptedText.split(":");
+  if (version != VERSION || !iv || !tag || !encrypted) {
+    throw new Error("Invalid encrypted secret");
+  }
+  const decipher = createDecipheriv(
+    ALGORITHM,
+    getKey(),
+    Buffer.from(iv, "base64"),
+  );
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+  return Buffer.concat([
+    decipher.update(Buffer.from(encrypted, "base64")),
+    decipher.final(),
+  ]).toString("utf8");
+}
@@ -1,6 +1,10 @@
 import z from "zod";
 import { ChatMentionSchema } from "./chat";
 import { VisibilitySchema } from "./util";
+import {
+  KnowledgeBaseRerankConfig,
+  KnowledgeBaseRerankConfigSchema,
+} from "./knowledge-base";
 
 export type AgentIcon = {
   type: "emoji";
@@ -29,6 +33,7 @@ export const AgentCreateSchema = z
     instructions: AgentInstructionsSchema,
     visibility: VisibilitySchema.optional().default("private"),
     knowledgeBaseIds: z.array(z.string().uuid()).optional().default([]),
+    knowledgeBaseRerank: KnowledgeBaseRerankConfigSchema.nullable().optional(),
   })
   .strip();
 export const AgentUpdateSchema = z
@@ -45,6 +50,7 @@ export const AgentUpdateSchema = z
     instructions: AgentInstructionsSchema.optional(),
     visibility: VisibilitySchema.optional(),
     knowledgeBaseIds: z.array(z.string().uuid()).optional(),
+    knowledgeBaseRerank: KnowledgeBaseRerankConfigSchema.nullable().optional(),
   })
   .strip();
 
@@ -88,6 +94,7 @@ export type AgentKnowledgeBaseLink = {
 
 export type Agent = AgentSummary & {
   instructions: z.infer<typeof AgentInstructionsSchema>;
+  knowledgeBaseRerank?: KnowledgeBaseRerankConfig | null;
 };
 
 export type AgentRepository = {
@@ -76,7 +76,7 @@ export type EmbeddingUsageLogInsert = {
   agentId?: string | null;
   knowledgeBaseId?: string | null;
   documentId?: string | null;
-  operation: "ingest" | "query" | "delete";
+  operation: "ingest" | "query" | "delete" | "rerank";
   tokens: number;
   model: string;
   metadata?: Record<string, unknown> | null;
@@ -16,6 +16,7 @@ export type ChatMetadata = {
       knowledgeBaseId: string;
       documentId: string;
       documentName: string;
+      citation?: string;
       score: number;
     }>;
   };
@@ -63,6 +64,15 @@ export const ChatMentionSchema = z.discriminatedUnion("type", [
     toolCount: z.number().optional(),
     serverId: z.string(),
   }),
+  z.object({
+    type: z.literal("mcpResource"),
+    name: z.string(),
+    uri: z.string(),
+    description: z.string().optional(),
+    mimeType: z.string().optional(),
+    serverName: z.string().optional(),
+    serverId: z.string(),
+  }),
   z.object({
     type: z.literal("workflow"),
     name: z.string(),
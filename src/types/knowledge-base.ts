@@ -10,12 +10,36 @@ export const KnowledgeBaseDocumentStatusSchema = z.enum([
   "failed",
 ]);
 
+export const KnowledgeBaseSearchModeSchema = z.enum(["vector", "hybrid"]);
+
+// Must match the `vector(...)` size of knowledge_base_document_chunk.embedding.
+export const KNOWLEDGE_BASE_MAX_EMBEDDING_DIMENSION = 1536;
+
+export const KnowledgeBaseEmbeddingProviderSchema = z.enum([
+  "openai",
+  "google",
+  "ollama",
+  "openai-compatible",
+]);
+
+export const KnowledgeBaseEmbeddingConfigSchema = z.object({
+  provider: KnowledgeBaseEmbeddingProviderSchema,
+  model: z.string().min(1).max(200),
+  dimension: z
+    .number()
+    .int()
+    .positive()
+    .max(KNOWLEDGE_BASE_MAX_EMBEDDING_DIMENSION),
+});
+
 export const KnowledgeBaseCreateSchema = z
   .object({
     name: z.string().min(1).max(120),
     description: z.string().max(2000).optional(),
     visibility: VisibilitySchema.optional().default("private"),
     organizationId: z.string().uuid().nullable().optional(),
+    searchMode: KnowledgeBaseSearchModeSchema.optional().default("vector"),
+    embedding: KnowledgeBaseEmbeddingConfigSchema.optional(),
   })
   .strip();
 
@@ -25,9 +49,108 @@ export const KnowledgeBaseUpdateSchema = z
     description: z.string().max(2000).optional(),
     visibility: VisibilitySchema.optional(),
     organizationId: z.string().uuid().nullable().optional(),
+    searchMode: KnowledgeBaseSearchModeSchema.optional(),
+    embedding: KnowledgeBaseEmbeddingConfigSchema.optional(),
   })
   .strip();
 
+export const DEFAULT_KNOWLEDGE_BASE_EMBEDDING: z.infer<
+  typeof KnowledgeBaseEmbeddingConfigSchema
+> = {
+  provider: "openai",
+  model: "text-embedding-3-small",
+  dimension: 1536,
+};
+
+export const KNOWLEDGE_BASE_EMBEDDING_PRESETS: Array<
+  z.infer<typeof KnowledgeBaseEmbeddingConfigSchema>
+> = [
+  DEFAULT_KNOWLEDGE_BASE_EMBEDDING,
+  { provider: "openai", model: "text-embedding-3-large", dimension: 1536 },
+  { provider: "google", model: "text-embedding-004", dimension: 768 },
+  { provider: "google", model: "gemini-embedding-001", dimension: 1536 },
+  { provider: "ollama", model: "nomic-embed-text", dimension: 768 },
+  { provider: "ollama", model: "mxbai-embed-large", dimension: 1024 },
+  { provider: "ollama", model: "bge-m3", dimension: 1024 },
+];
+
+export const KnowledgeBaseRerankProviderSchema = z.enum([
+  "cohere",
+  "jina",
+  "llm",
+]);
+
+export const KnowledgeBaseRerankConfigSchema = z.object({
+  provider: KnowledgeBaseRerankProviderSchema,
+  // For the "llm" provider this is a chat model as "<provider>/<model>".
+  model: z.string().min(1).max(200),
+  // Number of search hits rescored before the top results are kept.
+  candidates: z.number().int().min(1).max(100),
+  // Results scoring below this relevance (0-1) are dropped.
+  threshold: z.number().min(0).max(1),
+});
+
+export const DEFAULT_KNOWLEDGE_BASE_RERANK_MODELS: Record<
+  z.infer<typeof KnowledgeBaseRerankProviderSchema>,
+  string
+> = {
+  cohere: "rerank-v3.5",
+  jina: "jina-reranker-v2-base-multilingual",
+  llm: "openai/gpt-4.1-mini",
+};
+
+export const DEFAULT_KNOWLEDGE_BASE_RERANK: z.infer<
+  typeof KnowledgeBaseRerankConfigSchema
+> = {
+  provider: "cohere",
+  model: DEFAULT_KNOWLEDGE_BASE_RERANK_MODELS.cohere,
+  candidates: 30,
+  threshold: 0.2,
+};
+
+// Web-sourced documents can be re-crawled on a schedule (in hours).
+export const KnowledgeBaseRefreshIntervalSchema = z
+  .number()
+  .int()
+  .min(1)
+  .max(24 * 365);
+
+export const KNOWLEDGE_BASE_REFRESH_INTERVAL_PRESETS = [6, 24, 24 * 7, 24 * 30];
+
+// "exa" crawls through the Exa contents API; "http" fetches pages directly.
+export const KnowledgeBaseWebFetcherSchema = z.enum(["exa", "http"]);
+
+export const KnowledgeBaseWebSourceOptionsSchema = z.object({
+  maxCharacters: z.number().int().min(500).max(12000).optional(),
+  livecrawl: z.enum(["always", "fallback", "preferred"]).optional(),
+  fetcher: KnowledgeBaseWebFetcherSchema.optional(),
+});
+
+export const KNOWLEDGE_BASE_CRAWL_MAX_PAGES = 500;
+
+export const KnowledgeBaseCrawlStatusSchema = z.enum([
+  "pending",
+  "running",
+  "completed",
+  "failed",
+]);
+
+export const KnowledgeBaseCrawlCreateSchema =
+  KnowledgeBaseWebSourceOptionsSchema.extend({
+    // A page to start link discovery from, or a sitemap.xml.
+    url: z.string().url(),
+    include: z.array(z.string().min(1).max(200)).max(20).default([]),
+    exclude: z.array(z.string().min(1).max(200)).max(20).default([]),
+    maxPages: z
+      .number()
+      .int()
+      .min(1)
+      .max(KNOWLEDGE_BASE_CRAWL_MAX_PAGES)
+      .default(50),
+    refreshIntervalHours:
+      KnowledgeBaseRefreshIntervalSchema.nullable().optional(),
+  });
+
 export const KnowledgeBaseDocumentCreateSchema = z
   .object({
     knowledgeBaseId: z.string().uuid(),
@@ -36,12 +159,19 @@ export const KnowledgeBaseDocumentCreateSchema = z
     mimeType: z.string().min(1),
     storageKey: z.string().min(1),
     checksum: z.string().min(1).optional(),
+    sourceUrl: z.string().url().optional(),
+    sourceOptions: KnowledgeBaseWebSourceOptionsSchema.optional(),
+    refreshIntervalHours:
+      KnowledgeBaseRefreshIntervalSchema.nullable().optional(),
+    crawlId: z.string().uuid().optional(),
   })
   .strip();
 
 export const KnowledgeBaseDocumentUpdateSchema = z
   .object({
     fileName: z.string().min(1).optional(),
+    refreshIntervalHours:
+      KnowledgeBaseRefreshIntervalSchema.nullable().optional(),
   })
   .strip();
 
@@ -51,6 +181,34 @@ export type KnowledgeBaseVisibility = z.infer<
 export type KnowledgeBaseDocumentStatus = z.infer<
   typeof KnowledgeBaseDocumentStatusSchema
 >;
+export type KnowledgeBaseSearchMode = z.infer<
+  typeof KnowledgeBaseSearchModeSchema
+>;
+export type KnowledgeBaseEmbeddingProvider = z.infer<
+  typeof KnowledgeBaseEmbeddingProviderSchema
+>;
+export type KnowledgeBaseEmbeddingConfig = z.infer<
+  typeof KnowledgeBaseEmbeddingConfigSchema
+>;
+
+export type KnowledgeBaseRerankProvider = z.infer<
+  typeof KnowledgeBaseRerankProviderSchema
+>;
+export type KnowledgeBaseRerankConfig = z.infer<
+  typeof KnowledgeBaseRerankConfigSchema
+>;
+
+export type KnowledgeBaseWebSourceOptions = z.infer<
+  typeof KnowledgeBaseWebSourceOptionsSchema
+>;
+
+export type KnowledgeBaseWebFetcher = z.infer<
+  typeof KnowledgeBaseWebFetcherSchema
+>;
+
+export type KnowledgeBaseCrawlStatus = z.infer<
+  typeof KnowledgeBaseCrawlStatusSchema
+>;
 
 export type KnowledgeBase = {
   id: string;
@@ -59,6 +217,8 @@ export type KnowledgeBase = {
   visibility: KnowledgeBaseVisibility;
   ownerUserId: string;
   organizationId?: string | null;
+  searchMode: KnowledgeBaseSearchMode;
+  embedding: KnowledgeBaseEmbeddingConfig;
   createdAt: Date;
   updatedAt: Date;
   documentCount: number;
@@ -82,24 +242,102 @@ export type KnowledgeBaseDocument = {
   status: KnowledgeBaseDocumentStatus;
   error?: string | null;
   chunkCount: number;
+  totalChunks: number;
   embeddingTokens: number;
   processedAt?: Date | null;
+  checksum?: string | null;
+  revision: number;
+  sourceUrl?: string | null;
+  sourceOptions?: KnowledgeBaseWebSourceOptions | null;
+  refreshIntervalHours?: number | null;
+  lastCheckedAt?: Date | null;
+  nextRefreshAt?: Date | null;
+  crawlId?: string | null;
   createdAt: Date;
   updatedAt: Date;
 };
 
+export type KnowledgeBaseDocumentRevision = {
+  id: string;
+  documentId: string;
+  revision: number;
+  checksum?: string | null;
+  storageKey: string;
+  fileSize: number;
+  createdAt: Date;
+};
+
+export type KnowledgeBaseCrawl = {
+  id: string;
+  knowledgeBaseId: string;
+  createdByUserId?: string | null;
+  rootUrl: string;
+  include: string[];
+  exclude: string[];
+  maxPages: number;
+  sourceOptions?: KnowledgeBaseWebSourceOptions | null;
+  refreshIntervalHours?: number | null;
+  status: KnowledgeBaseCrawlStatus;
+  error?: string | null;
+  // Null until discovery has run.
+  pagesDiscovered?: number | null;
+  pagesImported: number;
+  pagesSkipped: number;
+  pagesFailed: number;
+  // Imported pages whose embedding has completed.
+  pagesEmbedded: number;
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt?: Date | null;
+};
+
+// Discovered page URLs and the import cursor, only needed by the worker.
+export type KnowledgeBaseCrawlJob = Omit<
+  KnowledgeBaseCrawl,
+  "pagesEmbedded"
+> & {
+  pageUrls: string[] | null;
+  nextPageIndex: number;
+};
+
 export type KnowledgeBaseDocumentWithStatus = KnowledgeBaseDocument & {
   uploadedByName?: string | null;
 };
 
+export type KnowledgeBaseChunkMetadata = {
+  headings?: string[];
+  pageStart?: number;
+  pageEnd?: number;
+  startOffset: number;
+  endOffset: number;
+};
+
 export type KnowledgeBaseSearchChunk = {
+  chunkId: string;
+  knowledgeBaseId: string;
+  documentId: string;
+  documentName: string;
+  content: string;
+  metadata?: KnowledgeBaseChunkMetadata | null;
+  score: number;
+};
+
+export type KnowledgeBaseCitation = {
+  citationId: number;
   knowledgeBaseId: string;
   documentId: string;
   documentName: string;
+  citation: string;
   content: string;
   score: number;
 };
 
+export type KnowledgeBaseSearchToolResult = {
+  query: string;
+  results: KnowledgeBaseCitation[];
+  guide?: string;
+};
+
 export type KnowledgeBaseRepository = {
   createKnowledgeBase: (
     userId: string,
@@ -137,7 +375,12 @@ export type KnowledgeBaseRepository = {
   deleteDocument: (documentId: string, userId: string) => Promise<void>;
   markDocumentProcessing: (
     documentId: string,
+    options?: { staleBefore?: Date },
   ) => Promise<KnowledgeBaseDocument | null>;
+  resetDocumentProgress: (
+    documentId: string,
+    totalChunks: number,
+  ) => Promise<void>;
   markDocumentCompleted: (
     documentId: string,
     data: {
@@ -147,20 +390,70 @@ export type KnowledgeBaseRepository = {
     },
   ) => Promise<void>;
   markDocumentFailed: (documentId: string, error: string) => Promise<void>;
-  upsertDocumentChunks: (
+  appendDocumentChunks: (
     documentId: string,
     knowledgeBaseId: string,
     chunks: Array<{
       chunkIndex: number;
       content: string;
+      metadata?: KnowledgeBaseChunkMetadata;
       embedding: number[];
     }>,
-  ) => Promise<void>;
+    embeddingTokens: number,
+  ) => Promise<boolean>;
   removeDocumentChunks: (documentId: string) => Promise<void>;
-  findNextPendingDocument: () => Promise<KnowledgeBaseDocument | null>;
+  listEmbeddingConfigs: (
+    knowledgeBaseIds: string[],
+  ) => Promise<
+    Array<{ knowledgeBaseId: string } & KnowledgeBaseEmbeddingConfig>
+  >;
+  findNextPendingDocument: (options?: {
+    staleBefore?: Date;
+  }) => Promise<KnowledgeBaseDocument | null>;
+  listDocumentRevisions: (
+    documentId: string,
+    userId: string,
+  ) => Promise<KnowledgeBaseDocumentRevision[]>;
+  claimDueDocumentRefresh: (now: Date) => Promise<KnowledgeBaseDocument | null>;
+  recordDocumentRefresh: (
+    documentId: string,
+    data: {
+      checkedAt: Date;
+      // Omitted when the source is unchanged.
+      content?: { storageKey: string; checksum: string; fileSize: number };
+    },
+  ) => Promise<KnowledgeBaseDocumentRevision | null>;
+  createCrawl: (
+    userId: string,
+    knowledgeBaseId: string,
+    payload: z.infer<typeof KnowledgeBaseCrawlCreateSchema>,
+  ) => Promise<KnowledgeBaseCrawl>;
+  listCrawls: (
+    knowledgeBaseId: string,
+    userId: string,
+  ) => Promise<KnowledgeBaseCrawl[]>;
+  claimNextCrawl: (options?: {
+    staleBefore?: Date;
+  }) => Promise<KnowledgeBaseCrawlJob | null>;
+  // Extends a claimed crawl while discovery runs; null once another worker
+  // has reclaimed it.
+  renewCrawlLease: (crawlId: string, leasedAt: Date) => Promise<Date | null>;
+  // False when another worker already stored the discovered pages.
+  setCrawlPages: (crawlId: string, pageUrls: string[]) => Promise<boolean>;
+  // Advances the cursor past one page; false when another worker already did.
+  recordCrawlPage: (
+    crawlId: string,
+    pageIndex: number,
+    result: "imported" | "skipped" | "failed",
+  ) => Promise<boolean>;
+  releaseCrawl: (crawlId: string) => Promise<void>;
+  finishCrawl: (crawlId: string, error?: string) => Promise<void>;
+  listDocumentSourceUrls: (knowledgeBaseId: string) => Promise<Set<string>>;
   searchKnowledgeBaseChunks: (options: {
     knowledgeBaseIds: string[];
+    documentIds?: string[];
     embedding: number[];
+    query?: string;
     limit?: number;
   }) => Promise<KnowledgeBaseSearchChunk[]>;
 };
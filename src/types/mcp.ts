@@ -6,15 +6,56 @@ import { Tool } from "ai";
 import { tag } from "lib/tag";
 import { z } from "zod";
 
+export const MCPSamplingConfigZodSchema = z.object({
+  enabled: z
+    .boolean()
+    .optional()
+    .describe("Lets the server request completions; off unless set"),
+  model: z
+    .object({
+      provider: z.string(),
+      model: z.string(),
+    })
+    .optional()
+    .describe("The model that answers sampling requests of the server"),
+  maxTokens: z.number().int().positive().optional(),
+  hourlyTokenBudget: z.number().int().positive().optional(),
+});
+
+// A credential that each user of a shared server provides personally
+export const MCPCredentialSlotZodSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("header"),
+    name: z.string().min(1).describe("The request header to set"),
+    label: z.string().optional(),
+    description: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal("env"),
+    name: z.string().min(1).describe("The environment variable to set"),
+    label: z.string().optional(),
+    description: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal("oauth"),
+    label: z.string().optional(),
+    description: z.string().optional(),
+  }),
+]);
+
 export const MCPRemoteConfigZodSchema = z.object({
   url: z.string().url().describe("The URL of the SSE endpoint"),
   headers: z.record(z.string(), z.string()).optional(),
+  sampling: MCPSamplingConfigZodSchema.optional(),
+  credentials: z.array(MCPCredentialSlotZodSchema).optional(),
 });
 
 export const MCPStdioConfigZodSchema = z.object({
   command: z.string().min(1).describe("The command to run"),
   args: z.array(z.string()).optional(),
   env: z.record(z.string(), z.string()).optional(),
+  sampling: MCPSamplingConfigZodSchema.optional(),
+  credentials: z.array(MCPCredentialSlotZodSchema).optional(),
 });
 
 export const AllowedMCPServerZodSchema = z.object({
@@ -24,6 +65,8 @@ export const AllowedMCPServerZodSchema = z.object({
 
 export type AllowedMCPServer = z.infer<typeof AllowedMCPServerZodSchema>;
 
+export type MCPSamplingConfig = z.infer<typeof MCPSamplingConfigZodSchema>;
+export type MCPCredentialSlot = z.infer<typeof MCPCredentialSlotZodSchema>;
 export type MCPRemoteConfig = z.infer<typeof MCPRemoteConfigZodSchema>;
 export type MCPStdioConfig = z.infer<typeof MCPStdioConfigZodSchema>;
 
@@ -39,14 +82,157 @@ export type MCPToolInfo = {
   };
 };
 
+export type MCPResourceInfo = {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+};
+
+export type MCPPromptInfo = {
+  name: string;
+  description?: string;
+  arguments?: {
+    name: string;
+    description?: string;
+    required?: boolean;
+  }[];
+};
+
 export type MCPServerInfo = {
   name: string;
   config: MCPServerConfig;
   error?: unknown;
   status: "connected" | "disconnected" | "loading" | "authorizing";
   toolInfo: MCPToolInfo[];
+  resourceInfo?: MCPResourceInfo[];
+  promptInfo?: MCPPromptInfo[];
+  // Set for members of shared servers that declare credential slots
+  credentialStatus?: "missing" | "configured";
+  health?: MCPServerHealth;
+};
+
+export type MCPServerHealth = {
+  state: "healthy" | "unhealthy" | "authorizing" | "unknown";
+  checkedAt?: Date;
+  healthySince?: Date;
+  // Share of the tracked time the server was healthy, between 0 and 1
+  uptime?: number;
+  consecutiveFailures: number;
+  nextRetryAt?: Date;
+  // Latest first
+  errors: { at: Date; message: string }[];
+  // Over the latest tool calls
+  toolCalls: {
+    count: number;
+    errorCount: number;
+    averageLatencyMs?: number;
+    p95LatencyMs?: number;
+  };
+};
+
+// What the manager keeps of a server's health, bounded to its latest errors
+// and tool calls; times are epoch milliseconds
+export type MCPServerHealthRecord = {
+  state: MCPServerHealth["state"];
+  checkedAt?: number;
+  healthySince?: number;
+  trackedMs: number;
+  healthyMs: number;
+  consecutiveFailures: number;
+  nextRetryAt?: number;
+  errors: { at: number; message: string }[];
+  toolCalls: { latencyMs: number; isError: boolean }[];
 };
 
+export interface MCPServerHealthRepository {
+  selectAll(): Promise<Record<string, MCPServerHealthRecord>>;
+  upsert(mcpServerId: string, record: MCPServerHealthRecord): Promise<void>;
+}
+
+export const MCPPromptRequestZodSchema = z.object({
+  name: z.string().min(1),
+  arguments: z.record(z.string(), z.string()).optional(),
+});
+
+// The chat tool call that started an MCP tool call, used to route
+// elicitation requests of the server to the user
+export type MCPToolCallContext = {
+  toolCallId?: string;
+  userId?: string;
+  signal?: AbortSignal; // cancels the request to the server
+};
+
+export type MCPElicitationField = {
+  type: "string" | "number" | "integer" | "boolean";
+  title?: string;
+  description?: string;
+  enum?: string[];
+  enumNames?: string[];
+  default?: boolean;
+};
+
+export type MCPElicitation = {
+  id: string;
+  serverId: string;
+  serverName: string;
+  toolCallId?: string;
+  message: string;
+  requestedSchema: {
+    type: "object";
+    properties: Record<string, MCPElicitationField>;
+    required?: string[];
+  };
+  createdAt: Date;
+};
+
+export const MCPElicitationResponseZodSchema = z.object({
+  action: z.enum(["accept", "decline", "cancel"]),
+  content: z
+    .record(z.string(), z.union([z.string(), z.number(), z.boolean()]))
+    .optional(),
+});
+
+export type MCPElicitationResponse = z.infer<
+  typeof MCPElicitationResponseZodSchema
+>;
+
+/**
+ * Pending elicitations are stored so that the answer reaches the instance
+ * whose MCP request waits for it, whichever instance receives it.
+ */
+export interface MCPElicitationRepository {
+  insert(
+    elicitation: MCPElicitation & { userId: string; expiresAt: Date },
+  ): Promise<void>;
+  selectPendingByUserId(
+    userId: string,
+    toolCallId?: string,
+  ): Promise<MCPElicitation[]>;
+  selectPendingById(id: string, userId: string): Promise<MCPElicitation | null>;
+  /** Stores the response only while the elicitation is still pending. */
+  respond(
+    id: string,
+    userId: string,
+    response: MCPElicitationResponse,
+  ): Promise<boolean>;
+  selectResponse(id: string): Promise<MCPElicitationResponse | null>;
+  delete(id: string): Promise<void>;
+}
+
+export interface MCPSamplingUsageRepository {
+  /**
+   * Reserves up to `maxTokens` of what is left of the server's budget since
+   * `since`, atomically across instances. Returns null when nothing is left.
+   */
+  reserve(
+    serverId: string,
+    options: { budget: number; maxTokens: number; since: Date },
+  ): Promise<{ id: string; tokens: number } | null>;
+  /** Replaces a reservation with the tokens actually used. */
+  settle(id: string, tokens: number): Promise<void>;
+}
+
 export type McpServerInsert = {
   name: string;
   config: MCPServerConfig;
@@ -230,6 +416,8 @@ export type CallToolResult = z.infer<typeof CallToolResultSchema>;
 export type McpOAuthSession = {
   id: string;
   mcpServerId: string;
+  // Set for the sessions of users that authorize a shared server personally
+  userId?: string | null;
   serverUrl: string;
   clientInfo?: OAuthClientInformationFull;
   tokens?: OAuthTokens;
@@ -245,6 +433,7 @@ export type McpOAuthRepository = {
   // Get session with valid tokens (authenticated)
   getAuthenticatedSession(
     mcpServerId: string,
+    userId?: string,
   ): Promise<McpOAuthSession | undefined>;
 
   // Get session by OAuth state (for callback handling)
@@ -269,8 +458,105 @@ export type McpOAuthRepository = {
     state: string,
     mcpServerId: string,
     data: Partial<McpOAuthSession>,
+    userId?: string,
   ): Promise<McpOAuthSession>;
 
   // Delete a session by its OAuth state
   deleteByState(state: string): Promise<void>;
 };
+
+export const MCPUserCredentialsUpdateZodSchema = z.object({
+  values: z.record(z.string(), z.string()),
+});
+
+export type MCPUserCredentialStatus = {
+  slots: MCPCredentialSlot[];
+  configured: string[];
+  authorized: boolean;
+};
+
+export interface MCPUserCredentialRepository {
+  selectValues(
+    mcpServerId: string,
+    userId: string,
+  ): Promise<Record<string, string> | null>;
+  selectServerIdsByUserId(userId: string): Promise<string[]>;
+  upsertValues(
+    mcpServerId: string,
+    userId: string,
+    values: Record<string, string>,
+  ): Promise<void>;
+  deleteValues(mcpServerId: string, userId: string): Promise<void>;
+}
+
+// Secrets of exported configs are replaced with `${NAME}` placeholders
+export const MCPConfigBundleParameterZodSchema = z.object({
+  name: z.string().min(1),
+  server: z.string(),
+  type: z.enum(["header", "env", "query", "arg"]),
+  key: z.string(),
+});
+
+export const MCPConfigBundleZodSchema = z.object({
+  version: z.literal(1),
+  exportedAt: z.string(),
+  servers: z.array(
+    z.object({
+      name: z.string().min(1),
+      config: z.unknown(),
+      customization: z
+        .object({
+          prompt: z.string().nullable().optional(),
+          tools: z.record(z.string(), z.string()).optional(),
+        })
+        .optional(),
+    }),
+  ),
+  parameters: z.array(MCPConfigBundleParameterZodSchema).default([]),
+});
+
+export const MCPConfigImportResolutionZodSchema = z.discriminatedUnion(
+  "action",
+  [
+    z.object({ action: z.literal("skip") }),
+    z.object({ action: z.literal("overwrite") }),
+    z.object({ action: z.literal("rename"), name: z.string().min(1) }),
+  ],
+);
+
+export const MCPConfigImportZodSchema = z.object({
+  // Validated together with its server configs by `parseMCPConfigBundle`
+  bundle: z.unknown(),
+  parameters: z.record(z.string(), z.string()).default({}),
+  // Keyed by the server name in the bundle, servers without a name
+  // conflict are created as they are
+  resolutions: z
+    .record(z.string(), MCPConfigImportResolutionZodSchema)
+    .default({}),
+});
+
+export type MCPConfigBundleParameter = z.infer<
+  typeof MCPConfigBundleParameterZodSchema
+>;
+export type MCPConfigBundle = z.infer<typeof MCPConfigBundleZodSchema>;
+export type MCPConfigBundleServer = MCPConfigBundle["servers"][number];
+export type MCPConfigImportResolution = z.infer<
+  typeof MCPConfigImportResolutionZodSchema
+>;
+
+export type MCPConfigImportPreviewItem = {
+  name: string;
+  // "conflict" when the name is taken by a server the user cannot see
+  status: "new" | "changed" | "unchanged" | "conflict";
+  // Only for servers the user can see, with parameterized secrets
+  existingConfig?: MCPServerConfig;
+  changedKeys?: string[];
+  canOverwrite: boolean;
+};
+
+export type MCPConfigImportResult = {
+  name: string;
+  status: "created" | "updated" | "skipped" | "failed";
+  id?: string;
+  error?: string;
+};
@@ -1,4 +1,5 @@
 import { Tool } from "ai";
+import z from "zod";
 import { ObjectJsonSchema7, Visibility } from "./util";
 import { NodeKind } from "lib/ai/workflow/workflow.interface";
 import { tag } from "lib/tag";
@@ -16,6 +17,8 @@ export type DBWorkflow = {
   name: string;
   description?: string;
   isPublished: boolean;
+  // Snapshot run by chat, agents and webhooks; null until first published
+  publishedVersion?: number | null;
   visibility: Visibility;
   userId: string;
   createdAt: Date;
@@ -91,6 +94,7 @@ export interface WorkflowRepository {
       | "updatedAt"
       | "visibility"
       | "isPublished"
+      | "publishedVersion"
       | "version"
     >,
     noGenerateInputNode?: boolean,
@@ -117,6 +121,299 @@ export interface WorkflowRepository {
   >;
 }
 
+export type WorkflowVersion = {
+  id: string;
+  workflowId: string;
+  version: number;
+  nodes: DBNode[];
+  edges: DBEdge[];
+  publishedByUserId?: string | null;
+  publishedByUserName?: string | null;
+  createdAt: Date;
+};
+
+export type WorkflowVersionSummary = Omit<WorkflowVersion, "nodes" | "edges">;
+
+// Version numbers in API paths; versions are stored as int4.
+export const WorkflowVersionParamSchema = z.coerce
+  .number()
+  .int()
+  .positive()
+  .max(2 ** 31 - 1);
+
+export interface WorkflowVersionRepository {
+  /** Snapshots the saved structure as the next version and pins it. */
+  publish(workflowId: string, userId: string): Promise<WorkflowVersion>;
+  /**
+   * Removes the pin, so the workflow stops running as a tool, webhook,
+   * schedule or sub-workflow. Its versions are kept.
+   */
+  unpublish(workflowId: string): Promise<void>;
+  /**
+   * Restores the structure of `version` into the draft and publishes it
+   * again as a new version.
+   */
+  rollback(
+    workflowId: string,
+    version: number,
+    userId: string,
+  ): Promise<WorkflowVersion | null>;
+  selectVersions(workflowId: string): Promise<WorkflowVersionSummary[]>;
+  selectVersion(
+    workflowId: string,
+    version: number,
+  ): Promise<WorkflowVersion | null>;
+  /** The workflow with the nodes and edges of its published version. */
+  selectPublishedStructure(
+    workflowId: string,
+    option?: {
+      ignoreNote?: boolean;
+    },
+  ): Promise<
+    | null
+    | (DBWorkflow & {
+        nodes: DBNode[];
+        edges: DBEdge[];
+      })
+  >;
+}
+
+export type WorkflowRunTrigger = "editor" | "chat" | "schedule" | "webhook";
+
+// "waiting": suspended by an Approval node until its approver decides
+export type WorkflowRunStatus = "running" | "success" | "fail" | "waiting";
+
+// "recovered": the node failed but its error policy kept the run going
+export type WorkflowNodeRunStatus = WorkflowRunStatus | "recovered";
+
+export type WorkflowRunError = { name: string; message: string };
+
+export type WorkflowRun = {
+  id: string;
+  workflowId: string;
+  userId?: string | null;
+  userName?: string | null;
+  trigger: WorkflowRunTrigger;
+  status: WorkflowRunStatus;
+  input?: unknown;
+  output?: unknown;
+  error?: WorkflowRunError | null;
+  startedAt: Date;
+  endedAt?: Date | null;
+};
+
+export type WorkflowNodeRun = {
+  id: string;
+  runId: string;
+  nodeId: string;
+  nodeName: string;
+  kind: NodeKind;
+  status: WorkflowNodeRunStatus;
+  input?: unknown;
+  output?: unknown;
+  error?: WorkflowRunError | null;
+  startedAt: Date;
+  endedAt?: Date | null;
+};
+
+/**
+ * Everything needed to resume a suspended run: the structure it ran with
+ * and the runtime state of its executor.
+ */
+export type WorkflowRunSnapshot = {
+  nodes: DBNode[];
+  edges: DBEdge[];
+  context: { userId?: string; workflowIds: string[] };
+  query: Record<string, unknown>;
+  inputs: Record<string, unknown>;
+  outputs: Record<string, unknown>;
+  errors: Record<string, WorkflowRunError & { attempts: number }>;
+  approvals: Record<string, WorkflowApprovalDecision>;
+  // Approval nodes the run is waiting on
+  waitingNodeIds: string[];
+  // Branches still expected by merge nodes
+  branchWaits: Record<string, number>;
+  // Set when the run was started by a chat tool call, to update its result
+  chat?: { threadId: string; toolCallId: string };
+};
+
+export interface WorkflowRunRepository {
+  insertRun(
+    run: Pick<
+      WorkflowRun,
+      "id" | "workflowId" | "userId" | "trigger" | "input" | "startedAt"
+    >,
+  ): Promise<void>;
+  insertNodeRun(nodeRun: Omit<WorkflowNodeRun, "id">): Promise<void>;
+  finishRun(
+    id: string,
+    result: Pick<WorkflowRun, "status" | "output" | "error" | "endedAt">,
+  ): Promise<void>;
+  /**
+   * Saves the run as waiting together with the approvals it requests, in one
+   * transaction, so an approval cannot be decided before its run waits.
+   */
+  suspendRun(
+    id: string,
+    snapshot: WorkflowRunSnapshot,
+    approvals?: WorkflowApprovalRequest[],
+  ): Promise<void>;
+  /**
+   * Moves a waiting run back to running and returns its snapshot, or null
+   * when the run is not waiting (e.g. another resume already claimed it).
+   */
+  claimWaitingRun(
+    id: string,
+  ): Promise<(WorkflowRun & { snapshot: WorkflowRunSnapshot }) | null>;
+  selectRunsByWorkflowId(
+    workflowId: string,
+    option?: {
+      userId?: string; // only runs triggered by this user
+      limit?: number;
+    },
+  ): Promise<WorkflowRun[]>;
+  selectRunById(
+    id: string,
+  ): Promise<(WorkflowRun & { nodeRuns: WorkflowNodeRun[] }) | null>;
+}
+
+export type WorkflowApprovalStatus = "pending" | "approved" | "rejected";
+
+export type WorkflowApprovalDecision = {
+  approved: boolean;
+  decidedBy: string; // Name of the user who decided
+  comment?: string;
+};
+
+export type WorkflowApproval = {
+  id: string;
+  runId: string;
+  workflowId: string;
+  workflowName?: string;
+  workflowIcon?: WorkflowIcon | null;
+  nodeId: string;
+  nodeName: string;
+  message?: string | null;
+  approverUserId: string;
+  status: WorkflowApprovalStatus;
+  comment?: string | null;
+  decidedByUserId?: string | null;
+  decidedByUserName?: string | null;
+  createdAt: Date;
+  decidedAt?: Date | null;
+};
+
+export type WorkflowApprovalRequest = Pick<
+  WorkflowApproval,
+  "workflowId" | "nodeId" | "nodeName" | "message" | "approverUserId"
+>;
+
+export const WorkflowApprovalDecideSchema = z.object({
+  approved: z.boolean(),
+  comment: z.string().trim().max(1000).optional(),
+});
+
+export interface WorkflowApprovalRepository {
+  selectApprovalById(id: string): Promise<WorkflowApproval | null>;
+  selectPendingApprovalsByUserId(userId: string): Promise<WorkflowApproval[]>;
+  selectApprovalsByRunId(runId: string): Promise<WorkflowApproval[]>;
+  /**
+   * Records the decision only while the approval is still pending and its
+   * run has not ended.
+   */
+  decideApproval(
+    id: string,
+    decision: Pick<WorkflowApproval, "comment" | "decidedByUserId"> & {
+      status: Exclude<WorkflowApprovalStatus, "pending">;
+    },
+  ): Promise<WorkflowApproval | null>;
+}
+
+export type WorkflowSchedule = {
+  id: string;
+  workflowId: string;
+  cron: string;
+  timezone: string;
+  // Fixed values for the Input node
+  input: Record<string, unknown>;
+  enabled: boolean;
+  nextRunAt?: Date | null;
+  lastRunAt?: Date | null;
+  lastRunId?: string | null;
+  lastRunStatus?: WorkflowRunStatus | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export const WorkflowScheduleCreateSchema = z.object({
+  cron: z.string().trim().min(1),
+  timezone: z.string().min(1).default("UTC"),
+  input: z.record(z.string(), z.unknown()).default({}),
+  enabled: z.boolean().default(true),
+});
+
+export const WorkflowScheduleUpdateSchema = z.object({
+  cron: z.string().trim().min(1).optional(),
+  timezone: z.string().min(1).optional(),
+  input: z.record(z.string(), z.unknown()).optional(),
+  enabled: z.boolean().optional(),
+});
+
+export interface WorkflowScheduleRepository {
+  selectSchedulesByWorkflowId(workflowId: string): Promise<WorkflowSchedule[]>;
+  selectScheduleById(id: string): Promise<WorkflowSchedule | null>;
+  insertSchedule(
+    schedule: Pick<
+      WorkflowSchedule,
+      "workflowId" | "cron" | "timezone" | "input" | "enabled" | "nextRunAt"
+    >,
+  ): Promise<WorkflowSchedule>;
+  updateSchedule(
+    id: string,
+    schedule: Partial<
+      Pick<
+        WorkflowSchedule,
+        "cron" | "timezone" | "input" | "enabled" | "nextRunAt"
+      >
+    >,
+  ): Promise<WorkflowSchedule | null>;
+  deleteSchedule(id: string): Promise<void>;
+  /**
+   * Claims the enabled schedule that is most overdue by moving its next run
+   * to `getNextRunAt(schedule)`. Returns null when nothing is due.
+   */
+  claimDueSchedule(
+    now: Date,
+    getNextRunAt: (schedule: WorkflowSchedule) => Date | null,
+  ): Promise<WorkflowSchedule | null>;
+  recordScheduleRun(
+    id: string,
+    run: { runId: string; startedAt: Date },
+  ): Promise<void>;
+}
+
+export type WorkflowWebhook = {
+  id: string;
+  workflowId: string;
+  secret: string;
+  enabled: boolean;
+  lastCalledAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export interface WorkflowWebhookRepository {
+  selectByWorkflowId(workflowId: string): Promise<WorkflowWebhook | null>;
+  insert(
+    webhook: Pick<WorkflowWebhook, "workflowId" | "secret" | "enabled">,
+  ): Promise<WorkflowWebhook>;
+  update(
+    workflowId: string,
+    webhook: Partial<Pick<WorkflowWebhook, "secret" | "enabled">>,
+  ): Promise<WorkflowWebhook | null>;
+  markCalled(workflowId: string, calledAt: Date): Promise<void>;
+}
+
 export type VercelAIWorkflowTool = Tool & {
   _workflowId: string;
   _toolName: string;
@@ -131,7 +428,7 @@ export type VercelAIWorkflowToolStreaming = {
   kind: NodeKind;
   endedAt?: number;
   id: string;
-  status: "running" | "success" | "fail";
+  status: "running" | "success" | "fail" | "recovered" | "waiting";
   error?: { name: string; message: string };
   result?: { input?: any; output?: any };
 };
@@ -146,7 +443,9 @@ export type VercelAIWorkflowToolStreamingResult = {
   history: VercelAIWorkflowToolStreaming[];
   error?: { name: string; message: string };
   result?: any;
-  status: "running" | "success" | "fail";
+  status: "running" | "success" | "fail" | "waiting";
+  // Set while waiting, so the result can be updated once the run resumes
+  runId?: string;
 };
 
 export const VercelAIWorkflowToolStreamingResultTag =
@@ -1,18 +1,38 @@
 import "dotenv/config";
 
-import { eq } from "drizzle-orm";
-
+import {
+  KnowledgeBaseCrawlJob,
+  KnowledgeBaseDocument,
+} from "app-types/knowledge-base";
 import { knowledgeBaseRepository } from "lib/db/repository";
-import { pgDb as db } from "lib/db/pg/db.pg";
-import { KnowledgeBaseSchema } from "lib/db/pg/schema.pg";
-import { logEmbeddingUsage } from "lib/analytics/usage-logger";
-import { extractTextFromDocument } from "lib/rag/document-parser";
-import { embedTextChunks } from "lib/rag/embedder";
-import { chunkText } from "lib/rag/text-chunker";
-import { getObjectBuffer } from "lib/storage/object-storage";
+import { ingestDocument } from "lib/rag/document-ingestion";
+import { discoverCrawlPages } from "lib/rag/web-crawler";
+import {
+  buildWebSourceFileName,
+  contentChecksum,
+  fetchWebSource,
+  uploadWebSourceContent,
+} from "lib/rag/web-source";
 
 const POLL_INTERVAL_MS = Number(process.env.KB_WORKER_POLL_INTERVAL_MS ?? 5000);
-const MAX_CHUNKS = Number(process.env.KB_WORKER_MAX_CHUNKS ?? 40);
+const EMBED_BATCH_SIZE = Math.max(
+  1,
+  Number(process.env.KB_WORKER_EMBED_BATCH_SIZE ?? 64),
+);
+const STALE_AFTER_MS = Number(
+  process.env.KB_WORKER_STALE_AFTER_MS ?? 10 * 60 * 1000,
+);
+const REFRESH_CHECK_INTERVAL_MS = Number(
+  process.env.KB_WORKER_REFRESH_CHECK_INTERVAL_MS ?? 60 * 1000,
+);
+const REFRESH_BATCH_SIZE = Math.max(
+  1,
+  Number(process.env.KB_WORKER_REFRESH_BATCH_SIZE ?? 10),
+);
+const CRAWL_BATCH_SIZE = Math.max(
+  1,
+  Number(process.env.KB_WORKER_CRAWL_BATCH_SIZE ?? 10),
+);
 
 function sleep(ms: number) {
   return new Promise((resolve) => {
@@ -20,113 +40,224 @@ function sleep(ms: number) {
   });
 }
 
-async function processDocument(documentId: string): Promise<void> {
-  const claimed =
-    await knowledgeBaseRepository.markDocumentProcessing(documentId);
-  if (!claimed) {
-    return;
+function staleBefore(): Date {
+  return new Date(Date.now() - STALE_AFTER_MS);
+}
+
+class CrawlLeaseLostError extends Error {
+  constructor(crawlId: string) {
+    super(`Crawl ${crawlId} was taken over by another worker`);
+    this.name = "CrawlLeaseLostError";
   }
+}
 
-  console.info(`[RAG] Processing document ${claimed.id}`);
+async function refreshWebDocument(
+  document: KnowledgeBaseDocument,
+): Promise<void> {
+  if (!document.sourceUrl) return;
 
-  try {
-    const fileBuffer = await getObjectBuffer(claimed.storageKey);
-    if (!fileBuffer.length) {
-      throw new Error("Document is empty");
-    }
+  const checkedAt = new Date();
+  const { text } = await fetchWebSource(
+    document.sourceUrl,
+    document.sourceOptions,
+  );
+  if (!text.trim()) {
+    throw new Error("No textual content found at the source URL");
+  }
 
-    const text = await extractTextFromDocument({
-      buffer: fileBuffer,
-      mimeType: claimed.mimeType,
-      fileName: claimed.fileName,
+  if (contentChecksum(Buffer.from(text, "utf8")) === document.checksum) {
+    await knowledgeBaseRepository.recordDocumentRefresh(document.id, {
+      checkedAt,
     });
+    console.info(`[RAG] Web document ${document.id} is unchanged`);
+    return;
+  }
 
-    if (!text) {
-      throw new Error("Unable to extract text from document");
-    }
-
-    const chunks = chunkText(text).slice(0, MAX_CHUNKS);
+  const content = await uploadWebSourceContent({
+    knowledgeBaseId: document.knowledgeBaseId,
+    fileName: document.fileName,
+    sourceUrl: document.sourceUrl,
+    text,
+    fetcher: document.sourceOptions?.fetcher,
+  });
+  const revision = await knowledgeBaseRepository.recordDocumentRefresh(
+    document.id,
+    { checkedAt, content },
+  );
+  console.info(
+    `[RAG] Web document ${document.id} changed; queued revision ${revision?.revision} for embedding`,
+  );
+}
 
-    await knowledgeBaseRepository.removeDocumentChunks(claimed.id);
+async function refreshDueDocuments(): Promise<void> {
+  for (let count = 0; count < REFRESH_BATCH_SIZE; count++) {
+    const due = await knowledgeBaseRepository.claimDueDocumentRefresh(
+      new Date(),
+    );
+    if (!due) return;
 
-    let totalEmbeddingTokens = 0;
+    // A failed crawl leaves the current revision searchable; the claim has
+    // already scheduled the next attempt.
+    await refreshWebDocument(due).catch((error) => {
+      console.error(`[RAG] Failed to refresh web document ${due.id}`, error);
+    });
+  }
+}
 
-    if (chunks.length) {
-      const { embeddings, tokens } = await embedTextChunks(chunks);
-      totalEmbeddingTokens = tokens;
-      const payload = embeddings.map((embedding, index) => ({
-        chunkIndex: index,
-        content: chunks[index],
-        embedding,
-      }));
-      await knowledgeBaseRepository.upsertDocumentChunks(
-        claimed.id,
-        claimed.knowledgeBaseId,
-        payload,
-      );
+async function importCrawlPage(
+  crawl: KnowledgeBaseCrawlJob,
+  pageUrl: string,
+  userId: string,
+): Promise<"imported" | "failed"> {
+  try {
+    const { title, text } = await fetchWebSource(pageUrl, crawl.sourceOptions);
+    if (!text.trim()) {
+      console.warn(`[RAG] Crawl ${crawl.id}: no text at ${pageUrl}`);
+      return "failed";
     }
 
-    await knowledgeBaseRepository.markDocumentCompleted(claimed.id, {
-      chunkCount: chunks.length,
-      embeddingTokens: totalEmbeddingTokens,
-      processedAt: new Date(),
+    const fileName = buildWebSourceFileName(title, pageUrl);
+    const stored = await uploadWebSourceContent({
+      knowledgeBaseId: crawl.knowledgeBaseId,
+      fileName,
+      sourceUrl: pageUrl,
+      text,
+      fetcher: crawl.sourceOptions?.fetcher,
+    });
+    await knowledgeBaseRepository.insertDocumentPlaceholder(userId, {
+      knowledgeBaseId: crawl.knowledgeBaseId,
+      fileName,
+      fileSize: stored.fileSize,
+      mimeType: "text/plain",
+      storageKey: stored.storageKey,
+      checksum: stored.checksum,
+      sourceUrl: pageUrl,
+      sourceOptions: crawl.sourceOptions ?? undefined,
+      refreshIntervalHours: crawl.refreshIntervalHours,
+      crawlId: crawl.id,
     });
+    return "imported";
+  } catch (error) {
+    console.error(
+      `[RAG] Crawl ${crawl.id}: failed to import ${pageUrl}`,
+      error,
+    );
+    return "failed";
+  }
+}
+
+// Imports a batch of crawled pages and hands the crawl back, so embedding of
+// the imported pages is not held up by a long crawl.
+async function processNextCrawl(): Promise<boolean> {
+  const crawl = await knowledgeBaseRepository.claimNextCrawl({
+    staleBefore: staleBefore(),
+  });
+  if (!crawl) return false;
 
-    const ownerInfo = await db
-      .select({
-        ownerUserId: KnowledgeBaseSchema.ownerUserId,
-        organizationId: KnowledgeBaseSchema.organizationId,
-      })
-      .from(KnowledgeBaseSchema)
-      .where(eq(KnowledgeBaseSchema.id, claimed.knowledgeBaseId))
-      .limit(1);
-
-    const primaryOwner = ownerInfo.at(0);
-    const usageUserId =
-      claimed.uploadedByUserId ?? primaryOwner?.ownerUserId ?? null;
-    const usageOrganizationId =
-      claimed.organizationId ?? primaryOwner?.organizationId ?? null;
-
-    if (usageUserId && totalEmbeddingTokens > 0) {
-      await logEmbeddingUsage({
-        userId: usageUserId,
-        organizationId: usageOrganizationId ?? undefined,
-        agentId: null,
-        knowledgeBaseId: claimed.knowledgeBaseId,
-        documentId: claimed.id,
-        operation: "ingest",
-        tokens: totalEmbeddingTokens,
-        model: "text-embedding-3-small",
-        metadata: {
-          fileName: claimed.fileName,
-          chunkCount: chunks.length,
+  try {
+    if (!crawl.createdByUserId) {
+      throw new Error("The user who started this crawl no longer exists");
+    }
+
+    let pageUrls = crawl.pageUrls;
+    if (!pageUrls) {
+      console.info(`[RAG] Discovering pages for crawl ${crawl.id}`);
+      // Discovery can take far longer than the stale window, so the claim is
+      // renewed as pages are visited to keep other workers from taking it.
+      let leasedAt = crawl.updatedAt;
+      pageUrls = await discoverCrawlPages({
+        url: crawl.rootUrl,
+        include: crawl.include,
+        exclude: crawl.exclude,
+        maxPages: crawl.maxPages,
+        onVisit: async () => {
+          if (Date.now() - leasedAt.getTime() < STALE_AFTER_MS / 4) return;
+          const renewed = await knowledgeBaseRepository.renewCrawlLease(
+            crawl.id,
+            leasedAt,
+          );
+          if (!renewed) throw new CrawlLeaseLostError(crawl.id);
+          leasedAt = renewed;
         },
       });
+      if (!pageUrls.length) {
+        throw new Error("No pages matched the crawl settings");
+      }
+      if (!(await knowledgeBaseRepository.setCrawlPages(crawl.id, pageUrls))) {
+        throw new CrawlLeaseLostError(crawl.id);
+      }
+      console.info(
+        `[RAG] Crawl ${crawl.id} discovered ${pageUrls.length} pages`,
+      );
     }
 
-    console.info(
-      `[RAG] Completed document ${claimed.id} with ${chunks.length} chunks (tokens=${totalEmbeddingTokens})`,
+    const existing = await knowledgeBaseRepository.listDocumentSourceUrls(
+      crawl.knowledgeBaseId,
+    );
+    const batchEnd = Math.min(
+      crawl.nextPageIndex + CRAWL_BATCH_SIZE,
+      pageUrls.length,
     );
+    for (let index = crawl.nextPageIndex; index < batchEnd; index++) {
+      const pageUrl = pageUrls[index];
+      const result = existing.has(pageUrl)
+        ? "skipped"
+        : await importCrawlPage(crawl, pageUrl, crawl.createdByUserId);
+      const recorded = await knowledgeBaseRepository.recordCrawlPage(
+        crawl.id,
+        index,
+        result,
+      );
+      if (!recorded) {
+        console.info(`[RAG] Crawl ${crawl.id} was taken over; stopping`);
+        return true;
+      }
+    }
+
+    if (batchEnd >= pageUrls.length) {
+      await knowledgeBaseRepository.finishCrawl(crawl.id);
+      console.info(`[RAG] Completed crawl ${crawl.id}`);
+    } else {
+      await knowledgeBaseRepository.releaseCrawl(crawl.id);
+    }
   } catch (error) {
-    console.error(`[RAG] Failed to process document ${documentId}`, error);
-    await knowledgeBaseRepository.markDocumentFailed(
-      documentId,
+    if (error instanceof CrawlLeaseLostError) {
+      console.info(`[RAG] ${error.message}; stopping`);
+      return true;
+    }
+    console.error(`[RAG] Crawl ${crawl.id} failed`, error);
+    await knowledgeBaseRepository.finishCrawl(
+      crawl.id,
       error instanceof Error ? error.message : "Unknown error",
     );
   }
+  return true;
 }
 
 async function workerLoop(): Promise<void> {
   console.info("[RAG] Knowledge base worker started");
+  let lastRefreshCheck = 0;
   while (true) {
     try {
-      const pending = await knowledgeBaseRepository.findNextPendingDocument();
+      if (Date.now() - lastRefreshCheck >= REFRESH_CHECK_INTERVAL_MS) {
+        lastRefreshCheck = Date.now();
+        await refreshDueDocuments();
+      }
+
+      const crawled = await processNextCrawl();
+
+      const pending = await knowledgeBaseRepository.findNextPendingDocument({
+        staleBefore: staleBefore(),
+      });
       if (!pending) {
-        await sleep(POLL_INTERVAL_MS);
+        if (!crawled) await sleep(POLL_INTERVAL_MS);
         continue;
       }
 
-      await processDocument(pending.id);
+      await ingestDocument(pending.id, {
+        staleBefore: staleBefore(),
+        batchSize: EMBED_BATCH_SIZE,
+      });
     } catch (error) {
       console.error("[RAG] Worker iteration failed", error);
       await sleep(POLL_INTERVAL_MS);
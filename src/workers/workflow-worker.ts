@@ -0,0 +1,117 @@
+import "dotenv/config";
+
+import { colorize } from "consola/utils";
+
+import { WorkflowSchedule } from "app-types/workflow";
+import { initMCPManager } from "lib/ai/mcp/mcp-manager";
+import { createWorkflowExecutor } from "lib/ai/workflow/executor/workflow-executor";
+import { recordWorkflowRun } from "lib/ai/workflow/executor/workflow-run-recorder";
+import { getNextScheduleRunAt } from "lib/ai/workflow/schedule";
+import {
+  workflowScheduleRepository,
+  workflowVersionRepository,
+} from "lib/db/repository";
+import logger from "logger";
+
+const POLL_INTERVAL_MS = Number(
+  process.env.WORKFLOW_WORKER_POLL_INTERVAL_MS ?? 15 * 1000,
+);
+const RUN_TIMEOUT_MS = Number(
+  process.env.WORKFLOW_WORKER_RUN_TIMEOUT_MS ?? 5 * 60 * 1000,
+);
+
+function sleep(ms: number) {
+  return new Promise((resolve) => {
+    setTimeout(resolve, ms);
+  });
+}
+
+function nextRunAfter(schedule: WorkflowSchedule): Date | null {
+  try {
+    return getNextScheduleRunAt(schedule.cron, schedule.timezone);
+  } catch (error) {
+    // An expression that no longer parses pauses the schedule for good.
+    console.error(
+      `[WORKFLOW] Schedule ${schedule.id} has an invalid cron expression`,
+      error,
+    );
+    return null;
+  }
+}
+
+async function runSchedule(schedule: WorkflowSchedule): Promise<void> {
+  // Schedules run the published version, like webhooks and tool calls, so
+  // unpublished edits never run unattended.
+  const workflow = await workflowVersionRepository.selectPublishedStructure(
+    schedule.workflowId,
+    { ignoreNote: true },
+  );
+  if (!workflow) {
+    console.warn(
+      `[WORKFLOW] Schedule ${schedule.id} skipped: workflow is not published`,
+    );
+    return;
+  }
+
+  const app = createWorkflowExecutor({
+    nodes: workflow.nodes,
+    edges: workflow.edges,
+    logger: logger.withDefaults({
+      message: colorize("cyan", `WORKFLOW '${workflow.name}' `),
+    }),
+    context: { userId: workflow.userId, workflowIds: [workflow.id] },
+  });
+  const recorder = recordWorkflowRun(app, {
+    workflowId: workflow.id,
+    nodes: workflow.nodes,
+    userId: workflow.userId,
+    trigger: "schedule",
+  });
+  await workflowScheduleRepository.recordScheduleRun(schedule.id, {
+    runId: recorder.runId,
+    startedAt: new Date(),
+  });
+
+  console.info(
+    `[WORKFLOW] Running schedule ${schedule.id} of workflow ${workflow.id}`,
+  );
+  const result = await app.run(
+    { query: schedule.input },
+    { disableHistory: true, timeout: RUN_TIMEOUT_MS },
+  );
+  await recorder.flush();
+
+  if (result.isOk) {
+    console.info(`[WORKFLOW] Completed run ${recorder.runId}`);
+  } else {
+    console.error(`[WORKFLOW] Run ${recorder.runId} failed`, result.error);
+  }
+}
+
+async function workerLoop(): Promise<void> {
+  await initMCPManager();
+  console.info("[WORKFLOW] Workflow schedule worker started");
+  while (true) {
+    try {
+      const due = await workflowScheduleRepository.claimDueSchedule(
+        new Date(),
+        nextRunAfter,
+      );
+      if (!due) {
+        await sleep(POLL_INTERVAL_MS);
+        continue;
+      }
+
+      // The claim has already scheduled the next run, so a failed run is
+      // not retried before then.
+      await runSchedule(due).catch((error) => {
+        console.error(`[WORKFLOW] Schedule ${due.id} failed`, error);
+      });
+    } catch (error) {
+      console.error("[WORKFLOW] Worker iteration failed", error);
+      await sleep(POLL_INTERVAL_MS);
+    }
+  }
+}
+
+void workerLoop();